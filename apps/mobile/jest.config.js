@@ -33,6 +33,8 @@ module.exports = {
   },
   collectCoverageFrom: [
     'src/game/**/*.ts',
+    // Isomorphic rules module re-exported by src/game/engine (also used by Edge Functions)
+    'supabase/functions/_shared/gameEngine.ts',
     'src/components/scoreboard/**/*.{ts,tsx}',
     'src/contexts/ScoreboardContext.tsx',
     'src/hooks/**/*.{ts,tsx}',
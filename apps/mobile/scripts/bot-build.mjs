@@ -0,0 +1,30 @@
+// Loads the bot modules compiled by `npm run bot:build` (tsconfig.scripts.json)
+// so the bot training and simulation scripts can run under plain Node.
+// The rules engine they build on is exported alongside.
+import { createRequire } from 'module';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const botDir = join(__dirname, '..', 'build', 'scripts', 'src', 'game', 'bot');
+const engineDir = join(botDir, '..', 'engine');
+
+// The app logger reads React Native's __DEV__ global
+globalThis.__DEV__ = false;
+
+export function loadBotModules() {
+  if (!existsSync(join(botDir, 'simulation.js'))) {
+    console.error('❌ Bot modules are not built — run `npm run bot:build` first');
+    process.exit(1);
+  }
+  const require = createRequire(import.meta.url);
+  return {
+    ...require(join(engineDir, 'index.js')),
+    ...require(join(botDir, 'index.js')),
+    ...require(join(botDir, 'learned.js')),
+    ...require(join(botDir, 'training.js')),
+    ...require(join(botDir, 'benchmark.js')),
+    ...require(join(botDir, 'simulation.js')),
+  };
+}
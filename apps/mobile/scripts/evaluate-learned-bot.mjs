@@ -0,0 +1,48 @@
+/**
+ * Pit the learned bot against a built-in tier over seeded games
+ *
+ * Every seeded deal is played four times, with the learned bot in each seat
+ * against three copies of the opponent tier; an even match-up wins 25%.
+ *
+ * Usage: npm run bot:evaluate -- [--model learned-bot.json] [--games 4000]
+ *                                [--opponent hard] [--seed <32 hex chars>]
+ */
+
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { loadBotModules } from './bot-build.mjs';
+
+const { values: args } = parseArgs({
+  options: {
+    model: { type: 'string', default: 'learned-bot.json' },
+    games: { type: 'string', default: '4000' },
+    opponent: { type: 'string', default: 'hard' },
+    seed: { type: 'string', default: '0123456789abcdef0123456789abcdef' },
+  },
+});
+
+const { parseLearnedBotModel, createLearnedBotAI, runBotBenchmark, formatBotBenchmark } =
+  loadBotModules();
+
+const model = parseLearnedBotModel(readFileSync(args.model, 'utf-8'));
+if (!model) {
+  console.error(`❌ ${args.model} is not a learned bot model this build can load`);
+  process.exit(1);
+}
+
+const deals = Math.max(1, Math.ceil(Number(args.games) / 4));
+console.log(`🎲 ${deals * 4} games: learned bot vs ${args.opponent} (seed ${args.seed})\n`);
+
+const result = runBotBenchmark({
+  challenger: createLearnedBotAI(model),
+  opponent: args.opponent,
+  deals,
+  seed: args.seed,
+});
+console.log(formatBotBenchmark([result]));
+
+// 95% interval of the win rate (normal approximation)
+const margin = 1.96 * Math.sqrt((result.winRate * (1 - result.winRate)) / result.games);
+console.log(
+  `\nWin rate ${(result.winRate * 100).toFixed(1)}% ± ${(margin * 100).toFixed(1)}% (25% = even with ${args.opponent})`
+);
@@ -0,0 +1,82 @@
+/**
+ * Export game_hands_training to a JSONL training dataset
+ *
+ * Writes one row per line (the columns listed in TRAINING_ROW_COLUMNS),
+ * ordered by session, match and play sequence, for scripts/train-bot.mjs.
+ *
+ * Usage: npm run bot:export -- [--out training-data.jsonl] [--since 2026-08-01]
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { readFileSync, createWriteStream } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { loadBotModules } from './bot-build.mjs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const PAGE_SIZE = 1000;
+
+const { values: args } = parseArgs({
+  options: {
+    out: { type: 'string', default: 'training-data.jsonl' },
+    since: { type: 'string' },
+  },
+});
+
+// Read .env file manually
+const envPath = join(__dirname, '.env');
+const envContent = readFileSync(envPath, 'utf-8');
+const envVars = {};
+envContent.split('\n').forEach(line => {
+  const [key, ...valueParts] = line.split('=');
+  if (key && valueParts.length) {
+    envVars[key.trim()] = valueParts.join('=').trim();
+  }
+});
+
+const supabaseUrl = envVars.EXPO_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = envVars.SUPABASE_SERVICE_ROLE_KEY;
+
+// game_hands_training is only readable with the service role (RLS)
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error(
+    '❌ Missing Supabase credentials — create apps/mobile/scripts/.env with EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY'
+  );
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+const { TRAINING_ROW_COLUMNS } = loadBotModules();
+
+console.log(
+  `📤 Exporting game_hands_training${args.since ? ` since ${args.since}` : ''} → ${args.out}\n`
+);
+
+const out = createWriteStream(args.out);
+let exported = 0;
+for (let from = 0; ; from += PAGE_SIZE) {
+  let query = supabase
+    .from('game_hands_training')
+    .select(TRAINING_ROW_COLUMNS.join(','))
+    .order('game_session_id')
+    .order('round_number')
+    .order('play_sequence')
+    .range(from, from + PAGE_SIZE - 1);
+  if (args.since) query = query.gte('created_at', args.since);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('❌ Error fetching training rows:', error.message);
+    process.exit(1);
+  }
+  for (const row of data) out.write(JSON.stringify(row) + '\n');
+  exported += data.length;
+  if (data.length < PAGE_SIZE) break;
+  process.stdout.write(`   ${exported} rows…\r`);
+}
+out.end();
+
+console.log(`✅ Exported ${exported} rows`);
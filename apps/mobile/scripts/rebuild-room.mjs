@@ -0,0 +1,143 @@
+/**
+ * Rebuild a room's game_state from its game_events
+ *
+ * Folds the room's event log through rebuildGameStateFromEvents (the reducer
+ * in the shared game engine) from its last first-match deal, prints what the
+ * rebuild found (plays out of turn, cards that were not in hand, …) and the
+ * columns where the stored game_state differs, then writes the rebuilt state
+ * with apply_rebuilt_game_state. The state it replaces is kept in
+ * game_state_rebuilds. The write is refused if the room logged another event
+ * in the meantime, so rerun it for a live room.
+ *
+ * Usage: npm run rooms:rebuild -- <room code> [--dry-run]
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { loadBotModules } from './bot-build.mjs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const PAGE_SIZE = 1000;
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+const roomCode = positionals[0]?.toUpperCase();
+if (!roomCode) {
+  console.error('Usage: npm run rooms:rebuild -- <room code> [--dry-run]');
+  process.exit(1);
+}
+
+// Read .env file manually
+const envPath = join(__dirname, '.env');
+const envContent = readFileSync(envPath, 'utf-8');
+const envVars = {};
+envContent.split('\n').forEach(line => {
+  const [key, ...valueParts] = line.split('=');
+  if (key && valueParts.length) {
+    envVars[key.trim()] = valueParts.join('=').trim();
+  }
+});
+
+const supabaseUrl = envVars.EXPO_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = envVars.SUPABASE_SERVICE_ROLE_KEY;
+
+// game_events and apply_rebuilt_game_state are only readable/executable with the service role
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error(
+    '❌ Missing Supabase credentials — create apps/mobile/scripts/.env with EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY'
+  );
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+const { rebuildGameStateFromEvents, diffGameLogState } = loadBotModules();
+
+const { data: room, error: roomError } = await supabase
+  .from('rooms')
+  .select('id, code, status')
+  .eq('code', roomCode)
+  .maybeSingle();
+if (roomError || !room) {
+  console.error(`❌ Room ${roomCode} not found${roomError ? `: ${roomError.message}` : ''}`);
+  process.exit(1);
+}
+
+const { data: stored, error: stateError } = await supabase
+  .from('game_state')
+  .select('*')
+  .eq('room_id', room.id)
+  .maybeSingle();
+if (stateError || !stored) {
+  console.error(
+    `❌ No game_state for room ${roomCode}${stateError ? `: ${stateError.message}` : ''}`
+  );
+  process.exit(1);
+}
+
+const events = [];
+for (let from = 0; ; from += PAGE_SIZE) {
+  const { data, error } = await supabase
+    .from('game_events')
+    .select('sequence_number, event_type, player_index, event_data')
+    .eq('room_id', room.id)
+    .order('sequence_number')
+    .range(from, from + PAGE_SIZE - 1);
+  if (error) {
+    console.error('❌ Error fetching game_events:', error.message);
+    process.exit(1);
+  }
+  events.push(...data);
+  if (data.length < PAGE_SIZE) break;
+}
+
+console.log(
+  `🔁 Rebuilding room ${room.code} (${room.status}) from ${events.length} events${args['dry-run'] ? ' (dry run)' : ''}\n`
+);
+
+const rebuild = rebuildGameStateFromEvents(events);
+if (!rebuild.valid) {
+  console.error(`❌ ${rebuild.error}`);
+  process.exit(1);
+}
+
+console.log(
+  `✅ Folded ${rebuild.eventCount} events through sequence ${rebuild.throughSequence}: match ${rebuild.state.match_number}, ${rebuild.state.game_phase}, player ${rebuild.state.current_turn} to act`
+);
+for (const issue of rebuild.issues) {
+  console.log(`   ⚠️  ${issue}`);
+}
+
+const changed = diffGameLogState(rebuild.state, stored);
+if (changed.length === 0) {
+  console.log('\n✅ Stored game_state matches the log — nothing to write');
+  process.exit(0);
+}
+console.log(`\n   Differs from the stored game_state in: ${changed.join(', ')}`);
+
+if (args['dry-run']) {
+  console.log('\n(dry run — nothing written)');
+  process.exit(0);
+}
+
+const { data: rebuildId, error: applyError } = await supabase.rpc('apply_rebuilt_game_state', {
+  p_room_id: room.id,
+  p_state: rebuild.state,
+  p_through_sequence: rebuild.throughSequence,
+  p_issues: rebuild.issues,
+});
+if (applyError) {
+  console.error('❌ Error writing the rebuilt game_state:', applyError.message);
+  process.exit(1);
+}
+
+console.log(`\n✅ Wrote the rebuilt game_state (game_state_rebuilds ${rebuildId})`);
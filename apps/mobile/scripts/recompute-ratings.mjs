@@ -0,0 +1,204 @@
+/**
+ * Recompute ranked ratings by replaying game_history with Glicko-2
+ *
+ * Replays every ranked game, oldest first, through rateRankedGame (the code
+ * complete-game rates with) and applies the season soft reset at the end of
+ * each archived season, like roll_over_season. Finish positions are rebuilt
+ * from the final scores: the winner first, then lowest score; disconnected
+ * players are placed last and the voided player is not rated (humans replaced
+ * by a bot are not in game_history, so their abandoned games are not
+ * replayed). The final
+ * rating, deviation and volatility of every player are written through
+ * apply_ranked_rating, and player_stats.ranked_rank_points is set to the same
+ * rating so the ranked leaderboard matches.
+ *
+ * Usage: npm run ratings:recompute -- [--dry-run]
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { loadBotModules } from './bot-build.mjs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const PAGE_SIZE = 1000;
+const SLOTS = [1, 2, 3, 4];
+
+const { values: args } = parseArgs({
+  options: {
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+// Read .env file manually
+const envPath = join(__dirname, '.env');
+const envContent = readFileSync(envPath, 'utf-8');
+const envVars = {};
+envContent.split('\n').forEach(line => {
+  const [key, ...valueParts] = line.split('=');
+  if (key && valueParts.length) {
+    envVars[key.trim()] = valueParts.join('=').trim();
+  }
+});
+
+const supabaseUrl = envVars.EXPO_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = envVars.SUPABASE_SERVICE_ROLE_KEY;
+
+// apply_ranked_rating is only executable with the service role
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error(
+    '❌ Missing Supabase credentials — create apps/mobile/scripts/.env with EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY'
+  );
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+const { DEFAULT_GLICKO2_RATING, glicko2IdlePeriods, rateRankedGame, softResetSeasonRating } =
+  loadBotModules();
+
+/** Rated players of one game_history row, with finish positions rebuilt from the scores */
+function rankedPlayers(game) {
+  const seats = SLOTS.map(slot => ({
+    id: game[`player_${slot}_id`],
+    score: game[`player_${slot}_score`] ?? 0,
+    disconnected: !!game[`player_${slot}_disconnected`],
+    wasBot: !!game[`player_${slot}_was_bot`],
+  })).filter(seat => seat.id && !seat.wasBot && seat.id !== game.voided_user_id);
+
+  const finishers = seats
+    .filter(seat => !seat.disconnected)
+    .sort((a, b) => (b.id === game.winner_id) - (a.id === game.winner_id) || a.score - b.score);
+  return seats.map(seat => {
+    if (seat.disconnected) return { id: seat.id, finishPosition: 4 };
+    // Equal scores share a position (rateRankedGame does not rate ties)
+    const ahead = finishers.findIndex(
+      other =>
+        other.score === seat.score && (other.id === game.winner_id) === (seat.id === game.winner_id)
+    );
+    return { id: seat.id, finishPosition: ahead + 1 };
+  });
+}
+
+const { data: archivedSeasons, error: seasonsError } = await supabase
+  .from('seasons')
+  .select('number, ends_at')
+  .eq('status', 'archived')
+  .order('ends_at');
+if (seasonsError) {
+  console.error('❌ Error fetching seasons:', seasonsError.message);
+  process.exit(1);
+}
+const seasonEnds = (archivedSeasons ?? []).map(season => Date.parse(season.ends_at));
+
+console.log(`🔁 Replaying ranked game_history${args['dry-run'] ? ' (dry run)' : ''}\n`);
+
+/** user id → { rating, lastRatedAt } */
+const players = new Map();
+let nextSeasonEnd = 0;
+let replayed = 0;
+for (let from = 0; ; from += PAGE_SIZE) {
+  const { data, error } = await supabase
+    .from('game_history')
+    .select(
+      'id, finished_at, winner_id, voided_user_id, ' +
+        SLOTS.map(
+          slot =>
+            `player_${slot}_id, player_${slot}_score, player_${slot}_disconnected, player_${slot}_was_bot`
+        ).join(', ')
+    )
+    .eq('game_type', 'ranked')
+    .order('finished_at')
+    .order('id')
+    .range(from, from + PAGE_SIZE - 1);
+  if (error) {
+    console.error('❌ Error fetching game_history:', error.message);
+    process.exit(1);
+  }
+
+  for (const game of data) {
+    const finishedAt = Date.parse(game.finished_at);
+    // Soft reset at every season boundary crossed since the previous game
+    while (nextSeasonEnd < seasonEnds.length && finishedAt >= seasonEnds[nextSeasonEnd]) {
+      for (const player of players.values()) {
+        player.rating = {
+          ...player.rating,
+          rating: softResetSeasonRating(Math.round(player.rating.rating)),
+        };
+      }
+      nextSeasonEnd++;
+    }
+
+    const seats = rankedPlayers(game);
+    if (seats.length < 2) continue;
+    const rated = rateRankedGame(
+      seats.map(seat => {
+        const known = players.get(seat.id);
+        return {
+          id: seat.id,
+          rating: known?.rating ?? DEFAULT_GLICKO2_RATING,
+          finishPosition: seat.finishPosition,
+          idlePeriods: glicko2IdlePeriods(known?.lastRatedAt ?? null, finishedAt),
+        };
+      })
+    );
+    for (const [id, rating] of rated) {
+      players.set(id, { rating, lastRatedAt: game.finished_at });
+    }
+    replayed++;
+  }
+
+  if (data.length < PAGE_SIZE) break;
+  process.stdout.write(`   ${replayed} games…\r`);
+}
+
+// Resets after the last ranked game still apply to everyone
+for (; nextSeasonEnd < seasonEnds.length; nextSeasonEnd++) {
+  for (const player of players.values()) {
+    player.rating = {
+      ...player.rating,
+      rating: softResetSeasonRating(Math.round(player.rating.rating)),
+    };
+  }
+}
+
+console.log(`✅ Replayed ${replayed} ranked games for ${players.size} players\n`);
+
+const ranking = [...players].sort(([, a], [, b]) => b.rating.rating - a.rating.rating);
+for (const [id, { rating }] of ranking.slice(0, 10)) {
+  console.log(
+    `   ${id.slice(0, 8)}  ${Math.round(rating.rating)} ± ${Math.round(rating.deviation)}`
+  );
+}
+
+if (args['dry-run']) {
+  console.log('\n(dry run — nothing written)');
+  process.exit(0);
+}
+
+let failed = 0;
+for (const [id, { rating, lastRatedAt }] of players) {
+  const rounded = Math.round(rating.rating);
+  const { error: applyError } = await supabase.rpc('apply_ranked_rating', {
+    p_user_id: id,
+    p_rating: rounded,
+    p_deviation: rating.deviation,
+    p_volatility: rating.volatility,
+    p_rated_at: lastRatedAt,
+  });
+  const { error: statsError } = applyError
+    ? { error: applyError }
+    : await supabase.from('player_stats').update({ ranked_rank_points: rounded }).eq('user_id', id);
+  if (statsError) {
+    console.error(`❌ ${id.slice(0, 8)}: ${statsError.message}`);
+    failed++;
+  }
+}
+
+console.log(
+  `\n✅ Wrote ratings for ${players.size - failed} players${failed ? `, ${failed} failed` : ''}`
+);
+process.exit(failed ? 1 : 0);
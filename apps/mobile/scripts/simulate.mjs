@@ -0,0 +1,105 @@
+/**
+ * Batch self-play simulation for balance testing
+ *
+ * Plays seeded games to the target score between the chosen bots (one per
+ * seat, 2 to 4 seats) and reports win rate per seat, average cards left,
+ * combo frequency, game length and how often the target score is reached.
+ * The same seed always deals the same hands.
+ *
+ * Usage: npm run bot:simulate -- [--bots hard,hard,hard,hard] [--games 200]
+ *                                [--rules standard] [--scoring classic] [--target 101]
+ *                                [--variant extra-card] [--seed <32 hex chars>]
+ *                                [--model learned-bot.json] [--format json|csv] [--out <file>]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { loadBotModules } from './bot-build.mjs';
+
+const { values: args } = parseArgs({
+  options: {
+    bots: { type: 'string', default: 'hard,hard,hard,hard' },
+    games: { type: 'string', default: '200' },
+    rules: { type: 'string', default: 'standard' },
+    scoring: { type: 'string', default: 'classic' },
+    target: { type: 'string', default: '101' },
+    variant: { type: 'string', default: 'extra-card' },
+    seed: { type: 'string', default: '0123456789abcdef0123456789abcdef' },
+    model: { type: 'string', default: 'learned-bot.json' },
+    budget: { type: 'string' },
+    format: { type: 'string', default: 'json' },
+    out: { type: 'string' },
+  },
+});
+
+const {
+  RULE_SET_PRESETS,
+  SCORING_TIER_PRESETS,
+  isDealSeed,
+  isDealVariant,
+  normalizeScoringConfig,
+  parseLearnedBotModel,
+  createLearnedBotAI,
+  runSimulation,
+  formatSimulationCsv,
+} = loadBotModules();
+
+function fail(message) {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+const ruleSet = RULE_SET_PRESETS[args.rules];
+if (!ruleSet)
+  fail(`Unknown rule preset ${args.rules} (${Object.keys(RULE_SET_PRESETS).join(', ')})`);
+const tiers = SCORING_TIER_PRESETS[args.scoring];
+if (!tiers)
+  fail(`Unknown scoring preset ${args.scoring} (${Object.keys(SCORING_TIER_PRESETS).join(', ')})`);
+const scoring = normalizeScoringConfig({ tiers, targetScore: Number(args.target) });
+if (scoring.targetScore !== Number(args.target)) fail(`Unsupported target score ${args.target}`);
+if (!isDealVariant(args.variant)) fail(`Unknown deal variant ${args.variant}`);
+if (!isDealSeed(args.seed)) fail('--seed must be 32 hex characters');
+if (!['json', 'csv'].includes(args.format)) fail('--format must be json or csv');
+
+// 'learned' seats play the model from --model
+const TIERS = ['easy', 'medium', 'hard', 'expert'];
+let learned;
+const seats = args.bots.split(',').map(name => {
+  if (TIERS.includes(name)) return name;
+  if (name !== 'learned') fail(`Unknown bot ${name} (${TIERS.join(', ')}, learned)`);
+  if (!learned) {
+    const model = parseLearnedBotModel(readFileSync(args.model, 'utf-8'));
+    if (!model) fail(`${args.model} is not a learned bot model this build can load`);
+    learned = createLearnedBotAI(model);
+  }
+  return learned;
+});
+
+console.error(
+  `🎲 ${args.games} games: ${args.bots} (${args.rules} rules, ${args.scoring} scoring to ${scoring.targetScore}, seed ${args.seed})`
+);
+const started = Date.now();
+let result;
+try {
+  result = runSimulation({
+    seats,
+    games: Math.max(1, Number(args.games) || 0),
+    seed: args.seed,
+    ruleSet,
+    scoring,
+    dealVariant: args.variant,
+    timeBudgetMs: args.budget ? Number(args.budget) : undefined,
+  });
+} catch (error) {
+  fail(error.message);
+}
+console.error(`   ${result.matches} matches in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+const output =
+  args.format === 'csv' ? formatSimulationCsv(result) : JSON.stringify(result, null, 2);
+if (args.out) {
+  writeFileSync(args.out, `${output}\n`);
+  console.error(`✅ Wrote ${args.out}`);
+} else {
+  console.log(output);
+}
@@ -0,0 +1,52 @@
+/**
+ * Train the learned bot from an exported dataset
+ *
+ * Reads the JSONL written by export-training-data.mjs, builds one example per
+ * decision, fits the policy and value weights on the CPU and writes the model
+ * JSON that parseLearnedBotModel / createLearnedBotAI load.
+ *
+ * Usage: npm run bot:train -- [--data training-data.jsonl] [--out learned-bot.json]
+ *                             [--epochs 20] [--include-bots] [--seed 1]
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { loadBotModules } from './bot-build.mjs';
+
+const { values: args } = parseArgs({
+  options: {
+    data: { type: 'string', default: 'training-data.jsonl' },
+    out: { type: 'string', default: 'learned-bot.json' },
+    epochs: { type: 'string', default: '20' },
+    'include-bots': { type: 'boolean', default: false },
+    seed: { type: 'string', default: '1' },
+  },
+});
+
+const { buildTrainingExamples, trainLearnedBot } = loadBotModules();
+
+const rows = readFileSync(args.data, 'utf-8')
+  .split('\n')
+  .filter(line => line.trim())
+  .map(line => JSON.parse(line));
+console.log(`📚 ${rows.length} rows from ${args.data}`);
+
+const { examples, skipped } = buildTrainingExamples(rows, { includeBots: args['include-bots'] });
+console.log(`   ${examples.length} decisions, ${skipped} rows skipped`);
+if (examples.length === 0) {
+  console.error('❌ No decisions to train on');
+  process.exit(1);
+}
+
+console.log(`🏋️  Training for ${args.epochs} epochs…`);
+const report = trainLearnedBot(examples, {
+  epochs: Number(args.epochs),
+  seed: Number(args.seed),
+});
+
+console.log(`   trained on ${report.trainingExamples}, validated on ${report.validationExamples}`);
+console.log(`   policy agrees with the player: ${(report.validationAccuracy * 100).toFixed(1)}%`);
+console.log(`   value log loss: ${report.validationLogLoss.toFixed(3)}`);
+
+writeFileSync(args.out, JSON.stringify(report.model, null, 2) + '\n');
+console.log(`✅ Model written to ${args.out}`);
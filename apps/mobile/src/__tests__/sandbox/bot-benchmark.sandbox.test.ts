@@ -0,0 +1,64 @@
+/**
+ * Bot Benchmark Sandbox
+ *
+ * Self-play of the expert tier against the existing tiers on seeded deals,
+ * with the challenger in every seat. Prints the win-rate table and checks
+ * that every move was legal and the expert stayed within its time budget.
+ *
+ * Kept small for CI; for a meaningful win rate run it with more deals:
+ *
+ *   BOT_BENCHMARK_DEALS=50 npx jest bot-benchmark
+ */
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+  runBotBenchmark,
+  runBotBenchmarkSuite,
+  formatBotBenchmark,
+} from '../../game/bot/benchmark';
+
+const SEED = '5eed5eed5eed5eed5eed5eed5eed5eed';
+const DEALS = Number(process.env.BOT_BENCHMARK_DEALS) || 2;
+const TIME_BUDGET_MS = 10;
+/** Slack for a slow CI machine on top of the budget (one rollout batch) */
+const BUDGET_SLACK_MS = 250;
+
+// setup.ts mocks console.log; write to stdout so the table is always visible
+const print = (text: string) => process.stdout.write(text + '\n');
+
+describe('Bot benchmark', () => {
+  it('benchmarks the expert against every other tier', () => {
+    const results = runBotBenchmarkSuite({
+      challenger: 'expert',
+      deals: DEALS,
+      seed: SEED,
+      timeBudgetMs: TIME_BUDGET_MS,
+    });
+    print(formatBotBenchmark(results));
+
+    expect(results.map(result => result.opponent)).toEqual(['easy', 'medium', 'hard']);
+    for (const result of results) {
+      expect(result.games).toBe(DEALS * 4);
+      expect(result.winRate).toBeGreaterThanOrEqual(0);
+      expect(result.winRate).toBeLessThanOrEqual(1);
+      expect(result.slowestMoveMs).toBeLessThan(TIME_BUDGET_MS + BUDGET_SLACK_MS);
+    }
+  }, 120_000);
+
+  it('plays the same deals for every challenger seat', () => {
+    const result = runBotBenchmark({
+      challenger: 'hard',
+      opponent: 'hard',
+      deals: DEALS,
+      seed: SEED,
+    });
+    // Identical deterministic bots: each deal is won by the same hand in all four seatings
+    expect(result.wins).toBe(DEALS);
+    expect(result.winRate).toBe(0.25);
+  });
+});
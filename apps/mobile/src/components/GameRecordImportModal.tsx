@@ -0,0 +1,200 @@
+/**
+ * GameRecordImportModal — paste a shared game record to open it.
+ *
+ * The text is parsed and validated against the rules engine
+ * (parseGameRecord); only a valid record is passed on, which the caller
+ * opens in the replay viewer. Validation errors are shown inline.
+ */
+
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import { parseGameRecord, type GameRecord } from '../game/engine';
+import { i18n } from '../i18n';
+import { Clipboard } from '../utils/clipboard';
+
+interface GameRecordImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onImport: (record: GameRecord) => void;
+}
+
+export default function GameRecordImportModal({
+  visible,
+  onClose,
+  onImport,
+}: GameRecordImportModalProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setText('');
+    setError(null);
+    onClose();
+  };
+
+  const handlePaste = async () => {
+    if (!Clipboard) return;
+    try {
+      setText(await Clipboard.getStringAsync());
+      setError(null);
+    } catch {
+      // Clipboard unavailable — the text can still be pasted into the field
+    }
+  };
+
+  const handleImport = () => {
+    const result = parseGameRecord(text.trim());
+    if (!result.valid) {
+      setError(i18n.t('gameRecord.invalid', { error: result.error }));
+      return;
+    }
+    setText('');
+    setError(null);
+    onImport(result.record);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+            <Text style={styles.cancelText}>{i18n.t('common.cancel')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{i18n.t('gameRecord.importTitle')}</Text>
+          <TouchableOpacity
+            style={[styles.importButton, !text.trim() && styles.importButtonDisabled]}
+            onPress={handleImport}
+            disabled={!text.trim()}
+            testID="game-record-import"
+          >
+            <Text style={styles.importText}>{i18n.t('gameRecord.import')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <Text style={styles.hint}>{i18n.t('gameRecord.importHint')}</Text>
+            <TextInput
+              style={styles.textInput}
+              placeholder={i18n.t('gameRecord.importPlaceholder')}
+              placeholderTextColor={COLORS.gray.medium}
+              multiline
+              numberOfLines={Platform.OS === 'ios' ? undefined : 8}
+              textAlignVertical="top"
+              autoCapitalize="none"
+              autoCorrect={false}
+              value={text}
+              onChangeText={value => {
+                setText(value);
+                setError(null);
+              }}
+              testID="game-record-input"
+            />
+            {Clipboard && (
+              <TouchableOpacity style={styles.pasteButton} onPress={handlePaste}>
+                <Text style={styles.pasteText}>{i18n.t('gameRecord.paste')}</Text>
+              </TouchableOpacity>
+            )}
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.gray.dark,
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  cancelButton: {
+    paddingVertical: SPACING.xs,
+    paddingRight: SPACING.sm,
+  },
+  cancelText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.gray.medium,
+  },
+  importButton: {
+    backgroundColor: COLORS.accent,
+    borderRadius: 8,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  importButtonDisabled: {
+    opacity: 0.6,
+  },
+  importText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    gap: SPACING.sm,
+  },
+  hint: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.gray.medium,
+  },
+  textInput: {
+    backgroundColor: COLORS.gray.dark,
+    borderRadius: 8,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.white,
+    minHeight: 160,
+  },
+  pasteButton: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: COLORS.secondary,
+    borderRadius: 8,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+  },
+  pasteText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.secondary,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+  },
+});
@@ -1,14 +1,17 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { COLORS, FONT_SIZES, SPACING } from '../constants';
+import type { RankTier } from '../game/engine';
 
-export type Rank = 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond' | 'Master' | 'Grandmaster';
+export type Rank = RankTier;
 
 interface RankBadgeProps {
   rank: Rank;
   elo: number;
   size?: 'small' | 'medium' | 'large';
   showElo?: boolean;
+  /** Shown above the tier for a season's tier, e.g. "Season 3" */
+  seasonLabel?: string;
   style?: object;
 }
 
@@ -34,9 +37,17 @@ const SIZE_CONFIG = {
  * Usage:
  * ```tsx
  * <RankBadge rank="Gold" elo={1250} size="medium" showElo={true} />
+ * <RankBadge rank="Diamond" elo={1640} seasonLabel="Season 2" />
  * ```
  */
-export function RankBadge({ rank, elo, size = 'medium', showElo = true, style }: RankBadgeProps) {
+export function RankBadge({
+  rank,
+  elo,
+  size = 'medium',
+  showElo = true,
+  seasonLabel,
+  style,
+}: RankBadgeProps) {
   const config = RANK_CONFIG[rank];
   const sizeConfig = SIZE_CONFIG[size];
 
@@ -45,6 +56,11 @@ export function RankBadge({ rank, elo, size = 'medium', showElo = true, style }:
       <View style={[styles.badge, { padding: sizeConfig.padding }]}>
         <Text style={{ fontSize: sizeConfig.emoji }}>{config.emoji}</Text>
         <View style={styles.textContainer}>
+          {seasonLabel && (
+            <Text style={[styles.seasonText, { fontSize: sizeConfig.elo }]}>
+              {seasonLabel}
+            </Text>
+          )}
           <Text style={[styles.rankText, { fontSize: sizeConfig.text, color: config.color }]}>
             {rank}
           </Text>
@@ -76,6 +92,11 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     letterSpacing: 0.5,
   },
+  seasonText: {
+    color: COLORS.gray.medium,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
   eloText: {
     color: COLORS.gray.medium,
     fontWeight: '600',
@@ -6,6 +6,7 @@
  *  - Avatar initial / photo
  *  - Username + ELO
  *  - Favourite star toggle (accepted only)
+ *  - Watch button while the friend is in a game that allows spectators
  *  - Accept / Decline buttons (incoming pending)
  *  - Cancel / Unfriend button
  */
@@ -27,6 +28,8 @@ interface FriendCardProps {
   onToggleFavorite?: (id: string, current: boolean) => Promise<void>;
   /** Called when the card (avatar + name) is tapped — e.g. navigate to stats */
   onPress?: () => void;
+  /** Set while the friend is playing a game that can be watched */
+  onWatch?: () => void;
 }
 
 export function FriendCard({
@@ -38,6 +41,7 @@ export function FriendCard({
   onRemove,
   onToggleFavorite,
   onPress,
+  onWatch,
 }: FriendCardProps) {
   const [busy, setBusy] = useState(false);
 
@@ -97,6 +101,15 @@ export function FriendCard({
           <ActivityIndicator size="small" color={COLORS.secondary} />
         ) : (
           <>
+            {type === 'accepted' && onWatch && (
+              <TouchableOpacity
+                style={[styles.actionBtn, styles.watchBtn]}
+                onPress={onWatch}
+                accessibilityLabel={i18n.t('friends.watchGame')}
+              >
+                <Text style={styles.actionBtnText}>👁 {i18n.t('friends.watch')}</Text>
+              </TouchableOpacity>
+            )}
             {type === 'accepted' && onToggleFavorite && (
               <TouchableOpacity
                 style={styles.iconBtn}
@@ -230,6 +243,9 @@ const styles = StyleSheet.create({
     paddingVertical: SPACING.xs,
     borderRadius: 6,
   },
+  watchBtn: {
+    backgroundColor: COLORS.secondary,
+  },
   acceptBtn: {
     backgroundColor: COLORS.success,
   },
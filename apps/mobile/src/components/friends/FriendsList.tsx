@@ -2,7 +2,8 @@
  * FriendsList
  *
  * Tabbed list showing:
- *  - "Friends" tab: accepted friends (with online indicator)
+ *  - "Friends" tab: accepted friends (with online indicator, and a watch
+ *    button for friends playing a game that allows spectators)
  *  - "Requests" tab: incoming + outgoing pending requests
  *
  * Consumes useFriends + usePresence; meant to be embedded in ProfileScreen.
@@ -22,6 +23,7 @@ import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RootStackParamList } from '../../navigation/AppNavigator';
 import { useFriendsContext } from '../../contexts/FriendsContext';
 import { useAuth } from '../../contexts/AuthContext';
+import { useFriendsLiveGames } from '../../hooks/useSpectator';
 import { supabase } from '../../services/supabase';
 import { COLORS, SPACING, FONT_SIZES } from '../../constants';
 import { i18n } from '../../i18n';
@@ -49,6 +51,7 @@ export function FriendsList() {
     toggleFavorite,
     isOnline,
   } = useFriendsContext();
+  const { liveGames } = useFriendsLiveGames();
   const [tab, setTab] = useState<Tab>('friends');
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -222,17 +225,25 @@ export function FriendsList() {
                 friends.length === 0 ? (
                   <Text style={styles.empty}>{i18n.t('friends.noFriends')}</Text>
                 ) : (
-                  friends.map(item => (
-                    <FriendCard
-                      key={item.id}
-                      item={item}
-                      type="accepted"
-                      isOnline={isOnline(item.friend.id)}
-                      onToggleFavorite={toggleFavorite}
-                      onRemove={removeFriend}
-                      onPress={() => navigation.navigate('Stats', { userId: item.friend.id })}
-                    />
-                  ))
+                  friends.map(item => {
+                    const liveGame = liveGames.get(item.friend.id);
+                    return (
+                      <FriendCard
+                        key={item.id}
+                        item={item}
+                        type="accepted"
+                        isOnline={isOnline(item.friend.id)}
+                        onToggleFavorite={toggleFavorite}
+                        onRemove={removeFriend}
+                        onPress={() => navigation.navigate('Stats', { userId: item.friend.id })}
+                        onWatch={
+                          liveGame
+                            ? () => navigation.navigate('Spectate', { roomCode: liveGame.roomCode })
+                            : undefined
+                        }
+                      />
+                    );
+                  })
                 )
               ) : requestItems.length === 0 ? (
                 <Text style={styles.empty}>{i18n.t('friends.noPending')}</Text>
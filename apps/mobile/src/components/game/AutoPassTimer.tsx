@@ -25,6 +25,7 @@ import ReanimatedLib, {
   Easing,
 } from 'react-native-reanimated';
 import { COLORS, SPACING, FONT_SIZES } from '../../constants';
+import { AUTO_PASS_TIMER_DURATION_MS } from '../../game/engine/auto-pass-timer';
 import { useClockSync } from '../../hooks/useClockSync';
 import { i18n } from '../../i18n';
 import { gameLogger } from '../../utils/logger';
@@ -45,7 +46,7 @@ interface AutoPassTimerProps {
 
 /** Compute remaining ms from server state + clock sync, without any state read. */
 function computeRemainingMs(timerState: AutoPassTimerState, getCorrectedNow: () => number): number {
-  const durationMs = timerState.duration_ms || 10000;
+  const durationMs = timerState.duration_ms || AUTO_PASS_TIMER_DURATION_MS;
   const endTimestamp = timerState.end_timestamp;
   if (typeof endTimestamp === 'number') {
     // end_timestamp is the server-side epoch-ms deadline.
@@ -143,7 +144,7 @@ function AutoPassTimerComponent({
   const initialSnapshot = useMemo(() => {
     if (!timerState || !timerState.active) return { remainingMs: 0, seconds: 0, progress: 0 };
     const remaining = computeRemainingMs(timerState, getTimerNowRef.current);
-    const durationMs = timerState.duration_ms || 10000;
+    const durationMs = timerState.duration_ms || AUTO_PASS_TIMER_DURATION_MS;
     return {
       remainingMs: remaining,
       seconds: Math.ceil(remaining / 1000),
@@ -180,7 +181,7 @@ function AutoPassTimerComponent({
       return;
     }
     const remaining = computeRemainingMs(timerState, getTimerNowRef.current);
-    const durationMs = timerState.duration_ms || 10000;
+    const durationMs = timerState.duration_ms || AUTO_PASS_TIMER_DURATION_MS;
     const initial = remaining / durationMs;
     progressAnim.value = initial;
     progressAnim.value = withTiming(0, { duration: remaining, easing: Easing.linear });
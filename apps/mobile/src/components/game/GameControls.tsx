@@ -29,6 +29,10 @@ interface GameControlsProps {
   playerHand: Card[];
   onPlayCards: (cards: Card[]) => Promise<void>;
   onPass: () => Promise<void>;
+  /** Take back the last move; the Undo button is shown only when this is set (local AI games) */
+  onUndo?: () => void;
+  /** Whether a move can be taken back now, and how many take-backs are left */
+  undoStatus?: { canUndo: boolean; remaining: number };
 }
 
 /**
@@ -50,6 +54,8 @@ function GameControlsComponent({
   playerHand,
   onPlayCards,
   onPass,
+  onUndo,
+  undoStatus,
 }: GameControlsProps) {
   const [isPlayingCards, setIsPlayingCards] = useState(false);
   const [isPassing, setIsPassing] = useState(false);
@@ -172,6 +178,7 @@ function GameControlsComponent({
   // Compute disabled states
   const isPassDisabled = !isPlayerActive || isPassing;
   const isPlayDisabled = !isPlayerActive || selectedCards.length === 0 || isPlayingCards;
+  const isUndoDisabled = !undoStatus?.canUndo || isPlayingCards || isPassing;
 
   // Task #645: Dynamic play label announces card count to screen readers
   const playLabel =
@@ -209,6 +216,22 @@ function GameControlsComponent({
             : 'Your turn. Select cards to play.'
           : ''}
       </Text>
+      {onUndo && (undoStatus?.remaining ?? 0) > 0 && (
+        <Pressable
+          style={[styles.undoButton, isUndoDisabled && styles.buttonDisabled]}
+          onPress={onUndo}
+          disabled={isUndoDisabled}
+          accessibilityRole="button"
+          accessibilityLabel={`${i18n.t('game.undo')} (${undoStatus?.remaining ?? 0})`}
+          accessibilityHint="Takes back your last move and the bots' turns since"
+          accessibilityState={{ disabled: isUndoDisabled }}
+          testID="undo-button"
+        >
+          <Text style={[styles.actionButtonText, styles.passButtonText]}>
+            ↩ {undoStatus?.remaining ?? 0}
+          </Text>
+        </Pressable>
+      )}
       <Pressable
         style={[styles.actionButton, styles.passButton, isPassDisabled && styles.buttonDisabled]}
         onPress={handlePass}
@@ -285,6 +308,16 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#6b7280',
   },
+  undoButton: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#374151',
+    borderWidth: 1,
+    borderColor: '#6b7280',
+  },
   playButton: {
     backgroundColor: '#10b981', // MATCH LANDSCAPE: Green (was COLORS.primary - blue)
     borderWidth: 0, // MATCH LANDSCAPE: No border
@@ -1,9 +1,10 @@
 import React, { useEffect, useMemo, useRef } from 'react';
 import { View, StyleSheet, Animated } from 'react-native';
-import { COLORS, SPACING, LAYOUT, POSITIONING, SHADOWS } from '../../constants';
+import { COLORS, SPACING, LAYOUT, POSITIONING, SHADOWS, OPPONENT_POSITIONS } from '../../constants';
 import { useUserPreferencesStore } from '../../store';
 import { i18n } from '../../i18n';
 import type { AutoPassTimerState } from '../../types/multiplayer';
+import type { RoomTimerSettings } from '../../game/engine/room-timers';
 import type { Card } from '../../game/types';
 import type { ActiveThrowableEffect } from '../../hooks/useThrowables';
 import type { DragZoneState } from './CardHand';
@@ -14,7 +15,10 @@ import AutoPassTimer from './AutoPassTimer';
 import { ThrowablePlayerEffect } from './ThrowablePlayerEffect';
 
 interface GameLayoutProps {
-  /** Array of 4 players in display order [user, top, left, right] */
+  /**
+   * Players in display order: [user, top, left, right] at four, [user, left,
+   * right] at three, [user, top] at two (see OPPONENT_POSITIONS)
+   */
   players: {
     name: string;
     cardCount: number;
@@ -22,9 +26,9 @@ interface GameLayoutProps {
     totalScore?: number;
     /** fix/rejoin: show disconnect spinner */
     isDisconnected?: boolean;
-    /** UTC timestamp when 60s bot-replacement countdown started */
+    /** UTC timestamp when the bot-replacement countdown started */
     disconnectTimerStartedAt?: string | null;
-    /** UTC timestamp when 60s turn countdown started */
+    /** UTC timestamp when the turn countdown started */
     turnTimerStartedAt?: string | null;
     /** Called when this player's countdown ring expires */
     onCountdownExpired?: () => void;
@@ -64,6 +68,8 @@ interface GameLayoutProps {
   /** Server-to-client clock offset (ms) from useClockSync — forwarded to each PlayerInfo
    * so InactivityCountdownRing computes elapsed time against the corrected server clock. */
   clockOffsetMs?: number;
+  /** The room's turn and disconnect timers — forwarded to each PlayerInfo's ring */
+  roomTimers?: RoomTimerSettings;
   /**
    * When true (multiplayer/online game), the red/orange active-turn border on player
    * avatars is suppressed. The yellow InactivityCountdownRing is the only active-turn
@@ -74,7 +80,7 @@ interface GameLayoutProps {
 
 /**
  * GameLayout Component
- * Handles the table layout with 4 players positioned around a central play area
+ * Handles the table layout with 2-4 players positioned around a central play area
  * Extracted from GameScreen.tsx to reduce complexity (Task #426)
  *
  * Layout structure:
@@ -83,6 +89,7 @@ interface GameLayoutProps {
  * - Center play area with last played cards
  * - Right player (position 3) on right side
  * - Bottom player (position 0) rendered by parent
+ * Smaller tables leave the unused seats empty.
  */
 // Task #628: React.memo prevents re-renders from GameView context updates when
 // player/table props for THIS layout haven't changed.
@@ -98,6 +105,7 @@ function GameLayoutComponent({
   opponentPlayerIds,
   throwableActiveEffects,
   clockOffsetMs = 0,
+  roomTimers,
   isOnlineGame = false,
 }: GameLayoutProps) {
   const profilePhotoSize = useUserPreferencesStore(s => s.profilePhotoSize);
@@ -167,6 +175,12 @@ function GameLayoutComponent({
     outputRange: [SHADOWS.table.opacity, 0.8],
   });
 
+  // Display index seated at each opponent position (0 = empty seat)
+  const opponentPositions = OPPONENT_POSITIONS[players.length] ?? OPPONENT_POSITIONS[4];
+  const top = opponentPositions.indexOf('top') + 1;
+  const left = opponentPositions.indexOf('left') + 1;
+  const right = opponentPositions.indexOf('right') + 1;
+
   // Drop zone text for CenterPlayArea (localized)
   const dropZoneText =
     dropZoneState === 'active'
@@ -178,48 +192,51 @@ function GameLayoutComponent({
   return (
     <>
       {/* Top player (position 1) - OUTSIDE table, above it */}
-      <View style={styles.topPlayerAboveTable}>
-        <PlayerInfo
-          name={players[1].name}
-          cardCount={players[1].cardCount}
-          isActive={players[1].isActive}
-          totalScore={players[1].totalScore}
-          isDisconnected={players[1].isDisconnected}
-          disconnectTimerStartedAt={players[1].disconnectTimerStartedAt}
-          turnTimerStartedAt={players[1].turnTimerStartedAt}
-          onCountdownExpired={players[1].onCountdownExpired}
-          isCameraOn={players[1].isCameraOn}
-          isMicOn={players[1].isMicOn}
-          isVideoChatConnecting={players[1].isVideoChatConnecting}
-          videoStreamSlot={players[1].videoStreamSlot}
-          onNameLongPress={
-            onOpponentNameLongPress && opponentPlayerIds?.[0]
-              ? () => onOpponentNameLongPress(1)
-              : undefined
-          }
-          clockOffsetMs={clockOffsetMs}
-          isOnlineGame={isOnlineGame}
-        />
-        {throwableActiveEffects?.[1] != null && (
-          <View
-            pointerEvents="none"
-            style={[
-              styles.throwableClip,
-              {
-                width: throwableClipSize,
-                height: throwableClipSize,
-                borderRadius: throwableClipSize / 2,
-                top: LAYOUT.topPlayerSpacing,
-              },
-            ]}
-          >
-            <ThrowablePlayerEffect
-              key={throwableActiveEffects[1]!.id}
-              throwable={throwableActiveEffects[1]!.throwable}
-            />
-          </View>
-        )}
-      </View>
+      {top > 0 && (
+        <View style={styles.topPlayerAboveTable}>
+          <PlayerInfo
+            name={players[top].name}
+            cardCount={players[top].cardCount}
+            isActive={players[top].isActive}
+            totalScore={players[top].totalScore}
+            isDisconnected={players[top].isDisconnected}
+            disconnectTimerStartedAt={players[top].disconnectTimerStartedAt}
+            turnTimerStartedAt={players[top].turnTimerStartedAt}
+            onCountdownExpired={players[top].onCountdownExpired}
+            isCameraOn={players[top].isCameraOn}
+            isMicOn={players[top].isMicOn}
+            isVideoChatConnecting={players[top].isVideoChatConnecting}
+            videoStreamSlot={players[top].videoStreamSlot}
+            onNameLongPress={
+              onOpponentNameLongPress && opponentPlayerIds?.[top - 1]
+                ? () => onOpponentNameLongPress(top)
+                : undefined
+            }
+            clockOffsetMs={clockOffsetMs}
+            timers={roomTimers}
+            isOnlineGame={isOnlineGame}
+          />
+          {throwableActiveEffects?.[top] != null && (
+            <View
+              pointerEvents="none"
+              style={[
+                styles.throwableClip,
+                {
+                  width: throwableClipSize,
+                  height: throwableClipSize,
+                  borderRadius: throwableClipSize / 2,
+                  top: LAYOUT.topPlayerSpacing,
+                },
+              ]}
+            >
+              <ThrowablePlayerEffect
+                key={throwableActiveEffects[top]!.id}
+                throwable={throwableActiveEffects[top]!.throwable}
+              />
+            </View>
+          )}
+        </View>
+      )}
 
       {/* Game table area — Task #652: animated border glow on drag */}
       <Animated.View
@@ -236,47 +253,50 @@ function GameLayoutComponent({
         {/* Middle row: Left player, Center play area, Right player */}
         <View style={styles.middleRow}>
           {/* Left player (position 2) */}
-          <View style={styles.leftPlayerContainer}>
-            <PlayerInfo
-              name={players[2].name}
-              cardCount={players[2].cardCount}
-              isActive={players[2].isActive}
-              totalScore={players[2].totalScore}
-              isDisconnected={players[2].isDisconnected}
-              disconnectTimerStartedAt={players[2].disconnectTimerStartedAt}
-              turnTimerStartedAt={players[2].turnTimerStartedAt}
-              onCountdownExpired={players[2].onCountdownExpired}
-              isCameraOn={players[2].isCameraOn}
-              isMicOn={players[2].isMicOn}
-              isVideoChatConnecting={players[2].isVideoChatConnecting}
-              videoStreamSlot={players[2].videoStreamSlot}
-              onNameLongPress={
-                onOpponentNameLongPress && opponentPlayerIds?.[1]
-                  ? () => onOpponentNameLongPress(2)
-                  : undefined
-              }
-              clockOffsetMs={clockOffsetMs}
-              isOnlineGame={isOnlineGame}
-            />
-            {throwableActiveEffects?.[2] != null && (
-              <View
-                pointerEvents="none"
-                style={[
-                  styles.throwableClip,
-                  {
-                    width: throwableClipSize,
-                    height: throwableClipSize,
-                    borderRadius: throwableClipSize / 2,
-                  },
-                ]}
-              >
-                <ThrowablePlayerEffect
-                  key={throwableActiveEffects[2]!.id}
-                  throwable={throwableActiveEffects[2]!.throwable}
-                />
-              </View>
-            )}
-          </View>
+          {left > 0 && (
+            <View style={styles.leftPlayerContainer}>
+              <PlayerInfo
+                name={players[left].name}
+                cardCount={players[left].cardCount}
+                isActive={players[left].isActive}
+                totalScore={players[left].totalScore}
+                isDisconnected={players[left].isDisconnected}
+                disconnectTimerStartedAt={players[left].disconnectTimerStartedAt}
+                turnTimerStartedAt={players[left].turnTimerStartedAt}
+                onCountdownExpired={players[left].onCountdownExpired}
+                isCameraOn={players[left].isCameraOn}
+                isMicOn={players[left].isMicOn}
+                isVideoChatConnecting={players[left].isVideoChatConnecting}
+                videoStreamSlot={players[left].videoStreamSlot}
+                onNameLongPress={
+                  onOpponentNameLongPress && opponentPlayerIds?.[left - 1]
+                    ? () => onOpponentNameLongPress(left)
+                    : undefined
+                }
+                clockOffsetMs={clockOffsetMs}
+                timers={roomTimers}
+                isOnlineGame={isOnlineGame}
+              />
+              {throwableActiveEffects?.[left] != null && (
+                <View
+                  pointerEvents="none"
+                  style={[
+                    styles.throwableClip,
+                    {
+                      width: throwableClipSize,
+                      height: throwableClipSize,
+                      borderRadius: throwableClipSize / 2,
+                    },
+                  ]}
+                >
+                  <ThrowablePlayerEffect
+                    key={throwableActiveEffects[left]!.id}
+                    throwable={throwableActiveEffects[left]!.throwable}
+                  />
+                </View>
+              )}
+            </View>
+          )}
 
           {/* Center play area (last played cards) */}
           <View style={styles.centerPlayArea}>
@@ -301,47 +321,50 @@ function GameLayoutComponent({
           </View>
 
           {/* Right player (position 3) */}
-          <View style={styles.rightPlayerContainer}>
-            <PlayerInfo
-              name={players[3].name}
-              cardCount={players[3].cardCount}
-              isActive={players[3].isActive}
-              totalScore={players[3].totalScore}
-              isDisconnected={players[3].isDisconnected}
-              disconnectTimerStartedAt={players[3].disconnectTimerStartedAt}
-              turnTimerStartedAt={players[3].turnTimerStartedAt}
-              onCountdownExpired={players[3].onCountdownExpired}
-              isCameraOn={players[3].isCameraOn}
-              isMicOn={players[3].isMicOn}
-              isVideoChatConnecting={players[3].isVideoChatConnecting}
-              videoStreamSlot={players[3].videoStreamSlot}
-              onNameLongPress={
-                onOpponentNameLongPress && opponentPlayerIds?.[2]
-                  ? () => onOpponentNameLongPress(3)
-                  : undefined
-              }
-              clockOffsetMs={clockOffsetMs}
-              isOnlineGame={isOnlineGame}
-            />
-            {throwableActiveEffects?.[3] != null && (
-              <View
-                pointerEvents="none"
-                style={[
-                  styles.throwableClip,
-                  {
-                    width: throwableClipSize,
-                    height: throwableClipSize,
-                    borderRadius: throwableClipSize / 2,
-                  },
-                ]}
-              >
-                <ThrowablePlayerEffect
-                  key={throwableActiveEffects[3]!.id}
-                  throwable={throwableActiveEffects[3]!.throwable}
-                />
-              </View>
-            )}
-          </View>
+          {right > 0 && (
+            <View style={styles.rightPlayerContainer}>
+              <PlayerInfo
+                name={players[right].name}
+                cardCount={players[right].cardCount}
+                isActive={players[right].isActive}
+                totalScore={players[right].totalScore}
+                isDisconnected={players[right].isDisconnected}
+                disconnectTimerStartedAt={players[right].disconnectTimerStartedAt}
+                turnTimerStartedAt={players[right].turnTimerStartedAt}
+                onCountdownExpired={players[right].onCountdownExpired}
+                isCameraOn={players[right].isCameraOn}
+                isMicOn={players[right].isMicOn}
+                isVideoChatConnecting={players[right].isVideoChatConnecting}
+                videoStreamSlot={players[right].videoStreamSlot}
+                onNameLongPress={
+                  onOpponentNameLongPress && opponentPlayerIds?.[right - 1]
+                    ? () => onOpponentNameLongPress(right)
+                    : undefined
+                }
+                clockOffsetMs={clockOffsetMs}
+                timers={roomTimers}
+                isOnlineGame={isOnlineGame}
+              />
+              {throwableActiveEffects?.[right] != null && (
+                <View
+                  pointerEvents="none"
+                  style={[
+                    styles.throwableClip,
+                    {
+                      width: throwableClipSize,
+                      height: throwableClipSize,
+                      borderRadius: throwableClipSize / 2,
+                    },
+                  ]}
+                >
+                  <ThrowablePlayerEffect
+                    key={throwableActiveEffects[right]!.id}
+                    throwable={throwableActiveEffects[right]!.throwable}
+                  />
+                </View>
+              )}
+            </View>
+          )}
         </View>
       </Animated.View>
     </>
@@ -2,13 +2,14 @@
  * InactivityCountdownRing — Dual-mode circular progress ring around player avatars.
  *
  * **YELLOW RING (Turn Inactivity):**
- * - Shows when it's a player's turn (60s countdown to auto-play)
- * - Depletes clockwise from full → empty over 60 seconds
+ * - Shows when it's a player's turn (the room's turn timer, 60s by default, until auto-play)
+ * - Depletes clockwise from full → empty over the turn timer
  * - When expired: calls auto-play-turn edge function (plays highest cards OR passes)
  * - Shows "I'm Still Here?" popup after auto-play
  *
  * **CHARCOAL GREY RING (Connection / Disconnect):**
- * - Shows when player disconnects (heartbeat stopped) — 60s countdown to bot replacement
+ * - Shows when player disconnects (heartbeat stopped) — the room's disconnect timer
+ *   (60s by default) until bot replacement
  * - Replaces yellow ring if disconnect happens during turn
  * - Picks up where yellow ring left off (continuous countdown, no flash)
  * - When expired: bot replaces player, RejoinModal shown
@@ -39,13 +40,13 @@ import Svg, { Circle } from 'react-native-svg';
 import { LAYOUT } from '../../constants';
 import { networkLogger } from '../../utils/logger';
 
-/** Duration of both timers (must match server BOT_REPLACE_AFTER and TURN_TIMEOUT) */
-const COUNTDOWN_DURATION_MS = 60_000;
+/** Default duration of both timers (the server's default turn and disconnect timers) */
+const DEFAULT_COUNTDOWN_DURATION_MS = 60_000;
 
 /**
  * Minimum server-ahead clock drift that is considered "real" skew and warrants a
  * warning log. Drift smaller than this is treated as negligible jitter — the ring
- * simply starts at 100% and runs for the full 60s. Matches the guard used in
+ * simply starts at 100% and runs for the full duration. Matches the guard used in
  * useTurnInactivityTimer to keep skew sensitivity consistent across the app.
  */
 const CLOCK_SKEW_WARN_THRESHOLD_MS = 2_000;
@@ -55,10 +56,10 @@ const DEFAULT_RING_SIZE = LAYOUT.avatarSize; // 70px — default avatar size
 const RING_STROKE_WIDTH = 4; // Slightly thinner than avatar border (4px) so it overlays cleanly
 
 /** Ring colors by type */
-const TURN_COLOR_FULL = '#FFD700'; // Yellow — it's your turn, play within 60s
-const TURN_COLOR_LOW = '#FFC107'; // Amber — under 15s remaining
+const TURN_COLOR_FULL = '#FFD700'; // Yellow — it's your turn
+const TURN_COLOR_LOW = '#FFC107'; // Amber — under a quarter of the time remaining
 const CONN_COLOR_FULL = '#4A4A4A'; // Charcoal grey — player disconnected
-const CONN_COLOR_LOW = '#2E2E2E'; // Dark charcoal — under 15s remaining
+const CONN_COLOR_LOW = '#2E2E2E'; // Dark charcoal — under a quarter of the time remaining
 
 const RING_BACKGROUND: Record<'turn' | 'connection', string> = {
   turn: 'rgba(255,215,0,0.2)',
@@ -70,10 +71,15 @@ const RING_BACKGROUND: Record<'turn' | 'connection', string> = {
 const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 
 interface InactivityCountdownRingProps {
-  /** Ring type: 'turn' (yellow, 60s to play) or 'connection' (charcoal grey, 60s to bot replacement) */
+  /** Ring type: 'turn' (yellow, time to play) or 'connection' (charcoal grey, time to bot replacement) */
   type: 'turn' | 'connection';
   /** UTC ISO-8601 timestamp when the countdown started */
   startedAt: string;
+  /**
+   * Full countdown in milliseconds — the room's turn timer for 'turn' rings and its
+   * disconnect timer for 'connection' rings. Defaults to 60s, the server default.
+   */
+  durationMs?: number;
   /**
    * Called when the countdown reaches 0 (timer expired).
    *
@@ -121,7 +127,7 @@ function resolveStartTimeMs(startedAt: string, clockOffsetMs: number): number {
 }
 
 /**
- * Renders a circular SVG ring that depletes clockwise from full → empty over 60 seconds.
+ * Renders a circular SVG ring that depletes clockwise from full → empty over durationMs.
  * Color adapts based on type (yellow = turn, charcoal grey = connection/disconnect).
  * Positioned absolutely over the player's avatar.
  *
@@ -131,6 +137,7 @@ function resolveStartTimeMs(startedAt: string, clockOffsetMs: number): number {
 export default function InactivityCountdownRing({
   type,
   startedAt,
+  durationMs = DEFAULT_COUNTDOWN_DURATION_MS,
   onExpired,
   size = DEFAULT_RING_SIZE,
   clockOffsetMs = 0,
@@ -194,22 +201,19 @@ export default function InactivityCountdownRing({
   // Seeded into useSharedValue on mount and used to determine initial visibility.
   const initialProgress = useMemo(() => {
     const elapsed = Math.max(0, Date.now() + clockOffsetMs - startTimeMs);
-    return Math.min(1, Math.max(0, (COUNTDOWN_DURATION_MS - elapsed) / COUNTDOWN_DURATION_MS));
-  }, [startTimeMs, clockOffsetMs]);
+    return Math.min(1, Math.max(0, (durationMs - elapsed) / durationMs));
+  }, [startTimeMs, clockOffsetMs, durationMs]);
 
   // Static accessibility label derived from the initial ring state. Computed once per
   // startedAt/type change — no per-frame JS updates. Screen readers announce the ring
   // type and approximate remaining time without reintroducing JS-thread re-renders.
   const accessibilityLabel = useMemo(() => {
-    const remainingSeconds = Math.max(
-      0,
-      Math.ceil((initialProgress * COUNTDOWN_DURATION_MS) / 1000)
-    );
+    const remainingSeconds = Math.max(0, Math.ceil((initialProgress * durationMs) / 1000));
     const action = type === 'turn' ? 'auto-play' : 'bot replacement';
     return remainingSeconds > 0
       ? `${type === 'turn' ? 'Turn' : 'Disconnect'} timer — about ${remainingSeconds}s until ${action}`
       : `${type === 'turn' ? 'Turn' : 'Disconnect'} timer expired`;
-  }, [type, initialProgress]);
+  }, [type, initialProgress, durationMs]);
 
   // --- Shared values (UI thread) ---
   // `progress` drives the arc geometry via useAnimatedProps — no setState involved.
@@ -268,8 +272,8 @@ export default function InactivityCountdownRing({
     // Re-sample corrected time at effect-execution time (slightly after render) for
     // the most accurate remaining-ms value; startTimeMs is the stable T0 anchor.
     const elapsed = Math.max(0, Date.now() + clockOffsetMsRef.current - startTimeMs);
-    const remaining = Math.max(0, COUNTDOWN_DURATION_MS - elapsed);
-    const initial = remaining / COUNTDOWN_DURATION_MS;
+    const remaining = Math.max(0, durationMs - elapsed);
+    const initial = remaining / durationMs;
 
     networkLogger.debug(
       `[InactivityRing] Scheduling ${typeRef.current} ring: elapsed=${elapsed}ms, remaining=${remaining}ms`
@@ -299,8 +303,9 @@ export default function InactivityCountdownRing({
       cancelAnimation(progress);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [startTimeMs]); // startTimeMs is stable per `startedAt` (via startAnchorRef) — only a genuinely
-  // new timer identity (new startedAt) triggers re-scheduling. clockOffsetMs refinements are read
+  }, [startTimeMs, durationMs]); // startTimeMs is stable per `startedAt` (via startAnchorRef) — only
+  // a genuinely new timer identity (new startedAt) or a new duration (turn → connection ring with
+  // a different room timer) triggers re-scheduling. clockOffsetMs refinements are read
   // live via clockOffsetMsRef so they don't restart the animation mid-countdown.
   // type → typeShared.value (color only, no animation restart); handleExpired, progress,
   // typeShared are stable.
@@ -14,6 +14,7 @@ import {
   formatScore,
   scoreDisplayStyles,
 } from '../../styles/scoreDisplayStyles';
+import { DEFAULT_ROOM_TIMER_SETTINGS, type RoomTimerSettings } from '../../game/engine/room-timers';
 import { CardCountBadge } from '../scoreboard/CardCountBadge';
 import { useUserPreferencesStore } from '../../store/userPreferencesSlice';
 import InactivityCountdownRing from './InactivityCountdownRing';
@@ -25,9 +26,9 @@ interface PlayerInfoProps {
   totalScore?: number; // Cumulative total score (Task #590)
   /** fix/rejoin: show spinner when player is disconnected */
   isDisconnected?: boolean;
-  /** UTC timestamp when the 60s bot-replacement countdown started (null = no countdown) */
+  /** UTC timestamp when the bot-replacement countdown started (null = no countdown) */
   disconnectTimerStartedAt?: string | null;
-  /** UTC timestamp when the 60s turn countdown started (null = no countdown) */
+  /** UTC timestamp when the turn countdown started (null = no countdown) */
   turnTimerStartedAt?: string | null;
   /** Called when the countdown ring expires (timer reaches 0) */
   onCountdownExpired?: () => void;
@@ -51,6 +52,8 @@ interface PlayerInfoProps {
   /** Server-to-client clock offset (ms) from useClockSync — passed to InactivityCountdownRing
    * so elapsed time is computed against the corrected server clock, not raw Date.now(). */
   clockOffsetMs?: number;
+  /** The room's turn and disconnect timers — how long each countdown ring runs */
+  timers?: RoomTimerSettings;
   /**
    * Whether this player tile is inside an online multiplayer game.
    * When true, the red/orange active-turn border is suppressed — the yellow
@@ -145,6 +148,7 @@ function PlayerInfoComponent({
   onNameLongPress,
   onMicToggle,
   clockOffsetMs = 0,
+  timers = DEFAULT_ROOM_TIMER_SETTINGS,
   isOnlineGame = false,
 }: PlayerInfoProps) {
   // Profile photo size preference
@@ -173,7 +177,7 @@ function PlayerInfoComponent({
   const ringType: 'turn' | 'connection' = hasConnectionTimer ? 'connection' : 'turn';
   // Always anchor the connection ring to disconnectTimerStartedAt so its
   // countdown matches the server-side bot-replacement timer exactly
-  // (disconnect_timer_started_at + 60s). The turn ring uses turnTimerStartedAt.
+  // (disconnect_timer_started_at + the room disconnect timer). The turn ring uses turnTimerStartedAt.
   const ringStartedAt: string = (() => {
     if (ringType === 'connection') {
       return disconnectTimerStartedAt!;
@@ -286,6 +290,9 @@ function PlayerInfoComponent({
             key={ringStartedAt} // Remount only when start time changes; color/type changes without remount for seamless yellow→charcoal-grey transition
             type={ringType}
             startedAt={ringStartedAt}
+            durationMs={
+              (ringType === 'connection' ? timers.disconnectSeconds : timers.turnSeconds) * 1000
+            }
             onExpired={ringType === 'connection' ? (onCountdownExpired ?? (() => {})) : () => {}}
             size={avatarScale.size}
             clockOffsetMs={clockOffsetMs}
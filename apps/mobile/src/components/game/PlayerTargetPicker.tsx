@@ -17,13 +17,13 @@ import {
   TouchableWithoutFeedback,
 } from 'react-native';
 import type { ThrowableType } from '../../types/multiplayer';
-import { MODAL_SUPPORTED_ORIENTATIONS } from '../../constants';
+import { MODAL_SUPPORTED_ORIENTATIONS, OPPONENT_POSITIONS } from '../../constants';
 import { i18n } from '../../i18n';
 
 interface PlayerTargetPickerProps {
   visible: boolean;
   throwable: ThrowableType;
-  /** layoutPlayers[1..3] — opponents in display order (top, left, right) */
+  /** layoutPlayers[1..] — opponents in display order (see OPPONENT_POSITIONS) */
   opponents: readonly { name: string; player_index: number }[];
   onSelect: (playerIndex: number) => void;
   onClose: () => void;
@@ -36,10 +36,15 @@ const THROWABLE_EMOJI: Record<ThrowableType, string> = {
   cake: '🎂',
 };
 
-function getPositionLabel(displayOffsetIdx: number): string {
-  if (displayOffsetIdx === 0) return i18n.t('game.positionTop');
-  if (displayOffsetIdx === 1) return i18n.t('game.positionLeft');
-  return i18n.t('game.positionRight');
+const POSITION_LABEL_KEYS = {
+  top: 'game.positionTop',
+  left: 'game.positionLeft',
+  right: 'game.positionRight',
+} as const;
+
+function getPositionLabel(displayOffsetIdx: number, opponentCount: number): string {
+  const positions = OPPONENT_POSITIONS[opponentCount + 1] ?? OPPONENT_POSITIONS[4];
+  return i18n.t(POSITION_LABEL_KEYS[positions[displayOffsetIdx] ?? 'right']);
 }
 
 export function PlayerTargetPicker({
@@ -102,7 +107,9 @@ export function PlayerTargetPicker({
                 <Text style={styles.playerName} numberOfLines={1}>
                   {opp.name}
                 </Text>
-                <Text style={styles.playerPosition}>{getPositionLabel(displayOffsetIdx)}</Text>
+                <Text style={styles.playerPosition}>
+                  {getPositionLabel(displayOffsetIdx, opponents.length)}
+                </Text>
               </View>
             </Pressable>
           ))}
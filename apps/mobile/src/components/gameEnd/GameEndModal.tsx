@@ -60,6 +60,7 @@ export const GameEndModal: React.FC = () => {
     playHistory,
     onPlayAgain,
     onReturnToMenu,
+    onViewReplay,
   } = useGameEnd();
 
   const [activeTab, setActiveTab] = useState<TabType>('score');
@@ -281,6 +282,18 @@ export const GameEndModal: React.FC = () => {
     }
   };
 
+  // Replay viewer: close the modal first so it does not cover the replay screen
+  const handleViewReplay = () => {
+    setShowGameEndModal(false);
+    if (onViewReplay) {
+      void Promise.resolve()
+        .then(() => onViewReplay())
+        .catch(err => {
+          uiLogger.warn('[GameEndModal] onViewReplay error:', err);
+        });
+    }
+  };
+
   // CRITICAL FIX: Show loading state while waiting for data
   if (showGameEndModal && (finalScores.length === 0 || !gameWinnerName)) {
     uiLogger.warn('⚠️ [GameEndModal] Showing loading state - missing data:', {
@@ -410,6 +423,7 @@ export const GameEndModal: React.FC = () => {
                               onCopyResults={handleCopyResults}
                               onPlayAgain={handlePlayAgain}
                               onReturnToMenu={handleReturnToMenu}
+                              onViewReplay={onViewReplay ? handleViewReplay : undefined}
                             />
                           </View>
                         }
@@ -436,6 +450,7 @@ export const GameEndModal: React.FC = () => {
                               onCopyResults={handleCopyResults}
                               onPlayAgain={handlePlayAgain}
                               onReturnToMenu={handleReturnToMenu}
+                              onViewReplay={onViewReplay ? handleViewReplay : undefined}
                             />
                           </View>
                         }
@@ -1067,6 +1082,8 @@ interface ActionButtonsProps {
   onCopyResults: () => void;
   onPlayAgain: () => void;
   onReturnToMenu: () => void;
+  /** Omitted when the game has no replay */
+  onViewReplay?: () => void;
 }
 
 const ActionButtons: React.FC<ActionButtonsProps> = ({
@@ -1074,6 +1091,7 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
   onCopyResults,
   onPlayAgain,
   onReturnToMenu,
+  onViewReplay,
 }) => {
   return (
     <View style={styles.actionButtons}>
@@ -1106,6 +1124,17 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
         <Text style={styles.actionButtonText}>🔄 {i18n.t('gameEnd.playAgain')}</Text>
       </TouchableOpacity>
 
+      {onViewReplay && (
+        <TouchableOpacity
+          style={[styles.actionButton, styles.replayButton]}
+          onPress={onViewReplay}
+          activeOpacity={0.8}
+          testID="game-end-watch-replay"
+        >
+          <Text style={styles.actionButtonText}>🎬 {i18n.t('gameEnd.watchReplay')}</Text>
+        </TouchableOpacity>
+      )}
+
       <TouchableOpacity
         style={[styles.actionButton, styles.menuButton]}
         onPress={onReturnToMenu}
@@ -1545,6 +1574,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#22c55e',
   },
+  replayButton: {
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    borderWidth: 1,
+    borderColor: '#8b5cf6',
+  },
   menuButton: {
     backgroundColor: 'rgba(156, 163, 175, 0.2)',
     borderWidth: 1,
@@ -28,11 +28,12 @@ import { scoreDisplayStyles } from '../../styles/scoreDisplayStyles';
 import { gameScreenStyles } from '../../styles/gameScreenStyles';
 import { AutoPassTimer, ThrowButton, ThrowablePlayerEffect } from '../game';
 import type { InGameAlertOptions } from '../game';
+import type { RoomTimerSettings } from '../../game/engine/room-timers';
 import type { Card as CardType } from '../../game/types';
 import type { AutoPassTimerState } from '../../types/multiplayer';
 import type { ActiveThrowableEffect } from '../../hooks/useThrowables';
 import type { ScoreHistory, PlayHistoryMatch } from '../../types/scoreboard';
-import { LAYOUT } from '../../constants';
+import { LAYOUT, OPPONENT_POSITIONS } from '../../constants';
 import { useUserPreferencesStore } from '../../store';
 import { AddFriendButton } from '../friends';
 import { useFriendsContext } from '../../contexts/FriendsContext';
@@ -61,6 +62,8 @@ export interface LandscapeGameLayoutProps {
   autoPassTimerState?: AutoPassTimerState;
   /** Total cumulative scores per player (Task #590) */
   totalScores?: number[];
+  /** Score that ends the game (room scoring config) */
+  targetScore?: number;
 
   /** Table data */
   lastPlayedCards?: CardType[];
@@ -104,6 +107,10 @@ export interface LandscapeGameLayoutProps {
   onPass?: () => void;
   onHint?: () => void;
   onSettings?: () => void;
+  /** Take back the last move (local AI games with take-backs) */
+  onUndo?: () => void;
+  /** Whether a move can be taken back now, and how many take-backs are left */
+  undoStatus?: { canUndo: boolean; remaining: number };
 
   /** Control states */
   disabled?: boolean;
@@ -142,6 +149,8 @@ export interface LandscapeGameLayoutProps {
   /** Server-to-client clock offset (ms) from useClockSync — forwarded to each LandscapeOpponent
    * so InactivityCountdownRing computes elapsed time against the corrected server clock. */
   turnClockOffsetMs?: number;
+  /** The room's turn and disconnect timers — forwarded to each LandscapeOpponent's ring */
+  roomTimers?: RoomTimerSettings;
 }
 
 // ============================================================================
@@ -162,6 +171,7 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
   originalPlayerNames,
   autoPassTimerState,
   totalScores = [0, 0, 0, 0],
+  targetScore,
 
   // Table
   lastPlayedCards,
@@ -194,6 +204,8 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
   onPass,
   onHint,
   onSettings,
+  onUndo,
+  undoStatus,
   disabled = false,
   canPlay = false,
   canPass = false,
@@ -218,6 +230,7 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
   videoStreamSlots,
   showInGameAlert,
   turnClockOffsetMs = 0,
+  roomTimers,
 }: LandscapeGameLayoutProps) {
   // Friends context to check friendship status in-game
   const { friends } = useFriendsContext();
@@ -246,6 +259,12 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
     });
   };
 
+  // Display index seated at each opponent position (0 = empty seat at a short table)
+  const opponentPositions = OPPONENT_POSITIONS[playerNames.length] ?? OPPONENT_POSITIONS[4];
+  const top = opponentPositions.indexOf('top') + 1;
+  const left = opponentPositions.indexOf('left') + 1;
+  const right = opponentPositions.indexOf('right') + 1;
+
   // Helper function to check if a player index is currently active
   // (scoreboard order is [user, top, left, right])
   const isOpponentActive = (index: number) => {
@@ -407,6 +426,7 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
             }}
             scoreHistory={scoreHistory}
             playHistory={playHistory}
+            targetScore={targetScore}
           />
         </View>
 
@@ -424,130 +444,143 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
         )}
 
         {/* Top opponent - Player at index 1 (opposite player, +2 positions clockwise) */}
-        <View style={styles.topOpponent}>
-          <LandscapeOpponent
-            name={playerNames[1] || 'Opponent 1'}
-            cardCount={cardCounts[1] || 0}
-            isActive={isOpponentActive(1)}
-            layout="horizontal"
-            totalScore={totalScores[1]}
-            isBot={!playerIds[1]}
-            isDisconnected={disconnectedPlayers[1]}
-            disconnectTimerStartedAt={disconnectTimerStartedAts?.[1]}
-            turnTimerStartedAt={turnTimerStartedAts?.[1]}
-            onCountdownExpired={onCountdownExpireds?.[1]}
-            onAvatarPress={playerIds[1] ? () => handleOpponentAvatarPress(1) : undefined}
-            onNameLongPress={playerIds[1] ? () => handleOpponentNameLongPress(1) : undefined}
-            isCameraOn={isCameraOns?.[1]}
-            isMicOn={isMicOns?.[1]}
-            isVideoChatConnecting={isVideoChatConnectings?.[1]}
-            videoStreamSlot={videoStreamSlots?.[1]}
-            clockOffsetMs={turnClockOffsetMs}
-            isOnlineGame={isMultiplayer}
-          />
-          {throwableActiveEffects?.[1] != null && (
-            <View
-              pointerEvents="none"
-              style={[
-                styles.throwableClip,
-                {
-                  width: throwableClipSize,
-                  height: throwableClipSize,
-                  borderRadius: throwableClipSize / 2,
-                  left: 0,
-                  alignSelf: 'auto',
-                },
-              ]}
-            >
-              <ThrowablePlayerEffect
-                key={throwableActiveEffects[1]!.id}
-                throwable={throwableActiveEffects[1]!.throwable}
-              />
-            </View>
-          )}
-        </View>
+        {top > 0 && (
+          <View style={styles.topOpponent}>
+            <LandscapeOpponent
+              name={playerNames[top] || `Opponent ${top}`}
+              cardCount={cardCounts[top] || 0}
+              isActive={isOpponentActive(top)}
+              layout="horizontal"
+              totalScore={totalScores[top]}
+              isBot={!playerIds[top]}
+              isDisconnected={disconnectedPlayers[top]}
+              disconnectTimerStartedAt={disconnectTimerStartedAts?.[top]}
+              turnTimerStartedAt={turnTimerStartedAts?.[top]}
+              onCountdownExpired={onCountdownExpireds?.[top]}
+              onAvatarPress={playerIds[top] ? () => handleOpponentAvatarPress(top) : undefined}
+              onNameLongPress={playerIds[top] ? () => handleOpponentNameLongPress(top) : undefined}
+              isCameraOn={isCameraOns?.[top]}
+              isMicOn={isMicOns?.[top]}
+              isVideoChatConnecting={isVideoChatConnectings?.[top]}
+              videoStreamSlot={videoStreamSlots?.[top]}
+              clockOffsetMs={turnClockOffsetMs}
+              timers={roomTimers}
+              isOnlineGame={isMultiplayer}
+            />
+            {throwableActiveEffects?.[top] != null && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.throwableClip,
+                  {
+                    width: throwableClipSize,
+                    height: throwableClipSize,
+                    borderRadius: throwableClipSize / 2,
+                    left: 0,
+                    alignSelf: 'auto',
+                  },
+                ]}
+              >
+                <ThrowablePlayerEffect
+                  key={throwableActiveEffects[top]!.id}
+                  throwable={throwableActiveEffects[top]!.throwable}
+                />
+              </View>
+            )}
+          </View>
+        )}
 
         {/* Left opponent - Player at index 2 (left player, +3 positions = 1 counterclockwise) */}
-        <View style={styles.leftOpponent}>
-          <LandscapeOpponent
-            name={playerNames[2] || 'Opponent 2'}
-            cardCount={cardCounts[2] || 0}
-            isActive={isOpponentActive(2)}
-            totalScore={totalScores[2]}
-            isBot={!playerIds[2]}
-            isDisconnected={disconnectedPlayers[2]}
-            disconnectTimerStartedAt={disconnectTimerStartedAts?.[2]}
-            turnTimerStartedAt={turnTimerStartedAts?.[2]}
-            onCountdownExpired={onCountdownExpireds?.[2]}
-            onAvatarPress={playerIds[2] ? () => handleOpponentAvatarPress(2) : undefined}
-            onNameLongPress={playerIds[2] ? () => handleOpponentNameLongPress(2) : undefined}
-            isCameraOn={isCameraOns?.[2]}
-            isMicOn={isMicOns?.[2]}
-            isVideoChatConnecting={isVideoChatConnectings?.[2]}
-            videoStreamSlot={videoStreamSlots?.[2]}
-            clockOffsetMs={turnClockOffsetMs}
-            isOnlineGame={isMultiplayer}
-          />
-          {throwableActiveEffects?.[2] != null && (
-            <View
-              pointerEvents="none"
-              style={[
-                styles.throwableClip,
-                {
-                  width: throwableClipSize,
-                  height: throwableClipSize,
-                  borderRadius: throwableClipSize / 2,
-                },
-              ]}
-            >
-              <ThrowablePlayerEffect
-                key={throwableActiveEffects[2]!.id}
-                throwable={throwableActiveEffects[2]!.throwable}
-              />
-            </View>
-          )}
-        </View>
+        {left > 0 && (
+          <View style={styles.leftOpponent}>
+            <LandscapeOpponent
+              name={playerNames[left] || `Opponent ${left}`}
+              cardCount={cardCounts[left] || 0}
+              isActive={isOpponentActive(left)}
+              totalScore={totalScores[left]}
+              isBot={!playerIds[left]}
+              isDisconnected={disconnectedPlayers[left]}
+              disconnectTimerStartedAt={disconnectTimerStartedAts?.[left]}
+              turnTimerStartedAt={turnTimerStartedAts?.[left]}
+              onCountdownExpired={onCountdownExpireds?.[left]}
+              onAvatarPress={playerIds[left] ? () => handleOpponentAvatarPress(left) : undefined}
+              onNameLongPress={
+                playerIds[left] ? () => handleOpponentNameLongPress(left) : undefined
+              }
+              isCameraOn={isCameraOns?.[left]}
+              isMicOn={isMicOns?.[left]}
+              isVideoChatConnecting={isVideoChatConnectings?.[left]}
+              videoStreamSlot={videoStreamSlots?.[left]}
+              clockOffsetMs={turnClockOffsetMs}
+              timers={roomTimers}
+              isOnlineGame={isMultiplayer}
+            />
+            {throwableActiveEffects?.[left] != null && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.throwableClip,
+                  {
+                    width: throwableClipSize,
+                    height: throwableClipSize,
+                    borderRadius: throwableClipSize / 2,
+                  },
+                ]}
+              >
+                <ThrowablePlayerEffect
+                  key={throwableActiveEffects[left]!.id}
+                  throwable={throwableActiveEffects[left]!.throwable}
+                />
+              </View>
+            )}
+          </View>
+        )}
 
         {/* Right opponent - Player at index 3 (right player, +1 position clockwise) */}
-        <View style={styles.rightOpponent}>
-          <LandscapeOpponent
-            name={playerNames[3] || 'Opponent 3'}
-            cardCount={cardCounts[3] || 0}
-            isActive={isOpponentActive(3)}
-            totalScore={totalScores[3]}
-            isBot={!playerIds[3]}
-            isDisconnected={disconnectedPlayers[3]}
-            disconnectTimerStartedAt={disconnectTimerStartedAts?.[3]}
-            turnTimerStartedAt={turnTimerStartedAts?.[3]}
-            onCountdownExpired={onCountdownExpireds?.[3]}
-            onAvatarPress={playerIds[3] ? () => handleOpponentAvatarPress(3) : undefined}
-            onNameLongPress={playerIds[3] ? () => handleOpponentNameLongPress(3) : undefined}
-            isCameraOn={isCameraOns?.[3]}
-            isMicOn={isMicOns?.[3]}
-            isVideoChatConnecting={isVideoChatConnectings?.[3]}
-            videoStreamSlot={videoStreamSlots?.[3]}
-            clockOffsetMs={turnClockOffsetMs}
-            isOnlineGame={isMultiplayer}
-          />
-          {throwableActiveEffects?.[3] != null && (
-            <View
-              pointerEvents="none"
-              style={[
-                styles.throwableClip,
-                {
-                  width: throwableClipSize,
-                  height: throwableClipSize,
-                  borderRadius: throwableClipSize / 2,
-                },
-              ]}
-            >
-              <ThrowablePlayerEffect
-                key={throwableActiveEffects[3]!.id}
-                throwable={throwableActiveEffects[3]!.throwable}
-              />
-            </View>
-          )}
-        </View>
+        {right > 0 && (
+          <View style={styles.rightOpponent}>
+            <LandscapeOpponent
+              name={playerNames[right] || `Opponent ${right}`}
+              cardCount={cardCounts[right] || 0}
+              isActive={isOpponentActive(right)}
+              totalScore={totalScores[right]}
+              isBot={!playerIds[right]}
+              isDisconnected={disconnectedPlayers[right]}
+              disconnectTimerStartedAt={disconnectTimerStartedAts?.[right]}
+              turnTimerStartedAt={turnTimerStartedAts?.[right]}
+              onCountdownExpired={onCountdownExpireds?.[right]}
+              onAvatarPress={playerIds[right] ? () => handleOpponentAvatarPress(right) : undefined}
+              onNameLongPress={
+                playerIds[right] ? () => handleOpponentNameLongPress(right) : undefined
+              }
+              isCameraOn={isCameraOns?.[right]}
+              isMicOn={isMicOns?.[right]}
+              isVideoChatConnecting={isVideoChatConnectings?.[right]}
+              videoStreamSlot={videoStreamSlots?.[right]}
+              clockOffsetMs={turnClockOffsetMs}
+              timers={roomTimers}
+              isOnlineGame={isMultiplayer}
+            />
+            {throwableActiveEffects?.[right] != null && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.throwableClip,
+                  {
+                    width: throwableClipSize,
+                    height: throwableClipSize,
+                    borderRadius: throwableClipSize / 2,
+                  },
+                ]}
+              >
+                <ThrowablePlayerEffect
+                  key={throwableActiveEffects[right]!.id}
+                  throwable={throwableActiveEffects[right]!.throwable}
+                />
+              </View>
+            )}
+          </View>
+        )}
 
         {/* Inline Add Friend overlay — shown after avatar tap */}
         {opponentActionTarget && (
@@ -634,6 +667,7 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
             isVideoChatConnecting={isVideoChatConnectings?.[0]}
             videoStreamSlot={videoStreamSlots?.[0]}
             clockOffsetMs={turnClockOffsetMs}
+            timers={roomTimers}
             isOnlineGame={isMultiplayer}
           />
           {throwableActiveEffects?.[0] != null && (
@@ -738,6 +772,19 @@ export const LandscapeGameLayout = React.memo(function LandscapeGameLayout({
             >
               <Text style={styles.hintButtonText}>{i18n.t('game.hint')}</Text>
             </Pressable>
+            {onUndo && (undoStatus?.remaining ?? 0) > 0 && (
+              <Pressable
+                style={[styles.undoButton, !undoStatus?.canUndo && { opacity: 0.5 }]}
+                onPress={onUndo}
+                disabled={!undoStatus?.canUndo}
+                hitSlop={8}
+                accessibilityLabel={`${i18n.t('game.undo')} (${undoStatus?.remaining ?? 0})`}
+                accessibilityRole="button"
+                testID="undo-button"
+              >
+                <Text style={styles.passButtonText}>↩ {undoStatus?.remaining ?? 0}</Text>
+              </Pressable>
+            )}
           </View>
         </View>
 
@@ -997,6 +1044,18 @@ const styles = StyleSheet.create({
     fontSize: 11, // Smaller size for German 'Sortieren'
   },
 
+  // Undo button (Gray, local AI games only)
+  undoButton: {
+    width: 50,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: '#374151',
+    borderWidth: 1,
+    borderColor: '#6b7280',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
   // Hint button (Orange)
   hintButton: {
     width: 55,
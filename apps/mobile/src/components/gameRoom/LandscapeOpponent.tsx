@@ -31,6 +31,7 @@ import {
   formatScore,
   scoreDisplayStyles,
 } from '../../styles/scoreDisplayStyles';
+import { DEFAULT_ROOM_TIMER_SETTINGS, type RoomTimerSettings } from '../../game/engine/room-timers';
 import { CardCountBadge } from '../scoreboard/CardCountBadge';
 import InactivityCountdownRing from '../game/InactivityCountdownRing';
 import { i18n } from '../../i18n';
@@ -54,9 +55,9 @@ interface LandscapeOpponentProps {
   totalScore?: number;
   /** fix/rejoin: show spinner when player is disconnected */
   isDisconnected?: boolean;
-  /** UTC timestamp when 60s bot-replacement countdown started (null = no countdown) */
+  /** UTC timestamp when the bot-replacement countdown started (null = no countdown) */
   disconnectTimerStartedAt?: string | null;
-  /** UTC timestamp when 60s turn countdown started (null = no countdown) */
+  /** UTC timestamp when the turn countdown started (null = no countdown) */
   turnTimerStartedAt?: string | null;
   /** Called when countdown ring expires */
   onCountdownExpired?: () => void;
@@ -83,6 +84,8 @@ interface LandscapeOpponentProps {
   /** Server-to-client clock offset (ms) from useClockSync — passed to InactivityCountdownRing
    * so elapsed time is computed against the corrected server clock, not raw Date.now(). */
   clockOffsetMs?: number;
+  /** The room's turn and disconnect timers — how long each countdown ring runs */
+  timers?: RoomTimerSettings;
   /**
    * When true (multiplayer/online game), the red/orange active-turn avatar border is
    * suppressed. The yellow InactivityCountdownRing is the sole active-turn indicator
@@ -115,6 +118,7 @@ export function LandscapeOpponent({
   isVideoChatConnecting,
   videoStreamSlot,
   clockOffsetMs = 0,
+  timers = DEFAULT_ROOM_TIMER_SETTINGS,
   isOnlineGame = false,
 }: LandscapeOpponentProps) {
   // Profile photo size preference (mirrors PlayerInfo scaling)
@@ -209,6 +213,9 @@ export function LandscapeOpponent({
               key={ringStartedAt}
               type={ringType}
               startedAt={ringStartedAt}
+              durationMs={
+                (ringType === 'connection' ? timers.disconnectSeconds : timers.turnSeconds) * 1000
+              }
               onExpired={ringType === 'connection' ? (onCountdownExpired ?? (() => {})) : () => {}}
               size={avatarScale.size}
               clockOffsetMs={clockOffsetMs}
@@ -52,6 +52,7 @@ export const LandscapeScoreboard: React.FC<LandscapeScoreboardProps> = ({
   isGameFinished,
   scoreHistory,
   playHistory,
+  targetScore,
   isExpanded,
   onToggleExpand,
   onTogglePlayHistory,
@@ -71,6 +72,7 @@ export const LandscapeScoreboard: React.FC<LandscapeScoreboardProps> = ({
           isGameFinished={isGameFinished}
           scoreHistory={scoreHistory}
           playHistory={playHistory}
+          targetScore={targetScore}
           onToggleExpand={onToggleExpand}
           onTogglePlayHistory={onTogglePlayHistory}
           isExpanded={isExpanded}
@@ -1,15 +1,16 @@
 /**
  * ActiveGameBanner - Always rendered on the Home screen.
  *
- * When the user has an active game (offline or online) it shows game info with
- * rejoin/resume/leave actions.  When no game is active it renders a lightweight
- * "No Game in Progress" idle banner so the layout is stable.
+ * When the user has an active online game it shows game info with
+ * rejoin/leave actions.  When no game is active it renders a lightweight
+ * "No Game in Progress" idle banner so the layout is stable.  Saved offline
+ * games are listed separately (ContinueGamesList).
  *
  * Features:
- * - Detects offline games via AsyncStorage (@big2_game_state)
  * - Detects online games via Supabase room_players query
- * - For online games: shows a 60-second countdown before bot replacement
- * - Option to rejoin/resume, leave, or replace the bot after 60s
+ * - For online games: shows the room's disconnect countdown (60s by default)
+ *   before bot replacement
+ * - Option to rejoin/resume, leave, or replace the bot once it expires
  * - Smooth entrance animation
  */
 
@@ -23,11 +24,9 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { COLORS, SPACING, FONT_SIZES } from '../../constants';
 import { i18n } from '../../i18n';
 
-const GAME_STATE_KEY = '@big2_game_state';
 const BOT_REPLACEMENT_SECONDS = 60;
 
 export type ActiveGameType = 'offline' | 'online';
@@ -38,6 +37,8 @@ export interface ActiveGameInfo {
   roomCode: string;
   /** For online: room status */
   roomStatus?: 'waiting' | 'playing';
+  /** For offline: the save slot of the game */
+  saveSlot?: string;
   /** Match number from offline game state */
   matchNumber?: number;
   /** Whether the game is still in progress (not ended) */
@@ -55,12 +56,12 @@ interface ActiveGameBannerProps {
   onLeave: (gameInfo: ActiveGameInfo, onDone?: () => void) => void;
   /** Called when bot replacement countdown expires (online only) */
   onBotReplaced?: () => void;
-  /** Called when user wants to replace the bot after 60s. onDone is called when the action completes or is cancelled. */
+  /** Called when user wants to replace the bot after the countdown. onDone is called when the action completes or is cancelled. */
   onReplaceBotAndRejoin?: (roomCode: string, onDone?: () => void) => void;
   /** Timestamp when the user left the online game (for countdown) */
   disconnectTimestamp?: number | null;
-  /** Increment to force re-check of offline game state (e.g. after discard) */
-  refreshTrigger?: number;
+  /** The room's disconnect timer — seconds from disconnectTimestamp to bot replacement */
+  botReplacementSeconds?: number;
   /**
    * Called when the countdown reaches 0 — parent should re-check room status.
    * If the room was all-bots it will be closed server-side, so the parent
@@ -85,11 +86,10 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
   onBotReplaced,
   onReplaceBotAndRejoin,
   disconnectTimestamp,
-  refreshTrigger,
+  botReplacementSeconds = BOT_REPLACEMENT_SECONDS,
   onTimerExpired,
   canRejoinAfterExpiry,
 }) => {
-  const [offlineGameInfo, setOfflineGameInfo] = useState<ActiveGameInfo | null>(null);
   const [countdown, setCountdown] = useState<number | null>(null);
   const [botHasReplaced, setBotHasReplaced] = useState(false);
   const [isRejoining, setIsRejoining] = useState(false);
@@ -104,47 +104,16 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
   const capturedRemainingRef = useRef<number | null>(null);
   const capturedAtMsRef = useRef<number | null>(null);
 
-  // Check for offline game in AsyncStorage
-  const checkOfflineGame = useCallback(async () => {
-    try {
-      const stateJson = await AsyncStorage.getItem(GAME_STATE_KEY);
-      if (stateJson) {
-        const state = JSON.parse(stateJson);
-        // Only show banner if game is not ended
-        if (state && !state.gameOver && state.gameStarted && !state.gameEnded) {
-          setOfflineGameInfo({
-            type: 'offline',
-            roomCode: 'LOCAL_AI_GAME',
-            matchNumber: state.currentMatch || 1,
-            isActive: true,
-          });
-          return;
-        }
-      }
-      setOfflineGameInfo(null);
-    } catch {
-      setOfflineGameInfo(null);
-    }
-  }, []);
-
-  // Re-check offline game every time the screen gains focus.
-  // Also reset isRejoining/isLeaving so a failed navigation doesn't permanently disable buttons.
+  // Reset isRejoining/isLeaving every time the screen gains focus so a failed
+  // navigation doesn't permanently disable buttons.
   // (React Navigation keeps screens alive — useEffect only runs on mount)
   useFocusEffect(
     useCallback(() => {
-      checkOfflineGame();
       setIsRejoining(false);
       setIsLeaving(false);
-    }, [checkOfflineGame])
+    }, [])
   );
 
-  // Also re-check when parent increments refreshTrigger (e.g. after discard)
-  useEffect(() => {
-    if (refreshTrigger !== undefined && refreshTrigger > 0) {
-      checkOfflineGame();
-    }
-  }, [refreshTrigger, checkOfflineGame]);
-
   // Calculate countdown for online games
   useEffect(() => {
     if (!onlineRoomCode || onlineRoomStatus !== 'playing') {
@@ -186,7 +155,7 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
         // First tick: anchor to disconnectTimestamp and snapshot both the
         // remaining seconds and the current wall-clock time.
         const elapsed = Math.floor((Date.now() - disconnectTimestamp) / 1000);
-        remaining = BOT_REPLACEMENT_SECONDS - elapsed;
+        remaining = botReplacementSeconds - elapsed;
         capturedRemainingRef.current = remaining;
         capturedAtMsRef.current = Date.now();
       } else {
@@ -220,12 +189,12 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
     onlineRoomCode,
     onlineRoomStatus,
     disconnectTimestamp,
+    botReplacementSeconds,
     onBotReplaced,
     onTimerExpired,
     canRejoinAfterExpiry,
   ]);
 
-  // Determine which game info to display (online takes priority)
   const gameInfo = useMemo<ActiveGameInfo | null>(
     () =>
       onlineRoomCode
@@ -235,8 +204,8 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
             roomStatus: onlineRoomStatus,
             isActive: true,
           }
-        : offlineGameInfo,
-    [onlineRoomCode, onlineRoomStatus, offlineGameInfo]
+        : null,
+    [onlineRoomCode, onlineRoomStatus]
   );
 
   // Entrance animation
@@ -283,15 +252,14 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
     );
   }
 
-  const isOnline = gameInfo.type === 'online';
-  const isPlaying = isOnline && onlineRoomStatus === 'playing';
+  const isPlaying = onlineRoomStatus === 'playing';
   const showCountdown = isPlaying && countdown !== null;
 
   return (
     <Animated.View
       style={[
         styles.container,
-        isOnline ? styles.containerOnline : styles.containerOffline,
+        styles.containerOnline,
         {
           transform: [
             { translateY: slideAnim },
@@ -302,15 +270,11 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
     >
       {/* Icon + Title */}
       <View style={styles.headerRow}>
-        <Text style={styles.icon}>{isOnline ? '🌐' : '🤖'}</Text>
+        <Text style={styles.icon}>🌐</Text>
         <View style={styles.headerText}>
-          <Text style={styles.title}>
-            {isOnline ? i18n.t('home.activeOnlineGame') : i18n.t('home.activeOfflineGame')}
-          </Text>
+          <Text style={styles.title}>{i18n.t('home.activeOnlineGame')}</Text>
           <Text style={styles.subtitle}>
-            {isOnline
-              ? `${i18n.t('lobby.roomCode')}: ${gameInfo.roomCode} · ${onlineRoomStatus === 'playing' ? i18n.t('home.inProgress') : i18n.t('home.waitingStatus')}`
-              : i18n.t('home.offlineMatchSubtitle', { match: gameInfo.matchNumber || 1 })}
+            {`${i18n.t('lobby.roomCode')}: ${gameInfo.roomCode} · ${isPlaying ? i18n.t('home.inProgress') : i18n.t('home.waitingStatus')}`}
           </Text>
         </View>
       </View>
@@ -328,8 +292,8 @@ export const ActiveGameBanner: React.FC<ActiveGameBannerProps> = ({
         </View>
       )}
 
-      {/* Bot has replaced message — shown after 60s expires */}
-      {botHasReplaced && isOnline && (
+      {/* Bot has replaced message — shown after the countdown expires */}
+      {botHasReplaced && (
         <View style={styles.countdownRow}>
           <View style={styles.botReplacedBadge}>
             <Text style={styles.botReplacedText}>{i18n.t('home.botPlayingForYou')}</Text>
@@ -434,10 +398,6 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(59, 130, 246, 0.15)',
     borderColor: '#3b82f6',
   },
-  containerOffline: {
-    backgroundColor: 'rgba(59, 130, 246, 0.15)',
-    borderColor: '#3b82f6',
-  },
   containerIdle: {
     backgroundColor: 'rgba(107, 114, 128, 0.12)',
     borderColor: '#6b7280',
@@ -0,0 +1,218 @@
+/**
+ * ContinueGamesList - The saved offline games on the Home screen.
+ *
+ * Lists the save slots of offline games still in progress (see
+ * game/save-slots.ts), most recently played first: the opponents, the match
+ * number and every seat's score, with Continue and Discard actions.
+ * Renders nothing when there is no saved game.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { COLORS, SPACING, FONT_SIZES } from '../../constants';
+import { i18n } from '../../i18n';
+import { readSaveSlots, type SaveSlotSummary } from '../../game/save-slots';
+import type { ActiveGameInfo } from './ActiveGameBanner';
+
+interface ContinueGamesListProps {
+  /** Called when user wants to continue a saved game */
+  onResume: (gameInfo: ActiveGameInfo) => void;
+  /** Called when user wants to discard a saved game. onDone is called when the action completes or is cancelled. */
+  onLeave: (gameInfo: ActiveGameInfo, onDone?: () => void) => void;
+  /** Increment to force re-reading the save slots (e.g. after discard) */
+  refreshTrigger?: number;
+}
+
+function toGameInfo(slot: SaveSlotSummary): ActiveGameInfo {
+  return {
+    type: 'offline',
+    roomCode: 'LOCAL_AI_GAME',
+    saveSlot: slot.slotId,
+    matchNumber: slot.matchNumber,
+    isActive: true,
+  };
+}
+
+/** "Bot 1, Bot 2, Bot 3 · Medium" (the difficulty when every bot shares it) */
+function describeOpponents(slot: SaveSlotSummary): string {
+  const names = slot.opponents.map(opponent => opponent.name).join(', ');
+  const difficulties = new Set(slot.opponents.map(opponent => opponent.difficulty));
+  const [difficulty] = difficulties;
+  return difficulties.size === 1 && difficulty
+    ? `${names} · ${i18n.t(`home.${difficulty}`)}`
+    : names;
+}
+
+export const ContinueGamesList: React.FC<ContinueGamesListProps> = ({
+  onResume,
+  onLeave,
+  refreshTrigger,
+}) => {
+  const [slots, setSlots] = useState<SaveSlotSummary[]>([]);
+  const [busySlot, setBusySlot] = useState<string | null>(null);
+
+  const loadSlots = useCallback(async () => {
+    try {
+      const saved = await readSaveSlots();
+      setSlots(saved.filter(slot => slot.inProgress));
+    } catch {
+      setSlots([]);
+    }
+  }, []);
+
+  // Re-read the slots every time the screen gains focus (a game was just
+  // played or saved), and reset busySlot so a failed navigation doesn't
+  // leave the buttons disabled
+  useFocusEffect(
+    useCallback(() => {
+      loadSlots();
+      setBusySlot(null);
+    }, [loadSlots])
+  );
+
+  useEffect(() => {
+    if (refreshTrigger !== undefined && refreshTrigger > 0) {
+      loadSlots();
+    }
+  }, [refreshTrigger, loadSlots]);
+
+  if (slots.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>{i18n.t('home.continueGames')}</Text>
+      {slots.map(slot => {
+        const gameInfo = toGameInfo(slot);
+        const busy = busySlot !== null;
+        return (
+          <View key={slot.slotId} style={styles.slot} testID={`save-slot-${slot.slotId}`}>
+            <View style={styles.headerRow}>
+              <Text style={styles.icon}>🤖</Text>
+              <View style={styles.headerText}>
+                <Text style={styles.title} numberOfLines={1}>
+                  {i18n.t('home.savedGameOpponents', { opponents: describeOpponents(slot) })}
+                </Text>
+                <Text style={styles.subtitle}>
+                  {i18n.t('home.offlineMatchSubtitle', { match: slot.matchNumber })}
+                </Text>
+              </View>
+            </View>
+
+            <Text style={styles.scores} numberOfLines={2}>
+              {slot.scores.map(seat => `${seat.name} ${seat.score}`).join(' · ')}
+            </Text>
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, styles.continueButton, busy && styles.buttonLoading]}
+                onPress={() => {
+                  setBusySlot(slot.slotId);
+                  onResume(gameInfo);
+                }}
+                activeOpacity={0.8}
+                disabled={busy}
+                testID={`continue-game-${slot.slotId}`}
+                accessibilityRole="button"
+                accessibilityLabel={i18n.t('home.continueGame')}
+                accessibilityState={{ disabled: busy }}
+              >
+                <Text style={styles.buttonText}>{i18n.t('home.continueGame')}</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.button, styles.discardButton, busy && styles.buttonLoading]}
+                onPress={() => {
+                  setBusySlot(slot.slotId);
+                  onLeave(gameInfo, () => setBusySlot(null));
+                }}
+                activeOpacity={0.8}
+                disabled={busy}
+                testID={`discard-game-${slot.slotId}`}
+                accessibilityRole="button"
+                accessibilityLabel={i18n.t('home.discardGame')}
+                accessibilityState={{ disabled: busy }}
+              >
+                <Text style={styles.buttonText}>{i18n.t('home.discardGame')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: SPACING.lg,
+    gap: SPACING.sm,
+  },
+  heading: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '700',
+    color: '#f3f4f6',
+  },
+  slot: {
+    borderRadius: 12,
+    padding: SPACING.md,
+    borderWidth: 1.5,
+    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+    borderColor: '#3b82f6',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  icon: {
+    fontSize: 28,
+    marginRight: 10,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '700',
+    color: '#f3f4f6',
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.sm - 1,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  scores: {
+    fontSize: FONT_SIZES.sm,
+    color: '#d1d5db',
+    marginBottom: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  continueButton: {
+    backgroundColor: '#22c55e',
+  },
+  discardButton: {
+    backgroundColor: '#ef4444',
+  },
+  buttonText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '700',
+    color: COLORS.white,
+  },
+  buttonLoading: {
+    opacity: 0.7,
+  },
+});
+
+export default ContinueGamesList;
@@ -8,6 +8,7 @@
  * - Rows for previous completed matches
  * - Current match row showing card counts
  * - Total row with color-coded final scores
+ * - Penalty/bonus notes and target score for non-classic room scoring
  * - Scroll support for many matches
  * 
  * Created as part of Task #346: ExpandedScoreboard component
@@ -16,11 +17,25 @@
 
 import React from 'react';
 import { View, Text, TouchableOpacity, ScrollView } from 'react-native';
-import { ExpandedScoreboardProps } from '../../types/scoreboard';
+import { ExpandedScoreboardProps, MatchScoreBreakdown } from '../../types/scoreboard';
 import { i18n } from '../../i18n';
 import { useExpandedScoreboardStyles } from './hooks/useResponsiveStyles';
 import { ScoreboardColors, getScoreColor, getPointsColor } from './styles/colors';
 
+/** Short penalty/bonus note for a score cell, e.g. "2s +4 ×2" (empty under classic scoring) */
+function formatBreakdown(breakdown: MatchScoreBreakdown | undefined): string {
+  if (!breakdown) return '';
+  const parts: string[] = [];
+  if (breakdown.twosPenalty > 0) {
+    parts.push(i18n.t('game.scoreTwosPenalty', { n: breakdown.twosPenalty }));
+  }
+  if (breakdown.doubled) parts.push(i18n.t('game.scoreDoubled'));
+  if (breakdown.hongKongBonus > 0) {
+    parts.push(i18n.t('game.scoreHongKongBonus', { n: breakdown.hongKongBonus }));
+  }
+  return parts.join(' ');
+}
+
 export const ExpandedScoreboard: React.FC<ExpandedScoreboardProps> = ({
   playerNames,
   currentScores,
@@ -29,6 +44,7 @@ export const ExpandedScoreboard: React.FC<ExpandedScoreboardProps> = ({
   matchNumber,
   isGameFinished,
   scoreHistory,
+  targetScore,
   onToggleExpand,
   onTogglePlayHistory,
   isExpanded: _isExpanded,
@@ -42,6 +58,7 @@ export const ExpandedScoreboard: React.FC<ExpandedScoreboardProps> = ({
       <View style={styles.expandedHeader}>
         <Text style={styles.expandedTitle}>
           {isGameFinished ? i18n.t('game.finalScoresTitle') : i18n.t('game.matchHistoryTitle', { n: matchNumber })}
+          {targetScore !== undefined && ` · ${i18n.t('game.targetScoreLabel', { n: targetScore })}`}
         </Text>
         
         <View style={styles.headerButtons}>
@@ -134,6 +151,7 @@ export const ExpandedScoreboard: React.FC<ExpandedScoreboardProps> = ({
                     .slice(0, index + 1)
                     .reduce((sum, m) => sum + (m.pointsAdded[playerIndex] || 0), 0);
                   const pointsColor = getPointsColor(points);
+                  const note = formatBreakdown(match.breakdown?.[playerIndex]);
                   
                   return (
                     <View key={`match-${match.matchNumber}-p${playerIndex}`} style={styles.tableCell}>
@@ -143,6 +161,11 @@ export const ExpandedScoreboard: React.FC<ExpandedScoreboardProps> = ({
                       <Text style={[styles.tableCellLabel, { color: ScoreboardColors.text.muted }]}>
                         ({cumulativeScore})
                       </Text>
+                      {note !== '' && (
+                        <Text style={[styles.tableCellLabel, { color: ScoreboardColors.text.muted }]}>
+                          {note}
+                        </Text>
+                      )}
                     </View>
                   );
                 })}
@@ -183,7 +206,7 @@ export const ExpandedScoreboard: React.FC<ExpandedScoreboardProps> = ({
               // CRITICAL FIX: Backend's cumulativeScore is broken - calculate true cumulative on frontend
               // Sum all pointsAdded from all matches to get real cumulative totals
               const totalScores = scoreHistory.length > 0
-                ? Array.from({ length: 4 }, (_, playerIndex) => 
+                ? Array.from({ length: playerNames.length }, (_, playerIndex) => 
                     scoreHistory.reduce((sum, match) => sum + (match.pointsAdded[playerIndex] || 0), 0)
                   )
                 : currentScores;
@@ -206,7 +229,7 @@ export const ExpandedScoreboard: React.FC<ExpandedScoreboardProps> = ({
                 );
               });
             // eslint-disable-next-line react-hooks/exhaustive-deps -- styles.tableCell etc. come from useExpandedScoreboardStyles() (stable memoized result); including them would add noise without functional benefit since style changes will be captured whenever the parent re-renders
-            }, [scoreHistory, currentScores, isGameFinished])}
+            }, [scoreHistory, currentScores, isGameFinished, playerNames.length])}
           </View>
         </ScrollView>
       </View>
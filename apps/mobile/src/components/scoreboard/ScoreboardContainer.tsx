@@ -34,6 +34,7 @@ const ScoreboardContainerComponent: React.FC<ScoreboardProps> = ({
   scoreHistory,
   playHistory,
   originalPlayerNames,
+  targetScore,
 }) => {
   // Use responsive container styles
   const styles = useScoreboardContainerStyles();
@@ -94,6 +95,7 @@ const ScoreboardContainerComponent: React.FC<ScoreboardProps> = ({
             isGameFinished={isGameFinished}
             scoreHistory={scoreHistory}
             playHistory={playHistory}
+            targetScore={targetScore}
             isExpanded={isScoreboardExpanded}
             onToggleExpand={handleToggleExpand}
             onTogglePlayHistory={handleTogglePlayHistory}
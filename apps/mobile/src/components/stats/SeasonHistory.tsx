@@ -0,0 +1,145 @@
+/**
+ * SeasonHistory Component - Current season and past season standings
+ * Shown on the Seasons tab of the stats screen
+ *
+ * Features:
+ * - Current season name and end date
+ * - One card per finished season with the player's ranked and casual tier
+ *   (RankBadge), final leaderboard position and the season reward
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { format } from 'date-fns/format'; // M25: path import for tree-shaking
+import { RankBadge } from '../RankBadge';
+import { COLORS, SPACING, FONT_SIZES } from '../../constants';
+import { MIN_SEASON_GAMES_FOR_REWARD } from '../../game/engine';
+import { usePlayerSeasons, type SeasonStanding } from '../../hooks/usePlayerSeasons';
+import { i18n } from '../../i18n';
+
+interface SeasonHistoryProps {
+  userId: string;
+}
+
+export default function SeasonHistory({ userId }: SeasonHistoryProps) {
+  const { currentSeason, pastSeasons, loading, error } = usePlayerSeasons(userId);
+
+  if (loading) {
+    return (
+      <View style={styles.section}>
+        <ActivityIndicator color={COLORS.white} />
+      </View>
+    );
+  }
+
+  const renderStanding = (label: string, seasonName: string, standing: SeasonStanding) => (
+    <View style={styles.standing}>
+      <RankBadge rank={standing.tier} elo={standing.rankPoints} size="small" seasonLabel={label} />
+      <Text style={styles.standingRank}>#{standing.rank}</Text>
+      <Text style={styles.reward}>
+        {standing.rewardTier
+          ? i18n.t('profile.seasonReward', { tier: `${seasonName} ${standing.rewardTier}` })
+          : '—'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <>
+      {currentSeason && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{i18n.t('profile.currentSeason')}</Text>
+          <Text style={styles.subtitle}>
+            {i18n.t('profile.seasonEnds', {
+              name: currentSeason.name,
+              date: format(new Date(currentSeason.endsAt), 'MMM d, yyyy'),
+            })}
+          </Text>
+          <Text style={styles.hint}>
+            {i18n.t('profile.seasonNoReward', { count: MIN_SEASON_GAMES_FOR_REWARD })}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{i18n.t('profile.pastSeasons')}</Text>
+        {pastSeasons.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {error ? i18n.t('profile.seasonsLoadError') : i18n.t('profile.noPastSeasons')}
+          </Text>
+        ) : (
+          pastSeasons.map(season => (
+            <View key={season.id} style={styles.seasonCard}>
+              <Text style={styles.seasonName}>{season.name}</Text>
+              <Text style={styles.hint}>
+                {format(new Date(season.startsAt), 'MMM d, yyyy')} –{' '}
+                {format(new Date(season.endsAt), 'MMM d, yyyy')} ·{' '}
+                {i18n.t('profile.seasonGames', { count: season.seasonGames })}
+              </Text>
+              {season.ranked &&
+                renderStanding(i18n.t('matchmaking.ranked'), season.name, season.ranked)}
+              {season.casual &&
+                renderStanding(i18n.t('matchmaking.casual'), season.name, season.casual)}
+            </View>
+          ))
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: SPACING.lg,
+    marginBottom: SPACING.xl,
+  },
+  sectionTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    marginBottom: SPACING.md,
+  },
+  subtitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+  },
+  hint: {
+    color: COLORS.white + '99',
+    fontSize: FONT_SIZES.xs,
+    marginTop: SPACING.xs,
+  },
+  emptyText: {
+    color: COLORS.white + '66',
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+    paddingVertical: SPACING.lg,
+  },
+  seasonCard: {
+    backgroundColor: COLORS.secondary,
+    borderRadius: 12,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+    gap: SPACING.sm,
+  },
+  seasonName: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  standing: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  standingRank: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  reward: {
+    flex: 1,
+    color: COLORS.white + 'CC',
+    fontSize: FONT_SIZES.xs,
+    textAlign: 'right',
+  },
+});
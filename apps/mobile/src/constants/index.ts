@@ -107,6 +107,14 @@ export const LAYOUT = {
   handAlignmentOffset: 68, // Horizontal offset for centering player's hand (user-requested: 52px or 68px)
 };
 
+// Opponent seats by table size, in display order after the user (bottom):
+// display index 1 takes the first position, 2 the second, and so on
+export const OPPONENT_POSITIONS: Record<number, readonly ('top' | 'left' | 'right')[]> = {
+  2: ['top'],
+  3: ['left', 'right'],
+  4: ['top', 'left', 'right'],
+};
+
 // Card font sizes (used with scaling)
 export const CARD_FONTS = {
   rankFontSize: 16,
@@ -10,6 +10,7 @@
  */
 import React, { createContext, useContext, useMemo } from 'react';
 import type { Card } from '../game/types';
+import type { RoomTimerSettings } from '../game/engine/room-timers';
 import type { ChatMessage } from '../types/chat';
 import type { GameStateManager } from '../game/state';
 import type { ScoreHistory, PlayHistoryMatch } from '../types/scoreboard';
@@ -94,6 +95,10 @@ export interface GameContextType {
   // C2 Audit: matchNumber, isGameFinished now live in gameSessionStore (Zustand).
   displayOrderScoreHistory: ScoreHistory[];
   playHistoryByMatch: PlayHistoryMatch[];
+  /** Score that ends the game (room / local scoring config, 101 by default) */
+  targetScore: number;
+  /** Turn, auto-pass and disconnect timers (room settings, the defaults for local games) */
+  roomTimers: RoomTimerSettings;
 
   // ── Clock synchronisation ─────────────────────────────────────────────
   /** Server-to-client clock offset in ms from useClockSync (positive = client behind server).
@@ -112,6 +117,10 @@ export interface GameContextType {
   handleSort: () => void;
   handleSmartSort: () => void;
   handleHint: () => void;
+  /** Take back the last move (local AI games with take-backs; undefined otherwise) */
+  handleUndo?: () => void;
+  /** Take-back state of a local AI game: whether undo is possible now, and how many are left */
+  undoStatus?: { canUndo: boolean; remaining: number };
 
   // ── Control state ──────────────────────────────────────────────────────
   // C2 Audit: isPlayerReady now lives in gameSessionStore (Zustand).
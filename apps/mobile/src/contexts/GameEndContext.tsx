@@ -55,6 +55,8 @@ export interface GameEndContextState {
   setOnPlayAgain: (callback: (() => void) | undefined) => void;
   onReturnToMenu?: () => void;
   setOnReturnToMenu: (callback: (() => void) | undefined) => void;
+  onViewReplay?: () => void;
+  setOnViewReplay: (callback: (() => void) | undefined) => void;
 
   // Helper functions
   resetGameEndState: () => void;
@@ -125,6 +127,7 @@ export const GameEndProvider: React.FC<GameEndProviderProps> = ({ children }) =>
 
   const [onPlayAgain, setOnPlayAgain] = useState<(() => void) | undefined>(undefined);
   const [onReturnToMenu, setOnReturnToMenu] = useState<(() => void) | undefined>(undefined);
+  const [onViewReplay, setOnViewReplay] = useState<(() => void) | undefined>(undefined);
 
   // -------------------------------------------------------------------------
   // HELPER FUNCTIONS
@@ -260,6 +263,8 @@ export const GameEndProvider: React.FC<GameEndProviderProps> = ({ children }) =>
     setOnPlayAgain,
     onReturnToMenu,
     setOnReturnToMenu,
+    onViewReplay,
+    setOnViewReplay,
 
     // Helper functions
     resetGameEndState,
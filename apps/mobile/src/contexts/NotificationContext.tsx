@@ -37,6 +37,8 @@ export interface AppNotification {
     | 'player_joined'
     | 'auto_pass_warning'
     | 'all_players_ready'
+    | 'tournament_table_ready'
+    | 'matchmaking_party'
     | 'generic';
   title: string;
   body: string;
@@ -62,6 +64,8 @@ const VALID_NOTIFICATION_TYPES = new Set<AppNotification['type']>([
   'player_joined',
   'auto_pass_warning',
   'all_players_ready',
+  'tournament_table_ready',
+  'matchmaking_party',
 ]);
 
 /** Maps raw FCM type strings sent by some Edge Function code paths to the
@@ -450,7 +454,12 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
         // AppNavigator's pendingLinkRef captures it and replays the navigation
         // after the user signs in.
         let pendingUrl: string | null = null;
-        if ((notifType === 'game_invite' || notifType === 'room_invite') && data.roomCode) {
+        if (
+          (notifType === 'game_invite' ||
+            notifType === 'room_invite' ||
+            notifType === 'tournament_table_ready') &&
+          data.roomCode
+        ) {
           pendingUrl = `big2mobile://lobby/${data.roomCode as string}?joining=true`;
         } else if ((notifType === 'your_turn' || notifType === 'game_started') && data.roomCode) {
           pendingUrl = `big2mobile://game/${data.roomCode as string}`;
@@ -492,8 +501,18 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
       const isInGame = activeRoute === 'Game';
 
       const doNavigate = () => {
-        if ((notifType === 'game_invite' || notifType === 'room_invite') && data.roomCode) {
+        if (
+          (notifType === 'game_invite' ||
+            notifType === 'room_invite' ||
+            notifType === 'tournament_table_ready') &&
+          data.roomCode
+        ) {
           navigation.navigate('Lobby', { roomCode: data.roomCode as string, joining: true });
+        } else if (notifType === 'matchmaking_party' && data.party_id) {
+          navigation.navigate('Matchmaking', {
+            matchType: data.match_type === 'ranked' ? 'ranked' : 'casual',
+            partyId: data.party_id as string,
+          });
         } else if (notifType === 'your_turn' && data.roomCode) {
           navigation.navigate('Game', { roomCode: data.roomCode as string });
         } else if (notifType === 'game_started' && data.roomCode) {
@@ -532,6 +551,8 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
         isInGame &&
         (notifType === 'game_invite' ||
           notifType === 'room_invite' ||
+          notifType === 'tournament_table_ready' ||
+          notifType === 'matchmaking_party' ||
           notifType === 'your_turn' ||
           notifType === 'game_started');
 
@@ -24,9 +24,7 @@ import React, {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ScoreboardContextState, ScoreHistory, PlayHistoryMatch } from '../types/scoreboard';
 import { gameLogger } from '../utils/logger';
-
-const SCORE_HISTORY_KEY = '@big2_score_history';
-const PLAY_HISTORY_KEY = '@big2_play_history';
+import { DEFAULT_SAVE_SLOT, saveSlotKeys } from '../game/save-slots';
 
 // ============================================================================
 // CONTEXT DEFINITION
@@ -50,6 +48,8 @@ interface ScoreboardProviderProps {
    * (P4-4 fix).
    */
   enableLocalPersistence?: boolean;
+  /** Save slot of the local game the history is persisted with (see save-slots.ts) */
+  saveSlot?: string;
 }
 
 // ============================================================================
@@ -61,7 +61,10 @@ export const ScoreboardProvider: React.FC<ScoreboardProviderProps> = ({
   initialExpanded = false,
   initialPlayHistoryOpen = false,
   enableLocalPersistence = true,
+  saveSlot = DEFAULT_SAVE_SLOT,
 }) => {
+  const { scoreHistory: scoreHistoryKey, playHistory: playHistoryKey } = saveSlotKeys(saveSlot);
+
   // -------------------------------------------------------------------------
   // STATE - UI Controls
   // -------------------------------------------------------------------------
@@ -90,14 +93,14 @@ export const ScoreboardProvider: React.FC<ScoreboardProviderProps> = ({
     if (!enableLocalPersistence) return;
     // Only persist non-empty scoreHistory (clearing is handled by clearHistory)
     if (scoreHistory.length > 0) {
-      AsyncStorage.setItem(SCORE_HISTORY_KEY, JSON.stringify(scoreHistory)).catch(err => {
+      AsyncStorage.setItem(scoreHistoryKey, JSON.stringify(scoreHistory)).catch(err => {
         gameLogger.error(
           '[ScoreboardContext] Failed to persist scoreHistory:',
           err?.message || String(err)
         );
       });
     }
-  }, [scoreHistory, enableLocalPersistence]);
+  }, [scoreHistory, enableLocalPersistence, scoreHistoryKey]);
 
   // Persist playHistoryByMatch to AsyncStorage for local games (P4-5 fix).
   // Skipped in multiplayer mode where game_state.play_history (DB) is the
@@ -112,12 +115,14 @@ export const ScoreboardProvider: React.FC<ScoreboardProviderProps> = ({
   // read them without a stale-closure problem.
   const playHistoryFlushRef = useRef<PlayHistoryMatch[]>(playHistoryByMatch);
   const enableLocalPersistenceFlushRef = useRef<boolean>(enableLocalPersistence);
+  const playHistoryKeyFlushRef = useRef<string>(playHistoryKey);
 
   // Keep flush refs in sync with the latest rendered values.
   useEffect(() => {
     playHistoryFlushRef.current = playHistoryByMatch;
     enableLocalPersistenceFlushRef.current = enableLocalPersistence;
-  }, [playHistoryByMatch, enableLocalPersistence]);
+    playHistoryKeyFlushRef.current = playHistoryKey;
+  }, [playHistoryByMatch, enableLocalPersistence, playHistoryKey]);
 
   // Flush the latest play history to AsyncStorage on unmount only — prevents
   // data loss when the user backgrounds or navigates away mid-debounce window.
@@ -126,9 +131,10 @@ export const ScoreboardProvider: React.FC<ScoreboardProviderProps> = ({
   useEffect(() => {
     return () => {
       if (enableLocalPersistenceFlushRef.current && playHistoryFlushRef.current.length > 0) {
-        AsyncStorage.setItem(PLAY_HISTORY_KEY, JSON.stringify(playHistoryFlushRef.current)).catch(
-          () => {}
-        );
+        AsyncStorage.setItem(
+          playHistoryKeyFlushRef.current,
+          JSON.stringify(playHistoryFlushRef.current)
+        ).catch(() => {});
       }
     };
   }, []); // empty deps — unmount only
@@ -146,7 +152,7 @@ export const ScoreboardProvider: React.FC<ScoreboardProviderProps> = ({
         clearTimeout(playHistoryDebounceRef.current);
       }
       playHistoryDebounceRef.current = setTimeout(() => {
-        AsyncStorage.setItem(PLAY_HISTORY_KEY, JSON.stringify(playHistoryByMatch)).catch(err => {
+        AsyncStorage.setItem(playHistoryKey, JSON.stringify(playHistoryByMatch)).catch(err => {
           gameLogger.error(
             '[ScoreboardContext] Failed to persist playHistoryByMatch:',
             err?.message || String(err)
@@ -157,7 +163,7 @@ export const ScoreboardProvider: React.FC<ScoreboardProviderProps> = ({
     return () => {
       if (playHistoryDebounceRef.current) clearTimeout(playHistoryDebounceRef.current);
     }; // only cancel — unmount flush handled by the dedicated effect above
-  }, [playHistoryByMatch, enableLocalPersistence]);
+  }, [playHistoryByMatch, enableLocalPersistence, playHistoryKey]);
 
   // -------------------------------------------------------------------------
   // HANDLERS - Match Collapse
@@ -263,20 +269,20 @@ export const ScoreboardProvider: React.FC<ScoreboardProviderProps> = ({
     }
     // Clear persisted history (no-op in multiplayer where AsyncStorage is unused)
     if (enableLocalPersistence) {
-      AsyncStorage.removeItem(SCORE_HISTORY_KEY).catch(err => {
+      AsyncStorage.removeItem(scoreHistoryKey).catch(err => {
         gameLogger.error(
           '[ScoreboardContext] Failed to clear persisted scoreHistory:',
           err?.message || String(err)
         );
       });
-      AsyncStorage.removeItem(PLAY_HISTORY_KEY).catch(err => {
+      AsyncStorage.removeItem(playHistoryKey).catch(err => {
         gameLogger.error(
           '[ScoreboardContext] Failed to clear persisted playHistory:',
           err?.message || String(err)
         );
       });
     }
-  }, [enableLocalPersistence]);
+  }, [enableLocalPersistence, scoreHistoryKey, playHistoryKey]);
 
   // -------------------------------------------------------------------------
   // CONTEXT VALUE
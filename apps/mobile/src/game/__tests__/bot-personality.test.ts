@@ -0,0 +1,123 @@
+/**
+ * Bot personalities — how each style reshapes the tier's decision, and the
+ * moves no personality may touch (opening play, one-card-left, endgame).
+ */
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { describe, it, expect } from '@jest/globals';
+import { STANDARD_RULE_SET, type LastPlay } from '../engine';
+import { createBotAI } from '../bot';
+import { applyBotPersonality, isBotPersonality, type PersonalityContext } from '../bot/personality';
+import type { Card } from '../types';
+
+function toCards(ids: string[]): Card[] {
+  return ids.map(id => ({ id, rank: id.slice(0, -1), suit: id.slice(-1) }) as Card);
+}
+
+function single(id: string, position: number): LastPlay {
+  return { position, cards: toCards([id]), combo_type: 'Single' };
+}
+
+const HAND = toCards(['4D', '5C', '7D', '7S', '9H', 'JC', 'QD', 'KH', 'AS', '2S']);
+
+function context(overrides: Partial<PersonalityContext>): PersonalityContext {
+  return {
+    hand: HAND,
+    lastPlay: single('6C', 3),
+    minOpponentCards: 10,
+    nextPlayerCardCount: 10,
+    isFirstPlayOfGame: false,
+    validPlays: () => [['7D'], ['7S'], ['9H'], ['JC'], ['QD'], ['KH'], ['AS'], ['2S']],
+    rules: STANDARD_RULE_SET,
+    random: () => 0.99,
+    ...overrides,
+  };
+}
+
+describe('Bot personalities', () => {
+  it('recognises the personality names', () => {
+    expect(isBotPersonality('bluffing')).toBe(true);
+    expect(isBotPersonality('reckless')).toBe(false);
+    expect(isBotPersonality(null)).toBe(false);
+  });
+
+  it('leaves the decision alone when balanced', () => {
+    const decision = { cards: null, reasoning: 'tier' };
+    expect(applyBotPersonality('balanced', decision, context({}))).toBe(decision);
+  });
+
+  it('contests every trick when aggressive', () => {
+    const result = applyBotPersonality('aggressive', { cards: null }, context({}));
+    expect(result.cards).toEqual(['7D']);
+  });
+
+  it('holds its 2s when conservative', () => {
+    const onlyTwo = context({ validPlays: () => [['2S']], lastPlay: single('AH', 3) });
+    expect(applyBotPersonality('conservative', { cards: ['2S'] }, onlyTwo).cards).toBeNull();
+    // With a small hand the 2 is fair game
+    const smallHand = context({
+      hand: toCards(['4D', '9H', '2S']),
+      validPlays: () => [['2S']],
+      lastPlay: single('AH', 3),
+    });
+    expect(applyBotPersonality('conservative', { cards: ['2S'] }, smallHand).cards).toEqual(['2S']);
+  });
+
+  it('avoids breaking a pair for a single when conservative', () => {
+    const result = applyBotPersonality('conservative', { cards: ['7D'] }, context({}));
+    expect(result.cards).toEqual(['9H']);
+  });
+
+  it('passes to keep control cards when conservative', () => {
+    const result = applyBotPersonality(
+      'conservative',
+      { cards: ['AS'] },
+      context({ lastPlay: single('KD', 3), random: () => 0.1 })
+    );
+    expect(result.cards).toBeNull();
+  });
+
+  it('leads a high single to draw out 2s when bluffing', () => {
+    const result = applyBotPersonality(
+      'bluffing',
+      { cards: ['4D'] },
+      context({ lastPlay: null, random: () => 0 })
+    );
+    expect(result.cards).toEqual(['AS']);
+  });
+
+  it('never overrides forced or decisive moves', () => {
+    const decision = { cards: ['2S'] };
+    const cases: Partial<PersonalityContext>[] = [
+      { isFirstPlayOfGame: true },
+      { nextPlayerCardCount: 1 },
+      { minOpponentCards: 2 },
+      { hand: toCards(['2S']) },
+    ];
+    for (const overrides of cases) {
+      expect(applyBotPersonality('conservative', decision, context(overrides))).toBe(decision);
+    }
+  });
+
+  it('plays through BotAI with a personality', () => {
+    const options = {
+      hand: toCards(['4D', '5C', '7D', '8S', '9H', 'JC', 'QD', 'KH', '10S', '2S']),
+      lastPlay: single('AH', 3),
+      isFirstPlayOfGame: false,
+      matchNumber: 2,
+      playerCardCounts: [10, 10, 10, 9],
+      currentPlayerIndex: 0,
+    };
+    const bot = createBotAI('hard');
+    expect(bot.getPlay(options).cards).toEqual(['2S']);
+    expect(bot.getPlay({ ...options, personality: 'balanced' }).cards).toEqual(['2S']);
+    const conservative = bot.getPlay({ ...options, personality: 'conservative' });
+    expect(conservative.cards).toBeNull();
+    expect(conservative.reasoning).toMatch(/^\[CONSERVATIVE\]/);
+  });
+});
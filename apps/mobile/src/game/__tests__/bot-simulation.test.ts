@@ -0,0 +1,100 @@
+/**
+ * Bot simulation — seeded batches of full games between chosen bots, the
+ * balance statistics collected from them, and the CSV output.
+ */
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { describe, it, expect } from '@jest/globals';
+import { RULE_SET_PRESETS, SCORING_TIER_PRESETS, normalizeScoringConfig } from '../engine';
+import { formatSimulationCsv, getSimulationGameSeed, runSimulation } from '../bot/simulation';
+
+const SEED = '5eed5eed5eed5eed5eed5eed5eed5eed';
+
+describe('runSimulation', () => {
+  const result = runSimulation({ seats: ['hard', 'easy', 'hard', 'easy'], games: 3, seed: SEED });
+
+  it('plays every game to the target score', () => {
+    expect(result.games).toBe(3);
+    expect(result.playerCount).toBe(4);
+    expect(result.targetScore).toBe(101);
+    expect(result.targetReachedRate).toBe(1);
+    expect(result.averageMatchesPerGame).toBe(result.matches / 3);
+    expect(result.dealVariant).toBeUndefined();
+  });
+
+  it('reports statistics per seat', () => {
+    expect(result.seats.map(seat => seat.bot)).toEqual(['hard', 'easy', 'hard', 'easy']);
+    expect(result.seats.reduce((sum, seat) => sum + seat.gameWins, 0)).toBe(3);
+    expect(result.seats.reduce((sum, seat) => sum + seat.matchWins, 0)).toBe(result.matches);
+    expect(result.seats.reduce((sum, seat) => sum + seat.winRate, 0)).toBeCloseTo(1);
+    // Someone reaches the target in every game
+    expect(result.seats.some(seat => seat.targetReachedRate > 0)).toBe(true);
+    for (const seat of result.seats) {
+      expect(seat.averageCardsLeft).toBeGreaterThan(0);
+      expect(seat.averageCardsLeft).toBeLessThan(13);
+    }
+  });
+
+  it('counts combinations and passes', () => {
+    const plays = Object.values(result.comboCounts).reduce((sum, count) => sum + count, 0);
+    expect(result.comboCounts.Single).toBeGreaterThan(0);
+    expect(Object.values(result.comboFrequency).reduce((sum, f) => sum + f, 0)).toBeCloseTo(1);
+    expect(plays).toBeLessThan(result.averageMovesPerMatch * result.matches);
+    expect(result.passRate).toBeGreaterThan(0);
+  });
+
+  it('derives a deal seed per game from the run seed', () => {
+    expect(getSimulationGameSeed(SEED, 1)).toMatch(/^[0-9a-f]{32}$/);
+    expect(getSimulationGameSeed(SEED, 2)).not.toBe(getSimulationGameSeed(SEED, 1));
+  });
+
+  it('plays short tables under other rules and scoring', () => {
+    const short = runSimulation({
+      seats: ['medium', 'medium'],
+      games: 2,
+      seed: SEED,
+      ruleSet: RULE_SET_PRESETS.taiwanese,
+      scoring: normalizeScoringConfig({ tiers: SCORING_TIER_PRESETS.flat, targetScore: 51 }),
+      dealVariant: 'dummy',
+    });
+    expect(short.playerCount).toBe(2);
+    expect(short.rulePreset).toBe('taiwanese');
+    expect(short.targetScore).toBe(51);
+    expect(short.dealVariant).toBe('dummy');
+    expect(short.targetReachedRate).toBe(1);
+  });
+
+  it('cuts games short at maxMatches', () => {
+    const capped = runSimulation({
+      seats: ['easy', 'easy', 'easy'],
+      games: 2,
+      seed: SEED,
+      maxMatches: 1,
+    });
+    expect(capped.matches).toBe(2);
+    expect(capped.targetReachedRate).toBe(0);
+  });
+
+  it('rejects an unsupported number of seats', () => {
+    expect(() => runSimulation({ seats: ['hard'], games: 1, seed: SEED })).toThrow(
+      'A simulation needs 2 to 4 seats (got 1)'
+    );
+  });
+});
+
+describe('formatSimulationCsv', () => {
+  it('writes one metric per row', () => {
+    const result = runSimulation({ seats: ['medium', 'easy', 'easy'], games: 1, seed: SEED });
+    const lines = formatSimulationCsv(result).split('\n');
+    expect(lines[0]).toBe('metric,scope,value');
+    expect(lines).toContain('games,all,1');
+    expect(lines).toContain(`win_rate,seat 0 (medium),${result.seats[0].winRate}`);
+    expect(lines.some(line => line.startsWith('combo_frequency,Single,'))).toBe(true);
+    expect(lines.every(line => line.split(',').length === 3)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Expert bot — the Monte Carlo search behind the 'expert' tier: the rules it
+ * must honour, the time budget, reproducibility with a seeded random source,
+ * and the pass observations it infers hands from.
+ */
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { describe, it, expect } from '@jest/globals';
+import { STANDARD_RULE_SET, classifyCards, type LastPlay } from '../engine';
+import { createBotAI } from '../bot';
+import {
+  searchExpertPlay,
+  passObservationsFromMoves,
+  type ExpertSearchOptions,
+} from '../bot/expert';
+import type { Card } from '../types';
+
+function toCards(ids: string[]): Card[] {
+  return ids.map(id => ({ id, rank: id.slice(0, -1), suit: id.slice(-1) }) as Card);
+}
+
+function single(id: string, position: number): LastPlay {
+  return { position, cards: toCards([id]), combo_type: 'Single' };
+}
+
+/** Small deterministic PRNG (mulberry32) so sampled deals are reproducible */
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function search(overrides: Partial<ExpertSearchOptions>) {
+  return searchExpertPlay({
+    hand: [],
+    lastPlay: null,
+    isFirstPlayOfGame: false,
+    playerCardCounts: [13, 13, 13, 13],
+    currentPlayerIndex: 0,
+    turnOrder: [1, 2, 3, 0],
+    playedCards: [],
+    passes: [],
+    ruleSet: STANDARD_RULE_SET,
+    timeBudgetMs: 10_000,
+    maxSamples: 40,
+    random: mulberry32(7),
+    ...overrides,
+  });
+}
+
+describe('Expert bot', () => {
+  it('goes out when it can', () => {
+    const result = search({
+      hand: toCards(['7H']),
+      lastPlay: single('6C', 3),
+      playerCardCounts: [1, 5, 5, 5],
+    });
+    expect(result.cards).toEqual(['7H']);
+  });
+
+  it('includes the opening card in the first play of the game', () => {
+    const hand = toCards([
+      '3D',
+      '3S',
+      '5C',
+      '6H',
+      '7D',
+      '8S',
+      '9C',
+      'JD',
+      'QH',
+      'KS',
+      'AC',
+      '2D',
+      '2H',
+    ]);
+    const result = search({ hand, isFirstPlayOfGame: true });
+    expect(result.cards).toContain('3D');
+    const played = hand.filter(card => result.cards!.includes(card.id));
+    expect(classifyCards(played, STANDARD_RULE_SET)).not.toBe('unknown');
+  });
+
+  it('leads after its own play when the last play is server-shaped', () => {
+    // game_state.last_play as play-cards stores it: the seat is player_index
+    const lastPlay: LastPlay = {
+      player_index: 0,
+      cards: toCards(['2S']),
+      combo_type: 'Single',
+      timestamp: Date.now(),
+    };
+    const result = search({
+      hand: toCards(['4C', '5D']),
+      lastPlay,
+      playerCardCounts: [2, 8, 8, 8],
+    });
+    expect(result.cards).not.toBeNull();
+  });
+
+  it('blocks the next player on one card with its highest single', () => {
+    const result = search({
+      hand: toCards(['5D', '9S', 'KS', 'QD']),
+      lastPlay: single('6C', 3),
+      playerCardCounts: [4, 1, 6, 6],
+    });
+    expect(result.cards).toEqual(['KS']);
+  });
+
+  it('samples deals until its budget runs out', () => {
+    const result = search({
+      hand: toCards(['4D', '6C', '8H', '10S', 'QD', 'AS']),
+      playerCardCounts: [6, 8, 8, 8],
+      timeBudgetMs: 5,
+      maxSamples: Number.POSITIVE_INFINITY,
+    });
+    expect(result.samples).toBeGreaterThan(0);
+    expect(result.expectedValue).toBeGreaterThanOrEqual(-1);
+    expect(result.expectedValue).toBeLessThanOrEqual(1);
+  });
+
+  it('is reproducible with a seeded random source', () => {
+    const options = {
+      hand: toCards(['4D', '4S', '6C', '8H', '9H', '10S', 'QD', 'AS']),
+      lastPlay: single('5C', 2),
+      playerCardCounts: [8, 9, 9, 9],
+      playedCards: toCards(['3D', '3C', '3H', '3S', '5C']),
+    };
+    const first = search({ ...options, random: mulberry32(42) });
+    const second = search({ ...options, random: mulberry32(42) });
+    expect(second).toEqual(first);
+    expect(first.samples).toBe(40);
+  });
+
+  it('pairs each pass with the play it was a pass on', () => {
+    const moves = [
+      { seat: 0, cards: toCards(['3D']), passed: false },
+      { seat: 1, cards: [], passed: true },
+      { seat: 2, cards: toCards(['9C', '9S']), passed: false },
+      { seat: 3, cards: [], passed: true },
+    ];
+    expect(passObservationsFromMoves(moves)).toEqual([
+      { seat: 1, play: toCards(['3D']) },
+      { seat: 3, play: toCards(['9C', '9S']) },
+    ]);
+  });
+
+  it('plays through BotAI at the expert tier', () => {
+    const result = createBotAI('expert').getPlay({
+      hand: toCards(['7H', '9D']),
+      lastPlay: single('6C', 3),
+      isFirstPlayOfGame: false,
+      matchNumber: 2,
+      playerCardCounts: [2, 5, 5, 5],
+      currentPlayerIndex: 0,
+      turnOrder: [1, 2, 3, 0],
+      timeBudgetMs: 20,
+    });
+    expect(result.reasoning).toMatch(/^\[EXPERT\]/);
+    expect(result.cards === null || ['7H', '9D'].includes(result.cards[0])).toBe(true);
+  });
+});
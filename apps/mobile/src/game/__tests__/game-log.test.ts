@@ -0,0 +1,212 @@
+/**
+ * Game event log — rebuilding game_state from deals, plays, passes and match
+ * ends, the checks made while folding, and the stored-state diff.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyGameLogEvent,
+  diffGameLogState,
+  rebuildGameStateFromEvents,
+  type Card,
+  type GameLogEvent,
+} from '../engine';
+
+const card = (id: string): Card => ({ id, rank: id.slice(0, -1), suit: id.slice(-1) }) as Card;
+
+let sequence = 0;
+function event(
+  event_type: string,
+  player_index: number | null,
+  event_data: Record<string, unknown>
+): GameLogEvent {
+  return { sequence_number: ++sequence, event_type, player_index, event_data };
+}
+
+function deal(match_number = 1, current_turn = 0): GameLogEvent {
+  return event('cards_dealt', null, {
+    match_number,
+    hands: { '0': ['3D', '5H'], '1': ['4C', '9S'], '2': ['6D'], '3': ['KH'] },
+    current_turn,
+    game_phase: match_number === 1 ? 'first_play' : 'playing',
+    deal_seed_hash: `hash-${match_number}`,
+  });
+}
+
+function play(seat: number, ids: string[], next_turn: number): GameLogEvent {
+  return event('play_made', seat, {
+    cards: ids.map(card),
+    combo_type: 'Single',
+    next_turn,
+    timestamp: 1000 + sequence,
+    auto_pass_timer: null,
+    source: 'player',
+  });
+}
+
+function pass(seat: number, next_turn: number, passes: number): GameLogEvent {
+  return event('pass', seat, { next_turn, passes, trick_cleared: passes === 0, source: 'player' });
+}
+
+describe('Game event log', () => {
+  beforeEach(() => {
+    sequence = 0;
+  });
+
+  it('rebuilds a trick from the deal, plays and passes', () => {
+    const events = [deal(), play(0, ['3D'], 1), play(1, ['4C'], 2), pass(2, 3, 1), pass(3, 0, 2)];
+    const rebuild = rebuildGameStateFromEvents(events);
+
+    expect(rebuild.valid).toBe(true);
+    if (!rebuild.valid) return;
+    expect(rebuild.issues).toEqual([]);
+    expect(rebuild.throughSequence).toBe(5);
+    expect(rebuild.eventCount).toBe(5);
+    expect(rebuild.state.game_phase).toBe('playing');
+    expect(rebuild.state.current_turn).toBe(0);
+    expect(rebuild.state.passes).toBe(2);
+    expect(rebuild.state.hands['0']).toEqual([card('5H')]);
+    expect(rebuild.state.hands['1']).toEqual([card('9S')]);
+    expect(rebuild.state.last_play).toMatchObject({ player_index: 1, cards: [card('4C')] });
+    expect(rebuild.state.played_cards).toEqual([card('3D'), card('4C')]);
+    expect(rebuild.state.play_history).toHaveLength(2);
+  });
+
+  it('clears the trick on the pass that leaves the last player to lead', () => {
+    const events = [deal(), play(0, ['3D'], 1), pass(1, 2, 1), pass(2, 3, 2), pass(3, 0, 0)];
+    const rebuild = rebuildGameStateFromEvents(events);
+
+    if (!rebuild.valid) throw new Error(rebuild.error);
+    expect(rebuild.state.last_play).toBeNull();
+    expect(rebuild.state.passes).toBe(0);
+    expect(rebuild.state.current_turn).toBe(0);
+  });
+
+  it('ends the match and the game, and carries history into the next deal', () => {
+    const endedAt = '2026-08-01T12:00:00.000Z';
+    const events = [
+      deal(),
+      play(0, ['3D'], 1),
+      pass(1, 2, 1),
+      pass(2, 3, 2),
+      pass(3, 0, 0),
+      play(0, ['5H'], 1),
+      event('round_ended', 0, {
+        match_number: 1,
+        winner_index: 0,
+        ended_at: endedAt,
+        scores: [{ player_index: 1, cardsRemaining: 2 }],
+      }),
+      deal(2, 0),
+    ];
+    const rebuild = rebuildGameStateFromEvents(events);
+
+    if (!rebuild.valid) throw new Error(rebuild.error);
+    expect(rebuild.issues).toEqual([]);
+    expect(rebuild.state.match_number).toBe(2);
+    expect(rebuild.state.game_phase).toBe('playing');
+    expect(rebuild.state.deal_seed_hash).toBe('hash-2');
+    expect(rebuild.state.played_cards).toEqual([]);
+    expect(rebuild.state.play_history).toHaveLength(2);
+    expect(rebuild.state.scores_history).toEqual([
+      { match_number: 1, scores: [{ player_index: 1, cardsRemaining: 2 }] },
+    ]);
+
+    const over = applyGameLogEvent(
+      rebuild.state,
+      event('game_ended', 0, {
+        winner_index: 0,
+        final_scores: { '0': 0, '1': 104 },
+        ended_at: endedAt,
+      })
+    );
+    expect(over.state).toMatchObject({
+      game_phase: 'game_over',
+      game_winner_index: 0,
+      final_scores: { '0': 0, '1': 104 },
+      game_ended_at: endedAt,
+    });
+  });
+
+  it('reports plays out of turn, of cards not in hand and match winners holding cards', () => {
+    const events = [
+      deal(),
+      play(1, ['4C'], 2),
+      play(2, ['AS'], 3),
+      event('round_ended', 3, {
+        match_number: 1,
+        winner_index: 3,
+        ended_at: '2026-08-01T12:00:00Z',
+        scores: null,
+      }),
+    ];
+    const rebuild = rebuildGameStateFromEvents(events);
+
+    if (!rebuild.valid) throw new Error(rebuild.error);
+    expect(rebuild.issues).toEqual([
+      "event 2 (play_made): seat 1 played on seat 0's turn",
+      'event 3 (play_made): seat 2 played AS not in hand',
+      'event 4 (round_ended): seat 3 won holding cards',
+    ]);
+    expect(rebuild.state.scores_history).toEqual([]);
+  });
+
+  it('applies the columns of untagged writes and ignores lobby events', () => {
+    const events = [
+      deal(),
+      event('chat_message', 2, { message: 'gl' }),
+      event('turn_changed', null, { current_turn: 3, passes: 1, unrelated: true }),
+    ];
+    const rebuild = rebuildGameStateFromEvents(events);
+
+    if (!rebuild.valid) throw new Error(rebuild.error);
+    expect(rebuild.state.current_turn).toBe(3);
+    expect(rebuild.state.passes).toBe(1);
+    expect(rebuild.state).not.toHaveProperty('unrelated');
+  });
+
+  it('starts from the last first-match deal and rejects gaps after it', () => {
+    const abandoned = [deal(), play(0, ['5H'], 1)];
+    const restarted = [deal(), play(0, ['3D'], 1)];
+    const rebuild = rebuildGameStateFromEvents([...restarted, ...abandoned]);
+
+    if (!rebuild.valid) throw new Error(rebuild.error);
+    expect(rebuild.eventCount).toBe(2);
+    expect(rebuild.state.hands['0']).toEqual([card('5H')]);
+
+    const gap = rebuildGameStateFromEvents([
+      ...restarted,
+      { ...play(1, ['4C'], 2), sequence_number: 9 },
+    ]);
+    expect(gap).toEqual({ valid: false, error: 'Events 5–8 are missing' });
+    expect(rebuildGameStateFromEvents([play(0, ['3D'], 1)])).toEqual({
+      valid: false,
+      error: 'No deal in the event log',
+    });
+  });
+
+  it('diffs the stored state, comparing timestamps as instants', () => {
+    const events = [
+      deal(),
+      play(0, ['3D'], 1),
+      event('round_ended', 0, {
+        match_number: 1,
+        winner_index: 0,
+        ended_at: '2026-08-01T12:00:00.000Z',
+        scores: null,
+      }),
+    ];
+    const rebuild = rebuildGameStateFromEvents(events);
+    if (!rebuild.valid) throw new Error(rebuild.error);
+
+    const stored = {
+      ...rebuild.state,
+      match_ended_at: '2026-08-01 12:00:00+00',
+      hands: { ...rebuild.state.hands, '0': [{ id: '5H', suit: 'H', rank: '5' }] },
+    };
+    expect(diffGameLogState(rebuild.state, stored)).toEqual([]);
+    expect(
+      diffGameLogState(rebuild.state, { ...stored, current_turn: 2, last_play: null })
+    ).toEqual(['current_turn', 'last_play']);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Game records — export of a replay source, validation of imported records
+ * against the rules engine, replay of a record, and playing on from one of
+ * its positions.
+ */
+
+// Mock soundManager FIRST to prevent .m4a require errors
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: {
+    preloadAllSounds: jest.fn(() => Promise.resolve()),
+    playSound: jest.fn(() => Promise.resolve()),
+    cleanup: jest.fn(() => Promise.resolve()),
+  },
+  SoundType: { GAME_START: 'GAME_START', CARD_PLAY: 'CARD_PLAY', PASS: 'PASS' },
+}));
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  GAME_RECORD_FORMAT,
+  GAME_RECORD_VERSION,
+  RULE_SET_PRESETS,
+  STANDARD_RULE_SET,
+  DEFAULT_SCORING_CONFIG,
+  createGameRecord,
+  serializeGameRecord,
+  parseGameRecord,
+  validateGameRecord,
+  gameRecordToReplaySource,
+  getGameRecordPosition,
+  buildGameReplay,
+  createOrderedDeck,
+  dealSeededHands,
+  type GameRecordMove,
+} from '../engine';
+import { GameStateManager } from '../state';
+
+const SEED = '0123456789abcdef0123456789abcdef';
+const NAMES = ['Ann', 'Bob', 'Cat', 'Dan'];
+
+/** Seat 0 holds every diamond, seat 1 every club, seat 2 hearts, seat 3 spades */
+const SUIT_HANDS = [0, 1, 2, 3].map(seat =>
+  createOrderedDeck()
+    .filter((_, index) => index % 4 === seat)
+    .map(card => card.id)
+);
+
+const LEGAL_MOVES: GameRecordMove[] = [
+  { seat: 0, cards: ['3D'] },
+  { seat: 1, cards: ['4C'] },
+  { seat: 2, cards: ['5H'] },
+  { seat: 3, cards: ['6S'] },
+  { seat: 0, pass: true },
+  { seat: 1, pass: true },
+  { seat: 2, pass: true },
+  { seat: 3, cards: ['7S'] },
+];
+
+function rawRecord(moves: GameRecordMove[], extra: Record<string, unknown> = {}) {
+  return {
+    format: GAME_RECORD_FORMAT,
+    version: GAME_RECORD_VERSION,
+    players: NAMES,
+    rules: STANDARD_RULE_SET,
+    scoring: DEFAULT_SCORING_CONFIG,
+    matches: [{ number: 1, hands: SUIT_HANDS, moves }],
+    ...extra,
+  };
+}
+
+function errorOf(raw: unknown): string {
+  const result = validateGameRecord(raw);
+  return result.valid ? '' : result.error;
+}
+
+describe('Game records', () => {
+  describe('export', () => {
+    it('round-trips a seeded game through its text form', () => {
+      const deal = dealSeededHands(SEED, 1);
+      const opener = deal.findIndex(hand => hand.some(card => card.id === '3D'));
+      const next = (opener + 1) % 4;
+      const reply = deal[next].find(card => card.rank === '2') ?? deal[next][0];
+
+      const record = createGameRecord({
+        replay: {
+          playerNames: NAMES,
+          playHistory: [
+            {
+              match_number: 1,
+              position: opener,
+              cards: [deal[opener].find(card => card.id === '3D')!],
+              combo_type: 'Single',
+              passed: false,
+            },
+            {
+              match_number: 1,
+              position: next,
+              cards: [reply],
+              combo_type: 'Single',
+              passed: false,
+            },
+          ],
+          dealSeed: SEED,
+        },
+        ruleSet: RULE_SET_PRESETS['no-twos-in-straights'],
+        matchScores: [[0, 4, 9, 13]],
+      });
+
+      expect(record.matches[0].hands![opener]).toContain('3D');
+      expect(record.matches[0].scores).toEqual([0, 4, 9, 13]);
+
+      const imported = parseGameRecord(serializeGameRecord(record));
+      expect(imported).toEqual({ valid: true, record });
+    });
+
+    it('fills in the hands of a record that only has the seed', () => {
+      const result = validateGameRecord({
+        ...rawRecord([]),
+        dealSeed: SEED,
+        matches: [{ number: 1, moves: [] }],
+      });
+      expect(result.valid && result.record.matches[0].hands![2]).toEqual(
+        dealSeededHands(SEED, 1)[2].map(card => card.id)
+      );
+    });
+  });
+
+  describe('validation', () => {
+    it('accepts a legal game and normalizes card ids', () => {
+      const moves = LEGAL_MOVES.map(move =>
+        'cards' in move ? { ...move, cards: move.cards.map(id => id.toLowerCase()) } : move
+      );
+      const result = validateGameRecord(rawRecord(moves));
+      expect(result.valid && result.record.matches[0].moves).toEqual(LEGAL_MOVES);
+    });
+
+    it('rejects what is not a supported record', () => {
+      expect(parseGameRecord('{ not json')).toEqual({
+        valid: false,
+        error: 'Not a Big Two game record',
+      });
+      expect(errorOf({ ...rawRecord([]), version: GAME_RECORD_VERSION + 1 })).toMatch(
+        /Unsupported record version/
+      );
+      expect(errorOf({ ...rawRecord([]), players: ['Ann'] })).toMatch(/player names/);
+      expect(errorOf({ ...rawRecord([]), matches: [] })).toBe('The record has no matches');
+    });
+
+    it.each<[string, GameRecordMove[], string]>([
+      ['cards the player does not hold', [{ seat: 0, cards: ['3C'] }], 'card not in hand'],
+      ['an opening play without 3D', [{ seat: 0, cards: ['4D'] }], 'must include 3D'],
+      ['a card that is not a combination', [{ seat: 0, cards: ['3D', '4D'] }], 'combination'],
+      ['a pass by the leader', [{ seat: 0, pass: true }], 'cannot pass when leading'],
+      [
+        'a play that does not beat the last one',
+        [...LEGAL_MOVES.slice(0, 2), { seat: 2, cards: ['3H'] }],
+        'move 3: cannot beat last play',
+      ],
+    ])('rejects %s', (_, moves, error) => {
+      expect(errorOf(rawRecord(moves))).toContain(error);
+    });
+
+    it('rejects hands that contradict the seed', () => {
+      expect(errorOf(rawRecord([], { dealSeed: SEED }))).toBe(
+        'Match 1: hands do not match the deal seed'
+      );
+    });
+
+    it('checks combinations under the record rules', () => {
+      const moves: GameRecordMove[] = [
+        { seat: 0, cards: ['3D'] },
+        { seat: 1, cards: ['3C'] },
+      ];
+      expect(validateGameRecord(rawRecord(moves)).valid).toBe(true);
+      // Taiwanese suit order: clubs are lowest, so 3C opens the game instead of 3D
+      expect(errorOf(rawRecord(moves, { rules: RULE_SET_PRESETS.taiwanese }))).toContain(
+        'must include 3C'
+      );
+    });
+  });
+
+  describe('replay and positions', () => {
+    const result = validateGameRecord(rawRecord(LEGAL_MOVES));
+    const record = result.valid ? result.record : null;
+
+    it('replays with the recorded hands', () => {
+      const replay = buildGameReplay(gameRecordToReplaySource(record!));
+      expect(replay.matches[0].deal![1].map(card => card.id)).toEqual(SUIT_HANDS[1]);
+      expect(replay.matches[0].moves.map(move => move.passed)).toEqual(
+        LEGAL_MOVES.map(move => 'pass' in move)
+      );
+    });
+
+    it('gives the play to beat in the middle of a trick', () => {
+      const position = getGameRecordPosition(record!, 1, 2)!;
+      expect(position.currentSeat).toBe(2);
+      expect(position.lastPlay).toMatchObject({ position: 1, combo_type: 'Single' });
+      expect(position.playedCards.map(card => card.id)).toEqual(['3D', '4C']);
+      expect(position.hands[0]).toHaveLength(12);
+      expect(position.isFirstPlayOfGame).toBe(false);
+    });
+
+    it('lets the trick winner lead', () => {
+      const position = getGameRecordPosition(record!, 1, 7)!;
+      expect(position.currentSeat).toBe(3);
+      expect(position.lastPlay).toBeNull();
+      expect(getGameRecordPosition(record!, 1, 0)!.isFirstPlayOfGame).toBe(true);
+      expect(getGameRecordPosition(record!, 1, LEGAL_MOVES.length)).toBeNull();
+      expect(getGameRecordPosition(record!, 2, 0)).toBeNull();
+    });
+  });
+
+  describe('GameStateManager', () => {
+    let manager: GameStateManager;
+
+    beforeEach(() => {
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      manager = new GameStateManager();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    it('starts a game from a record position', async () => {
+      const result = validateGameRecord(rawRecord(LEGAL_MOVES));
+      const position = getGameRecordPosition(result.valid ? result.record : null!, 1, 2)!;
+
+      const state = await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+        startPosition: position,
+      });
+      expect(state.currentPlayerIndex).toBe(2);
+      expect(state.currentMatch).toBe(1);
+      expect(state.isFirstPlayOfGame).toBe(false);
+      expect(state.players[1].hand).toHaveLength(12);
+      expect(state.played_cards).toHaveLength(2);
+
+      await expect(manager.playCards(['3H'])).resolves.toMatchObject({ success: false });
+      await expect(manager.playCards(['5H'])).resolves.toEqual({ success: true });
+    });
+  });
+});
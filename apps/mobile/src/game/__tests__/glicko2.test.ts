@@ -0,0 +1,73 @@
+/**
+ * Glicko-2 ratings — the update from Glickman's worked example, deviation
+ * decay, four-player tables and the matchmaking rating window.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_GLICKO2_RATING,
+  GLICKO2_MAX_DEVIATION,
+  GLICKO2_RATING_PERIOD_MS,
+  decayGlicko2Rating,
+  glicko2IdlePeriods,
+  matchmakingRatingWindow,
+  rateRankedGame,
+  updateGlicko2Rating,
+} from '../engine';
+
+describe('Glicko-2 ratings', () => {
+  it("matches Glickman's example (shifted to the 1000-based scale)", () => {
+    const rated = updateGlicko2Rating({ rating: 1000, deviation: 200, volatility: 0.06 }, [
+      { opponent: { rating: 900, deviation: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1050, deviation: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1200, deviation: 300, volatility: 0.06 }, score: 0 },
+    ]);
+    expect(rated.rating).toBeCloseTo(964.06, 1);
+    expect(rated.deviation).toBeCloseTo(151.52, 1);
+    expect(rated.volatility).toBeCloseTo(0.06, 4);
+  });
+
+  it('widens the deviation for idle periods, up to the maximum', () => {
+    const settled = { rating: 1400, deviation: 50, volatility: 0.06 };
+    expect(decayGlicko2Rating(settled, 0)).toBe(settled);
+    const month = decayGlicko2Rating(settled, 30);
+    expect(month.rating).toBe(1400);
+    expect(month.deviation).toBeGreaterThan(50);
+    expect(decayGlicko2Rating(settled, 1_000_000).deviation).toBe(GLICKO2_MAX_DEVIATION);
+  });
+
+  it('moves new players further than settled ones for the same result', () => {
+    const settled = { rating: 1000, deviation: 60, volatility: 0.06 };
+    const rated = rateRankedGame([
+      { id: 'new', rating: DEFAULT_GLICKO2_RATING, finishPosition: 1, idlePeriods: 0 },
+      { id: 'settled', rating: settled, finishPosition: 2, idlePeriods: 0 },
+      { id: 'c', rating: settled, finishPosition: 3, idlePeriods: 0 },
+      { id: 'd', rating: settled, finishPosition: 4, idlePeriods: 0 },
+    ]);
+    const newGain = rated.get('new')!.rating - 1000;
+    const settledLoss = 1000 - rated.get('d')!.rating;
+    expect(newGain).toBeGreaterThan(100);
+    expect(settledLoss).toBeLessThan(newGain);
+    expect(rated.get('new')!.deviation).toBeLessThan(GLICKO2_MAX_DEVIATION);
+  });
+
+  it('does not rate tied finishes against each other', () => {
+    const rated = rateRankedGame([
+      { id: 'a', rating: DEFAULT_GLICKO2_RATING, finishPosition: 4, idlePeriods: 0 },
+      { id: 'b', rating: DEFAULT_GLICKO2_RATING, finishPosition: 4, idlePeriods: 0 },
+    ]);
+    expect(rated.get('a')).toEqual(DEFAULT_GLICKO2_RATING);
+    expect(rated.get('b')).toEqual(DEFAULT_GLICKO2_RATING);
+  });
+
+  it('counts idle days and sizes the matchmaking window from the deviation', () => {
+    const now = Date.parse('2026-08-10T12:00:00Z');
+    expect(glicko2IdlePeriods(null, now)).toBe(0);
+    expect(
+      glicko2IdlePeriods(new Date(now - 3.5 * GLICKO2_RATING_PERIOD_MS).toISOString(), now)
+    ).toBe(3);
+    expect(matchmakingRatingWindow(30)).toBe(100);
+    expect(matchmakingRatingWindow(120)).toBe(240);
+    expect(matchmakingRatingWindow(350)).toBe(400);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Learned bot — the features it scores candidates on, model validation, the
+ * dataset built from game_hands_training rows, the trainer, and the bot
+ * playing legal moves from trained weights.
+ */
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { describe, it, expect } from '@jest/globals';
+import { STANDARD_RULE_SET, classifyCards, dealSeededHands, type LastPlay } from '../engine';
+import { createBotAI, createLearnedBotAI } from '../bot';
+import { runBotBenchmark } from '../bot/benchmark';
+import {
+  extractPlayFeatures,
+  parseLearnedBotModel,
+  PLAY_FEATURE_NAMES,
+  type LearnedBotModel,
+} from '../bot/learned';
+import {
+  buildTrainingExamples,
+  trainLearnedBot,
+  type TrainingExample,
+  type TrainingRow,
+} from '../bot/training';
+import type { Card } from '../types';
+
+const SEED = '5eed5eed5eed5eed5eed5eed5eed5eed';
+
+function toCards(ids: string[]): Card[] {
+  return ids.map(id => ({ id, rank: id.slice(0, -1), suit: id.slice(-1) }) as Card);
+}
+
+function feature(features: number[], name: (typeof PLAY_FEATURE_NAMES)[number]): number {
+  return features[PLAY_FEATURE_NAMES.indexOf(name)];
+}
+
+function model(overrides: Partial<LearnedBotModel> = {}): LearnedBotModel {
+  return {
+    format: 'big2-learned-bot',
+    version: 1,
+    features: [...PLAY_FEATURE_NAMES],
+    policy: PLAY_FEATURE_NAMES.map(() => 0),
+    value: PLAY_FEATURE_NAMES.map(() => 0),
+    valueBias: 0,
+    valueWeight: 1,
+    trainedOn: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Rows as play-cards/player-pass write them, from hard bots playing seeded
+ * deals clockwise; seat 3 is flagged as a bot
+ */
+function simulateRows(deals: number): TrainingRow[] {
+  const rows: TrainingRow[] = [];
+  const bot = createBotAI('hard');
+  for (let dealNumber = 1; dealNumber <= deals; dealNumber++) {
+    const hands = dealSeededHands(SEED, dealNumber);
+    let current = hands.findIndex(hand => hand.some(card => card.id === '3D'));
+    let lastPlay: LastPlay | null = null;
+    let sequence = 0;
+    while (hands.every(hand => hand.length > 0)) {
+      const toBeat = lastPlay && lastPlay.position !== current ? lastPlay : null;
+      const isFirstPlayOfGame = sequence === 0;
+      const { cards } = bot.getPlay({
+        hand: hands[current],
+        lastPlay: toBeat,
+        isFirstPlayOfGame,
+        matchNumber: 1,
+        playerCardCounts: hands.map(hand => hand.length),
+        currentPlayerIndex: current,
+        nextPlayerIndex: (current + 1) % 4,
+      });
+      const before = hands[current];
+      const played = before.filter(card => cards?.includes(card.id));
+      hands[current] = before.filter(card => !played.includes(card));
+      rows.push({
+        game_session_id: `session-${dealNumber}`,
+        round_number: 1,
+        play_sequence: ++sequence,
+        player_index: current,
+        is_bot: current === 3,
+        hand_before_play: before,
+        cards_played: played,
+        combo_type: played.length > 0 ? classifyCards(played) : 'pass',
+        last_play_before: lastPlay,
+        is_first_play_of_round: !toBeat,
+        is_first_play_of_game: isFirstPlayOfGame,
+        opponent_hand_sizes: hands.map((hand, seat) => (seat === current ? null : hand.length)),
+        won_round: played.length > 0 && hands[current].length === 0,
+      } as unknown as TrainingRow);
+      if (played.length > 0) {
+        lastPlay = { position: current, cards: played, combo_type: classifyCards(played) };
+      }
+      current = (current + 1) % 4;
+    }
+  }
+  return rows;
+}
+
+describe('Learned bot features', () => {
+  const position = {
+    hand: toCards(['5D', '5S', '9C', 'KH', '2S']),
+    lastPlay: null,
+    nextPlayerCardCount: 1,
+    opponentCardCounts: [1, 6, 8],
+  };
+
+  it('describes a pass', () => {
+    const features = extractPlayFeatures(position, null, STANDARD_RULE_SET);
+    expect(features).toHaveLength(PLAY_FEATURE_NAMES.length);
+    expect(feature(features, 'pass')).toBe(1);
+    expect(feature(features, 'cardsLeft')).toBeCloseTo(5 / 13);
+  });
+
+  it('describes a play', () => {
+    const features = extractPlayFeatures(position, toCards(['5D']), STANDARD_RULE_SET);
+    expect(feature(features, 'single')).toBe(1);
+    expect(feature(features, 'splitsRank')).toBe(1);
+    expect(feature(features, 'leading')).toBe(1);
+    expect(feature(features, 'nextPlayerLow')).toBe(1);
+    expect(feature(features, 'goesOut')).toBe(0);
+  });
+});
+
+describe('parseLearnedBotModel', () => {
+  it('accepts a model and its JSON text', () => {
+    expect(parseLearnedBotModel(model())).toEqual(model());
+    expect(parseLearnedBotModel(JSON.stringify(model({ valueBias: 0.5 })))?.valueBias).toBe(0.5);
+  });
+
+  it('rejects documents this build cannot use', () => {
+    expect(parseLearnedBotModel('not json')).toBeNull();
+    expect(parseLearnedBotModel(model({ format: 'other' as 'big2-learned-bot' }))).toBeNull();
+    expect(parseLearnedBotModel(model({ version: 2 }))).toBeNull();
+    expect(parseLearnedBotModel(model({ features: ['pass'] }))).toBeNull();
+    expect(parseLearnedBotModel(model({ policy: [1, 2] }))).toBeNull();
+  });
+});
+
+describe('buildTrainingExamples', () => {
+  const rows = simulateRows(3);
+
+  it('turns human decisions into examples', () => {
+    const { examples, skipped } = buildTrainingExamples(rows);
+    expect(skipped).toBe(0);
+    expect(examples.length).toBeGreaterThan(0);
+    expect(examples.length).toBeLessThan(rows.filter(row => !row.is_bot).length);
+    for (const example of examples) {
+      expect(example.candidates.length).toBeGreaterThan(1);
+      expect(example.candidates[example.chosen]).toBeDefined();
+    }
+  });
+
+  it('labels the match winner', () => {
+    const winners = rows.filter(row => row.won_round);
+    const { examples } = buildTrainingExamples(rows, { includeBots: true });
+    expect(winners).toHaveLength(3);
+    expect(examples.some(example => example.won)).toBe(true);
+    expect(examples.some(example => !example.won)).toBe(true);
+  });
+
+  it('learns from bots only when asked', () => {
+    const humans = buildTrainingExamples(rows).examples.length;
+    expect(buildTrainingExamples(rows, { includeBots: true }).examples.length).toBeGreaterThan(
+      humans
+    );
+  });
+
+  it('skips unfinished matches and caps the candidates', () => {
+    const unfinished = rows.filter(row => row.game_session_id !== 'session-1' || !row.won_round);
+    expect(buildTrainingExamples(unfinished).skipped).toBeGreaterThan(0);
+    const { examples } = buildTrainingExamples(rows, { maxCandidates: 3 });
+    expect(examples.every(example => example.candidates.length <= 3)).toBe(true);
+  });
+});
+
+describe('trainLearnedBot', () => {
+  it('learns which candidate players prefer', () => {
+    // Players always pick the candidate with the "goesOut" feature set
+    const goesOut = PLAY_FEATURE_NAMES.indexOf('goesOut');
+    const vector = (on: boolean) => PLAY_FEATURE_NAMES.map((_, i) => (i === goesOut && on ? 1 : 0));
+    const examples: TrainingExample[] = Array.from({ length: 50 }, (_, i) => ({
+      candidates: [vector(false), vector(true), vector(false)],
+      chosen: 1,
+      won: i % 2 === 0,
+    }));
+    const report = trainLearnedBot(examples, { epochs: 10 });
+    expect(report.model.policy[goesOut]).toBeGreaterThan(0);
+    expect(report.validationExamples).toBe(5);
+    expect(report.validationAccuracy).toBe(1);
+    expect(parseLearnedBotModel(JSON.parse(JSON.stringify(report.model)))).not.toBeNull();
+  });
+
+  it('plays legal moves from the trained weights', () => {
+    const { examples } = buildTrainingExamples(simulateRows(2));
+    const { model: trained } = trainLearnedBot(examples, { epochs: 2 });
+    const bot = createLearnedBotAI(trained);
+    expect(bot.strategy).toBe('learned');
+    // The benchmark throws on any illegal move
+    const result = runBotBenchmark({ challenger: bot, opponent: 'medium', deals: 1, seed: SEED });
+    expect(result.challenger).toBe('learned');
+    expect(result.games).toBe(4);
+  });
+});
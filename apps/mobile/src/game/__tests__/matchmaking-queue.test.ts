@@ -0,0 +1,147 @@
+/**
+ * Matchmaking queue — window widening, region reach, rematch avoidance,
+ * parties, table sizes and the wait estimate.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MATCHMAKING_REMATCH_AFTER_MS,
+  MAX_WIDENED_RATING_WINDOW,
+  MIN_MATCHMAKING_TABLE_SIZE,
+  assembleMatchmakingTable,
+  canMatchmakingGroupsMeet,
+  estimateMatchmakingWaitMs,
+  isMatchmakingTableSize,
+  matchmakingRegionDistance,
+  matchmakingSearchRange,
+  widenedRatingWindow,
+  type MatchmakingGroup,
+} from '../engine';
+
+const NOW = Date.parse('2026-08-10T12:00:00Z');
+
+function group(id: string, overrides: Partial<MatchmakingGroup> = {}): MatchmakingGroup {
+  return {
+    id,
+    memberIds: [id],
+    rating: 1000,
+    ratingWindow: 100,
+    region: 'us-east',
+    joinedAt: NOW,
+    recentOpponentIds: [],
+    ...overrides,
+  };
+}
+
+describe('Matchmaking queue', () => {
+  it('widens the rating window and region reach the longer a player waits', () => {
+    expect(widenedRatingWindow(100, 0)).toBe(100);
+    expect(widenedRatingWindow(100, 30_000)).toBe(200);
+    expect(widenedRatingWindow(400, 3_600_000)).toBe(MAX_WIDENED_RATING_WINDOW);
+
+    expect(matchmakingSearchRange(1000, 100, 0)).toEqual({
+      minRating: 900,
+      maxRating: 1100,
+      regionReach: 'region',
+    });
+    expect(matchmakingSearchRange(50, 100, 20_000).minRating).toBe(0);
+    expect(matchmakingSearchRange(1000, 100, 20_000).regionReach).toBe('nearby');
+    expect(matchmakingSearchRange(1000, 100, 60_000).regionReach).toBe('any');
+  });
+
+  it('treats neighbouring and unknown regions as nearby', () => {
+    expect(matchmakingRegionDistance('eu-west', 'eu-west')).toBe('region');
+    expect(matchmakingRegionDistance('eu-central', 'eu-west')).toBe('nearby');
+    expect(matchmakingRegionDistance('global', 'ap-south')).toBe('nearby');
+    expect(matchmakingRegionDistance('ap-south', 'sa-east')).toBe('any');
+  });
+
+  it('only meets far ratings and regions after waiting', () => {
+    const far = group('far', { rating: 1250, region: 'us-west' });
+    expect(canMatchmakingGroupsMeet(group('a'), far, NOW)).toBe(false);
+    expect(canMatchmakingGroupsMeet(group('a', { joinedAt: NOW - 45_000 }), far, NOW)).toBe(true);
+
+    const distant = group('distant', { region: 'ap-south' });
+    expect(canMatchmakingGroupsMeet(group('a', { joinedAt: NOW - 30_000 }), distant, NOW)).toBe(
+      false
+    );
+    expect(canMatchmakingGroupsMeet(group('a', { joinedAt: NOW - 60_000 }), distant, NOW)).toBe(
+      true
+    );
+  });
+
+  it('keeps previous opponents apart until both have waited', () => {
+    const a = group('a', { recentOpponentIds: ['b'] });
+    expect(canMatchmakingGroupsMeet(a, group('b'), NOW)).toBe(false);
+    expect(
+      canMatchmakingGroupsMeet(
+        { ...a, joinedAt: NOW - MATCHMAKING_REMATCH_AFTER_MS },
+        group('b', { joinedAt: NOW - 10_000 }),
+        NOW
+      )
+    ).toBe(false);
+    expect(
+      canMatchmakingGroupsMeet(
+        { ...a, joinedAt: NOW - MATCHMAKING_REMATCH_AFTER_MS },
+        group('b', { joinedAt: NOW - MATCHMAKING_REMATCH_AFTER_MS }),
+        NOW
+      )
+    ).toBe(true);
+  });
+
+  it('seats a party together and fills the table with the closest players', () => {
+    const party = group('party', { memberIds: ['p1', 'p2'] });
+    const table = assembleMatchmakingTable(
+      party,
+      [
+        group('west', { region: 'us-west', joinedAt: NOW - 25_000 }),
+        group('local-late', { joinedAt: NOW - 1_000 }),
+        group('local-early', { joinedAt: NOW - 5_000 }),
+        group('trio', { memberIds: ['t1', 't2', 't3'] }),
+      ],
+      NOW
+    );
+    expect(table?.map(g => g.id)).toEqual(['party', 'local-early', 'local-late']);
+
+    expect(assembleMatchmakingTable(party, [group('only')], NOW)).toBeNull();
+  });
+
+  it('does not seat two candidates who cannot meet each other', () => {
+    const table = assembleMatchmakingTable(
+      group('a'),
+      [group('b', { recentOpponentIds: ['c'] }), group('c'), group('d'), group('e')],
+      NOW
+    );
+    expect(table?.map(g => g.id)).toEqual(['a', 'b', 'd', 'e']);
+  });
+
+  it('fills tables of two and three players', () => {
+    const candidates = [group('b', { joinedAt: NOW - 5_000 }), group('c'), group('d')];
+    expect(assembleMatchmakingTable(group('a'), candidates, NOW, 2)?.map(g => g.id)).toEqual([
+      'a',
+      'b',
+    ]);
+    expect(assembleMatchmakingTable(group('a'), candidates, NOW, 3)?.map(g => g.id)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+
+    const pair = group('pair', { memberIds: ['p1', 'p2'] });
+    expect(assembleMatchmakingTable(pair, candidates, NOW, 2)).toBeNull();
+    expect(assembleMatchmakingTable(pair, candidates, NOW, 3)?.map(g => g.id)).toEqual([
+      'pair',
+      'b',
+    ]);
+    expect(isMatchmakingTableSize(MIN_MATCHMAKING_TABLE_SIZE)).toBe(true);
+    expect(isMatchmakingTableSize(1)).toBe(false);
+    expect(isMatchmakingTableSize(5)).toBe(false);
+  });
+
+  it('estimates the remaining wait from longer recent waits', () => {
+    expect(estimateMatchmakingWaitMs([], 0)).toBeNull();
+    expect(estimateMatchmakingWaitMs([10_000, 20_000], 30_000)).toBeNull();
+    expect(estimateMatchmakingWaitMs([10_000, 30_000, 50_000, 90_000], 20_000)).toBe(30_000);
+    expect(estimateMatchmakingWaitMs([40_000, 60_000], 10_000)).toBe(40_000);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Move analysis — the post-game blunder check of one seat's decisions
+ * against the hard bot: the one-card-left rule, passing with a safe beat,
+ * breaking a straight early, and the accuracy score.
+ */
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { describe, it, expect } from '@jest/globals';
+import { buildGameReplay, type ReplayHistoryEntry } from '../engine';
+import { analyzeGame } from '../bot/move-analysis';
+import type { Card } from '../types';
+
+const NAMES = ['Ann', 'Bob', 'Cat', 'Dan'];
+/** Match 2, so no play has to include 3D */
+const MATCH = 2;
+
+function toCards(ids: string[]): Card[] {
+  return ids.map(id => ({ id, rank: id.slice(0, -1), suit: id.slice(-1) }) as Card);
+}
+
+function play(position: number, ids: string[]): ReplayHistoryEntry {
+  return {
+    match_number: MATCH,
+    position,
+    cards: toCards(ids),
+    combo_type: 'Single',
+    passed: false,
+  };
+}
+
+function pass(position: number): ReplayHistoryEntry {
+  return { match_number: MATCH, position, cards: [], combo_type: 'pass', passed: true };
+}
+
+/** Opponents with seven cards each, so nobody is close to going out */
+const OPPONENTS = [
+  ['3C', '3H', '3S', '4D', '4H', '4S', '6D'],
+  ['4C', '6C', '6H', '6S', '7D', '7C', '7H'],
+  ['8D', '8C', '8H', '8S', '9D', '9C', '9H'],
+];
+
+function analyze(seat0: string[], history: ReplayHistoryEntry[], opponents = OPPONENTS) {
+  const replay = buildGameReplay({
+    playerNames: NAMES,
+    playHistory: history,
+    initialHands: { [MATCH]: [seat0, ...opponents].map(toCards) },
+  });
+  return analyzeGame(replay, 0);
+}
+
+describe('Move analysis', () => {
+  it('scores a game without mistakes at 100', () => {
+    const analysis = analyze(['5D', '9S', 'JH', 'KD', '2S'], [play(2, ['4C']), play(0, ['5D'])]);
+    expect(analysis).toEqual({ seat: 0, decisions: 1, annotations: [], accuracy: 100 });
+  });
+
+  describe('one card left', () => {
+    const opponents = [['4C'], ['6C', '8C'], ['9C', '10C']];
+
+    it('flags a pass that lets the next player out', () => {
+      const analysis = analyze(['5D', '7H', 'KS'], [play(2, ['6C']), pass(0), pass(1)], opponents);
+      expect(analysis.annotations).toEqual([
+        {
+          matchNumber: MATCH,
+          step: 2,
+          kind: 'one-card-left',
+          severity: 'blunder',
+          played: [],
+          suggested: ['KS'],
+        },
+      ]);
+      expect(analysis.accuracy).toBe(0);
+    });
+
+    it('flags a single lower than the highest one', () => {
+      const analysis = analyze(
+        ['5D', '7H', 'KS'],
+        [play(2, ['6C']), play(0, ['7H']), pass(1)],
+        opponents
+      );
+      expect(analysis.annotations).toMatchObject([{ kind: 'one-card-left', suggested: ['KS'] }]);
+    });
+  });
+
+  describe('passing', () => {
+    it('flags a pass while a safe beat was in hand', () => {
+      const analysis = analyze(['5D', '9S', 'JH', 'KD', '2S'], [play(2, ['4C']), pass(0)]);
+      expect(analysis.annotations).toMatchObject([
+        { kind: 'missed-beat', severity: 'mistake', suggested: ['5D'] },
+      ]);
+      expect(analysis.accuracy).toBe(50);
+    });
+
+    it('accepts a pass that saves a 2', () => {
+      const analysis = analyze(
+        ['5D', '9S', '2S'],
+        [play(2, ['AS']), pass(0)],
+        [
+          ['3C', '3H', '3S', '4D', '4H', '4S', '6D'],
+          ['AS', '6C', '6H', '6S', '7D', '7C', '7H'],
+          OPPONENTS[2],
+        ]
+      );
+      expect(analysis.decisions).toBe(1);
+      expect(analysis.annotations).toEqual([]);
+    });
+
+    it('does not count a pass without any beat as a decision', () => {
+      const analysis = analyze(
+        ['5D', '9S'],
+        [play(2, ['2S']), pass(0)],
+        [OPPONENTS[0], ['2S', '6C', '6H', '6S', '7D', '7C', '7H'], OPPONENTS[2]]
+      );
+      expect(analysis).toMatchObject({ decisions: 0, accuracy: 100 });
+    });
+  });
+
+  describe('straights', () => {
+    const straightHand = ['5D', '6C', '7H', '8S', '9D', 'KS'];
+
+    it('flags a lead that breaks a straight early', () => {
+      const analysis = analyze(straightHand, [play(0, ['7H'])]);
+      expect(analysis.annotations).toMatchObject([{ kind: 'broke-straight', step: 1 }]);
+      expect([...analysis.annotations[0].suggested!].sort()).toEqual(
+        ['5D', '6C', '7H', '8S', '9D'].sort()
+      );
+    });
+
+    it('accepts a lead that keeps the straight', () => {
+      expect(analyze(straightHand, [play(0, ['KS'])]).annotations).toEqual([]);
+    });
+
+    it('accepts breaking a straight when an opponent is nearly out', () => {
+      const opponents = [OPPONENTS[0], ['4C', '6H', '7D'], OPPONENTS[2]];
+      expect(analyze(straightHand, [play(0, ['7H'])], opponents).annotations).toEqual([]);
+    });
+  });
+
+  it('skips matches whose deal is unknown', () => {
+    const replay = buildGameReplay({
+      playerNames: NAMES,
+      playHistory: [play(2, ['4C']), pass(0)],
+    });
+    expect(analyzeGame(replay, 0)).toEqual({
+      seat: 0,
+      decisions: 0,
+      annotations: [],
+      accuracy: 100,
+    });
+  });
+});
@@ -2,8 +2,8 @@
  * 2-Player & 3-Player Game Configuration Tests — H21 Audit Fix
  *
  * All existing game engine tests assume 4 players (botCount: 3).
- * These tests verify initialization, dealing, scoring, and
- * turn-advancement behavior for 2-player and 3-player configs.
+ * These tests verify initialization, dealing (17 cards each or the dummy
+ * hand), scoring, and turn-advancement behavior for 2-player and 3-player configs.
  */
 
 // Mock soundManager FIRST to prevent .m4a require errors
@@ -45,6 +45,89 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
 }));
 
 import { GameStateManager, createGameStateManager, type GameConfig } from '../state';
+import { createBotAI, getLocalTurnOrder } from '../bot';
+import {
+  calculateMatchPoints,
+  createGameRecord,
+  dealSeededHands,
+  DEFAULT_SCORING_CONFIG,
+  gameRecordToReplaySource,
+  validateGameRecord,
+} from '../engine';
+
+const SEED = '0123456789abcdef0123456789abcdef';
+
+/** Play the current match to its end, the human seat choosing like an easy bot */
+async function playMatch(manager: GameStateManager): Promise<void> {
+  const human = createBotAI('easy');
+  for (let turn = 0; turn < 500; turn++) {
+    const s = manager.getState();
+    if (!s || s.gameEnded) return;
+    const player = s.players[s.currentPlayerIndex];
+    if (player.isBot) {
+      await manager.executeBotTurn();
+      continue;
+    }
+    const { cards } = human.getPlay({
+      hand: player.hand,
+      lastPlay: s.lastPlay,
+      isFirstPlayOfGame: s.isFirstPlayOfGame,
+      playerCardCounts: s.players.map(p => p.hand.length),
+      currentPlayerIndex: s.currentPlayerIndex,
+      turnOrder: getLocalTurnOrder(s.players.length),
+    });
+    const result = cards ? await manager.playCards(cards) : await manager.pass();
+    expect(result.success).toBe(true);
+  }
+  throw new Error('Match did not finish');
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Short-table deals
+// ────────────────────────────────────────────────────────────────────────────
+describe('Short-table deals', () => {
+  it('deals 17 cards each, the spare card to the 3D holder, at three players', () => {
+    for (let dealNumber = 1; dealNumber <= 20; dealNumber++) {
+      const hands = dealSeededHands(SEED, dealNumber, 0, 3);
+      const holder = hands.findIndex(hand => hand.some(card => card.id === '3D'));
+      expect(hands.map(hand => hand.length)).toEqual(
+        hands.map((_, seat) => (seat === holder ? 18 : 17))
+      );
+      expect(new Set(hands.flat().map(card => card.id)).size).toBe(52);
+    }
+  });
+
+  it('always deals the 3D, also when cards stay out of play', () => {
+    for (let dealNumber = 1; dealNumber <= 20; dealNumber++) {
+      for (const [players, variant] of [
+        [2, 'extra-card'],
+        [2, 'dummy'],
+        [3, 'dummy'],
+      ] as const) {
+        const hands = dealSeededHands(SEED, dealNumber, 0, players, variant);
+        expect(hands.flat().some(card => card.id === '3D')).toBe(true);
+        expect(new Set(hands.flat().map(card => card.id)).size).toBe(hands.flat().length);
+      }
+    }
+  });
+
+  it('leaves the four-player deal unchanged', () => {
+    expect(dealSeededHands(SEED, 1, 0, 4, 'dummy')).toEqual(dealSeededHands(SEED, 1));
+  });
+
+  it('scores bigger hands at the last tier and by their dealt size', () => {
+    const hand = Array.from({ length: 17 }, () => ({ rank: '5' }));
+    const doubling = { ...DEFAULT_SCORING_CONFIG, doubleIfNeverPlayed: true };
+    // 17 cards score at the last (13-card) tier's rate
+    expect(calculateMatchPoints(hand, DEFAULT_SCORING_CONFIG, 17).finalScore).toBe(51);
+    expect(calculateMatchPoints(hand, doubling, 17)).toMatchObject({
+      neverPlayed: true,
+      finalScore: 102,
+    });
+    // The 3D holder of a three-player deal starts with 18
+    expect(calculateMatchPoints(hand, doubling, 18).neverPlayed).toBe(false);
+  });
+});
 
 // ────────────────────────────────────────────────────────────────────────────
 // 2-Player Games (botCount: 1)
@@ -73,31 +156,30 @@ describe('2-Player Game (botCount: 1)', () => {
     expect(state.players[1].isBot).toBe(true);
   });
 
-  it('deals 13 cards to each player (26 of 52 used)', async () => {
+  it('deals 17 cards to each player (34 of 52 used)', async () => {
     const state = await manager.initializeGame(config);
+    expect(state.players[0].hand).toHaveLength(17);
+    expect(state.players[1].hand).toHaveLength(17);
+  });
+
+  it('deals 13 cards to each player with a dummy hand (26 of 52 used)', async () => {
+    const state = await manager.initializeGame({ ...config, dealVariant: 'dummy' });
     expect(state.players[0].hand).toHaveLength(13);
     expect(state.players[1].hand).toHaveLength(13);
+    expect(state.dealVariant).toBe('dummy');
   });
 
   it('has no duplicate cards across hands', async () => {
     const state = await manager.initializeGame(config);
     const allCards = [...state.players[0].hand, ...state.players[1].hand];
     const uniqueIds = new Set(allCards.map(c => c.id));
-    expect(uniqueIds.size).toBe(26);
+    expect(uniqueIds.size).toBe(34);
   });
 
-  it('starting player has 3D or falls back to player 0 when 3D is undealt', async () => {
+  it('starting player has 3D', async () => {
     const state = await manager.initializeGame(config);
     const startingPlayer = state.players[state.currentPlayerIndex];
-    const allDealtCards = state.players.flatMap(p => p.hand);
-    const threeOfDiamondsDealt = allDealtCards.some(c => c.id === '3D');
-
-    if (threeOfDiamondsDealt) {
-      expect(startingPlayer.hand.some(c => c.id === '3D')).toBe(true);
-    } else {
-      // 3D is in the undealt 26 cards — fallback to player 0
-      expect(state.currentPlayerIndex).toBe(0);
-    }
+    expect(startingPlayer.hand.some(c => c.id === '3D')).toBe(true);
   });
 
   it('sets game-started flags correctly', async () => {
@@ -115,47 +197,15 @@ describe('2-Player Game (botCount: 1)', () => {
     expect(state.matchScores.every(s => s.score === 0)).toBe(true);
   });
 
-  // TODO(engine): Replace with deterministic no-crash regression for TURN_ORDER in 2-player games.
-  // Historical note: this previously asserted a crash caused by the known hardcoded TURN_ORDER bug
-  // ([3,2,0,1]) in non-4-player games. It has been skipped because:
-  //   1) it encoded broken behavior as the expected outcome, and
-  //   2) it was non-deterministic (only exercised the path when 3D was dealt).
-  // Once the engine bug is fixed, replace with a deterministic test that controls setup
-  // (or retries initialization until 3D is dealt) and asserts gameplay advances without crashing.
-  it.skip('TODO(engine): replace with deterministic no-crash regression for TURN_ORDER in 2-player games', async () => {
-    const state = await manager.initializeGame(config);
-    const allDealtCards = state.players.flatMap(p => p.hand);
-    const threeOfDiamondsDealt = allDealtCards.some(c => c.id === '3D');
-
-    if (!threeOfDiamondsDealt) {
-      expect(state.players.length).toBe(2);
-      return;
-    }
-
-    let crashed = false;
-    try {
-      for (let turn = 0; turn < 10; turn++) {
-        const s = manager.getState();
-        if (!s || s.gameEnded) break;
-        const p = s.players[s.currentPlayerIndex];
-        if (p.isBot) {
-          await manager.executeBotTurn();
-        } else if (s.isFirstPlayOfGame) {
-          const d3 = p.hand.find(c => c.id === '3D');
-          if (d3) {
-            await manager.playCards([d3.id]);
-          } else {
-            break;
-          }
-        } else if (s.lastPlay) {
-          await manager.pass();
-        }
-      }
-    } catch {
-      crashed = true;
-    }
-
-    expect(crashed).toBe(true);
+  it('alternates turns and plays a match to the end', async () => {
+    await manager.initializeGame({ ...config, dealSeed: SEED });
+    const opener = manager.getState()!.currentPlayerIndex;
+    await playMatch(manager);
+    const state = manager.getState()!;
+    expect(state.gameEnded).toBe(true);
+    expect(state.players.some(p => p.hand.length === 0)).toBe(true);
+    expect(state.lastMatchScoreDetails).toHaveLength(2);
+    expect(state.roundHistory[1]?.playerId).toBe(state.players[1 - opener].id);
   });
 });
 
@@ -187,8 +237,17 @@ describe('3-Player Game (botCount: 2)', () => {
     expect(state.players[2].isBot).toBe(true);
   });
 
-  it('deals 13 cards to each player (39 of 52 used)', async () => {
+  it('deals the whole deck: 17 cards each, 18 to the 3D holder', async () => {
     const state = await manager.initializeGame(config);
+    const startingPlayer = state.players[state.currentPlayerIndex];
+    expect(startingPlayer.hand.some(c => c.id === '3D')).toBe(true);
+    for (const player of state.players) {
+      expect(player.hand).toHaveLength(player === startingPlayer ? 18 : 17);
+    }
+  });
+
+  it('deals 13 cards to each player with a dummy hand (39 of 52 used)', async () => {
+    const state = await manager.initializeGame({ ...config, dealVariant: 'dummy' });
     for (const player of state.players) {
       expect(player.hand).toHaveLength(13);
     }
@@ -198,21 +257,13 @@ describe('3-Player Game (botCount: 2)', () => {
     const state = await manager.initializeGame(config);
     const allCards = state.players.flatMap(p => p.hand);
     const uniqueIds = new Set(allCards.map(c => c.id));
-    expect(uniqueIds.size).toBe(39);
+    expect(uniqueIds.size).toBe(52);
   });
 
-  it('starting player has 3D or falls back to player 0 when 3D is undealt', async () => {
-    const state = await manager.initializeGame(config);
+  it('starting player has 3D with a dummy hand', async () => {
+    const state = await manager.initializeGame({ ...config, dealVariant: 'dummy' });
     const startingPlayer = state.players[state.currentPlayerIndex];
-    const allDealtCards = state.players.flatMap(p => p.hand);
-    const threeOfDiamondsDealt = allDealtCards.some(c => c.id === '3D');
-
-    if (threeOfDiamondsDealt) {
-      expect(startingPlayer.hand.some(c => c.id === '3D')).toBe(true);
-    } else {
-      // 3D is in the undealt 13 cards — fallback to player 0
-      expect(state.currentPlayerIndex).toBe(0);
-    }
+    expect(startingPlayer.hand.some(c => c.id === '3D')).toBe(true);
   });
 
   it('assigns correct bot difficulty', async () => {
@@ -235,47 +286,30 @@ describe('3-Player Game (botCount: 2)', () => {
     expect(state.players.length - 1).toBe(2);
   });
 
-  // TODO(engine): Replace with deterministic no-crash regression for TURN_ORDER in 3-player games.
-  // Historical note: this previously asserted a crash caused by the known hardcoded TURN_ORDER bug
-  // ([3,2,0,1]) in non-4-player games. Skipped because:
-  //   1) it encoded broken behavior as the expected outcome, and
-  //   2) it was non-deterministic (only exercised when 3D was dealt).
-  // Once the engine bug is fixed, replace with a deterministic test that controls setup
-  // and asserts gameplay advances without crashing.
-  it.skip('TODO(engine): replace with deterministic no-crash regression for TURN_ORDER in 3-player games', async () => {
-    const state = await manager.initializeGame(config);
-    const allDealtCards = state.players.flatMap(p => p.hand);
-    const threeOfDiamondsDealt = allDealtCards.some(c => c.id === '3D');
-
-    if (!threeOfDiamondsDealt) {
-      expect(state.players.length).toBe(3);
-      return;
-    }
-
-    let crashed = false;
-    try {
-      for (let turn = 0; turn < 20; turn++) {
-        const s = manager.getState();
-        if (!s || s.gameEnded) break;
-        const p = s.players[s.currentPlayerIndex];
-        if (p.isBot) {
-          await manager.executeBotTurn();
-        } else if (s.isFirstPlayOfGame) {
-          const d3 = p.hand.find(c => c.id === '3D');
-          if (d3) {
-            await manager.playCards([d3.id]);
-          } else {
-            break;
-          }
-        } else if (s.lastPlay) {
-          await manager.pass();
-        }
-      }
-    } catch {
-      crashed = true;
-    }
+  it('turns anticlockwise (0→2→1) and plays a match to the end', async () => {
+    await manager.initializeGame({ ...config, dealSeed: SEED });
+    const opener = manager.getState()!.currentPlayerIndex;
+    await playMatch(manager);
+    const state = manager.getState()!;
+    expect(state.gameEnded).toBe(true);
+    expect(state.lastMatchScoreDetails).toHaveLength(3);
+    const turnOrder = getLocalTurnOrder(3);
+    expect(turnOrder).toEqual([2, 0, 1]);
+    expect(state.roundHistory[1]?.playerId).toBe(state.players[turnOrder[opener]].id);
+  });
 
-    expect(crashed).toBe(true);
+  it('exports and imports a game record of three players', async () => {
+    await manager.initializeGame({ ...config, dealSeed: SEED, dealVariant: 'dummy' });
+    await playMatch(manager);
+    const record = createGameRecord({ replay: manager.getReplaySource()! });
+    expect(record.players).toHaveLength(3);
+    expect(record.dealVariant).toBe('dummy');
+    const result = validateGameRecord(JSON.parse(JSON.stringify(record)));
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    const source = gameRecordToReplaySource(result.record);
+    expect(source.dealVariant).toBe('dummy');
+    expect(source.playerNames).toHaveLength(3);
   });
 });
 
@@ -284,11 +318,6 @@ describe('3-Player Game (botCount: 2)', () => {
 // ────────────────────────────────────────────────────────────────────────────
 describe('1-Player Game (botCount: 0) — edge case', () => {
   let manager: GameStateManager;
-  const config: GameConfig = {
-    playerName: 'Solo',
-    botCount: 0,
-    botDifficulty: 'easy',
-  };
 
   beforeEach(() => {
     manager = createGameStateManager();
@@ -298,14 +327,9 @@ describe('1-Player Game (botCount: 0) — edge case', () => {
     manager.destroy();
   });
 
-  it('initializes with exactly 1 player', async () => {
-    const state = await manager.initializeGame(config);
-    expect(state.players).toHaveLength(1);
-    expect(state.players[0].name).toBe('Solo');
-  });
-
-  it('deals 13 cards to the solo player', async () => {
-    const state = await manager.initializeGame(config);
-    expect(state.players[0].hand).toHaveLength(13);
+  it('rejects a table of one', async () => {
+    await expect(
+      manager.initializeGame({ playerName: 'Solo', botCount: 0, botDifficulty: 'easy' })
+    ).rejects.toThrow('1 to 3 bots');
   });
 });
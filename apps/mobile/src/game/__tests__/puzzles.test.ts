@@ -0,0 +1,129 @@
+/**
+ * Puzzles — every bundled puzzle is solved by following the hints against
+ * its bots and lost to a tempting wrong line; attempts are recorded on the
+ * device.
+ */
+
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: { playSound: jest.fn(() => Promise.resolve()) },
+  SoundType: { HIGHEST_CARD: 'HIGHEST_CARD' },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  gameLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+  statsLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GameStateManager, type GameState } from '../state';
+import {
+  PUZZLES,
+  evaluatePuzzle,
+  getPuzzleHint,
+  readPuzzleProgress,
+  recordPuzzleAttempt,
+  type Puzzle,
+  type PuzzleStatus,
+} from '../puzzles';
+
+const puzzle = (id: string): Puzzle => PUZZLES.find(p => p.id === id)!;
+
+/** Play the puzzle, choosing each of the human's moves; the bots answer */
+async function playPuzzle(
+  target: Puzzle,
+  chooseMove: (state: GameState, turn: number) => string[] | null
+): Promise<PuzzleStatus> {
+  const manager = new GameStateManager(null);
+  let state = await manager.initializeGame({
+    playerName: 'Ada',
+    botCount: target.position.hands.length - 1,
+    botDifficulty: target.botDifficulty,
+    startPosition: target.position,
+  });
+  let turn = 0;
+  try {
+    while (evaluatePuzzle(target, state) === 'playing') {
+      if (state.players[state.currentPlayerIndex].isBot) {
+        await manager.executeBotTurn();
+      } else {
+        const move = chooseMove(state, turn++);
+        const result = move ? await manager.playCards(move) : await manager.pass();
+        expect(result).toEqual({ success: true });
+      }
+      state = manager.getState()!;
+    }
+    return evaluatePuzzle(target, state);
+  } finally {
+    manager.destroy();
+  }
+}
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  storage.clear();
+  (AsyncStorage.getItem as jest.Mock).mockImplementation(
+    async (key: string) => storage.get(key) ?? null
+  );
+  (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+    storage.set(key, value);
+  });
+});
+
+describe('bundled puzzles', () => {
+  it.each(PUZZLES.map(p => [p.id, p] as const))(
+    '%s is solved by following the hints',
+    async (_id, p) => {
+      // Hard bots make no random moves, so one line settles it
+      await expect(playPuzzle(p, state => getPuzzleHint(state))).resolves.toBe('solved');
+    }
+  );
+
+  it('fails when the lead is given away', async () => {
+    await expect(playPuzzle(puzzle('take-the-lead'), () => null)).resolves.toBe('failed');
+  });
+
+  it('fails when a low single lets the one-card opponent out', async () => {
+    const status = await playPuzzle(puzzle('one-card-opponent'), (state, turn) =>
+      turn === 0 ? ['4D'] : getPuzzleHint(state)
+    );
+    expect(status).toBe('failed');
+  });
+
+  it('fails when the plays run out before the hand does', async () => {
+    const status = await playPuzzle(puzzle('full-house-first'), (state, turn) =>
+      turn === 0 ? ['4D', '4C'] : getPuzzleHint(state)
+    );
+    expect(status).toBe('failed');
+  });
+});
+
+describe('puzzle progress', () => {
+  it('counts attempts and keeps a puzzle solved', async () => {
+    await recordPuzzleAttempt('take-the-lead', { solved: false, hintsUsed: 0 });
+    await recordPuzzleAttempt('take-the-lead', { solved: true, hintsUsed: 2 });
+    await recordPuzzleAttempt('take-the-lead', { solved: true, hintsUsed: 1 });
+    await recordPuzzleAttempt('take-the-lead', { solved: false, hintsUsed: 0 });
+
+    expect(await readPuzzleProgress()).toEqual({
+      'take-the-lead': { solved: true, attempts: 4, hintsUsed: 1 },
+    });
+  });
+
+  it('starts empty when nothing or garbage is stored', async () => {
+    expect(await readPuzzleProgress()).toEqual({});
+    storage.set('@big2_puzzle_progress', '{"take-the-lead": ');
+    expect(await readPuzzleProgress()).toEqual({});
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Game replays — grouping a play history into matches, dealing the hands
+ * again from the seed, stepping through tricks, and the local replay the game
+ * state manager keeps.
+ */
+
+// Mock soundManager FIRST to prevent .m4a require errors
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: {
+    preloadAllSounds: jest.fn(() => Promise.resolve()),
+    playSound: jest.fn(() => Promise.resolve()),
+    cleanup: jest.fn(() => Promise.resolve()),
+  },
+  SoundType: { GAME_START: 'GAME_START', CARD_PLAY: 'CARD_PLAY', PASS: 'PASS' },
+}));
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  buildGameReplay,
+  buildReplayFrames,
+  getTrickStartSteps,
+  roundHistoryToReplayHistory,
+  dealSeededHands,
+  type ReplayHistoryEntry,
+} from '../engine';
+import { GameStateManager } from '../state';
+import type { Card } from '../types';
+
+const SEED = '0123456789abcdef0123456789abcdef';
+const NAMES = ['Ann', 'Bob', 'Cat', 'Dan'];
+const DEAL = dealSeededHands(SEED, 1);
+
+function play(position: number, cards: Card[], match_number = 1): ReplayHistoryEntry {
+  return { match_number, position, cards, combo_type: 'single', passed: false };
+}
+
+function pass(position: number, match_number = 1): ReplayHistoryEntry {
+  return { match_number, position, cards: [], combo_type: 'pass', passed: true };
+}
+
+describe('Game replays', () => {
+  describe('buildGameReplay', () => {
+    it('groups moves by match and deals the hands again from the seed', () => {
+      const replay = buildGameReplay({
+        playerNames: NAMES,
+        playHistory: [play(0, [DEAL[0][0]]), play(2, [], 2), play(1, [DEAL[1][0]])],
+        dealSeed: SEED,
+      });
+
+      expect(replay.matches.map(m => m.matchNumber)).toEqual([1, 2]);
+      expect(replay.matches[0].moves).toHaveLength(2);
+      expect(replay.matches[1].moves[0].passed).toBe(true);
+      expect(replay.matches[0].deal!.map(hand => hand.length)).toEqual([13, 13, 13, 13]);
+      expect(replay.matches[0].deal![0].map(c => c.id).sort()).toEqual(
+        DEAL[0].map(c => c.id).sort()
+      );
+    });
+
+    it('hides the hands without a seed or when the seed does not fit the moves', () => {
+      expect(
+        buildGameReplay({ playerNames: NAMES, playHistory: [play(0, [DEAL[0][0]])] }).matches[0]
+          .deal
+      ).toBeNull();
+      expect(
+        buildGameReplay({
+          playerNames: NAMES,
+          playHistory: [play(0, [DEAL[1][0]])],
+          dealSeed: SEED,
+        }).matches[0].deal
+      ).toBeNull();
+    });
+
+    it('applies the duplicate seat rotation', () => {
+      const rotated = dealSeededHands(SEED, 1, 1);
+      const replay = buildGameReplay({
+        playerNames: NAMES,
+        playHistory: [play(0, [rotated[0][0]])],
+        dealSeed: SEED,
+        seatRotation: 1,
+      });
+      expect(replay.matches[0].deal![0].map(c => c.id).sort()).toEqual(
+        DEAL[1].map(c => c.id).sort()
+      );
+    });
+
+    it('skips malformed entries', () => {
+      const replay = buildGameReplay({
+        playerNames: NAMES,
+        playHistory: [
+          play(7, [DEAL[0][0]]),
+          null as unknown as ReplayHistoryEntry,
+          play(0, [DEAL[0][0]]),
+        ],
+      });
+      expect(replay.matches[0].moves).toHaveLength(1);
+    });
+  });
+
+  describe('buildReplayFrames', () => {
+    it('removes played cards and starts a trick when the last player leads again', () => {
+      const [match] = buildGameReplay({
+        playerNames: NAMES,
+        playHistory: [
+          play(0, [DEAL[0][0]]),
+          play(1, [DEAL[1][0]]),
+          pass(2),
+          pass(3),
+          pass(0),
+          play(1, [DEAL[1][1], DEAL[1][2]]),
+        ],
+        dealSeed: SEED,
+      }).matches;
+      const frames = buildReplayFrames(match, 4);
+
+      expect(frames).toHaveLength(7);
+      expect(frames[0]).toMatchObject({ step: 0, trickNumber: 0, move: null });
+      expect(frames[2].trick.map(m => m.seat)).toEqual([0, 1]);
+      expect(frames[5]).toMatchObject({ trickNumber: 1, cardsLeft: [12, 12, 13, 13] });
+      expect(frames[6].trickNumber).toBe(2);
+      expect(frames[6].trick).toHaveLength(1);
+      expect(frames[6].cardsLeft[1]).toBe(10);
+      expect(frames[6].hands![1].some(c => c.id === DEAL[1][1].id)).toBe(false);
+      expect(frames[0].hands![1]).toHaveLength(13);
+      expect(getTrickStartSteps(frames)).toEqual([1, 6]);
+    });
+
+    it('derives tricks from plays alone (online histories record no passes)', () => {
+      const [match] = buildGameReplay({
+        playerNames: NAMES,
+        playHistory: [play(0, [DEAL[0][0]]), play(1, [DEAL[1][0]]), play(1, [DEAL[1][1]])],
+      }).matches;
+      const frames = buildReplayFrames(match, 4);
+
+      expect(frames.map(f => f.trickNumber)).toEqual([0, 1, 1, 2]);
+      expect(frames[3].hands).toBeNull();
+      expect(frames[3].cardsLeft).toEqual([12, 11, 13, 13]);
+    });
+  });
+
+  describe('roundHistoryToReplayHistory', () => {
+    it('maps player ids to seats and drops entries without a match number', () => {
+      const history = roundHistoryToReplayHistory(
+        [
+          {
+            playerId: 'bot_2',
+            cards: [DEAL[2][0]],
+            combo_type: 'Single',
+            passed: false,
+            matchNumber: 1,
+          },
+          {
+            playerId: 'player_0',
+            cards: [DEAL[0][0]],
+            combo_type: 'Single',
+            passed: true,
+            matchNumber: 1,
+          },
+          { playerId: 'player_0', cards: [], combo_type: 'Single', passed: false },
+        ],
+        ['player_0', 'bot_1', 'bot_2', 'bot_3']
+      );
+      expect(history).toEqual([
+        { match_number: 1, position: 2, cards: [DEAL[2][0]], combo_type: 'Single', passed: false },
+        { match_number: 1, position: 0, cards: [], combo_type: 'Single', passed: true },
+      ]);
+    });
+  });
+
+  describe('GameStateManager', () => {
+    let manager: GameStateManager;
+
+    beforeEach(() => {
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      manager = new GameStateManager();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    it('builds a replay of the local game with its seed', async () => {
+      await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+        dealSeed: SEED,
+      });
+      const state = manager.getState()!;
+      const openerIndex = state.currentPlayerIndex;
+      const opener = state.players[openerIndex];
+      const result = await manager.playCards([opener.hand[0].id]);
+      expect(result.success).toBe(true);
+
+      const source = manager.getReplaySource()!;
+      expect(source.dealSeed).toBe(SEED);
+      expect(source.playHistory).toHaveLength(1);
+      expect(source.playHistory[0].position).toBe(openerIndex);
+
+      const replay = buildGameReplay(source);
+      expect(replay.playerNames[0]).toBe('Tester');
+      expect(replay.matches[0].deal).not.toBeNull();
+    });
+
+    it('loads the last saved replay', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+        JSON.stringify({ playerNames: NAMES, playHistory: [play(0, [DEAL[0][0]])], dealSeed: SEED })
+      );
+      await expect(GameStateManager.loadLastReplay()).resolves.toMatchObject({ dealSeed: SEED });
+
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue('{"bad":true}');
+      await expect(GameStateManager.loadLastReplay()).resolves.toBeNull();
+    });
+  });
+});
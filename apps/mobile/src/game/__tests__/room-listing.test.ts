@@ -0,0 +1,57 @@
+/**
+ * Room listing settings — rooms.settings.title / bot_difficulty /
+ * turn_timer_seconds as read by the lobby and bounded like set_room_listing.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_ROOM_LISTING_SETTINGS,
+  MAX_ROOM_TITLE_LENGTH,
+  ROOM_TURN_TIMER_OPTIONS,
+  isRoomTurnTimerSeconds,
+  normalizeRoomListingSettings,
+  normalizeRoomTitle,
+} from '../engine';
+
+describe('Room listing settings', () => {
+  it('lists rooms under their code with medium bots and a 60s timer by default', () => {
+    expect(normalizeRoomListingSettings(null)).toBe(DEFAULT_ROOM_LISTING_SETTINGS);
+    expect(normalizeRoomListingSettings({ rule_set: { preset: 'taiwanese' } })).toBe(
+      DEFAULT_ROOM_LISTING_SETTINGS
+    );
+    expect(DEFAULT_ROOM_LISTING_SETTINGS).toEqual({
+      title: null,
+      botDifficulty: 'medium',
+      turnTimerSeconds: 60,
+    });
+  });
+
+  it('reads the stored title, bots and turn timer', () => {
+    expect(
+      normalizeRoomListingSettings({
+        title: 'Friday night',
+        bot_difficulty: 'expert',
+        turn_timer_seconds: 15,
+      })
+    ).toEqual({ title: 'Friday night', botDifficulty: 'expert', turnTimerSeconds: 15 });
+  });
+
+  it('falls back to the defaults for values the database would refuse', () => {
+    const listing = normalizeRoomListingSettings({
+      title: 42,
+      bot_difficulty: 'impossible',
+      turn_timer_seconds: 5,
+    });
+    expect(listing).toBe(DEFAULT_ROOM_LISTING_SETTINGS);
+    for (const seconds of [14, 121, 30.5, '60']) {
+      expect(isRoomTurnTimerSeconds(seconds)).toBe(false);
+    }
+    expect(ROOM_TURN_TIMER_OPTIONS.every(isRoomTurnTimerSeconds)).toBe(true);
+  });
+
+  it('trims titles, collapses whitespace and cuts long titles', () => {
+    expect(normalizeRoomTitle('  Big   Two\tnight ')).toBe('Big Two night');
+    expect(normalizeRoomTitle('   ')).toBeNull();
+    expect(normalizeRoomTitle('x'.repeat(60))).toHaveLength(MAX_ROOM_TITLE_LENGTH);
+  });
+});
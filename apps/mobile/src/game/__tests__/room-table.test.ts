@@ -0,0 +1,84 @@
+/**
+ * Room table — rooms.max_players and rooms.settings.deal_variant as read by
+ * the client and edge functions, and the seat order online play follows at
+ * tables of two, three and four, and the hand sizes online scoring counts
+ * from.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_ROOM_TABLE,
+  DEFAULT_SCORING_CONFIG,
+  calculateMatchPoints,
+  getDealtHandSizes,
+  getNextSeat,
+  getOpponentHandSizes,
+  getOtherSeats,
+  getSeatCount,
+  getTurnOrder,
+  normalizeRoomTable,
+} from '../engine';
+
+describe('Room table', () => {
+  it('seats four with the default deal unless the room says otherwise', () => {
+    expect(normalizeRoomTable(null, null)).toEqual(DEFAULT_ROOM_TABLE);
+    expect(DEFAULT_ROOM_TABLE).toEqual({ playerCount: 4, dealVariant: 'extra-card' });
+    expect(normalizeRoomTable(3, { deal_variant: 'dummy', title: 'Trio' })).toEqual({
+      playerCount: 3,
+      dealVariant: 'dummy',
+    });
+  });
+
+  it('falls back to the defaults for values the database would refuse', () => {
+    expect(normalizeRoomTable(5, { deal_variant: 'deck' })).toEqual(DEFAULT_ROOM_TABLE);
+    expect(normalizeRoomTable(1, 'dummy')).toEqual(DEFAULT_ROOM_TABLE);
+    expect(normalizeRoomTable('2', {}).playerCount).toBe(4);
+  });
+
+  it('counts the seats that were dealt', () => {
+    expect(getSeatCount({ '0': [], '1': [] })).toBe(2);
+    expect(getSeatCount({ '0': [], '1': [], '2': [] })).toBe(3);
+    expect(getSeatCount(null)).toBe(4);
+    expect(getSeatCount({})).toBe(4);
+  });
+
+  it('passes the turn round the seats in index order', () => {
+    expect(getTurnOrder(2)).toEqual([1, 0]);
+    expect(getTurnOrder(3)).toEqual([1, 2, 0]);
+    expect(getTurnOrder(4)).toEqual([1, 2, 3, 0]);
+    expect(getNextSeat(2, 3)).toBe(0);
+    expect(getOtherSeats(1, 3)).toEqual([2, 0]);
+    expect(getOtherSeats(0, 2)).toEqual([1]);
+  });
+
+  it("reports every opponent's hand size and none for the player's own seat", () => {
+    const hands = { '0': [1, 2, 3], '1': [1], '2': [] };
+    expect(getOpponentHandSizes(hands, 1, 3)).toEqual([3, null, 0]);
+    expect(getOpponentHandSizes({ '0': [1], '1': [1, 2] }, 0, 2)).toEqual([null, 2]);
+  });
+
+  it('scores a three-seat extra-card table from the hands as dealt', () => {
+    const cards = (count: number) => Array.from({ length: count }, () => ({ rank: '5' }));
+    const table = normalizeRoomTable(3, { deal_variant: 'extra-card' });
+    // Seat 0 held 3♦ and the leftover card (18) and went out; seat 1 played
+    // four cards; seat 2 never played
+    const hands = { '0': [], '1': cards(13), '2': cards(17) };
+    const history = [
+      { match_number: 2, position: 0, cards: cards(18), passed: false },
+      { match_number: 2, position: 1, cards: cards(4), passed: false },
+      { match_number: 2, position: 2, cards: [], passed: true },
+      { match_number: 1, position: 2, cards: cards(5), passed: false },
+    ];
+    const dealt = getDealtHandSizes(hands, history, 2, table);
+    expect(dealt).toEqual([18, 17, 17]);
+
+    const scoring = { ...DEFAULT_SCORING_CONFIG, doubleIfNeverPlayed: true };
+    const scores = [hands['1'], hands['2']].map((hand, i) =>
+      calculateMatchPoints(hand, scoring, dealt[i + 1])
+    );
+    expect(scores.map(score => score.neverPlayed)).toEqual([false, true]);
+    expect(scores[1].multiplier).toBe(2);
+    // Counted against four-player hands, seat 1's 13 cards would look unplayed
+    expect(calculateMatchPoints(hands['1'], scoring).neverPlayed).toBe(true);
+  });
+});
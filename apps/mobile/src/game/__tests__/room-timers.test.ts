@@ -0,0 +1,72 @@
+/**
+ * Room timers — rooms.settings.turn_timer_seconds / auto_pass_timer_seconds /
+ * disconnect_timer_seconds as read by the client and edge functions and
+ * bounded like set_room_timers and room_timer_seconds.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_ROOM_TIMER_SETTINGS,
+  ROOM_TIMER_PRESETS,
+  getRoomTimerPresetId,
+  isRoomAutoPassSeconds,
+  isRoomDisconnectSeconds,
+  normalizeRoomTimerSettings,
+} from '../engine';
+
+describe('Room timers', () => {
+  it('runs 60s turns, a 10s auto-pass and a 60s reconnect window by default', () => {
+    expect(normalizeRoomTimerSettings(null)).toBe(DEFAULT_ROOM_TIMER_SETTINGS);
+    expect(normalizeRoomTimerSettings({ title: 'Friday night' })).toBe(DEFAULT_ROOM_TIMER_SETTINGS);
+    expect(DEFAULT_ROOM_TIMER_SETTINGS).toEqual({
+      turnSeconds: 60,
+      autoPassSeconds: 10,
+      disconnectSeconds: 60,
+    });
+  });
+
+  it('reads the stored timers', () => {
+    expect(
+      normalizeRoomTimerSettings({
+        turn_timer_seconds: 30,
+        auto_pass_timer_seconds: 20,
+        disconnect_timer_seconds: 90,
+      })
+    ).toEqual({ turnSeconds: 30, autoPassSeconds: 20, disconnectSeconds: 90 });
+  });
+
+  it('falls back to the defaults for values the database would refuse', () => {
+    const timers = normalizeRoomTimerSettings({
+      turn_timer_seconds: 5,
+      auto_pass_timer_seconds: 60,
+      disconnect_timer_seconds: '90',
+    });
+    expect(timers).toBe(DEFAULT_ROOM_TIMER_SETTINGS);
+    for (const seconds of [4, 31, 7.5]) {
+      expect(isRoomAutoPassSeconds(seconds)).toBe(false);
+    }
+    for (const seconds of [29, 181, 45.5]) {
+      expect(isRoomDisconnectSeconds(seconds)).toBe(false);
+    }
+  });
+
+  it('names the preset a room uses, or null for custom timers', () => {
+    for (const [id, preset] of Object.entries(ROOM_TIMER_PRESETS)) {
+      expect(getRoomTimerPresetId(preset)).toBe(id);
+    }
+    expect(
+      getRoomTimerPresetId(
+        normalizeRoomTimerSettings({ turn_timer_seconds: 15, disconnect_timer_seconds: 30 })
+      )
+    ).toBeNull();
+    expect(
+      getRoomTimerPresetId(
+        normalizeRoomTimerSettings({
+          turn_timer_seconds: 15,
+          auto_pass_timer_seconds: 5,
+          disconnect_timer_seconds: 30,
+        })
+      )
+    ).toBe('blitz');
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * House rules (RuleSet) — presets, normalization and how each rule changes
+ * classification, comparison, the opening card and the game state manager.
+ */
+
+// Mock soundManager FIRST to prevent .m4a require errors
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: {
+    preloadAllSounds: jest.fn(() => Promise.resolve()),
+    playSound: jest.fn(() => Promise.resolve()),
+    cleanup: jest.fn(() => Promise.resolve()),
+  },
+  SoundType: { GAME_START: 'GAME_START', CARD_PLAY: 'CARD_PLAY', PASS: 'PASS' },
+}));
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  STANDARD_RULE_SET,
+  RULE_SET_PRESETS,
+  normalizeRuleSet,
+  isStandardRuleSet,
+  getSuitValues,
+  getOpeningCardId,
+  isOpeningCard,
+  isHighestRemainingPlay,
+  isHighestPossiblePlay,
+  sortHand,
+  classifyCards,
+  canBeatPlay,
+  findRecommendedPlay,
+  type RuleSet,
+} from '../engine';
+import { GameStateManager } from '../state';
+import { createBotAI } from '../bot';
+import type { Card, LastPlay } from '../types';
+
+function c(id: string): Card {
+  const rank = id.slice(0, -1) as Card['rank'];
+  const suit = id.slice(-1) as Card['suit'];
+  return { id, rank, suit };
+}
+
+function cards(...ids: string[]): Card[] {
+  return ids.map(c);
+}
+
+function play(combo: LastPlay['combo_type'], ...ids: string[]): LastPlay {
+  return { cards: cards(...ids), combo_type: combo, player_index: 1 };
+}
+
+const TAIWANESE = RULE_SET_PRESETS.taiwanese;
+const NO_TWOS = RULE_SET_PRESETS['no-twos-in-straights'];
+const BARE_QUADS = normalizeRuleSet({ fourOfAKindNeedsKicker: false });
+
+describe('RuleSet', () => {
+  describe('normalizeRuleSet', () => {
+    it('defaults to the standard rules', () => {
+      expect(normalizeRuleSet(undefined)).toBe(STANDARD_RULE_SET);
+      expect(normalizeRuleSet(null)).toBe(STANDARD_RULE_SET);
+      expect(normalizeRuleSet('not-a-preset')).toBe(STANDARD_RULE_SET);
+      expect(normalizeRuleSet({})).toBe(STANDARD_RULE_SET);
+    });
+
+    it('resolves preset ids and matching objects to the preset instance', () => {
+      expect(normalizeRuleSet('taiwanese')).toBe(TAIWANESE);
+      expect(normalizeRuleSet({ preset: 'taiwanese' })).toBe(TAIWANESE);
+      // Values that happen to equal a preset resolve to it (e.g. after JSON round-trip)
+      expect(normalizeRuleSet(JSON.parse(JSON.stringify(NO_TWOS)))).toBe(NO_TWOS);
+      expect(normalizeRuleSet({ preset: 'custom', twosInStraights: false })).toBe(NO_TWOS);
+    });
+
+    it('marks anything else as custom and falls back field by field', () => {
+      const rules = normalizeRuleSet({
+        preset: 'taiwanese',
+        twosInStraights: false,
+        suitOrder: ['S', 'S', 'H', 'D'], // invalid → preset suit order
+        flushRanking: 'bogus', // invalid → preset flush ranking
+      });
+      expect(rules.preset).toBe('custom');
+      expect(rules.suitOrder).toEqual(['C', 'D', 'H', 'S']);
+      expect(rules.flushRanking).toBe('suit-first');
+      expect(rules.twosInStraights).toBe(false);
+      expect(Object.isFrozen(rules)).toBe(true);
+    });
+
+    it('isStandardRuleSet compares values, not identity', () => {
+      expect(isStandardRuleSet(STANDARD_RULE_SET)).toBe(true);
+      expect(isStandardRuleSet({ ...STANDARD_RULE_SET })).toBe(true);
+      expect(isStandardRuleSet(TAIWANESE)).toBe(false);
+    });
+  });
+
+  describe('suit order', () => {
+    it('uses the standard suit values by default', () => {
+      expect(getSuitValues()).toEqual({ D: 0, C: 1, H: 2, S: 3 });
+      expect(getSuitValues(TAIWANESE)).toEqual({ C: 0, D: 1, H: 2, S: 3 });
+    });
+
+    it('orders hands and singles by the rule set', () => {
+      expect(sortHand(cards('3D', '3C')).map(x => x.id)).toEqual(['3D', '3C']);
+      expect(sortHand(cards('3D', '3C'), TAIWANESE).map(x => x.id)).toEqual(['3C', '3D']);
+
+      expect(canBeatPlay([c('5D')], play('Single', '5C'))).toBe(false);
+      expect(canBeatPlay([c('5D')], play('Single', '5C'), TAIWANESE)).toBe(true);
+    });
+
+    it('moves the opening card to the 3 of the lowest suit', () => {
+      expect(getOpeningCardId()).toBe('3D');
+      expect(getOpeningCardId(TAIWANESE)).toBe('3C');
+      expect(isOpeningCard({ id: 'C3', rank: '3', suit: 'C' }, TAIWANESE)).toBe(true);
+      expect(isOpeningCard(c('3D'), TAIWANESE)).toBe(false);
+
+      const hand = cards('3D', '3C', '7H');
+      expect(findRecommendedPlay(hand, null, true)).toEqual(['3D']);
+      expect(findRecommendedPlay(hand, null, true, TAIWANESE)).toEqual(['3C']);
+    });
+  });
+
+  describe('2s in straights', () => {
+    it('rejects straights containing a 2 when disabled', () => {
+      const lowStraight = cards('AD', '2C', '3H', '4S', '5D');
+      expect(classifyCards(lowStraight)).toBe('Straight');
+      expect(classifyCards(lowStraight, NO_TWOS)).toBe('unknown');
+      expect(classifyCards(cards('3D', '4C', '5H', '6S', '7D'), NO_TWOS)).toBe('Straight');
+      expect(classifyCards(cards('10D', 'JC', 'QH', 'KS', 'AD'), NO_TWOS)).toBe('Straight');
+    });
+  });
+
+  describe('flush ranking', () => {
+    const lowSpades = cards('3S', '5S', '7S', '9S', 'JS');
+    const highHearts = cards('4H', '6H', '8H', '10H', 'AH');
+
+    it('compares the highest card under the standard rules', () => {
+      expect(canBeatPlay(highHearts, play('Flush', ...lowSpades.map(x => x.id)))).toBe(true);
+      expect(canBeatPlay(lowSpades, play('Flush', ...highHearts.map(x => x.id)))).toBe(false);
+    });
+
+    it('compares the suit first under suit-first ranking', () => {
+      expect(canBeatPlay(lowSpades, play('Flush', ...highHearts.map(x => x.id)), TAIWANESE)).toBe(
+        true
+      );
+      expect(canBeatPlay(highHearts, play('Flush', ...lowSpades.map(x => x.id)), TAIWANESE)).toBe(
+        false
+      );
+      // Same suit: highest card breaks the tie
+      const higherSpades = cards('4S', '6S', '8S', '10S', 'AS');
+      expect(canBeatPlay(higherSpades, play('Flush', ...lowSpades.map(x => x.id)), TAIWANESE)).toBe(
+        true
+      );
+    });
+  });
+
+  describe('four of a kind without a kicker', () => {
+    it('accepts bare quads only when the kicker is not required', () => {
+      const quads = cards('9D', '9C', '9H', '9S');
+      expect(classifyCards(quads)).toBe('unknown');
+      expect(classifyCards(quads, BARE_QUADS)).toBe('Four of a Kind');
+      expect(classifyCards([...quads, c('3D')], BARE_QUADS)).toBe('Four of a Kind');
+    });
+
+    it('compares bare quads by rank and recommends the lowest beating quad', () => {
+      const last = play('Four of a Kind', '9D', '9C', '9H', '9S');
+      expect(canBeatPlay(cards('KD', 'KC', 'KH', 'KS'), last, BARE_QUADS)).toBe(true);
+      expect(canBeatPlay(cards('5D', '5C', '5H', '5S'), last, BARE_QUADS)).toBe(false);
+
+      const hand = cards('5D', '5C', '5H', '5S', 'JD', 'JC', 'JH', 'JS', 'AS');
+      expect(findRecommendedPlay(hand, last, false, BARE_QUADS)).toEqual(['JD', 'JC', 'JH', 'JS']);
+    });
+
+    it('detects an unbeatable bare quad', () => {
+      const twos = cards('2D', '2C', '2H', '2S');
+      expect(isHighestRemainingPlay(twos, [], BARE_QUADS)).toBe(true);
+      expect(isHighestRemainingPlay(cards('KD', 'KC', 'KH', 'KS'), [], BARE_QUADS)).toBe(false);
+    });
+  });
+
+  describe('highest play detection', () => {
+    it('follows the suit order for singles', () => {
+      expect(isHighestPossiblePlay([c('2S')], [])).toBe(true);
+      expect(isHighestPossiblePlay([c('2S')], [], TAIWANESE)).toBe(true);
+      expect(isHighestPossiblePlay([c('2H')], [c('2S')], TAIWANESE)).toBe(true);
+      expect(isHighestPossiblePlay([c('2C')], cards('2S', '2H'), TAIWANESE)).toBe(false);
+      expect(isHighestPossiblePlay([c('2D')], cards('2S', '2H'), TAIWANESE)).toBe(true);
+    });
+
+    it('never reports a five-card combo as unbeatable under house rules', () => {
+      const royal = cards('10S', 'JS', 'QS', 'KS', 'AS');
+      expect(isHighestPossiblePlay(royal, [], NO_TWOS)).toBe(false);
+    });
+  });
+
+  describe('bot', () => {
+    it('opens with the rule set opening card', () => {
+      const bot = createBotAI('easy');
+      const hand = cards('3D', '3C', '8H', 'KS');
+      const options = {
+        hand,
+        lastPlay: null,
+        isFirstPlayOfGame: true,
+        playerCardCounts: [4, 13, 13, 13],
+        currentPlayerIndex: 0,
+      };
+      expect(bot.getPlay(options).cards).toEqual(['3D']);
+      expect(bot.getPlay({ ...options, ruleSet: TAIWANESE }).cards).toEqual(['3C']);
+    });
+  });
+
+  describe('GameStateManager', () => {
+    let manager: GameStateManager;
+
+    beforeEach(() => {
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      manager = new GameStateManager();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    it('defaults to the standard rules', async () => {
+      const state = await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+      });
+      expect(state.ruleSet).toBe(STANDARD_RULE_SET);
+      expect(state.players[state.currentPlayerIndex].hand.some(x => x.id === '3D')).toBe(true);
+    });
+
+    it('stores the rule set and starts with its opening card', async () => {
+      const state = await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+        ruleSet: 'taiwanese',
+      });
+      expect(state.ruleSet).toBe(TAIWANESE);
+      const starter = state.players[state.currentPlayerIndex];
+      expect(starter.hand.some(x => x.id === '3C')).toBe(true);
+
+      if (!starter.isBot) {
+        const other = starter.hand.find(x => x.id !== '3C')!;
+        const result = await manager.playCards([other.id]);
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('First play must include 3♣');
+      }
+    });
+
+    it('restores the preset instance when loading a saved game', async () => {
+      const custom: RuleSet = normalizeRuleSet({
+        twosInStraights: false,
+        flushRanking: 'suit-first',
+      });
+      await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+        ruleSet: custom,
+      });
+      const saved = (AsyncStorage.setItem as jest.Mock).mock.calls.at(-1)?.[1] as string;
+
+      const withRules = new GameStateManager();
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(saved);
+      expect((await withRules.loadState())?.ruleSet).toEqual(custom);
+      withRules.destroy();
+
+      // Saves from before house rules stay untouched (absent = standard rules)
+      const legacy = JSON.parse(saved);
+      delete legacy.ruleSet;
+      const legacyManager = new GameStateManager();
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(legacy));
+      const loaded = await legacyManager.loadState();
+      expect(loaded).not.toBeNull();
+      expect(loaded?.ruleSet).toBeUndefined();
+      legacyManager.destroy();
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Rules conformance: supabase/functions/_shared/gameEngine.ts
+ *
+ * The client (src/game/engine) and the play-cards / player-pass Edge Functions
+ * both load the shared rules module. This suite pins that module down:
+ *
+ *   1. Wiring — the client engine re-exports the shared functions (no fork),
+ *      and the Edge Functions import them instead of redefining rules locally.
+ *   2. Fixtures — hand-written cases with reviewed outcomes
+ *      (fixtures/rules-conformance.json) for classification, beating, the
+ *      recommended play, the one-card-left rule and scoring. Rule sets and
+ *      scoring configs are given the way a room row stores them and go through
+ *      normalizeRuleSet / normalizeScoringConfig, as in the Edge Functions.
+ *   3. Properties — a seeded corpus of generated decisions checks invariants
+ *      no fixture list can enumerate (recommendations are legal, beating is
+ *      antisymmetric, a blocked pass names a playable single).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect } from '@jest/globals';
+import * as client from '../engine';
+import * as shared from '../../../supabase/functions/_shared/gameEngine';
+import type { Card, LastPlay } from '../../../supabase/functions/_shared/gameEngine';
+import fixtures from './fixtures/rules-conformance.json';
+
+const FUNCTIONS_DIR = path.resolve(__dirname, '../../../supabase/functions');
+const CORPUS_SIZE = 3000;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const CARDS_BY_ID = new Map(shared.createOrderedDeck().map(card => [card.id, card]));
+
+function cards(ids: readonly string[]): Card[] {
+  return ids.map(id => {
+    const card = CARDS_BY_ID.get(id);
+    if (!card) throw new Error(`Unknown card id in fixture: ${id}`);
+    return card;
+  });
+}
+
+/** A fixture's last play, classified under the fixture's rules */
+function lastPlayOf(ids: readonly string[] | null, rules: shared.RuleSet): LastPlay | null {
+  if (!ids) return null;
+  const played = cards(ids);
+  return { cards: played, combo_type: shared.classifyCards(played, rules), player_index: 1 };
+}
+
+function sortedIds(ids: readonly string[] | null): string[] | null {
+  return ids ? [...ids].sort() : null;
+}
+
+/** Small deterministic PRNG (mulberry32) so failures are reproducible. */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], rand: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+const PLAY_SIZES = [1, 2, 3, 5];
+
+interface Scenario {
+  hand: Card[];
+  candidate: Card[];
+  lastPlay: LastPlay | null;
+  isFirstPlayOfGame: boolean;
+}
+
+/**
+ * Deal a fresh deck and build one decision point: the acting player's hand,
+ * a candidate selection from it, and (usually) a last play taken from an
+ * opponent's hand. Random 5-card draws are mostly junk, so half of the last
+ * plays are the opponent's own recommended lead to keep 5-card combos common.
+ */
+function generateScenario(rand: () => number): Scenario {
+  const deck = shuffle(shared.createOrderedDeck(), rand);
+  const handSize = 1 + Math.floor(rand() * 13);
+  const hand = deck.slice(0, handSize);
+  const opponent = deck.slice(13, 26);
+
+  const candidateSize = Math.min(hand.length, PLAY_SIZES[Math.floor(rand() * PLAY_SIZES.length)]);
+  const candidate = shuffle(hand, rand).slice(0, candidateSize);
+
+  // The opening play of a game always leads (no last play to beat)
+  const isFirstPlayOfGame = rand() < 0.1;
+  let lastPlay: LastPlay | null = null;
+  if (!isFirstPlayOfGame && rand() < 0.85) {
+    const size = PLAY_SIZES[Math.floor(rand() * PLAY_SIZES.length)];
+    let lastCards = shuffle(opponent, rand).slice(0, size);
+    if (rand() < 0.5) {
+      const lead = shared.findRecommendedPlay(opponent, null, false);
+      if (lead) lastCards = opponent.filter(c => lead.includes(c.id));
+    }
+    const comboType = shared.classifyCards(lastCards);
+    if (comboType !== 'unknown') {
+      lastPlay = { cards: lastCards, combo_type: comboType, player_index: 1 };
+    }
+  }
+
+  return { hand, candidate, lastPlay, isFirstPlayOfGame };
+}
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe('Rules conformance (shared engine)', () => {
+  describe('Wiring', () => {
+    it('client engine re-exports the shared rules module', () => {
+      expect(client.classifyCards).toBe(shared.classifyCards);
+      expect(client.canBeatPlay).toBe(shared.canBeatPlay);
+      expect(client.findRecommendedPlay).toBe(shared.findRecommendedPlay);
+      expect(client.validateOneCardLeftRule).toBe(shared.validateOneCardLeftRule);
+      expect(client.canPassWithOneCardLeftRule).toBe(shared.canPassWithOneCardLeftRule);
+      expect(client.calculateCardPoints).toBe(shared.calculateCardPoints);
+      expect(client.calculateMatchPoints).toBe(shared.calculateMatchPoints);
+    });
+
+    it.each([
+      [
+        'play-cards',
+        ['classifyCards', 'canBeatPlay', 'validateOneCardLeftRule', 'calculateMatchPoints'],
+      ],
+      ['player-pass', ['canPassWithOneCardLeftRule']],
+    ])('%s imports its rules from _shared/gameEngine.ts', (fn, names) => {
+      const source = fs.readFileSync(path.join(FUNCTIONS_DIR, fn, 'index.ts'), 'utf8');
+      expect(source).toMatch(/from '\.\.\/_shared\/gameEngine\.ts'/);
+      for (const name of names) {
+        expect(source).not.toMatch(new RegExp(`function ${name}\\(`));
+        expect(source).toContain(name);
+      }
+      expect(source).not.toContain("rpc('validate_one_card_left_rule'");
+    });
+  });
+
+  describe('Fixtures', () => {
+    it.each(fixtures.classify)('classifies $cards ($rules) as $expected', fixture => {
+      const rules = shared.normalizeRuleSet(fixture.rules);
+      expect(shared.classifyCards(cards(fixture.cards), rules)).toBe(fixture.expected);
+    });
+
+    it.each(fixtures.canBeat)('$cards beats $lastPlay ($rules): $expected', fixture => {
+      const rules = shared.normalizeRuleSet(fixture.rules);
+      const lastPlay = lastPlayOf(fixture.lastPlay, rules);
+      expect(shared.canBeatPlay(cards(fixture.cards), lastPlay, rules)).toBe(fixture.expected);
+    });
+
+    it.each(fixtures.recommended)('recommends $expected from $hand on $lastPlay', fixture => {
+      const rules = shared.normalizeRuleSet(fixture.rules);
+      const recommended = shared.findRecommendedPlay(
+        cards(fixture.hand),
+        lastPlayOf(fixture.lastPlay, rules),
+        fixture.isFirstPlayOfGame,
+        rules
+      );
+      expect(sortedIds(recommended)).toEqual(sortedIds(fixture.expected));
+    });
+
+    it.each(fixtures.oneCardLeft)(
+      'one card left: $cards from $hand on $lastPlay (next holds $nextPlayerCardCount)',
+      fixture => {
+        const result = shared.validateOneCardLeftRule(
+          cards(fixture.cards),
+          cards(fixture.hand),
+          fixture.nextPlayerCardCount,
+          lastPlayOf(fixture.lastPlay, shared.STANDARD_RULE_SET)
+        );
+        expect(result.valid).toBe(fixture.expected.valid);
+        expect(result.requiredCard?.id).toBe(fixture.expected.requiredCard);
+      }
+    );
+
+    it.each(fixtures.canPass)(
+      'pass with $hand on $lastPlay (next holds $nextPlayerCardCount): $expected',
+      fixture => {
+        const { canPass } = shared.canPassWithOneCardLeftRule(
+          cards(fixture.hand),
+          fixture.nextPlayerCardCount,
+          lastPlayOf(fixture.lastPlay, shared.STANDARD_RULE_SET)
+        );
+        expect(canPass).toBe(fixture.expected);
+      }
+    );
+
+    it.each(fixtures.cardPoints)('$cardsRemaining cards left score $expected', fixture => {
+      const scoring = shared.normalizeScoringConfig(fixture.scoring);
+      expect(shared.calculateCardPoints(fixture.cardsRemaining, scoring).finalScore).toBe(
+        fixture.expected
+      );
+    });
+
+    it.each(fixtures.matchPoints)('$hand with $scoring scores $expected', fixture => {
+      const scoring = shared.normalizeScoringConfig(fixture.scoring);
+      expect(shared.calculateMatchPoints(cards(fixture.hand), scoring).finalScore).toBe(
+        fixture.expected
+      );
+    });
+
+    it.each(fixtures.gameOver)('scores $scores end the game: $expected.gameOver', fixture => {
+      const scoring = shared.normalizeScoringConfig(fixture.scoring);
+      expect(shared.isGameOverScore(fixture.scores, scoring)).toBe(fixture.expected.gameOver);
+      expect(shared.findLowestScoreIndex(fixture.scores)).toBe(fixture.expected.lowestIndex);
+    });
+  });
+
+  describe(`Properties (${CORPUS_SIZE} generated decisions)`, () => {
+    const rand = mulberry32(0xb162);
+    const corpus = Array.from({ length: CORPUS_SIZE }, () => generateScenario(rand));
+
+    it('canBeatPlay is antisymmetric', () => {
+      for (const { candidate, lastPlay } of corpus) {
+        const comboType = shared.classifyCards(candidate);
+        if (lastPlay && comboType !== 'unknown' && shared.canBeatPlay(candidate, lastPlay)) {
+          const reversed: LastPlay = { cards: candidate, combo_type: comboType, player_index: 0 };
+          expect(shared.canBeatPlay(lastPlay.cards, reversed)).toBe(false);
+        }
+      }
+    });
+
+    it('findRecommendedPlay only recommends legal plays from the hand', () => {
+      for (const { hand, lastPlay, isFirstPlayOfGame } of corpus) {
+        const recommended = shared.findRecommendedPlay(hand, lastPlay, isFirstPlayOfGame);
+        if (!recommended) continue;
+        const played = hand.filter(c => recommended.includes(c.id));
+        expect(played).toHaveLength(recommended.length);
+        expect(shared.classifyCards(played)).not.toBe('unknown');
+        expect(shared.canBeatPlay(played, lastPlay)).toBe(true);
+        if (isFirstPlayOfGame) {
+          expect(played.some(c => shared.isOpeningCard(c))).toBe(true);
+        }
+      }
+    });
+
+    it('a blocked pass always names a single the play check accepts', () => {
+      for (const { hand, lastPlay } of corpus) {
+        const highest = shared.findHighestBeatingSingle(hand, lastPlay);
+        if (!highest || lastPlay?.combo_type !== 'Single') continue;
+        expect(shared.canPassWithOneCardLeftRule(hand, 1, lastPlay).canPass).toBe(false);
+        expect(shared.validateOneCardLeftRule([highest], hand, 1, lastPlay).valid).toBe(true);
+      }
+    });
+  });
+});
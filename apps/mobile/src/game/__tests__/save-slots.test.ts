@@ -0,0 +1,169 @@
+/**
+ * Save slots — the schema migration chain, quarantine of unusable saves,
+ * slot summaries, the slot limit and picking up a save from before slots.
+ */
+
+jest.mock('../../utils/logger', () => ({
+  gameLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_SAVE_SLOT,
+  MAX_SAVE_SLOTS,
+  SAVE_SCHEMA_VERSION,
+  parseSavedGame,
+  readSaveSlots,
+  saveSlotKeys,
+  serializeSave,
+  summarizeSave,
+  updateSaveSlot,
+} from '../save-slots';
+import { GameStateManager, type GameState } from '../state';
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  (AsyncStorage.getItem as jest.Mock).mockImplementation(
+    async (key: string) => storage.get(key) ?? null
+  );
+  (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+    storage.set(key, value);
+  });
+  (AsyncStorage.removeItem as jest.Mock).mockImplementation(async (key: string) => {
+    storage.delete(key);
+  });
+});
+
+async function newGame(slotId: string): Promise<GameState> {
+  const manager = new GameStateManager(slotId);
+  const state = await manager.initializeGame({
+    playerName: 'Ada',
+    botCount: 2,
+    botDifficulty: 'hard',
+  });
+  manager.destroy();
+  return state;
+}
+
+describe('parseSavedGame', () => {
+  it('upgrades an unversioned save through the migration chain', async () => {
+    const legacy = JSON.parse(serializeSave(await newGame('a')));
+    delete legacy.schemaVersion;
+    delete legacy.gameRoundHistory;
+    delete legacy.played_cards;
+    delete legacy.matchScores[0].matchComboStats;
+
+    const parsed = parseSavedGame(JSON.stringify(legacy));
+
+    expect(parsed.state).not.toBeNull();
+    if (!parsed.state) return;
+    expect(parsed).toMatchObject({ fromVersion: 0, migrated: true });
+    expect(parsed.state.gameRoundHistory).toEqual([]);
+    expect(parsed.state.played_cards).toEqual([]);
+    expect(parsed.state.matchScores[0].matchComboStats.singles).toEqual([]);
+    expect(parsed.state).not.toHaveProperty('schemaVersion');
+  });
+
+  it('loads a current save unchanged', async () => {
+    const state = await newGame('a');
+    const parsed = parseSavedGame(serializeSave(state));
+
+    expect(parsed).toMatchObject({ fromVersion: SAVE_SCHEMA_VERSION, migrated: false });
+    expect(parsed.state).toEqual(JSON.parse(JSON.stringify(state)));
+  });
+
+  it('rejects saves it cannot play on', async () => {
+    const state = JSON.parse(serializeSave(await newGame('a')));
+
+    expect(parseSavedGame('{"players": [')).toEqual({ state: null, error: 'invalid JSON' });
+    expect(parseSavedGame('[]').state).toBeNull();
+    expect(parseSavedGame(JSON.stringify({ ...state, players: null })).state).toBeNull();
+    expect(
+      parseSavedGame(JSON.stringify({ ...state, schemaVersion: SAVE_SCHEMA_VERSION + 1 }))
+    ).toEqual({
+      state: null,
+      error: `saved by a newer version (schema ${SAVE_SCHEMA_VERSION + 1})`,
+    });
+  });
+});
+
+describe('save slots', () => {
+  it('keeps one save per slot and summarizes each', async () => {
+    await newGame('a');
+    await newGame('b');
+
+    expect(storage.has(saveSlotKeys('a').state)).toBe(true);
+    expect(storage.has(saveSlotKeys('b').state)).toBe(true);
+    const slots = await readSaveSlots();
+    expect(slots.map(slot => slot.slotId).sort()).toEqual(['a', 'b']);
+    expect(slots[0]).toMatchObject({
+      opponents: [
+        { name: 'Bot 1', difficulty: 'hard' },
+        { name: 'Bot 2', difficulty: 'hard' },
+      ],
+      matchNumber: 1,
+      scores: [
+        { name: 'Ada', score: 0 },
+        { name: 'Bot 1', score: 0 },
+        { name: 'Bot 2', score: 0 },
+      ],
+      inProgress: true,
+    });
+  });
+
+  it('evicts finished games first, then the least recently saved', async () => {
+    const state = await newGame('seed');
+    storage.clear();
+    await updateSaveSlot({ ...summarizeSave('finished', state, 50), inProgress: false });
+    for (let i = 0; i < MAX_SAVE_SLOTS; i++) {
+      await updateSaveSlot(summarizeSave(`slot-${i}`, state, 100 + i));
+    }
+
+    expect((await readSaveSlots()).map(slot => slot.slotId)).toEqual([
+      'slot-4',
+      'slot-3',
+      'slot-2',
+      'slot-1',
+      'slot-0',
+    ]);
+
+    await updateSaveSlot(summarizeSave('newest', state, 200));
+    const slots = (await readSaveSlots()).map(slot => slot.slotId);
+    expect(slots).toHaveLength(MAX_SAVE_SLOTS);
+    expect(slots).not.toContain('slot-0');
+  });
+
+  it('lists a game saved before slots existed as the default slot', async () => {
+    const legacy = JSON.parse(serializeSave(await newGame('a')));
+    delete legacy.schemaVersion;
+    storage.clear();
+    storage.set('@big2_game_state', JSON.stringify(legacy));
+
+    expect((await readSaveSlots()).map(slot => slot.slotId)).toEqual([DEFAULT_SAVE_SLOT]);
+    const manager = new GameStateManager();
+    expect((await manager.loadState())?.players[0].name).toBe('Ada');
+    manager.destroy();
+  });
+
+  it('quarantines a save that cannot be loaded and frees its slot', async () => {
+    await newGame('a');
+    storage.set(saveSlotKeys('a').state, '{"players": [');
+
+    const manager = new GameStateManager('a');
+    expect(await manager.loadState()).toBeNull();
+    manager.destroy();
+
+    expect(storage.has(saveSlotKeys('a').state)).toBe(false);
+    expect(await readSaveSlots()).toEqual([]);
+    expect(JSON.parse(storage.get('@big2_quarantined_saves')!)).toEqual([
+      expect.objectContaining({ slotId: 'a', reason: 'invalid JSON', data: '{"players": [' }),
+    ]);
+  });
+});
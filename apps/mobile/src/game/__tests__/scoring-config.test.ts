@@ -0,0 +1,208 @@
+/**
+ * Room scoring (ScoringConfig) — normalization, tiers, the 2s penalty,
+ * never-played doubling, the Hong Kong bonus, target score and how the
+ * game state manager applies a config at match end.
+ */
+
+// Mock soundManager FIRST to prevent .m4a require errors
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: {
+    preloadAllSounds: jest.fn(() => Promise.resolve()),
+    playSound: jest.fn(() => Promise.resolve()),
+    cleanup: jest.fn(() => Promise.resolve()),
+  },
+  SoundType: { GAME_START: 'GAME_START', CARD_PLAY: 'CARD_PLAY', PASS: 'PASS' },
+}));
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  DEFAULT_SCORING_CONFIG,
+  SCORING_TIER_PRESETS,
+  normalizeScoringConfig,
+  isDefaultScoringConfig,
+  getScoringTierPresetId,
+  calculateCardPoints,
+  calculateMatchPoints,
+  isGameOverScore,
+  type ScoringConfig,
+} from '../engine';
+import { GameStateManager } from '../state';
+import type { Card } from '../types';
+
+function c(id: string): Card {
+  const rank = id.slice(0, -1) as Card['rank'];
+  const suit = id.slice(-1) as Card['suit'];
+  return { id, rank, suit };
+}
+
+function cards(...ids: string[]): Card[] {
+  return ids.map(c);
+}
+
+const FULL_HAND = cards(
+  '3D',
+  '4D',
+  '5D',
+  '6D',
+  '7D',
+  '8D',
+  '9D',
+  '10D',
+  'JD',
+  'QD',
+  'KD',
+  '2S',
+  '2H'
+);
+
+const HOUSE_SCORING: ScoringConfig = normalizeScoringConfig({
+  targetScore: 201,
+  tiers: SCORING_TIER_PRESETS.classic,
+  twosPenalty: 2,
+  doubleIfNeverPlayed: true,
+  hongKongBonus: 10,
+});
+
+describe('Scoring config', () => {
+  describe('normalizeScoringConfig', () => {
+    it('returns the shared default for missing or default input', () => {
+      expect(normalizeScoringConfig(undefined)).toBe(DEFAULT_SCORING_CONFIG);
+      expect(normalizeScoringConfig('steep')).toBe(DEFAULT_SCORING_CONFIG);
+      expect(normalizeScoringConfig({ ...DEFAULT_SCORING_CONFIG })).toBe(DEFAULT_SCORING_CONFIG);
+      expect(isDefaultScoringConfig(DEFAULT_SCORING_CONFIG)).toBe(true);
+    });
+
+    it('falls back field by field on invalid values', () => {
+      const scoring = normalizeScoringConfig({
+        targetScore: 77,
+        tiers: [{ maxCards: 5, pointsPerCard: 1 }], // does not cover 13 cards
+        twosPenalty: -1,
+        doubleIfNeverPlayed: 'yes',
+        hongKongBonus: 5,
+      });
+      expect(scoring).toEqual({ ...DEFAULT_SCORING_CONFIG, hongKongBonus: 5 });
+      expect(isDefaultScoringConfig(scoring)).toBe(false);
+      expect(Object.isFrozen(scoring)).toBe(true);
+    });
+
+    it('recognises the tier presets', () => {
+      expect(getScoringTierPresetId(DEFAULT_SCORING_CONFIG.tiers)).toBe('classic');
+      expect(getScoringTierPresetId(SCORING_TIER_PRESETS.steep)).toBe('steep');
+      expect(getScoringTierPresetId([{ maxCards: 13, pointsPerCard: 5 }])).toBeNull();
+    });
+  });
+
+  describe('calculateCardPoints', () => {
+    it('uses the classic 1/2/3 tiers by default', () => {
+      expect(calculateCardPoints(4).finalScore).toBe(4);
+      expect(calculateCardPoints(5).finalScore).toBe(10);
+      expect(calculateCardPoints(13).finalScore).toBe(39);
+    });
+
+    it('uses the configured tiers', () => {
+      const flat = normalizeScoringConfig({ tiers: SCORING_TIER_PRESETS.flat });
+      const steep = normalizeScoringConfig({ tiers: SCORING_TIER_PRESETS.steep });
+      expect(calculateCardPoints(13, flat).finalScore).toBe(13);
+      expect(calculateCardPoints(12, steep).finalScore).toBe(36);
+      expect(calculateCardPoints(13, steep)).toMatchObject({ pointsPerCard: 4, finalScore: 52 });
+    });
+  });
+
+  describe('calculateMatchPoints', () => {
+    it('matches calculateCardPoints under the default scoring', () => {
+      for (let count = 0; count <= 13; count++) {
+        const hand = FULL_HAND.slice(0, count);
+        expect(calculateMatchPoints(hand).finalScore).toBe(calculateCardPoints(count).finalScore);
+      }
+    });
+
+    it('adds the 2s penalty and doubles a hand that never played', () => {
+      const partial = calculateMatchPoints(cards('5H', '2S', '2D'), HOUSE_SCORING);
+      expect(partial).toMatchObject({ twosRemaining: 2, twosPenalty: 4, multiplier: 1 });
+      expect(partial.finalScore).toBe(3 + 4);
+
+      const full = calculateMatchPoints(FULL_HAND, HOUSE_SCORING);
+      expect(full).toMatchObject({ neverPlayed: true, multiplier: 2 });
+      expect(full.finalScore).toBe((39 + 4) * 2);
+    });
+
+    it('takes the Hong Kong bonus off the winner', () => {
+      expect(calculateMatchPoints([], HOUSE_SCORING)).toMatchObject({
+        finalScore: -10,
+        hongKongBonus: 10,
+      });
+      expect(calculateMatchPoints([]).finalScore).toBe(0);
+    });
+  });
+
+  describe('isGameOverScore', () => {
+    it('ends the game at the configured target score', () => {
+      const to51 = normalizeScoringConfig({ targetScore: 51 });
+      expect(isGameOverScore([10, 51, 0, 0], to51)).toBe(true);
+      expect(isGameOverScore([10, 51, 0, 0])).toBe(false);
+      expect(isGameOverScore([10, 150, 0, 0], HOUSE_SCORING)).toBe(false);
+    });
+  });
+
+  describe('GameStateManager', () => {
+    let manager: GameStateManager;
+
+    beforeEach(() => {
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      manager = new GameStateManager();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    it('defaults to the classic scoring', async () => {
+      const state = await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+      });
+      expect(state.scoring).toBe(DEFAULT_SCORING_CONFIG);
+    });
+
+    it('scores a match with the room config', async () => {
+      await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+        scoring: HOUSE_SCORING,
+        startPosition: {
+          matchNumber: 1,
+          hands: [cards('3D'), FULL_HAND, cards('4H', '5H', '6H', '7H', '8H'), cards('2D', '9C')],
+          currentSeat: 0,
+          lastPlay: null,
+          consecutivePasses: 0,
+          playedCards: [],
+          isFirstPlayOfGame: false,
+        },
+      });
+
+      const result = await manager.playCards(['3D']);
+      expect(result.success).toBe(true);
+
+      const latest = manager.getState()!;
+      expect(latest.matchScores.map(s => s.score)).toEqual([-10, 86, 10, 4]);
+      expect(latest.lastMatchScoreDetails?.[1]).toMatchObject({ multiplier: 2, twosPenalty: 4 });
+      expect(latest.gameOver).toBe(false);
+    });
+  });
+});
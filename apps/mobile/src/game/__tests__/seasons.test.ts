@@ -0,0 +1,41 @@
+/**
+ * Seasons — rank tiers, the soft reset applied by roll_over_season and the
+ * season reward tier.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MIN_SEASON_GAMES_FOR_REWARD,
+  SEASON_BASE_RATING,
+  rankTierForRating,
+  seasonRewardTier,
+  softResetSeasonRating,
+} from '../engine';
+
+describe('Seasons', () => {
+  it('maps ratings to the same tiers as calculate_rank_from_elo', () => {
+    expect(rankTierForRating(0)).toBe('Bronze');
+    expect(rankTierForRating(999)).toBe('Bronze');
+    expect(rankTierForRating(1000)).toBe('Silver');
+    expect(rankTierForRating(1250)).toBe('Gold');
+    expect(rankTierForRating(1400)).toBe('Platinum');
+    expect(rankTierForRating(1799)).toBe('Diamond');
+    expect(rankTierForRating(1800)).toBe('Master');
+    expect(rankTierForRating(2450)).toBe('Grandmaster');
+  });
+
+  it('keeps half the distance from the base rating across a reset', () => {
+    expect(softResetSeasonRating(SEASON_BASE_RATING)).toBe(SEASON_BASE_RATING);
+    expect(softResetSeasonRating(1800)).toBe(1400);
+    expect(softResetSeasonRating(600)).toBe(800);
+    // Truncated towards the base rating, like integer division in SQL
+    expect(softResetSeasonRating(1001)).toBe(1000);
+    expect(softResetSeasonRating(999)).toBe(1000);
+    expect(softResetSeasonRating(-3000)).toBe(0);
+  });
+
+  it('rewards the final tier only after enough games in the season', () => {
+    expect(seasonRewardTier(1650, MIN_SEASON_GAMES_FOR_REWARD)).toBe('Diamond');
+    expect(seasonRewardTier(1650, MIN_SEASON_GAMES_FOR_REWARD - 1)).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Seeded deals — SHA-256 commitment, reproducible shuffles, duplicate seat
+ * rotation and comparison, and how the game state manager deals from a seed.
+ */
+
+// Mock soundManager FIRST to prevent .m4a require errors
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: {
+    preloadAllSounds: jest.fn(() => Promise.resolve()),
+    playSound: jest.fn(() => Promise.resolve()),
+    cleanup: jest.fn(() => Promise.resolve()),
+  },
+  SoundType: { GAME_START: 'GAME_START', CARD_PLAY: 'CARD_PLAY', PASS: 'PASS' },
+}));
+
+// Mock logger to prevent expo-file-system transform errors
+jest.mock('../../utils/logger', () => ({
+  gameLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  statsLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  sha256Hex,
+  createDealSeed,
+  isDealSeed,
+  hashDealSeed,
+  verifyDealSeed,
+  createOrderedDeck,
+  shuffleDeckWithSeed,
+  dealSeededHands,
+  getDealtHandIndex,
+  compareDuplicateResults,
+} from '../engine';
+import { GameStateManager } from '../state';
+
+const SEED = '0123456789abcdef0123456789abcdef';
+
+function ids(hand: { id: string }[]): string[] {
+  return hand.map(card => card.id);
+}
+
+describe('Seeded deals', () => {
+  describe('sha256Hex', () => {
+    it.each(['', 'abc', SEED, `${SEED}:1:51`, 'ä€😀', 'x'.repeat(200)])(
+      'matches node:crypto for %j',
+      message => {
+        expect(sha256Hex(message)).toBe(createHash('sha256').update(message, 'utf8').digest('hex'));
+      }
+    );
+  });
+
+  describe('seeds', () => {
+    it('creates well-formed seeds', () => {
+      const seed = createDealSeed();
+      expect(isDealSeed(seed)).toBe(true);
+      expect(isDealSeed('XYZ')).toBe(false);
+      expect(createDealSeed(() => 0)).toBe('0'.repeat(32));
+    });
+
+    it('verifies a revealed seed against its commitment', () => {
+      const hash = hashDealSeed(SEED);
+      expect(verifyDealSeed(SEED, hash)).toBe(true);
+      expect(verifyDealSeed(SEED, hash.toUpperCase())).toBe(true);
+      expect(verifyDealSeed(createDealSeed(), hash)).toBe(false);
+    });
+  });
+
+  describe('dealing', () => {
+    it('is reproducible per seed and deal number', () => {
+      expect(ids(shuffleDeckWithSeed(SEED, 1))).toEqual(ids(shuffleDeckWithSeed(SEED, 1)));
+      expect(ids(shuffleDeckWithSeed(SEED, 1))).not.toEqual(ids(shuffleDeckWithSeed(SEED, 2)));
+      expect(ids(shuffleDeckWithSeed(SEED, 1))).not.toEqual(
+        ids(shuffleDeckWithSeed(createDealSeed(), 1))
+      );
+    });
+
+    it('deals every card exactly once', () => {
+      const hands = dealSeededHands(SEED, 3);
+      expect(hands).toHaveLength(4);
+      hands.forEach(hand => expect(hand).toHaveLength(13));
+      expect(new Set(hands.flat().map(card => card.id)).size).toBe(52);
+      expect(
+        hands
+          .flat()
+          .map(card => card.id)
+          .sort()
+      ).toEqual(ids(createOrderedDeck()).sort());
+    });
+
+    it('rotates seats for duplicate tables', () => {
+      const base = dealSeededHands(SEED, 1);
+      const rotated = dealSeededHands(SEED, 1, 1);
+      for (let seat = 0; seat < 4; seat++) {
+        expect(ids(rotated[seat])).toEqual(ids(base[getDealtHandIndex(seat, 1)]));
+      }
+      expect(ids(rotated[3])).toEqual(ids(base[0]));
+    });
+
+    it('uses the same deck order as the SQL dealer', () => {
+      const migration = fs.readFileSync(
+        path.resolve(__dirname, '../../../supabase/migrations/20260801000003_seeded_deals.sql'),
+        'utf8'
+      );
+      const body = migration.slice(migration.indexOf('FUNCTION deal_seeded_deck'));
+      const sqlDeck = body
+        .slice(body.indexOf('ARRAY[') + 6, body.indexOf('];'))
+        .match(/'([DCHS])(\w+)'/g)!
+        .map(code => code.slice(2, -1) + code[1]);
+      expect(sqlDeck).toEqual(ids(createOrderedDeck()));
+    });
+  });
+
+  describe('compareDuplicateResults', () => {
+    it('compares seats that held the same hands', () => {
+      // Table 1 is rotated by one seat: its seat 3 holds table 0's seat-0 hand
+      const results = compareDuplicateResults([
+        { tableIndex: 0, matchScores: [[0, 10, 20, 30]] },
+        { tableIndex: 1, matchScores: [[12, 18, 40, 4]] },
+      ]);
+      const seat = (tableIndex: number, s: number) =>
+        results.find(r => r.tableIndex === tableIndex && r.seat === s)!;
+
+      expect(seat(0, 0)).toMatchObject({ total: 0, par: 2, delta: -2, matchesCompared: 1 });
+      expect(seat(1, 3)).toMatchObject({ total: 4, par: 2, delta: 2 });
+      expect(seat(0, 1)).toMatchObject({ par: 11, delta: -1 });
+      expect(seat(1, 0)).toMatchObject({ par: 11, delta: 1 });
+      expect(results[0].delta).toBeLessThanOrEqual(results[results.length - 1].delta);
+      expect(results.reduce((sum, r) => sum + r.delta, 0)).toBeCloseTo(0);
+    });
+
+    it('only compares matches played at two or more tables', () => {
+      const results = compareDuplicateResults([
+        {
+          tableIndex: 0,
+          matchScores: [
+            [1, 2, 3, 4],
+            [5, 5, 5, 5],
+          ],
+        },
+        { tableIndex: 2, matchScores: [[3, 4, 1, 2]] },
+      ]);
+      results.forEach(result => {
+        expect(result.matchesCompared).toBe(1);
+        expect(result.delta).toBe(0);
+      });
+    });
+  });
+
+  describe('GameStateManager', () => {
+    let manager: GameStateManager;
+
+    beforeEach(() => {
+      (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      manager = new GameStateManager();
+    });
+
+    afterEach(() => {
+      manager.destroy();
+    });
+
+    it('deals from a fresh seed and publishes its hash', async () => {
+      const state = await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+      });
+      expect(isDealSeed(state.dealSeed)).toBe(true);
+      expect(state.dealSeedHash).toBe(hashDealSeed(state.dealSeed!));
+      const dealt = dealSeededHands(state.dealSeed!, 1);
+      state.players.forEach((player, seat) => {
+        expect(ids(player.hand).sort()).toEqual(ids(dealt[seat]).sort());
+      });
+    });
+
+    it('replays the same deal from a rotated seat', async () => {
+      const state = await manager.initializeGame({
+        playerName: 'Tester',
+        botCount: 3,
+        botDifficulty: 'easy',
+        dealSeed: SEED,
+        seatRotation: 2,
+      });
+      expect(state.seatRotation).toBe(2);
+      expect(ids(state.players[0].hand).sort()).toEqual(ids(dealSeededHands(SEED, 1)[2]).sort());
+    });
+  });
+});
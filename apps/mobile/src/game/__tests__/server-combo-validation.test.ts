@@ -2,9 +2,9 @@
  * Server-side Combo Validation Tests
  *
  * Task 673 / 17.5: Validates the play-cards edge function logic by testing
- * the client-side classifyCards and canBeatPlay functions that mirror the
- * server-side validation. Since the edge function duplicates game-logic.ts,
- * these tests verify both client and (by proxy) server correctness.
+ * classifyCards and canBeatPlay. The edge function imports these from the
+ * shared rules module that game-logic.ts re-exports (see
+ * rules-conformance.test.ts), so these tests cover client and server alike.
  *
  * Edge cases covered:
  *   - Invalid combo rejection (random 4 cards, random 5 cards)
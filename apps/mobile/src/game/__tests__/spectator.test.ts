@@ -0,0 +1,48 @@
+/**
+ * Spectator settings — rooms.settings.spectators as read by the lobby and
+ * bounded like set_room_spectator_settings.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_SPECTATOR_SETTINGS,
+  MAX_SPECTATOR_REVEAL_DELAY_SECONDS,
+  MIN_SPECTATOR_REVEAL_DELAY_SECONDS,
+  SPECTATOR_REVEAL_DELAY_OPTIONS,
+  isSpectatorRevealDelay,
+  normalizeSpectatorSettings,
+} from '../engine';
+
+describe('Spectator settings', () => {
+  it('allows spectators with hidden hands by default', () => {
+    expect(normalizeSpectatorSettings(undefined)).toBe(DEFAULT_SPECTATOR_SETTINGS);
+    expect(normalizeSpectatorSettings({})).toBe(DEFAULT_SPECTATOR_SETTINGS);
+    expect(DEFAULT_SPECTATOR_SETTINGS).toEqual({
+      allowSpectators: true,
+      revealDelaySeconds: null,
+    });
+  });
+
+  it('keeps a valid reveal delay and refusal of spectators', () => {
+    expect(normalizeSpectatorSettings({ allowSpectators: true, revealDelaySeconds: 60 })).toEqual({
+      allowSpectators: true,
+      revealDelaySeconds: 60,
+    });
+    expect(normalizeSpectatorSettings({ allowSpectators: false })).toEqual({
+      allowSpectators: false,
+      revealDelaySeconds: null,
+    });
+  });
+
+  it('drops reveal delays the database would refuse', () => {
+    for (const revealDelaySeconds of [0, 10, 29, 601, 45.5, '60', null]) {
+      expect(normalizeSpectatorSettings({ revealDelaySeconds }).revealDelaySeconds).toBeNull();
+    }
+  });
+
+  it('offers only delays within the bounds', () => {
+    expect(SPECTATOR_REVEAL_DELAY_OPTIONS.every(isSpectatorRevealDelay)).toBe(true);
+    expect(isSpectatorRevealDelay(MIN_SPECTATOR_REVEAL_DELAY_SECONDS)).toBe(true);
+    expect(isSpectatorRevealDelay(MAX_SPECTATOR_REVEAL_DELAY_SECONDS)).toBe(true);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Tournament rounds — the advance-tournament schedule run against an
+ * in-memory database: a round is claimed only once every table of it has a
+ * room, and a run that fails partway through is completed by the next one.
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  advanceRunningTournament,
+  startTournament,
+  type TournamentRow,
+} from '../../../supabase/functions/_shared/tournamentRounds';
+
+type Row = Record<string, unknown>;
+type Result = { data: unknown; error: { message: string; code?: string } | null };
+
+/**
+ * Just enough of the Supabase query builder for tournamentRounds: filters
+ * (eq / not is null / in), select, insert, update, delete and single, with
+ * UNIQUE (tournament_id, round, table_number) on tournament_tables.
+ */
+class FakeDatabase {
+  tables: Record<string, Row[]> = {
+    tournaments: [],
+    tournament_entries: [],
+    tournament_tables: [],
+    rooms: [],
+    room_players: [],
+  };
+  /** Room inserts to fail, by 1-based attempt number */
+  failRoomInserts = new Set<number>();
+  roomInserts = 0;
+  private nextId = 1;
+
+  rpc = jest.fn(async (name: string): Promise<Result> => {
+    if (name !== 'generate_room_code_v2') return { data: null, error: { message: name } };
+    return { data: `CODE${this.nextId++}`, error: null };
+  });
+
+  functions = { invoke: jest.fn(async () => ({ data: null, error: null })) };
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  insert(table: string, row: Row): Result {
+    if (table === 'rooms') {
+      this.roomInserts++;
+      if (this.failRoomInserts.has(this.roomInserts)) {
+        return { data: null, error: { message: 'connection reset' } };
+      }
+    }
+    if (
+      table === 'tournament_tables' &&
+      this.tables[table].some(
+        existing =>
+          existing.tournament_id === row.tournament_id &&
+          existing.round === row.round &&
+          existing.table_number === row.table_number
+      )
+    ) {
+      return { data: null, error: { message: 'duplicate key', code: '23505' } };
+    }
+    const stored = { id: `${table}-${this.nextId++}`, status: 'waiting', positions: null, ...row };
+    this.tables[table].push(stored);
+    return { data: [stored], error: null };
+  }
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private payload: Row | null = null;
+  private returning = false;
+  private singleRow = false;
+
+  constructor(
+    private db: FakeDatabase,
+    private table: string
+  ) {}
+
+  select(): this {
+    this.returning = this.action !== 'select';
+    return this;
+  }
+  insert(row: Row): this {
+    this.action = 'insert';
+    this.payload = row;
+    return this;
+  }
+  update(values: Row): this {
+    this.action = 'update';
+    this.payload = values;
+    return this;
+  }
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+  not(column: string): this {
+    this.filters.push(row => row[column] !== null && row[column] !== undefined);
+    return this;
+  }
+  single(): this {
+    this.singleRow = true;
+    return this;
+  }
+
+  private run(): Result {
+    const rows = this.db.tables[this.table];
+    const matches = rows.filter(row => this.filters.every(filter => filter(row)));
+    let data: Row[] | null = matches;
+    if (this.action === 'insert') {
+      const inserted = this.db.insert(this.table, this.payload!);
+      if (inserted.error) return inserted;
+      data = inserted.data as Row[];
+    } else if (this.action === 'update') {
+      for (const row of matches) Object.assign(row, this.payload);
+      if (!this.returning) data = null;
+    } else if (this.action === 'delete') {
+      this.db.tables[this.table] = rows.filter(row => !matches.includes(row));
+      data = null;
+    }
+    return { data: this.singleRow ? (data?.[0] ?? null) : data, error: null };
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+  }
+}
+
+const TOURNAMENT_ID = 't1';
+
+function tournamentRow(db: FakeDatabase): TournamentRow {
+  return { ...(db.tables.tournaments[0] as unknown as TournamentRow) };
+}
+
+/** Twelve entrants: three tables of four in round 1 */
+function seedDatabase(db: FakeDatabase): void {
+  db.tables.tournaments.push({
+    id: TOURNAMENT_ID,
+    name: 'Friday Cup',
+    format: 'swiss',
+    status: 'registration',
+    round_count: null,
+    current_round: 0,
+    registration_closes_at: '2026-10-01T00:00:00Z',
+    check_in_minutes: 10,
+    bot_difficulty: 'hard',
+  });
+  for (let i = 1; i <= 12; i++) {
+    db.tables.tournament_entries.push({
+      tournament_id: TOURNAMENT_ID,
+      user_id: `p${i}`,
+      elo_rating: 1500 - i * 10,
+      registered_at: `2026-09-01T00:00:${String(i).padStart(2, '0')}Z`,
+      seed: null,
+    });
+  }
+}
+
+function roundTables(db: FakeDatabase, round: number): Row[] {
+  return db.tables.tournament_tables.filter(table => table.round === round);
+}
+
+describe('advance-tournament rounds', () => {
+  let db: FakeDatabase;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    db = new FakeDatabase();
+    seedDatabase(db);
+  });
+
+  it('starts the tournament once every round 1 table has a room', async () => {
+    await expect(startTournament(db, tournamentRow(db))).resolves.toBe('started with 12 entrants');
+
+    const tables = roundTables(db, 1);
+    expect(tables.map(table => table.table_number)).toEqual([1, 2, 3]);
+    expect(tables.every(table => table.room_id)).toBe(true);
+    expect(db.tables.tournaments[0]).toMatchObject({ status: 'running', current_round: 1 });
+    expect(db.functions.invoke).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not claim round 1 when a room fails partway, and the next run completes it', async () => {
+    db.failRoomInserts.add(2);
+
+    await expect(startTournament(db, tournamentRow(db))).rejects.toThrow('Failed to create room');
+    expect(db.tables.tournaments[0]).toMatchObject({ status: 'registration', current_round: 0 });
+    expect(roundTables(db, 1).map(table => table.table_number)).toEqual([1]);
+
+    await expect(startTournament(db, tournamentRow(db))).resolves.toBe('started with 12 entrants');
+
+    const tables = roundTables(db, 1);
+    expect(tables.map(table => table.table_number).sort()).toEqual([1, 2, 3]);
+    // Nobody is seated twice, and table 1 kept its room and its players
+    expect(tables.flatMap(table => table.player_ids as string[]).sort()).toEqual(
+      Array.from({ length: 12 }, (_, i) => `p${i + 1}`).sort()
+    );
+    expect(db.tables.rooms).toHaveLength(3);
+    expect(db.tables.tournaments[0]).toMatchObject({ status: 'running', current_round: 1 });
+    // Table 1's players were told once
+    expect(db.functions.invoke).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not claim the next round when a room fails partway, and the next run completes it', async () => {
+    await startTournament(db, tournamentRow(db));
+    for (const table of roundTables(db, 1)) {
+      const players = table.player_ids as string[];
+      table.status = 'finished';
+      table.positions = Object.fromEntries(players.map((userId, index) => [userId, index + 1]));
+    }
+
+    db.failRoomInserts.add(db.roomInserts + 3);
+    await expect(advanceRunningTournament(db, tournamentRow(db))).rejects.toThrow(
+      'Failed to create room'
+    );
+    expect(db.tables.tournaments[0]).toMatchObject({ status: 'running', current_round: 1 });
+    expect(roundTables(db, 2)).toHaveLength(2);
+    // Standings are written only with the claim
+    expect(db.tables.tournament_entries.every(entry => entry.points === undefined)).toBe(true);
+
+    await expect(advanceRunningTournament(db, tournamentRow(db))).resolves.toBe('round 2 drawn');
+    expect(
+      roundTables(db, 2)
+        .map(table => table.table_number)
+        .sort()
+    ).toEqual([1, 2, 3]);
+    expect(db.tables.tournaments[0]).toMatchObject({ status: 'running', current_round: 2 });
+    expect(db.tables.tournament_entries.every(entry => typeof entry.points === 'number')).toBe(
+      true
+    );
+  });
+
+  it('lets only one of two overlapping runs claim the round', async () => {
+    const [first, second] = await Promise.all([
+      startTournament(db, tournamentRow(db)),
+      startTournament(db, tournamentRow(db)),
+    ]);
+
+    expect([first, second].sort()).toEqual(['already started', 'started with 12 entrants']);
+    expect(roundTables(db, 1)).toHaveLength(3);
+    // The loser's duplicate rooms were removed
+    expect(db.tables.rooms).toHaveLength(3);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tournaments — seeding, table draws, round counts and standings shared by
+ * the advance-tournament Edge Function and the bracket screen.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  computeTournamentStandings,
+  drawTournamentTables,
+  getAdvancingPlayers,
+  getNextRoundPlayers,
+  getTournamentRoundCount,
+  isTournamentFormat,
+  seedTournamentEntrants,
+  type TournamentEntrant,
+  type TournamentTableResult,
+} from '../engine';
+
+const players = (n: number) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+const entrants = (n: number): TournamentEntrant[] =>
+  players(n).map((userId, index) => ({ userId, seed: index + 1 }));
+
+function table(round: number, order: string[], absent: string[] = []): TournamentTableResult {
+  return {
+    round,
+    players: [...order, ...absent],
+    positions: Object.fromEntries(order.map((userId, index) => [userId, index + 1])),
+  };
+}
+
+describe('Tournament seeding and draws', () => {
+  it('recognises the formats', () => {
+    expect(isTournamentFormat('swiss')).toBe(true);
+    expect(isTournamentFormat('single-elimination')).toBe(true);
+    expect(isTournamentFormat('round-robin')).toBe(false);
+  });
+
+  it('seeds by rating, then registration time', () => {
+    const seeded = seedTournamentEntrants([
+      { userId: 'a', rating: 1000, registeredAt: '2026-08-01T10:00:00Z' },
+      { userId: 'b', rating: 1200, registeredAt: '2026-08-01T11:00:00Z' },
+      { userId: 'c', rating: 1000, registeredAt: '2026-08-01T09:00:00Z' },
+    ]);
+    expect(seeded).toEqual([
+      { userId: 'b', seed: 1 },
+      { userId: 'c', seed: 2 },
+      { userId: 'a', seed: 3 },
+    ]);
+  });
+
+  it('spreads the top seeds with a snake draw', () => {
+    expect(drawTournamentTables(players(8), true)).toEqual([
+      ['p1', 'p4', 'p5', 'p8'],
+      ['p2', 'p3', 'p6', 'p7'],
+    ]);
+  });
+
+  it('seats neighbours in the standings together otherwise', () => {
+    expect(drawTournamentTables(players(7), false)).toEqual([
+      ['p1', 'p2', 'p3', 'p4'],
+      ['p5', 'p6', 'p7'],
+    ]);
+  });
+
+  it('balances table sizes', () => {
+    const sizes = drawTournamentTables(players(13), true).map(t => t.length);
+    expect(sizes).toEqual([3, 3, 3, 4]);
+    expect(drawTournamentTables(players(5), false).map(t => t.length)).toEqual([3, 2]);
+  });
+
+  it('counts rounds for each format', () => {
+    expect(getTournamentRoundCount('swiss', 2)).toBe(1);
+    expect(getTournamentRoundCount('swiss', 16)).toBe(4);
+    expect(getTournamentRoundCount('swiss', 20)).toBe(5);
+    expect(getTournamentRoundCount('single-elimination', 4)).toBe(1);
+    // 16 → 8 → 4 (final)
+    expect(getTournamentRoundCount('single-elimination', 16)).toBe(3);
+    // 64 → 32 → 16 → 8 → 4
+    expect(getTournamentRoundCount('single-elimination', 64)).toBe(5);
+  });
+});
+
+describe('Tournament standings', () => {
+  it('ranks Swiss players by points, wins and seed', () => {
+    const results = [
+      table(1, ['p4', 'p1', 'p5', 'p8']),
+      table(1, ['p2', 'p6', 'p3', 'p7']),
+      table(2, ['p1', 'p2', 'p4', 'p6']),
+      table(2, ['p3', 'p5', 'p7', 'p8']),
+    ];
+    const standings = computeTournamentStandings('swiss', entrants(8), results, 2);
+    // p1 and p2 on 5 points with a win each, then p3 and p4 on 4: ties go to the seed
+    expect(standings.map(s => s.userId)).toEqual(['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7', 'p8']);
+    const p1 = standings.find(s => s.userId === 'p1')!;
+    expect(p1).toMatchObject({ rank: 1, points: 5, wins: 1, tablesPlayed: 2 });
+    expect(standings[1]).toMatchObject({ userId: 'p2', points: 5, wins: 1 });
+    expect(standings.every(s => s.eliminatedRound === null)).toBe(true);
+  });
+
+  it('places no-shows last with no points', () => {
+    const standings = computeTournamentStandings(
+      'swiss',
+      entrants(4),
+      [table(1, ['p3', 'p4'], ['p1', 'p2'])],
+      1
+    );
+    expect(standings.map(s => s.userId)).toEqual(['p3', 'p4', 'p1', 'p2']);
+    expect(standings[2]).toMatchObject({ points: 0, tablesPlayed: 0 });
+  });
+
+  it('advances the top half of each single-elimination table', () => {
+    const first = table(1, ['p5', 'p1', 'p8', 'p4']);
+    expect(getAdvancingPlayers(first, entrants(8))).toEqual(['p5', 'p1']);
+    // A no-show never goes through, even from the top half by seed
+    expect(getAdvancingPlayers(table(1, ['p6'], ['p2', 'p3']), entrants(8))).toEqual(['p6']);
+  });
+
+  it('draws the next single-elimination round by seed', () => {
+    const results = [table(1, ['p5', 'p1', 'p8', 'p4']), table(1, ['p7', 'p2', 'p3', 'p6'])];
+    expect(getNextRoundPlayers('single-elimination', entrants(8), results, 1)).toEqual([
+      'p1',
+      'p2',
+      'p5',
+      'p7',
+    ]);
+    // Swiss keeps the whole field, in standings order
+    expect(getNextRoundPlayers('swiss', entrants(8), results, 1).slice(0, 2)).toEqual(['p5', 'p7']);
+  });
+
+  it('ranks single elimination by the round reached, then the final', () => {
+    const results = [
+      table(1, ['p5', 'p1', 'p8', 'p4']),
+      table(1, ['p7', 'p2', 'p3', 'p6']),
+      table(2, ['p2', 'p7', 'p1', 'p5']),
+    ];
+    const standings = computeTournamentStandings('single-elimination', entrants(8), results, 2);
+    expect(standings.slice(0, 4).map(s => s.userId)).toEqual(['p2', 'p7', 'p1', 'p5']);
+    expect(standings.slice(0, 4).every(s => s.eliminatedRound === null)).toBe(true);
+    // Knocked out in round 1: third places before fourth places
+    expect(standings.slice(4).map(s => s.userId)).toEqual(['p3', 'p8', 'p4', 'p6']);
+    expect(standings.slice(4).every(s => s.eliminatedRound === 1)).toBe(true);
+  });
+});
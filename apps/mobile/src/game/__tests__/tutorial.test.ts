@@ -0,0 +1,165 @@
+/**
+ * Interactive tutorial — explainPlay / explainPass name the rule a move
+ * breaks, and every lesson's moves are accepted by GameStateManager, which
+ * keeps a practice game in memory only.
+ */
+
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: { playSound: jest.fn(() => Promise.resolve()) },
+  SoundType: { HIGHEST_CARD: 'HIGHEST_CARD' },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  gameLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+  statsLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GameStateManager } from '../state';
+import {
+  TUTORIAL_LESSONS,
+  cardsFromIds,
+  explainPass,
+  explainPlay,
+  getPracticeContext,
+  isLessonMove,
+  scriptedLastPlay,
+  type PracticeContext,
+} from '../tutorial';
+
+function context(
+  hand: string[],
+  lastPlay: string[] | null,
+  overrides: Partial<PracticeContext> = {}
+): PracticeContext {
+  return {
+    hand: cardsFromIds(hand),
+    lastPlay: lastPlay ? scriptedLastPlay(lastPlay, 1) : null,
+    isFirstPlayOfGame: false,
+    nextPlayerCardCount: 5,
+    ...overrides,
+  };
+}
+
+describe('explainPlay', () => {
+  it('accepts a legal play with its combination', () => {
+    const result = explainPlay(cardsFromIds(['7C', '7S']), context(['7C', '7S'], ['6D', '6C']));
+    expect(result).toEqual({ legal: true, combo: 'Pair' });
+  });
+
+  it('names the first rule an illegal play breaks', () => {
+    expect(
+      explainPlay(cardsFromIds(['5H']), context(['3D', '5H'], null, { isFirstPlayOfGame: true }))
+    ).toEqual({ legal: false, reason: 'missing-opening-card', openingCardId: '3D' });
+    expect(explainPlay(cardsFromIds(['7C', '8H']), context(['7C', '8H'], ['6D', '6C']))).toEqual({
+      legal: false,
+      reason: 'not-a-combo',
+    });
+    expect(explainPlay(cardsFromIds(['KD']), context(['KD'], ['6D', '6C']))).toEqual({
+      legal: false,
+      reason: 'wrong-card-count',
+      required: 2,
+    });
+    expect(explainPlay(cardsFromIds(['9D']), context(['9D', '9H'], ['9C']))).toEqual({
+      legal: false,
+      reason: 'too-low',
+      combo: 'Single',
+      lastCombo: 'Single',
+    });
+    expect(
+      explainPlay(cardsFromIds(['4C']), context(['4C', 'KS'], null, { nextPlayerCardCount: 1 }))
+    ).toMatchObject({ legal: false, reason: 'one-card-left', requiredCard: { id: 'KS' } });
+  });
+});
+
+describe('explainPass', () => {
+  it('refuses to pass on the lead or while a single must be played', () => {
+    expect(explainPass(context(['5C'], null))).toEqual({ legal: false, reason: 'leading' });
+    expect(explainPass(context(['5C', 'AH'], ['KD'], { nextPlayerCardCount: 1 }))).toMatchObject({
+      legal: false,
+      reason: 'one-card-left',
+      requiredCard: { id: 'AH' },
+    });
+    expect(explainPass(context(['5C', 'AH'], ['2S'], { nextPlayerCardCount: 1 }))).toEqual({
+      legal: true,
+    });
+  });
+});
+
+describe('tutorial lessons', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each(TUTORIAL_LESSONS.map(lesson => [lesson.id, lesson] as const))(
+    '%s is completed by the move it teaches',
+    async (_id, lesson) => {
+      const manager = new GameStateManager(null);
+      const start = () =>
+        manager.initializeGame({
+          playerName: 'Ada',
+          botCount: 1,
+          botDifficulty: 'easy',
+          startPosition: lesson.position,
+        });
+      const practice = getPracticeContext(await start());
+
+      // A single the lesson does not teach is refused for the reason given
+      for (const card of practice.hand) {
+        if (isLessonMove(lesson, [card.id])) continue;
+        const explanation = explainPlay([card], practice);
+        const result = await manager.playCards([card.id]);
+        expect(result.success).toBe(explanation.legal);
+        if (result.success) break;
+      }
+
+      for (const move of lesson.accepts) {
+        await start();
+        if (move === 'pass') {
+          expect(explainPass(practice)).toEqual({ legal: true });
+          await expect(manager.pass()).resolves.toEqual({ success: true });
+        } else {
+          expect(explainPlay(cardsFromIds(move), practice)).toMatchObject({ legal: true });
+          await expect(manager.playCards([...move])).resolves.toEqual({ success: true });
+        }
+      }
+      manager.destroy();
+    }
+  );
+
+  it('keeps a practice game out of storage', async () => {
+    const manager = new GameStateManager(null);
+    const [lesson] = TUTORIAL_LESSONS;
+    await manager.initializeGame({
+      playerName: 'Ada',
+      botCount: 1,
+      botDifficulty: 'easy',
+      startPosition: lesson.position,
+    });
+    await expect(manager.playCards(['3D'])).resolves.toEqual({ success: true });
+    await expect(manager.loadState()).resolves.toBeNull();
+    await manager.clearState();
+    manager.destroy();
+
+    expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+    expect(AsyncStorage.getItem).not.toHaveBeenCalled();
+    expect(AsyncStorage.removeItem).not.toHaveBeenCalled();
+  });
+
+  it('matches lesson moves in any card order', () => {
+    const pairs = TUTORIAL_LESSONS.find(lesson => lesson.id === 'pairs')!;
+    expect(isLessonMove(pairs, ['7S', '7C'])).toBe(true);
+    expect(isLessonMove(pairs, ['7S'])).toBe(false);
+    expect(isLessonMove(pairs, 'pass')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Take-backs in local games — the undo stack rewinds the human's last move and
+ * the bots' turns since, within the game's limit, and a game that used one is
+ * not recorded in the stats.
+ */
+
+jest.mock('../../utils/soundManager', () => ({
+  soundManager: { playSound: jest.fn(() => Promise.resolve()) },
+  SoundType: { HIGHEST_CARD: 'HIGHEST_CARD' },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  gameLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+  statsLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../../services/supabase';
+import { GameStateManager, type GameState } from '../state';
+import { saveSlotKeys } from '../save-slots';
+import type { GameRecordPosition } from '../engine/game-record';
+import type { Card } from '../types';
+
+const card = (id: string): Card => ({ id, rank: id.slice(0, -1), suit: id.slice(-1) }) as Card;
+
+/** Heads-up, the human to lead with the 3♦ and the 2♠ against two clubs */
+const position: GameRecordPosition = {
+  matchNumber: 1,
+  hands: [
+    [card('3D'), card('2S')],
+    [card('4C'), card('5C')],
+  ],
+  currentSeat: 0,
+  lastPlay: null,
+  consecutivePasses: 0,
+  playedCards: [],
+  isFirstPlayOfGame: false,
+};
+
+const storage = new Map<string, string>();
+let manager: GameStateManager;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  storage.clear();
+  (AsyncStorage.getItem as jest.Mock).mockImplementation(
+    async (key: string) => storage.get(key) ?? null
+  );
+  (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+    storage.set(key, value);
+  });
+  (AsyncStorage.removeItem as jest.Mock).mockImplementation(async (key: string) => {
+    storage.delete(key);
+  });
+  manager = new GameStateManager('undo');
+});
+
+afterEach(() => {
+  manager.destroy();
+});
+
+function start(undoLimit?: number): Promise<GameState> {
+  return manager.initializeGame({
+    playerName: 'Ada',
+    botCount: 1,
+    botDifficulty: 'easy',
+    startPosition: position,
+    undoLimit,
+  });
+}
+
+/** The human leads the 3♦ and the bot answers */
+async function playThreeOfDiamonds() {
+  await expect(manager.playCards(['3D'])).resolves.toEqual({ success: true });
+  await manager.executeBotTurn();
+  expect(manager.getState()?.currentPlayerIndex).toBe(0);
+}
+
+describe('GameStateManager undo', () => {
+  it('takes back a play and the bot turn after it', async () => {
+    const before = await start(3);
+    expect(manager.getUndoStatus()).toEqual({ canUndo: false, remaining: 3 });
+
+    await playThreeOfDiamonds();
+    expect(manager.getUndoStatus()).toEqual({ canUndo: true, remaining: 3 });
+
+    await expect(manager.undo()).resolves.toEqual({ success: true });
+    const state = manager.getState()!;
+    expect(state.players.map(player => player.hand.map(c => c.id))).toEqual([
+      ['3D', '2S'],
+      ['4C', '5C'],
+    ]);
+    expect(state.roundHistory).toEqual([]);
+    expect(state.lastPlay).toBeNull();
+    expect(state.undosUsed).toBe(1);
+    expect(state.ruleSet).toBe(before.ruleSet);
+    expect(manager.getUndoStatus()).toEqual({ canUndo: false, remaining: 2 });
+    expect(JSON.parse(storage.get(saveSlotKeys('undo').state)!).undosUsed).toBe(1);
+  });
+
+  it('is off unless the game allows take-backs', async () => {
+    await start();
+    await playThreeOfDiamonds();
+
+    expect(manager.getUndoStatus()).toEqual({ canUndo: false, remaining: 0 });
+    await expect(manager.undo()).resolves.toEqual({
+      success: false,
+      error: 'Nothing to undo',
+    });
+  });
+
+  it('stops at the game limit', async () => {
+    await start(1);
+    await playThreeOfDiamonds();
+    await manager.undo();
+    await playThreeOfDiamonds();
+
+    expect(manager.getUndoStatus()).toEqual({ canUndo: false, remaining: 0 });
+    await expect(manager.undo()).resolves.toMatchObject({ success: false });
+    expect(manager.getState()?.players[0].hand).toHaveLength(1);
+  });
+
+  it('leaves a game with take-backs out of the stats, also after a reload', async () => {
+    // One match from the end: the bot's first point ends the game
+    async function finishGame(undo: boolean) {
+      await start(3);
+      if (undo) {
+        await playThreeOfDiamonds();
+        await manager.undo();
+      }
+      const saved = JSON.parse(storage.get(saveSlotKeys('undo').state)!);
+      saved.matchScores[1].score = 100;
+      storage.set(saveSlotKeys('undo').state, JSON.stringify(saved));
+      manager.destroy();
+      manager = new GameStateManager('undo');
+      await manager.loadState();
+
+      await playThreeOfDiamonds();
+      await manager.playCards(['2S']);
+      expect(manager.getState()?.gameOver).toBe(true);
+    }
+
+    await finishGame(true);
+    expect(supabase.auth.getUser).not.toHaveBeenCalled();
+
+    await finishGame(false);
+    expect(supabase.auth.getUser).toHaveBeenCalled();
+  });
+});
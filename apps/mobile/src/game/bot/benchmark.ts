@@ -0,0 +1,244 @@
+/**
+ * Self-play bot benchmark
+ *
+ * Plays one bot tier (the challenger) against three copies of another tier
+ * on seeded deals and reports how often the challenger goes out first. Each
+ * deal is played four times, with the challenger in every seat, so no tier
+ * profits from a lucky hand; an even match-up wins 25% of the games.
+ *
+ * Every move is checked against the rules engine, so the benchmark doubles as
+ * a legality check of the bots, and the challenger's thinking time is
+ * measured to keep the expert within its per-move budget.
+ *
+ * @module benchmark
+ */
+
+import {
+  classifyCards,
+  canBeatPlay,
+  isOpeningCard,
+  dealSeededHands,
+  STANDARD_RULE_SET,
+  type Card,
+  type ComboType,
+  type LastPlay,
+  type RuleSet,
+} from '../engine';
+import type { PassObservation } from './expert';
+import { createBotAI, type BotAI, type BotDifficulty } from './index';
+
+const PLAYER_COUNT = 4;
+/** A match never needs this many moves; guards against a bot loop */
+const MAX_MOVES = 400;
+
+/** A bot tier, or a configured bot such as a learned one (createLearnedBotAI) */
+export type BenchmarkBot = BotDifficulty | BotAI;
+
+export interface BotBenchmarkOptions {
+  challenger: BenchmarkBot;
+  opponent: BenchmarkBot;
+  /** Number of seeded deals; each is played once per challenger seat */
+  deals: number;
+  /** Deal seed (32 hex characters, see createDealSeed) */
+  seed: string;
+  ruleSet?: RuleSet;
+  /** Expert thinking time per move */
+  timeBudgetMs?: number;
+}
+
+export interface BotBenchmarkResult {
+  /** Strategy of each side: a difficulty or 'learned' */
+  challenger: string;
+  opponent: string;
+  games: number;
+  wins: number;
+  /** Share of games the challenger went out first (0.25 = even) */
+  winRate: number;
+  /** Cards the challenger still held at the end, averaged over all games */
+  averageCardsLeft: number;
+  /** Challenger thinking time */
+  averageMoveMs: number;
+  slowestMoveMs: number;
+}
+
+export interface BotMatchOptions {
+  rules: RuleSet;
+  /** Next seat after each seat; defaults to clockwise 0→1→2→3 */
+  turnOrder?: readonly number[];
+  /** 1-based match number; only match 1 is opened with the opening card */
+  matchNumber?: number;
+  /** Seat that leads a later match (the previous match winner) */
+  leader?: number;
+  /** Expert thinking time per move */
+  timeBudgetMs?: number;
+  /** Called after every move; combo is null for a pass */
+  onMove?: (seat: number, ms: number, combo: ComboType | null) => void;
+}
+
+export interface BotMatchOutcome {
+  winner: number;
+  cardsLeft: number[];
+  /** Cards still held by each seat when the match ended */
+  hands: Card[][];
+  /** Plays and passes made */
+  moves: number;
+}
+
+/**
+ * Play one match to the end; seat s is played by bots[s]
+ *
+ * @throws Error when a bot makes an illegal move
+ */
+export function playBotMatch(
+  deal: Card[][],
+  bots: readonly BotAI[],
+  options: BotMatchOptions
+): BotMatchOutcome {
+  const { rules, matchNumber = 1, timeBudgetMs, onMove } = options;
+  const hands = deal.map(hand => [...hand]);
+  const turnOrder = options.turnOrder
+    ? [...options.turnOrder]
+    : hands.map((_, seat) => (seat + 1) % hands.length);
+  const playedCards: Card[] = [];
+  const passes: PassObservation[] = [];
+  let current =
+    matchNumber > 1 && options.leader !== undefined
+      ? options.leader
+      : hands.findIndex(hand => hand.some(card => isOpeningCard(card, rules)));
+  let lastPlay: LastPlay | null = null;
+
+  for (let move = 0; move < MAX_MOVES; move++) {
+    const hand = hands[current];
+    const toBeat = lastPlay && lastPlay.position !== current ? lastPlay : null;
+    const isFirstPlayOfGame = matchNumber === 1 && playedCards.length === 0;
+    const start = Date.now();
+    const { cards: cardIds } = bots[current].getPlay({
+      hand,
+      lastPlay: toBeat,
+      isFirstPlayOfGame,
+      matchNumber,
+      playerCardCounts: hands.map(cards => cards.length),
+      currentPlayerIndex: current,
+      nextPlayerIndex: turnOrder[current],
+      ruleSet: rules,
+      playedCards,
+      passes,
+      turnOrder,
+      timeBudgetMs,
+    });
+    const ms = Date.now() - start;
+
+    const describe = `${bots[current].strategy} bot in seat ${current}, move ${move + 1}`;
+    if (!cardIds) {
+      if (!toBeat) throw new Error(`${describe}: passed while leading`);
+      passes.push({ seat: current, play: toBeat.cards });
+      onMove?.(current, ms, null);
+    } else {
+      const cards = cardIds.map(id => hand.find(card => card.id === id));
+      if (cards.some(card => !card)) throw new Error(`${describe}: card not in hand`);
+      const played = cards as Card[];
+      const comboType = classifyCards(played, rules);
+      if (comboType === 'unknown') throw new Error(`${describe}: not a valid combination`);
+      if (toBeat && !canBeatPlay(played, toBeat, rules)) {
+        throw new Error(`${describe}: cannot beat last play`);
+      }
+      if (isFirstPlayOfGame && !played.some(card => isOpeningCard(card, rules))) {
+        throw new Error(`${describe}: opening play without the opening card`);
+      }
+
+      hands[current] = hand.filter(card => !cardIds.includes(card.id));
+      playedCards.push(...played);
+      onMove?.(current, ms, comboType);
+      if (hands[current].length === 0) {
+        return {
+          winner: current,
+          cardsLeft: hands.map(cards => cards.length),
+          hands,
+          moves: move + 1,
+        };
+      }
+      lastPlay = { position: current, cards: played, combo_type: comboType };
+    }
+    current = turnOrder[current];
+  }
+  throw new Error(`Match did not finish within ${MAX_MOVES} moves`);
+}
+
+/**
+ * Benchmark one bot tier against another
+ *
+ * @throws Error when a bot makes an illegal move
+ */
+export function runBotBenchmark(options: BotBenchmarkOptions): BotBenchmarkResult {
+  const { challenger, opponent, deals, seed, timeBudgetMs } = options;
+  const rules = options.ruleSet ?? STANDARD_RULE_SET;
+  const challengerBot = typeof challenger === 'string' ? createBotAI(challenger) : challenger;
+  const opponentBot = typeof opponent === 'string' ? createBotAI(opponent) : opponent;
+
+  let games = 0;
+  let wins = 0;
+  let cardsLeft = 0;
+  let moves = 0;
+  let thinkingMs = 0;
+  let slowestMoveMs = 0;
+
+  for (let dealNumber = 1; dealNumber <= deals; dealNumber++) {
+    const deal = dealSeededHands(seed, dealNumber);
+    for (let seat = 0; seat < PLAYER_COUNT; seat++) {
+      const bots = deal.map((_, s) => (s === seat ? challengerBot : opponentBot));
+      const outcome = playBotMatch(deal, bots, {
+        rules,
+        timeBudgetMs,
+        onMove: (mover, ms) => {
+          if (mover !== seat) return;
+          moves++;
+          thinkingMs += ms;
+          slowestMoveMs = Math.max(slowestMoveMs, ms);
+        },
+      });
+      games++;
+      if (outcome.winner === seat) wins++;
+      cardsLeft += outcome.cardsLeft[seat];
+    }
+  }
+
+  return {
+    challenger: challengerBot.strategy,
+    opponent: opponentBot.strategy,
+    games,
+    wins,
+    winRate: games === 0 ? 0 : wins / games,
+    averageCardsLeft: games === 0 ? 0 : cardsLeft / games,
+    averageMoveMs: moves === 0 ? 0 : thinkingMs / moves,
+    slowestMoveMs,
+  };
+}
+
+/**
+ * Benchmark a challenger against each of several tiers
+ */
+export function runBotBenchmarkSuite(
+  options: Omit<BotBenchmarkOptions, 'opponent'>,
+  opponents: BenchmarkBot[] = ['easy', 'medium', 'hard']
+): BotBenchmarkResult[] {
+  return opponents.map(opponent => runBotBenchmark({ ...options, opponent }));
+}
+
+/**
+ * Benchmark results as a plain-text table
+ */
+export function formatBotBenchmark(results: readonly BotBenchmarkResult[]): string {
+  const header = 'challenger  opponent  games  win rate  cards left  avg ms  max ms';
+  const rows = results.map(result =>
+    [
+      result.challenger.padEnd(10),
+      result.opponent.padEnd(8),
+      String(result.games).padStart(5),
+      `${(result.winRate * 100).toFixed(1)}%`.padStart(8),
+      result.averageCardsLeft.toFixed(2).padStart(10),
+      result.averageMoveMs.toFixed(1).padStart(6),
+      String(result.slowestMoveMs).padStart(6),
+    ].join('  ')
+  );
+  return [header, ...rows].join('\n');
+}
@@ -0,0 +1,19 @@
+/**
+ * Expert bot search — card counting, hand inference and Monte Carlo rollouts
+ *
+ * The implementation lives in supabase/functions/_shared/expertBot.ts, which
+ * the 'expert' tier of the server BotAI uses as well, so an expert bot plays
+ * the same search offline and in the bot-coordinator edge function.
+ *
+ * @module expert
+ */
+
+export {
+  DEFAULT_EXPERT_TIME_BUDGET_MS,
+  DEFAULT_EXPERT_MAX_SAMPLES,
+  passObservationsFromMoves,
+  searchExpertPlay,
+  type PassObservation,
+  type ExpertSearchOptions,
+  type ExpertSearchResult,
+} from '../../../supabase/functions/_shared/expertBot';
@@ -9,13 +9,40 @@ import {
   canBeatPlay,
   findRecommendedPlay,
   findHighestBeatingSingle,
+  isOpeningCard,
+  validateOneCardLeftRule,
+  canPassWithOneCardLeftRule,
+  STANDARD_RULE_SET,
+  type RuleSet,
   type Card,
   type LastPlay,
   type ComboType,
 } from '../engine';
 import { gameLogger } from '../../utils/logger';
+import { searchExpertPlay, type PassObservation } from './expert';
+import { extractPlayFeatures, scoreCandidate, type LearnedBotModel } from './learned';
+import { applyBotPersonality, type BotPersonality } from './personality';
 
-export type BotDifficulty = 'easy' | 'medium' | 'hard';
+export type BotDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+/**
+ * Local games' anticlockwise turn order by table size: index → next player.
+ * Seats sit [bottom, top, left, right] at four (0→3→1→2→0), [bottom, left,
+ * right] at three (0→2→1→0) and [bottom, top] at two.
+ */
+export const LOCAL_TURN_ORDERS: Readonly<Record<number, readonly number[]>> = {
+  2: [1, 0],
+  3: [2, 0, 1],
+  4: [3, 2, 0, 1],
+};
+
+/** Turn order of a local table (sequential for any other size) */
+export function getLocalTurnOrder(playerCount: number): readonly number[] {
+  return (
+    LOCAL_TURN_ORDERS[playerCount] ??
+    Array.from({ length: playerCount }, (_, seat) => (seat + 1) % playerCount)
+  );
+}
 
 export interface BotPlayOptions {
   hand: Card[];
@@ -26,6 +53,13 @@ export interface BotPlayOptions {
   currentPlayerIndex: number; // Index of the current bot player
   nextPlayerIndex?: number; // Pre-computed next player index (for multiplayer where turn order differs)
   difficulty?: BotDifficulty;
+  ruleSet?: RuleSet; // House rules (defaults to the standard rules)
+  personality?: BotPersonality; // Playing style on top of the difficulty (defaults to balanced)
+  // Expert only: card counting, hand inference and search
+  playedCards?: Card[]; // Every card played so far this match
+  passes?: PassObservation[]; // Opponents' passes this match
+  turnOrder?: readonly number[]; // Seat-indexed next seat (defaults to the local anticlockwise order)
+  timeBudgetMs?: number; // Thinking time per move
 }
 
 export interface BotPlayResult {
@@ -40,6 +74,13 @@ export interface BotPlayResult {
  * - Easy: Random valid plays, high pass rate
  * - Medium: Basic strategy with some mistakes
  * - Hard: Optimal play using game theory
+ * - Expert: Monte Carlo search over the possible opponent hands (see expert.ts)
+ *
+ * A personality (BotPlayOptions.personality) then adjusts the tier's choice to
+ * a playing style (see personality.ts).
+ *
+ * A bot created with a learned model (createLearnedBotAI) instead scores its
+ * candidate plays with weights trained from game_hands_training (see learned.ts).
  */
 export class BotAI {
   private readonly _difficulty: BotDifficulty;
@@ -47,9 +88,14 @@ export class BotAI {
    *  Capped at 256 entries (FIFO eviction) to bound memory in long sessions. */
   private _5cardCache = new Map<string, string[] | null>();
   private static readonly _CACHE_MAX = 256;
+  /** House rules for the current getPlay() call (bots are shared across games). */
+  private _rules: RuleSet = STANDARD_RULE_SET;
+  /** Trained weights; when set they replace the difficulty's heuristics */
+  private readonly _learnedModel: LearnedBotModel | null;
 
-  constructor(difficulty: BotDifficulty = 'medium') {
+  constructor(difficulty: BotDifficulty = 'medium', learnedModel: LearnedBotModel | null = null) {
     this._difficulty = difficulty;
+    this._learnedModel = learnedModel;
   }
 
   /** Read-only access to the bot's difficulty level. */
@@ -57,6 +103,45 @@ export class BotAI {
     return this._difficulty;
   }
 
+  /** How the bot decides: 'learned' for a learned model, otherwise its difficulty */
+  get strategy(): BotDifficulty | 'learned' {
+    return this._learnedModel ? 'learned' : this._difficulty;
+  }
+
+  /**
+   * Switch to the house rules of the current call (bots are shared across games)
+   */
+  private useRules(rules: RuleSet): void {
+    if (rules !== this._rules) {
+      // Cached combos were classified under the previous rules
+      this._5cardCache.clear();
+      this._rules = rules;
+    }
+  }
+
+  /**
+   * Every legal play from a hand (card IDs; a pass is not included): the
+   * plays that beat lastPlay, or every combination when leading. Honours the
+   * opening card and the one-card-left rule.
+   */
+  public getCandidatePlays(
+    options: Pick<BotPlayOptions, 'hand' | 'lastPlay' | 'isFirstPlayOfGame' | 'ruleSet'> & {
+      nextPlayerCardCount: number;
+    }
+  ): string[][] {
+    const { hand, lastPlay, isFirstPlayOfGame, nextPlayerCardCount } = options;
+    this.useRules(options.ruleSet ?? STANDARD_RULE_SET);
+    const sorted = sortHand(hand, this._rules);
+    const byId = new Map(sorted.map(c => [c.id, c] as const));
+    const plays = lastPlay ? this.findAllValidPlays(sorted, lastPlay) : this.findAllLeads(sorted);
+
+    return plays.filter(ids => {
+      const cards = ids.map(id => byId.get(id)!);
+      if (isFirstPlayOfGame && !cards.some(c => isOpeningCard(c, this._rules))) return false;
+      return validateOneCardLeftRule(cards, hand, nextPlayerCardCount, lastPlay, this._rules).valid;
+    });
+  }
+
   /**
    * Get the bot's play decision
    */
@@ -71,6 +156,8 @@ export class BotAI {
       nextPlayerIndex,
     } = options;
 
+    this.useRules(options.ruleSet ?? STANDARD_RULE_SET);
+
     if (hand.length === 0) {
       return { cards: null, reasoning: 'No cards in hand' };
     }
@@ -102,7 +189,48 @@ export class BotAI {
       }
       currentMatch = 1;
     }
-    if (isFirstPlayOfGame && currentMatch === 1) {
+    if (this._learnedModel) {
+      return this.handleLearned(
+        this._learnedModel,
+        options,
+        isFirstPlayOfGame && currentMatch === 1
+      );
+    }
+
+    const decision = this.decide(options, isFirstPlayOfGame && currentMatch === 1);
+    const personality = options.personality ?? 'balanced';
+    if (personality === 'balanced') {
+      return decision;
+    }
+    const opponentCounts = playerCardCounts.filter(
+      (count, index) => index !== currentPlayerIndex && count > 0
+    );
+    const nextPlayer =
+      nextPlayerIndex !== undefined
+        ? nextPlayerIndex
+        : this.findNextActivePlayer(currentPlayerIndex, playerCardCounts);
+    return applyBotPersonality(personality, decision, {
+      hand,
+      lastPlay,
+      minOpponentCards: opponentCounts.length > 0 ? Math.min(...opponentCounts) : 0,
+      nextPlayerCardCount: nextPlayer !== -1 ? playerCardCounts[nextPlayer] : 0,
+      isFirstPlayOfGame: isFirstPlayOfGame && currentMatch === 1,
+      validPlays: () =>
+        lastPlay ? this.findAllValidPlays(sortHand(hand, this._rules), lastPlay) : [],
+      rules: this._rules,
+    });
+  }
+
+  /**
+   * The difficulty tier's decision, before any personality
+   */
+  private decide(options: BotPlayOptions, isFirstPlayOfGame: boolean): BotPlayResult {
+    const { hand, lastPlay, playerCardCounts, currentPlayerIndex, nextPlayerIndex } = options;
+    if (this._difficulty === 'expert') {
+      return this.handleExpert(options, isFirstPlayOfGame);
+    }
+
+    if (isFirstPlayOfGame) {
       return this.handleFirstPlay(hand);
     }
 
@@ -121,12 +249,97 @@ export class BotAI {
     );
   }
 
+  /**
+   * Expert: search the position instead of following heuristics
+   */
+  private handleExpert(options: BotPlayOptions, isFirstPlayOfGame: boolean): BotPlayResult {
+    const playerCount = options.playerCardCounts.length;
+    const turnOrder =
+      options.turnOrder?.length === playerCount
+        ? options.turnOrder
+        : getLocalTurnOrder(playerCount);
+    const result = searchExpertPlay({
+      hand: options.hand,
+      lastPlay: options.lastPlay,
+      isFirstPlayOfGame,
+      playerCardCounts: options.playerCardCounts,
+      currentPlayerIndex: options.currentPlayerIndex,
+      turnOrder,
+      playedCards: options.playedCards ?? [],
+      passes: options.passes ?? [],
+      ruleSet: this._rules,
+      timeBudgetMs: options.timeBudgetMs,
+    });
+    return {
+      cards: result.cards,
+      reasoning: `[EXPERT] ${result.samples} sampled deals, expected ${result.expectedValue.toFixed(2)}`,
+    };
+  }
+
+  /**
+   * Learned model: score every candidate play and the pass, take the best
+   */
+  private handleLearned(
+    model: LearnedBotModel,
+    options: BotPlayOptions,
+    isFirstPlayOfGame: boolean
+  ): BotPlayResult {
+    const { hand, lastPlay, playerCardCounts, currentPlayerIndex, nextPlayerIndex } = options;
+    const nextPlayer =
+      nextPlayerIndex !== undefined
+        ? nextPlayerIndex
+        : this.findNextActivePlayer(currentPlayerIndex, playerCardCounts);
+    const nextPlayerCardCount = nextPlayer >= 0 ? playerCardCounts[nextPlayer] : 0;
+
+    const candidates: (string[] | null)[] = this.getCandidatePlays({
+      hand,
+      lastPlay,
+      isFirstPlayOfGame,
+      ruleSet: this._rules,
+      nextPlayerCardCount,
+    });
+    if (
+      lastPlay &&
+      canPassWithOneCardLeftRule(hand, nextPlayerCardCount, lastPlay, this._rules).canPass
+    ) {
+      candidates.push(null);
+    }
+    if (candidates.length === 0) {
+      return { cards: null, reasoning: '[LEARNED] No valid play' };
+    }
+
+    const position = {
+      hand,
+      lastPlay,
+      nextPlayerCardCount,
+      opponentCardCounts: playerCardCounts.filter(
+        (count, index) => index !== currentPlayerIndex && count > 0
+      ),
+    };
+    const byId = new Map(hand.map(c => [c.id, c] as const));
+    let best = candidates[0];
+    let bestScore = -Infinity;
+    for (const ids of candidates) {
+      const cards = ids ? ids.map(id => byId.get(id)!) : null;
+      const score = scoreCandidate(model, extractPlayFeatures(position, cards, this._rules));
+      if (score > bestScore) {
+        best = ids;
+        bestScore = score;
+      }
+    }
+    return {
+      cards: best,
+      reasoning: `[LEARNED] Best of ${candidates.length} candidates (score ${bestScore.toFixed(2)})`,
+    };
+  }
+
   /**
    * Handle first play of game (must include 3D)
    */
   private handleFirstPlay(hand: Card[]): BotPlayResult {
-    const sorted = sortHand(hand);
-    const threeD = sorted.find(c => c.rank === '3' && c.suit === 'D');
+    const sorted = sortHand(hand, this._rules);
+    // Opening card: 3D under the standard rules, 3 of the lowest suit otherwise
+    const threeD = sorted.find(c => isOpeningCard(c, this._rules));
 
     if (!threeD) {
       return { cards: null, reasoning: 'No 3D found' };
@@ -205,7 +418,7 @@ export class BotAI {
     currentPlayerIndex: number,
     nextPlayerIndex?: number
   ): BotPlayResult {
-    const sorted = sortHand(hand);
+    const sorted = sortHand(hand, this._rules);
     // Determine next active opponent and their card count using the provided playerCardCounts
     // CRITICAL: Check "One Card Left" rule when leading
     // Use pre-computed nextPlayerIndex when provided (multiplayer uses sequential turn order),
@@ -309,7 +522,7 @@ export class BotAI {
     currentPlayerIndex: number,
     nextPlayerIndex?: number
   ): BotPlayResult {
-    const sorted = sortHand(hand);
+    const sorted = sortHand(hand, this._rules);
     // Compute opponent card counts by index, excluding the current player and empty hands
     const activeOpponentCounts = playerCardCounts.filter(
       (count, index) => index !== currentPlayerIndex && count > 0
@@ -333,7 +546,7 @@ export class BotAI {
 
     // If next player has 1 card and last play was a single, MUST play highest single
     if (!lastPlayerHasWon && nextPlayerCardCount === 1 && lastPlay.cards.length === 1) {
-      const highestSingle = findHighestBeatingSingle(sorted, lastPlay);
+      const highestSingle = findHighestBeatingSingle(sorted, lastPlay, this._rules);
       if (highestSingle) {
         return {
           cards: [highestSingle.id],
@@ -420,7 +633,7 @@ export class BotAI {
       }
 
       // Mid-game: use recommended play (engine's optimal choice)
-      const recommended = findRecommendedPlay(hand, lastPlay, false);
+      const recommended = findRecommendedPlay(hand, lastPlay, false, this._rules);
       if (recommended) {
         return {
           cards: recommended,
@@ -438,7 +651,7 @@ export class BotAI {
       return { cards: null, reasoning: '[MEDIUM] Strategically passing' };
     }
 
-    const recommended = findRecommendedPlay(hand, lastPlay, false);
+    const recommended = findRecommendedPlay(hand, lastPlay, false, this._rules);
     if (!recommended) {
       return { cards: null, reasoning: '[MEDIUM] Cannot beat last play' };
     }
@@ -504,7 +717,7 @@ export class BotAI {
           for (let d = c + 1; d < n - 1; d++) {
             for (let e = d + 1; e < n; e++) {
               const fiveCards = [hand[a], hand[b], hand[c], hand[d], hand[e]];
-              const combo = classifyCards(fiveCards);
+              const combo = classifyCards(fiveCards, this._rules);
               if (this.is5CardCombo(combo)) {
                 // Return first valid combo found (hand is sorted, so lowest-indexed cards are weakest)
                 const result = fiveCards.map(c => c.id);
@@ -605,6 +818,34 @@ export class BotAI {
     return triples;
   }
 
+  /**
+   * Find every combination that can lead a trick (singles, pairs, triples, 5-card combos)
+   */
+  private findAllLeads(hand: Card[]): string[][] {
+    const leads: string[][] = [
+      ...hand.map(c => [c.id]),
+      ...this.findAllPairs(hand),
+      ...this.findAllTriples(hand),
+    ];
+    const n = hand.length;
+    if (n > 13) return leads; // Safety cap, as in findAllValidPlays
+    for (let a = 0; a < n - 4; a++) {
+      for (let b = a + 1; b < n - 3; b++) {
+        for (let c = b + 1; c < n - 2; c++) {
+          for (let d = c + 1; d < n - 1; d++) {
+            for (let e = d + 1; e < n; e++) {
+              const fiveCards = [hand[a], hand[b], hand[c], hand[d], hand[e]];
+              if (this.is5CardCombo(classifyCards(fiveCards, this._rules))) {
+                leads.push(fiveCards.map(card => card.id));
+              }
+            }
+          }
+        }
+      }
+    }
+    return leads;
+  }
+
   /**
    * Find all valid plays that beat last play
    */
@@ -615,7 +856,7 @@ export class BotAI {
     if (numCards === 1) {
       // Singles
       for (const card of hand) {
-        if (canBeatPlay([card], lastPlay)) {
+        if (canBeatPlay([card], lastPlay, this._rules)) {
           validPlays.push([card.id]);
         }
       }
@@ -624,7 +865,7 @@ export class BotAI {
       const pairs = this.findAllPairs(hand);
       for (const pair of pairs) {
         const pairCards = pair.map(id => hand.find(c => c.id === id)!);
-        if (canBeatPlay(pairCards, lastPlay)) {
+        if (canBeatPlay(pairCards, lastPlay, this._rules)) {
           validPlays.push(pair);
         }
       }
@@ -636,8 +877,16 @@ export class BotAI {
         validPlays.sort((a, b) => {
           const cardsA = a.map(id => byId.get(id)!);
           const cardsB = b.map(id => byId.get(id)!);
-          const aBeatsB = canBeatPlay(cardsA, { position: 0, cards: cardsB, combo_type: 'Pair' });
-          const bBeatsA = canBeatPlay(cardsB, { position: 0, cards: cardsA, combo_type: 'Pair' });
+          const aBeatsB = canBeatPlay(
+            cardsA,
+            { position: 0, cards: cardsB, combo_type: 'Pair' },
+            this._rules
+          );
+          const bBeatsA = canBeatPlay(
+            cardsB,
+            { position: 0, cards: cardsA, combo_type: 'Pair' },
+            this._rules
+          );
           if (aBeatsB && !bBeatsA) return 1;
           if (!aBeatsB && bBeatsA) return -1;
           return 0;
@@ -648,7 +897,7 @@ export class BotAI {
       const triples = this.findAllTriples(hand);
       for (const triple of triples) {
         const tripleCards = triple.map(id => hand.find(c => c.id === id)!);
-        if (canBeatPlay(tripleCards, lastPlay)) {
+        if (canBeatPlay(tripleCards, lastPlay, this._rules)) {
           validPlays.push(triple);
         }
       }
@@ -658,8 +907,16 @@ export class BotAI {
         validPlays.sort((a, b) => {
           const cardsA = a.map(id => byId.get(id)!);
           const cardsB = b.map(id => byId.get(id)!);
-          const aBeatsB = canBeatPlay(cardsA, { position: 0, cards: cardsB, combo_type: 'Triple' });
-          const bBeatsA = canBeatPlay(cardsB, { position: 0, cards: cardsA, combo_type: 'Triple' });
+          const aBeatsB = canBeatPlay(
+            cardsA,
+            { position: 0, cards: cardsB, combo_type: 'Triple' },
+            this._rules
+          );
+          const bBeatsA = canBeatPlay(
+            cardsB,
+            { position: 0, cards: cardsA, combo_type: 'Triple' },
+            this._rules
+          );
           if (aBeatsB && !bBeatsA) return 1;
           if (!aBeatsB && bBeatsA) return -1;
           return 0;
@@ -678,7 +935,7 @@ export class BotAI {
             for (let d = c + 1; d < n - 1; d++) {
               for (let e = d + 1; e < n; e++) {
                 const fiveCards = [hand[a], hand[b], hand[c], hand[d], hand[e]];
-                if (canBeatPlay(fiveCards, lastPlay)) {
+                if (canBeatPlay(fiveCards, lastPlay, this._rules)) {
                   validPlays.push(fiveCards.map(c => c.id));
                 }
               }
@@ -694,18 +951,26 @@ export class BotAI {
         validPlays.sort((a, b) => {
           const cardsA = a.map(id => byId.get(id)!);
           const cardsB = b.map(id => byId.get(id)!);
-          const classA = classifyCards(cardsA);
-          const classB = classifyCards(cardsB);
-          const aBeatsB = canBeatPlay(cardsA, {
-            position: 0,
-            cards: cardsB,
-            combo_type: classB,
-          });
-          const bBeatsA = canBeatPlay(cardsB, {
-            position: 0,
-            cards: cardsA,
-            combo_type: classA,
-          });
+          const classA = classifyCards(cardsA, this._rules);
+          const classB = classifyCards(cardsB, this._rules);
+          const aBeatsB = canBeatPlay(
+            cardsA,
+            {
+              position: 0,
+              cards: cardsB,
+              combo_type: classB,
+            },
+            this._rules
+          );
+          const bBeatsA = canBeatPlay(
+            cardsB,
+            {
+              position: 0,
+              cards: cardsA,
+              combo_type: classA,
+            },
+            this._rules
+          );
           if (aBeatsB && !bBeatsA) return 1; // A stronger, sort later
           if (!aBeatsB && bBeatsA) return -1; // A weaker, sort earlier
           return 0; // Equal strength
@@ -718,13 +983,13 @@ export class BotAI {
 
   /**
    * Find the next active player (with cards > 0) in anticlockwise turn order.
-   * Matches the game engine's turn order: 0→3→1→2→0
+   * Matches the game engine's turn order (0→3→1→2→0 at four players)
    * Skips players who have already finished (0 cards).
    * Returns -1 if no active player found.
    */
   private findNextActivePlayer(currentPlayerIndex: number, playerCardCounts: number[]): number {
     // Anticlockwise turn order matching game engine (state.ts)
-    const turnOrder = [3, 2, 0, 1]; // Next player for indices [0,1,2,3]
+    const turnOrder = getLocalTurnOrder(playerCardCounts.length);
     const numPlayers = playerCardCounts.length;
     let nextIndex = turnOrder[currentPlayerIndex];
     const startIndex = nextIndex;
@@ -765,6 +1030,14 @@ export function createBotAI(difficulty: BotDifficulty = 'medium'): BotAI {
   return new BotAI(difficulty);
 }
 
+/**
+ * Create a bot that plays with trained weights (see parseLearnedBotModel).
+ * It reports itself as 'hard' wherever a difficulty is needed (e.g. bot delays).
+ */
+export function createLearnedBotAI(model: LearnedBotModel): BotAI {
+  return new BotAI('hard', model);
+}
+
 // Task #280: Lazy singleton cache — reuse BotAI instances by difficulty
 // to avoid re-instantiation on every bot turn call.
 const _botInstances = new Map<BotDifficulty, BotAI>();
@@ -0,0 +1,214 @@
+/**
+ * Learned bot model — features and scoring
+ *
+ * A learned bot scores every candidate play (and the pass) with two linear
+ * models over the same hand-crafted features:
+ *
+ * - policy: how likely a strong player is to choose the play (conditional
+ *   logit over the candidates of one decision)
+ * - value: the chance of winning the match after the play (logistic)
+ *
+ * The weights are trained offline from game_hands_training (see training.ts
+ * and scripts/train-bot.mjs) and shipped as a JSON document, which
+ * parseLearnedBotModel validates before a BotAI uses it.
+ *
+ * @module learned
+ */
+
+import {
+  classifyCards,
+  getStraightSequences,
+  RANK_VALUE,
+  type Card,
+  type LastPlay,
+  type RuleSet,
+} from '../engine';
+
+export const LEARNED_MODEL_FORMAT = 'big2-learned-bot';
+export const LEARNED_MODEL_VERSION = 1;
+
+/** Feature vector layout; the model stores it and must match it exactly */
+export const PLAY_FEATURE_NAMES = [
+  'pass',
+  'single',
+  'pair',
+  'triple',
+  'fiveCard',
+  'topRank',
+  'twosSpent',
+  'splitsRank',
+  'breaksStraight',
+  'cardsLeft',
+  'singletonsLeft',
+  'controlCardsLeft',
+  'goesOut',
+  'leading',
+  'nextPlayerLow',
+  'opponentLow',
+  'blocksNextPlayer',
+  'leadOverOpponents',
+] as const;
+
+export type PlayFeatureName = (typeof PLAY_FEATURE_NAMES)[number];
+
+/** What a learned bot knows when it decides */
+export interface LearnedPosition {
+  /** Hand before the play */
+  hand: Card[];
+  /** Play to beat; null when leading */
+  lastPlay: LastPlay | null;
+  nextPlayerCardCount: number;
+  /** Cards held by each opponent still in the match */
+  opponentCardCounts: number[];
+}
+
+export interface LearnedBotModel {
+  format: typeof LEARNED_MODEL_FORMAT;
+  version: number;
+  features: string[];
+  policy: number[];
+  value: number[];
+  valueBias: number;
+  /** How much the value model's win chance counts against the policy logit */
+  valueWeight: number;
+  /** Decisions the model was trained on */
+  trainedOn: number;
+}
+
+/** Cards still counted as low: the next player is about to go out */
+const LOW_CARD_COUNT = 2;
+const FULL_HAND = 13;
+
+function rankCounts(cards: readonly Card[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const card of cards) counts.set(card.rank, (counts.get(card.rank) ?? 0) + 1);
+  return counts;
+}
+
+function countStraights(counts: Map<string, number>, rules: RuleSet): number {
+  return getStraightSequences(rules).filter(sequence => sequence.every(rank => counts.has(rank)))
+    .length;
+}
+
+/**
+ * Feature vector of one candidate (null = pass), laid out as PLAY_FEATURE_NAMES
+ */
+export function extractPlayFeatures(
+  position: LearnedPosition,
+  cards: readonly Card[] | null,
+  rules: RuleSet
+): number[] {
+  const played = cards ?? [];
+  const playedIds = new Set(played.map(card => card.id));
+  const remaining = position.hand.filter(card => !playedIds.has(card.id));
+  const before = rankCounts(position.hand);
+  const after = rankCounts(remaining);
+  const playedCounts = rankCounts(played);
+  const combo = played.length > 0 ? classifyCards([...played], rules) : null;
+
+  const topRank = played.reduce((top, card) => Math.max(top, RANK_VALUE[card.rank] + 1), 0) / 13;
+  const minOpponent = position.opponentCardCounts.length
+    ? Math.min(...position.opponentCardCounts)
+    : FULL_HAND;
+  const nextPlayerLow = position.nextPlayerCardCount <= LOW_CARD_COUNT ? 1 : 0;
+  const splitsRank = [...playedCounts].some(([rank, count]) => count < (before.get(rank) ?? 0));
+
+  const features: Record<PlayFeatureName, number> = {
+    pass: cards ? 0 : 1,
+    single: combo === 'Single' ? 1 : 0,
+    pair: combo === 'Pair' ? 1 : 0,
+    triple: combo === 'Triple' ? 1 : 0,
+    fiveCard: played.length === 5 ? 1 : 0,
+    topRank,
+    twosSpent: (playedCounts.get('2') ?? 0) / 4,
+    splitsRank: splitsRank ? 1 : 0,
+    breaksStraight:
+      played.length < 5 && countStraights(after, rules) < countStraights(before, rules) ? 1 : 0,
+    cardsLeft: remaining.length / FULL_HAND,
+    singletonsLeft: [...after.values()].filter(count => count === 1).length / FULL_HAND,
+    controlCardsLeft: ((after.get('A') ?? 0) + (after.get('2') ?? 0)) / 8,
+    goesOut: cards && remaining.length === 0 ? 1 : 0,
+    leading: position.lastPlay ? 0 : 1,
+    nextPlayerLow,
+    opponentLow: minOpponent <= LOW_CARD_COUNT ? 1 : 0,
+    blocksNextPlayer: nextPlayerLow * topRank,
+    leadOverOpponents: (minOpponent - remaining.length) / FULL_HAND,
+  };
+  return PLAY_FEATURE_NAMES.map(name => features[name]);
+}
+
+function dot(weights: readonly number[], features: readonly number[]): number {
+  let sum = 0;
+  for (let i = 0; i < features.length; i++) sum += weights[i] * features[i];
+  return sum;
+}
+
+export function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/** Policy logit of a candidate */
+export function policyLogit(model: LearnedBotModel, features: readonly number[]): number {
+  return dot(model.policy, features);
+}
+
+/** Predicted chance of winning the match after the candidate */
+export function winProbability(model: LearnedBotModel, features: readonly number[]): number {
+  return sigmoid(dot(model.value, features) + model.valueBias);
+}
+
+/** Combined score the learned bot maximises */
+export function scoreCandidate(model: LearnedBotModel, features: readonly number[]): number {
+  return policyLogit(model, features) + model.valueWeight * winProbability(model, features);
+}
+
+function isWeightVector(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === PLAY_FEATURE_NAMES.length &&
+    value.every(weight => typeof weight === 'number' && Number.isFinite(weight))
+  );
+}
+
+/**
+ * Validate a model document (parsed JSON or its text)
+ *
+ * @returns The model, or null when it is not a model this build can use
+ * (wrong format, newer version, or a different feature layout)
+ */
+export function parseLearnedBotModel(input: unknown): LearnedBotModel | null {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      return null;
+    }
+  }
+  if (typeof raw !== 'object' || raw === null) return null;
+  const model = raw as Partial<LearnedBotModel>;
+  if (model.format !== LEARNED_MODEL_FORMAT) return null;
+  if (typeof model.version !== 'number' || model.version > LEARNED_MODEL_VERSION) return null;
+  if (
+    !Array.isArray(model.features) ||
+    model.features.length !== PLAY_FEATURE_NAMES.length ||
+    model.features.some((name, index) => name !== PLAY_FEATURE_NAMES[index])
+  ) {
+    return null;
+  }
+  if (!isWeightVector(model.policy) || !isWeightVector(model.value)) return null;
+  if (typeof model.valueBias !== 'number' || !Number.isFinite(model.valueBias)) return null;
+  return {
+    format: LEARNED_MODEL_FORMAT,
+    version: model.version,
+    features: [...model.features],
+    policy: [...model.policy],
+    value: [...model.value],
+    valueBias: model.valueBias,
+    valueWeight:
+      typeof model.valueWeight === 'number' && Number.isFinite(model.valueWeight)
+        ? model.valueWeight
+        : 1,
+    trainedOn: typeof model.trainedOn === 'number' ? model.trainedOn : 0,
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Post-game move analysis ("blunder check")
+ *
+ * Replays a finished game from its deal and looks at every decision of one
+ * seat, asking the hard bot what it would have done in the same position.
+ * A decision is flagged when a clearly stronger line existed:
+ *
+ * - one-card-left (blunder): the next player had one card left and the move
+ *   did not block them — a pass while a beat existed, or a single lower than
+ *   the highest one available
+ * - missed-beat (mistake): a pass while a safe beat existed (one that spends
+ *   no 2 and breaks no straight)
+ * - broke-straight (mistake): a straight was broken up for singles or pairs
+ *   while every opponent still had plenty of cards and a line that kept the
+ *   straight was available
+ *
+ * Only matches whose deal is known can be analysed (see buildGameReplay).
+ * Passes are only analysed where the history records them (local games);
+ * the next player is taken to be the seat that made the next recorded move.
+ *
+ * @module move-analysis
+ */
+
+import {
+  classifyCards,
+  findRecommendedPlay,
+  getStraightSequences,
+  validateOneCardLeftRule,
+  canPassWithOneCardLeftRule,
+  sortHand,
+  STANDARD_RULE_SET,
+  type Card,
+  type GameReplay,
+  type LastPlay,
+  type ReplayMatch,
+  type RuleSet,
+} from '../engine';
+import { getOrCreateBotAI } from './index';
+
+export type MoveAnnotationKind = 'one-card-left' | 'missed-beat' | 'broke-straight';
+export type MoveAnnotationSeverity = 'blunder' | 'mistake';
+
+export interface MoveAnnotation {
+  matchNumber: number;
+  /** Replay frame the move leads to (move index + 1, see buildReplayFrames) */
+  step: number;
+  kind: MoveAnnotationKind;
+  severity: MoveAnnotationSeverity;
+  /** Card ids that were played (empty for a pass) */
+  played: string[];
+  /** The stronger line: card ids to play, or null to pass */
+  suggested: string[] | null;
+}
+
+export interface GameAnalysis {
+  seat: number;
+  /** Decisions of the seat that had more than one option */
+  decisions: number;
+  annotations: MoveAnnotation[];
+  /** 0–100, 100 when nothing was flagged */
+  accuracy: number;
+}
+
+/** Accuracy lost per flagged decision, as a share of one decision */
+const SEVERITY_PENALTY: Record<MoveAnnotationSeverity, number> = {
+  blunder: 1,
+  mistake: 0.5,
+};
+
+const KIND_SEVERITY: Record<MoveAnnotationKind, MoveAnnotationSeverity> = {
+  'one-card-left': 'blunder',
+  'missed-beat': 'mistake',
+  'broke-straight': 'mistake',
+};
+
+/** Breaking a straight is only flagged while every opponent has more cards than this */
+const EARLY_GAME_MIN_CARDS = 3;
+
+/** Number of straight sequences the hand holds every rank of */
+function countStraights(hand: readonly Card[], rules: RuleSet): number {
+  const ranks = new Set<string>(hand.map(card => card.rank));
+  return getStraightSequences(rules).filter(sequence => sequence.every(rank => ranks.has(rank)))
+    .length;
+}
+
+function without(hand: readonly Card[], cardIds: readonly string[]): Card[] {
+  const removed = new Set(cardIds);
+  return hand.filter(card => !removed.has(card.id));
+}
+
+function breaksStraight(
+  hand: readonly Card[],
+  cardIds: readonly string[],
+  rules: RuleSet
+): boolean {
+  return (
+    cardIds.length < 5 &&
+    countStraights(without(hand, cardIds), rules) < countStraights(hand, rules)
+  );
+}
+
+/** A beat that spends no 2 and keeps every straight */
+function isSafeBeat(hand: readonly Card[], cardIds: readonly string[], rules: RuleSet): boolean {
+  const byId = new Map(hand.map(card => [card.id, card] as const));
+  return !cardIds.some(id => byId.get(id)?.rank === '2') && !breaksStraight(hand, cardIds, rules);
+}
+
+interface Decision {
+  hand: Card[];
+  /** The play to beat; null when leading */
+  toBeat: LastPlay | null;
+  played: Card[] | null;
+  cardCounts: number[];
+  nextSeat: number;
+  isFirstPlayOfGame: boolean;
+}
+
+function findMistake(
+  decision: Decision,
+  seat: number,
+  matchNumber: number,
+  rules: RuleSet
+): Pick<MoveAnnotation, 'kind' | 'suggested'> | null {
+  const { hand, toBeat, played, cardCounts, nextSeat, isFirstPlayOfGame } = decision;
+  const playedIds = played ? played.map(card => card.id) : [];
+  const botLine = getOrCreateBotAI('hard').getPlay({
+    hand,
+    lastPlay: toBeat,
+    isFirstPlayOfGame,
+    matchNumber,
+    playerCardCounts: cardCounts,
+    currentPlayerIndex: seat,
+    nextPlayerIndex: nextSeat >= 0 ? nextSeat : undefined,
+    ruleSet: rules,
+  }).cards;
+
+  // Letting the next player out under the one-card-left rule
+  if (nextSeat >= 0 && cardCounts[nextSeat] === 1) {
+    if (!played && toBeat && !canPassWithOneCardLeftRule(hand, 1, toBeat, rules).canPass) {
+      return { kind: 'one-card-left', suggested: botLine };
+    }
+    if (played) {
+      const rule = validateOneCardLeftRule(played, hand, 1, toBeat, rules);
+      if (!rule.valid && rule.requiredCard) {
+        return { kind: 'one-card-left', suggested: [rule.requiredCard.id] };
+      }
+    }
+  }
+
+  // Passing when a safe beat existed
+  if (!played) {
+    return botLine && isSafeBeat(hand, botLine, rules)
+      ? { kind: 'missed-beat', suggested: botLine }
+      : null;
+  }
+
+  // Breaking a straight too early
+  const opponentCounts = cardCounts.filter((count, index) => index !== seat && count > 0);
+  const earlyGame = opponentCounts.every(count => count > EARLY_GAME_MIN_CARDS);
+  if (isFirstPlayOfGame || !earlyGame || !breaksStraight(hand, playedIds, rules)) return null;
+  if (botLine && !breaksStraight(hand, botLine, rules)) {
+    return { kind: 'broke-straight', suggested: botLine };
+  }
+  if (toBeat) return { kind: 'broke-straight', suggested: null };
+  const keeper = sortHand(hand, rules).find(card => !breaksStraight(hand, [card.id], rules));
+  return keeper ? { kind: 'broke-straight', suggested: [keeper.id] } : null;
+}
+
+function analyzeMatch(
+  match: ReplayMatch,
+  seat: number,
+  rules: RuleSet
+): {
+  decisions: number;
+  annotations: MoveAnnotation[];
+} {
+  const annotations: MoveAnnotation[] = [];
+  let decisions = 0;
+  if (!match.deal) return { decisions, annotations };
+
+  let hands = match.deal.map(hand => [...hand]);
+  let lastPlay: LastPlay | null = null;
+  let isFirstPlayOfGame = match.matchNumber === 1;
+
+  match.moves.forEach((move, index) => {
+    // The seat that made the last play leads the next trick
+    const toBeat = lastPlay && lastPlay.position !== move.seat ? lastPlay : null;
+
+    if (move.seat === seat) {
+      const hand = hands[seat];
+      const hasChoice = toBeat
+        ? findRecommendedPlay(hand, toBeat, false, rules) !== null
+        : hand.length > 1;
+      if (hasChoice) {
+        decisions++;
+        const mistake = findMistake(
+          {
+            hand,
+            toBeat,
+            played: move.passed ? null : move.cards,
+            cardCounts: hands.map(cards => cards.length),
+            nextSeat: match.moves[index + 1]?.seat ?? -1,
+            isFirstPlayOfGame,
+          },
+          seat,
+          match.matchNumber,
+          rules
+        );
+        if (mistake) {
+          annotations.push({
+            matchNumber: match.matchNumber,
+            step: index + 1,
+            kind: mistake.kind,
+            severity: KIND_SEVERITY[mistake.kind],
+            played: move.cards.map(card => card.id),
+            suggested: mistake.suggested,
+          });
+        }
+      }
+    }
+
+    if (!move.passed) {
+      const playedIds = move.cards.map(card => card.id);
+      hands = hands.map((hand, index) => (index === move.seat ? without(hand, playedIds) : hand));
+      lastPlay = {
+        position: move.seat,
+        cards: move.cards,
+        combo_type: classifyCards(move.cards, rules),
+      };
+      isFirstPlayOfGame = false;
+    }
+  });
+
+  return { decisions, annotations };
+}
+
+/**
+ * Analyse every decision one seat made in a game
+ *
+ * @param replay - The game, with the deals of the matches to analyse
+ * @param seat - Seat whose decisions are checked (the local player)
+ * @param rules - House rules (defaults to the rules recorded with the replay)
+ * @returns The flagged decisions and an accuracy score for the whole game
+ */
+export function analyzeGame(
+  replay: GameReplay,
+  seat: number,
+  rules: RuleSet = replay.ruleSet ?? STANDARD_RULE_SET
+): GameAnalysis {
+  let decisions = 0;
+  const annotations: MoveAnnotation[] = [];
+  for (const match of replay.matches) {
+    const result = analyzeMatch(match, seat, rules);
+    decisions += result.decisions;
+    annotations.push(...result.annotations);
+  }
+
+  const penalty = annotations.reduce(
+    (total, annotation) => total + SEVERITY_PENALTY[annotation.severity],
+    0
+  );
+  const accuracy = decisions === 0 ? 100 : Math.max(0, Math.round(100 * (1 - penalty / decisions)));
+  return { seat, decisions, annotations, accuracy };
+}
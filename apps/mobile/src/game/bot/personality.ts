@@ -0,0 +1,20 @@
+/**
+ * Bot personalities — playing style on top of the difficulty tier
+ *
+ * The implementation lives in supabase/functions/_shared/botPersonality.ts,
+ * which the server BotAI uses as well, so a bot seated with a personality
+ * plays the same style offline and online.
+ *
+ * @module personality
+ */
+
+export {
+  BOT_PERSONALITIES,
+  BOT_PERSONALITY_TRAITS,
+  isBotPersonality,
+  applyBotPersonality,
+  type BotPersonality,
+  type BotPersonalityTraits,
+  type PersonalityContext,
+  type PersonalityDecision,
+} from '../../../supabase/functions/_shared/botPersonality';
@@ -0,0 +1,237 @@
+/**
+ * Batch self-play simulation for balance testing
+ *
+ * Plays N seeded games between chosen bots, one per seat, under a rule
+ * preset and scoring config: every game is a series of matches scored like a
+ * local game until a cumulative total reaches the target score (101 by
+ * default). Seats take turns in the local (anticlockwise) order and a later
+ * match is led by the previous match winner, as in GameStateManager.
+ *
+ * Each game gets its own deal seed, derived from the run's seed, so every run
+ * with the same seed deals the same hands (the bots' own random choices still
+ * vary from run to run, so compare runs over enough games). Moves are checked
+ * by playBotMatch, so a simulation also proves the bots legal under the
+ * chosen rules.
+ *
+ * Everything here is plain computation; scripts/simulate.mjs does the I/O.
+ *
+ * @module simulation
+ */
+
+import {
+  calculateMatchPoints,
+  dealSeededHands,
+  findLowestScoreIndex,
+  isPlayerCount,
+  isGameOverScore,
+  sha256Hex,
+  DEAL_SEED_LENGTH,
+  DEFAULT_DEAL_VARIANT,
+  DEFAULT_SCORING_CONFIG,
+  MAX_PLAYERS,
+  STANDARD_RULE_SET,
+  type DealVariant,
+  type RuleSet,
+  type ScoringConfig,
+} from '../engine';
+import { playBotMatch, type BenchmarkBot } from './benchmark';
+import { createBotAI, getLocalTurnOrder } from './index';
+
+/** A game that has not reached the target after this many matches is cut short */
+const DEFAULT_MAX_MATCHES = 50;
+
+export interface SimulationOptions {
+  /** The bot in each seat; 2 to 4 seats */
+  seats: readonly BenchmarkBot[];
+  games: number;
+  /** Run seed (32 hex characters, see createDealSeed) */
+  seed: string;
+  ruleSet?: RuleSet;
+  scoring?: ScoringConfig;
+  /** Two- and three-player dealing variant */
+  dealVariant?: DealVariant;
+  maxMatches?: number;
+  /** Expert thinking time per move */
+  timeBudgetMs?: number;
+}
+
+export interface SimulationSeatStats {
+  seat: number;
+  /** Strategy of the seat's bot: a difficulty or 'learned' */
+  bot: string;
+  /** Games finished with the lowest total (ties go to the earlier seat) */
+  gameWins: number;
+  winRate: number;
+  matchWins: number;
+  matchWinRate: number;
+  /** Cards held when a match ended, averaged over all matches */
+  averageCardsLeft: number;
+  /** Cumulative score when the game ended */
+  averageFinalScore: number;
+  /** Share of games in which this seat's total reached the target score */
+  targetReachedRate: number;
+}
+
+export interface SimulationResult {
+  seed: string;
+  games: number;
+  matches: number;
+  playerCount: number;
+  rulePreset: RuleSet['preset'];
+  targetScore: number;
+  dealVariant?: DealVariant;
+  seats: SimulationSeatStats[];
+  /** Game length */
+  averageMatchesPerGame: number;
+  averageMovesPerMatch: number;
+  /** Share of games that ended on the target score (rather than maxMatches) */
+  targetReachedRate: number;
+  /** Plays of each combination type (passes not included) */
+  comboCounts: Record<string, number>;
+  /** Share of all plays per combination type */
+  comboFrequency: Record<string, number>;
+  /** Share of all moves that were passes */
+  passRate: number;
+}
+
+/**
+ * Deal seed of one game of a run
+ *
+ * @param seed - Run seed
+ * @param game - 1-based game number
+ */
+export function getSimulationGameSeed(seed: string, game: number): string {
+  return sha256Hex(`${seed}:${game}`).slice(0, DEAL_SEED_LENGTH);
+}
+
+/**
+ * Play a batch of seeded games and collect balance statistics
+ *
+ * @throws Error for an unsupported seat count, or when a bot makes an illegal move
+ */
+export function runSimulation(options: SimulationOptions): SimulationResult {
+  const { games, seed, timeBudgetMs, maxMatches = DEFAULT_MAX_MATCHES } = options;
+  const rules = options.ruleSet ?? STANDARD_RULE_SET;
+  const scoring = options.scoring ?? DEFAULT_SCORING_CONFIG;
+  const playerCount = options.seats.length;
+  if (!isPlayerCount(playerCount)) {
+    throw new Error(`A simulation needs 2 to 4 seats (got ${playerCount})`);
+  }
+  const dealVariant = options.dealVariant ?? DEFAULT_DEAL_VARIANT;
+  const bots = options.seats.map(bot => (typeof bot === 'string' ? createBotAI(bot) : bot));
+  const turnOrder = getLocalTurnOrder(playerCount);
+
+  const seatTotals = bots.map(() => ({
+    gameWins: 0,
+    matchWins: 0,
+    cardsLeft: 0,
+    finalScore: 0,
+    targetReached: 0,
+  }));
+  const comboCounts: Record<string, number> = {};
+  let matches = 0;
+  let moves = 0;
+  let passes = 0;
+  let gamesToTarget = 0;
+
+  for (let game = 1; game <= games; game++) {
+    const gameSeed = getSimulationGameSeed(seed, game);
+    const scores = bots.map(() => 0);
+    let leader: number | undefined;
+    for (let matchNumber = 1; matchNumber <= maxMatches; matchNumber++) {
+      const deal = dealSeededHands(gameSeed, matchNumber, 0, playerCount, dealVariant, rules);
+      const outcome = playBotMatch(deal, bots, {
+        rules,
+        turnOrder,
+        matchNumber,
+        leader,
+        timeBudgetMs,
+        onMove: (_, __, combo) => {
+          if (combo) comboCounts[combo] = (comboCounts[combo] ?? 0) + 1;
+          else passes++;
+        },
+      });
+      matches++;
+      moves += outcome.moves;
+      leader = outcome.winner;
+      seatTotals[outcome.winner].matchWins++;
+      outcome.hands.forEach((hand, seat) => {
+        seatTotals[seat].cardsLeft += hand.length;
+        scores[seat] += calculateMatchPoints(hand, scoring, deal[seat].length).finalScore;
+      });
+      if (isGameOverScore(scores, scoring)) break;
+    }
+
+    if (isGameOverScore(scores, scoring)) gamesToTarget++;
+    seatTotals[findLowestScoreIndex(scores)].gameWins++;
+    scores.forEach((score, seat) => {
+      seatTotals[seat].finalScore += score;
+      if (score >= scoring.targetScore) seatTotals[seat].targetReached++;
+    });
+  }
+
+  const share = (count: number, total: number) => (total === 0 ? 0 : count / total);
+  const plays = moves - passes;
+  return {
+    seed,
+    games,
+    matches,
+    playerCount,
+    rulePreset: rules.preset,
+    targetScore: scoring.targetScore,
+    ...(playerCount < MAX_PLAYERS ? { dealVariant } : {}),
+    seats: seatTotals.map((totals, seat) => ({
+      seat,
+      bot: bots[seat].strategy,
+      gameWins: totals.gameWins,
+      winRate: share(totals.gameWins, games),
+      matchWins: totals.matchWins,
+      matchWinRate: share(totals.matchWins, matches),
+      averageCardsLeft: share(totals.cardsLeft, matches),
+      averageFinalScore: share(totals.finalScore, games),
+      targetReachedRate: share(totals.targetReached, games),
+    })),
+    averageMatchesPerGame: share(matches, games),
+    averageMovesPerMatch: share(moves, matches),
+    targetReachedRate: share(gamesToTarget, games),
+    comboCounts,
+    comboFrequency: Object.fromEntries(
+      Object.entries(comboCounts).map(([combo, count]) => [combo, share(count, plays)])
+    ),
+    passRate: share(passes, moves),
+  };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Simulation statistics as CSV, one metric per row (metric, scope, value),
+ * so the output of several runs can be concatenated and pivoted
+ */
+export function formatSimulationCsv(result: SimulationResult): string {
+  const rows: (string | number)[][] = [
+    ['games', 'all', result.games],
+    ['matches', 'all', result.matches],
+    ['average_matches_per_game', 'all', result.averageMatchesPerGame],
+    ['average_moves_per_match', 'all', result.averageMovesPerMatch],
+    ['target_reached_rate', 'all', result.targetReachedRate],
+    ['pass_rate', 'all', result.passRate],
+  ];
+  for (const seat of result.seats) {
+    const scope = `seat ${seat.seat} (${seat.bot})`;
+    rows.push(
+      ['win_rate', scope, seat.winRate],
+      ['match_win_rate', scope, seat.matchWinRate],
+      ['average_cards_left', scope, seat.averageCardsLeft],
+      ['average_final_score', scope, seat.averageFinalScore],
+      ['target_reached_rate', scope, seat.targetReachedRate]
+    );
+  }
+  for (const [combo, frequency] of Object.entries(result.comboFrequency)) {
+    rows.push(['combo_frequency', combo, frequency]);
+  }
+  return [['metric', 'scope', 'value'], ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
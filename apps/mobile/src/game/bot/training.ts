@@ -0,0 +1,340 @@
+/**
+ * Bot training pipeline — dataset and trainer
+ *
+ * Turns game_hands_training rows (one row per play or pass, written by the
+ * play-cards and player-pass edge functions) into training examples and fits
+ * the learned bot's weights on them (see learned.ts):
+ *
+ * - every decision becomes one example: the feature vectors of every legal
+ *   candidate (as BotAI.getCandidatePlays lists them, plus the pass) and the
+ *   index of the one the player chose
+ * - the policy is a conditional logit fitted by SGD, weighting decisions of
+ *   the match winner more, so the bot imitates the players who won
+ * - the value model is a logistic regression of "went on to win the match"
+ *   on the chosen candidate's features
+ *
+ * Everything here is plain computation on the CPU; the scripts in
+ * scripts/ (export-training-data, train-bot, evaluate-learned-bot) do the I/O.
+ *
+ * @module training
+ */
+
+import { parseCards } from '../../../supabase/functions/_shared/parseCards';
+import type { Database } from '../../types/database.types';
+import {
+  canPassWithOneCardLeftRule,
+  classifyCards,
+  STANDARD_RULE_SET,
+  type Card,
+  type LastPlay,
+  type RuleSet,
+} from '../engine';
+import {
+  extractPlayFeatures,
+  policyLogit,
+  winProbability,
+  LEARNED_MODEL_FORMAT,
+  LEARNED_MODEL_VERSION,
+  PLAY_FEATURE_NAMES,
+  type LearnedBotModel,
+} from './learned';
+import { getOrCreateBotAI } from './index';
+
+type GameHandsTrainingRow = Database['public']['Tables']['game_hands_training']['Row'];
+
+/** Columns of game_hands_training the pipeline reads */
+export const TRAINING_ROW_COLUMNS = [
+  'game_session_id',
+  'round_number',
+  'play_sequence',
+  'player_index',
+  'is_bot',
+  'hand_before_play',
+  'cards_played',
+  'combo_type',
+  'last_play_before',
+  'is_first_play_of_round',
+  'is_first_play_of_game',
+  'opponent_hand_sizes',
+  'won_round',
+] as const;
+
+export type TrainingRow = Pick<GameHandsTrainingRow, (typeof TRAINING_ROW_COLUMNS)[number]>;
+
+export interface TrainingExample {
+  /** Feature vector of every candidate considered */
+  candidates: number[][];
+  /** Index of the candidate the player chose */
+  chosen: number;
+  /** Whether the player went on to win the match */
+  won: boolean;
+}
+
+export interface TrainingDataset {
+  examples: TrainingExample[];
+  /** Rows left out: unfinished matches, unreadable rows, plays not among the candidates */
+  skipped: number;
+}
+
+export interface BuildTrainingExamplesOptions {
+  ruleSet?: RuleSet;
+  /** Candidates kept per decision (the choice plus evenly spread others) */
+  maxCandidates?: number;
+  /** Learn from bot decisions too (by default only from human players) */
+  includeBots?: boolean;
+}
+
+/** Rows come from server games only, which go clockwise: 0→1→2→3 */
+const SEAT_COUNT = 4;
+const DEFAULT_MAX_CANDIDATES = 32;
+
+function sameCards(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every(id => b.includes(id));
+}
+
+/** The play to beat before a row's decision; null when the player leads */
+function playToBeat(row: TrainingRow, rules: RuleSet): LastPlay | null {
+  if (row.is_first_play_of_round || !row.last_play_before) return null;
+  const raw = row.last_play_before as { cards?: unknown; position?: unknown };
+  const cards = parseCards(Array.isArray(raw.cards) ? raw.cards : []) as Card[];
+  if (cards.length === 0 || raw.position === row.player_index) return null;
+  return {
+    position: typeof raw.position === 'number' ? raw.position : undefined,
+    cards,
+    combo_type: classifyCards(cards, rules),
+  };
+}
+
+/** Keep the chosen candidate and evenly spread others, in their original order */
+function thinCandidates<T>(candidates: T[], chosen: number, max: number): [T[], number] {
+  if (candidates.length <= max) return [candidates, chosen];
+  const keep = new Set([chosen]);
+  for (let i = 0; i < max && keep.size < max; i++) {
+    keep.add(Math.floor((i * candidates.length) / max));
+  }
+  for (let index = 0; keep.size < max; index++) keep.add(index);
+  const indices = [...keep].sort((a, b) => a - b);
+  return [indices.map(index => candidates[index]), indices.indexOf(chosen)];
+}
+
+/**
+ * Turn exported rows into training examples
+ */
+export function buildTrainingExamples(
+  rows: readonly TrainingRow[],
+  options: BuildTrainingExamplesOptions = {}
+): TrainingDataset {
+  const rules = options.ruleSet ?? STANDARD_RULE_SET;
+  const maxCandidates = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+  const bot = getOrCreateBotAI('hard');
+
+  // The winner of each match made the play flagged won_round (bot rows
+  // included: a match won by a bot still has a winner)
+  const matchKey = (row: TrainingRow) => `${row.game_session_id}:${row.round_number}`;
+  const winners = new Map<string, number>();
+  for (const row of rows) {
+    if (row.won_round) winners.set(matchKey(row), row.player_index);
+  }
+
+  const examples: TrainingExample[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    if (row.is_bot && !options.includeBots) continue;
+    const winner = winners.get(matchKey(row));
+    const hand = parseCards(
+      Array.isArray(row.hand_before_play) ? row.hand_before_play : []
+    ) as Card[];
+    const played = parseCards(Array.isArray(row.cards_played) ? row.cards_played : []).map(
+      card => card.id
+    );
+    const sizes = Array.isArray(row.opponent_hand_sizes) ? row.opponent_hand_sizes : [];
+    if (winner === undefined || hand.length === 0) {
+      skipped++;
+      continue;
+    }
+
+    const lastPlay = playToBeat(row, rules);
+    const nextSize = sizes[(row.player_index + 1) % SEAT_COUNT];
+    const nextPlayerCardCount = typeof nextSize === 'number' ? nextSize : 0;
+    const candidates: (string[] | null)[] = bot.getCandidatePlays({
+      hand,
+      lastPlay,
+      isFirstPlayOfGame: row.is_first_play_of_game,
+      ruleSet: rules,
+      nextPlayerCardCount,
+    });
+    if (
+      lastPlay &&
+      canPassWithOneCardLeftRule(hand, nextPlayerCardCount, lastPlay, rules).canPass
+    ) {
+      candidates.push(null);
+    }
+    const isPass = row.combo_type === 'pass' || played.length === 0;
+    const chosen = candidates.findIndex(ids => (ids ? !isPass && sameCards(ids, played) : isPass));
+    if (chosen < 0 || candidates.length < 2) {
+      // A forced move teaches nothing; a missing one means the row is inconsistent
+      if (chosen < 0) skipped++;
+      continue;
+    }
+
+    const position = {
+      hand,
+      lastPlay,
+      nextPlayerCardCount,
+      opponentCardCounts: sizes.filter(
+        (size, seat): size is number =>
+          seat !== row.player_index && typeof size === 'number' && size > 0
+      ),
+    };
+    const byId = new Map(hand.map(card => [card.id, card] as const));
+    const [kept, keptChosen] = thinCandidates(candidates, chosen, maxCandidates);
+    examples.push({
+      candidates: kept.map(ids =>
+        extractPlayFeatures(position, ids ? ids.map(id => byId.get(id)!) : null, rules)
+      ),
+      chosen: keptChosen,
+      won: winner === row.player_index,
+    });
+  }
+  return { examples, skipped };
+}
+
+export interface TrainLearnedBotOptions {
+  /** Passes over the training examples */
+  epochs?: number;
+  learningRate?: number;
+  /** L2 regularisation strength */
+  l2?: number;
+  /** Weight of the value model in the bot's score */
+  valueWeight?: number;
+  /** Weight of the match winner's decisions in the policy */
+  winnerWeight?: number;
+  /** Share of examples held out to report validation accuracy */
+  validationShare?: number;
+  /** Seed of the example shuffle */
+  seed?: number;
+}
+
+export interface TrainingReport {
+  model: LearnedBotModel;
+  trainingExamples: number;
+  validationExamples: number;
+  /** Share of held-out decisions where the policy's top choice was the player's */
+  validationAccuracy: number;
+  /** Average log loss of the value model on the held-out decisions */
+  validationLogLoss: number;
+}
+
+/** Small deterministic PRNG (mulberry32) so a training run is reproducible */
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Top-1 agreement of the policy with the players and log loss of the value model
+ */
+export function evaluateLearnedBot(
+  model: LearnedBotModel,
+  examples: readonly TrainingExample[]
+): { accuracy: number; logLoss: number } {
+  if (examples.length === 0) return { accuracy: 0, logLoss: 0 };
+  let agreed = 0;
+  let logLoss = 0;
+  for (const example of examples) {
+    const logits = example.candidates.map(features => policyLogit(model, features));
+    if (logits.indexOf(Math.max(...logits)) === example.chosen) agreed++;
+    const p = Math.min(
+      1 - 1e-9,
+      Math.max(1e-9, winProbability(model, example.candidates[example.chosen]))
+    );
+    logLoss -= example.won ? Math.log(p) : Math.log(1 - p);
+  }
+  return { accuracy: agreed / examples.length, logLoss: logLoss / examples.length };
+}
+
+/**
+ * Fit the policy and value weights by stochastic gradient descent
+ */
+export function trainLearnedBot(
+  examples: readonly TrainingExample[],
+  options: TrainLearnedBotOptions = {}
+): TrainingReport {
+  const {
+    epochs = 20,
+    learningRate = 0.05,
+    l2 = 1e-4,
+    valueWeight = 1,
+    winnerWeight = 2,
+    validationShare = 0.1,
+    seed = 1,
+  } = options;
+  const random = mulberry32(seed);
+  const shuffled = shuffle([...examples], random);
+  const validationCount = Math.floor(shuffled.length * validationShare);
+  const validation = shuffled.slice(0, validationCount);
+  const training = shuffled.slice(validationCount);
+
+  const size = PLAY_FEATURE_NAMES.length;
+  const model: LearnedBotModel = {
+    format: LEARNED_MODEL_FORMAT,
+    version: LEARNED_MODEL_VERSION,
+    features: [...PLAY_FEATURE_NAMES],
+    policy: new Array(size).fill(0),
+    value: new Array(size).fill(0),
+    valueBias: 0,
+    valueWeight,
+    trainedOn: training.length,
+  };
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const rate = learningRate / (1 + epoch * 0.1);
+    for (const example of shuffle(training, random)) {
+      // Policy: softmax over the candidates, pulled towards the chosen one
+      const logits = example.candidates.map(features => policyLogit(model, features));
+      const top = Math.max(...logits);
+      const exps = logits.map(logit => Math.exp(logit - top));
+      const total = exps.reduce((sum, value) => sum + value, 0);
+      const weight = example.won ? winnerWeight : 1;
+      for (let f = 0; f < size; f++) {
+        let expected = 0;
+        example.candidates.forEach((features, index) => {
+          expected += (exps[index] / total) * features[f];
+        });
+        const gradient = weight * (example.candidates[example.chosen][f] - expected);
+        model.policy[f] += rate * (gradient - l2 * model.policy[f]);
+      }
+
+      // Value: did the player go on to win the match
+      const features = example.candidates[example.chosen];
+      const error = (example.won ? 1 : 0) - winProbability(model, features);
+      for (let f = 0; f < size; f++) {
+        model.value[f] += rate * (error * features[f] - l2 * model.value[f]);
+      }
+      model.valueBias += rate * error;
+    }
+  }
+
+  const { accuracy, logLoss } = evaluateLearnedBot(model, validation);
+  return {
+    model,
+    trainingExamples: training.length,
+    validationExamples: validation.length,
+    validationAccuracy: accuracy,
+    validationLogLoss: logLoss,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Game event log
+ *
+ * The sequenced game_events a room's game_state transitions are recorded as
+ * (deal, play, pass, match and game end), and the pure fold that rebuilds
+ * game_state from them while checking each play and pass against the hands
+ * and turn it rebuilt. Used by scripts/rebuild-room.mjs to audit and repair
+ * rooms.
+ *
+ * @module game-log
+ */
+
+export {
+  GAME_LOG_STATE_KEYS,
+  applyGameLogEvent,
+  rebuildGameStateFromEvents,
+  diffGameLogState,
+  type GameEventSource,
+  type GameLogCard,
+  type GameLogEvent,
+  type PendingGameEvent,
+  type CardsDealtEventData,
+  type PlayMadeEventData,
+  type PassEventData,
+  type RoundEndedEventData,
+  type GameEndedEventData,
+  type GameLogState,
+  type GameLogStep,
+  type GameLogRebuild,
+} from '../../../supabase/functions/_shared/gameLog';
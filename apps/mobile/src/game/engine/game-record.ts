@@ -0,0 +1,478 @@
+/**
+ * Game records
+ *
+ * A portable, versioned JSON notation for a whole game: players, house rules
+ * and scoring, the deal seed and/or starting hands, every play and pass of
+ * every match, and the points each match scored. Finished games are exported
+ * from the match history; an imported record opens in the replay viewer, and
+ * any position of it can be played on as a local game (a puzzle). The format
+ * is documented in docs/chinese-poker/game-rules/GAME_RECORD_FORMAT.md.
+ *
+ * Imports are checked by playing every move through the rules engine: the
+ * cards must still be in the player's hand, form a combination
+ * (classifyCards) and beat the play they follow (canBeatPlay) under the
+ * record's own house rules.
+ *
+ * @module game-record
+ */
+
+import type { Card, LastPlay } from '../types';
+import { MAX_PLAYERS, MIN_PLAYERS, TOTAL_CARDS } from './constants';
+import { classifyCards, canBeatPlay, sortHand } from './game-logic';
+import {
+  STANDARD_RULE_SET,
+  normalizeRuleSet,
+  isOpeningCard,
+  getOpeningCardId,
+  type RuleSet,
+} from './rule-set';
+import {
+  DEFAULT_SCORING_CONFIG,
+  normalizeScoringConfig,
+  type ScoringConfig,
+} from './scoring-config';
+import {
+  createOrderedDeck,
+  dealSeededHands,
+  getCardsPerPlayer,
+  isDealSeed,
+  isDealVariant,
+  isPlayerCount,
+  DEFAULT_DEAL_VARIANT,
+  type DealVariant,
+} from './seeded-deal';
+import { buildGameReplay, type GameReplaySource, type ReplayHistoryEntry } from './replay';
+
+export const GAME_RECORD_FORMAT = 'big2-game-record';
+/** Current version; records of any version up to this one can be imported */
+export const GAME_RECORD_VERSION = 1;
+
+/** A play (card ids such as "3D", "10H") or a pass, by seat */
+export type GameRecordMove = { seat: number; cards: string[] } | { seat: number; pass: true };
+
+export interface GameRecordMatch {
+  /** 1-based match number within the game */
+  number: number;
+  /** Seat-indexed starting hands as card ids (may be omitted when the record has a seed) */
+  hands?: string[][];
+  moves: GameRecordMove[];
+  /** Points each seat scored in this match, when known */
+  scores?: number[];
+}
+
+export interface GameRecord {
+  format: typeof GAME_RECORD_FORMAT;
+  version: number;
+  /** Player names by seat */
+  players: string[];
+  rules: RuleSet;
+  scoring: ScoringConfig;
+  /** Revealed deal seed every match was dealt from (see seeded-deal) */
+  dealSeed?: string;
+  /** Duplicate table rotation the seed was dealt with */
+  seatRotation?: number;
+  /** How a game of two or three was dealt (written for those tables only) */
+  dealVariant?: DealVariant;
+  matches: GameRecordMatch[];
+}
+
+export interface GameRecordInput {
+  replay: GameReplaySource;
+  ruleSet?: RuleSet;
+  scoring?: ScoringConfig;
+  /** Seat-indexed points per match, in match order */
+  matchScores?: number[][] | null;
+}
+
+export type GameRecordParseResult =
+  | { valid: true; record: GameRecord }
+  | { valid: false; error: string };
+
+/** A recorded match just before one of its moves, to continue playing from */
+export interface GameRecordPosition {
+  matchNumber: number;
+  /** Seat-indexed hands */
+  hands: Card[][];
+  /** Seat to move: the seat that made the recorded move */
+  currentSeat: number;
+  /** Play to beat; null when currentSeat leads */
+  lastPlay: LastPlay | null;
+  /** Passes since lastPlay (as far as the record shows them) */
+  consecutivePasses: number;
+  /** Cards played so far this match */
+  playedCards: Card[];
+  /** The first play of the game must include the opening card */
+  isFirstPlayOfGame: boolean;
+}
+
+const CARDS_BY_ID: ReadonlyMap<string, Card> = new Map(
+  createOrderedDeck().map(card => [card.id, card])
+);
+
+function isPass(move: GameRecordMove): move is { seat: number; pass: true } {
+  return 'pass' in move && move.pass === true;
+}
+
+function toCards(ids: readonly string[]): Card[] {
+  return ids.map(id => CARDS_BY_ID.get(id)!);
+}
+
+/** Card ids → cards; null if any id is unknown or repeated */
+function parseCardIds(raw: unknown): Card[] | null {
+  if (!Array.isArray(raw)) return null;
+  const cards: Card[] = [];
+  for (const id of raw) {
+    const card = typeof id === 'string' ? CARDS_BY_ID.get(id.toUpperCase()) : undefined;
+    if (!card || cards.includes(card)) return null;
+    cards.push(card);
+  }
+  return cards;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Build the record of a game from its replay source (moves, seed) plus the
+ * rules, scoring and per-match points it was played with. The starting hands
+ * are written out whenever they are known, so the record stands on its own.
+ */
+export function createGameRecord({
+  replay,
+  ruleSet = STANDARD_RULE_SET,
+  scoring = DEFAULT_SCORING_CONFIG,
+  matchScores,
+}: GameRecordInput): GameRecord {
+  const game = buildGameReplay(replay);
+  const dealSeed = isDealSeed(replay.dealSeed) ? replay.dealSeed : undefined;
+  const shortTable = game.playerNames.length < MAX_PLAYERS;
+
+  return {
+    format: GAME_RECORD_FORMAT,
+    version: GAME_RECORD_VERSION,
+    players: game.playerNames,
+    rules: ruleSet,
+    scoring,
+    ...(dealSeed ? { dealSeed, seatRotation: replay.seatRotation ?? 0 } : {}),
+    ...(shortTable ? { dealVariant: replay.dealVariant ?? DEFAULT_DEAL_VARIANT } : {}),
+    matches: game.matches.map(match => {
+      const scores = matchScores?.[match.matchNumber - 1];
+      return {
+        number: match.matchNumber,
+        ...(match.deal ? { hands: match.deal.map(hand => hand.map(card => card.id)) } : {}),
+        moves: match.moves.map(
+          (move): GameRecordMove =>
+            move.passed
+              ? { seat: move.seat, pass: true }
+              : { seat: move.seat, cards: move.cards.map(card => card.id) }
+        ),
+        ...(scores ? { scores: [...scores] } : {}),
+      };
+    }),
+  };
+}
+
+/** Text form of a record, for sharing */
+export function serializeGameRecord(record: GameRecord): string {
+  return JSON.stringify(record);
+}
+
+/**
+ * Check one match of an imported record by playing it through the rules
+ * engine. Returns the normalized match, with the starting hands filled in from
+ * the seed when only the seed was recorded, or an error message.
+ */
+function validateMatch(
+  raw: unknown,
+  previousNumber: number,
+  context: {
+    playerCount: number;
+    rules: RuleSet;
+    dealSeed?: string;
+    seatRotation: number;
+    dealVariant: DealVariant;
+    isFirstMatch: boolean;
+  }
+): { match: GameRecordMatch } | { error: string } {
+  if (!isRecord(raw)) return { error: 'Malformed match' };
+  const number = raw.number;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number <= previousNumber) {
+    return { error: 'Match numbers must increase' };
+  }
+  const where = `Match ${number}`;
+  const { playerCount, rules } = context;
+
+  // Starting hands: recorded, dealt from the seed, or unknown. Every hand
+  // holds the variant's hand size, one of them a card more when a single
+  // card was left over (three players, 17 each)
+  let hands: Card[][] | null = null;
+  if (raw.hands !== undefined) {
+    const parsed = Array.isArray(raw.hands) ? raw.hands.map(parseCardIds) : [];
+    const size = getCardsPerPlayer(playerCount, context.dealVariant);
+    const leftover = TOTAL_CARDS - playerCount * size === 1 ? 1 : 0;
+    const cards = parsed.flatMap(hand => hand ?? []);
+    if (
+      parsed.length !== playerCount ||
+      parsed.some(hand => !hand || hand.length < size || hand.length > size + leftover) ||
+      cards.length !== playerCount * size + leftover ||
+      new Set(cards).size !== cards.length
+    ) {
+      return { error: `${where}: invalid starting hands` };
+    }
+    hands = parsed as Card[][];
+  }
+  if (context.dealSeed) {
+    const dealt = dealSeededHands(
+      context.dealSeed,
+      number,
+      context.seatRotation,
+      playerCount,
+      context.dealVariant,
+      rules
+    );
+    const matchesSeed = (hand: Card[], seat: number) =>
+      hand.every(card => dealt[seat].some(d => d.id === card.id));
+    if (hands && !hands.every(matchesSeed)) {
+      return { error: `${where}: hands do not match the deal seed` };
+    }
+    hands = hands ?? dealt;
+  }
+
+  if (!Array.isArray(raw.moves)) return { error: `${where}: missing moves` };
+  const held = hands?.map(hand => new Set(hand.map(card => card.id))) ?? null;
+  const played = new Set<string>();
+  const moves: GameRecordMove[] = [];
+  let lastPlay: { seat: number; play: LastPlay } | null = null;
+  let finished = false;
+
+  for (const [index, rawMove] of raw.moves.entries()) {
+    const at = `${where}, move ${index + 1}`;
+    if (!isRecord(rawMove)) return { error: `${at}: malformed move` };
+    const seat = rawMove.seat;
+    if (typeof seat !== 'number' || !Number.isInteger(seat) || seat < 0 || seat >= playerCount) {
+      return { error: `${at}: invalid seat` };
+    }
+    if (finished) return { error: `${at}: the match was already won` };
+    const leads = !lastPlay || lastPlay.seat === seat;
+
+    if (rawMove.pass === true) {
+      if (leads) return { error: `${at}: cannot pass when leading` };
+      moves.push({ seat, pass: true });
+      continue;
+    }
+
+    const cards = parseCardIds(rawMove.cards);
+    if (!cards || cards.length === 0) return { error: `${at}: invalid cards` };
+    if (cards.some(card => played.has(card.id))) return { error: `${at}: card already played` };
+    if (held && cards.some(card => !held[seat].has(card.id))) {
+      return { error: `${at}: card not in hand` };
+    }
+    if (context.isFirstMatch && played.size === 0 && !cards.some(c => isOpeningCard(c, rules))) {
+      return { error: `${at}: first play must include ${getOpeningCardId(rules)}` };
+    }
+    const combo = classifyCards(cards, rules);
+    if (combo === 'unknown') return { error: `${at}: invalid card combination` };
+    if (!leads && !canBeatPlay(cards, lastPlay!.play, rules)) {
+      return { error: `${at}: cannot beat last play` };
+    }
+
+    for (const card of cards) {
+      played.add(card.id);
+      held?.[seat].delete(card.id);
+    }
+    lastPlay = { seat, play: { position: seat, cards, combo_type: combo } };
+    finished = held !== null && held[seat].size === 0;
+    moves.push({ seat, cards: cards.map(card => card.id) });
+  }
+
+  let scores: number[] | undefined;
+  if (raw.scores !== undefined) {
+    if (
+      !Array.isArray(raw.scores) ||
+      raw.scores.length !== playerCount ||
+      !raw.scores.every(points => typeof points === 'number' && Number.isFinite(points))
+    ) {
+      return { error: `${where}: invalid scores` };
+    }
+    scores = raw.scores as number[];
+  }
+
+  return {
+    match: {
+      number,
+      ...(hands ? { hands: hands.map(hand => hand.map(card => card.id)) } : {}),
+      moves,
+      ...(scores ? { scores } : {}),
+    },
+  };
+}
+
+/**
+ * Validate an untrusted record (already parsed from JSON) and normalize it:
+ * rules and scoring are completed, card ids upper-cased and the hands of
+ * seeded matches filled in.
+ */
+export function validateGameRecord(raw: unknown): GameRecordParseResult {
+  if (!isRecord(raw) || raw.format !== GAME_RECORD_FORMAT) {
+    return { valid: false, error: 'Not a Big Two game record' };
+  }
+  const version = raw.version;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1 ||
+    version > GAME_RECORD_VERSION
+  ) {
+    return { valid: false, error: `Unsupported record version: ${String(version)}` };
+  }
+  const players = raw.players;
+  if (
+    !Array.isArray(players) ||
+    !isPlayerCount(players.length) ||
+    !players.every(name => typeof name === 'string')
+  ) {
+    return {
+      valid: false,
+      error: `A record needs ${MIN_PLAYERS} to ${MAX_PLAYERS} player names`,
+    };
+  }
+  if (raw.dealVariant !== undefined && !isDealVariant(raw.dealVariant)) {
+    return { valid: false, error: 'Invalid deal variant' };
+  }
+  const dealVariant = raw.dealVariant ?? DEFAULT_DEAL_VARIANT;
+  const shortTable = players.length < MAX_PLAYERS;
+  if (raw.dealSeed != null && !isDealSeed(raw.dealSeed)) {
+    return { valid: false, error: 'Invalid deal seed' };
+  }
+  const dealSeed = raw.dealSeed ?? undefined;
+  const seatRotation = raw.seatRotation ?? 0;
+  if (
+    typeof seatRotation !== 'number' ||
+    !Number.isInteger(seatRotation) ||
+    seatRotation < 0 ||
+    seatRotation >= players.length
+  ) {
+    return { valid: false, error: 'Invalid seat rotation' };
+  }
+  if (!Array.isArray(raw.matches) || raw.matches.length === 0) {
+    return { valid: false, error: 'The record has no matches' };
+  }
+
+  const rules = normalizeRuleSet(raw.rules);
+  const matches: GameRecordMatch[] = [];
+  for (const rawMatch of raw.matches) {
+    const result = validateMatch(rawMatch, matches[matches.length - 1]?.number ?? 0, {
+      playerCount: players.length,
+      rules,
+      dealSeed,
+      seatRotation,
+      dealVariant,
+      isFirstMatch: matches.length === 0 && isRecord(rawMatch) && rawMatch.number === 1,
+    });
+    if ('error' in result) return { valid: false, error: result.error };
+    matches.push(result.match);
+  }
+
+  return {
+    valid: true,
+    record: {
+      format: GAME_RECORD_FORMAT,
+      version,
+      players: [...players],
+      rules,
+      scoring: normalizeScoringConfig(raw.scoring),
+      ...(dealSeed ? { dealSeed, seatRotation } : {}),
+      ...(shortTable ? { dealVariant } : {}),
+      matches,
+    },
+  };
+}
+
+/** Parse and validate the text form of a record */
+export function parseGameRecord(text: string): GameRecordParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { valid: false, error: 'Not a Big Two game record' };
+  }
+  return validateGameRecord(raw);
+}
+
+/** Replay source of a validated record, for the replay viewer */
+export function gameRecordToReplaySource(record: GameRecord): GameReplaySource {
+  const playHistory: ReplayHistoryEntry[] = [];
+  const initialHands: Record<number, Card[][]> = {};
+
+  for (const match of record.matches) {
+    if (match.hands) initialHands[match.number] = match.hands.map(toCards);
+    for (const move of match.moves) {
+      const cards = isPass(move) ? [] : toCards(move.cards);
+      playHistory.push({
+        match_number: match.number,
+        position: move.seat,
+        cards,
+        combo_type: isPass(move) ? 'pass' : classifyCards(cards, record.rules),
+        passed: isPass(move),
+      });
+    }
+  }
+
+  return {
+    playerNames: [...record.players],
+    playHistory,
+    dealSeed: record.dealSeed ?? null,
+    seatRotation: record.seatRotation ?? 0,
+    ...(record.dealVariant ? { dealVariant: record.dealVariant } : {}),
+    initialHands,
+    ruleSet: record.rules,
+  };
+}
+
+/**
+ * The position of a validated record just before move `step` (0-based) of a
+ * match, i.e. after `step` moves, like ReplayFrame.step. Null when the match
+ * has no known hands or no such move.
+ */
+export function getGameRecordPosition(
+  record: GameRecord,
+  matchNumber: number,
+  step: number
+): GameRecordPosition | null {
+  const match = record.matches.find(m => m.number === matchNumber);
+  const next = match?.moves[step];
+  if (!match?.hands || !next || step < 0) return null;
+
+  const hands = match.hands.map(toCards);
+  const playedCards: Card[] = [];
+  let lastPlay: LastPlay | null = null;
+  let consecutivePasses = 0;
+
+  for (const move of match.moves.slice(0, step)) {
+    if (isPass(move)) {
+      consecutivePasses++;
+      continue;
+    }
+    const cards = toCards(move.cards);
+    hands[move.seat] = hands[move.seat].filter(card => !move.cards.includes(card.id));
+    playedCards.push(...cards);
+    lastPlay = {
+      position: move.seat,
+      cards,
+      combo_type: classifyCards(cards, record.rules),
+    };
+    consecutivePasses = 0;
+  }
+
+  const leads = !lastPlay || lastPlay.position === next.seat;
+  return {
+    matchNumber,
+    hands: hands.map(hand => sortHand(hand, record.rules)),
+    currentSeat: next.seat,
+    lastPlay: leads ? null : lastPlay,
+    consecutivePasses: leads ? 0 : consecutivePasses,
+    playedCards,
+    isFirstPlayOfGame: matchNumber === 1 && playedCards.length === 0,
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Glicko-2 Ratings
+ *
+ * Ranked ratings with a rating deviation and volatility per player, the
+ * decay that widens the deviation while a player sits out, the pairwise
+ * rating of a four-player table and the matchmaking rating window. Used by
+ * complete-game, find-match and scripts/recompute-ratings.mjs.
+ *
+ * @module glicko2
+ */
+
+export {
+  DEFAULT_GLICKO2_RATING,
+  GLICKO2_MIN_DEVIATION,
+  GLICKO2_MAX_DEVIATION,
+  GLICKO2_TAU,
+  GLICKO2_RATING_PERIOD_MS,
+  MIN_MATCHMAKING_RATING_WINDOW,
+  MAX_MATCHMAKING_RATING_WINDOW,
+  decayGlicko2Rating,
+  updateGlicko2Rating,
+  rateRankedGame,
+  glicko2IdlePeriods,
+  matchmakingRatingWindow,
+  type Glicko2Rating,
+  type Glicko2Result,
+  type RankedGamePlayer,
+} from '../../../supabase/functions/_shared/glicko2';
@@ -21,6 +21,12 @@ import {
   SUIT_VALUE,
 } from './constants';
 import { sortHand, classifyCards, isStraight } from './game-logic';
+import {
+  STANDARD_RULE_SET,
+  isStandardRuleSet,
+  isHighestRemainingPlay,
+  type RuleSet,
+} from './rule-set';
 
 // Precomputed descending-rank array used throughout this module.
 // Avoids repeated allocations of `[...RANKS].reverse()` in hot paths.
@@ -659,6 +665,7 @@ function isHighestRemainingFiveCardCombo(
  *
  * @param cards - The cards being played
  * @param playedCards - All cards that have been played so far this game
+ * @param rules - House rules; non-standard rule sets use the shared isHighestRemainingPlay
  * @returns True if this is the highest remaining possible play
  *
  * @example
@@ -675,8 +682,13 @@ function isHighestRemainingFiveCardCombo(
  * isHighestPossiblePlay(fourTwos, manyPlayed) // true if no SF possible
  * ```
  */
-export function isHighestPossiblePlay(cards: Card[], playedCards: Card[]): boolean {
+export function isHighestPossiblePlay(
+  cards: Card[],
+  playedCards: Card[],
+  rules: RuleSet = STANDARD_RULE_SET
+): boolean {
   if (!cards || cards.length === 0) return false;
+  if (!isStandardRuleSet(rules)) return isHighestRemainingPlay(cards, playedCards, rules);
 
   const sorted = sortHand(cards);
   const type = classifyCards(cards);
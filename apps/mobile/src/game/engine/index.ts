@@ -6,6 +6,20 @@
 export * from './constants';
 export * from './utils';
 export * from './game-logic';
+export * from './rule-set';
+export * from './scoring-config';
+export * from './seeded-deal';
+export * from './replay';
+export * from './game-record';
+export * from './tournament';
+export * from './spectator';
+export * from './room-listing';
+export * from './room-timers';
+export * from './room-table';
+export * from './seasons';
+export * from './glicko2';
+export * from './matchmaking-queue';
+export * from './game-log';
 export * from './highest-play-detector';
 export * from './auto-pass-timer';
 export type { Card, ComboType, ClassificationResult, LastPlay, Rank, Suit } from '../types';
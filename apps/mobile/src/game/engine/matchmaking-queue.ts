@@ -0,0 +1,35 @@
+/**
+ * Matchmaking Queue
+ *
+ * How find-match seats a table of two, three or four players from the
+ * waiting room: rating windows that widen with waiting time, the regions a
+ * search reaches, keeping last game's opponents apart, parties of friends
+ * seated together and the wait estimate. The matchmaking screen shows the
+ * search range with the same functions.
+ *
+ * @module matchmaking-queue
+ */
+
+export {
+  MATCHMAKING_TABLE_SIZE,
+  MIN_MATCHMAKING_TABLE_SIZE,
+  MAX_MATCHMAKING_PARTY_SIZE,
+  MATCHMAKING_WINDOW_STEP,
+  MATCHMAKING_WINDOW_STEP_MS,
+  MAX_WIDENED_RATING_WINDOW,
+  MATCHMAKING_NEARBY_REGIONS_AFTER_MS,
+  MATCHMAKING_ANY_REGION_AFTER_MS,
+  MATCHMAKING_REMATCH_AFTER_MS,
+  MATCHMAKING_NEARBY_REGIONS,
+  isMatchmakingTableSize,
+  widenedRatingWindow,
+  matchmakingRegionReach,
+  matchmakingRegionDistance,
+  matchmakingSearchRange,
+  canMatchmakingGroupsMeet,
+  assembleMatchmakingTable,
+  estimateMatchmakingWaitMs,
+  type MatchmakingGroup,
+  type MatchmakingRegionReach,
+  type MatchmakingSearchRange,
+} from '../../../supabase/functions/_shared/matchmakingQueue';
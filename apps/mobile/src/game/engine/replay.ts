@@ -0,0 +1,248 @@
+/**
+ * Game replays
+ *
+ * Rebuilds a finished game move by move. Online games record their plays in
+ * game_state.play_history (copied to game_history.play_history when the game
+ * ends); local games record plays and passes in GameState.gameRoundHistory.
+ * The starting hands are not stored with the moves: they are dealt again from
+ * the game's deal seed (see seeded-deal), so every hand can be shown once
+ * the seed has been revealed. Imported game records (see game-record) may
+ * carry the hands instead.
+ *
+ * Tricks are derived from the plays alone: the player who made the last play
+ * of a trick always leads the next one, so a play by the same seat as the
+ * previous play starts a new trick. This works for online histories, which
+ * do not record passes.
+ *
+ * @module replay
+ */
+
+import type { Card } from '../types';
+import { sortHand } from './game-logic';
+import type { RuleSet } from './rule-set';
+import { dealSeededHands, isDealSeed, isPlayerCount, type DealVariant } from './seeded-deal';
+
+/** One recorded move, in the shape of game_state.play_history entries */
+export interface ReplayHistoryEntry {
+  match_number: number;
+  position: number;
+  cards: Card[];
+  combo_type: string;
+  passed: boolean;
+}
+
+/** Everything needed to rebuild a replay; also the persisted form */
+export interface GameReplaySource {
+  playerNames: string[];
+  playHistory: ReplayHistoryEntry[];
+  /** Seed the game was dealt from; null/absent hides the hands */
+  dealSeed?: string | null;
+  seatRotation?: number | null;
+  /** How a two- or three-player game was dealt (absent = the default variant) */
+  dealVariant?: DealVariant;
+  /** Seat-indexed starting hands by match number; take precedence over the seed */
+  initialHands?: Record<number, Card[][]>;
+  /** House rules the game was played with (for move analysis) */
+  ruleSet?: RuleSet;
+}
+
+export interface ReplayMove {
+  seat: number;
+  cards: Card[];
+  comboType: string;
+  passed: boolean;
+}
+
+export interface ReplayMatch {
+  matchNumber: number;
+  /** Seat-indexed starting hands; null when the deal cannot be rebuilt */
+  deal: Card[][] | null;
+  moves: ReplayMove[];
+}
+
+export interface GameReplay {
+  playerNames: string[];
+  matches: ReplayMatch[];
+  ruleSet?: RuleSet;
+}
+
+/** The table after a number of moves of one match */
+export interface ReplayFrame {
+  matchNumber: number;
+  /** 0 = just dealt, n = after the n-th move */
+  step: number;
+  /** 1-based trick number; 0 before the first play */
+  trickNumber: number;
+  /** The move that led to this frame (null for the deal) */
+  move: ReplayMove | null;
+  /** Plays of the current trick so far, oldest first */
+  trick: ReplayMove[];
+  /** Seat-indexed hands at this point; null when the deal is unknown */
+  hands: Card[][] | null;
+  cardsLeft: number[];
+}
+
+/**
+ * Convert a local game's round history (player ids) to seat-indexed entries.
+ * Entries without a match number (saves from before it was recorded) or from
+ * unknown players are dropped.
+ */
+export function roundHistoryToReplayHistory(
+  entries: readonly {
+    playerId: string;
+    cards: Card[];
+    combo_type: string;
+    passed: boolean;
+    matchNumber?: number;
+  }[],
+  playerIds: readonly string[]
+): ReplayHistoryEntry[] {
+  const history: ReplayHistoryEntry[] = [];
+  for (const entry of entries) {
+    const position = playerIds.indexOf(entry.playerId);
+    if (entry.matchNumber == null || position < 0) continue;
+    history.push({
+      match_number: entry.matchNumber,
+      position,
+      cards: entry.passed ? [] : entry.cards,
+      combo_type: entry.combo_type,
+      passed: entry.passed,
+    });
+  }
+  return history;
+}
+
+/** Seat-indexed starting hands, or null if they are unknown or do not fit the moves */
+function rebuildDeal(
+  moves: readonly ReplayMove[],
+  matchNumber: number,
+  source: GameReplaySource
+): Card[][] | null {
+  const playerCount = source.playerNames.length;
+  const given = source.initialHands?.[matchNumber];
+  let hands: Card[][];
+  if (Array.isArray(given) && given.length === playerCount) {
+    hands = given;
+  } else if (isDealSeed(source.dealSeed) && isPlayerCount(playerCount)) {
+    hands = dealSeededHands(
+      source.dealSeed,
+      matchNumber,
+      source.seatRotation ?? 0,
+      playerCount,
+      source.dealVariant,
+      source.ruleSet
+    );
+  } else {
+    return null;
+  }
+  const deal = hands.map(hand => sortHand(hand));
+  const dealt = deal.map(hand => new Set(hand.map(card => card.id)));
+  const fits = moves.every(move => move.cards.every(card => dealt[move.seat]?.has(card.id)));
+  return fits ? deal : null;
+}
+
+/**
+ * Group a play history by match and rebuild each match's deal. Malformed
+ * entries are skipped so a replay can be built from any stored history.
+ */
+export function buildGameReplay(source: GameReplaySource): GameReplay {
+  const playerCount = source.playerNames.length;
+  const movesByMatch = new Map<number, ReplayMove[]>();
+
+  for (const entry of source.playHistory) {
+    if (!entry || !Number.isInteger(entry.position)) continue;
+    if (entry.position < 0 || entry.position >= playerCount) continue;
+    const matchNumber = Number.isInteger(entry.match_number) ? entry.match_number : 1;
+    const cards = Array.isArray(entry.cards) ? entry.cards : [];
+    const passed = entry.passed === true || cards.length === 0;
+    const moves = movesByMatch.get(matchNumber) ?? [];
+    moves.push({
+      seat: entry.position,
+      cards: passed ? [] : cards,
+      comboType: entry.combo_type,
+      passed,
+    });
+    movesByMatch.set(matchNumber, moves);
+  }
+
+  const matches = [...movesByMatch.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([matchNumber, moves]) => ({
+      matchNumber,
+      deal: rebuildDeal(moves, matchNumber, source),
+      moves,
+    }));
+
+  return {
+    playerNames: [...source.playerNames],
+    matches,
+    ...(source.ruleSet && { ruleSet: source.ruleSet }),
+  };
+}
+
+/**
+ * Every position of a match, from the deal (frame 0) to the last move.
+ * `playerCount` is needed for the card counts when the deal is unknown.
+ */
+export function buildReplayFrames(match: ReplayMatch, playerCount: number): ReplayFrame[] {
+  let hands = match.deal ? match.deal.map(hand => [...hand]) : null;
+  const cardsLeft = match.deal
+    ? match.deal.map(hand => hand.length)
+    : Array.from({ length: playerCount }, () => 13);
+  let trick: ReplayMove[] = [];
+  let trickNumber = 0;
+
+  const frames: ReplayFrame[] = [
+    {
+      matchNumber: match.matchNumber,
+      step: 0,
+      trickNumber,
+      move: null,
+      trick,
+      hands,
+      cardsLeft: [...cardsLeft],
+    },
+  ];
+
+  match.moves.forEach((move, index) => {
+    if (!move.passed) {
+      const lastPlay = trick[trick.length - 1];
+      if (!lastPlay || lastPlay.seat === move.seat) {
+        trick = [];
+        trickNumber++;
+      }
+      trick = [...trick, move];
+      cardsLeft[move.seat] = Math.max(0, cardsLeft[move.seat] - move.cards.length);
+      if (hands) {
+        const played = new Set(move.cards.map(card => card.id));
+        hands = hands.map((hand, seat) =>
+          seat === move.seat ? hand.filter(card => !played.has(card.id)) : hand
+        );
+      }
+    }
+    frames.push({
+      matchNumber: match.matchNumber,
+      step: index + 1,
+      trickNumber,
+      move,
+      trick,
+      hands,
+      cardsLeft: [...cardsLeft],
+    });
+  });
+
+  return frames;
+}
+
+/** Step of the first frame of every trick, in order (for trick-by-trick stepping) */
+export function getTrickStartSteps(frames: readonly ReplayFrame[]): number[] {
+  const steps: number[] = [];
+  let trickNumber = 0;
+  for (const frame of frames) {
+    if (frame.trickNumber !== trickNumber) {
+      steps.push(frame.step);
+      trickNumber = frame.trickNumber;
+    }
+  }
+  return steps;
+}
@@ -0,0 +1,19 @@
+/**
+ * Public room listing settings, re-exported from _shared/roomListing.ts
+ *
+ * @module room-listing
+ */
+
+export {
+  DEFAULT_ROOM_LISTING_SETTINGS,
+  ROOM_TURN_TIMER_OPTIONS,
+  MAX_ROOM_TITLE_LENGTH,
+  MIN_ROOM_TURN_TIMER_SECONDS,
+  MAX_ROOM_TURN_TIMER_SECONDS,
+  isRoomBotDifficulty,
+  isRoomTurnTimerSeconds,
+  normalizeRoomTitle,
+  normalizeRoomListingSettings,
+  type RoomBotDifficulty,
+  type RoomListingSettings,
+} from '../../../supabase/functions/_shared/roomListing';
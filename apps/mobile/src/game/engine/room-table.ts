@@ -0,0 +1,18 @@
+/**
+ * Online room seats and deal variant, re-exported from _shared/roomTable.ts
+ *
+ * @module room-table
+ */
+
+export {
+  DEFAULT_ROOM_TABLE,
+  normalizeRoomTable,
+  getSeatCount,
+  getNextSeat,
+  getTurnOrder,
+  getOtherSeats,
+  getOpponentHandSizes,
+  getDealtHandSizes,
+  type RoomTable,
+  type SeatPlayRecord,
+} from '../../../supabase/functions/_shared/roomTable';
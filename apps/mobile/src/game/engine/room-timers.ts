@@ -0,0 +1,20 @@
+/**
+ * Per-room turn, auto-pass and disconnect timers, re-exported from _shared/roomTimers.ts
+ *
+ * @module room-timers
+ */
+
+export {
+  DEFAULT_ROOM_TIMER_SETTINGS,
+  ROOM_TIMER_PRESETS,
+  MIN_ROOM_AUTO_PASS_SECONDS,
+  MAX_ROOM_AUTO_PASS_SECONDS,
+  MIN_ROOM_DISCONNECT_SECONDS,
+  MAX_ROOM_DISCONNECT_SECONDS,
+  isRoomAutoPassSeconds,
+  isRoomDisconnectSeconds,
+  normalizeRoomTimerSettings,
+  getRoomTimerPresetId,
+  type RoomTimerSettings,
+  type RoomTimerPresetId,
+} from '../../../supabase/functions/_shared/roomTimers';
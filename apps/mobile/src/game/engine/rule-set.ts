@@ -0,0 +1,25 @@
+/**
+ * House rules (RuleSet)
+ *
+ * Suit order, 2s in straights, flush ranking and bare four-of-a-kind are
+ * configurable per room. Like the rest of the engine, the implementation lives
+ * in the isomorphic rules module (supabase/functions/_shared/gameEngine.ts) so
+ * play-cards / player-pass apply exactly the rules the client validated with.
+ *
+ * @module rule-set
+ */
+
+export {
+  STANDARD_RULE_SET,
+  RULE_SET_PRESETS,
+  normalizeRuleSet,
+  isStandardRuleSet,
+  getSuitValues,
+  getStraightSequences,
+  getOpeningCardId,
+  isOpeningCard,
+  isHighestRemainingPlay,
+  type RuleSet,
+  type RuleSetPresetId,
+  type FlushRanking,
+} from '../../../supabase/functions/_shared/gameEngine';
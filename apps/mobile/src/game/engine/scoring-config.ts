@@ -0,0 +1,25 @@
+/**
+ * Scoring configuration (ScoringConfig)
+ *
+ * Target score, per-card multiplier tiers, the "chop 2" penalty, doubling for
+ * a player who never played and the Hong Kong winner bonus are chosen per
+ * room. The implementation lives in the isomorphic rules module
+ * (supabase/functions/_shared/gameEngine.ts) so play-cards scores a match
+ * exactly like LocalAIGame does.
+ *
+ * @module scoring-config
+ */
+
+export {
+  DEFAULT_SCORING_CONFIG,
+  TARGET_SCORE_OPTIONS,
+  SCORING_TIER_PRESETS,
+  normalizeScoringConfig,
+  isDefaultScoringConfig,
+  getScoringTierPresetId,
+  calculateMatchPoints,
+  type ScoringConfig,
+  type ScoringTier,
+  type ScoringTierPresetId,
+  type MatchPointsDetail,
+} from '../../../supabase/functions/_shared/gameEngine';
@@ -0,0 +1,19 @@
+/**
+ * Seasons
+ *
+ * Rank tiers, the soft reset applied to every rating when a season ends and
+ * the tier players earn as a season reward. The database mirrors them in
+ * roll_over_season (season_soft_reset_rating, calculate_rank_from_elo).
+ *
+ * @module seasons
+ */
+
+export {
+  SEASON_BASE_RATING,
+  MIN_SEASON_GAMES_FOR_REWARD,
+  RANK_TIER_THRESHOLDS,
+  rankTierForRating,
+  softResetSeasonRating,
+  seasonRewardTier,
+  type RankTier,
+} from '../../../supabase/functions/_shared/seasons';
@@ -0,0 +1,34 @@
+/**
+ * Seeded deals and duplicate comparison
+ *
+ * Deals are derived from a secret seed whose SHA-256 is published before the
+ * first card is dealt and which is revealed after the game, so players can
+ * check the deal was fair. Two- and three-player tables are dealt by one of
+ * the DealVariant rules. The same module is used by start_new_match and
+ * complete-game (supabase/functions/_shared/gameEngine.ts); the first deal of
+ * an online game is reproduced in SQL by deal_seeded_deck().
+ *
+ * @module seeded-deal
+ */
+
+export {
+  DEAL_SEED_LENGTH,
+  sha256Hex,
+  createDealSeed,
+  isDealSeed,
+  hashDealSeed,
+  verifyDealSeed,
+  createOrderedDeck,
+  shuffleDeckWithSeed,
+  DEAL_VARIANTS,
+  DEFAULT_DEAL_VARIANT,
+  isDealVariant,
+  isPlayerCount,
+  getCardsPerPlayer,
+  dealSeededHands,
+  getDealtHandIndex,
+  compareDuplicateResults,
+  type DealVariant,
+  type DuplicateTableResult,
+  type DuplicateSeatResult,
+} from '../../../supabase/functions/_shared/gameEngine';
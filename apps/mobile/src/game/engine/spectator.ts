@@ -0,0 +1,15 @@
+/**
+ * Room spectator settings, re-exported from _shared/spectator.ts
+ *
+ * @module spectator
+ */
+
+export {
+  DEFAULT_SPECTATOR_SETTINGS,
+  SPECTATOR_REVEAL_DELAY_OPTIONS,
+  MIN_SPECTATOR_REVEAL_DELAY_SECONDS,
+  MAX_SPECTATOR_REVEAL_DELAY_SECONDS,
+  isSpectatorRevealDelay,
+  normalizeSpectatorSettings,
+  type SpectatorSettings,
+} from '../../../supabase/functions/_shared/spectator';
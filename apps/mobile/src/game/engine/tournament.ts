@@ -0,0 +1,32 @@
+/**
+ * Tournaments
+ *
+ * Seeding, table draws, round counts and standings for Swiss and
+ * single-elimination tournaments. The same module is used by the
+ * advance-tournament Edge Function (supabase/functions/_shared/tournament.ts),
+ * which creates each round's rooms, so the bracket screen shows exactly the
+ * standings the server advances on.
+ *
+ * @module tournament
+ */
+
+export {
+  TOURNAMENT_FORMATS,
+  TOURNAMENT_TABLE_SIZE,
+  TOURNAMENT_PLACE_POINTS,
+  MIN_TOURNAMENT_ENTRANTS,
+  MAX_TOURNAMENT_ENTRANTS,
+  isTournamentFormat,
+  seedTournamentEntrants,
+  drawTournamentTables,
+  getTournamentRoundCount,
+  orderTournamentTable,
+  getAdvancingPlayers,
+  computeTournamentStandings,
+  getNextRoundPlayers,
+  type TournamentFormat,
+  type TournamentRegistration,
+  type TournamentEntrant,
+  type TournamentTableResult,
+  type TournamentStanding,
+} from '../../../supabase/functions/_shared/tournament';
@@ -21,6 +21,8 @@ export {
   MAX_PLAYERS,
   CARDS_PER_PLAYER,
   TOTAL_CARDS,
+  MIN_PLAYERS,
+  MAX_HAND_SIZE,
 } from './engine/constants';
 
 // Export game engine
@@ -33,6 +35,153 @@ export {
   isStraight,
 } from './engine/game-logic';
 
+// Export house rules
+export {
+  STANDARD_RULE_SET,
+  RULE_SET_PRESETS,
+  normalizeRuleSet,
+  getOpeningCardId,
+  type RuleSet,
+  type RuleSetPresetId,
+} from './engine/rule-set';
+
+// Export scoring configuration
+export {
+  DEFAULT_SCORING_CONFIG,
+  TARGET_SCORE_OPTIONS,
+  normalizeScoringConfig,
+  type ScoringConfig,
+} from './engine/scoring-config';
+
+// Export seeded deals (verifiable shuffles, duplicate mode)
+export {
+  createDealSeed,
+  hashDealSeed,
+  verifyDealSeed,
+  dealSeededHands,
+  getCardsPerPlayer,
+  isDealVariant,
+  isPlayerCount,
+  DEAL_VARIANTS,
+  DEFAULT_DEAL_VARIANT,
+  compareDuplicateResults,
+  type DealVariant,
+  type DuplicateTableResult,
+  type DuplicateSeatResult,
+} from './engine/seeded-deal';
+
+// Export replays (rebuilt from play history and the deal seed)
+export {
+  buildGameReplay,
+  buildReplayFrames,
+  getTrickStartSteps,
+  type GameReplay,
+  type GameReplaySource,
+  type ReplayFrame,
+  type ReplayMatch,
+  type ReplayMove,
+} from './engine/replay';
+
+// Export game records (portable import/export format)
+export {
+  GAME_RECORD_FORMAT,
+  GAME_RECORD_VERSION,
+  createGameRecord,
+  serializeGameRecord,
+  parseGameRecord,
+  validateGameRecord,
+  gameRecordToReplaySource,
+  getGameRecordPosition,
+  type GameRecord,
+  type GameRecordMatch,
+  type GameRecordMove,
+  type GameRecordPosition,
+  type GameRecordParseResult,
+} from './engine/game-record';
+
+// Export tournaments (seeding, table draws, standings)
+export {
+  TOURNAMENT_FORMATS,
+  MIN_TOURNAMENT_ENTRANTS,
+  MAX_TOURNAMENT_ENTRANTS,
+  isTournamentFormat,
+  computeTournamentStandings,
+  getTournamentRoundCount,
+  orderTournamentTable,
+  type TournamentFormat,
+  type TournamentEntrant,
+  type TournamentTableResult,
+  type TournamentStanding,
+} from './engine/tournament';
+
+// Export spectator settings (who may watch, delayed open hands)
+export {
+  DEFAULT_SPECTATOR_SETTINGS,
+  SPECTATOR_REVEAL_DELAY_OPTIONS,
+  normalizeSpectatorSettings,
+  type SpectatorSettings,
+} from './engine/spectator';
+
+// Export room listing settings (title, bot difficulty, turn timer)
+export {
+  DEFAULT_ROOM_LISTING_SETTINGS,
+  ROOM_TURN_TIMER_OPTIONS,
+  normalizeRoomTitle,
+  normalizeRoomListingSettings,
+  type RoomBotDifficulty,
+  type RoomListingSettings,
+} from './engine/room-listing';
+
+// Export per-room turn, auto-pass and disconnect timers
+export {
+  DEFAULT_ROOM_TIMER_SETTINGS,
+  ROOM_TIMER_PRESETS,
+  normalizeRoomTimerSettings,
+  getRoomTimerPresetId,
+  type RoomTimerSettings,
+  type RoomTimerPresetId,
+} from './engine/room-timers';
+
+// Export season soft resets, rank tiers and rewards
+export {
+  SEASON_BASE_RATING,
+  MIN_SEASON_GAMES_FOR_REWARD,
+  rankTierForRating,
+  softResetSeasonRating,
+  seasonRewardTier,
+  type RankTier,
+} from './engine/seasons';
+
+// Export Glicko-2 ranked ratings
+export {
+  DEFAULT_GLICKO2_RATING,
+  rateRankedGame,
+  updateGlicko2Rating,
+  decayGlicko2Rating,
+  matchmakingRatingWindow,
+  type Glicko2Rating,
+  type RankedGamePlayer,
+} from './engine/glicko2';
+
+// Export matchmaking queue rules
+export {
+  MAX_MATCHMAKING_PARTY_SIZE,
+  matchmakingSearchRange,
+  assembleMatchmakingTable,
+  estimateMatchmakingWaitMs,
+  type MatchmakingGroup,
+  type MatchmakingSearchRange,
+} from './engine/matchmaking-queue';
+
+// Export the game event log (game_state rebuilt from game_events)
+export {
+  rebuildGameStateFromEvents,
+  diffGameLogState,
+  type GameLogEvent,
+  type GameLogState,
+  type GameLogRebuild,
+} from './engine/game-log';
+
 // Export highest play detector (for auto-pass timer)
 export { isHighestPossiblePlay } from './engine/highest-play-detector';
 
@@ -40,11 +189,68 @@ export { isHighestPossiblePlay } from './engine/highest-play-detector';
 export {
   BotAI,
   createBotAI,
+  createLearnedBotAI,
   getBotPlay,
+  getLocalTurnOrder,
+  LOCAL_TURN_ORDERS,
   type BotDifficulty,
   type BotPlayOptions,
   type BotPlayResult,
 } from './bot';
+export {
+  applyBotPersonality,
+  isBotPersonality,
+  BOT_PERSONALITIES,
+  BOT_PERSONALITY_TRAITS,
+  type BotPersonality,
+  type BotPersonalityTraits,
+} from './bot/personality';
+
+// Export post-game move analysis (blunder check)
+export {
+  analyzeGame,
+  type GameAnalysis,
+  type MoveAnnotation,
+  type MoveAnnotationKind,
+  type MoveAnnotationSeverity,
+} from './bot/move-analysis';
+
+// Export the expert bot search and the self-play benchmark
+export {
+  searchExpertPlay,
+  passObservationsFromMoves,
+  DEFAULT_EXPERT_TIME_BUDGET_MS,
+  type ExpertSearchOptions,
+  type ExpertSearchResult,
+  type PassObservation,
+} from './bot/expert';
+export {
+  runBotBenchmark,
+  runBotBenchmarkSuite,
+  formatBotBenchmark,
+  type BenchmarkBot,
+  type BotBenchmarkOptions,
+  type BotBenchmarkResult,
+} from './bot/benchmark';
+
+// Export the learned bot and its training pipeline
+export {
+  parseLearnedBotModel,
+  extractPlayFeatures,
+  PLAY_FEATURE_NAMES,
+  type LearnedBotModel,
+  type LearnedPosition,
+} from './bot/learned';
+export {
+  buildTrainingExamples,
+  trainLearnedBot,
+  evaluateLearnedBot,
+  type TrainingRow,
+  type TrainingExample,
+  type TrainingDataset,
+  type TrainLearnedBotOptions,
+  type TrainingReport,
+} from './bot/training';
 
 // Export state management
 export {
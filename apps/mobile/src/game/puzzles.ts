@@ -0,0 +1,182 @@
+/**
+ * Puzzles
+ *
+ * Bundled endgame positions with a goal — go out within a number of plays, or
+ * go out before the opponent holding one card does. A puzzle is played like
+ * a tutorial lesson, through a GameStateManager that is never saved, against
+ * hard bots; evaluatePuzzle reads the outcome off the game state. The hint is
+ * the engine's own recommendation (findRecommendedPlay), and every bundled
+ * puzzle is solved by following it (see puzzles.test.ts).
+ *
+ * Progress — solved or not, attempts and hints used — is kept on the device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { gameLogger } from '../utils/logger';
+import { findRecommendedPlay, type GameRecordPosition } from './engine';
+import type { BotDifficulty } from './bot';
+import type { GameState } from './state';
+import { cardsFromIds, scriptedLastPlay } from './tutorial';
+
+const PUZZLE_PROGRESS_KEY = '@big2_puzzle_progress';
+
+export type PuzzleGoal =
+  /** Play out every card within this many plays (passes do not count) */
+  | { kind: 'go-out'; plays: number }
+  /** Go out before the player in this seat, who is down to one card */
+  | { kind: 'stop-one-card'; seat: number };
+
+export interface Puzzle {
+  id: string;
+  /** i18n key of the puzzle title */
+  titleKey: string;
+  goal: PuzzleGoal;
+  /** The human (seat 0) to move; one bot per further hand */
+  position: GameRecordPosition;
+  botDifficulty: BotDifficulty;
+}
+
+export type PuzzleStatus = 'playing' | 'solved' | 'failed';
+
+export interface PuzzleProgress {
+  solved: boolean;
+  attempts: number;
+  /** Hints used on the attempt that solved it (or on the last attempt) */
+  hintsUsed: number;
+}
+
+/** A position with the human to move */
+function puzzlePosition(
+  hands: string[][],
+  lastPlay: { cards: string[]; seat: number } | null = null
+): GameRecordPosition {
+  return {
+    matchNumber: 1,
+    hands: hands.map(hand => cardsFromIds(hand)),
+    currentSeat: 0,
+    lastPlay: lastPlay ? scriptedLastPlay(lastPlay.cards, lastPlay.seat) : null,
+    consecutivePasses: 0,
+    playedCards: lastPlay ? cardsFromIds(lastPlay.cards) : [],
+    isFirstPlayOfGame: false,
+  };
+}
+
+export const PUZZLES: readonly Puzzle[] = [
+  {
+    // Take the trick with the 2 and lead the pair; passing lets the kings out
+    id: 'take-the-lead',
+    titleKey: 'tutorial.puzzles.takeTheLead',
+    goal: { kind: 'go-out', plays: 2 },
+    position: puzzlePosition(
+      [
+        ['6C', '6D', '2S'],
+        ['KH', 'KS'],
+      ],
+      { cards: ['9C'], seat: 1 }
+    ),
+    botDifficulty: 'hard',
+  },
+  {
+    // Lead the straight, then the ace; a low single is answered by the queen
+    // the one-card rule forces out, and the king goes out on it
+    id: 'one-card-opponent',
+    titleKey: 'tutorial.puzzles.oneCardOpponent',
+    goal: { kind: 'stop-one-card', seat: 1 },
+    position: puzzlePosition([
+      ['4D', '5C', '6H', '7S', '8D', 'AS'],
+      ['KD'],
+      ['3S', '9H', '10C', 'JD', 'QC'],
+    ]),
+    botDifficulty: 'hard',
+  },
+  {
+    // The full house first: no three cards answer it, and the one-card rule
+    // makes the bot spend its ace on the queen
+    id: 'full-house-first',
+    titleKey: 'tutorial.puzzles.fullHouseFirst',
+    goal: { kind: 'go-out', plays: 3 },
+    position: puzzlePosition([
+      ['4D', '4C', '9D', '9H', '9S', 'QH', '2D'],
+      ['AH', 'AS', 'KS'],
+    ]),
+    botDifficulty: 'hard',
+  },
+];
+
+/** Plays (not passes) the human has made this match */
+function countHumanPlays(state: GameState): number {
+  const humanId = state.players[0].id;
+  return state.roundHistory.filter(entry => entry.playerId === humanId && !entry.passed).length;
+}
+
+/** Whether the puzzle is solved, failed or still being played */
+export function evaluatePuzzle(puzzle: Puzzle, state: GameState): PuzzleStatus {
+  const human = state.players[0];
+  const plays = countHumanPlays(state);
+  if (state.gameEnded) {
+    const humanWon = state.winnerId === human.id;
+    if (puzzle.goal.kind === 'go-out') {
+      return humanWon && plays <= puzzle.goal.plays ? 'solved' : 'failed';
+    }
+    return humanWon ? 'solved' : 'failed';
+  }
+  if (puzzle.goal.kind === 'go-out' && plays >= puzzle.goal.plays) {
+    return 'failed';
+  }
+  return 'playing';
+}
+
+/** The engine's recommended move for the human: card ids, or null to pass */
+export function getPuzzleHint(state: GameState): string[] | null {
+  return findRecommendedPlay(
+    state.players[0].hand,
+    state.lastPlay,
+    state.isFirstPlayOfGame,
+    state.ruleSet
+  );
+}
+
+/** Progress of every puzzle played on this device, by puzzle id */
+export async function readPuzzleProgress(): Promise<Record<string, PuzzleProgress>> {
+  try {
+    const parsed: unknown = JSON.parse((await AsyncStorage.getItem(PUZZLE_PROGRESS_KEY)) ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, PuzzleProgress>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record a finished attempt. A puzzle stays solved once it is; its hint count
+ * is that of the best solving attempt.
+ */
+export async function recordPuzzleAttempt(
+  puzzleId: string,
+  result: { solved: boolean; hintsUsed: number }
+): Promise<Record<string, PuzzleProgress>> {
+  const progress = await readPuzzleProgress();
+  const previous = progress[puzzleId];
+  const attempts = (previous?.attempts ?? 0) + 1;
+
+  let entry: PuzzleProgress;
+  if (previous?.solved && !result.solved) {
+    entry = { ...previous, attempts };
+  } else if (previous?.solved && result.solved) {
+    entry = { solved: true, attempts, hintsUsed: Math.min(previous.hintsUsed, result.hintsUsed) };
+  } else {
+    entry = { solved: result.solved, attempts, hintsUsed: result.hintsUsed };
+  }
+  progress[puzzleId] = entry;
+
+  try {
+    await AsyncStorage.setItem(PUZZLE_PROGRESS_KEY, JSON.stringify(progress));
+  } catch (error: unknown) {
+    gameLogger.error(
+      'Failed to save puzzle progress:',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  return progress;
+}
@@ -0,0 +1,348 @@
+/**
+ * Save slots for local (offline) games
+ *
+ * Every offline game is saved in a slot of its own, so starting a new game no
+ * longer overwrites the one in progress. A slot holds the GameState (plus the
+ * scoreboard's score and play history, see saveSlotKeys), and the slot index
+ * keeps a small summary of each — opponents, match number, scores — for the
+ * Continue list on the Home screen without reading the games themselves. The
+ * default slot keeps the keys of the single save of earlier builds, so a game
+ * saved before slots existed is picked up as a slot of its own.
+ *
+ * Saved games carry a schema version and are upgraded one version at a time
+ * through SAVE_MIGRATIONS. A save that cannot be parsed, upgraded or validated
+ * is moved to the quarantine list instead of crashing the loader — and
+ * instead of being overwritten by the new game started in its place.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { gameLogger } from '../utils/logger';
+import type { BotDifficulty } from './bot';
+import type { GameState } from './state';
+
+/** The slot of a game saved before slots existed (and of callers that name none) */
+export const DEFAULT_SAVE_SLOT = 'default';
+/** Slots kept; saving a new one evicts the oldest, finished games first */
+export const MAX_SAVE_SLOTS = 5;
+/** Schema version written with every save */
+export const SAVE_SCHEMA_VERSION = 1;
+
+const SAVE_SLOTS_KEY = '@big2_save_slots';
+const QUARANTINED_SAVES_KEY = '@big2_quarantined_saves';
+/** Quarantined saves kept (newest first) */
+const MAX_QUARANTINED_SAVES = 3;
+
+export interface SaveSlotKeys {
+  state: string;
+  scoreHistory: string;
+  playHistory: string;
+}
+
+/** A slot's summary in the slot index */
+export interface SaveSlotSummary {
+  slotId: string;
+  /** When the slot was last saved (epoch ms) */
+  savedAt: number;
+  /** The bots at the table, in seat order */
+  opponents: { name: string; difficulty?: BotDifficulty }[];
+  matchNumber: number;
+  /** Cumulative scores of every seat, in seat order */
+  scores: { name: string; score: number }[];
+  /** False once the game is over */
+  inProgress: boolean;
+}
+
+/** A save that could not be loaded */
+interface QuarantinedSave {
+  slotId: string;
+  reason: string;
+  quarantinedAt: number;
+  data: string;
+}
+
+/** A GameState as persisted, or as written by an older build */
+type PersistedGame = Partial<GameState> & { schemaVersion?: unknown };
+
+export interface SaveMigration {
+  /** Schema version the save is at after this step */
+  version: number;
+  /** Upgrade a save of the previous version in place; true if anything changed */
+  migrate: (save: PersistedGame) => boolean;
+}
+
+export type ParsedSave =
+  | { state: GameState; fromVersion: number; migrated: boolean }
+  | { state: null; error: string };
+
+/**
+ * Upgrade steps, in version order. Version 0 is every save written before
+ * the schema was versioned.
+ */
+export const SAVE_MIGRATIONS: readonly SaveMigration[] = [
+  {
+    version: 1,
+    // Arrays added after the first release; without them the first push throws
+    migrate: save => {
+      let changed = false;
+      if (!save.gameRoundHistory) {
+        gameLogger.warn('[Migration] Adding missing gameRoundHistory array to loaded state');
+        save.gameRoundHistory = [];
+        changed = true;
+      }
+      if (!save.played_cards) {
+        gameLogger.warn('[Migration] Adding missing played_cards array to loaded state');
+        save.played_cards = [];
+        changed = true;
+      }
+      save.matchScores?.forEach(matchScore => {
+        if (matchScore && !matchScore.matchComboStats) {
+          gameLogger.warn(
+            `[Migration] Adding missing matchComboStats for player ${matchScore.playerId}`
+          );
+          matchScore.matchComboStats = {
+            singles: [],
+            pairs: [],
+            triples: [],
+            straights: [],
+            flushes: [],
+            full_houses: [],
+            four_of_a_kinds: [],
+            straight_flushes: [],
+            royal_flushes: [],
+          };
+          changed = true;
+        }
+      });
+      return changed;
+    },
+  },
+];
+
+/**
+ * AsyncStorage keys of a slot. The default slot keeps the keys of the
+ * single save of earlier builds.
+ */
+export function saveSlotKeys(slotId: string): SaveSlotKeys {
+  if (slotId === DEFAULT_SAVE_SLOT) {
+    return {
+      state: '@big2_game_state',
+      scoreHistory: '@big2_score_history',
+      playHistory: '@big2_play_history',
+    };
+  }
+  return {
+    state: `@big2_game_state:${slotId}`,
+    scoreHistory: `@big2_score_history:${slotId}`,
+    playHistory: `@big2_play_history:${slotId}`,
+  };
+}
+
+/** Id for the slot of a new game */
+export function createSaveSlotId(): string {
+  return `slot_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Serialize a game for its slot, tagged with the current schema version */
+export function serializeSave(state: GameState): string {
+  return JSON.stringify({ ...state, schemaVersion: SAVE_SCHEMA_VERSION });
+}
+
+/** Why a (migrated) save cannot be played on, or null when it can */
+function findSaveProblem(save: PersistedGame): string | null {
+  if (!Array.isArray(save.players)) return 'players is not an array';
+  if (!save.players.every(player => player && Array.isArray(player.hand))) {
+    return 'a player has no hand';
+  }
+  if (typeof save.currentPlayerIndex !== 'number') return 'currentPlayerIndex is missing';
+  if (!Array.isArray(save.roundHistory)) return 'roundHistory is not an array';
+  if (!Array.isArray(save.matchScores)) return 'matchScores is not an array';
+  return null;
+}
+
+/**
+ * Parse a saved game and upgrade it to the current schema.
+ *
+ * @returns The state (`migrated` when an upgrade step changed it, so it
+ *          should be saved again), or an error when the save is unusable.
+ */
+export function parseSavedGame(json: string): ParsedSave {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { state: null, error: 'invalid JSON' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { state: null, error: 'not an object' };
+  }
+
+  const { schemaVersion = 0, ...save } = parsed as PersistedGame;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    return { state: null, error: `invalid schema version ${String(schemaVersion)}` };
+  }
+  if (schemaVersion > SAVE_SCHEMA_VERSION) {
+    return { state: null, error: `saved by a newer version (schema ${schemaVersion})` };
+  }
+
+  let migrated = false;
+  try {
+    for (const step of SAVE_MIGRATIONS) {
+      if (step.version > schemaVersion && step.migrate(save)) migrated = true;
+    }
+  } catch (error: unknown) {
+    return {
+      state: null,
+      error: `migration failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const problem = findSaveProblem(save);
+  if (problem) return { state: null, error: problem };
+  return { state: save as GameState, fromVersion: schemaVersion, migrated };
+}
+
+/** A slot's index entry for a game */
+export function summarizeSave(slotId: string, state: GameState, savedAt: number): SaveSlotSummary {
+  return {
+    slotId,
+    savedAt,
+    opponents: state.players
+      .filter(player => player.isBot)
+      .map(player => ({
+        name: player.name,
+        ...(player.botDifficulty ? { difficulty: player.botDifficulty } : {}),
+      })),
+    matchNumber: state.currentMatch ?? 1,
+    scores: state.players.map(player => ({
+      name: player.name,
+      score: state.matchScores.find(score => score.playerId === player.id)?.score ?? 0,
+    })),
+    inProgress: !state.gameOver,
+  };
+}
+
+function isSaveSlotSummary(value: unknown): value is SaveSlotSummary {
+  const summary = value as SaveSlotSummary | null;
+  return (
+    !!summary &&
+    typeof summary.slotId === 'string' &&
+    typeof summary.savedAt === 'number' &&
+    typeof summary.matchNumber === 'number' &&
+    Array.isArray(summary.opponents) &&
+    Array.isArray(summary.scores)
+  );
+}
+
+async function readSlotIndex(): Promise<SaveSlotSummary[]> {
+  try {
+    const parsed: unknown = JSON.parse((await AsyncStorage.getItem(SAVE_SLOTS_KEY)) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isSaveSlotSummary) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function removeSlotKeys(slotId: string): Promise<void> {
+  const keys = saveSlotKeys(slotId);
+  await Promise.all([
+    AsyncStorage.removeItem(keys.state),
+    AsyncStorage.removeItem(keys.scoreHistory),
+    AsyncStorage.removeItem(keys.playHistory),
+  ]);
+}
+
+/**
+ * The saved games, most recently saved first. A default-slot game saved
+ * before the index existed is added to it here (or quarantined).
+ */
+export async function readSaveSlots(): Promise<SaveSlotSummary[]> {
+  const slots = await readSlotIndex();
+
+  if (!slots.some(slot => slot.slotId === DEFAULT_SAVE_SLOT)) {
+    const json = await AsyncStorage.getItem(saveSlotKeys(DEFAULT_SAVE_SLOT).state);
+    if (json) {
+      const parsed = parseSavedGame(json);
+      if (parsed.state) {
+        const summary = summarizeSave(
+          DEFAULT_SAVE_SLOT,
+          parsed.state,
+          parsed.state.startedAt ?? Date.now()
+        );
+        slots.push(summary);
+        await AsyncStorage.setItem(SAVE_SLOTS_KEY, JSON.stringify(slots));
+      } else {
+        await quarantineSave(DEFAULT_SAVE_SLOT, json, parsed.error);
+      }
+    }
+  }
+
+  return slots.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Record a slot's summary in the index. Beyond MAX_SAVE_SLOTS the oldest
+ * slots are deleted — finished games first, then the least recently saved.
+ */
+export async function updateSaveSlot(summary: SaveSlotSummary): Promise<void> {
+  try {
+    const slots = [summary, ...(await readSlotIndex()).filter(s => s.slotId !== summary.slotId)];
+    const evicted = slots
+      .slice(1)
+      .sort((a, b) => Number(b.inProgress) - Number(a.inProgress) || b.savedAt - a.savedAt)
+      .slice(MAX_SAVE_SLOTS - 1);
+    const kept = slots.filter(slot => !evicted.includes(slot));
+
+    await AsyncStorage.setItem(SAVE_SLOTS_KEY, JSON.stringify(kept));
+    for (const slot of evicted) {
+      gameLogger.info(`[SaveSlots] Evicting save slot ${slot.slotId} (limit ${MAX_SAVE_SLOTS})`);
+      await removeSlotKeys(slot.slotId);
+    }
+  } catch (error: unknown) {
+    gameLogger.error(
+      'Failed to update save slots:',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/** Delete a slot: its game, its score and play history, and its index entry */
+export async function deleteSaveSlot(slotId: string): Promise<void> {
+  await removeSlotKeys(slotId);
+  const slots = await readSlotIndex();
+  if (slots.some(slot => slot.slotId === slotId)) {
+    await AsyncStorage.setItem(
+      SAVE_SLOTS_KEY,
+      JSON.stringify(slots.filter(slot => slot.slotId !== slotId))
+    );
+  }
+}
+
+/**
+ * Move an unusable save out of its slot. The raw save is kept in the
+ * quarantine list (the last MAX_QUARANTINED_SAVES) rather than lost, and
+ * the slot is freed for a new game.
+ */
+export async function quarantineSave(slotId: string, data: string, reason: string): Promise<void> {
+  gameLogger.error(`[SaveSlots] Quarantining save slot ${slotId}: ${reason}`);
+  try {
+    const entry: QuarantinedSave = { slotId, reason, quarantinedAt: Date.now(), data };
+    const quarantined = [entry, ...(await readQuarantinedSaves())].slice(0, MAX_QUARANTINED_SAVES);
+    await AsyncStorage.setItem(QUARANTINED_SAVES_KEY, JSON.stringify(quarantined));
+    await deleteSaveSlot(slotId);
+  } catch (error: unknown) {
+    gameLogger.error(
+      'Failed to quarantine save:',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/** Saves moved out of their slots, newest first */
+async function readQuarantinedSaves(): Promise<QuarantinedSave[]> {
+  try {
+    const parsed: unknown = JSON.parse((await AsyncStorage.getItem(QUARANTINED_SAVES_KEY)) ?? '[]');
+    return Array.isArray(parsed) ? (parsed as QuarantinedSave[]) : [];
+  } catch {
+    return [];
+  }
+}
@@ -25,10 +25,48 @@ import {
   canPassWithOneCardLeftRule,
   isHighestPossiblePlay,
   findHighestBeatingSingle,
+  calculateMatchPoints,
+  isGameOverScore,
+  findLowestScoreIndex,
+  STANDARD_RULE_SET,
+  normalizeRuleSet,
+  isOpeningCard,
+  getOpeningCardId,
+  type RuleSet,
+  DEFAULT_SCORING_CONFIG,
+  normalizeScoringConfig,
+  type ScoringConfig,
+  createDealSeed,
+  hashDealSeed,
+  isDealSeed,
+  dealSeededHands,
+  getCardsPerPlayer,
+  isPlayerCount,
+  DEFAULT_DEAL_VARIANT,
+  type DealVariant,
+  roundHistoryToReplayHistory,
+  buildGameReplay,
+  type GameReplaySource,
+  type GameRecordPosition,
 } from './engine';
-import { createBotAI, type BotDifficulty, type BotPlayResult } from './bot';
+import { createBotAI, getLocalTurnOrder, type BotDifficulty, type BotPlayResult } from './bot';
+import { passObservationsFromMoves } from './bot/expert';
+import { analyzeGame } from './bot/move-analysis';
+import {
+  DEFAULT_SAVE_SLOT,
+  saveSlotKeys,
+  serializeSave,
+  parseSavedGame,
+  summarizeSave,
+  updateSaveSlot,
+  deleteSaveSlot,
+  quarantineSave,
+} from './save-slots';
+
+/** The last finished local game, kept for the replay viewer */
+const LAST_REPLAY_KEY = '@big2_last_replay';
 
-const GAME_STATE_KEY = '@big2_game_state';
+const SUIT_SYMBOLS: Record<string, string> = { D: '♦', C: '♣', H: '♥', S: '♠' };
 
 /** Maximum number of completed matches to retain in gameRoundHistory (C1 OOM fix). */
 const MAX_GAME_ROUND_HISTORY_MATCHES = 20;
@@ -66,12 +104,21 @@ export interface GameState {
   currentMatch: number; // Current match number (starts at 1)
   matchScores: PlayerMatchScore[]; // Cumulative scores for each player
   lastMatchWinnerId: string | null; // Winner of previous match (starts next match)
-  gameOver: boolean; // True when a player reaches 101+ points
+  gameOver: boolean; // True when a player reaches the target score (101+ by default)
   finalWinnerId: string | null; // Overall game winner (lowest score)
   startedAt?: number; // Timestamp when the game started (for duration calculation)
   // Auto-pass timer (for highest play detection)
   auto_pass_timer: AutoPassTimerState | null;
   played_cards: Card[]; // All cards played this match (for highest play detection)
+  ruleSet?: RuleSet; // House rules this game is played with (absent = standard, older saves)
+  scoring?: ScoringConfig; // Scoring config (absent = classic 1/2/3 tiers to 101, older saves)
+  lastMatchScoreDetails?: PlayerMatchScoreDetail[]; // Breakdown of the most recent match (for the scoreboard)
+  dealSeed?: string; // Seed every match of this game is dealt from (absent = older saves)
+  dealSeedHash?: string; // SHA-256 of dealSeed, shown before the deal so it can be verified later
+  seatRotation?: number; // Duplicate table rotation (seat s holds dealt hand s + rotation)
+  dealVariant?: DealVariant; // How a table of two or three is dealt (absent = the default variant)
+  undoLimit?: number; // Take-backs allowed this game (absent = none, older saves)
+  undosUsed?: number; // Take-backs used so far; a game with any is left out of the stats
 }
 
 export interface RoundHistoryEntry {
@@ -89,87 +136,96 @@ export interface GameConfig {
   playerName: string;
   botCount: number;
   botDifficulty: BotDifficulty;
+  /** House rules (preset id or rule set); defaults to the standard rules */
+  ruleSet?: RuleSet | string;
+  /** Scoring config (partial values are completed); defaults to the classic scoring */
+  scoring?: Partial<ScoringConfig>;
+  /** Replay the deals of an earlier game (duplicate); defaults to a fresh seed */
+  dealSeed?: string;
+  /** Duplicate table rotation; 0 deals hand k to seat k */
+  seatRotation?: number;
+  /** How a table of two or three is dealt; defaults to 17 cards each */
+  dealVariant?: DealVariant;
+  /** Play on from a game record position (a puzzle) instead of a fresh deal; it becomes match 1 */
+  startPosition?: GameRecordPosition;
+  /** Take-backs the human may use this game; defaults to 0 (undo off) */
+  undoLimit?: number;
 }
 
 export type GameStateListener = (state: GameState) => void;
 
 /**
  * Calculate score for a player's remaining hand
- *
- * Scoring rules:
- * - 1-4 cards: 1 point per card
- * - 5-9 cards: 2 points per card
- * - 10-13 cards: 3 points per card
- * - Winner (0 cards): 0 points
+ * (tiers and penalties defined once in the shared rules module, see calculateMatchPoints)
  */
-function calculatePlayerScore(hand: Card[]): PlayerMatchScoreDetail {
-  const cardsRemaining = hand.length;
-
-  // Determine points per card based on card count
-  let pointsPerCard: number;
-  if (cardsRemaining >= 1 && cardsRemaining <= 4) {
-    pointsPerCard = 1;
-  } else if (cardsRemaining >= 5 && cardsRemaining <= 9) {
-    pointsPerCard = 2;
-  } else if (cardsRemaining >= 10 && cardsRemaining <= 13) {
-    pointsPerCard = 3;
-  } else {
-    pointsPerCard = 0; // Winner or invalid
-  }
-
-  const finalScore = cardsRemaining * pointsPerCard;
-
+function calculatePlayerScore(
+  hand: Card[],
+  scoring: ScoringConfig,
+  dealtCount: number
+): PlayerMatchScoreDetail {
   return {
     playerId: '', // Will be set by caller
-    cardsRemaining,
-    pointsPerCard,
-    finalScore,
+    ...calculateMatchPoints(hand, scoring, dealtCount),
   };
 }
 
 /**
  * Calculate match scores for all players when match ends
+ * (a hand is "never played" against the deal's hand size; roundHistory holds
+ * the match's plays, which shows who was dealt the spare card of a three-player deal)
  */
-function calculateMatchScores(players: Player[], winnerId: string): PlayerMatchScoreDetail[] {
+function calculateMatchScores(
+  players: Player[],
+  winnerId: string,
+  scoring: ScoringConfig,
+  roundHistory: RoundHistoryEntry[],
+  dealVariant?: DealVariant
+): PlayerMatchScoreDetail[] {
+  const handSize = getCardsPerPlayer(players.length, dealVariant);
   return players.map(player => {
-    if (player.id === winnerId) {
-      // Winner gets 0 points
-      return {
-        playerId: player.id,
-        cardsRemaining: 0,
-        pointsPerCard: 0,
-        finalScore: 0,
-      };
-    }
-
-    const scoreDetail = calculatePlayerScore(player.hand);
+    const played = roundHistory
+      .filter(entry => entry.playerId === player.id && !entry.passed)
+      .reduce((count, entry) => count + entry.cards.length, 0);
+    // Winner scores an empty hand: 0 points, or the Hong Kong bonus
+    const scoreDetail = calculatePlayerScore(
+      player.id === winnerId ? [] : player.hand,
+      scoring,
+      Math.max(handSize, player.hand.length + played)
+    );
     scoreDetail.playerId = player.id;
     return scoreDetail;
   });
 }
 
 /**
- * Check if game should end (any player >= 101 points)
+ * Check if game should end (any player >= the target score, 101 by default)
  */
-function shouldGameEnd(matchScores: PlayerMatchScore[]): boolean {
-  return matchScores.some(score => score.score >= 101);
+function shouldGameEnd(matchScores: PlayerMatchScore[], scoring: ScoringConfig): boolean {
+  return isGameOverScore(
+    matchScores.map(score => score.score),
+    scoring
+  );
+}
+
+/**
+ * Copy of a game state for the undo stack. The rule set and scoring config are
+ * shared rather than copied (they never change during a game, and the preset
+ * rule set objects keep their identity).
+ */
+function cloneGameState(state: GameState): GameState {
+  return {
+    ...(JSON.parse(JSON.stringify(state)) as GameState),
+    ruleSet: state.ruleSet,
+    scoring: state.scoring,
+  };
 }
 
 /**
  * Find final winner (player with lowest score)
  */
 function findFinalWinner(matchScores: PlayerMatchScore[]): string {
-  let lowestScore = Infinity;
-  let winnerId = matchScores[0].playerId;
-
-  matchScores.forEach(score => {
-    if (score.score < lowestScore) {
-      lowestScore = score.score;
-      winnerId = score.playerId;
-    }
-  });
-
-  return winnerId;
+  const winnerIndex = findLowestScoreIndex(matchScores.map(score => score.score));
+  return matchScores[Math.max(winnerIndex, 0)].playerId;
 }
 
 /**
@@ -183,9 +239,20 @@ export class GameStateManager {
   private isExecutingAutoPass: boolean = false; // Prevent re-entry
   /** Instance-level flag to prevent duplicate "Stats Not Saved" alerts across concurrent handleMatchEnd calls. */
   private _statsAlertShown: boolean = false;
+  /**
+   * Save slot this game is persisted to (see save-slots.ts); null keeps the
+   * game in memory only (tutorial lessons and puzzles)
+   */
+  private readonly saveSlot: string | null;
+  /**
+   * States from before each of the human's plays and passes this match, most
+   * recent last. Kept in memory only: a reloaded game starts with an empty stack.
+   */
+  private undoStack: GameState[] = [];
 
-  constructor() {
+  constructor(saveSlot: string | null = DEFAULT_SAVE_SLOT) {
     this.state = null;
+    this.saveSlot = saveSlot;
     // The timer interval is started lazily in initializeGame() / loadState(), not
     // here.  Constructing the manager must never start a background interval because
     // the caller may abort initialisation (e.g. component unmounts before
@@ -332,8 +399,16 @@ export class GameStateManager {
     this._statsAlertShown = false;
 
     const { playerName, botCount, botDifficulty } = config;
+    const ruleSet = config.ruleSet ? normalizeRuleSet(config.ruleSet) : STANDARD_RULE_SET;
+    const scoring = normalizeScoringConfig(config.scoring);
+    const dealSeed = isDealSeed(config.dealSeed) ? config.dealSeed : createDealSeed();
+    const seatRotation = config.seatRotation ?? 0;
+    const dealVariant = config.dealVariant;
+    if (!isPlayerCount(botCount + 1)) {
+      throw new Error(`A local game needs 1 to 3 bots (got ${botCount})`);
+    }
 
-    // Create players (1 human + 3 bots by default)
+    // Create players (1 human + 3 bots by default, 1 or 2 at a short table)
     const players: Player[] = [
       {
         id: 'player_0',
@@ -348,6 +423,7 @@ export class GameStateManager {
     // Player array: [0: Steve, 1: Bot 1, 2: Bot 2, 3: Bot 3]
     // Turn order: Steve (0) → Bot 1 (1) → Bot 2 (2) → Bot 3 (3)
     // Physical layout: [bottom: 0, top: 1, left: 2, right: 3]
+    // (three players: [bottom, left, right]; two: [bottom, top])
     for (let i = 0; i < botCount; i++) {
       const botNumber = i + 1; // Bot 1, Bot 2, Bot 3
       players.push({
@@ -360,13 +436,20 @@ export class GameStateManager {
       });
     }
 
-    // Deal cards
-    const deck = this.createDeck();
-    const shuffledDeck = this.shuffleDeck(deck);
-    this.dealCards(players, shuffledDeck);
+    // Deal cards (match 1 of the seeded game), or take the hands of the start position
+    const start = config.startPosition;
+    if (start) {
+      players.forEach((player, seat) => {
+        player.hand = sortHand(start.hands[seat] ?? [], ruleSet);
+      });
+    } else {
+      this.dealCards(players, dealSeed, 1, seatRotation, ruleSet, dealVariant);
+    }
 
-    // Find who has 3D
-    const startingPlayerIndex = this.findPlayerWith3D(players);
+    // Find who has the opening card (3D under the standard rules)
+    const startingPlayerIndex = start
+      ? start.currentSeat
+      : this.findPlayerWithOpeningCard(players, ruleSet);
 
     // Initialize match scores for all players
     const matchScores: PlayerMatchScore[] = players.map(player => ({
@@ -391,10 +474,10 @@ export class GameStateManager {
     this.state = {
       players,
       currentPlayerIndex: startingPlayerIndex,
-      lastPlay: null,
-      lastPlayPlayerIndex: startingPlayerIndex,
-      consecutivePasses: 0,
-      isFirstPlayOfGame: true,
+      lastPlay: start?.lastPlay ?? null,
+      lastPlayPlayerIndex: start?.lastPlay?.position ?? startingPlayerIndex,
+      consecutivePasses: start?.consecutivePasses ?? 0,
+      isFirstPlayOfGame: start?.isFirstPlayOfGame ?? true,
       gameStarted: true,
       gameEnded: false,
       winnerId: null,
@@ -407,8 +490,17 @@ export class GameStateManager {
       finalWinnerId: null,
       startedAt: Date.now(),
       auto_pass_timer: null,
-      played_cards: [],
+      played_cards: start ? [...start.playedCards] : [],
+      ruleSet,
+      scoring,
+      dealSeed,
+      dealSeedHash: hashDealSeed(dealSeed),
+      seatRotation,
+      ...(dealVariant ? { dealVariant } : {}),
+      undoLimit: Math.max(0, Math.floor(config.undoLimit ?? 0)),
+      undosUsed: 0,
     };
+    this.undoStack = [];
 
     await this.saveState();
     this.notifyListeners();
@@ -450,6 +542,7 @@ export class GameStateManager {
     }
 
     gameLogger.info(`✅ [playCards] VALID - Executing play`);
+    this.pushUndoPoint(currentPlayer);
 
     // Execute play
     this.executePlay(currentPlayer, cards);
@@ -472,10 +565,12 @@ export class GameStateManager {
   }
 
   /**
-   * Anticlockwise turn order table: index → next player.
-   * Sequence: 0→3→1→2→0  (i.e. 0→3, 1→2, 2→0, 3→1)
+   * Anticlockwise turn order table of this table size: index → next player.
+   * Four players: 0→3→1→2→0 (see getLocalTurnOrder for smaller tables)
    */
-  private static readonly TURN_ORDER = [3, 2, 0, 1] as const;
+  private get turnOrder(): readonly number[] {
+    return getLocalTurnOrder(this.state!.players.length);
+  }
 
   /**
    * Find the next active player (skipping players with 0 cards).
@@ -485,11 +580,12 @@ export class GameStateManager {
   private findNextActivePlayer(currentPlayerIndex: number): number {
     const players = this.state!.players;
     const numPlayers = players.length;
-    let next = GameStateManager.TURN_ORDER[currentPlayerIndex];
+    const turnOrder = this.turnOrder;
+    let next = turnOrder[currentPlayerIndex];
     const start = next;
     let iterations = 0;
     while (players[next].hand.length === 0 && next !== currentPlayerIndex) {
-      next = GameStateManager.TURN_ORDER[next];
+      next = turnOrder[next];
       if (next === start || ++iterations >= numPlayers) break;
     }
     return next;
@@ -526,7 +622,8 @@ export class GameStateManager {
     const passValidation = canPassWithOneCardLeftRule(
       currentPlayer.hand,
       nextPlayerCardCount,
-      this.state.lastPlay
+      this.state.lastPlay,
+      this.state.ruleSet
     );
 
     gameLogger.debug('[OneCardLeft] Pass validation result:', passValidation);
@@ -542,6 +639,7 @@ export class GameStateManager {
       return { success: false, error: enhancedError };
     }
 
+    this.pushUndoPoint(currentPlayer);
     currentPlayer.passed = true;
     this.state.consecutivePasses++;
 
@@ -585,6 +683,71 @@ export class GameStateManager {
     return { success: true };
   }
 
+  /**
+   * Remember the state before a human play or pass so it can be taken back
+   * (bots' moves and the auto-pass are not undo points)
+   */
+  private pushUndoPoint(player: Player): void {
+    if (!this.state || player.isBot || this.isExecutingAutoPass) return;
+    const remaining = (this.state.undoLimit ?? 0) - (this.state.undosUsed ?? 0);
+    if (remaining <= 0) return;
+    this.undoStack.push(cloneGameState(this.state));
+    // Only as many undo points as take-backs left can ever be used
+    if (this.undoStack.length > remaining) {
+      this.undoStack.splice(0, this.undoStack.length - remaining);
+    }
+  }
+
+  /**
+   * Whether the human can take back their last move now, and how many
+   * take-backs this game has left
+   */
+  getUndoStatus(): { canUndo: boolean; remaining: number } {
+    if (!this.state) return { canUndo: false, remaining: 0 };
+    const remaining = Math.max(0, (this.state.undoLimit ?? 0) - (this.state.undosUsed ?? 0));
+    // Only on the human's turn: no bot turn is then in flight on the state
+    const canUndo =
+      remaining > 0 &&
+      this.undoStack.length > 0 &&
+      !this.state.gameEnded &&
+      !this.state.players[this.state.currentPlayerIndex].isBot;
+    return { canUndo, remaining };
+  }
+
+  /**
+   * Take back the human's last play or pass: the state from before it is
+   * restored, rewinding the bots' turns since. Uses one of the game's
+   * take-backs, and a game with any is not recorded in the stats.
+   */
+  async undo(): Promise<{ success: boolean; error?: string }> {
+    if (!this.state || !this.getUndoStatus().canUndo) {
+      return { success: false, error: 'Nothing to undo' };
+    }
+
+    const restored = this.undoStack.pop()!;
+    restored.undosUsed = (this.state.undosUsed ?? 0) + 1;
+    // A countdown running before the move starts again in full
+    if (restored.auto_pass_timer?.active) {
+      const startTimeMs = Date.now();
+      restored.auto_pass_timer = {
+        ...restored.auto_pass_timer,
+        started_at: new Date(startTimeMs).toISOString(),
+        remaining_ms: restored.auto_pass_timer.duration_ms,
+        end_timestamp: startTimeMs + restored.auto_pass_timer.duration_ms,
+      };
+    }
+    this.state = restored;
+
+    gameLogger.info(
+      `↩️ [undo] Took back a move (${restored.undosUsed}/${restored.undoLimit ?? 0} used)`
+    );
+
+    await this.saveState();
+    this.notifyListeners();
+
+    return { success: true };
+  }
+
   /**
    * Get bot's play decision and execute it
    */
@@ -610,7 +773,12 @@ export class GameStateManager {
       isFirstPlayOfGame: this.state.isFirstPlayOfGame,
       playerCardCounts,
       currentPlayerIndex: this.state.currentPlayerIndex,
+      nextPlayerIndex: this.findNextActivePlayer(this.state.currentPlayerIndex),
       difficulty: currentPlayer.botDifficulty,
+      ruleSet: this.state.ruleSet,
+      playedCards: this.state.played_cards,
+      passes: this.getCurrentMatchPasses(),
+      turnOrder: this.turnOrder,
     });
 
     gameLogger.debug(
@@ -646,9 +814,13 @@ export class GameStateManager {
         errorMsg.includes('opponent has 1 card') ||
         (errorMsg.includes('Cannot pass') && errorMsg.includes('1 card left'))
       ) {
-        const sorted = sortHand(currentPlayer.hand);
+        const sorted = sortHand(currentPlayer.hand, this.state.ruleSet);
         if (this.state.lastPlay) {
-          const highestSingle = findHighestBeatingSingle(sorted, this.state.lastPlay);
+          const highestSingle = findHighestBeatingSingle(
+            sorted,
+            this.state.lastPlay,
+            this.state.ruleSet
+          );
           if (highestSingle) {
             gameLogger.info(
               `🔧 [GameStateManager] Bot ${currentPlayer.name} fallback: playing highest single ${highestSingle.rank}${highestSingle.suit}`
@@ -674,7 +846,7 @@ export class GameStateManager {
         result = await this.pass();
       } else {
         // Can't pass when leading - play lowest card
-        const sorted = sortHand(currentPlayer.hand);
+        const sorted = sortHand(currentPlayer.hand, this.state.ruleSet);
         gameLogger.info(
           `🔧 [GameStateManager] Bot ${currentPlayer.name} fallback: playing lowest card`
         );
@@ -701,60 +873,39 @@ export class GameStateManager {
   }
 
   /**
-   * Load saved game state
+   * Load the game saved in this manager's slot. The save is upgraded to the
+   * current schema (save-slots.ts); one that cannot be read is quarantined.
    */
   async loadState(): Promise<GameState | null> {
+    if (this.saveSlot === null) return null;
     try {
-      const stateJson = await AsyncStorage.getItem(GAME_STATE_KEY);
+      const stateJson = await AsyncStorage.getItem(saveSlotKeys(this.saveSlot).state);
       if (stateJson) {
-        this.state = JSON.parse(stateJson);
+        const parsed = parseSavedGame(stateJson);
+        if (!parsed.state) {
+          await quarantineSave(this.saveSlot, stateJson, parsed.error);
+          return null;
+        }
+        this.state = parsed.state;
+        this.undoStack = [];
 
-        // Migration: Ensure arrays added in newer versions exist
-        // This prevents "Cannot read property 'push' of undefined" errors
-        // Track whether any migration was applied to avoid unnecessary saves.
-        let needsMigration = false;
+        // Persist only when an upgrade step or the pruning below changed the save
+        let needsMigration = parsed.migrated;
 
-        if (this.state && !this.state.gameRoundHistory) {
-          gameLogger.warn('[Migration] Adding missing gameRoundHistory array to loaded state');
-          this.state.gameRoundHistory = [];
-          needsMigration = true;
-        }
-        if (this.state && !this.state.played_cards) {
-          gameLogger.warn('[Migration] Adding missing played_cards array to loaded state');
-          this.state.played_cards = [];
-          needsMigration = true;
+        if (this.state.ruleSet) {
+          // Restore the preset object (JSON.parse loses its identity)
+          this.state.ruleSet = normalizeRuleSet(this.state.ruleSet);
         }
-        // CRITICAL: Migrate matchComboStats structure for each player
-        if (this.state && this.state.matchScores) {
-          this.state.matchScores.forEach(matchScore => {
-            if (!matchScore?.matchComboStats) {
-              gameLogger.warn(
-                `[Migration] Adding missing matchComboStats for player ${matchScore?.playerId}`
-              );
-              if (matchScore) {
-                matchScore.matchComboStats = {
-                  singles: [],
-                  pairs: [],
-                  triples: [],
-                  straights: [],
-                  flushes: [],
-                  full_houses: [],
-                  four_of_a_kinds: [],
-                  straight_flushes: [],
-                  royal_flushes: [],
-                };
-                needsMigration = true;
-              }
-            }
-          });
+        if (this.state.scoring) {
+          this.state.scoring = normalizeScoringConfig(this.state.scoring);
         }
 
         // C1 fix (upgrade path): prune a large gameRoundHistory that may have been
         // persisted by an older build before the MAX_GAME_ROUND_HISTORY_MATCHES cap
         // was introduced.  Without this guard, loading a large legacy state would
         // still hit the same OOM before the user starts their next match.
-        const loadedState = this.state!;
-        if (loadedState.gameRoundHistory && loadedState.gameRoundHistory.length > 0) {
+        const loadedState = this.state;
+        if (loadedState.gameRoundHistory.length > 0) {
           const currentMatch = loadedState.currentMatch ?? 0;
           const before = loadedState.gameRoundHistory.length;
           this.pruneGameRoundHistory(loadedState.gameRoundHistory, currentMatch, 'loadState');
@@ -763,7 +914,6 @@ export class GameStateManager {
           }
         }
 
-        // Only persist if migrations were actually applied
         if (needsMigration) {
           await this.saveState();
         }
@@ -788,14 +938,15 @@ export class GameStateManager {
   }
 
   /**
-   * Save current game state
+   * Save current game state to this manager's slot (and its summary to the
+   * slot index)
    */
   async saveState(): Promise<void> {
-    if (!this.state) return;
+    if (!this.state || this.saveSlot === null) return;
 
+    await updateSaveSlot(summarizeSave(this.saveSlot, this.state, Date.now()));
     try {
-      const stateJson = JSON.stringify(this.state);
-      await AsyncStorage.setItem(GAME_STATE_KEY, stateJson);
+      await AsyncStorage.setItem(saveSlotKeys(this.saveSlot).state, serializeSave(this.state));
     } catch (error: unknown) {
       // Only log error message/code to avoid exposing storage internals
       const errMsg = error instanceof Error ? error.message : String(error);
@@ -805,11 +956,13 @@ export class GameStateManager {
   }
 
   /**
-   * Clear saved game state
+   * Clear saved game state (the whole slot, score and play history included)
    */
   async clearState(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(GAME_STATE_KEY);
+      if (this.saveSlot !== null) {
+        await deleteSaveSlot(this.saveSlot);
+      }
       this.state = null;
       this.notifyListeners();
     } catch (error: unknown) {
@@ -821,86 +974,147 @@ export class GameStateManager {
   }
 
   /**
-   * Get current game state
+   * Everything needed to replay the current game: seat-indexed moves of the
+   * retained matches plus the deal seed the hands are dealt again from.
    */
-  getState(): GameState | null {
-    return this.state;
+  getReplaySource(): GameReplaySource | null {
+    if (!this.state) return null;
+    return {
+      playerNames: this.state.players.map(p => p.name),
+      playHistory: roundHistoryToReplayHistory(
+        this.state.gameRoundHistory,
+        this.state.players.map(p => p.id)
+      ),
+      dealSeed: this.state.dealSeed ?? null,
+      seatRotation: this.state.seatRotation ?? 0,
+      ...(this.state.dealVariant ? { dealVariant: this.state.dealVariant } : {}),
+      ruleSet: this.state.ruleSet ?? STANDARD_RULE_SET,
+    };
   }
 
   /**
-   * Subscribe to state changes
+   * Seat-indexed points of every finished match, in match order
    */
-  subscribe(listener: GameStateListener): () => void {
-    this.listeners.push(listener);
-    return () => {
-      this.listeners = this.listeners.filter(l => l !== listener);
-    };
+  private getSeatMatchScores(): number[][] {
+    if (!this.state) return [];
+    const matchCount = Math.max(0, ...this.state.matchScores.map(s => s.matchScores.length));
+    return Array.from({ length: matchCount }, (_, match) =>
+      this.state!.players.map(
+        player =>
+          this.state!.matchScores.find(s => s.playerId === player.id)?.matchScores[match] ?? 0
+      )
+    );
   }
 
   /**
-   * Create a standard 52-card deck
+   * Passes made so far this match, with the play each was a pass on (expert bots)
    */
-  private createDeck(): Card[] {
-    const ranks = ['3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', '2'] as const;
-    const suits: ('D' | 'C' | 'H' | 'S')[] = ['D', 'C', 'H', 'S'];
-    const deck: Card[] = [];
-
-    for (const rank of ranks) {
-      for (const suit of suits) {
-        deck.push({
-          id: `${rank}${suit}`,
-          rank: rank as Card['rank'],
-          suit: suit,
-        });
-      }
-    }
+  private getCurrentMatchPasses() {
+    if (!this.state) return [];
+    const playerIds = this.state.players.map(p => p.id);
+    const match = this.state.currentMatch;
+    return passObservationsFromMoves(
+      this.state.gameRoundHistory
+        .filter(entry => entry.matchNumber === match)
+        .map(entry => ({
+          seat: playerIds.indexOf(entry.playerId),
+          cards: entry.cards,
+          passed: entry.passed,
+        }))
+    );
+  }
 
-    return deck;
+  /**
+   * Move-analysis accuracy (0–100) of the human player, or null when there
+   * is nothing to analyse (e.g. the deal cannot be rebuilt)
+   */
+  private getHumanAccuracy(): number | null {
+    const source = this.getReplaySource();
+    const seat = this.state?.players.findIndex(p => !p.isBot) ?? -1;
+    if (!source || seat < 0) return null;
+    const analysis = analyzeGame(buildGameReplay(source), seat);
+    return analysis.decisions > 0 ? analysis.accuracy : null;
   }
 
   /**
-   * Shuffle deck using Fisher-Yates algorithm
+   * Persist the finished game so it can be replayed after the state is gone
    */
-  private shuffleDeck(deck: Card[]): Card[] {
-    const shuffled = [...deck];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  private async saveReplay(): Promise<void> {
+    const source = this.getReplaySource();
+    if (!source) return;
+
+    try {
+      await AsyncStorage.setItem(LAST_REPLAY_KEY, JSON.stringify(source));
+    } catch (error: unknown) {
+      gameLogger.error(
+        'Failed to save replay:',
+        error instanceof Error ? error.message : String(error)
+      );
     }
-    return shuffled;
   }
 
   /**
-   * Deal 13 cards to each player
+   * Load the last finished local game saved for the replay viewer
    */
-  private dealCards(players: Player[], deck: Card[]): void {
-    // CRITICAL: Clear all existing hands first!
-    for (const player of players) {
-      player.hand = [];
+  static async loadLastReplay(): Promise<GameReplaySource | null> {
+    try {
+      const json = await AsyncStorage.getItem(LAST_REPLAY_KEY);
+      if (!json) return null;
+      const source = JSON.parse(json) as GameReplaySource;
+      return Array.isArray(source?.playerNames) && Array.isArray(source.playHistory)
+        ? source
+        : null;
+    } catch (error: unknown) {
+      gameLogger.error(
+        'Failed to load replay:',
+        error instanceof Error ? error.message : String(error)
+      );
+      return null;
     }
+  }
 
-    // Deal 13 cards to each player
-    for (let i = 0; i < 13; i++) {
-      for (const player of players) {
-        const card = deck.pop();
-        if (card) {
-          player.hand.push(card);
-        }
-      }
-    }
+  /**
+   * Get current game state
+   */
+  getState(): GameState | null {
+    return this.state;
+  }
 
-    // Sort each player's hand
-    for (const player of players) {
-      player.hand = sortHand(player.hand);
-    }
+  /**
+   * Subscribe to state changes
+   */
+  subscribe(listener: GameStateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
   }
 
   /**
-   * Find player who has 3D
+   * Deal each player's hand from the game's seed: 13 cards at four players,
+   * the deal variant's hand at two or three
+   * (replaces existing hands; dealNumber is the 1-based match number)
    */
-  private findPlayerWith3D(players: Player[]): number {
+  private dealCards(
+    players: Player[],
+    seed: string,
+    dealNumber: number,
+    seatRotation: number,
+    rules: RuleSet = STANDARD_RULE_SET,
+    variant?: DealVariant
+  ): void {
+    const hands = dealSeededHands(seed, dealNumber, seatRotation, players.length, variant, rules);
+    players.forEach((player, seat) => {
+      player.hand = sortHand(hands[seat], rules);
+    });
+  }
+
+  /**
+   * Find player who has the opening card (3 of the lowest suit)
+   */
+  private findPlayerWithOpeningCard(players: Player[], rules: RuleSet): number {
     for (let i = 0; i < players.length; i++) {
-      if (players[i].hand.some(c => c.id === '3D')) {
+      if (players[i].hand.some(c => isOpeningCard(c, rules))) {
         return i;
       }
     }
@@ -918,22 +1132,28 @@ export class GameStateManager {
       }
     }
 
-    // First play must include 3D
+    const rules = this.state!.ruleSet;
+
+    // First play must include the opening card (3D under the standard rules)
     if (this.state!.isFirstPlayOfGame) {
-      if (!cards.some(c => c.id === '3D')) {
-        return { valid: false, error: 'First play must include 3♦' };
+      if (!cards.some(c => isOpeningCard(c, rules))) {
+        const openingCard = getOpeningCardId(rules);
+        return {
+          valid: false,
+          error: `First play must include ${openingCard[0]}${SUIT_SYMBOLS[openingCard[1]]}`,
+        };
       }
     }
 
     // Check combo validity
-    const combo = classifyCards(cards);
+    const combo = classifyCards(cards, rules);
     if (combo === 'unknown') {
       return { valid: false, error: 'Invalid card combination' };
     }
 
     // Check if beats last play
     if (this.state!.lastPlay) {
-      if (!canBeatPlay(cards, this.state!.lastPlay)) {
+      if (!canBeatPlay(cards, this.state!.lastPlay, rules)) {
         return { valid: false, error: 'Cannot beat last play' };
       }
     }
@@ -946,7 +1166,8 @@ export class GameStateManager {
       cards,
       player.hand,
       nextPlayerCardCount,
-      this.state!.lastPlay
+      this.state!.lastPlay,
+      rules
     );
 
     if (!oneCardLeftValidation.valid) {
@@ -964,7 +1185,7 @@ export class GameStateManager {
     player.hand = player.hand.filter(c => !cards.some(pc => pc.id === c.id));
 
     // Update game state
-    const combo = classifyCards(cards);
+    const combo = classifyCards(cards, this.state!.ruleSet);
     this.state!.lastPlay = { position: this.state!.currentPlayerIndex, cards, combo_type: combo };
     this.state!.lastPlayPlayerIndex = this.state!.currentPlayerIndex; // Track trick winner
     this.state!.consecutivePasses = 0;
@@ -988,7 +1209,8 @@ export class GameStateManager {
           )
         : Infinity;
     const isHighest =
-      maxOpponentCards < comboSize || isHighestPossiblePlay(cards, this.state!.played_cards);
+      maxOpponentCards < comboSize ||
+      isHighestPossiblePlay(cards, this.state!.played_cards, this.state!.ruleSet);
 
     // Now add cards to played_cards history for future highest play detection
     this.state!.played_cards.push(...cards);
@@ -1089,6 +1311,8 @@ export class GameStateManager {
     if (!this.state) return;
 
     gameLogger.info(`🏆 [Match End] Match ${this.state.currentMatch} won by ${matchWinnerId}`);
+    // A scored match cannot be taken back
+    this.undoStack = [];
 
     // 🎯 CALCULATE COMBO STATS FOR THIS MATCH (before roundHistory is cleared!)
     statsLogger.info(
@@ -1166,7 +1390,15 @@ export class GameStateManager {
     }
 
     // Calculate scores for this match
-    const matchScoreDetails = calculateMatchScores(this.state.players, matchWinnerId);
+    const scoring = this.state.scoring ?? DEFAULT_SCORING_CONFIG;
+    const matchScoreDetails = calculateMatchScores(
+      this.state.players,
+      matchWinnerId,
+      scoring,
+      this.state.roundHistory,
+      this.state.dealVariant
+    );
+    this.state.lastMatchScoreDetails = matchScoreDetails;
 
     // Prepare score history data for scoreboard
     const pointsAdded: number[] = [];
@@ -1197,8 +1429,8 @@ export class GameStateManager {
     // Notify listeners with updated state (includes score history in matchScores)
     this.notifyListeners();
 
-    // Check if game should end (someone reached 101+ points)
-    const gameEnds = shouldGameEnd(this.state.matchScores);
+    // Check if game should end (someone reached the target score, 101 by default)
+    const gameEnds = shouldGameEnd(this.state.matchScores, scoring);
 
     if (gameEnds) {
       // Game Over: find winner (lowest score)
@@ -1218,6 +1450,9 @@ export class GameStateManager {
       // This triggers the Game End Modal to appear (fixes missing modal bug)
       this.notifyListeners();
 
+      // Keep the finished game for the replay viewer (moves + deal seed)
+      void this.saveReplay();
+
       // Save game stats to database (async, don't await to avoid blocking UI)
       statsLogger.info('🔄 [Stats] Starting saveGameStatsToDatabase...');
       // Do NOT reset _statsAlertShown here. The flag is initialized to false when the
@@ -1282,6 +1517,14 @@ export class GameStateManager {
     }
     // ─────────────────────────────────────────────────────────────────────────
 
+    // Moves were taken back: the result is practice, not a recorded game
+    if ((this.state.undosUsed ?? 0) > 0) {
+      statsLogger.info(
+        `📊 [Stats] Skipping stats save — ${this.state.undosUsed} move(s) taken back this game.`
+      );
+      return;
+    }
+
     statsLogger.debug('📊 [Stats] saveGameStatsToDatabase called');
 
     try {
@@ -1416,6 +1659,14 @@ export class GameStateManager {
         started_at: new Date(this.state.startedAt || Date.now()).toISOString(),
         finished_at: new Date().toISOString(),
         game_completed: true, // Always a natural completion for local games
+        scoring: this.state.scoring ?? DEFAULT_SCORING_CONFIG, // Recorded with the game history
+        rule_set: this.state.ruleSet ?? STANDARD_RULE_SET, // Kept for game records
+        match_scores: this.getSeatMatchScores(), // Points per match, for game records
+        deal_variant: this.state.dealVariant ?? DEFAULT_DEAL_VARIANT, // How a short table was dealt
+        deal_seed: this.state.dealSeed ?? null, // Revealed now the game is over
+        deal_seed_hash: this.state.dealSeedHash ?? null,
+        play_history: this.getReplaySource()?.playHistory ?? [], // Kept for replays
+        accuracy: this.getHumanAccuracy(), // Blunder-check score of the human player
       };
 
       statsLogger.info(`📊 [Stats] Calling complete-game edge function`);
@@ -1576,6 +1827,7 @@ export class GameStateManager {
 
     // Increment match number
     this.state.currentMatch++;
+    this.undoStack = [];
 
     // C1 fix: prune gameRoundHistory to the last MAX_GAME_ROUND_HISTORY_MATCHES matches
     // to prevent unbounded growth and OOM on long sessions.
@@ -1589,10 +1841,21 @@ export class GameStateManager {
       'startNewMatch'
     );
 
+    // Saves from before seeded deals continue with a fresh seed
+    if (!this.state.dealSeed) {
+      this.state.dealSeed = createDealSeed();
+      this.state.dealSeedHash = hashDealSeed(this.state.dealSeed);
+    }
+
     // Deal new cards (this will clear existing hands first)
-    const deck = this.createDeck();
-    const shuffledDeck = this.shuffleDeck(deck);
-    this.dealCards(this.state.players, shuffledDeck);
+    this.dealCards(
+      this.state.players,
+      this.state.dealSeed,
+      this.state.currentMatch,
+      this.state.seatRotation ?? 0,
+      this.state.ruleSet,
+      this.state.dealVariant
+    );
 
     // Log card counts after dealing
     gameLogger.debug(
@@ -1671,13 +1934,13 @@ export class GameStateManager {
   }
 
   /**
-   * Advance to next player (anticlockwise for 4-player game)
+   * Advance to next player (anticlockwise)
    * Layout: 0=Bottom(Player), 1=Top, 2=Left, 3=Right
-   * Anticlockwise order: 0 → 3 → 1 → 2 → 0
+   * Anticlockwise order: 0 → 3 → 1 → 2 → 0 (smaller tables: see getLocalTurnOrder)
    */
   private advanceToNextPlayer(): void {
     const startingPlayer = this.state!.currentPlayerIndex;
-    const turnOrder = [3, 2, 0, 1]; // Next player for indices [0,1,2,3]
+    const turnOrder = this.turnOrder;
     let nextPlayerIndex = turnOrder[this.state!.currentPlayerIndex];
 
     // Try to find the next player with cards, looping at most once through all players
@@ -1743,6 +2006,6 @@ export class GameStateManager {
 /**
  * Create a game state manager instance
  */
-export function createGameStateManager(): GameStateManager {
-  return new GameStateManager();
+export function createGameStateManager(saveSlot?: string | null): GameStateManager {
+  return new GameStateManager(saveSlot);
 }
@@ -0,0 +1,242 @@
+/**
+ * Interactive tutorial
+ *
+ * Scripted lessons on top of the rules engine. Each lesson is a two-player
+ * position played through a GameStateManager that is never saved (see
+ * usePracticeGame); the lesson accepts only the moves it teaches. Every other
+ * attempt is explained: an illegal play is checked the way validatePlay
+ * checks it — opening card, classifyCards, canBeatPlay, then the one-card-left
+ * rule — and the first check it fails says why.
+ */
+
+import {
+  canBeatPlay,
+  canPassWithOneCardLeftRule,
+  classifyCards,
+  createOrderedDeck,
+  findHighestBeatingSingle,
+  getOpeningCardId,
+  isOpeningCard,
+  STANDARD_RULE_SET,
+  validateOneCardLeftRule,
+  type GameRecordPosition,
+  type RuleSet,
+} from './engine';
+import { getLocalTurnOrder } from './bot';
+import type { GameState } from './state';
+import type { Card, ComboType, LastPlay } from './types';
+
+const CARDS_BY_ID = new Map(createOrderedDeck().map(card => [card.id, card]));
+
+/** Cards of the standard deck by id ("3D", "10C", "AS") */
+export function cardsFromIds(ids: readonly string[]): Card[] {
+  return ids.map(id => {
+    const card = CARDS_BY_ID.get(id);
+    if (!card) throw new Error(`Unknown card id: ${id}`);
+    return card;
+  });
+}
+
+/** The last play of a scripted position */
+export function scriptedLastPlay(ids: readonly string[], seat: number): LastPlay {
+  const cards = cardsFromIds(ids);
+  return { position: seat, cards, combo_type: classifyCards(cards) };
+}
+
+/** What a play or pass is checked against */
+export interface PracticeContext {
+  hand: Card[];
+  lastPlay: LastPlay | null;
+  isFirstPlayOfGame: boolean;
+  /** Cards left to the player who moves next (the one-card-left rule) */
+  nextPlayerCardCount: number;
+  ruleSet?: RuleSet;
+}
+
+/** The context of the current player's move in a local game */
+export function getPracticeContext(state: GameState): PracticeContext {
+  const next = getLocalTurnOrder(state.players.length)[state.currentPlayerIndex];
+  return {
+    hand: state.players[state.currentPlayerIndex].hand,
+    lastPlay: state.lastPlay,
+    isFirstPlayOfGame: state.isFirstPlayOfGame,
+    nextPlayerCardCount: state.players[next].hand.length,
+    ruleSet: state.ruleSet,
+  };
+}
+
+export type PlayExplanation =
+  | { legal: true; combo: ComboType }
+  | { legal: false; reason: 'missing-opening-card'; openingCardId: string }
+  | { legal: false; reason: 'not-a-combo' }
+  | { legal: false; reason: 'wrong-card-count'; required: number }
+  | { legal: false; reason: 'too-low'; combo: ComboType; lastCombo: ComboType }
+  | { legal: false; reason: 'one-card-left'; requiredCard: Card };
+
+export type PassExplanation =
+  | { legal: true }
+  | { legal: false; reason: 'leading' }
+  | { legal: false; reason: 'one-card-left'; requiredCard: Card };
+
+/**
+ * Whether the cards can be played now, and if not the first rule they break
+ * (in the order GameStateManager checks them)
+ */
+export function explainPlay(cards: Card[], context: PracticeContext): PlayExplanation {
+  const rules = context.ruleSet ?? STANDARD_RULE_SET;
+
+  if (context.isFirstPlayOfGame && !cards.some(card => isOpeningCard(card, rules))) {
+    return { legal: false, reason: 'missing-opening-card', openingCardId: getOpeningCardId(rules) };
+  }
+
+  const combo = classifyCards(cards, rules);
+  if (combo === 'unknown') {
+    return { legal: false, reason: 'not-a-combo' };
+  }
+
+  const { lastPlay } = context;
+  if (lastPlay && !canBeatPlay(cards, lastPlay, rules)) {
+    // Different sizes never beat each other; say so rather than "too low"
+    if (cards.length !== lastPlay.cards.length) {
+      return { legal: false, reason: 'wrong-card-count', required: lastPlay.cards.length };
+    }
+    return { legal: false, reason: 'too-low', combo, lastCombo: lastPlay.combo_type };
+  }
+
+  const oneCardLeft = validateOneCardLeftRule(
+    cards,
+    context.hand,
+    context.nextPlayerCardCount,
+    lastPlay,
+    rules
+  );
+  if (!oneCardLeft.valid && oneCardLeft.requiredCard) {
+    return { legal: false, reason: 'one-card-left', requiredCard: oneCardLeft.requiredCard };
+  }
+
+  return { legal: true, combo };
+}
+
+/** Whether the player may pass now */
+export function explainPass(context: PracticeContext): PassExplanation {
+  if (!context.lastPlay || context.isFirstPlayOfGame) {
+    return { legal: false, reason: 'leading' };
+  }
+  const rules = context.ruleSet ?? STANDARD_RULE_SET;
+  const { canPass } = canPassWithOneCardLeftRule(
+    context.hand,
+    context.nextPlayerCardCount,
+    context.lastPlay,
+    rules
+  );
+  const requiredCard = canPass
+    ? null
+    : findHighestBeatingSingle(context.hand, context.lastPlay, rules);
+  return requiredCard ? { legal: false, reason: 'one-card-left', requiredCard } : { legal: true };
+}
+
+/** A move a lesson accepts: the ids of the cards to play, or a pass */
+export type LessonMove = readonly string[] | 'pass';
+
+export interface TutorialLesson {
+  id: string;
+  /** i18n key of the lesson title */
+  titleKey: string;
+  /** i18n key of what to do */
+  instructionKey: string;
+  /** i18n key shown once the lesson is done */
+  successKey: string;
+  /** Heads-up position: the human (seat 0) to move, the bot in seat 1 */
+  position: GameRecordPosition;
+  /** The moves that complete the lesson (card order does not matter) */
+  accepts: readonly LessonMove[];
+}
+
+/** A heads-up position with the human to move */
+function lessonPosition(
+  hand: string[],
+  botHand: string[],
+  lastPlay: string[] | null = null,
+  isFirstPlayOfGame = false
+): GameRecordPosition {
+  return {
+    matchNumber: 1,
+    hands: [cardsFromIds(hand), cardsFromIds(botHand)],
+    currentSeat: 0,
+    lastPlay: lastPlay ? scriptedLastPlay(lastPlay, 1) : null,
+    consecutivePasses: 0,
+    playedCards: lastPlay ? cardsFromIds(lastPlay) : [],
+    isFirstPlayOfGame,
+  };
+}
+
+export const TUTORIAL_LESSONS: readonly TutorialLesson[] = [
+  {
+    id: 'opening-card',
+    titleKey: 'tutorial.lessons.openingCard.title',
+    instructionKey: 'tutorial.lessons.openingCard.instruction',
+    successKey: 'tutorial.lessons.openingCard.success',
+    position: lessonPosition(['3D', '5H', '9C', 'KS'], ['4D', '6S', '10H', 'QC'], null, true),
+    accepts: [['3D']],
+  },
+  {
+    id: 'singles',
+    titleKey: 'tutorial.lessons.singles.title',
+    instructionKey: 'tutorial.lessons.singles.instruction',
+    successKey: 'tutorial.lessons.singles.success',
+    position: lessonPosition(['5S', '8D', 'JC', '2H'], ['4C', '6D', '10S', 'KH'], ['7H']),
+    accepts: [['8D']],
+  },
+  {
+    id: 'suit-order',
+    titleKey: 'tutorial.lessons.suitOrder.title',
+    instructionKey: 'tutorial.lessons.suitOrder.instruction',
+    successKey: 'tutorial.lessons.suitOrder.success',
+    position: lessonPosition(['4S', '9D', '9H'], ['5C', 'JD', 'QS'], ['9C']),
+    accepts: [['9H']],
+  },
+  {
+    id: 'pairs',
+    titleKey: 'tutorial.lessons.pairs.title',
+    instructionKey: 'tutorial.lessons.pairs.instruction',
+    successKey: 'tutorial.lessons.pairs.success',
+    position: lessonPosition(['7C', '7S', '8H', 'KD'], ['4D', '10C', 'JS'], ['6D', '6C']),
+    accepts: [['7C', '7S']],
+  },
+  {
+    id: 'five-card-hands',
+    titleKey: 'tutorial.lessons.fiveCardHands.title',
+    instructionKey: 'tutorial.lessons.fiveCardHands.instruction',
+    successKey: 'tutorial.lessons.fiveCardHands.success',
+    position: lessonPosition(
+      ['3H', '4S', '6H', '8H', '10H', 'QH'],
+      ['4C', 'JD', 'KS'],
+      ['5D', '6C', '7H', '8S', '9D']
+    ),
+    accepts: [['3H', '6H', '8H', '10H', 'QH']],
+  },
+  {
+    id: 'passing',
+    titleKey: 'tutorial.lessons.passing.title',
+    instructionKey: 'tutorial.lessons.passing.instruction',
+    successKey: 'tutorial.lessons.passing.success',
+    position: lessonPosition(['5C', 'KD', 'AH'], ['4H', '9S', 'QD'], ['2S']),
+    accepts: ['pass'],
+  },
+  {
+    id: 'one-card-left',
+    titleKey: 'tutorial.lessons.oneCardLeft.title',
+    instructionKey: 'tutorial.lessons.oneCardLeft.instruction',
+    successKey: 'tutorial.lessons.oneCardLeft.success',
+    position: lessonPosition(['4C', '9D', 'KS'], ['QH']),
+    accepts: [['KS']],
+  },
+];
+
+/** Whether a move is one the lesson accepts */
+export function isLessonMove(lesson: TutorialLesson, move: LessonMove): boolean {
+  return lesson.accepts.some(accepted => {
+    if (accepted === 'pass' || move === 'pass') return accepted === move;
+    return accepted.length === move.length && accepted.every(id => move.includes(id));
+  });
+}
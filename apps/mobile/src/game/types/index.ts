@@ -86,7 +86,7 @@ export interface MatchResult {
 
 /**
  * Scoring breakdown for a single player in a match
- * Scoring rules:
+ * Default scoring rules (configurable per game, see ScoringConfig):
  * - Winner: 0 points
  * - 1-4 cards: 1 point per card
  * - 5-9 cards: 2 points per card
@@ -97,7 +97,12 @@ export interface MatchResult {
 export interface PlayerMatchScoreDetail {
   playerId: string;
   cardsRemaining: number;
-  pointsPerCard: number; // 1, 2, or 3 based on card count
-  finalScore: number; // cardsRemaining * pointsPerCard
+  pointsPerCard: number; // From the scoring tier matching cardsRemaining
+  finalScore: number; // (cardsRemaining * pointsPerCard + twosPenalty) * multiplier, or -hongKongBonus
+  twosRemaining?: number; // 2s still in hand
+  twosPenalty?: number; // "Chop 2" penalty points included in finalScore
+  neverPlayed?: boolean; // Player never played a card this match
+  multiplier?: number; // 2 when the never-played penalty doubled the score
+  hongKongBonus?: number; // Points taken off the match winner
 }
 
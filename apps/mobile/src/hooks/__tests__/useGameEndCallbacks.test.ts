@@ -4,6 +4,7 @@
  * Tests for Play Again / Return to Menu callback registration:
  * - Play Again: clears history, reinitializes game, handles errors
  * - Return to Menu: resets navigation stack to Home
+ * - Watch Replay: resets navigation stack to Home → Replay
  * - iOS alert path vs showError fallback
  * - Null gameManagerRef graceful handling
  */
@@ -38,6 +39,7 @@ import { showError } from '../../utils';
 function makeOptions(overrides: Record<string, unknown> = {}) {
   const playAgainFn: { current: (() => Promise<void>) | null } = { current: null };
   const returnToMenuFn: { current: (() => void) | null } = { current: null };
+  const viewReplayFn: { current: (() => void) | null } = { current: null };
 
   const defaultOpts = {
     gameManagerRef: { current: { initializeGame: jest.fn().mockResolvedValue(undefined) } },
@@ -50,6 +52,9 @@ function makeOptions(overrides: Record<string, unknown> = {}) {
     setOnReturnToMenu: jest.fn((factory: () => () => void) => {
       returnToMenuFn.current = factory();
     }),
+    setOnViewReplay: jest.fn((factory: () => () => void) => {
+      viewReplayFn.current = factory();
+    }),
     clearHistory: jest.fn(),
     onAlert: undefined as ((opts: { title?: string; message: string }) => void) | undefined,
     ...overrides,
@@ -59,6 +64,7 @@ function makeOptions(overrides: Record<string, unknown> = {}) {
     opts: defaultOpts as Parameters<typeof useGameEndCallbacks>[0],
     playAgainFn,
     returnToMenuFn,
+    viewReplayFn,
   };
 }
 
@@ -69,12 +75,13 @@ describe('useGameEndCallbacks', () => {
     jest.clearAllMocks();
   });
 
-  it('registers both callbacks on mount', () => {
+  it('registers all callbacks on mount', () => {
     const { opts } = makeOptions();
     renderHook(() => useGameEndCallbacks(opts));
 
     expect(opts.setOnPlayAgain).toHaveBeenCalledTimes(1);
     expect(opts.setOnReturnToMenu).toHaveBeenCalledTimes(1);
+    expect(opts.setOnViewReplay).toHaveBeenCalledTimes(1);
   });
 
   // ── Play Again ────────────────────────────────────────────────────────
@@ -82,7 +89,7 @@ describe('useGameEndCallbacks', () => {
   it('Play Again: clears history and reinitializes game', async () => {
     const mockInit = jest.fn().mockResolvedValue(undefined);
     const { opts, playAgainFn } = makeOptions({
-      gameManagerRef: { current: { initializeGame: mockInit } },
+      gameManagerRef: { current: { initializeGame: mockInit, getState: () => null } },
     });
 
     renderHook(() => useGameEndCallbacks(opts));
@@ -96,6 +103,24 @@ describe('useGameEndCallbacks', () => {
     });
   });
 
+  it('Play Again: keeps the table size and deal of a short table', async () => {
+    const mockInit = jest.fn().mockResolvedValue(undefined);
+    const getState = () => ({ players: [{}, {}, {}], dealVariant: 'dummy' });
+    const { opts, playAgainFn } = makeOptions({
+      gameManagerRef: { current: { initializeGame: mockInit, getState } },
+    });
+
+    renderHook(() => useGameEndCallbacks(opts));
+    await playAgainFn.current!();
+
+    expect(mockInit).toHaveBeenCalledWith({
+      playerName: 'TestPlayer',
+      botCount: 2,
+      botDifficulty: 'medium',
+      dealVariant: 'dummy',
+    });
+  });
+
   it('Play Again: shows error when gameManagerRef is null', async () => {
     const { opts, playAgainFn } = makeOptions({
       gameManagerRef: { current: null },
@@ -182,6 +207,23 @@ describe('useGameEndCallbacks', () => {
     });
   });
 
+  // ── Watch Replay ──────────────────────────────────────────────────────
+
+  it('Watch Replay: opens the replay screen above Home', () => {
+    const mockReset = jest.fn();
+    const { opts, viewReplayFn } = makeOptions({
+      navigation: { reset: mockReset },
+    });
+
+    renderHook(() => useGameEndCallbacks(opts));
+    viewReplayFn.current!();
+
+    expect(mockReset).toHaveBeenCalledWith({
+      index: 1,
+      routes: [{ name: 'Home' }, { name: 'Replay' }],
+    });
+  });
+
   // ── Dependency updates ────────────────────────────────────────────────
 
   it('re-registers callbacks when botDifficulty changes', () => {
@@ -104,12 +104,19 @@ describe('usePlayerTotalScores', () => {
     expect(result.current).toEqual([400, 200, 100, 300]);
   });
 
-  it('falls back to p.score for fewer than 4 players', () => {
+  it('sums the history of a two-player table', () => {
     const players = [{ score: 5 }, { score: 10 }];
     const history = [makeScoreHistory(1, [1, 2], [1, 2])];
     const { result } = renderHook(() => usePlayerTotalScores(players, history));
-    // Fewer than 4 players → falls back to p.score (matches guard condition)
-    expect(result.current).toEqual([5, 10]);
+    expect(result.current).toEqual([1, 2]);
+  });
+
+  it('falls back to p.score for fewer than 2 players', () => {
+    const players = [{ score: 5 }];
+    const history = [makeScoreHistory(1, [1], [1])];
+    const { result } = renderHook(() => usePlayerTotalScores(players, history));
+    // A lone player → falls back to p.score (matches guard condition)
+    expect(result.current).toEqual([5]);
   });
 
   it('handles missing pointsAdded gracefully', () => {
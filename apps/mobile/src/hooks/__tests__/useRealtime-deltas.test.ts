@@ -0,0 +1,230 @@
+/**
+ * @file useRealtime-deltas.test.ts
+ * @description Delta realtime sync: game_state_deltas rows are applied on top of
+ * the get_player_game_state snapshot in sequence; a missing sequence number or a
+ * delta that needs a snapshot refetches it.
+ */
+
+// Mock Supabase BEFORE imports
+jest.mock('../../services/supabase');
+
+// Mock push notification triggers (fire-and-forget in realtimeActions)
+jest.mock('../../services/pushNotificationTriggers', () => ({
+  notifyPlayerTurn: jest.fn().mockResolvedValue(undefined),
+  notifyGameEnded: jest.fn().mockResolvedValue(undefined),
+  notifyGameStarted: jest.fn().mockResolvedValue(undefined),
+  notifyAllPlayersReady: jest.fn().mockResolvedValue(undefined),
+  notifyPlayerJoined: jest.fn().mockResolvedValue(undefined),
+  notifyRoomInvite: jest.fn().mockResolvedValue(undefined),
+  notifyFriendRequest: jest.fn().mockResolvedValue(undefined),
+  notifyFriendAccepted: jest.fn().mockResolvedValue(undefined),
+}));
+
+// Mock loggers
+jest.mock('../../utils/logger', () => ({
+  networkLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+  gameLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useRealtime } from '../useRealtime';
+import { supabase } from '../../services/supabase';
+import type { GameStateDelta, GameStateDeltaRow } from '../../utils/gameStateDeltas';
+
+describe('useRealtime - game_state deltas', () => {
+  const mockRoomId = 'room-1';
+  const mockUserId = 'user-123';
+
+  const snapshotRow = {
+    id: 'gs-1',
+    room_id: mockRoomId,
+    current_turn: 0,
+    turn_started_at: '2026-08-01T12:00:00Z',
+    last_play: null,
+    pass_count: 0,
+    game_phase: 'playing',
+    winner: null,
+    game_winner_index: null,
+    match_number: 1,
+    hands: {
+      '0': [{ id: '3D', rank: '3', suit: 'D' }],
+      '1': [{ id: 'hidden_0', rank: '?', suit: '?' }],
+    },
+    play_history: [],
+    final_scores: null,
+    scores_history: [],
+    auto_pass_timer: null,
+    played_cards: [],
+    updated_at: '2026-08-01T12:00:00Z',
+    event_sequence: 10,
+  };
+
+  let channelOn: jest.Mock;
+
+  function setupMocks() {
+    const mockRoom = { id: mockRoomId, code: 'ABCD12', status: 'playing' };
+    const mockPlayers = [
+      { id: 'rp-1', room_id: mockRoomId, user_id: mockUserId, player_index: 0, is_host: true },
+    ];
+
+    (supabase.from as jest.Mock).mockImplementation((table: string) => {
+      if (table === 'rooms') {
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              single: jest.fn().mockResolvedValue({ data: mockRoom, error: null }),
+            }),
+          }),
+        };
+      }
+      return {
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            or: jest.fn().mockReturnValue({
+              maybeSingle: jest.fn().mockResolvedValue({ data: { id: 'rp-1' }, error: null }),
+            }),
+            order: jest.fn().mockResolvedValue({ data: mockPlayers, error: null }),
+          }),
+        }),
+      };
+    });
+
+    (supabase.rpc as jest.Mock).mockReturnValue({
+      single: jest.fn().mockResolvedValue({ data: snapshotRow, error: null }),
+    });
+
+    channelOn = jest.fn().mockReturnThis();
+    (supabase.channel as jest.Mock).mockReturnValue({
+      on: channelOn,
+      subscribe: jest.fn().mockImplementation((cb?: (status: string) => void) => {
+        if (typeof cb === 'function') cb('SUBSCRIBED');
+        return { unsubscribe: jest.fn() };
+      }),
+      send: jest.fn().mockResolvedValue(undefined),
+      track: jest.fn().mockResolvedValue(undefined),
+      unsubscribe: jest.fn(),
+    });
+  }
+
+  /** Deliver a game_state_deltas INSERT to the hook's postgres_changes handler */
+  async function deliver(sequence_number: number, delta: GameStateDelta) {
+    const call = channelOn.mock.calls.find(
+      ([type, filter]) => type === 'postgres_changes' && filter?.table === 'game_state_deltas'
+    );
+    const row: GameStateDeltaRow = {
+      room_id: mockRoomId,
+      sequence_number,
+      delta,
+      created_at: '2026-08-01T12:00:05Z',
+    };
+    await act(async () => {
+      call![2]({ eventType: 'INSERT', new: row });
+    });
+  }
+
+  const playDelta: GameStateDelta = {
+    kind: 'play',
+    player_index: 0,
+    cards: [{ id: '3D', rank: '3', suit: 'D' }],
+    combo_type: 'Single',
+    next_turn: 1,
+    timestamp: 1000,
+    auto_pass_timer: null,
+    turn_started_at: '2026-08-01T12:00:05Z',
+  };
+
+  const passDelta: GameStateDelta = {
+    kind: 'pass',
+    player_index: 1,
+    next_turn: 2,
+    passes: 1,
+    trick_cleared: false,
+    turn_started_at: '2026-08-01T12:00:06Z',
+  };
+
+  async function connect() {
+    const hook = renderHook(() => useRealtime({ userId: mockUserId, username: 'Tester' }));
+    await act(async () => {
+      const promise = hook.result.current.connectToRoom('ABCD12');
+      await jest.advanceTimersByTimeAsync(100);
+      await promise;
+    });
+    await waitFor(() => expect(hook.result.current.gameState).toBeTruthy());
+    (supabase.rpc as jest.Mock).mockClear();
+    return hook;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.mocked(supabase.removeChannel).mockResolvedValue('ok');
+    setupMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('applies the next delta without fetching the snapshot', async () => {
+    const { result } = await connect();
+
+    await deliver(11, playDelta);
+
+    expect(result.current.gameState?.current_turn).toBe(1);
+    expect(result.current.gameState?.hands['0']).toEqual([]);
+    expect(result.current.gameState?.last_play?.cards).toEqual(playDelta.cards);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('waits for a delta that arrives out of order', async () => {
+    const { result } = await connect();
+
+    await deliver(12, passDelta);
+    expect(result.current.gameState?.current_turn).toBe(0);
+    await deliver(11, playDelta);
+
+    expect(result.current.gameState?.current_turn).toBe(2);
+    expect(result.current.gameState?.pass_count).toBe(1);
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1000);
+    });
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('fetches the snapshot when a sequence number stays missing', async () => {
+    await connect();
+
+    await deliver(12, passDelta);
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_player_game_state', { p_room_id: mockRoomId });
+  });
+
+  it('fetches the snapshot for a delta that needs one', async () => {
+    const { result } = await connect();
+    (supabase.rpc as jest.Mock).mockReturnValue({
+      single: jest.fn().mockResolvedValue({
+        data: { ...snapshotRow, current_turn: 3, event_sequence: 11 },
+        error: null,
+      }),
+    });
+
+    await deliver(11, { kind: 'snapshot' });
+
+    expect(supabase.rpc).toHaveBeenCalledTimes(1);
+    expect(supabase.rpc).toHaveBeenCalledWith('get_player_game_state', { p_room_id: mockRoomId });
+    expect(result.current.gameState?.current_turn).toBe(3);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @file useSpectator.test.ts
+ * @description Spectator view: rooms without open hands follow the
+ * spectator_game_state channel; rooms with delayed open hands subscribe to no
+ * live feed and poll get_spectator_game_state, so a spectator never sees a
+ * play newer than the reveal delay.
+ */
+
+jest.mock('../../services/supabase');
+jest.mock('../../contexts/AuthContext', () => ({
+  useAuth: jest.fn(() => ({ user: null })),
+}));
+jest.mock('../../utils/logger', () => ({
+  networkLogger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useSpectator } from '../useSpectator';
+import { supabase } from '../../services/supabase';
+
+const ROOM_ID = 'room-1';
+const START = Date.parse('2026-08-01T12:00:00Z');
+
+/** Plays made at the table, by seconds since START */
+const PLAYS = [
+  { at: 0, card: '3D' },
+  { at: 10, card: '5H' },
+  { at: 40, card: '9C' },
+  { at: 70, card: 'KS' },
+];
+
+function stateAfter(play: (typeof PLAYS)[number]) {
+  return {
+    current_turn: 1,
+    game_phase: 'playing',
+    match_number: 1,
+    last_play: {
+      player_index: 0,
+      cards: [{ id: play.card, rank: play.card.slice(0, -1), suit: play.card.slice(-1) }],
+      combo_type: 'Single',
+    },
+    card_counts: { '0': 12, '1': 13 },
+  };
+}
+
+/** The plays made so far, as the table sees them now */
+function playsUntil(time: number) {
+  return PLAYS.filter(play => START + play.at * 1000 <= time);
+}
+
+/**
+ * get_spectator_game_state as the database serves it: the live state without
+ * a delay, otherwise the newest snapshot at least the delay old
+ */
+function spectatorView(delaySeconds: number | null) {
+  const now = Date.now();
+  const shown = playsUntil(delaySeconds === null ? now : now - delaySeconds * 1000).pop();
+  return {
+    room_id: ROOM_ID,
+    room_code: 'ABCD',
+    room_status: 'playing',
+    reveal_delay_seconds: delaySeconds,
+    players: [
+      { player_index: 0, username: 'Ann', is_bot: false },
+      { player_index: 1, username: 'Bot', is_bot: true },
+    ],
+    state: shown ? stateAfter(shown) : null,
+    hands: delaySeconds === null ? null : { '0': [], '1': [] },
+    as_of: shown ? new Date(START + shown.at * 1000).toISOString() : null,
+  };
+}
+
+function mockRpc(delaySeconds: number | null) {
+  jest.mocked(supabase.rpc).mockImplementation(((name: string) => {
+    if (name === 'spectate_room') {
+      return Promise.resolve({
+        data: { room_id: ROOM_ID, reveal_delay_seconds: delaySeconds },
+        error: null,
+      });
+    }
+    if (name === 'get_spectator_game_state') {
+      return Promise.resolve({ data: spectatorView(delaySeconds), error: null });
+    }
+    return Promise.resolve({ data: null, error: null });
+  }) as unknown as typeof supabase.rpc);
+}
+
+/** Let the hook's pending promises settle */
+async function flush() {
+  await act(async () => {
+    await Promise.resolve();
+  });
+}
+
+describe('useSpectator', () => {
+  let channelHandler: (() => void) | null;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    channelHandler = null;
+    const channel = {
+      on: jest.fn((_event: string, _filter: unknown, handler: () => void) => {
+        channelHandler = handler;
+        return channel;
+      }),
+      subscribe: jest.fn(() => channel),
+    };
+    jest
+      .mocked(supabase.channel)
+      .mockReturnValue(channel as unknown as ReturnType<typeof supabase.channel>);
+    jest.mocked(supabase.removeChannel).mockResolvedValue('ok');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('follows a room without open hands on the spectator channel', async () => {
+    mockRpc(null);
+    const { result } = renderHook(() => useSpectator('ABCD'));
+    await flush();
+    expect(result.current.view?.lastPlay?.cards[0].id).toBe('3D');
+    expect(supabase.channel).toHaveBeenCalledWith(`spectate:${ROOM_ID}`);
+
+    act(() => {
+      jest.advanceTimersByTime(10_000);
+    });
+    act(() => channelHandler?.());
+    await flush();
+    expect(result.current.view?.lastPlay?.cards[0].id).toBe('5H');
+  });
+
+  it('never shows a delayed spectator a play newer than the reveal delay', async () => {
+    const delaySeconds = 30;
+    mockRpc(delaySeconds);
+    const { result } = renderHook(() => useSpectator('ABCD'));
+    await flush();
+
+    // Nothing is old enough yet, and no live feed is subscribed
+    expect(result.current.view?.lastPlay).toBeNull();
+    expect(supabase.channel).not.toHaveBeenCalled();
+
+    const seen = new Set<string>();
+    for (let step = 0; step < 24; step++) {
+      act(() => {
+        jest.advanceTimersByTime(5_000);
+      });
+      await flush();
+
+      const card = result.current.view?.lastPlay?.cards[0].id;
+      if (!card) continue;
+      seen.add(card);
+      const playedAt = START + PLAYS.find(play => play.card === card)!.at * 1000;
+      expect(playedAt).toBeLessThanOrEqual(Date.now() - delaySeconds * 1000);
+      expect(Date.parse(result.current.view!.asOf!)).toBe(playedAt);
+    }
+
+    // The delayed view kept up with the table, one delay behind
+    expect([...seen]).toEqual(['3D', '5H', '9C', 'KS']);
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+});
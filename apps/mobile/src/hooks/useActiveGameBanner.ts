@@ -5,7 +5,8 @@
  *   - Current room detection (checkCurrentRoom, useFocusEffect)
  *   - Voluntarily-left room persistence (AsyncStorage)
  *   - 60s disconnect countdown + handleTimerExpired bot-replacement poll
- *   - Banner action handlers: resume, leave, replace-bot-and-rejoin
+ *   - Banner action handlers: resume, leave, replace-bot-and-rejoin (and continue /
+ *     discard for the saved offline games of the Continue list)
  *   - Game exclusivity guard (checkGameExclusivity)
  *
  * Extracted from HomeScreen.tsx which was 1,643 LOC.
@@ -19,9 +20,11 @@ import { supabase } from '../services/supabase';
 import { showError, showSuccess, showConfirm } from '../utils';
 import { roomLogger } from '../utils/logger';
 import { i18n } from '../i18n';
+import { DEFAULT_ROOM_TIMER_SETTINGS, isRoomDisconnectSeconds } from '../game/engine/room-timers';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import type { RoomPlayerWithRoom } from '../types';
 import type { ActiveGameInfo } from '../components/home/ActiveGameBanner';
+import { DEFAULT_SAVE_SLOT, deleteSaveSlot } from '../game/save-slots';
 
 type HomeNavProp = StackNavigationProp<RootStackParamList, 'Home'>;
 
@@ -38,6 +41,8 @@ export interface UseActiveGameBannerResult {
   setCurrentRoom: React.Dispatch<React.SetStateAction<string | null>>;
   currentRoomStatus: 'waiting' | 'playing' | undefined;
   disconnectTimestamp: number | null;
+  /** The room's disconnect timer (seconds from disconnectTimestamp to bot replacement) */
+  disconnectSeconds: number;
   canRejoinAfterExpiry: boolean | null;
   bannerRefreshKey: number;
   setBannerRefreshKey: React.Dispatch<React.SetStateAction<number>>;
@@ -85,6 +90,9 @@ export function useActiveGameBanner(
     undefined
   );
   const [disconnectTimestamp, setDisconnectTimestamp] = useState<number | null>(null);
+  const [disconnectSeconds, setDisconnectSeconds] = useState(
+    DEFAULT_ROOM_TIMER_SETTINGS.disconnectSeconds
+  );
   const [canRejoinAfterExpiry, setCanRejoinAfterExpiry] = useState<boolean | null>(null);
   const [bannerRefreshKey, setBannerRefreshKey] = useState(0);
 
@@ -198,19 +206,25 @@ export function useActiveGameBanner(
             if (statusData?.success) {
               if (statusData.status === 'disconnected' || statusData.disconnect_timer_active) {
                 recheckAttemptRef.current = 0; // stop any pending retry cycle
+                const roomDisconnectSeconds = isRoomDisconnectSeconds(
+                  statusData.disconnect_timer_seconds
+                )
+                  ? statusData.disconnect_timer_seconds
+                  : DEFAULT_ROOM_TIMER_SETTINGS.disconnectSeconds;
+                setDisconnectSeconds(roomDisconnectSeconds);
                 // 6.5: Unified single source of truth — always derive the anchor
                 // from disconnect_timer_started_at when available. If the server
                 // omits this field, fall back to seconds_left to approximate it.
                 // Using one formula prevents subtle drift between the two paths.
                 // Guard: if seconds_left is also absent, use null rather than
-                // computing an anchor 60s in the past (which appears expired).
+                // computing an anchor a full timer in the past (which appears expired).
                 const parsedDisconnectStartedAtMs = statusData.disconnect_timer_started_at
                   ? new Date(statusData.disconnect_timer_started_at).getTime()
                   : null;
                 const serverAnchorMs = Number.isFinite(parsedDisconnectStartedAtMs)
                   ? Math.min(parsedDisconnectStartedAtMs as number, Date.now())
                   : typeof statusData.seconds_left === 'number'
-                    ? Date.now() - (60 - statusData.seconds_left) * 1000
+                    ? Date.now() - (roomDisconnectSeconds - statusData.seconds_left) * 1000
                     : null;
                 setDisconnectTimestamp(serverAnchorMs);
               } else if (statusData.status === 'replaced_by_bot') {
@@ -669,7 +683,7 @@ export function useActiveGameBanner(
           navigation.replace('Lobby', { roomCode: gameInfo.roomCode });
         }
       } else {
-        navigation.navigate('Game', { roomCode: 'LOCAL_AI_GAME' });
+        navigation.navigate('Game', { roomCode: 'LOCAL_AI_GAME', saveSlot: gameInfo.saveSlot });
       }
     },
     [navigation]
@@ -744,7 +758,7 @@ export function useActiveGameBanner(
           onCancel: onDone,
           onConfirm: async () => {
             try {
-              await AsyncStorage.removeItem('@big2_game_state');
+              await deleteSaveSlot(gameInfo.saveSlot ?? DEFAULT_SAVE_SLOT);
               setBannerRefreshKey(k => k + 1);
               showSuccess('Offline game discarded');
             } catch {
@@ -826,59 +840,8 @@ export function useActiveGameBanner(
 
   const checkGameExclusivity = useCallback(
     async (targetType: 'online' | 'offline'): Promise<boolean> => {
-      try {
-        const stateJson = await AsyncStorage.getItem('@big2_game_state');
-        if (stateJson) {
-          const state = JSON.parse(stateJson);
-          if (state && !state.gameOver && state.gameStarted && !state.gameEnded) {
-            if (targetType === 'offline') {
-              return new Promise<boolean>(resolve => {
-                showConfirm({
-                  title: 'Game In Progress',
-                  message: 'You have an offline game in progress. Discard it and start a new one?',
-                  confirmText: 'Discard & Start New',
-                  cancelText: 'Resume Current Game',
-                  destructive: true,
-                  onConfirm: async () => {
-                    await AsyncStorage.removeItem('@big2_game_state');
-                    await AsyncStorage.removeItem('@big2_score_history');
-                    setBannerRefreshKey(k => k + 1);
-                    resolve(true);
-                  },
-                  onCancel: () => {
-                    navigation.navigate('Game', { roomCode: 'LOCAL_AI_GAME' });
-                    resolve(false);
-                  },
-                });
-              });
-            } else {
-              return new Promise<boolean>(resolve => {
-                showConfirm({
-                  title: 'Game In Progress',
-                  message:
-                    'You have an offline game in progress. You must leave it before joining an online game.',
-                  confirmText: 'Discard Offline Game',
-                  cancelText: 'Resume Offline Game',
-                  destructive: true,
-                  onConfirm: async () => {
-                    await AsyncStorage.removeItem('@big2_game_state');
-                    await AsyncStorage.removeItem('@big2_score_history');
-                    setBannerRefreshKey(k => k + 1);
-                    resolve(true);
-                  },
-                  onCancel: () => {
-                    navigation.navigate('Game', { roomCode: 'LOCAL_AI_GAME' });
-                    resolve(false);
-                  },
-                });
-              });
-            }
-          }
-        }
-      } catch {
-        /* AsyncStorage read failed — proceed */
-      }
-
+      // Saved offline games stay in their save slots (the Continue list), so
+      // only an online room stands in the way of another game
       if (user && targetType === 'offline' && currentRoom) {
         return new Promise<boolean>(resolve => {
           showConfirm({
@@ -960,6 +923,7 @@ export function useActiveGameBanner(
     setCurrentRoom,
     currentRoomStatus,
     disconnectTimestamp,
+    disconnectSeconds,
     canRejoinAfterExpiry,
     bannerRefreshKey,
     setBannerRefreshKey,
@@ -7,7 +7,7 @@ import { gameLogger } from '../utils/logger';
 interface UseBotTurnManagerParams {
   gameManagerRef: React.MutableRefObject<GameStateManager | null>;
   /** Bot difficulty — controls the delay between bot turns to give the correct pacing feel. */
-  botDifficulty?: 'easy' | 'medium' | 'hard';
+  botDifficulty?: 'easy' | 'medium' | 'hard' | 'expert';
 }
 
 /**
@@ -20,8 +20,8 @@ export function useBotTurnManager({ gameManagerRef, botDifficulty = 'medium' }:
   const lastBotTurnPlayerIndexRef = useRef<number | null>(null);
 
   // Bot turn timing configuration based on difficulty
-  const getBotDelayMs = (difficulty: 'easy' | 'medium' | 'hard' = 'medium'): number => {
-    const delays = { easy: 1200, medium: 800, hard: 500 };
+  const getBotDelayMs = (difficulty: 'easy' | 'medium' | 'hard' | 'expert' = 'medium'): number => {
+    const delays = { easy: 1200, medium: 800, hard: 500, expert: 500 };
     return delays[difficulty];
   };
 
@@ -0,0 +1,99 @@
+/**
+ * useDuplicateResults — seat-by-seat comparison of a duplicate group
+ *
+ * Loads the finished tables of a duplicate group (get_duplicate_results RPC)
+ * and ranks every seat against the players who held the same dealt hands at
+ * the other tables (compareDuplicateResults). Once every table has finished
+ * the group's seed is revealed and checked against the published hash.
+ */
+import { useState, useCallback } from 'react';
+import {
+  compareDuplicateResults,
+  verifyDealSeed,
+  type DuplicateSeatResult,
+  type DuplicateTableResult,
+} from '../game/engine';
+import { supabase } from '../services/supabase';
+import { extractErrorMessage } from '../utils';
+import { statsLogger } from '../utils/logger';
+
+/** Row shape returned by get_duplicate_results */
+interface DuplicateResultsPayload {
+  group_id: string;
+  code: string;
+  table_count: number;
+  tables_finished: number;
+  seed_hash: string;
+  seed: string | null;
+  tables: {
+    table_index: number;
+    room_code: string;
+    usernames: (string | null)[];
+    match_scores: number[][];
+  }[];
+}
+
+export interface DuplicateSeatRow extends DuplicateSeatResult {
+  username: string;
+}
+
+export interface DuplicateResults {
+  code: string;
+  tableCount: number;
+  tablesFinished: number;
+  seats: DuplicateSeatRow[];
+  /** true/false once the seed is revealed, null while tables are still playing */
+  seedVerified: boolean | null;
+}
+
+export interface UseDuplicateResultsResult {
+  results: DuplicateResults | null;
+  loading: boolean;
+  error: string | null;
+  load: (groupId: string) => Promise<void>;
+}
+
+export function useDuplicateResults(): UseDuplicateResultsResult {
+  const [results, setResults] = useState<DuplicateResults | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (groupId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_duplicate_results', {
+        p_group_id: groupId,
+      });
+      if (rpcError) throw rpcError;
+
+      const payload = data as unknown as DuplicateResultsPayload;
+      const tables: DuplicateTableResult[] = payload.tables.map(table => ({
+        tableIndex: table.table_index,
+        matchScores: table.match_scores,
+      }));
+      const seats = compareDuplicateResults(tables).map(seat => ({
+        ...seat,
+        username:
+          payload.tables.find(t => t.table_index === seat.tableIndex)?.usernames[seat.seat] ??
+          `Table ${seat.tableIndex + 1} · Seat ${seat.seat + 1}`,
+      }));
+
+      setResults({
+        code: payload.code,
+        tableCount: payload.table_count,
+        tablesFinished: payload.tables_finished,
+        seats,
+        seedVerified: payload.seed ? verifyDealSeed(payload.seed, payload.seed_hash) : null,
+      });
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err);
+      statsLogger.error('[useDuplicateResults] Failed to load duplicate results:', message);
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { results, loading, error, load };
+}
@@ -32,6 +32,24 @@ import type { Card } from '../game/types';
 import { classifyCards, canBeatPlay } from '../game';
 import type { LastPlay } from '../game';
 import { validateOneCardLeftRule } from '../game/engine/game-logic';
+import {
+  STANDARD_RULE_SET,
+  isOpeningCard,
+  getOpeningCardId,
+  isStandardRuleSet,
+  type RuleSet,
+} from '../game/engine/rule-set';
+
+const SUIT_SYMBOLS: Record<string, string> = { D: '♦', C: '♣', H: '♥', S: '♠' };
+
+/** Localized "first play must include …" message for the room's opening card */
+function firstPlayErrorMessage(rules: RuleSet): string {
+  if (isStandardRuleSet(rules)) return i18n.t('game.firstPlayMustInclude3D');
+  const openingCard = getOpeningCardId(rules);
+  return i18n.t('game.firstPlayMustIncludeOpeningCard', {
+    card: `${openingCard[0]}${SUIT_SYMBOLS[openingCard[1]]}`,
+  });
+}
 
 interface GameManagerLike {
   playCards: (cardIds: string[]) => Promise<{ success: boolean; error?: string }>;
@@ -44,6 +62,8 @@ interface MultiplayerValidationState {
   playerHand: Card[];
   /** Number of cards held by the next active player — used for OCL pre-validation (Task #660). */
   nextPlayerCardCount?: number;
+  /** House rules for the game; defaults to the standard rules. */
+  ruleSet?: RuleSet;
 }
 
 /** Differentiates game modes for analytics events. */
@@ -153,7 +173,13 @@ export function useGameActions({
           if (getOfflineValidationState) {
             const vState = getOfflineValidationState();
             if (vState) {
-              const { lastPlay, isFirstPlayOfGame, playerHand, nextPlayerCardCount } = vState;
+              const {
+                lastPlay,
+                isFirstPlayOfGame,
+                playerHand,
+                nextPlayerCardCount,
+                ruleSet = STANDARD_RULE_SET,
+              } = vState;
 
               // 1. All selected cards must be in the player's hand
               const handCardIds = new Set(playerHand.map(c => c.id));
@@ -170,7 +196,7 @@ export function useGameActions({
               }
 
               // 2. Combination must be valid
-              const combo = classifyCards(sortedCards);
+              const combo = classifyCards(sortedCards, ruleSet);
               if (combo === 'unknown') {
                 soundManager.playSound(SoundType.INVALID_MOVE);
                 alertError(i18n.t('game.invalidCombo'));
@@ -182,10 +208,10 @@ export function useGameActions({
                 return;
               }
 
-              // 3. First play of game must include the 3 of Diamonds
-              if (isFirstPlayOfGame && !sortedCards.some(c => c.rank === '3' && c.suit === 'D')) {
+              // 3. First play of game must include the opening card (3♦ under the standard rules)
+              if (isFirstPlayOfGame && !sortedCards.some(c => isOpeningCard(c, ruleSet))) {
                 soundManager.playSound(SoundType.INVALID_MOVE);
-                alertError(i18n.t('game.firstPlayMustInclude3D'));
+                alertError(firstPlayErrorMessage(ruleSet));
                 trackGameplayAction('play_validation_error', {
                   mode: 'local_ai',
                   error_type: 'must_play_3d_first',
@@ -195,7 +221,7 @@ export function useGameActions({
               }
 
               // 4. Must beat the current last play (if one exists)
-              if (lastPlay && !canBeatPlay(sortedCards, lastPlay)) {
+              if (lastPlay && !canBeatPlay(sortedCards, lastPlay, ruleSet)) {
                 soundManager.playSound(SoundType.INVALID_MOVE);
                 alertError(i18n.t('game.cannotBeat'));
                 trackGameplayAction('play_validation_error', {
@@ -212,7 +238,8 @@ export function useGameActions({
                   sortedCards,
                   playerHand,
                   nextPlayerCardCount,
-                  lastPlay
+                  lastPlay,
+                  ruleSet
                 );
                 if (!oclValidation.valid) {
                   soundManager.playSound(SoundType.INVALID_MOVE);
@@ -283,8 +310,13 @@ export function useGameActions({
           if (getMultiplayerValidationState) {
             const validationState = getMultiplayerValidationState();
             if (validationState) {
-              const { lastPlay, isFirstPlayOfGame, playerHand, nextPlayerCardCount } =
-                validationState;
+              const {
+                lastPlay,
+                isFirstPlayOfGame,
+                playerHand,
+                nextPlayerCardCount,
+                ruleSet = STANDARD_RULE_SET,
+              } = validationState;
 
               // 1. Verify all selected cards are actually in the player's hand
               const handCardIds = new Set(playerHand.map(c => c.id));
@@ -302,7 +334,7 @@ export function useGameActions({
               }
 
               // 2. Verify the combination itself is valid
-              const combo = classifyCards(sortedCards);
+              const combo = classifyCards(sortedCards, ruleSet);
               if (combo === 'unknown') {
                 soundManager.playSound(SoundType.INVALID_MOVE);
                 const m = i18n.t('game.invalidCombo');
@@ -315,13 +347,13 @@ export function useGameActions({
                 return;
               }
 
-              // 3. First play of game must include the 3 of Diamonds.
-              // Use rank+suit check instead of id string comparison since the server
+              // 3. First play of game must include the opening card (3♦ under the standard rules).
+              // isOpeningCard checks rank+suit instead of the id string since the server
               // stores cards in suit-first format ('D3') while local state uses
               // rank-first format ('3D'). Checking rank/suit fields works for both.
-              if (isFirstPlayOfGame && !sortedCards.some(c => c.rank === '3' && c.suit === 'D')) {
+              if (isFirstPlayOfGame && !sortedCards.some(c => isOpeningCard(c, ruleSet))) {
                 soundManager.playSound(SoundType.INVALID_MOVE);
-                const m = i18n.t('game.firstPlayMustInclude3D');
+                const m = firstPlayErrorMessage(ruleSet);
                 alertError(m);
                 trackGameplayAction('play_validation_error', {
                   mode: 'multiplayer',
@@ -332,7 +364,7 @@ export function useGameActions({
               }
 
               // 4. Must beat the current last play (if one exists)
-              if (lastPlay && !canBeatPlay(sortedCards, lastPlay)) {
+              if (lastPlay && !canBeatPlay(sortedCards, lastPlay, ruleSet)) {
                 soundManager.playSound(SoundType.INVALID_MOVE);
                 const m = i18n.t('game.cannotBeat');
                 alertError(m);
@@ -350,7 +382,8 @@ export function useGameActions({
                   sortedCards,
                   playerHand,
                   nextPlayerCardCount,
-                  lastPlay
+                  lastPlay,
+                  ruleSet
                 );
                 if (!oclValidation.valid) {
                   soundManager.playSound(SoundType.INVALID_MOVE);
@@ -1,5 +1,5 @@
 /**
- * useGameEndCallbacks — Registers Play Again / Return to Menu handlers on the GameEnd context.
+ * useGameEndCallbacks — Registers Play Again / Return to Menu / Watch Replay handlers on the GameEnd context.
  *
  * Extracted from GameScreen.tsx to reduce file size (~35 lines).
  */
@@ -17,10 +17,11 @@ import type { GameStateManager } from '../game/state';
 interface UseGameEndCallbacksOptions {
   gameManagerRef: React.RefObject<GameStateManager | null>;
   currentPlayerName: string;
-  botDifficulty: 'easy' | 'medium' | 'hard';
+  botDifficulty: 'easy' | 'medium' | 'hard' | 'expert';
   navigation: StackNavigationProp<RootStackParamList, 'Game'>;
   setOnPlayAgain: (fn: () => () => Promise<void>) => void;
   setOnReturnToMenu: (fn: () => () => void) => void;
+  setOnViewReplay: (fn: () => () => void) => void;
   /** Clears all score history and scoreboard state for a fresh game. */
   clearHistory: () => void;
   /**
@@ -37,6 +38,7 @@ export function useGameEndCallbacks({
   navigation,
   setOnPlayAgain,
   setOnReturnToMenu,
+  setOnViewReplay,
   clearHistory,
   onAlert,
 }: UseGameEndCallbacksOptions): void {
@@ -64,10 +66,13 @@ export function useGameEndCallbacks({
         // Clear scoreboard history so the new game starts with 0 scores
         clearHistory();
         gameLogger.info('🧹 [GameScreen] Score history cleared for new game');
+        // Same table size and deal as the game just finished
+        const previous = manager.getState();
         await manager.initializeGame({
           playerName: currentPlayerName,
-          botCount: 3,
+          botCount: (previous?.players.length ?? 4) - 1,
           botDifficulty,
+          ...(previous?.dealVariant ? { dealVariant: previous.dealVariant } : {}),
         });
         gameLogger.info('✅ [GameScreen] Game restarted successfully');
         // GAME_START sound is driven by useGameAudio (tracks currentMatch);
@@ -85,8 +90,17 @@ export function useGameEndCallbacks({
         routes: [{ name: 'Home' }],
       });
     });
+
+    // The finished game was saved by GameStateManager; the replay screen loads it
+    setOnViewReplay(() => () => {
+      gameLogger.info('🎬 [GameScreen] Watch Replay requested - navigating to Replay');
+      navigation.reset({
+        index: 1,
+        routes: [{ name: 'Home' }, { name: 'Replay' }],
+      });
+    });
     // botDifficulty included so "Play Again" always uses the latest difficulty.
-    // setOnPlayAgain / setOnReturnToMenu are stable setters — safe to include.
+    // setOnPlayAgain / setOnReturnToMenu / setOnViewReplay are stable setters — safe to include.
     // clearHistory is a stable useCallback from ScoreboardContext — safe to include.
     // onAlert included so alertError always uses the latest iOS alert callback.
   }, [
@@ -96,6 +110,7 @@ export function useGameEndCallbacks({
     botDifficulty,
     setOnPlayAgain,
     setOnReturnToMenu,
+    setOnViewReplay,
     clearHistory,
     onAlert,
   ]);
@@ -0,0 +1,111 @@
+/**
+ * useGameRecordExport — shares a finished game as a portable game record
+ *
+ * Everything the record needs is read from game_history: the players, the
+ * moves (play_history), the revealed deal seed, the points of every match and
+ * the rules and scoring the game was played with. The record's text form
+ * (see createGameRecord) is handed to the native share sheet.
+ */
+import { useState, useCallback } from 'react';
+import { Share } from 'react-native';
+import {
+  createGameRecord,
+  serializeGameRecord,
+  normalizeRuleSet,
+  isDealVariant,
+  isPlayerCount,
+  MAX_PLAYERS,
+  normalizeScoringConfig,
+  type GameRecord,
+  type ReplayHistoryEntry,
+} from '../game/engine';
+import { i18n } from '../i18n';
+import { supabase } from '../services/supabase';
+import { extractErrorMessage, showError } from '../utils';
+import { gameLogger } from '../utils/logger';
+
+/** Columns of game_history a game record needs */
+interface GameRecordRow {
+  player_1_username: string | null;
+  player_2_username: string | null;
+  player_3_username: string | null;
+  player_4_username: string | null;
+  player_count: number | null;
+  deal_variant: string | null;
+  play_history: unknown;
+  deal_seed: string | null;
+  seat_rotation: number | null;
+  match_scores: unknown;
+  rule_set: unknown;
+  scoring: unknown;
+}
+
+/**
+ * Build the record of a game_history row; null when it has no recorded moves
+ */
+export async function fetchGameRecord(gameHistoryId: string): Promise<GameRecord | null> {
+  const { data, error } = await supabase
+    .from('game_history')
+    .select(
+      'player_1_username, player_2_username, player_3_username, player_4_username, player_count, deal_variant, play_history, deal_seed, seat_rotation, match_scores, rule_set, scoring'
+    )
+    .eq('id', gameHistoryId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const row = data as GameRecordRow | null;
+  if (!row || !Array.isArray(row.play_history) || row.play_history.length === 0) return null;
+  const usernames = [
+    row.player_1_username,
+    row.player_2_username,
+    row.player_3_username,
+    row.player_4_username,
+  ];
+  return createGameRecord({
+    replay: {
+      playerNames: usernames
+        .slice(0, isPlayerCount(row.player_count) ? row.player_count : MAX_PLAYERS)
+        .map((name, seat) => name ?? `Player ${seat + 1}`),
+      playHistory: row.play_history as ReplayHistoryEntry[],
+      dealSeed: row.deal_seed,
+      seatRotation: row.seat_rotation,
+      ...(isDealVariant(row.deal_variant) ? { dealVariant: row.deal_variant } : {}),
+    },
+    ruleSet: normalizeRuleSet(row.rule_set),
+    scoring: normalizeScoringConfig(row.scoring),
+    matchScores: Array.isArray(row.match_scores) ? (row.match_scores as number[][]) : null,
+  });
+}
+
+export interface UseGameRecordExportResult {
+  exportGame: (gameHistoryId: string) => Promise<void>;
+  /** The game being exported, if any */
+  exportingId: string | null;
+}
+
+export function useGameRecordExport(): UseGameRecordExportResult {
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const exportGame = useCallback(async (gameHistoryId: string) => {
+    setExportingId(gameHistoryId);
+    try {
+      const record = await fetchGameRecord(gameHistoryId);
+      if (!record) {
+        showError(i18n.t('gameRecord.notAvailable'));
+        return;
+      }
+      // Share.share() resolves on cancellation too; only a real failure throws
+      await Share.share({
+        message: serializeGameRecord(record),
+        title: i18n.t('gameRecord.shareTitle'),
+      });
+    } catch (err: unknown) {
+      gameLogger.error('[useGameRecordExport] Failed to export game:', extractErrorMessage(err));
+      showError(i18n.t('gameRecord.exportError'));
+    } finally {
+      setExportingId(null);
+    }
+  }, []);
+
+  return { exportGame, exportingId };
+}
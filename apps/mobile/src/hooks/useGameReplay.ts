@@ -0,0 +1,146 @@
+/**
+ * useGameReplay — loads a finished game for the replay viewer
+ *
+ * Online games (and signed-in local games) are read from game_history, which
+ * keeps the play history and the revealed deal seed. Without an id the last
+ * finished local game saved by GameStateManager is used, so replays also work
+ * offline. An imported game record is replayed as it is. The moves are
+ * rebuilt into matches by buildGameReplay.
+ *
+ * The viewer's own seat is reported so the replay can show the move analysis
+ * of their decisions (local games: seat 0; imported records: none).
+ */
+import { useState, useEffect, useCallback } from 'react';
+import {
+  buildGameReplay,
+  gameRecordToReplaySource,
+  normalizeRuleSet,
+  isDealVariant,
+  isPlayerCount,
+  MAX_PLAYERS,
+  type GameRecord,
+  type GameReplay,
+  type ReplayHistoryEntry,
+} from '../game/engine';
+import { GameStateManager } from '../game/state';
+import { supabase } from '../services/supabase';
+import { extractErrorMessage } from '../utils';
+import { gameLogger } from '../utils/logger';
+
+/** Columns of game_history the replay needs */
+interface ReplayHistoryRow {
+  player_1_username: string | null;
+  player_2_username: string | null;
+  player_3_username: string | null;
+  player_4_username: string | null;
+  player_1_id: string | null;
+  player_2_id: string | null;
+  player_3_id: string | null;
+  player_4_id: string | null;
+  player_count: number | null;
+  deal_variant: string | null;
+  play_history: unknown;
+  deal_seed: string | null;
+  seat_rotation: number | null;
+  rule_set: unknown;
+}
+
+export interface UseGameReplayOptions {
+  gameHistoryId?: string;
+  roomId?: string;
+  /** An imported (validated) game record */
+  record?: GameRecord;
+}
+
+export interface UseGameReplayResult {
+  /** null while loading, on error, or when the game has no recorded moves */
+  replay: GameReplay | null;
+  /** Seat of the signed-in player in this game, if they played in it */
+  viewerSeat: number | null;
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+export function useGameReplay({
+  gameHistoryId,
+  roomId,
+  record,
+}: UseGameReplayOptions): UseGameReplayResult {
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [viewerSeat, setViewerSeat] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setViewerSeat(null);
+    try {
+      if (record) {
+        setReplay(buildGameReplay(gameRecordToReplaySource(record)));
+        return;
+      }
+      if (!gameHistoryId && !roomId) {
+        const source = await GameStateManager.loadLastReplay();
+        setReplay(source ? buildGameReplay(source) : null);
+        setViewerSeat(0);
+        return;
+      }
+
+      const query = supabase
+        .from('game_history')
+        .select(
+          'player_1_username, player_2_username, player_3_username, player_4_username, player_1_id, player_2_id, player_3_id, player_4_id, player_count, deal_variant, play_history, deal_seed, seat_rotation, rule_set'
+        );
+      const { data, error: queryError } = await (
+        gameHistoryId ? query.eq('id', gameHistoryId) : query.eq('room_id', roomId!)
+      ).maybeSingle();
+      if (queryError) throw queryError;
+
+      const row = data as ReplayHistoryRow | null;
+      if (!row || !Array.isArray(row.play_history) || row.play_history.length === 0) {
+        setReplay(null);
+        return;
+      }
+      const usernames = [
+        row.player_1_username,
+        row.player_2_username,
+        row.player_3_username,
+        row.player_4_username,
+      ];
+      setReplay(
+        buildGameReplay({
+          playerNames: usernames
+            .slice(0, isPlayerCount(row.player_count) ? row.player_count : MAX_PLAYERS)
+            .map((name, seat) => name ?? `Player ${seat + 1}`),
+          playHistory: row.play_history as ReplayHistoryEntry[],
+          dealSeed: row.deal_seed,
+          seatRotation: row.seat_rotation,
+          ...(isDealVariant(row.deal_variant) ? { dealVariant: row.deal_variant } : {}),
+          ruleSet: normalizeRuleSet(row.rule_set),
+        })
+      );
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const playerIds = [row.player_1_id, row.player_2_id, row.player_3_id, row.player_4_id];
+      const seat = session ? playerIds.indexOf(session.user.id) : -1;
+      setViewerSeat(seat >= 0 ? seat : null);
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err);
+      gameLogger.error('[useGameReplay] Failed to load replay:', message);
+      setError(message);
+      setReplay(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [gameHistoryId, roomId, record]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { replay, viewerSeat, loading, error, reload };
+}
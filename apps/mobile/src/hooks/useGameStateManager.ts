@@ -6,24 +6,37 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createGameStateManager, type GameState, type GameStateManager } from '../game/state';
+import { DEFAULT_SAVE_SLOT, saveSlotKeys } from '../game/save-slots';
+import type { RuleSet, RuleSetPresetId } from '../game/engine/rule-set';
+import type { GameRecordPosition } from '../game/engine/game-record';
+import type { DealVariant } from '../game/engine/seeded-deal';
+import {
+  DEFAULT_SCORING_CONFIG,
+  isDefaultScoringConfig,
+  type ScoringConfig,
+} from '../game/engine/scoring-config';
 import { i18n } from '../i18n';
 import { soundManager, SoundType, showError } from '../utils';
 import { gameLogger } from '../utils/logger';
 import { buildFinalPlayHistoryFromState } from '../utils/playHistoryUtils';
 import type { FinalScore } from '../types/gameEnd';
-import type { ScoreHistory, PlayHistoryMatch } from '../types/scoreboard';
+import type { ScoreHistory, PlayHistoryMatch, MatchScoreBreakdown } from '../types/scoreboard';
 import { parsePersistedScoreHistory } from '../utils/parsePersistedScoreHistory';
 import { parsePersistedPlayHistory } from '../utils/parsePersistedPlayHistory';
 
-const SCORE_HISTORY_KEY = '@big2_score_history';
-const PLAY_HISTORY_KEY = '@big2_play_history';
-
 interface UseGameStateManagerProps {
   roomCode: string;
   currentPlayerName: string;
   forceNewGame?: boolean;
+  saveSlot?: string; // Save slot of a local game (see save-slots.ts)
   isLocalGame?: boolean; // NEW: Only initialize game engine for local games
-  botDifficulty?: 'easy' | 'medium' | 'hard'; // Bot difficulty for local games (Task #596)
+  botDifficulty?: 'easy' | 'medium' | 'hard' | 'expert'; // Bot difficulty for local games (Task #596)
+  ruleSet?: RuleSet | RuleSetPresetId; // House rules for a new local game (standard when omitted)
+  scoring?: Partial<ScoringConfig>; // Scoring config for a new local game (classic when omitted)
+  startPosition?: GameRecordPosition; // Game record position a new local game starts from (puzzles)
+  playerCount?: number; // Table size of a new local game, 2 to 4 (4 when omitted)
+  dealVariant?: DealVariant; // How a new local game of two or three is dealt
+  undoLimit?: number; // Take-backs allowed in a new local game (0 when omitted)
   addScoreHistory: (history: ScoreHistory) => void;
   restoreScoreHistory: (history: ScoreHistory[]) => void;
   restorePlayHistory: (history: PlayHistoryMatch[]) => void; // P4-5: restore play history on rejoin
@@ -41,6 +54,25 @@ interface UseGameStateManagerProps {
   onAlert?: (options: { title?: string; message: string }) => void;
 }
 
+/**
+ * Penalty/bonus breakdown of the most recent match, in player order.
+ * Omitted under the classic scoring, where there is nothing to break down.
+ */
+function buildScoreBreakdown(state: GameState): MatchScoreBreakdown[] | undefined {
+  const details = state.lastMatchScoreDetails;
+  if (!details || isDefaultScoringConfig(state.scoring ?? DEFAULT_SCORING_CONFIG)) {
+    return undefined;
+  }
+  return state.players.map(player => {
+    const detail = details.find(d => d.playerId === player.id);
+    return {
+      twosPenalty: detail?.twosPenalty ?? 0,
+      doubled: (detail?.multiplier ?? 1) > 1,
+      hongKongBonus: detail?.hongKongBonus ?? 0,
+    };
+  });
+}
+
 interface UseGameStateManagerReturn {
   gameManagerRef: React.MutableRefObject<GameStateManager | null>;
   gameState: GameState | null;
@@ -64,8 +96,15 @@ interface UseGameStateManagerReturn {
  * @param props.roomCode - Room identifier (used for AsyncStorage key + logging)
  * @param props.currentPlayerName - Display name of the current user
  * @param props.forceNewGame - If true, skips saved-state restoration and starts fresh
+ * @param props.saveSlot - Save slot a local game is restored from and saved to
  * @param props.isLocalGame - When true, initializes the local game engine; false for multiplayer (server-side state)
- * @param props.botDifficulty - AI difficulty for local games ('easy' | 'medium' | 'hard')
+ * @param props.botDifficulty - AI difficulty for local games ('easy' | 'medium' | 'hard' | 'expert')
+ * @param props.ruleSet - House rules for a new local game (ignored when a saved game is restored)
+ * @param props.scoring - Scoring config for a new local game (ignored when a saved game is restored)
+ * @param props.startPosition - Game record position to play on from instead of a fresh deal (new games only)
+ * @param props.playerCount - Players at a new local game's table, human included (new games only)
+ * @param props.dealVariant - Deal of a new two- or three-player game (new games only)
+ * @param props.undoLimit - Take-backs the player may use in a new local game (new games only)
  * @param props.addScoreHistory - Callback to append a new ScoreHistory entry
  * @param props.restoreScoreHistory - Callback to bulk-restore saved ScoreHistory on mount
  * @param props.openGameEndModal - Callback invoked when a game ends (shows winner modal)
@@ -78,8 +117,15 @@ export function useGameStateManager({
   roomCode,
   currentPlayerName,
   forceNewGame = false,
+  saveSlot = DEFAULT_SAVE_SLOT,
   isLocalGame = true, // Default true for backwards compatibility
   botDifficulty = 'medium', // Default medium for backwards compatibility (Task #596)
+  ruleSet,
+  scoring,
+  startPosition,
+  playerCount = 4,
+  dealVariant,
+  undoLimit,
   addScoreHistory,
   restoreScoreHistory,
   restorePlayHistory,
@@ -138,7 +184,7 @@ export function useGameStateManager({
     // before the first async initGame() reaches its subscribe call.
     // Note: cleanup always resets isInitializedRef/initializedRoomRef, so a
     // normal dep-change re-run always proceeds past this guard.
-    const initKey = `${roomCode}:${botDifficulty}:${currentPlayerName}:${String(isLocalGame)}`;
+    const initKey = `${roomCode}:${saveSlot}:${botDifficulty}:${currentPlayerName}:${String(isLocalGame)}`;
     if (isInitializedRef.current && initializedRoomRef.current === initKey) {
       return;
     }
@@ -157,22 +203,21 @@ export function useGameStateManager({
         initializedRoomRef.current = initKey;
 
         // Create game manager
-        const manager = createGameStateManager();
+        const manager = createGameStateManager(saveSlot);
+        const slotKeys = saveSlotKeys(saveSlot);
         gameManagerRef.current = manager;
 
         // 🔥 CRITICAL FIX: Clear saved state if starting a new game explicitly
+        // (clearState also clears the slot's persisted scoreHistory and playHistory)
         if (forceNewGame) {
           gameLogger.info(
             '🧹 [useGameStateManager] Clearing saved game state (forceNewGame=true)...'
           );
           await manager.clearState();
-          // Also clear persisted scoreHistory and playHistory
-          await AsyncStorage.removeItem(SCORE_HISTORY_KEY).catch(() => {});
-          await AsyncStorage.removeItem(PLAY_HISTORY_KEY).catch(() => {});
           gameLogger.info('✅ [useGameStateManager] Saved state cleared - starting fresh game');
         }
 
-        // Guard: if the component unmounted while clearState()/removeItem() were
+        // Guard: if the component unmounted while clearState() was
         // awaited, the cleanup has already nulled gameManagerRef.current.  Abort to
         // prevent subscribing to or starting the timer on a discarded manager.
         // 7.13: Also check initKey mismatch in case a new invocation updated
@@ -206,7 +251,7 @@ export function useGameStateManager({
           // and restore it directly on rejoin.
           let scoreRestored = false;
           try {
-            const persistedHistory = await AsyncStorage.getItem(SCORE_HISTORY_KEY);
+            const persistedHistory = await AsyncStorage.getItem(slotKeys.scoreHistory);
             const { entries, shouldRemove } = parsePersistedScoreHistory(persistedHistory);
             if (entries) {
               gameLogger.info(
@@ -216,7 +261,7 @@ export function useGameStateManager({
               scoreRestored = true;
             } else if (shouldRemove) {
               gameLogger.warn('[useGameStateManager] Persisted scoreHistory is invalid, removing');
-              await AsyncStorage.removeItem(SCORE_HISTORY_KEY);
+              await AsyncStorage.removeItem(slotKeys.scoreHistory);
             }
           } catch (err) {
             gameLogger.error(
@@ -231,7 +276,7 @@ export function useGameStateManager({
           // Uses parsePersistedPlayHistory which validates shape and returns a
           // shouldRemove flag when the payload is corrupted/invalid.
           try {
-            const persistedPlayHistory = await AsyncStorage.getItem(PLAY_HISTORY_KEY);
+            const persistedPlayHistory = await AsyncStorage.getItem(slotKeys.playHistory);
             const { entries: playEntries, shouldRemove: shouldRemovePlay } =
               parsePersistedPlayHistory(persistedPlayHistory);
             if (playEntries) {
@@ -241,7 +286,7 @@ export function useGameStateManager({
               restorePlayHistory(playEntries);
             } else if (shouldRemovePlay) {
               gameLogger.warn('[useGameStateManager] Persisted playHistory is invalid — removing');
-              await AsyncStorage.removeItem(PLAY_HISTORY_KEY);
+              await AsyncStorage.removeItem(slotKeys.playHistory);
             }
           } catch (err) {
             gameLogger.error(
@@ -375,11 +420,13 @@ export function useGameStateManager({
               }
             });
 
+            const breakdown = buildScoreBreakdown(state);
             const scoreHistory: ScoreHistory = {
               matchNumber: state.currentMatch,
               pointsAdded,
               scores: cumulativeScores,
               timestamp: new Date().toISOString(),
+              ...(breakdown && { breakdown }),
             };
 
             // Use state updater callback to avoid race conditions with ref mutations
@@ -416,7 +463,7 @@ export function useGameStateManager({
             }
           }
 
-          // Handle game over (101+ points reached)
+          // Handle game over (target score reached, 101+ by default)
           if (state.gameOver && state.gameEnded) {
             gameLogger.info('🚨 [GAME OVER] Detected! Opening Game End Modal...', {
               gameOver: state.gameOver,
@@ -427,6 +474,7 @@ export function useGameStateManager({
             const finalWinner = state.matchScores.find(s => s.playerId === state.finalWinnerId);
 
             // Prepare final scores in display order
+            const targetScore = (state.scoring ?? DEFAULT_SCORING_CONFIG).targetScore;
             const finalScores: FinalScore[] = state.matchScores
               .sort((a, b) => a.score - b.score)
               .map((s, index) => ({
@@ -435,7 +483,7 @@ export function useGameStateManager({
                 cumulative_score: s.score,
                 points_added: 0,
                 rank: index + 1,
-                is_busted: s.score >= 101,
+                is_busted: s.score >= targetScore,
               }));
 
             const playerNames = state.players.map(p => p.name);
@@ -512,11 +560,16 @@ export function useGameStateManager({
         // Only initialize NEW game if no saved state was loaded
         if (!savedState) {
           gameLogger.info('🆕 [useGameStateManager] No saved game found - starting new game');
-          // Initialize game with 3 bots using configured difficulty (Task #596)
+          // Initialize game with 3 bots (fewer at a short table) using configured difficulty (Task #596)
           const initialState = await manager.initializeGame({
             playerName: currentPlayerName,
-            botCount: 3,
+            botCount: playerCount - 1,
             botDifficulty: botDifficulty,
+            ruleSet,
+            scoring,
+            startPosition,
+            dealVariant,
+            undoLimit,
           });
 
           // C2 fix: abort if unmounted while initializeGame() was awaited.
@@ -580,7 +633,7 @@ export function useGameStateManager({
       });
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [roomCode, currentPlayerName, isLocalGame, botDifficulty]);
+  }, [roomCode, saveSlot, currentPlayerName, isLocalGame, botDifficulty]);
 
   return {
     gameManagerRef,
@@ -33,7 +33,7 @@ interface UseGameStatsUploaderOptions {
    * Pass the value from the route params (selected in the lobby) so that the correct
    * difficulty is recorded even when the RPC hasn't persisted it to `room_players` yet.
    */
-  botDifficultyFallback?: 'easy' | 'medium' | 'hard';
+  botDifficultyFallback?: 'easy' | 'medium' | 'hard' | 'expert';
 }
 
 export function useGameStatsUploader({
@@ -2,6 +2,11 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '../services/supabase';
 import { networkLogger } from '../utils/logger';
+import {
+  MATCHMAKING_TABLE_SIZE,
+  matchmakingSearchRange,
+  type MatchmakingSearchRange,
+} from '../game/engine';
 
 export interface WaitingRoomEntry {
   id: string;
@@ -22,6 +27,12 @@ export interface WaitingRoomEntry {
   waiting_count?: number;
 }
 
+/** Queue as a party: the leader names their friends, each friend joins with the party id */
+export interface MatchmakingParty {
+  memberIds?: string[];
+  partyId?: string;
+}
+
 export interface MatchResult {
   matched: boolean;
   room_id: string | null;
@@ -38,11 +49,24 @@ interface UseMatchmakingReturn {
   error: string | null;
   /** ISO timestamp when the user entered the waiting queue (null when not searching). */
   queueJoinedAt: string | null;
+  /** Server estimate of the time left in the queue, when recent matches give one */
+  estimatedWaitSeconds: number | null;
+  /** Size of the party the user queued with (null when queueing alone) */
+  partySize: number | null;
+  /** Players at the table the user queued for (2–4) */
+  tableSize: number;
+  /**
+   * Ratings and regions the search covers at `now`: the server's rating
+   * window widens with time in the queue (null when not waiting)
+   */
+  searchRangeAt: (now: number) => MatchmakingSearchRange | null;
   startMatchmaking: (
     username: string,
     skillRating?: number,
     region?: string,
-    matchType?: 'casual' | 'ranked'
+    matchType?: 'casual' | 'ranked',
+    party?: MatchmakingParty,
+    tableSize?: number
   ) => Promise<void>;
   cancelMatchmaking: () => Promise<void>;
   resetMatch: () => void;
@@ -75,6 +99,12 @@ interface UseMatchmakingReturn {
  * // Start searching
  * await startMatchmaking('Player1', 1200, 'na');
  *
+ * // Or queue with friends (the leader names them; each friend joins from the invite push)
+ * await startMatchmaking('Player1', 1200, 'na', 'ranked', { memberIds: [friendId] });
+ *
+ * // Or queue for a table of three
+ * await startMatchmaking('Player1', 1200, 'na', 'casual', undefined, 3);
+ *
  * // When matchFound is true, navigate to room with roomCode
  * if (matchFound && roomCode) {
  *   navigation.navigate('Lobby', { roomCode });
@@ -89,6 +119,11 @@ export function useMatchmaking(): UseMatchmakingReturn {
   const [roomId, setRoomId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [queueJoinedAt, setQueueJoinedAt] = useState<string | null>(null);
+  const [estimatedWaitSeconds, setEstimatedWaitSeconds] = useState<number | null>(null);
+  const [partySize, setPartySize] = useState<number | null>(null);
+  const [tableSize, setTableSize] = useState<number>(MATCHMAKING_TABLE_SIZE);
+  /** The server-side rating and window before widening, from find-match */
+  const [searchRating, setSearchRating] = useState<{ rating: number; window: number } | null>(null);
 
   const channelRef = useRef<RealtimeChannel | null>(null);
   const userIdRef = useRef<string | null>(null);
@@ -127,7 +162,9 @@ export function useMatchmaking(): UseMatchmakingReturn {
       username: string,
       skillRating: number = 1000,
       region: string = 'global',
-      matchType: 'casual' | 'ranked' = 'casual'
+      matchType: 'casual' | 'ranked' = 'casual',
+      party?: MatchmakingParty,
+      requestedTableSize: number = MATCHMAKING_TABLE_SIZE
     ) => {
       // Debounce: ignore if a start is already in flight or search is active
       if (isStartingRef.current || isSearching) return;
@@ -167,6 +204,9 @@ export function useMatchmaking(): UseMatchmakingReturn {
             skill_rating: skillRating,
             region,
             match_type: matchType,
+            party_member_ids: party?.memberIds,
+            party_id: party?.partyId,
+            table_size: requestedTableSize,
           },
         });
 
@@ -200,6 +240,12 @@ export function useMatchmaking(): UseMatchmakingReturn {
           waiting_count: number;
           /** Server-written ISO timestamp for the user's waiting_room row. */
           joined_at?: string;
+          skill_rating?: number;
+          rating_window?: number;
+          estimated_wait_seconds?: number | null;
+          party_size?: number;
+          /** The table size the user is queued for (a party member takes the leader's) */
+          table_size?: number;
         };
 
         // Validate required fields
@@ -212,13 +258,17 @@ export function useMatchmaking(): UseMatchmakingReturn {
           throw new Error('Matched response missing room details');
         }
 
+        const queuedTableSize =
+          typeof result.table_size === 'number' ? result.table_size : requestedTableSize;
+        setTableSize(queuedTableSize);
+
         if (result.matched) {
           // Immediate match — resolve without subscribing
           setMatchFound(true);
           setRoomCode(result.room_code ?? null);
           setRoomId(result.room_id ?? null);
           setIsSearching(false);
-          setWaitingCount(4);
+          setWaitingCount(queuedTableSize);
         } else {
           // Waiting — subscribe to Realtime for match notification (no polling)
           setWaitingCount(result.waiting_count);
@@ -226,6 +276,15 @@ export function useMatchmaking(): UseMatchmakingReturn {
           // the expiry countdown reflects the server-side timestamp rather than the
           // client clock (which may differ due to skew or call latency).
           setQueueJoinedAt(result.joined_at ?? new Date().toISOString());
+          setSearchRating(
+            typeof result.skill_rating === 'number' && typeof result.rating_window === 'number'
+              ? { rating: result.skill_rating, window: result.rating_window }
+              : null
+          );
+          setEstimatedWaitSeconds(
+            typeof result.estimated_wait_seconds === 'number' ? result.estimated_wait_seconds : null
+          );
+          setPartySize(typeof result.party_size === 'number' ? result.party_size : null);
           subscribeToWaitingRoom(user.id);
         }
       } catch (err) {
@@ -278,7 +337,7 @@ export function useMatchmaking(): UseMatchmakingReturn {
       (async () => {
         const { data: room, error: roomError } = await supabase
           .from('rooms')
-          .select('code')
+          .select('code, max_players')
           .eq('id', entry.matched_room_id!)
           .single();
 
@@ -316,7 +375,7 @@ export function useMatchmaking(): UseMatchmakingReturn {
         setRoomCode(room.code);
         setRoomId(entry.matched_room_id);
         setIsSearching(false);
-        setWaitingCount(4);
+        setWaitingCount(room.max_players ?? MATCHMAKING_TABLE_SIZE);
       })().catch((err: unknown) => {
         if (isCancelledRef.current) return;
         // Tear down and stop searching — consistent with error path above.
@@ -449,6 +508,9 @@ export function useMatchmaking(): UseMatchmakingReturn {
       setIsSearching(false);
       setWaitingCount(0);
       setQueueJoinedAt(null);
+      setSearchRating(null);
+      setEstimatedWaitSeconds(null);
+      setPartySize(null);
 
       const userId = userIdRef.current;
       if (!userId) return;
@@ -491,8 +553,20 @@ export function useMatchmaking(): UseMatchmakingReturn {
     setRoomId(null);
     setWaitingCount(0);
     setQueueJoinedAt(null);
+    setSearchRating(null);
+    setEstimatedWaitSeconds(null);
+    setPartySize(null);
   }, []);
 
+  const searchRangeAt = useCallback(
+    (now: number): MatchmakingSearchRange | null => {
+      if (!searchRating || !queueJoinedAt) return null;
+      const waitedMs = Math.max(0, now - new Date(queueJoinedAt).getTime());
+      return matchmakingSearchRange(searchRating.rating, searchRating.window, waitedMs);
+    },
+    [searchRating, queueJoinedAt]
+  );
+
   // Cleanup on unmount — tear down Realtime channel and any active polling fallback
   useEffect(() => {
     return () => {
@@ -516,6 +590,10 @@ export function useMatchmaking(): UseMatchmakingReturn {
     roomId,
     error,
     queueJoinedAt,
+    estimatedWaitSeconds,
+    partySize,
+    tableSize,
+    searchRangeAt,
     startMatchmaking,
     cancelMatchmaking,
     resetMatch,
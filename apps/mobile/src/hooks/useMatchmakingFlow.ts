@@ -20,12 +20,20 @@ import { showError } from '../utils';
 import { roomLogger } from '../utils/logger';
 import type { RootStackParamList } from '../navigation/AppNavigator';
 import type { RoomPlayerWithRoom } from '../types';
+import { MAX_PLAYERS } from '../game/engine/constants';
+import type { DealVariant } from '../game/engine/seeded-deal';
 import { trackEvent } from '../services/analytics';
 import { useMatchmaking } from './useMatchmaking';
 import { VOLUNTARILY_LEFT_ROOMS_KEY } from './useActiveGameBanner';
 
 type HomeNavProp = StackNavigationProp<RootStackParamList, 'Home'>;
 
+/** Table of an offline game: players (human included) and the short-table deal */
+export interface OfflineTable {
+  playerCount: number;
+  dealVariant: DealVariant;
+}
+
 export interface UseMatchmakingFlowResult {
   isQuickPlaying: boolean;
   isRankedSearching: boolean;
@@ -37,7 +45,11 @@ export interface UseMatchmakingFlowResult {
   handleCasualMatch: () => Promise<void>;
   handleRankedMatch: (retryCount?: number) => Promise<void>;
   handleOfflinePractice: () => Promise<void>;
-  handleStartOfflineWithDifficulty: (difficulty: 'easy' | 'medium' | 'hard') => void;
+  handleStartOfflineWithDifficulty: (
+    difficulty: 'easy' | 'medium' | 'hard' | 'expert',
+    table?: OfflineTable,
+    undoLimit?: number
+  ) => void;
 }
 
 export function useMatchmakingFlow(
@@ -134,7 +146,7 @@ export function useMatchmakingFlow(
         roomLogger.info('📡 Searching for joinable ranked rooms...');
         const { data: availableRooms, error: searchError } = await supabase
           .from('rooms')
-          .select('id, code, status')
+          .select('id, code, status, max_players')
           .eq('status', 'waiting')
           .eq('is_public', true)
           .eq('is_matchmaking', true)
@@ -150,8 +162,9 @@ export function useMatchmakingFlow(
               .from('room_players')
               .select('*', { count: 'exact', head: true })
               .eq('room_id', room.id);
-            roomLogger.info(`  Ranked Room ${room.code}: ${count}/4 players`);
-            if (count !== null && count < 4) {
+            const seats = room.max_players ?? MAX_PLAYERS;
+            roomLogger.info(`  Ranked Room ${room.code}: ${count}/${seats} players`);
+            if (count !== null && count < seats) {
               roomLogger.info(`✅ Joining ranked room ${room.code}...`);
               const username = profile.username || `Player_${user.id.substring(0, 8)}`;
               const { error: joinError } = await supabase.rpc('join_room_atomic', {
@@ -265,7 +278,7 @@ export function useMatchmakingFlow(
         roomLogger.info('📡 Searching for joinable casual rooms...');
         const { data: availableRooms, error: searchError } = await supabase
           .from('rooms')
-          .select('id, code, status')
+          .select('id, code, status, max_players')
           .eq('status', 'waiting')
           .eq('is_public', true)
           .eq('is_matchmaking', true)
@@ -284,8 +297,9 @@ export function useMatchmakingFlow(
               .from('room_players')
               .select('*', { count: 'exact', head: true })
               .eq('room_id', room.id);
-            roomLogger.info(`  Room ${room.code}: ${count}/4 players`);
-            if (count !== null && count < 4) {
+            const seats = room.max_players ?? MAX_PLAYERS;
+            roomLogger.info(`  Room ${room.code}: ${count}/${seats} players`);
+            if (count !== null && count < seats) {
               roomLogger.info(`✅ Joining room ${room.code} via atomic join...`);
               const username = profile.username || `Player_${user.id.substring(0, 8)}`;
               const { error: joinError } = await supabase.rpc('join_room_atomic', {
@@ -362,13 +376,20 @@ export function useMatchmakingFlow(
   }, [checkGameExclusivity]);
 
   const handleStartOfflineWithDifficulty = useCallback(
-    (difficulty: 'easy' | 'medium' | 'hard') => {
+    (
+      difficulty: 'easy' | 'medium' | 'hard' | 'expert',
+      table?: OfflineTable,
+      undoLimit?: number
+    ) => {
       setShowDifficultyModal(false);
       roomLogger.info(`🤖 Starting Offline Practice Mode with ${difficulty} bots...`);
       navigation.navigate('Game', {
         roomCode: 'LOCAL_AI_GAME',
         forceNewGame: true,
         botDifficulty: difficulty,
+        // A four-player table is the default; only a short table is passed on
+        ...(table && table.playerCount < 4 ? table : {}),
+        ...(undoLimit ? { undoLimit } : {}),
       });
     },
     [navigation]
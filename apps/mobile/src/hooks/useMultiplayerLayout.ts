@@ -5,12 +5,14 @@
  * Handles:
  * - Seat index computation (relative positioning: current player is always bottom)
  * - Player hand for the current user
- * - Layout players array with name, cardCount, score, isActive
+ * - Layout players array with name, cardCount, score, isActive (one per dealt seat)
  * - Last played cards/combo formatting for display
  */
 
 import React from 'react';
 
+import { OPPONENT_POSITIONS } from '../constants';
+import { getSeatCount } from '../game/engine/room-table';
 import { sortCardsForDisplay } from '../utils/cardSorting';
 import type { Card as GameCard } from '../game/types';
 import type { ParsedCard } from '../utils/parseMultiplayerHands';
@@ -166,50 +168,27 @@ export function useMultiplayerLayout({
       return p.disconnect_timer_started_at ?? null;
     };
 
-    // CRITICAL: RELATIVE positioning — each player sees THEMSELVES at bottom
-    const bottom = multiplayerSeatIndex;
-    const top = (multiplayerSeatIndex + 2) % 4;
-    const left = (multiplayerSeatIndex + 3) % 4;
-    const right = (multiplayerSeatIndex + 1) % 4;
-
-    return [
-      {
-        name: getName(bottom),
-        cardCount: getCount(bottom),
-        score: getScore(bottom),
-        isActive: isActive(bottom),
-        player_index: bottom,
-        isDisconnected: isDisconnected(bottom),
-        disconnectTimerStartedAt: getDisconnectTimerStartedAt(bottom),
-      },
-      {
-        name: getName(top),
-        cardCount: getCount(top),
-        score: getScore(top),
-        isActive: isActive(top),
-        player_index: top,
-        isDisconnected: isDisconnected(top),
-        disconnectTimerStartedAt: getDisconnectTimerStartedAt(top),
-      },
-      {
-        name: getName(left),
-        cardCount: getCount(left),
-        score: getScore(left),
-        isActive: isActive(left),
-        player_index: left,
-        isDisconnected: isDisconnected(left),
-        disconnectTimerStartedAt: getDisconnectTimerStartedAt(left),
-      },
-      {
-        name: getName(right),
-        cardCount: getCount(right),
-        score: getScore(right),
-        isActive: isActive(right),
-        player_index: right,
-        isDisconnected: isDisconnected(right),
-        disconnectTimerStartedAt: getDisconnectTimerStartedAt(right),
-      },
+    // CRITICAL: RELATIVE positioning — each player sees THEMSELVES at bottom.
+    // Online turns go to the right: the next seat sits right, the previous
+    // seat left and the seat opposite (the only opponent at two) on top.
+    const seatCount = getSeatCount(multiplayerHandsByIndex);
+    const seatOffsets = { right: 1, top: seatCount === 2 ? 1 : 2, left: seatCount - 1 };
+    const seats = [
+      multiplayerSeatIndex,
+      ...(OPPONENT_POSITIONS[seatCount] ?? OPPONENT_POSITIONS[4]).map(
+        position => (multiplayerSeatIndex + seatOffsets[position]) % seatCount
+      ),
     ];
+
+    return seats.map(seat => ({
+      name: getName(seat),
+      cardCount: getCount(seat),
+      score: getScore(seat),
+      isActive: isActive(seat),
+      player_index: seat,
+      isDisconnected: isDisconnected(seat),
+      disconnectTimerStartedAt: getDisconnectTimerStartedAt(seat),
+    }));
   }, [
     playerByIndexMap,
     multiplayerHandsByIndex,
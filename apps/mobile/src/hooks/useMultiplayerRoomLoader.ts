@@ -3,7 +3,10 @@
  *
  * Extracted from GameScreen.tsx to reduce file size (~45 lines).
  * On mount (for multiplayer games only), fetches room_players for the given room code.
- * Also fetches room metadata (ranked_mode, is_public) used to determine game_type for stats.
+ * Also fetches room metadata (ranked_mode, is_public) used to determine game_type for stats,
+ * the room's house rules (settings.rule_set) used for client-side play validation,
+ * its scoring config (settings.scoring) shown on the scoreboard and its turn,
+ * auto-pass and disconnect timers drawn by the countdown rings.
  */
 
 import { useEffect } from 'react';
@@ -14,6 +17,10 @@ import { showError } from '../utils';
 import { gameLogger } from '../utils/logger';
 import type { Player as MultiplayerPlayer } from '../types/multiplayer';
 import type { RootStackParamList } from '../navigation/AppNavigator';
+import { normalizeRuleSet, type RuleSet } from '../game/engine/rule-set';
+import { normalizeScoringConfig, type ScoringConfig } from '../game/engine/scoring-config';
+import { normalizeRoomTimerSettings, type RoomTimerSettings } from '../game/engine/room-timers';
+import { normalizeRoomTable, type RoomTable } from '../game/engine/room-table';
 
 export interface RoomInfo {
   id: string;
@@ -21,6 +28,10 @@ export interface RoomInfo {
   ranked_mode: boolean;
   is_public: boolean;
   is_matchmaking: boolean;
+  ruleSet: RuleSet;
+  scoring: ScoringConfig;
+  timers: RoomTimerSettings;
+  table: RoomTable;
 }
 
 interface UseMultiplayerRoomLoaderOptions {
@@ -45,7 +56,7 @@ export function useMultiplayerRoomLoader({
       try {
         const { data: roomData, error: roomError } = await supabase
           .from('rooms')
-          .select('id, code, ranked_mode, is_public, is_matchmaking')
+          .select('id, code, ranked_mode, is_public, is_matchmaking, settings, max_players')
           .eq('code', roomCode)
           .single();
 
@@ -58,12 +69,22 @@ export function useMultiplayerRoomLoader({
 
         // Store room info for stats upload
         if (setRoomInfo) {
+          const settings =
+            roomData.settings &&
+            typeof roomData.settings === 'object' &&
+            !Array.isArray(roomData.settings)
+              ? roomData.settings
+              : undefined;
           setRoomInfo({
             id: roomData.id,
             code: roomData.code,
             ranked_mode: roomData.ranked_mode ?? false,
             is_public: roomData.is_public ?? true,
             is_matchmaking: roomData.is_matchmaking ?? false,
+            ruleSet: normalizeRuleSet(settings?.rule_set),
+            scoring: normalizeScoringConfig(settings?.scoring),
+            timers: normalizeRoomTimerSettings(settings),
+            table: normalizeRoomTable(roomData.max_players, settings),
           });
         }
 
@@ -15,8 +15,8 @@
 import { useEffect, useRef } from 'react';
 
 import { gameLogger } from '../utils/logger';
-import type { ScoreHistory } from '../types/scoreboard';
-import type { GameState as MultiplayerGameState } from '../types/multiplayer';
+import type { MatchScoreBreakdown, ScoreHistory } from '../types/scoreboard';
+import type { GameState as MultiplayerGameState, ScoresHistoryEntry } from '../types/multiplayer';
 
 interface UseMultiplayerScoreHistoryOptions {
   isMultiplayerGame: boolean;
@@ -24,6 +24,22 @@ interface UseMultiplayerScoreHistoryOptions {
   addScoreHistory: (history: ScoreHistory) => void;
 }
 
+/**
+ * Per-player penalties/bonus for one entry, or undefined when the room's
+ * scoring added none (classic scoring, or rows written before per-room scoring).
+ */
+function toScoreBreakdown(
+  sortedScores: ScoresHistoryEntry['scores']
+): MatchScoreBreakdown[] | undefined {
+  const breakdown = sortedScores.map((s) => ({
+    twosPenalty: s.twosPenalty ?? 0,
+    doubled: (s.multiplier ?? 1) > 1,
+    hongKongBonus: s.hongKongBonus ?? 0,
+  }));
+  const hasExtras = breakdown.some((b) => b.twosPenalty > 0 || b.doubled || b.hongKongBonus > 0);
+  return hasExtras ? breakdown : undefined;
+}
+
 export function useMultiplayerScoreHistory({
   isMultiplayerGame,
   multiplayerGameState,
@@ -59,12 +75,14 @@ export function useMultiplayerScoreHistory({
 
       const pointsAdded: number[] = sortedScores.map((s) => s.matchScore);
       const cumulativeScores: number[] = sortedScores.map((s) => s.cumulativeScore);
+      const breakdown = toScoreBreakdown(sortedScores);
 
       const scoreHistoryEntry: ScoreHistory = {
         matchNumber,
         pointsAdded,
         scores: cumulativeScores,
         timestamp: new Date().toISOString(),
+        ...(breakdown && { breakdown }),
       };
 
       gameLogger.info(
@@ -14,6 +14,7 @@ import React from 'react';
 
 import type { AutoPassTimerState, GameState as MultiplayerGameState, Player as MultiplayerPlayer } from '../types/multiplayer';
 import type { GameState as LocalGameState } from '../game/state';
+import { MIN_PLAYERS } from '../game/engine/constants';
 import type { ScoreHistory } from '../types/scoreboard';
 import type { LayoutPlayer } from './useMultiplayerLayout';
 
@@ -88,13 +89,13 @@ export function usePlayerDisplayData({
   }, [layoutPlayers, playerTotalScores]);
 
   const memoizedPlayerNames = React.useMemo(() => {
-    return layoutPlayers.length === 4
+    return layoutPlayers.length >= MIN_PLAYERS
       ? layoutPlayers.map((p) => p.name)
       : [];
   }, [layoutPlayers]);
 
   const memoizedCurrentScores = React.useMemo(() => {
-    if (layoutPlayers.length !== 4) return [];
+    if (layoutPlayers.length < MIN_PLAYERS) return [];
 
     if (scoreHistory.length > 0) {
       return layoutPlayers.map((p, index) => {
@@ -110,7 +111,7 @@ export function usePlayerDisplayData({
   }, [layoutPlayers, scoreHistory]);
 
   const memoizedCardCounts = React.useMemo(() => {
-    return layoutPlayers.length === 4
+    return layoutPlayers.length >= MIN_PLAYERS
       ? layoutPlayers.map((p) => p.cardCount)
       : [];
   }, [layoutPlayers]);
@@ -154,13 +155,21 @@ export function usePlayerDisplayData({
     if (isLocalAIGame) return scoreHistory;
 
     // Build mapping: displayIndex → player_index from layoutPlayers
-    const hasMapping = layoutPlayers.length === 4 && layoutPlayers.every((p) => p.player_index !== undefined);
+    const hasMapping = layoutPlayers.length >= MIN_PLAYERS && layoutPlayers.every((p) => p.player_index !== undefined);
     if (!hasMapping) return scoreHistory;
 
     return scoreHistory.map((match) => {
       const reindexed = layoutPlayers.map((p) => match.pointsAdded[p.player_index ?? 0] || 0);
       const reindexedScores = layoutPlayers.map((p) => match.scores[p.player_index ?? 0] || 0);
-      return { ...match, pointsAdded: reindexed, scores: reindexedScores };
+      const breakdown = match.breakdown;
+      return {
+        ...match,
+        pointsAdded: reindexed,
+        scores: reindexedScores,
+        ...(breakdown && {
+          breakdown: layoutPlayers.map((p) => breakdown[p.player_index ?? 0]),
+        }),
+      };
     });
   }, [isLocalAIGame, scoreHistory, layoutPlayers]);
 
@@ -0,0 +1,145 @@
+/**
+ * usePlayerSeasons — the current season and a player's past seasons
+ *
+ * Seasons are rolled over server-side (roll_over_season, hourly pg_cron):
+ * each one ends with both leaderboards archived into season_leaderboard and
+ * every rating soft-reset. The client only reads the active season from
+ * seasons and the player's archived standings through get_player_seasons.
+ */
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { RankTier } from '../game/engine';
+import { supabase } from '../services/supabase';
+import { extractErrorMessage } from '../utils';
+import { statsLogger } from '../utils/logger';
+
+export interface CurrentSeason {
+  id: string;
+  number: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+/** A player's final standing on one leaderboard in an archived season */
+export interface SeasonStanding {
+  rank: number;
+  rankPoints: number;
+  tier: RankTier;
+  /** null when the player played too few games that season */
+  rewardTier: RankTier | null;
+}
+
+export interface PastSeason {
+  id: string;
+  number: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  ranked: SeasonStanding | null;
+  casual: SeasonStanding | null;
+  seasonGames: number;
+}
+
+export interface UsePlayerSeasonsResult {
+  currentSeason: CurrentSeason | null;
+  pastSeasons: PastSeason[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+function toStanding(
+  rank: number | null,
+  rankPoints: number | null,
+  tier: string | null,
+  rewardTier: string | null
+): SeasonStanding | null {
+  if (rank === null || rankPoints === null || tier === null) return null;
+  return {
+    rank,
+    rankPoints,
+    tier: tier as RankTier,
+    rewardTier: rewardTier as RankTier | null,
+  };
+}
+
+export function usePlayerSeasons(userId: string | undefined): UsePlayerSeasonsResult {
+  const [currentSeason, setCurrentSeason] = useState<CurrentSeason | null>(null);
+  const [pastSeasons, setPastSeasons] = useState<PastSeason[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const [{ data: active, error: activeError }, { data: rows, error: rowsError }] =
+        await Promise.all([
+          supabase
+            .from('seasons')
+            .select('id, number, name, starts_at, ends_at')
+            .eq('status', 'active')
+            .maybeSingle(),
+          supabase.rpc('get_player_seasons', { p_user_id: userId }),
+        ]);
+      if (activeError) throw activeError;
+      if (rowsError) throw rowsError;
+      if (!isMountedRef.current) return;
+
+      setCurrentSeason(
+        active
+          ? {
+              id: active.id,
+              number: active.number,
+              name: active.name,
+              startsAt: active.starts_at,
+              endsAt: active.ends_at,
+            }
+          : null
+      );
+      setPastSeasons(
+        (rows ?? []).map(row => ({
+          id: row.season_id,
+          number: row.season_number,
+          name: row.season_name,
+          startsAt: row.starts_at,
+          endsAt: row.ends_at,
+          ranked: toStanding(
+            row.ranked_rank,
+            row.ranked_rank_points,
+            row.ranked_tier,
+            row.ranked_reward_tier
+          ),
+          casual: toStanding(
+            row.casual_rank,
+            row.casual_rank_points,
+            row.casual_tier,
+            row.casual_reward_tier
+          ),
+          seasonGames: row.season_games,
+        }))
+      );
+      setError(null);
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err);
+      statsLogger.error('[usePlayerSeasons] Failed to load seasons:', message);
+      if (isMountedRef.current) setError(message);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void refresh();
+  }, [refresh]);
+
+  return { currentSeason, pastSeasons, loading, error, refresh };
+}
@@ -10,6 +10,7 @@
 
 import { useMemo } from 'react';
 import { ScoreHistory } from '../types/scoreboard';
+import { MIN_PLAYERS } from '../game/engine/constants';
 
 /** Minimal player shape needed for score lookups. */
 interface LayoutPlayer {
@@ -30,7 +31,7 @@ export function usePlayerTotalScores(
   scoreHistory: ScoreHistory[],
 ): number[] {
   return useMemo(() => {
-    if (layoutPlayers.length !== 4 || scoreHistory.length === 0) {
+    if (layoutPlayers.length < MIN_PLAYERS || scoreHistory.length === 0) {
       return layoutPlayers.map((p) => p.score || 0);
     }
     return layoutPlayers.map((p, i) => {
@@ -0,0 +1,155 @@
+/**
+ * usePracticeGame — plays a tutorial lesson or puzzle position
+ *
+ * The position is played through a GameStateManager that is never saved, so
+ * practice games stay out of the Continue list, the stats and the replays.
+ * Every move is explained before it reaches the manager (explainPlay /
+ * explainPass); a caller may also restrict the legal moves to the ones a
+ * lesson teaches. After the human's move the bots play until it is the
+ * human's turn again or the match is over.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BotDifficulty } from '../game/bot';
+import type { GameRecordPosition } from '../game/engine';
+import { GameStateManager, type GameState } from '../game/state';
+import {
+  explainPass,
+  explainPlay,
+  getPracticeContext,
+  type LessonMove,
+  type PassExplanation,
+  type PlayExplanation,
+} from '../game/tutorial';
+import { gameLogger } from '../utils/logger';
+
+/** Pause before each bot move, so the human can follow the trick */
+const BOT_MOVE_DELAY_MS = 700;
+
+export type PracticeMoveResult =
+  | { kind: 'played' }
+  | { kind: 'illegal'; explanation: Exclude<PlayExplanation | PassExplanation, { legal: true }> }
+  /** Legal, but not a move the caller allows */
+  | { kind: 'restricted' }
+  | { kind: 'failed'; error: string };
+
+export interface UsePracticeGameResult {
+  state: GameState | null;
+  /** True while the bots are moving */
+  botsMoving: boolean;
+  start: (position: GameRecordPosition, botDifficulty: BotDifficulty) => Promise<void>;
+  play: (
+    cardIds: string[],
+    isAllowed?: (move: LessonMove) => boolean
+  ) => Promise<PracticeMoveResult>;
+  pass: (isAllowed?: (move: LessonMove) => boolean) => Promise<PracticeMoveResult>;
+}
+
+export function usePracticeGame(playerName: string): UsePracticeGameResult {
+  const managerRef = useRef<GameStateManager | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const mountedRef = useRef(true);
+  const [state, setState] = useState<GameState | null>(null);
+  const [botsMoving, setBotsMoving] = useState(false);
+
+  const release = useCallback(() => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    managerRef.current?.destroy();
+    managerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      release();
+    };
+  }, [release]);
+
+  const start = useCallback(
+    async (position: GameRecordPosition, botDifficulty: BotDifficulty) => {
+      release();
+      setState(null);
+      const manager = new GameStateManager(null);
+      managerRef.current = manager;
+      unsubscribeRef.current = manager.subscribe(next => {
+        if (mountedRef.current && managerRef.current === manager) setState(next);
+      });
+      setBotsMoving(false);
+      await manager.initializeGame({
+        playerName,
+        botCount: position.hands.length - 1,
+        botDifficulty,
+        startPosition: position,
+      });
+    },
+    [playerName, release]
+  );
+
+  /** Let the bots move until it is the human's turn or the match is over */
+  const runBots = useCallback(async (manager: GameStateManager) => {
+    setBotsMoving(true);
+    try {
+      for (;;) {
+        const current = manager.getState();
+        if (!current || current.gameEnded || !current.players[current.currentPlayerIndex].isBot) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, BOT_MOVE_DELAY_MS));
+        // A new position (or unmount) replaced this game while waiting
+        if (managerRef.current !== manager) return;
+        await manager.executeBotTurn();
+      }
+    } catch (error: unknown) {
+      gameLogger.error(
+        '[usePracticeGame] Bot turn failed:',
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      if (mountedRef.current && managerRef.current === manager) setBotsMoving(false);
+    }
+  }, []);
+
+  const play = useCallback(
+    async (
+      cardIds: string[],
+      isAllowed?: (move: LessonMove) => boolean
+    ): Promise<PracticeMoveResult> => {
+      const manager = managerRef.current;
+      const current = manager?.getState();
+      if (!manager || !current) return { kind: 'failed', error: 'Game not in progress' };
+
+      const context = getPracticeContext(current);
+      const cards = context.hand.filter(card => cardIds.includes(card.id));
+      const explanation = explainPlay(cards, context);
+      if (!explanation.legal) return { kind: 'illegal', explanation };
+      if (isAllowed && !isAllowed(cardIds)) return { kind: 'restricted' };
+
+      const result = await manager.playCards(cardIds);
+      if (!result.success) return { kind: 'failed', error: result.error ?? 'Invalid play' };
+      void runBots(manager);
+      return { kind: 'played' };
+    },
+    [runBots]
+  );
+
+  const pass = useCallback(
+    async (isAllowed?: (move: LessonMove) => boolean): Promise<PracticeMoveResult> => {
+      const manager = managerRef.current;
+      const current = manager?.getState();
+      if (!manager || !current) return { kind: 'failed', error: 'Game not in progress' };
+
+      const explanation = explainPass(getPracticeContext(current));
+      if (!explanation.legal) return { kind: 'illegal', explanation };
+      if (isAllowed && !isAllowed('pass')) return { kind: 'restricted' };
+
+      const result = await manager.pass();
+      if (!result.success) return { kind: 'failed', error: result.error ?? 'Cannot pass' };
+      void runBots(manager);
+      return { kind: 'played' };
+    },
+    [runBots]
+  );
+
+  return { state, botsMoving, start, play, pass };
+}
@@ -4,7 +4,8 @@
  * Features:
  * - Room creation and joining with unique codes (via useRoomLobby)
  * - Real-time player presence tracking via Supabase Presence
- * - Game state synchronization across all clients
+ * - Game state synchronization across all clients (sequence-numbered game_state_deltas
+ *   applied on top of a get_player_game_state snapshot)
  * - Turn-based logic delegated to server Edge Functions (via realtimeActions)
  * - Automatic reconnection handling
  * - 4-player multiplayer support
@@ -31,6 +32,7 @@ import {
 import type { Database } from '../types/database.types';
 import type { MultiplayerMatchScoreDetail, UseRealtimeOptions } from '../types/realtimeTypes';
 import { isValidTimerStatePayload } from '../utils/edgeFunctionErrors';
+import { applyGameStateDeltas, type GameStateDeltaRow } from '../utils/gameStateDeltas';
 import { networkLogger, gameLogger } from '../utils/logger';
 import { executePlayCards, executePass } from './realtimeActions';
 import { useAutoPassTimer } from './useAutoPassTimer';
@@ -48,6 +50,15 @@ const NON_RETRYABLE_CODES = new Set([
   'PGRST303',
 ]);
 
+// How long a game_state_deltas row that arrived ahead of a missing sequence
+// number waits for it before the snapshot is fetched again. Realtime can
+// deliver out of order on slow networks; a gap that lasts longer is a lost row.
+const DELTA_GAP_GRACE_MS = 750;
+
+// Snapshot refetches when get_player_game_state returns a state older than a
+// delta that can only be applied as a snapshot (deal, match end).
+const MAX_SNAPSHOT_RESYNCS = 2;
+
 // Re-export types for backward compatibility
 export type { UseRealtimeOptions } from '../types/realtimeTypes';
 
@@ -91,6 +102,12 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
   /** Maps room_players.id → user_id for presence leave → disconnect detection.
    *  Updated alongside playerLastSeenAtRef in the postgres_changes handler. */
   const playerIdToUserIdRef = useRef<Record<string, string>>({});
+  /** Sequence of the last game_state_deltas row applied to gameState, or of the
+   *  snapshot it was fetched as (game_state.event_sequence). */
+  const deltaSequenceRef = useRef<number | null>(null);
+  /** game_state_deltas rows received ahead of a missing sequence number. */
+  const pendingDeltasRef = useRef<GameStateDeltaRow[]>([]);
+  const deltaGapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Track mount status to prevent in-flight async callbacks from calling setState
   // after the component unmounts. This guards against EXC_BAD_ACCESS crashes in
@@ -235,9 +252,12 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
    * exposed all players' cards via RLS.
    *
    * Retries once after 500 ms on transient network errors (matching fetchPlayers pattern).
+   *
+   * The snapshot includes every delta up to its event_sequence; deltas received
+   * after it are applied on top.
    */
   const fetchGameState = useCallback(async (roomId: string) => {
-    const attempt = async (): Promise<void> => {
+    const attempt = async (resyncs = 0): Promise<void> => {
       const { data, error } = await supabase
         .rpc('get_player_game_state', { p_room_id: roomId })
         .single();
@@ -281,7 +301,15 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
           played_cards: (row.played_cards ?? []) as unknown as GameState['played_cards'],
           updated_at: row.updated_at ?? new Date().toISOString(),
         };
-        setGameState(mapped);
+        const sync = applyGameStateDeltas(mapped, row.event_sequence, pendingDeltasRef.current);
+        deltaSequenceRef.current = sync.sequence;
+        pendingDeltasRef.current = sync.pending;
+        gameStateRef.current = sync.state;
+        setGameState(sync.state);
+        if (sync.resync && resyncs < MAX_SNAPSHOT_RESYNCS) {
+          networkLogger.info('[fetchGameState] Snapshot is behind the received deltas, refetching');
+          await attempt(resyncs + 1);
+        }
       } else {
         setGameState(null);
       }
@@ -357,6 +385,13 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
             await Promise.allSettled(roomGhosts.map(gh => supabase.removeChannel(gh)));
           }
 
+          // Deltas from a previous channel no longer apply
+          pendingDeltasRef.current = [];
+          if (deltaGapTimerRef.current) {
+            clearTimeout(deltaGapTimerRef.current);
+            deltaGapTimerRef.current = null;
+          }
+
           // Create new channel with presence
           const channel = supabase.channel(`room:${roomId}`, {
             config: {
@@ -444,6 +479,41 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
           // errors, so an additional outer retry is unnecessary and could amplify
           // RPC attempts. Call fetchGameState directly and log on final failure.
 
+          // Apply the received game_state_deltas rows in sequence. A delta that
+          // needs a snapshot refetches it at once; a missing sequence number gets
+          // DELTA_GAP_GRACE_MS to arrive first.
+          const applyDeltas = () => {
+            const current = gameStateRef.current;
+            // No snapshot yet — the fetch in flight applies them when it lands
+            if (!current) return;
+            const sync = applyGameStateDeltas(
+              current,
+              deltaSequenceRef.current,
+              pendingDeltasRef.current
+            );
+            deltaSequenceRef.current = sync.sequence;
+            pendingDeltasRef.current = sync.pending;
+            if (sync.state !== current) {
+              gameStateRef.current = sync.state;
+              setGameState(sync.state);
+            }
+            if (sync.resync || sync.pending.length === 0) {
+              if (deltaGapTimerRef.current) {
+                clearTimeout(deltaGapTimerRef.current);
+                deltaGapTimerRef.current = null;
+              }
+              if (sync.resync) void fetchGameState(roomId).catch(warnFetch('game_state_delta'));
+            } else if (!deltaGapTimerRef.current) {
+              networkLogger.info(
+                `[Realtime] game_state delta ${sync.pending[0].sequence_number} arrived before ${(sync.sequence ?? 0) + 1}, waiting`
+              );
+              deltaGapTimerRef.current = setTimeout(() => {
+                deltaGapTimerRef.current = null;
+                void fetchGameState(roomId).catch(warnFetch('game_state_delta_gap'));
+              }, DELTA_GAP_GRACE_MS);
+            }
+          };
+
           channel
             .on('broadcast', { event: 'player_joined' }, _payload => {
               void fetchPlayers(roomId).catch(warnFetch('player_joined'));
@@ -464,12 +534,8 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
             .on('broadcast', { event: 'game_started' }, _payload => {
               void fetchGameState(roomId).catch(warnFetch('game_started'));
             })
-            .on('broadcast', { event: 'cards_played' }, _payload => {
-              void fetchGameState(roomId).catch(warnFetch('cards_played'));
-            })
-            .on('broadcast', { event: 'player_passed' }, _payload => {
-              void fetchGameState(roomId).catch(warnFetch('player_passed'));
-            })
+            // cards_played / player_passed need no refetch: the play or pass
+            // reaches every client as a game_state_deltas row
             .on('broadcast', { event: 'game_ended' }, payload => {
               networkLogger.info('🎉 [Realtime] game_ended broadcast received:', payload);
               void fetchGameState(roomId).catch(warnFetch('game_ended'));
@@ -576,22 +642,20 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
             .on(
               'postgres_changes',
               {
-                event: '*',
+                event: 'INSERT',
                 schema: 'public',
-                table: 'game_state',
+                table: 'game_state_deltas',
                 filter: `room_id=eq.${roomId}`,
               },
               payload => {
-                // C1 Security Fix: Do NOT use payload.new directly — the raw Realtime
-                // payload contains ALL players' hands (RLS cannot filter columns).
-                // Instead, re-fetch via the secure get_player_game_state RPC which
-                // returns only the requesting player's hand.
-                // NOTE: The game_state SELECT RLS policy is intentionally kept so that
-                // postgres_changes fires change events. Sprint 2 should migrate to
-                // broadcast or a notification table to fully close this vector.
-                if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
-                  void fetchGameState(roomId).catch(warnFetch('game_state_change'));
-                }
+                // Compact, hand-free changes instead of game_state rows: the raw
+                // game_state payload carried ALL players' hands (C1) and every
+                // change meant refetching the whole row.
+                pendingDeltasRef.current = [
+                  ...pendingDeltasRef.current,
+                  payload.new as GameStateDeltaRow,
+                ];
+                applyDeltas();
               }
             )
             // ✅ FIX: Listen to room_players changes to catch is_host updates.
@@ -855,7 +919,7 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
       }
 
       // Optimistic UI: immediately remove played cards from the human's displayed hand.
-      // The Realtime postgres_changes subscription will correct the full game state
+      // The play's game_state_deltas row brings the rest of the game state
       // (~200ms after the EF updates the DB), so this snapshot is short-lived.
       // Only apply for human plays (playerIndex === undefined); bot plays go through
       // the same path but do not need an optimistic update.
@@ -1087,6 +1151,11 @@ export function useRealtime(options: UseRealtimeOptions): UseRealtimeReturn {
       if (roomGhosts.length > 0) {
         void Promise.allSettled(roomGhosts.map(gh => supabase.removeChannel(gh)));
       }
+      // eslint-disable-next-line react-hooks/exhaustive-deps -- deltaGapTimerRef.current is a plain mutable ref (not a DOM ref)
+      if (deltaGapTimerRef.current) {
+        // eslint-disable-next-line react-hooks/exhaustive-deps -- same ref, same reason
+        clearTimeout(deltaGapTimerRef.current);
+      }
       // eslint-disable-next-line react-hooks/exhaustive-deps -- timerIntervalRef.current is a plain mutable ref (not a DOM ref)
       if (timerIntervalRef.current) {
         // eslint-disable-next-line react-hooks/exhaustive-deps -- same ref, same reason
@@ -0,0 +1,127 @@
+/**
+ * useRoomBrowser — open public rooms for the room browser
+ *
+ * list_public_rooms returns the public rooms still waiting for players, with
+ * the host's title and settings. Seat counts come from rooms.current_players
+ * (kept in step with room_players by a trigger), so the browser follows
+ * public rooms on the rooms realtime channel and refetches the list whenever
+ * one of them changes.
+ */
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { RoomBotDifficulty, RuleSetPresetId } from '../game/engine';
+import { supabase } from '../services/supabase';
+import { extractErrorMessage } from '../utils';
+import { networkLogger } from '../utils/logger';
+
+/** Bursts of seat changes (bots filling a table) are folded into one refetch */
+const REFETCH_DEBOUNCE_MS = 500;
+
+export interface PublicRoom {
+  roomId: string;
+  roomCode: string;
+  title: string | null;
+  hostUsername: string | null;
+  region: string;
+  isRanked: boolean;
+  rulePreset: RuleSetPresetId | 'custom';
+  botDifficulty: RoomBotDifficulty;
+  turnTimerSeconds: number;
+  playerCount: number;
+  maxPlayers: number;
+}
+
+export interface RoomBrowserFilters {
+  /** null lists rooms from every region */
+  region: string | null;
+  /** null lists ranked and casual rooms */
+  ranked: boolean | null;
+  /** null lists rooms with any house rules */
+  rulePreset: RuleSetPresetId | 'custom' | null;
+}
+
+export interface UseRoomBrowserResult {
+  rooms: PublicRoom[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function useRoomBrowser(filters: RoomBrowserFilters): UseRoomBrowserResult {
+  const { region, ranked, rulePreset } = filters;
+  const [rooms, setRooms] = useState<PublicRoom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('list_public_rooms', {
+        p_region: region,
+        p_ranked: ranked,
+        p_rule_preset: rulePreset,
+      });
+      if (rpcError) throw rpcError;
+      if (!isMountedRef.current) return;
+      setRooms(
+        (data ?? []).map(row => ({
+          roomId: row.room_id,
+          roomCode: row.room_code,
+          title: row.title,
+          hostUsername: row.host_username,
+          region: row.region,
+          isRanked: row.ranked_mode,
+          rulePreset: row.rule_preset as RuleSetPresetId | 'custom',
+          botDifficulty: row.bot_difficulty as RoomBotDifficulty,
+          turnTimerSeconds: row.turn_timer_seconds,
+          playerCount: row.current_players,
+          maxPlayers: row.max_players ?? 4,
+        }))
+      );
+      setError(null);
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err);
+      networkLogger.error('[useRoomBrowser] Failed to load rooms:', message);
+      if (isMountedRef.current) setError(message);
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, [region, ranked, rulePreset]);
+
+  useEffect(() => {
+    setLoading(true);
+    void refresh();
+  }, [refresh]);
+
+  // Live seat counts: any change to a public room refetches the list
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const channel = supabase
+      .channel('room-browser')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'rooms', filter: 'is_public=eq.true' },
+        () => {
+          if (timer) clearTimeout(timer);
+          timer = setTimeout(() => {
+            timer = null;
+            void refresh();
+          }, REFETCH_DEBOUNCE_MS);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [refresh]);
+
+  return { rooms, loading, error, refresh };
+}
@@ -7,6 +7,7 @@
 
 import { useCallback } from 'react';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { MAX_PLAYERS } from '../game/engine';
 import { notifyGameStarted, notifyAllPlayersReady } from '../services/pushNotificationTriggers';
 import { supabase } from '../services/supabase';
 import type {
@@ -303,7 +304,7 @@ export function useRoomLobby({
    * Start the game (host only)
    */
   const startGame = useCallback(
-    async (botDifficulty: 'easy' | 'medium' | 'hard' = 'medium'): Promise<void> => {
+    async (botDifficulty: 'easy' | 'medium' | 'hard' | 'expert' = 'medium'): Promise<void> => {
       if (!isHost || !room) return;
 
       // Only non-host, non-bot players must be ready. Bots are auto-ready; the host is the initiator.
@@ -314,7 +315,7 @@ export function useRoomLobby({
       if (roomPlayers.length < 2) throw new Error('Need at least 2 players to start');
 
       try {
-        const botCount = Math.max(0, 4 - roomPlayers.length);
+        const botCount = Math.max(0, (room.max_players ?? MAX_PLAYERS) - roomPlayers.length);
         const { data: startResult, error: startError } = await supabase.rpc(
           'start_game_with_bots',
           {
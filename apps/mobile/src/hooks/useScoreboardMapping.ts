@@ -1,5 +1,7 @@
 import { useMemo } from 'react';
 import type { GameState } from '../game/state';
+import { MIN_PLAYERS } from '../game/engine/constants';
+import { OPPONENT_POSITIONS } from '../constants';
 
 /**
  * Maps players array to scoreboard display order [0, 3, 1, 2]
@@ -60,7 +62,7 @@ export function useScoreboardMapping({
     if (
       !gameState ||
       !gameState.players ||
-      gameState.players.length !== 4 ||
+      gameState.players.length < MIN_PLAYERS ||
       !gameState.players[0]?.hand
     ) {
       // Return placeholder while loading
@@ -105,20 +107,15 @@ export function useScoreboardMapping({
     // Return players in player index order (0, 1, 2, 3) for scoreboard
     // This ensures scoreboard shows: Steve → Bot 1 → Bot 2 → Bot 3
     // regardless of their physical layout positions
+    // Player 0 is always bottom; at four players 1 is top (opposite), 2 left, 3 right
+    const opponentPositions =
+      OPPONENT_POSITIONS[gameState.players.length] ?? OPPONENT_POSITIONS[4];
     return gameState.players.map((player, index) => {
-      // Map player index to layout position
-      const positionMap: Record<number, 'bottom' | 'top' | 'left' | 'right'> = {
-        0: 'bottom', // Player 0 is always bottom
-        1: 'top',    // Player 1 is top (opposite)
-        2: 'left',   // Player 2 is left
-        3: 'right',  // Player 3 is right
-      };
-
       return {
         name: player.name,
         cardCount: player.hand.length,
         score: getPlayerScore(player.id),
-        position: positionMap[index],
+        position: index === 0 ? ('bottom' as const) : opponentPositions[index - 1],
         isActive: gameState.currentPlayerIndex === index,
       };
     });
@@ -0,0 +1,271 @@
+/**
+ * useSpectator / useFriendsLiveGames — watching games in progress
+ *
+ * Spectators never read game_state: spectate_room registers the viewer, and
+ * get_spectator_game_state returns the public part of the game (card counts,
+ * last play, scores). Spectators follow changes on their own realtime
+ * channel, the spectator_game_state table, which carries no hands. In rooms
+ * with delayed open hands the view (hands included) trails the game by the
+ * room's reveal delay; those rooms publish nothing live, so the view is
+ * polled and only ever shows snapshots at least that old.
+ */
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { parseCards } from '../../supabase/functions/_shared/parseCards';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../services/supabase';
+import type { Card, ComboType } from '../types/multiplayer';
+import { extractErrorMessage } from '../utils';
+import { networkLogger } from '../utils/logger';
+
+/** How often a delayed open-hands view is fetched again */
+const DELAYED_VIEW_POLL_MS = 5_000;
+
+export interface SpectatorSeat {
+  playerIndex: number;
+  username: string;
+  isBot: boolean;
+  cardCount: number;
+  score: number;
+  /** Only with delayed open hands */
+  hand: Card[] | null;
+}
+
+export interface SpectatorView {
+  roomId: string;
+  roomCode: string;
+  roomStatus: string;
+  revealDelaySeconds: number | null;
+  seats: SpectatorSeat[];
+  /** null until the game has been running for the reveal delay */
+  currentTurn: number | null;
+  gamePhase: string | null;
+  matchNumber: number;
+  lastPlay: { playerIndex: number | null; cards: Card[]; comboType: ComboType | string } | null;
+  winnerIndex: number | null;
+  /** When the shown state was current on the table */
+  asOf: string | null;
+}
+
+export interface UseSpectatorResult {
+  view: SpectatorView | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/** Public game state as published to spectator_game_state */
+interface SpectatorStateJson {
+  current_turn?: number;
+  game_phase?: string;
+  match_number?: number;
+  last_play?: {
+    player_index?: number;
+    position?: number;
+    cards?: unknown[];
+    combo_type?: string;
+  } | null;
+  card_counts?: Record<string, number>;
+  scores_history?: { scores?: { player_index: number; cumulativeScore: number }[] }[];
+  game_winner_index?: number | null;
+}
+
+interface SpectatorViewJson {
+  room_id: string;
+  room_code: string;
+  room_status: string;
+  reveal_delay_seconds: number | null;
+  players: { player_index: number; username: string | null; is_bot: boolean }[];
+  state: SpectatorStateJson | null;
+  hands: Record<string, unknown[]> | null;
+  as_of: string | null;
+}
+
+function toSpectatorView(raw: SpectatorViewJson): SpectatorView {
+  const state = raw.state;
+  const scores = state?.scores_history?.[state.scores_history.length - 1]?.scores ?? [];
+  const lastPlay = state?.last_play;
+  return {
+    roomId: raw.room_id,
+    roomCode: raw.room_code,
+    roomStatus: raw.room_status,
+    revealDelaySeconds: raw.reveal_delay_seconds,
+    seats: raw.players.map(player => ({
+      playerIndex: player.player_index,
+      username: player.username ?? `Player ${player.player_index + 1}`,
+      isBot: player.is_bot,
+      cardCount: state?.card_counts?.[String(player.player_index)] ?? 0,
+      score: scores.find(score => score.player_index === player.player_index)?.cumulativeScore ?? 0,
+      hand: raw.hands ? (parseCards(raw.hands[String(player.player_index)] ?? []) as Card[]) : null,
+    })),
+    currentTurn: state?.current_turn ?? null,
+    gamePhase: state?.game_phase ?? null,
+    matchNumber: state?.match_number ?? 1,
+    lastPlay: lastPlay
+      ? {
+          playerIndex: lastPlay.player_index ?? lastPlay.position ?? null,
+          cards: parseCards(lastPlay.cards ?? []) as Card[],
+          comboType: lastPlay.combo_type ?? 'unknown',
+        }
+      : null,
+    winnerIndex: state?.game_winner_index ?? null,
+    asOf: raw.as_of,
+  };
+}
+
+/** Watch the game in progress in a room */
+export function useSpectator(roomCode: string): UseSpectatorResult {
+  const [view, setView] = useState<SpectatorView | null>(null);
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [revealDelaySeconds, setRevealDelaySeconds] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const fetchView = useCallback(async (id: string) => {
+    const { data, error: rpcError } = await supabase.rpc('get_spectator_game_state', {
+      p_room_id: id,
+    });
+    if (rpcError) throw rpcError;
+    if (isMountedRef.current) setView(toSpectatorView(data as unknown as SpectatorViewJson));
+  }, []);
+
+  // Register as a spectator, then load the view
+  useEffect(() => {
+    let joinedRoomId: string | null = null;
+    let cancelled = false;
+    const join = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error: rpcError } = await supabase.rpc('spectate_room', {
+          p_room_code: roomCode,
+        });
+        if (rpcError) throw rpcError;
+        const joined = data as { room_id: string; reveal_delay_seconds: number | null };
+        joinedRoomId = joined.room_id;
+        if (cancelled) {
+          void supabase.rpc('stop_spectating', { p_room_id: joined.room_id });
+          return;
+        }
+        setRoomId(joined.room_id);
+        setRevealDelaySeconds(joined.reveal_delay_seconds);
+        await fetchView(joined.room_id);
+      } catch (err: unknown) {
+        const message = extractErrorMessage(err);
+        networkLogger.error('[useSpectator] Failed to spectate room:', message);
+        if (isMountedRef.current) setError(message);
+      } finally {
+        if (isMountedRef.current) setLoading(false);
+      }
+    };
+    void join();
+
+    return () => {
+      cancelled = true;
+      if (joinedRoomId) {
+        void supabase.rpc('stop_spectating', { p_room_id: joinedRoomId });
+      }
+    };
+  }, [roomCode, fetchView]);
+
+  // Follow the game. Without open hands, on the spectator channel. With open
+  // hands there is no live feed to follow (the database publishes nothing
+  // live for delayed rooms): poll the delayed view instead, which only ever
+  // holds snapshots older than the reveal delay.
+  useEffect(() => {
+    if (!roomId) return;
+    const refetch = () => {
+      void fetchView(roomId).catch((err: unknown) =>
+        networkLogger.warn('[useSpectator] Refetch failed:', extractErrorMessage(err))
+      );
+    };
+
+    if (revealDelaySeconds !== null) {
+      const interval = setInterval(refetch, DELAYED_VIEW_POLL_MS);
+      return () => clearInterval(interval);
+    }
+
+    const channel = supabase
+      .channel(`spectate:${roomId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'spectator_game_state',
+          filter: `room_id=eq.${roomId}`,
+        },
+        refetch
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, revealDelaySeconds, fetchView]);
+
+  const refresh = useCallback(async () => {
+    if (!roomId) return;
+    setError(null);
+    try {
+      await fetchView(roomId);
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err);
+      networkLogger.error('[useSpectator] Failed to load game:', message);
+      setError(message);
+    }
+  }, [roomId, fetchView]);
+
+  return { view, loading, error, refresh };
+}
+
+export interface FriendLiveGame {
+  friendId: string;
+  roomCode: string;
+}
+
+export interface UseFriendsLiveGamesResult {
+  /** Room code of the game each friend is playing, by friend id */
+  liveGames: Map<string, FriendLiveGame>;
+  refresh: () => Promise<void>;
+}
+
+/** Friends' games in progress that allow spectators */
+export function useFriendsLiveGames(): UseFriendsLiveGamesResult {
+  const { user } = useAuth();
+  const [liveGames, setLiveGames] = useState<Map<string, FriendLiveGame>>(new Map());
+
+  const refresh = useCallback(async () => {
+    if (!user?.id) {
+      setLiveGames(new Map());
+      return;
+    }
+    try {
+      const { data, error } = await supabase.rpc('get_friends_live_games');
+      if (error) throw error;
+      setLiveGames(
+        new Map(
+          (data ?? []).map(row => [
+            row.friend_id,
+            { friendId: row.friend_id, roomCode: row.room_code },
+          ])
+        )
+      );
+    } catch (err: unknown) {
+      networkLogger.warn('[useFriendsLiveGames] Failed to load:', extractErrorMessage(err));
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { liveGames, refresh };
+}
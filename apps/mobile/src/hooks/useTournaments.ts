@@ -0,0 +1,321 @@
+/**
+ * useTournaments / useTournament — tournament list, registration and bracket
+ *
+ * Tournaments are scheduled by the advance-tournament Edge Function; the
+ * client only registers (register_for_tournament / withdraw_from_tournament
+ * RPCs) and reads the tables. Standings are computed here from the table
+ * results with the same shared engine the server advances on
+ * (computeTournamentStandings), so they are live while a round is playing.
+ */
+import { useState, useCallback, useEffect } from 'react';
+import {
+  computeTournamentStandings,
+  orderTournamentTable,
+  type TournamentEntrant,
+  type TournamentFormat,
+  type TournamentStanding,
+  type TournamentTableResult,
+} from '../game/engine';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../services/supabase';
+import { extractErrorMessage } from '../utils';
+import { statsLogger } from '../utils/logger';
+
+export type TournamentStatus = 'registration' | 'running' | 'finished' | 'cancelled';
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  maxEntrants: number;
+  entrantCount: number;
+  registrationClosesAt: string;
+  currentRound: number;
+  roundCount: number | null;
+  isRegistered: boolean;
+}
+
+export interface TournamentStandingRow extends TournamentStanding {
+  username: string;
+}
+
+export interface TournamentTableView {
+  id: string;
+  round: number;
+  tableNumber: number;
+  status: 'waiting' | 'playing' | 'finished' | 'forfeited';
+  roomCode: string | null;
+  checkInClosesAt: string;
+  /** Players in finishing order once the table has a result, else by seed */
+  players: { userId: string; username: string; position: number | null }[];
+}
+
+export interface TournamentDetail extends TournamentSummary {
+  standings: TournamentStandingRow[];
+  /** tables[round - 1] = that round's tables */
+  rounds: TournamentTableView[][];
+  /** The caller's table in the current round, while it can still be joined */
+  myTable: TournamentTableView | null;
+}
+
+export interface NewTournament {
+  name: string;
+  format: TournamentFormat;
+  maxEntrants: number;
+  registrationClosesAt: Date;
+  botDifficulty?: 'easy' | 'medium' | 'hard' | 'expert';
+}
+
+export interface UseTournamentsResult {
+  tournaments: TournamentSummary[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  create: (tournament: NewTournament) => Promise<string | null>;
+  register: (tournamentId: string) => Promise<boolean>;
+  withdraw: (tournamentId: string) => Promise<boolean>;
+}
+
+interface TournamentRow {
+  id: string;
+  name: string;
+  format: string;
+  status: string;
+  max_entrants: number;
+  registration_closes_at: string;
+  current_round: number;
+  round_count: number | null;
+}
+
+interface EntryRow {
+  user_id: string;
+  elo_rating: number;
+  seed: number | null;
+  registered_at: string;
+  profile: { username: string | null } | { username: string | null }[] | null;
+}
+
+function toSummary(row: TournamentRow, entries: { user_id: string }[], userId?: string) {
+  return {
+    id: row.id,
+    name: row.name,
+    format: row.format as TournamentFormat,
+    status: row.status as TournamentStatus,
+    maxEntrants: row.max_entrants,
+    entrantCount: entries.length,
+    registrationClosesAt: row.registration_closes_at,
+    currentRound: row.current_round,
+    roundCount: row.round_count,
+    isRegistered: !!userId && entries.some(entry => entry.user_id === userId),
+  };
+}
+
+function usernameOf(entry: EntryRow | undefined): string {
+  const profile = Array.isArray(entry?.profile) ? entry?.profile[0] : entry?.profile;
+  return profile?.username ?? '?';
+}
+
+/** Open, running and recently finished tournaments, newest first */
+export function useTournaments(): UseTournamentsResult {
+  const { user } = useAuth();
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: queryError } = await supabase
+        .from('tournaments')
+        .select(
+          'id, name, format, status, max_entrants, registration_closes_at, current_round, round_count, entries:tournament_entries(user_id)'
+        )
+        .neq('status', 'cancelled')
+        .order('registration_closes_at', { ascending: false })
+        .limit(50);
+      if (queryError) throw queryError;
+
+      setTournaments(
+        (data ?? []).map(row => toSummary(row, row.entries ?? [], user?.id ?? undefined))
+      );
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err);
+      statsLogger.error('[useTournaments] Failed to load tournaments:', message);
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const runRpc = useCallback(
+    async (name: 'register_for_tournament' | 'withdraw_from_tournament', tournamentId: string) => {
+      setError(null);
+      try {
+        const { error: rpcError } = await supabase.rpc(name, { p_tournament_id: tournamentId });
+        if (rpcError) throw rpcError;
+        await refresh();
+        return true;
+      } catch (err: unknown) {
+        const message = extractErrorMessage(err);
+        statsLogger.error(`[useTournaments] ${name} failed:`, message);
+        setError(message);
+        return false;
+      }
+    },
+    [refresh]
+  );
+
+  const create = useCallback(
+    async (tournament: NewTournament) => {
+      setError(null);
+      try {
+        const { data, error: rpcError } = await supabase.rpc('create_tournament', {
+          p_name: tournament.name,
+          p_format: tournament.format,
+          p_max_entrants: tournament.maxEntrants,
+          p_registration_closes_at: tournament.registrationClosesAt.toISOString(),
+          p_bot_difficulty: tournament.botDifficulty ?? 'medium',
+        });
+        if (rpcError) throw rpcError;
+        await refresh();
+        return (data as { tournament_id?: string } | null)?.tournament_id ?? null;
+      } catch (err: unknown) {
+        const message = extractErrorMessage(err);
+        statsLogger.error('[useTournaments] create_tournament failed:', message);
+        setError(message);
+        return null;
+      }
+    },
+    [refresh]
+  );
+
+  const register = useCallback(
+    (tournamentId: string) => runRpc('register_for_tournament', tournamentId),
+    [runRpc]
+  );
+  const withdraw = useCallback(
+    (tournamentId: string) => runRpc('withdraw_from_tournament', tournamentId),
+    [runRpc]
+  );
+
+  return { tournaments, loading, error, refresh, create, register, withdraw };
+}
+
+export interface UseTournamentResult {
+  tournament: TournamentDetail | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/** One tournament with its standings and every round's tables */
+export function useTournament(tournamentId: string): UseTournamentResult {
+  const { user } = useAuth();
+  const [tournament, setTournament] = useState<TournamentDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [tournamentResult, entriesResult, tablesResult] = await Promise.all([
+        supabase
+          .from('tournaments')
+          .select(
+            'id, name, format, status, max_entrants, registration_closes_at, current_round, round_count'
+          )
+          .eq('id', tournamentId)
+          .single(),
+        supabase
+          .from('tournament_entries')
+          .select('user_id, elo_rating, seed, registered_at, profile:profiles(username)')
+          .eq('tournament_id', tournamentId),
+        supabase
+          .from('tournament_tables')
+          .select(
+            'id, round, table_number, status, room_code, player_ids, positions, check_in_closes_at'
+          )
+          .eq('tournament_id', tournamentId)
+          .order('round')
+          .order('table_number'),
+      ]);
+      if (tournamentResult.error) throw tournamentResult.error;
+      if (entriesResult.error) throw entriesResult.error;
+      if (tablesResult.error) throw tablesResult.error;
+
+      const row = tournamentResult.data;
+      const entries = (entriesResult.data ?? []) as unknown as EntryRow[];
+      const summary = toSummary(row, entries, user?.id ?? undefined);
+      const entryOf = (userId: string) => entries.find(entry => entry.user_id === userId);
+
+      // Before the draw, entrants are listed by rating (the order they will be seeded in)
+      const entrants: TournamentEntrant[] = [...entries]
+        .sort(
+          (a, b) =>
+            (a.seed ?? Infinity) - (b.seed ?? Infinity) ||
+            b.elo_rating - a.elo_rating ||
+            a.registered_at.localeCompare(b.registered_at)
+        )
+        .map((entry, index) => ({ userId: entry.user_id, seed: entry.seed ?? index + 1 }));
+
+      const tables = tablesResult.data ?? [];
+      const results: TournamentTableResult[] = tables.map(table => ({
+        round: table.round,
+        players: table.player_ids,
+        positions: (table.positions ?? {}) as Record<string, number>,
+      }));
+      const standings = computeTournamentStandings(
+        summary.format,
+        entrants,
+        results.filter((_, index) => ['finished', 'forfeited'].includes(tables[index].status)),
+        row.round_count ?? 1
+      ).map(standing => ({ ...standing, username: usernameOf(entryOf(standing.userId)) }));
+
+      const rounds: TournamentTableView[][] = [];
+      tables.forEach((table, index) => {
+        const positions = results[index].positions;
+        const view: TournamentTableView = {
+          id: table.id,
+          round: table.round,
+          tableNumber: table.table_number,
+          status: table.status as TournamentTableView['status'],
+          roomCode: table.room_code,
+          checkInClosesAt: table.check_in_closes_at,
+          players: orderTournamentTable(results[index], entrants).map(userId => ({
+            userId,
+            username: usernameOf(entryOf(userId)),
+            position: positions[userId] ?? null,
+          })),
+        };
+        (rounds[table.round - 1] ??= []).push(view);
+      });
+
+      const myTable =
+        rounds[row.current_round - 1]?.find(
+          table =>
+            table.status === 'waiting' && table.players.some(player => player.userId === user?.id)
+        ) ?? null;
+
+      setTournament({ ...summary, standings, rounds, myTable });
+    } catch (err: unknown) {
+      const message = extractErrorMessage(err);
+      statsLogger.error('[useTournament] Failed to load tournament:', message);
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId, user?.id]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { tournament, loading, error, refresh };
+}
@@ -1,15 +1,15 @@
 /**
- * useTurnInactivityTimer — Client-side turn countdown hook for 60s turn timeout.
+ * useTurnInactivityTimer — Client-side turn countdown hook for the room's turn timeout.
  *
  * Architecture:
  * - Monitors game_state.turn_started_at when it's the local player's turn
- * - Shows yellow InactivityCountdownRing (60s countdown)
+ * - Shows yellow InactivityCountdownRing (the room's turn timer, 60s by default)
  * - When timer expires: calls auto-play-turn edge function
  * - Edge function auto-plays highest valid cards OR passes
  * - Returns auto-played cards to show "I'm Still Here?" popup
  *
  * CRITICAL: Coexists with connection inactivity (charcoal-grey disconnect ring).
- * - Yellow ring = turn inactivity (60s to play)
+ * - Yellow ring = turn inactivity (turn timer to play)
  * - Charcoal-grey ring = connection inactivity (heartbeat stopped)
  * - If disconnect happens during turn, charcoal-grey disconnect ring replaces yellow and continues countdown
  */
@@ -39,7 +39,7 @@ export interface UseTurnInactivityTimerOptions {
   /**
    * H1: Current connection status from useConnectionManager.
    * When the player is disconnected or replaced by a bot, the server handles
-   * bot-replacement through its own 60s grace period. The client-side inactivity
+   * bot-replacement through its own disconnect grace period. The client-side inactivity
    * timer must NOT call auto-play-turn in parallel — that would create a race
    * condition between the edge function and pg_cron process_disconnected_players().
    *
@@ -51,18 +51,23 @@ export interface UseTurnInactivityTimerOptions {
   connectionStatus?: ConnectionStatus;
   /** Callback when auto-play happens (show "I'm Still Here?" modal) */
   onAutoPlay?: (cards: Card[] | null, action: 'play' | 'pass') => void;
+  /**
+   * The room's turn timer in milliseconds (rooms.settings.turn_timer_seconds).
+   * Must match what auto-play-turn enforces, or the call is refused as early.
+   */
+  turnTimeoutMs?: number;
 }
 
 export interface TurnInactivityTimer {
   /** Whether it's the local player's turn */
   isMyTurn: boolean;
-  /** Remaining milliseconds in turn (60000 to 0) */
+  /** Remaining milliseconds in turn (turnTimeoutMs to 0) */
   remainingMs: number;
   /** Whether auto-play is currently in progress */
   isAutoPlayInProgress: boolean;
 }
 
-const TURN_TIMEOUT_MS = 60_000; // 60 seconds
+const DEFAULT_TURN_TIMEOUT_MS = 60_000; // 60 seconds, the server default
 // 500ms polling: sufficient to detect expiry within half a second while keeping
 // re-renders to ~2/sec instead of ~10/sec during the local player's turn.
 const POLLING_INTERVAL_MS = 500;
@@ -76,6 +81,7 @@ export function useTurnInactivityTimer({
   currentUserId,
   connectionStatus,
   onAutoPlay,
+  turnTimeoutMs = DEFAULT_TURN_TIMEOUT_MS,
 }: UseTurnInactivityTimerOptions): TurnInactivityTimer {
   // ── Refs (all state the interval callback needs) ────────────────────────
   const gameStateRef = useRef<GameState | null>(null);
@@ -87,6 +93,7 @@ export function useTurnInactivityTimer({
   );
   const getCorrectedNowRef = useRef<typeof getCorrectedNow>(getCorrectedNow);
   const onAutoPlayRef = useRef<typeof onAutoPlay>(onAutoPlay);
+  const turnTimeoutMsRef = useRef(turnTimeoutMs);
 
   /** Execution guard to prevent concurrent auto-play calls */
   const autoPlayExecutionGuard = useRef<number | null>(null);
@@ -112,7 +119,7 @@ export function useTurnInactivityTimer({
   /**
    * Client-local start time for the current turn.
    * Used INSTEAD of the server's turn_started_at when clock skew is detected.
-   * This ensures the 60s countdown is always relative to when the client
+   * This ensures the turn countdown is always relative to when the client
    * first observed the turn, avoiding issues where server clock is ahead.
    */
   const localTurnStartRef = useRef<number | null>(null);
@@ -120,7 +127,7 @@ export function useTurnInactivityTimer({
   /** Reactive state for UI */
   const [timerState, setTimerState] = useState<TurnInactivityTimer>({
     isMyTurn: false,
-    remainingMs: TURN_TIMEOUT_MS,
+    remainingMs: turnTimeoutMs,
     isAutoPlayInProgress: false,
   });
 
@@ -149,6 +156,9 @@ export function useTurnInactivityTimer({
   useEffect(() => {
     onAutoPlayRef.current = onAutoPlay;
   }, [onAutoPlay]);
+  useEffect(() => {
+    turnTimeoutMsRef.current = turnTimeoutMs;
+  }, [turnTimeoutMs]);
 
   // P3-3 FIX: Reset throttle refs when the player reconnects mid-turn.
   // The stable polling interval only resets hasExpiredRef/lastAutoPlayAttemptRef when
@@ -259,9 +269,15 @@ export function useTurnInactivityTimer({
 
       if (!gs || !players || !userId) {
         setTimerState(prev =>
-          !prev.isMyTurn && prev.remainingMs === TURN_TIMEOUT_MS && !prev.isAutoPlayInProgress
+          !prev.isMyTurn &&
+          prev.remainingMs === turnTimeoutMsRef.current &&
+          !prev.isAutoPlayInProgress
             ? prev
-            : { isMyTurn: false, remainingMs: TURN_TIMEOUT_MS, isAutoPlayInProgress: false }
+            : {
+                isMyTurn: false,
+                remainingMs: turnTimeoutMsRef.current,
+                isAutoPlayInProgress: false,
+              }
         );
         return;
       }
@@ -269,9 +285,15 @@ export function useTurnInactivityTimer({
       // Game not in active phase → no timer
       if (gs.game_phase !== 'playing' && gs.game_phase !== 'first_play') {
         setTimerState(prev =>
-          !prev.isMyTurn && prev.remainingMs === TURN_TIMEOUT_MS && !prev.isAutoPlayInProgress
+          !prev.isMyTurn &&
+          prev.remainingMs === turnTimeoutMsRef.current &&
+          !prev.isAutoPlayInProgress
             ? prev
-            : { isMyTurn: false, remainingMs: TURN_TIMEOUT_MS, isAutoPlayInProgress: false }
+            : {
+                isMyTurn: false,
+                remainingMs: turnTimeoutMsRef.current,
+                isAutoPlayInProgress: false,
+              }
         );
         return;
       }
@@ -280,9 +302,15 @@ export function useTurnInactivityTimer({
       const myPlayer = players.find(p => p.user_id === userId);
       if (!myPlayer) {
         setTimerState(prev =>
-          !prev.isMyTurn && prev.remainingMs === TURN_TIMEOUT_MS && !prev.isAutoPlayInProgress
+          !prev.isMyTurn &&
+          prev.remainingMs === turnTimeoutMsRef.current &&
+          !prev.isAutoPlayInProgress
             ? prev
-            : { isMyTurn: false, remainingMs: TURN_TIMEOUT_MS, isAutoPlayInProgress: false }
+            : {
+                isMyTurn: false,
+                remainingMs: turnTimeoutMsRef.current,
+                isAutoPlayInProgress: false,
+              }
         );
         return;
       }
@@ -302,9 +330,15 @@ export function useTurnInactivityTimer({
           localTurnStartRef.current = null;
         }
         setTimerState(prev =>
-          !prev.isMyTurn && prev.remainingMs === TURN_TIMEOUT_MS && !prev.isAutoPlayInProgress
+          !prev.isMyTurn &&
+          prev.remainingMs === turnTimeoutMsRef.current &&
+          !prev.isAutoPlayInProgress
             ? prev
-            : { isMyTurn: false, remainingMs: TURN_TIMEOUT_MS, isAutoPlayInProgress: false }
+            : {
+                isMyTurn: false,
+                remainingMs: turnTimeoutMsRef.current,
+                isAutoPlayInProgress: false,
+              }
         );
         return;
       }
@@ -314,12 +348,12 @@ export function useTurnInactivityTimer({
       if (!turnStartedAt) {
         setTimerState(prev =>
           prev.isMyTurn &&
-          prev.remainingMs === TURN_TIMEOUT_MS &&
+          prev.remainingMs === turnTimeoutMsRef.current &&
           prev.isAutoPlayInProgress === isAutoPlayInProgressRef.current
             ? prev
             : {
                 isMyTurn: true,
-                remainingMs: TURN_TIMEOUT_MS,
+                remainingMs: turnTimeoutMsRef.current,
                 isAutoPlayInProgress: isAutoPlayInProgressRef.current,
               }
         );
@@ -378,7 +412,7 @@ export function useTurnInactivityTimer({
       const effectiveNow =
         localTurnStartRef.current !== null ? Date.now() : getCorrectedNowRef.current();
       const elapsed = effectiveNow - startTime;
-      const remaining = Math.max(0, TURN_TIMEOUT_MS - elapsed);
+      const remaining = Math.max(0, turnTimeoutMsRef.current - elapsed);
 
       // Update UI state ONLY when boolean flags change — NOT on every 500ms tick.
       // `remainingMs` is intentionally excluded from this comparison: InactivityCountdownRing
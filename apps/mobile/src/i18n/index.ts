@@ -315,8 +315,12 @@ export interface Translations {
     createRoomDescription: string;
     joinRoom: string;
     joinRoomDescription: string;
+    browseRooms: string;
+    browseRoomsDescription: string;
     howToPlay: string;
     howToPlayDescription: string;
+    tournaments: string;
+    tournamentsDescription: string;
     roomClosedTitle: string;
     roomClosedMessage: string;
     joinCasualLobby: string;
@@ -344,6 +348,18 @@ export interface Translations {
     mediumDesc: string;
     hard: string;
     hardDesc: string;
+    expert: string;
+    expertDesc: string;
+    tableSizeLabel: string;
+    tableSizePlayers: string;
+    dealVariantExtraCard: string;
+    dealVariantExtraCardDesc: string;
+    dealVariantDummy: string;
+    dealVariantDummyDesc: string;
+    undoLimitLabel: string;
+    undoLimitOff: string;
+    undoLimitCount: string;
+    undoLimitDesc: string;
     chooseGameMode: string;
     noGameInProgress: string;
     startNewGameHint: string;
@@ -356,6 +372,10 @@ export interface Translations {
     cancelSearch: string;
     findingRankedMatch: string;
     offlineMatchSubtitle: string;
+    continueGames: string;
+    savedGameOpponents: string;
+    continueGame: string;
+    discardGame: string;
     botReplacingYou: string;
     beforeBotReplaces: string;
     botPlayingForYou: string;
@@ -453,6 +473,8 @@ export interface Translations {
     pass: string;
     play: string;
     hint: string;
+    undo: string;
+    undoUnavailable: string;
     smart: string;
     sort: string;
     lastPlayedBy: string;
@@ -469,6 +491,8 @@ export interface Translations {
     invalidCombo: string;
     cardNotInHand: string;
     firstPlayMustInclude3D: string;
+    /** Template: 'First play must include {{card}}' — opening card under house rules */
+    firstPlayMustIncludeOpeningCard: string;
     oneCardLeftMustPlayHighestSingle: string;
     mustPlayHigher: string;
     autoPassTimer: string;
@@ -489,6 +513,10 @@ export interface Translations {
     initializingGame: string;
     settingUpEngine: string;
     matchHistoryTitle: string;
+    targetScoreLabel: string;
+    scoreTwosPenalty: string;
+    scoreDoubled: string;
+    scoreHongKongBonus: string;
     finalScoresTitle: string;
     matchColumn: string;
     totalRow: string;
@@ -569,6 +597,7 @@ export interface Translations {
     copyResultsSuccess: string;
     playAgain: string;
     returnToMenu: string;
+    watchReplay: string;
     loadingResults: string;
     noScoreHistory: string;
     scoresWillAppear: string;
@@ -690,6 +719,59 @@ export interface Translations {
     easy: string;
     medium: string;
     hard: string;
+    expert: string;
+    botPersonalitiesLabel: string;
+    botSeat: string;
+    personalityBalanced: string;
+    personalityAggressive: string;
+    personalityConservative: string;
+    personalityBluffing: string;
+    botPersonalitiesError: string;
+    houseRulesLabel: string;
+    rulePresetStandard: string;
+    rulePresetTaiwanese: string;
+    rulePresetNoTwosInStraights: string;
+    rulePresetCustom: string;
+    ruleSuitOrderTaiwanese: string;
+    ruleTwosInStraights: string;
+    ruleFlushSuitFirst: string;
+    ruleQuadsNeedKicker: string;
+    houseRulesError: string;
+    scoringLabel: string;
+    scoringTargetScore: string;
+    scoringTiersClassic: string;
+    scoringTiersFlat: string;
+    scoringTiersSteep: string;
+    scoringTiersCustom: string;
+    scoringTwosPenalty: string;
+    scoringDoubleNeverPlayed: string;
+    scoringHongKongBonus: string;
+    scoringError: string;
+    spectatorsLabel: string;
+    spectatorsAllow: string;
+    spectatorsOff: string;
+    spectatorsHandsHidden: string;
+    spectatorsOpenHands: string;
+    spectatorsError: string;
+    timersLabel: string;
+    timersBlitz: string;
+    timersStandard: string;
+    timersRelaxed: string;
+    timersSummary: string;
+    timersError: string;
+    duplicateLabel: string;
+    duplicateCreate: string;
+    duplicateJoin: string;
+    duplicateCodePlaceholder: string;
+    duplicateLeave: string;
+    duplicateTable: string;
+    duplicateError: string;
+    tableLabel: string;
+    tableSize: string;
+    dealVariantExtraCard: string;
+    dealVariantDummy: string;
+    tableError: string;
+    tournamentTable: string;
     rankedMatch: string;
     privateRoom: string;
     confirmLeaveTitle: string;
@@ -744,6 +826,17 @@ export interface Translations {
     tip: string;
     askFriendForCode: string;
     createRoomRateLimited: string;
+    visibilityLabel: string;
+    privateRoom: string;
+    publicRoom: string;
+    roomTitleLabel: string;
+    roomTitlePlaceholder: string;
+    gameModeLabel: string;
+    casual: string;
+    ranked: string;
+    turnTimerLabel: string;
+    seconds: string;
+    listingError: string;
   };
 
   // Profile Screen
@@ -808,6 +901,15 @@ export interface Translations {
     casualStats: string;
     privateStats: string;
     rankedStats: string;
+    seasons: string;
+    currentSeason: string;
+    seasonEnds: string;
+    pastSeasons: string;
+    noPastSeasons: string;
+    seasonGames: string;
+    seasonReward: string;
+    seasonNoReward: string;
+    seasonsLoadError: string;
     peak: string;
     lowest: string;
     win: string;
@@ -854,6 +956,16 @@ export interface Translations {
     matches: string;
     noRankedPlayers: string;
     playRankedMatches: string;
+    global: string;
+    friends: string;
+    headToHead: string;
+    noFriendRankings: string;
+    addFriendsToRank: string;
+    weeklyRecap: string;
+    recapWithFriends: string;
+    recapMostActive: string;
+    recapMostWins: string;
+    recapQuiet: string;
   };
 
   // Auth Screens
@@ -902,6 +1014,21 @@ export interface Translations {
     friendsCanJoin: string;
     signInRequired: string;
     queueExpiresIn: string;
+    /** Current search range: ratings and the regions searched */
+    searchRange: string;
+    reachRegion: string;
+    reachNearby: string;
+    reachAny: string;
+    estimatedWaitSeconds: string;
+    estimatedWaitMinutes: string;
+    partyQueued: string;
+    partyInviteSent: string;
+    queueWithFriends: string;
+    queueWithFriendsHint: string;
+    noFriendsForParty: string;
+    tableSizeLabel: string;
+    tableSizeOption: string;
+    waitingForMore: string;
   };
 
   // Match History Screen
@@ -918,6 +1045,173 @@ export interface Translations {
     hoursAgo: string;
     daysAgo: string;
     local: string;
+    dealVerified: string;
+    dealMismatch: string;
+    duplicateCompare: string;
+    duplicateTables: string;
+    duplicateError: string;
+    watchReplay: string;
+    exportGame: string;
+    importGame: string;
+    accuracy: string;
+  };
+
+  // Game replays
+  replay: {
+    title: string;
+    match: string;
+    move: string;
+    dealt: string;
+    trick: string;
+    played: string;
+    passed: string;
+    cardsLeft: string;
+    handsHidden: string;
+    speed: string;
+    notAvailable: string;
+    loadError: string;
+    playFromHere: string;
+    analysisSummary: string;
+    nextFlagged: string;
+    blunder: string;
+    mistake: string;
+    oneCardLeft: string;
+    missedBeat: string;
+    brokeStraight: string;
+    suggestPlay: string;
+    suggestPass: string;
+  };
+
+  // Game records (import/export)
+  gameRecord: {
+    shareTitle: string;
+    exportError: string;
+    notAvailable: string;
+    importTitle: string;
+    importHint: string;
+    importPlaceholder: string;
+    paste: string;
+    import: string;
+    invalid: string;
+  };
+
+  // Interactive tutorial and puzzles
+  tutorial: {
+    title: string;
+    lessonsTab: string;
+    puzzlesTab: string;
+    openLessons: string;
+    openPuzzles: string;
+    lessonCount: string;
+    play: string;
+    pass: string;
+    hint: string;
+    retry: string;
+    next: string;
+    backToList: string;
+    toBeat: string;
+    leading: string;
+    cardsLeft: string;
+    botsMoving: string;
+    notThisMove: string;
+    goOut: string;
+    stopOneCard: string;
+    solved: string;
+    failed: string;
+    hintPlay: string;
+    hintPass: string;
+    attempts: string;
+    hintsUsed: string;
+    explain: {
+      missingOpeningCard: string;
+      notACombo: string;
+      wrongCardCount: string;
+      tooLow: string;
+      oneCardLeft: string;
+      leading: string;
+      oneCardLeftPass: string;
+    };
+    lessons: {
+      openingCard: { title: string; instruction: string; success: string };
+      singles: { title: string; instruction: string; success: string };
+      suitOrder: { title: string; instruction: string; success: string };
+      pairs: { title: string; instruction: string; success: string };
+      fiveCardHands: { title: string; instruction: string; success: string };
+      passing: { title: string; instruction: string; success: string };
+      oneCardLeft: { title: string; instruction: string; success: string };
+    };
+    puzzles: {
+      takeTheLead: string;
+      oneCardOpponent: string;
+      fullHouseFirst: string;
+    };
+  };
+
+  // Tournaments
+  tournaments: {
+    title: string;
+    empty: string;
+    loadError: string;
+    refresh: string;
+    create: string;
+    namePlaceholder: string;
+    formatLabel: string;
+    formatSwiss: string;
+    formatSingleElimination: string;
+    entrantsLabel: string;
+    registrationLabel: string;
+    minutes: string;
+    hours: string;
+    entrants: string;
+    closes: string;
+    register: string;
+    withdraw: string;
+    statusRegistration: string;
+    statusRunning: string;
+    statusFinished: string;
+    statusCancelled: string;
+    round: string;
+    roundOf: string;
+    table: string;
+    tableWaiting: string;
+    tablePlaying: string;
+    tableFinished: string;
+    tableForfeited: string;
+    noShow: string;
+    joinTable: string;
+    checkInCloses: string;
+    standings: string;
+    points: string;
+    eliminated: string;
+  };
+
+  spectate: {
+    title: string;
+    loadError: string;
+    handsHidden: string;
+    openHandsDelay: string;
+    startsSoon: string;
+    match: string;
+    played: string;
+    newTrick: string;
+    toPlay: string;
+    gameOver: string;
+    cardsLeft: string;
+    score: string;
+  };
+
+  roomBrowser: {
+    title: string;
+    loadError: string;
+    empty: string;
+    myRegion: string;
+    allRegions: string;
+    anyMode: string;
+    anyRules: string;
+    untitled: string;
+    players: string;
+    bots: string;
+    join: string;
   };
 
   // Friends & Social
@@ -953,6 +1247,8 @@ export interface Translations {
     searchPlaceholder: string;
     noResults: string;
     clearSearch: string;
+    watch: string;
+    watchGame: string;
   };
 
   notifications: {
@@ -1247,11 +1543,15 @@ const en: Translations = {
     quickPlay: '⚡ Quick Play',
     quickPlayDescription: 'Join a random game',
     createRoom: '➕ Create Room',
-    createRoomDescription: 'Host a private game',
+    createRoomDescription: 'Host a private or public game',
     joinRoom: '🔗 Join Room',
     joinRoomDescription: 'Enter a room code',
+    browseRooms: '🌐 Browse Rooms',
+    browseRoomsDescription: 'Join an open public table',
     howToPlay: '📖 How to Play',
     howToPlayDescription: 'Learn the rules',
+    tournaments: '🏆 Tournaments',
+    tournamentsDescription: 'Swiss and knockout events',
     roomClosedTitle: 'Room Closed',
     roomClosedMessage: 'The room you were in has been closed by the host.',
     joinCasualLobby: 'Join Casual Lobby',
@@ -1279,6 +1579,19 @@ const en: Translations = {
     mediumDesc: 'Balanced play with basic strategy. A fair challenge.',
     hard: 'Hard',
     hardDesc: 'Optimal play with advanced combos. Think you can win?',
+    expert: 'Expert',
+    expertDesc: 'Counts cards, reads your passes and plans ahead. No mercy.',
+    tableSizeLabel: 'Players',
+    tableSizePlayers: '{{count}} players',
+    dealVariantExtraCard: '17 cards each',
+    dealVariantExtraCardDesc:
+      'With three the whole deck is dealt; the 3♦ holder gets the spare card',
+    dealVariantDummy: 'Dummy hand',
+    dealVariantDummyDesc: '13 cards each; the rest stay face down out of play',
+    undoLimitLabel: 'Take-backs',
+    undoLimitOff: 'Off',
+    undoLimitCount: '{{count}} per game',
+    undoLimitDesc: 'A game where you take back a move is not counted in your stats',
     chooseGameMode: 'Choose your game mode',
     noGameInProgress: 'No Game in Progress',
     startNewGameHint: 'Start a new game to play!',
@@ -1291,6 +1604,10 @@ const en: Translations = {
     cancelSearch: '❌ Cancel Search',
     findingRankedMatch: '🔍 Finding ranked match...',
     offlineMatchSubtitle: 'Match {{match}} · vs AI',
+    continueGames: 'Continue Playing',
+    savedGameOpponents: 'vs {{opponents}}',
+    continueGame: '▶️ Continue',
+    discardGame: '🗑 Discard',
     botReplacingYou: 'Bot replacing you...',
     beforeBotReplaces: '⏱ {{seconds}}s before bot replaces you',
     botPlayingForYou: '🤖 A bot is playing for you',
@@ -1347,7 +1664,7 @@ const en: Translations = {
     eloSystemDesc:
       'Your ELO rating measures your skill level. It increases when you win and decreases when you lose in ranked matches. Casual matches do not affect your ELO.',
     eloFormula:
-      'ELO changes are calculated using the chess rating formula with K-factor=32. Winning against higher-rated opponents gives more points.',
+      'Ratings use the Glicko-2 system: each ranked game counts as a win or loss against every other player at the table. New and returning players move faster until their rating settles. Winning against higher-rated opponents gives more points.',
     rankTiersTitle: 'Rank Tiers:',
     // Reconnection & Disconnection
     reconnectionTitle: '🔄 Reconnection & Disconnection',
@@ -1365,6 +1682,8 @@ const en: Translations = {
     pass: 'Pass',
     play: 'Play',
     hint: 'Hint',
+    undo: 'Undo',
+    undoUnavailable: 'There is no move to take back right now.',
     smart: 'Smart',
     sort: 'Sort',
     lastPlayedBy: 'Last played by',
@@ -1381,6 +1700,7 @@ const en: Translations = {
     invalidCombo: 'Invalid card combination',
     cardNotInHand: 'Card not in hand',
     firstPlayMustInclude3D: 'First play must include 3♦',
+    firstPlayMustIncludeOpeningCard: 'First play must include {{card}}',
     oneCardLeftMustPlayHighestSingle: 'Must play your highest single — opponent has 1 card left',
     mustPlayHigher: 'Must play higher combo',
     autoPassTimer: 'Auto-pass in',
@@ -1401,6 +1721,10 @@ const en: Translations = {
     initializingGame: 'Initializing game...',
     settingUpEngine: 'Setting up game engine...',
     matchHistoryTitle: 'Match {{n}} History',
+    targetScoreLabel: 'Game to {{n}}',
+    scoreTwosPenalty: '2s +{{n}}',
+    scoreDoubled: '×2',
+    scoreHongKongBonus: 'HK −{{n}}',
     finalScoresTitle: '🏁 Final Scores',
     matchColumn: 'Match',
     totalRow: 'Total',
@@ -1483,6 +1807,7 @@ const en: Translations = {
     shareResultsTitle: 'Big Two Game Results',
     playAgain: 'Play Again',
     returnToMenu: 'Return to Menu',
+    watchReplay: 'Watch Replay',
     loadingResults: 'Loading results...',
     noScoreHistory: 'No score history available',
     scoresWillAppear: 'Scores will appear here as matches are played',
@@ -1585,13 +1910,66 @@ const en: Translations = {
     notAllPlayersReady: 'All non-host players must be ready before starting',
     shareError: 'Share Error',
     shareErrorMessage: 'Unable to share room code',
-    rankedRequirement: 'Ranked matches require 4 human players',
+    rankedRequirement: 'Ranked matches require {{count}} human players',
     waitingForMorePlayers: 'Waiting for more players...',
     allReadyToStart: 'All ready to start!',
     botDifficultyLabel: '🤖 Bot Difficulty:',
     easy: 'Easy',
     medium: 'Medium',
     hard: 'Hard',
+    expert: 'Expert',
+    botPersonalitiesLabel: '🎭 Bot Personalities:',
+    botSeat: 'Seat {{n}}',
+    personalityBalanced: 'Balanced',
+    personalityAggressive: 'Aggressive',
+    personalityConservative: 'Conservative',
+    personalityBluffing: 'Bluffer',
+    botPersonalitiesError: 'Failed to update bot personalities',
+    houseRulesLabel: '📜 House Rules:',
+    rulePresetStandard: 'Standard',
+    rulePresetTaiwanese: 'Taiwanese',
+    rulePresetNoTwosInStraights: 'No 2s in Straights',
+    rulePresetCustom: 'Custom',
+    ruleSuitOrderTaiwanese: 'Suit order ♣ < ♦ < ♥ < ♠',
+    ruleTwosInStraights: '2s allowed in straights',
+    ruleFlushSuitFirst: 'Flushes ranked by suit first',
+    ruleQuadsNeedKicker: 'Four of a kind needs a kicker',
+    houseRulesError: 'Failed to update house rules',
+    scoringLabel: '🧮 Scoring:',
+    scoringTargetScore: 'Game to {{n}}',
+    scoringTiersClassic: '1/2/3 per card',
+    scoringTiersFlat: '1 per card',
+    scoringTiersSteep: '1/2/3/4 per card',
+    scoringTiersCustom: 'Custom tiers',
+    scoringTwosPenalty: '+{{n}} per unplayed 2',
+    scoringDoubleNeverPlayed: 'Double if never played',
+    scoringHongKongBonus: 'Hong Kong bonus (winner −{{n}})',
+    scoringError: 'Failed to update scoring',
+    spectatorsLabel: '👁 Spectators:',
+    spectatorsAllow: 'Allow spectators',
+    spectatorsOff: 'not allowed',
+    spectatorsHandsHidden: 'Hands hidden',
+    spectatorsOpenHands: 'Open hands after {{seconds}} s',
+    spectatorsError: 'Failed to update spectator settings',
+    timersLabel: '⏱ Timers:',
+    timersBlitz: 'Blitz',
+    timersStandard: 'Standard',
+    timersRelaxed: 'Relaxed',
+    timersSummary: 'Turn {{turn}} s · auto-pass {{autoPass}} s · reconnect {{disconnect}} s',
+    timersError: 'Failed to update timers',
+    duplicateLabel: '🪞 Duplicate:',
+    duplicateCreate: 'New group ({{n}} tables)',
+    duplicateJoin: 'Join',
+    duplicateCodePlaceholder: 'Group code',
+    duplicateLeave: 'Leave group',
+    duplicateTable: 'Table {{table}} of {{total}} · #{{code}}',
+    duplicateError: 'Failed to update the duplicate group',
+    tableLabel: 'Table:',
+    tableSize: '{{n}} players',
+    dealVariantExtraCard: '17 cards each',
+    dealVariantDummy: '13 cards + dummy hand',
+    tableError: 'Failed to change the table',
+    tournamentTable: '🏆 {{name}} · round {{round}}, table {{table}}',
     rankedMatch: '🏆 Ranked Match',
     privateRoom: '🔒 Private Room',
     confirmLeaveTitle: 'Leave Room?',
@@ -1651,6 +2029,17 @@ const en: Translations = {
     askFriendForCode: 'Ask your friend for the room code and enter it here to join their game',
     createRoomRateLimited:
       "You've created too many rooms recently. Please wait up to an hour before creating another.", // Rate limit window is 1 hour — Task #281
+    visibilityLabel: 'Who can join',
+    privateRoom: '🔒 Private',
+    publicRoom: '🌐 Public',
+    roomTitleLabel: 'Room title',
+    roomTitlePlaceholder: 'Friendly evening game',
+    gameModeLabel: 'Game mode',
+    casual: 'Casual',
+    ranked: 'Ranked',
+    turnTimerLabel: 'Turn timer',
+    seconds: '{{seconds}}s',
+    listingError: 'The room was created, but its settings could not be saved',
   },
   profile: {
     title: 'Profile',
@@ -1713,6 +2102,15 @@ const en: Translations = {
     casualStats: 'Casual Stats',
     privateStats: 'Private Stats',
     rankedStats: 'Ranked Stats',
+    seasons: 'Seasons',
+    currentSeason: 'Current season',
+    seasonEnds: '{{name}} · ends {{date}}',
+    pastSeasons: 'Past Seasons',
+    noPastSeasons: 'No finished seasons yet',
+    seasonGames: '{{count}} games this season',
+    seasonReward: '🎁 Reward: {{tier}}',
+    seasonNoReward: 'Play {{count}} games in a season to earn its reward',
+    seasonsLoadError: 'Failed to load seasons',
     peak: 'Peak',
     lowest: 'Lowest',
     win: 'Win',
@@ -1757,6 +2155,16 @@ const en: Translations = {
     matches: 'matches',
     noRankedPlayers: 'No Ranked Players',
     playRankedMatches: 'Play 10+ ranked matches to appear here',
+    global: 'Global',
+    friends: 'Friends',
+    headToHead: 'vs you: {{wins}}W – {{losses}}L in {{games}} games',
+    noFriendRankings: 'No friends ranked yet',
+    addFriendsToRank: 'Add friends and play to see how you stack up',
+    weeklyRecap: 'This Week with Friends',
+    recapWithFriends: 'You played {{games}} games with friends and won {{wins}}',
+    recapMostActive: 'Most active: {{name}} ({{count}} games)',
+    recapMostWins: 'Most wins: {{name}} ({{count}})',
+    recapQuiet: 'No games in your friends circle this week yet',
   },
   auth: {
     signIn: 'Sign In',
@@ -1802,6 +2210,20 @@ const en: Translations = {
     friendsCanJoin: 'Friends can join your match using this code',
     signInRequired: 'You must be signed in to use matchmaking',
     queueExpiresIn: 'Queue expires in {{count}}s',
+    searchRange: 'Searching ratings {{min}}–{{max}} · {{regions}}',
+    reachRegion: 'your region',
+    reachNearby: 'nearby regions',
+    reachAny: 'all regions',
+    estimatedWaitSeconds: 'Estimated wait: ~{{count}}s',
+    estimatedWaitMinutes: 'Estimated wait: ~{{count}} min',
+    partyQueued: 'Queued as a party of {{count}}',
+    partyInviteSent: 'Your friends have been invited — the search starts once everyone joins.',
+    queueWithFriends: 'Queue with Friends',
+    queueWithFriendsHint: 'Pick up to {{count}} friends. They get an invite and sit with you.',
+    noFriendsForParty: 'Add friends to queue together',
+    tableSizeLabel: 'Table size',
+    tableSizeOption: '{{count}} players',
+    waitingForMore: 'Found {{count}} player(s), waiting for {{more}} more...',
   },
   matchHistory: {
     title: 'Match History',
@@ -1815,6 +2237,200 @@ const en: Translations = {
     hoursAgo: '{{count}}h ago',
     daysAgo: '{{count}}d ago',
     local: 'Local',
+    dealVerified: '🔐 Deal verified against its published hash',
+    dealMismatch: '⚠️ Revealed deal seed does not match its hash',
+    duplicateCompare: '🪞 Compare duplicate tables',
+    duplicateTables: '{{finished}} of {{total}} tables finished · points vs par (lower is better)',
+    duplicateError: 'Could not load duplicate results',
+    watchReplay: '🎬 Watch replay',
+    exportGame: '📤 Export game',
+    importGame: 'Import a game record',
+    accuracy: '🎯 {{percent}}% accuracy',
+  },
+  replay: {
+    title: 'Replay',
+    match: 'Match {{n}}',
+    move: 'Move {{current}} / {{total}}',
+    dealt: 'Cards dealt',
+    trick: 'Trick {{n}}',
+    played: '{{name}} played {{combo}}',
+    passed: '{{name}} passed',
+    cardsLeft: '{{count}} cards',
+    handsHidden: 'Hands stay hidden until the deal seed is revealed',
+    speed: 'Speed',
+    notAvailable: 'No replay is available for this game',
+    loadError: 'Could not load the replay',
+    playFromHere: '▶ Play from here',
+    analysisSummary: '🎯 Your accuracy: {{percent}}% · {{count}} flagged',
+    nextFlagged: 'Next flagged move',
+    blunder: '❌ Blunder',
+    mistake: '⚠️ Mistake',
+    oneCardLeft: 'The next player had one card left and this did not stop them',
+    missedBeat: 'Passed although a safe beat was available',
+    brokeStraight: 'Broke up a straight too early',
+    suggestPlay: 'Stronger: {{cards}}',
+    suggestPass: 'Stronger: pass',
+  },
+  gameRecord: {
+    shareTitle: 'Big Two game record',
+    exportError: 'Could not export this game',
+    notAvailable: 'This game has no recorded moves to export',
+    importTitle: 'Import game',
+    importHint:
+      'Paste a game record exported from Big Two to watch it or play on from any position.',
+    importPlaceholder: 'Game record',
+    paste: 'Paste',
+    import: 'Import',
+    invalid: 'Invalid game record: {{error}}',
+  },
+  tutorial: {
+    title: '🎓 Learn to Play',
+    lessonsTab: 'Lessons',
+    puzzlesTab: 'Puzzles',
+    openLessons: '🎓 Interactive Tutorial',
+    openPuzzles: '🧩 Puzzles',
+    lessonCount: 'Lesson {{number}} of {{total}}',
+    play: 'Play',
+    pass: 'Pass',
+    hint: '💡 Hint',
+    retry: 'Try Again',
+    next: 'Next',
+    backToList: 'All',
+    toBeat: 'To beat',
+    leading: 'You lead: play any combination',
+    cardsLeft: '{{name}}: {{count}} cards',
+    botsMoving: 'Opponents are playing…',
+    notThisMove: 'That play is legal, but this lesson asks for something else. Try again.',
+    goOut: 'Play out all your cards in {{count}} plays',
+    stopOneCard: '{{name}} has one card left. Go out before they do.',
+    solved: '🎉 Solved!',
+    failed: 'Not this time. Try again!',
+    hintPlay: 'Hint: play {{cards}}',
+    hintPass: 'Hint: pass',
+    attempts: '{{count}} attempts',
+    hintsUsed: '{{count}} hints',
+    explain: {
+      missingOpeningCard: 'The first play of the game must include the {{card}}.',
+      notACombo:
+        'These cards are not a combination. Play a single, a pair, a triple or a five-card hand.',
+      wrongCardCount: 'You must answer with the same number of cards: {{count}}.',
+      tooLow: 'Your {{combo}} does not beat the {{lastCombo}} on the table.',
+      oneCardLeft:
+        'The next player has one card left, so a single must be your highest: the {{card}}.',
+      leading: 'You are leading, so you cannot pass.',
+      oneCardLeftPass:
+        'The next player has one card left: you cannot pass while your {{card}} beats the table.',
+    },
+    lessons: {
+      openingCard: {
+        title: 'The opening card',
+        instruction:
+          'The 3♦ is the lowest card. Whoever holds it starts the game, and the first play must include it. Play the 3♦.',
+        success: 'The game is under way. The next player must beat your 3♦.',
+      },
+      singles: {
+        title: 'Beating a single',
+        instruction:
+          'The 7♥ was played. Beat it with a higher single, but do not waste a big card: play the 8♦.',
+        success: 'Ranks go 3 up to A, and 2 is the highest of all.',
+      },
+      suitOrder: {
+        title: 'Suit order',
+        instruction:
+          'The 9♣ was played. With equal ranks the suit decides: ♦ < ♣ < ♥ < ♠. Beat it with a 9.',
+        success: 'The 9♥ beats the 9♣, while the 9♦ would not.',
+      },
+      pairs: {
+        title: 'Pairs',
+        instruction: 'A pair of 6s was played. Answer with a higher pair.',
+        success: 'Pairs are compared by rank, then by their highest suit.',
+      },
+      fiveCardHands: {
+        title: 'Five-card hands',
+        instruction: 'A straight was played. A flush beats any straight: play your five hearts.',
+        success:
+          'Five-card hands rank: straight < flush < full house < four of a kind < straight flush.',
+      },
+      passing: {
+        title: 'Passing',
+        instruction: 'The 2♠ is the highest card in the game. Nothing you hold beats it, so pass.',
+        success: 'When everyone else passes, the last player to play leads the next trick.',
+      },
+      oneCardLeft: {
+        title: 'One card left',
+        instruction:
+          'Your opponent has one card left. If you lead a single, it must be your highest. Play the K♠.',
+        success: 'Playing your highest single makes it hard for the last card to win.',
+      },
+    },
+    puzzles: {
+      takeTheLead: 'Take the lead',
+      oneCardOpponent: 'Stop the last card',
+      fullHouseFirst: 'Full house first',
+    },
+  },
+  tournaments: {
+    title: '🏆 Tournaments',
+    empty: 'No tournaments yet — create one!',
+    loadError: 'Could not load the tournament',
+    refresh: 'Refresh',
+    create: 'Create tournament',
+    namePlaceholder: 'Tournament name',
+    formatLabel: 'Format',
+    formatSwiss: 'Swiss',
+    formatSingleElimination: 'Single elimination',
+    entrantsLabel: 'Max players',
+    registrationLabel: 'Registration open for',
+    minutes: '{{n}} min',
+    hours: '{{n}} h',
+    entrants: '{{count}}/{{max}} players',
+    closes: 'Registration closes {{time}}',
+    register: 'Register',
+    withdraw: 'Withdraw',
+    statusRegistration: 'Registration open',
+    statusRunning: 'In progress',
+    statusFinished: 'Finished',
+    statusCancelled: 'Cancelled',
+    round: 'Round {{n}}',
+    roundOf: 'Round {{n}} of {{total}}',
+    table: 'Table {{n}}',
+    tableWaiting: 'Waiting for players',
+    tablePlaying: 'Playing',
+    tableFinished: 'Finished',
+    tableForfeited: 'Forfeited',
+    noShow: 'no-show',
+    joinTable: 'Join your table (table {{n}})',
+    checkInCloses: 'Check-in closes at {{time}}',
+    standings: 'Standings',
+    points: '{{n}} pts · {{wins}} wins',
+    eliminated: 'Out in round {{n}}',
+  },
+  spectate: {
+    title: '👁 Spectating',
+    loadError: 'This game cannot be watched',
+    handsHidden: 'Live · hands are hidden from spectators',
+    openHandsDelay: 'Open hands · {{seconds}} s behind the table',
+    startsSoon: 'Open hands start {{seconds}} s into the game',
+    match: 'Match {{n}}',
+    played: '{{name}} played {{combo}}',
+    newTrick: 'New trick',
+    toPlay: '{{name}} to play',
+    gameOver: 'Game over — {{name}} wins',
+    cardsLeft: '{{count}} cards',
+    score: '{{score}} pts',
+  },
+  roomBrowser: {
+    title: 'Public Rooms',
+    loadError: 'Could not load rooms',
+    empty: 'No open rooms match these filters. Create one!',
+    myRegion: 'My region',
+    allRegions: 'All regions',
+    anyMode: 'Any mode',
+    anyRules: 'Any rules',
+    untitled: "{{host}}'s room",
+    players: '👥 {{count}}/{{max}}',
+    bots: '🤖 {{difficulty}}',
+    join: 'Join',
   },
   friends: {
     title: 'Friends',
@@ -1847,6 +2463,8 @@ const en: Translations = {
     noFriendsToInvite: 'All your friends are already in this room.',
     searchPlaceholder: 'Search players by username...',
     clearSearch: 'Clear search',
+    watch: 'Watch',
+    watchGame: 'Watch their game',
     noResults: 'No players found',
   },
   notifications: {
@@ -2135,9 +2753,11 @@ const ar: Translations = {
     quickPlay: '⚡ لعب سريع',
     quickPlayDescription: 'انضم إلى لعبة عشوائية',
     createRoom: '➕ إنشاء غرفة',
-    createRoomDescription: 'استضافة لعبة خاصة',
+    createRoomDescription: 'استضافة لعبة خاصة أو عامة',
     joinRoom: '🔗 الانضمام إلى غرفة',
     joinRoomDescription: 'أدخل رمز الغرفة',
+    browseRooms: '🌐 تصفح الغرف',
+    browseRoomsDescription: 'انضم إلى طاولة عامة مفتوحة',
     leaderboard: '🏆 لوحة المتصدرين',
     rankedLeaderboard: '🏆 لوحة الصدارة التصنيفية',
     rankedLeaderboardDescription: 'شاهد أفضل اللاعبين حسب تصنيف ELO',
@@ -2152,6 +2772,8 @@ const ar: Translations = {
     rankedMatchDescription: 'مباراة تنافسية بتصنيف ELO',
     howToPlay: '📖 كيف تلعب',
     howToPlayDescription: 'تعلم قواعد اللعبة',
+    tournaments: '🏆 البطولات',
+    tournamentsDescription: 'بطولات سويسرية وخروج المغلوب',
     roomClosedTitle: 'تم إغلاق الغرفة',
     roomClosedMessage: 'تم إغلاق الغرفة التي كنت فيها من قبل المضيف.',
     joinCasualLobby: 'انضم إلى لوبي عادي',
@@ -2167,6 +2789,18 @@ const ar: Translations = {
     mediumDesc: 'لعب متوازن باستراتيجية أساسية. تحدٍّ عادل.',
     hard: 'صعب',
     hardDesc: 'لعب مثالي بتشكيلات متقدمة. هل تعتقد أنك ستفوز؟',
+    expert: 'خبير',
+    expertDesc: 'يعدّ الأوراق ويقرأ تمريراتك ويخطط للأمام. بلا رحمة.',
+    tableSizeLabel: 'اللاعبون',
+    tableSizePlayers: '{{count}} لاعبين',
+    dealVariantExtraCard: '17 ورقة لكل لاعب',
+    dealVariantExtraCardDesc: 'مع ثلاثة لاعبين تُوزَّع الأوراق كلها ويأخذ صاحب 3♦ الورقة الزائدة',
+    dealVariantDummy: 'يد وهمية',
+    dealVariantDummyDesc: '13 ورقة لكل لاعب؛ تبقى البقية مقلوبة خارج اللعب',
+    undoLimitLabel: 'التراجع',
+    undoLimitOff: 'إيقاف',
+    undoLimitCount: '{{count}} لكل لعبة',
+    undoLimitDesc: 'اللعبة التي تتراجع فيها عن حركة لا تُحتسب في إحصائياتك',
     chooseGameMode: 'اختر وضع اللعب',
     noGameInProgress: 'لا توجد لعبة جارية',
     startNewGameHint: 'ابدأ لعبة جديدة للعب!',
@@ -2179,6 +2813,10 @@ const ar: Translations = {
     cancelSearch: '❌ إلغاء البحث',
     findingRankedMatch: '🔍 البحث عن مباراة مصنفة...',
     offlineMatchSubtitle: 'مباراة {{match}} · ضد الذكاء الاصطناعي',
+    continueGames: 'تابع اللعب',
+    savedGameOpponents: 'ضد {{opponents}}',
+    continueGame: '▶️ متابعة',
+    discardGame: '🗑 تجاهل',
     botReplacingYou: 'يحل البوت محلك...',
     beforeBotReplaces: '⏱ {{seconds}} ثانية قبل أن يحل البوت محلك',
     botPlayingForYou: '🤖 بوت يلعب نيابة عنك',
@@ -2192,6 +2830,8 @@ const ar: Translations = {
     pass: 'تمرير',
     play: 'لعب',
     hint: 'تلميح',
+    undo: 'تراجع',
+    undoUnavailable: 'لا توجد حركة يمكن التراجع عنها الآن.',
     smart: 'ذكي',
     sort: 'ترتيب',
     lastPlayedBy: 'آخر من لعب',
@@ -2208,6 +2848,7 @@ const ar: Translations = {
     invalidCombo: 'مجموعة بطاقات غير صالحة',
     cardNotInHand: 'البطاقة ليست في يدك',
     firstPlayMustInclude3D: 'اللعبة الأولى يجب أن تتضمن 3♦',
+    firstPlayMustIncludeOpeningCard: 'اللعبة الأولى يجب أن تتضمن {{card}}',
     oneCardLeftMustPlayHighestSingle: 'يجب لعب أعلى ورقة منفردة — الخصم لديه ورقة واحدة متبقية',
     mustPlayHigher: 'يجب لعب كومبو أعلى',
     autoPassTimer: 'التمرير التلقائي في',
@@ -2228,6 +2869,10 @@ const ar: Translations = {
     initializingGame: 'جارٍ تهيئة اللعبة...',
     settingUpEngine: 'جارٍ إعداد محرك اللعبة...',
     matchHistoryTitle: 'سجل المباراة {{n}}',
+    targetScoreLabel: 'اللعبة حتى {{n}}',
+    scoreTwosPenalty: '2 +{{n}}',
+    scoreDoubled: '×2',
+    scoreHongKongBonus: 'HK −{{n}}',
     finalScoresTitle: '🏁 النتائج النهائية',
     matchColumn: 'مباراة',
     totalRow: 'المجموع',
@@ -2306,6 +2951,7 @@ const ar: Translations = {
     shareResultsTitle: 'نتائج لعبة بيغ تو',
     playAgain: 'العب مرة أخرى',
     returnToMenu: 'العودة إلى القائمة',
+    watchReplay: 'مشاهدة الإعادة',
     loadingResults: 'جارٍ تحميل النتائج...',
     noScoreHistory: 'لا يوجد سجل نقاط متاح',
     scoresWillAppear: 'ستظهر النقاط هنا عند لعب المباريات',
@@ -2408,13 +3054,67 @@ const ar: Translations = {
     notAllPlayersReady: 'يجب أن يكون جميع اللاعبين (عدا المضيف) مستعدين قبل البدء',
     shareError: 'خطأ في المشاركة',
     shareErrorMessage: 'فشلت مشاركة رمز الغرفة. حاول مرة أخرى.',
-    rankedRequirement: 'تتطلب المباريات المصنفة 4 لاعبين بشريين',
+    rankedRequirement: 'تتطلب المباريات المصنفة {{count}} لاعبين بشريين',
     waitingForMorePlayers: 'في انتظار المزيد من اللاعبين...',
     allReadyToStart: 'الجميع جاهز للبدء!',
     botDifficultyLabel: '🤖 صعوبة الروبوت:',
     easy: 'سهل',
     medium: 'متوسط',
     hard: 'صعب',
+    expert: 'خبير',
+    botPersonalitiesLabel: '🎭 شخصيات البوتات:',
+    botSeat: 'المقعد {{n}}',
+    personalityBalanced: 'متوازن',
+    personalityAggressive: 'هجومي',
+    personalityConservative: 'حذر',
+    personalityBluffing: 'مخادع',
+    botPersonalitiesError: 'فشل تحديث شخصيات البوتات',
+    houseRulesLabel: '📜 قواعد اللعب:',
+    rulePresetStandard: 'قياسي',
+    rulePresetTaiwanese: 'تايواني',
+    rulePresetNoTwosInStraights: 'بدون 2 في المتتاليات',
+    rulePresetCustom: 'مخصص',
+    ruleSuitOrderTaiwanese: 'ترتيب الأشكال ♣ < ♦ < ♥ < ♠',
+    ruleTwosInStraights: 'السماح بالـ 2 في المتتاليات',
+    ruleFlushSuitFirst: 'ترتيب الفلش حسب الشكل أولاً',
+    ruleQuadsNeedKicker: 'الأربعة المتشابهة تحتاج ورقة خامسة',
+    houseRulesError: 'فشل تحديث قواعد اللعب',
+    scoringLabel: '🧮 احتساب النقاط:',
+    scoringTargetScore: 'اللعبة حتى {{n}}',
+    scoringTiersClassic: '1/2/3 لكل ورقة',
+    scoringTiersFlat: '1 لكل ورقة',
+    scoringTiersSteep: '1/2/3/4 لكل ورقة',
+    scoringTiersCustom: 'مستويات مخصصة',
+    scoringTwosPenalty: '+{{n}} لكل 2 لم تُلعب',
+    scoringDoubleNeverPlayed: 'مضاعفة إذا لم يلعب أي ورقة',
+    scoringHongKongBonus: 'مكافأة هونغ كونغ (الفائز −{{n}})',
+    scoringError: 'فشل تحديث احتساب النقاط',
+    spectatorsLabel: '👁 المشاهدون:',
+    spectatorsAllow: 'السماح بالمشاهدين',
+    spectatorsOff: 'غير مسموح',
+    spectatorsHandsHidden: 'الأوراق مخفية',
+    spectatorsOpenHands: 'أوراق مكشوفة بعد {{seconds}} ث',
+    spectatorsError: 'فشل تحديث إعدادات المشاهدين',
+    timersLabel: '⏱ المؤقتات:',
+    timersBlitz: 'سريع',
+    timersStandard: 'عادي',
+    timersRelaxed: 'مريح',
+    timersSummary:
+      'الدور {{turn}} ث · التمرير التلقائي {{autoPass}} ث · إعادة الاتصال {{disconnect}} ث',
+    timersError: 'فشل تحديث المؤقتات',
+    duplicateLabel: '🪞 المكرر:',
+    duplicateCreate: 'مجموعة جديدة ({{n}} طاولات)',
+    duplicateJoin: 'انضمام',
+    duplicateCodePlaceholder: 'رمز المجموعة',
+    duplicateLeave: 'مغادرة المجموعة',
+    duplicateTable: 'الطاولة {{table}} من {{total}} · #{{code}}',
+    duplicateError: 'فشل تحديث مجموعة المكرر',
+    tableLabel: 'الطاولة:',
+    tableSize: '{{n}} لاعبين',
+    dealVariantExtraCard: '17 ورقة لكل لاعب',
+    dealVariantDummy: '13 ورقة + يد وهمية',
+    tableError: 'فشل تغيير الطاولة',
+    tournamentTable: '🏆 {{name}} · الجولة {{round}}، الطاولة {{table}}',
     rankedMatch: '🏆 مباراة مصنفة',
     privateRoom: '🔒 غرفة خاصة',
     confirmLeaveTitle: 'مغادرة الغرفة؟',
@@ -2471,6 +3171,17 @@ const ar: Translations = {
     askFriendForCode: 'اطلب من صديقك رمز الغرفة وأدخله هنا للانضمام إلى لعبته',
     createRoomRateLimited:
       'لقد أنشأت غرفًا كثيرة مؤخرًا. يرجى الانتظار نحو ساعة قبل إنشاء غرفة أخرى.',
+    visibilityLabel: 'من يمكنه الانضمام',
+    privateRoom: '🔒 خاصة',
+    publicRoom: '🌐 عامة',
+    roomTitleLabel: 'اسم الغرفة',
+    roomTitlePlaceholder: 'لعبة مسائية ودية',
+    gameModeLabel: 'نوع اللعب',
+    casual: 'عادي',
+    ranked: 'تصنيفي',
+    turnTimerLabel: 'مؤقت الدور',
+    seconds: '{{seconds}} ث',
+    listingError: 'تم إنشاء الغرفة، لكن تعذر حفظ إعداداتها',
   },
   profile: {
     title: 'الملف الشخصي',
@@ -2533,6 +3244,15 @@ const ar: Translations = {
     casualStats: 'إحصاءات العادي',
     privateStats: 'إحصاءات الخاص',
     rankedStats: 'إحصاءات المصنف',
+    seasons: 'المواسم',
+    currentSeason: 'الموسم الحالي',
+    seasonEnds: '{{name}} · ينتهي {{date}}',
+    pastSeasons: 'المواسم السابقة',
+    noPastSeasons: 'لا توجد مواسم منتهية بعد',
+    seasonGames: '{{count}} مباراة هذا الموسم',
+    seasonReward: '🎁 المكافأة: {{tier}}',
+    seasonNoReward: 'العب {{count}} مباريات في الموسم لتحصل على مكافأته',
+    seasonsLoadError: 'فشل تحميل المواسم',
     peak: 'الذروة',
     lowest: 'الأدنى',
     win: 'فوز',
@@ -2577,6 +3297,16 @@ const ar: Translations = {
     matches: 'مباريات',
     noRankedPlayers: 'لا يوجد لاعبون مصنفون',
     playRankedMatches: 'العب 10+ مباريات تصنيفية للظهور هنا',
+    global: 'عالمي',
+    friends: 'الأصدقاء',
+    headToHead: 'ضدك: {{wins}} فوز – {{losses}} خسارة في {{games}} مباريات',
+    noFriendRankings: 'لا يوجد أصدقاء في التصنيف بعد',
+    addFriendsToRank: 'أضف أصدقاء والعب لترى ترتيبك بينهم',
+    weeklyRecap: 'هذا الأسبوع مع الأصدقاء',
+    recapWithFriends: 'لعبت {{games}} مباريات مع الأصدقاء وفزت في {{wins}}',
+    recapMostActive: 'الأكثر نشاطًا: {{name}} ({{count}} مباريات)',
+    recapMostWins: 'الأكثر فوزًا: {{name}} ({{count}})',
+    recapQuiet: 'لا توجد مباريات بين أصدقائك هذا الأسبوع بعد',
   },
   auth: {
     signIn: 'تسجيل الدخول',
@@ -2622,6 +3352,20 @@ const ar: Translations = {
     friendsCanJoin: 'يمكن للأصدقاء الانضمام إلى مباراتك باستخدام هذا الرمز',
     signInRequired: 'يجب أن تكون مسجلاً للدخول لاستخدام البحث عن مباراة',
     queueExpiresIn: 'تنتهي صلاحية قائمة الانتظار خلال {{count}} ثانية',
+    searchRange: 'البحث عن تقييمات {{min}}–{{max}} · {{regions}}',
+    reachRegion: 'منطقتك',
+    reachNearby: 'المناطق القريبة',
+    reachAny: 'كل المناطق',
+    estimatedWaitSeconds: 'الانتظار المتوقع: ~{{count}} ثانية',
+    estimatedWaitMinutes: 'الانتظار المتوقع: ~{{count}} دقيقة',
+    partyQueued: 'في قائمة الانتظار كفريق من {{count}}',
+    partyInviteSent: 'تمت دعوة أصدقائك — يبدأ البحث عندما ينضم الجميع.',
+    queueWithFriends: 'انتظر مع الأصدقاء',
+    queueWithFriendsHint: 'اختر حتى {{count}} من الأصدقاء. يصلهم إشعار دعوة ويجلسون بجانبك.',
+    noFriendsForParty: 'أضف أصدقاء للعب معاً',
+    tableSizeLabel: 'حجم الطاولة',
+    tableSizeOption: '{{count}} لاعبين',
+    waitingForMore: 'تم العثور على {{count}} لاعب، بانتظار {{more}} آخرين...',
   },
   matchHistory: {
     title: 'سجل المباريات',
@@ -2635,6 +3379,132 @@ const ar: Translations = {
     hoursAgo: 'منذ {{count}} س',
     daysAgo: 'منذ {{count}} ي',
     local: 'محلي',
+    dealVerified: '🔐 تم التحقق من التوزيع مقابل البصمة المنشورة',
+    dealMismatch: '⚠️ بذرة التوزيع المكشوفة لا تطابق البصمة',
+    duplicateCompare: '🪞 مقارنة طاولات المكرر',
+    duplicateTables: 'انتهت {{finished}} من {{total}} طاولات · النقاط مقابل المعدل (الأقل أفضل)',
+    duplicateError: 'تعذر تحميل نتائج المكرر',
+    watchReplay: '🎬 مشاهدة الإعادة',
+    exportGame: '📤 تصدير اللعبة',
+    importGame: 'استيراد سجل لعبة',
+    accuracy: '🎯 دقة {{percent}}٪',
+  },
+  replay: {
+    title: 'الإعادة',
+    match: 'المباراة {{n}}',
+    move: 'الحركة {{current}} / {{total}}',
+    dealt: 'تم توزيع الأوراق',
+    trick: 'الجولة {{n}}',
+    played: '{{name}} لعب {{combo}}',
+    passed: '{{name}} مرر',
+    cardsLeft: '{{count}} ورقة',
+    handsHidden: 'تبقى الأيدي مخفية حتى يتم الكشف عن بذرة التوزيع',
+    speed: 'السرعة',
+    notAvailable: 'لا توجد إعادة متاحة لهذه اللعبة',
+    loadError: 'تعذر تحميل الإعادة',
+    playFromHere: '▶ العب من هنا',
+    analysisSummary: '🎯 دقتك: {{percent}}٪ · {{count}} نقلة مميزة',
+    nextFlagged: 'النقلة المميزة التالية',
+    blunder: '❌ خطأ فادح',
+    mistake: '⚠️ خطأ',
+    oneCardLeft: 'كان لدى اللاعب التالي ورقة واحدة ولم تمنعه هذه النقلة',
+    missedBeat: 'تمرير رغم وجود لعبة آمنة تتفوق',
+    brokeStraight: 'تفكيك سلسلة مبكرًا جدًا',
+    suggestPlay: 'الأفضل: {{cards}}',
+    suggestPass: 'الأفضل: تمرير',
+  },
+  gameRecord: {
+    shareTitle: 'سجل لعبة Big Two',
+    exportError: 'تعذر تصدير هذه اللعبة',
+    notAvailable: 'لا توجد حركات مسجلة لتصديرها في هذه اللعبة',
+    importTitle: 'استيراد لعبة',
+    importHint: 'الصق سجل لعبة تم تصديره من Big Two لمشاهدته أو لمتابعة اللعب من أي موضع.',
+    importPlaceholder: 'سجل اللعبة',
+    paste: 'لصق',
+    import: 'استيراد',
+    invalid: 'سجل لعبة غير صالح: {{error}}',
+  },
+  tutorial: {
+    title: '🎓 تعلّم اللعب',
+    lessonsTab: 'الدروس',
+    puzzlesTab: 'الألغاز',
+    openLessons: '🎓 درس تفاعلي',
+    openPuzzles: '🧩 الألغاز',
+    lessonCount: 'الدرس {{number}} من {{total}}',
+    play: 'العب',
+    pass: 'تمرير',
+    hint: '💡 تلميح',
+    retry: 'حاول مرة أخرى',
+    next: 'التالي',
+    backToList: 'الكل',
+    toBeat: 'للتغلب على',
+    leading: 'أنت تبدأ: العب أي تركيبة',
+    cardsLeft: '{{name}}: {{count}} أوراق',
+    botsMoving: 'الخصوم يلعبون…',
+    notThisMove: 'هذه اللعبة صحيحة، لكن هذا الدرس يطلب شيئًا آخر. حاول مرة أخرى.',
+    goOut: 'تخلّص من كل أوراقك في {{count}} لعبات',
+    stopOneCard: 'لدى {{name}} ورقة واحدة. أنهِ أوراقك قبله.',
+    solved: '🎉 تم الحل!',
+    failed: 'ليس هذه المرة. حاول مرة أخرى!',
+    hintPlay: 'تلميح: العب {{cards}}',
+    hintPass: 'تلميح: مرّر',
+    attempts: '{{count}} محاولات',
+    hintsUsed: '{{count}} تلميحات',
+    explain: {
+      missingOpeningCard: 'يجب أن تتضمن أول لعبة في المباراة الورقة {{card}}.',
+      notACombo:
+        'هذه الأوراق ليست تركيبة. العب ورقة مفردة أو زوجًا أو ثلاثية أو يدًا من خمس أوراق.',
+      wrongCardCount: 'يجب أن ترد بنفس عدد الأوراق: {{count}}.',
+      tooLow: 'الـ {{combo}} الخاصة بك لا تتغلب على الـ {{lastCombo}} الموجودة على الطاولة.',
+      oneCardLeft:
+        'لدى اللاعب التالي ورقة واحدة، لذا يجب أن تكون الورقة المفردة أعلى ورقة لديك: {{card}}.',
+      leading: 'أنت تبدأ، لذا لا يمكنك التمرير.',
+      oneCardLeftPass:
+        'لدى اللاعب التالي ورقة واحدة: لا يمكنك التمرير ما دامت {{card}} تتغلب على الطاولة.',
+    },
+    lessons: {
+      openingCard: {
+        title: 'ورقة البداية',
+        instruction:
+          'الـ 3♦ هي أدنى ورقة. من يملكها يبدأ اللعبة، ويجب أن تتضمنها أول لعبة. العب 3♦.',
+        success: 'بدأت اللعبة. على اللاعب التالي أن يتغلب على 3♦.',
+      },
+      singles: {
+        title: 'التغلب على ورقة مفردة',
+        instruction: 'لُعبت 7♥. تغلّب عليها بورقة أعلى دون إهدار ورقة كبيرة: العب 8♦.',
+        success: 'الرتب من 3 إلى A، والـ 2 هي الأعلى.',
+      },
+      suitOrder: {
+        title: 'ترتيب الأشكال',
+        instruction: 'لُعبت 9♣. عند تساوي الرتبة يحسم الشكل: ♦ < ♣ < ♥ < ♠. تغلّب عليها بورقة 9.',
+        success: 'الـ 9♥ تتغلب على 9♣، أما 9♦ فلا.',
+      },
+      pairs: {
+        title: 'الأزواج',
+        instruction: 'لُعب زوج من 6. رد بزوج أعلى.',
+        success: 'تُقارن الأزواج بالرتبة ثم بأعلى شكل.',
+      },
+      fiveCardHands: {
+        title: 'أيادي الخمس أوراق',
+        instruction: 'لُعب ستريت. الفلاش يتغلب على أي ستريت: العب أوراق القلوب الخمس.',
+        success: 'ترتيب أيادي الخمس أوراق: ستريت < فلاش < فول هاوس < أربعة متشابهة < ستريت فلاش.',
+      },
+      passing: {
+        title: 'التمرير',
+        instruction: 'الـ 2♠ هي أعلى ورقة في اللعبة. لا شيء لديك يتغلب عليها، لذا مرّر.',
+        success: 'عندما يمرر الجميع، يبدأ آخر من لعب الجولة التالية.',
+      },
+      oneCardLeft: {
+        title: 'ورقة واحدة متبقية',
+        instruction: 'لدى خصمك ورقة واحدة. إذا بدأت بورقة مفردة فيجب أن تكون الأعلى. العب K♠.',
+        success: 'لعب أعلى ورقة مفردة يصعّب على الورقة الأخيرة الفوز.',
+      },
+    },
+    puzzles: {
+      takeTheLead: 'استعد زمام المبادرة',
+      oneCardOpponent: 'أوقف الورقة الأخيرة',
+      fullHouseFirst: 'الفول هاوس أولًا',
+    },
   },
   howToPlay: {
     title: 'كيفية اللعب',
@@ -2712,7 +3582,7 @@ const ar: Translations = {
     eloSystemDesc:
       'تصنيف ELO الخاص بك يقيس مستوى مهارتك. يزداد عندما تفوز ويقل عندما تخسر في المباريات المصنفة. المباريات العادية لا تؤثر على ELO الخاص بك.',
     eloFormula:
-      'يتم حساب تغييرات ELO باستخدام صيغة تصنيف الشطرنج مع عامل K = 32. الفوز ضد خصوم ذوي تصنيف أعلى يمنح المزيد من النقاط.',
+      'تستخدم التصنيفات نظام Glicko-2: تُحسب كل مباراة مصنفة فوزاً أو خسارة أمام كل لاعب آخر على الطاولة. يتحرك تصنيف اللاعبين الجدد والعائدين أسرع حتى يستقر. الفوز ضد خصوم ذوي تصنيف أعلى يمنح المزيد من النقاط.',
     rankTiersTitle: 'مستويات الرتب:',
     // Reconnection & Disconnection
     reconnectionTitle: '🔄 إعادة الاتصال والانقطاع',
@@ -2723,6 +3593,69 @@ const ar: Translations = {
     spectatorMode:
       '🔄 إعادة الانضمام واستبدال البوت: يمكنك إعادة الانضمام في أي وقت أثناء المباراة واستعادة يدك من البوت. اضغط على "استبدال البوت وإعادة الانضمام" للاستئناف فوراً.',
   },
+  tournaments: {
+    title: '🏆 البطولات',
+    empty: 'لا توجد بطولات بعد — أنشئ واحدة!',
+    loadError: 'تعذر تحميل البطولة',
+    refresh: 'تحديث',
+    create: 'إنشاء بطولة',
+    namePlaceholder: 'اسم البطولة',
+    formatLabel: 'النظام',
+    formatSwiss: 'سويسري',
+    formatSingleElimination: 'خروج المغلوب',
+    entrantsLabel: 'الحد الأقصى للاعبين',
+    registrationLabel: 'التسجيل مفتوح لمدة',
+    minutes: '{{n}} دقيقة',
+    hours: '{{n}} ساعة',
+    entrants: '{{count}}/{{max}} لاعبين',
+    closes: 'يغلق التسجيل {{time}}',
+    register: 'تسجيل',
+    withdraw: 'انسحاب',
+    statusRegistration: 'التسجيل مفتوح',
+    statusRunning: 'جارية',
+    statusFinished: 'انتهت',
+    statusCancelled: 'ملغاة',
+    round: 'الجولة {{n}}',
+    roundOf: 'الجولة {{n}} من {{total}}',
+    table: 'الطاولة {{n}}',
+    tableWaiting: 'بانتظار اللاعبين',
+    tablePlaying: 'قيد اللعب',
+    tableFinished: 'انتهت',
+    tableForfeited: 'خسارة بالانسحاب',
+    noShow: 'لم يحضر',
+    joinTable: 'انضم إلى طاولتك (الطاولة {{n}})',
+    checkInCloses: 'يغلق الحضور الساعة {{time}}',
+    standings: 'الترتيب',
+    points: '{{n}} نقاط · {{wins}} انتصارات',
+    eliminated: 'خرج في الجولة {{n}}',
+  },
+  spectate: {
+    title: '👁 مشاهدة',
+    loadError: 'لا يمكن مشاهدة هذه المباراة',
+    handsHidden: 'مباشر · الأوراق مخفية عن المشاهدين',
+    openHandsDelay: 'أوراق مكشوفة · متأخرة {{seconds}} ث عن الطاولة',
+    startsSoon: 'تُكشف الأوراق بعد {{seconds}} ث من بدء المباراة',
+    match: 'الجولة {{n}}',
+    played: '{{name}} لعب {{combo}}',
+    newTrick: 'دورة جديدة',
+    toPlay: 'دور {{name}}',
+    gameOver: 'انتهت المباراة — فاز {{name}}',
+    cardsLeft: '{{count}} بطاقات',
+    score: '{{score}} نقطة',
+  },
+  roomBrowser: {
+    title: 'الغرف العامة',
+    loadError: 'تعذر تحميل الغرف',
+    empty: 'لا توجد غرف مفتوحة تطابق هذه الفلاتر. أنشئ واحدة!',
+    myRegion: 'منطقتي',
+    allRegions: 'كل المناطق',
+    anyMode: 'أي نوع',
+    anyRules: 'أي قواعد',
+    untitled: 'غرفة {{host}}',
+    players: '👥 {{count}}/{{max}}',
+    bots: '🤖 {{difficulty}}',
+    join: 'انضمام',
+  },
   friends: {
     title: 'الأصدقاء',
     myFriends: 'أصدقائي',
@@ -2754,6 +3687,8 @@ const ar: Translations = {
     noFriendsToInvite: 'جميع أصدقائك موجودون بالفعل في هذه الغرفة.',
     searchPlaceholder: 'ابحث عن لاعبين باسم المستخدم...',
     clearSearch: 'مسح البحث',
+    watch: 'مشاهدة',
+    watchGame: 'مشاهدة مباراته',
     noResults: 'لم يتم العثور على لاعبين',
   },
   notifications: {
@@ -3053,9 +3988,11 @@ const de: Translations = {
     quickPlay: '⚡ Schnellspiel',
     quickPlayDescription: 'Zufälligem Spiel beitreten',
     createRoom: '➕ Raum erstellen',
-    createRoomDescription: 'Privates Spiel hosten',
+    createRoomDescription: 'Privates oder öffentliches Spiel hosten',
     joinRoom: '🔗 Raum beitreten',
     joinRoomDescription: 'Raumcode eingeben',
+    browseRooms: '🌐 Räume durchsuchen',
+    browseRoomsDescription: 'An einem offenen Tisch mitspielen',
     leaderboard: '🏆 Bestenliste',
     rankedLeaderboard: '🏆 Ranglisten-Bestenliste',
     rankedLeaderboardDescription: 'Die besten Spieler nach ELO-Bewertung sehen',
@@ -3070,6 +4007,8 @@ const de: Translations = {
     rankedMatchDescription: 'Wettbewerbsorientiertes ELO-Match',
     howToPlay: '📖 Wie man spielt',
     howToPlayDescription: 'Spielregeln lernen',
+    tournaments: '🏆 Turniere',
+    tournamentsDescription: 'Schweizer System und K.-o.-Runden',
     roomClosedTitle: 'Raum geschlossen',
     roomClosedMessage: 'Der Raum, in dem Sie sich befanden, wurde vom Gastgeber geschlossen.',
     joinCasualLobby: 'Casual-Lobby beitreten',
@@ -3086,6 +4025,19 @@ const de: Translations = {
     hard: 'Schwer',
     hardDesc:
       'Optimales Spiel mit fortgeschrittenen Kombinationen. Glaubst du, du kannst gewinnen?',
+    expert: 'Experte',
+    expertDesc: 'Zählt Karten, liest deine Passes und plant voraus. Keine Gnade.',
+    tableSizeLabel: 'Spieler',
+    tableSizePlayers: '{{count}} Spieler',
+    dealVariantExtraCard: 'Je 17 Karten',
+    dealVariantExtraCardDesc:
+      'Zu dritt wird das ganze Deck verteilt; der Besitzer der 3♦ bekommt die übrige Karte',
+    dealVariantDummy: 'Blindhand',
+    dealVariantDummyDesc: 'Je 13 Karten; der Rest bleibt verdeckt aus dem Spiel',
+    undoLimitLabel: 'Rücknahmen',
+    undoLimitOff: 'Aus',
+    undoLimitCount: '{{count}} pro Spiel',
+    undoLimitDesc: 'Ein Spiel, in dem du einen Zug zurücknimmst, zählt nicht für deine Statistik',
     chooseGameMode: 'Wähle deinen Spielmodus',
     noGameInProgress: 'Kein laufendes Spiel',
     startNewGameHint: 'Starte ein neues Spiel!',
@@ -3098,6 +4050,10 @@ const de: Translations = {
     cancelSearch: '❌ Suche abbrechen',
     findingRankedMatch: '🔍 Suche nach gerangetem Spiel...',
     offlineMatchSubtitle: 'Match {{match}} · gegen KI',
+    continueGames: 'Weiterspielen',
+    savedGameOpponents: 'gegen {{opponents}}',
+    continueGame: '▶️ Fortsetzen',
+    discardGame: '🗑 Verwerfen',
     botReplacingYou: 'Bot ersetzt dich...',
     beforeBotReplaces: '⏱ {{seconds}}s bevor der Bot dich ersetzt',
     botPlayingForYou: '🤖 Ein Bot spielt für dich',
@@ -3111,6 +4067,8 @@ const de: Translations = {
     pass: 'Passen',
     play: 'Spielen',
     hint: 'Hinweis',
+    undo: 'Rückgängig',
+    undoUnavailable: 'Gerade gibt es keinen Zug, der zurückgenommen werden kann.',
     smart: 'Clever',
     sort: 'Sortieren',
     lastPlayedBy: 'Zuletzt gespielt von',
@@ -3127,6 +4085,7 @@ const de: Translations = {
     invalidCombo: 'Ungültige Kartenkombination',
     cardNotInHand: 'Karte nicht in der Hand',
     firstPlayMustInclude3D: 'Erstes Spiel muss 3♦ enthalten',
+    firstPlayMustIncludeOpeningCard: 'Erstes Spiel muss {{card}} enthalten',
     oneCardLeftMustPlayHighestSingle:
       'Muss die höchste Einzelkarte spielen — Gegner hat noch 1 Karte',
     mustPlayHigher: 'Muss höhere Kombo spielen',
@@ -3149,6 +4108,10 @@ const de: Translations = {
     initializingGame: 'Spiel wird initialisiert...',
     settingUpEngine: 'Spielengine wird eingerichtet...',
     matchHistoryTitle: 'Runde {{n}} Verlauf',
+    targetScoreLabel: 'Spiel bis {{n}}',
+    scoreTwosPenalty: '2er +{{n}}',
+    scoreDoubled: '×2',
+    scoreHongKongBonus: 'HK −{{n}}',
     finalScoresTitle: '🏁 Finale Ergebnisse',
     matchColumn: 'Runde',
     totalRow: 'Gesamt',
@@ -3231,6 +4194,7 @@ const de: Translations = {
     shareResultsTitle: 'Big Two Spielergebnisse',
     playAgain: 'Nochmal spielen',
     returnToMenu: 'Zurück zum Menü',
+    watchReplay: 'Wiederholung ansehen',
     loadingResults: 'Ergebnisse werden geladen...',
     noScoreHistory: 'Kein Punkteverlauf verfügbar',
     scoresWillAppear: 'Punkte erscheinen hier, wenn Matches gespielt werden',
@@ -3336,13 +4300,66 @@ const de: Translations = {
     notAllPlayersReady: 'Alle Nicht-Host-Spieler müssen bereit sein, bevor das Spiel beginnt',
     shareError: 'Fehler beim Teilen',
     shareErrorMessage: 'Raumcode konnte nicht geteilt werden. Bitte erneut versuchen.',
-    rankedRequirement: 'Ranglistenspiele erfordern 4 menschliche Spieler',
+    rankedRequirement: 'Ranglistenspiele erfordern {{count}} menschliche Spieler',
     waitingForMorePlayers: 'Warte auf weitere Spieler...',
     allReadyToStart: 'Alle bereit zum Starten!',
     botDifficultyLabel: '🤖 Bot-Schwierigkeit:',
     easy: 'Einfach',
     medium: 'Mittel',
     hard: 'Schwer',
+    expert: 'Experte',
+    botPersonalitiesLabel: '🎭 Bot-Persönlichkeiten:',
+    botSeat: 'Platz {{n}}',
+    personalityBalanced: 'Ausgewogen',
+    personalityAggressive: 'Aggressiv',
+    personalityConservative: 'Vorsichtig',
+    personalityBluffing: 'Bluffer',
+    botPersonalitiesError: 'Bot-Persönlichkeiten konnten nicht aktualisiert werden',
+    houseRulesLabel: '📜 Hausregeln:',
+    rulePresetStandard: 'Standard',
+    rulePresetTaiwanese: 'Taiwanesisch',
+    rulePresetNoTwosInStraights: 'Keine 2 in Straßen',
+    rulePresetCustom: 'Benutzerdefiniert',
+    ruleSuitOrderTaiwanese: 'Farbreihenfolge ♣ < ♦ < ♥ < ♠',
+    ruleTwosInStraights: '2 in Straßen erlaubt',
+    ruleFlushSuitFirst: 'Flushes zuerst nach Farbe',
+    ruleQuadsNeedKicker: 'Vierling braucht eine Beikarte',
+    houseRulesError: 'Hausregeln konnten nicht aktualisiert werden',
+    scoringLabel: '🧮 Wertung:',
+    scoringTargetScore: 'Spiel bis {{n}}',
+    scoringTiersClassic: '1/2/3 pro Karte',
+    scoringTiersFlat: '1 pro Karte',
+    scoringTiersSteep: '1/2/3/4 pro Karte',
+    scoringTiersCustom: 'Eigene Stufen',
+    scoringTwosPenalty: '+{{n}} pro ungespielter 2',
+    scoringDoubleNeverPlayed: 'Doppelt, wenn nie gespielt',
+    scoringHongKongBonus: 'Hongkong-Bonus (Gewinner −{{n}})',
+    scoringError: 'Wertung konnte nicht aktualisiert werden',
+    spectatorsLabel: '👁 Zuschauer:',
+    spectatorsAllow: 'Zuschauer erlauben',
+    spectatorsOff: 'nicht erlaubt',
+    spectatorsHandsHidden: 'Karten verdeckt',
+    spectatorsOpenHands: 'Offene Karten nach {{seconds}} s',
+    spectatorsError: 'Zuschauer-Einstellungen konnten nicht aktualisiert werden',
+    timersLabel: '⏱ Timer:',
+    timersBlitz: 'Blitz',
+    timersStandard: 'Standard',
+    timersRelaxed: 'Entspannt',
+    timersSummary: 'Zug {{turn}} s · Auto-Pass {{autoPass}} s · Wiederverbinden {{disconnect}} s',
+    timersError: 'Timer konnten nicht aktualisiert werden',
+    duplicateLabel: '🪞 Duplicate:',
+    duplicateCreate: 'Neue Gruppe ({{n}} Tische)',
+    duplicateJoin: 'Beitreten',
+    duplicateCodePlaceholder: 'Gruppencode',
+    duplicateLeave: 'Gruppe verlassen',
+    duplicateTable: 'Tisch {{table}} von {{total}} · #{{code}}',
+    duplicateError: 'Duplicate-Gruppe konnte nicht aktualisiert werden',
+    tableLabel: 'Tisch:',
+    tableSize: '{{n}} Spieler',
+    dealVariantExtraCard: '17 Karten pro Spieler',
+    dealVariantDummy: '13 Karten + Dummy-Hand',
+    tableError: 'Tisch konnte nicht geändert werden',
+    tournamentTable: '🏆 {{name}} · Runde {{round}}, Tisch {{table}}',
     rankedMatch: '🏆 Ranglistenspiel',
     privateRoom: '🔒 Privater Raum',
     confirmLeaveTitle: 'Raum verlassen?',
@@ -3406,6 +4423,18 @@ const de: Translations = {
       'Frage deinen Freund nach dem Raumcode und gib ihn hier ein, um seinem Spiel beizutreten',
     createRoomRateLimited:
       'Du hast in letzter Zeit zu viele Räume erstellt. Bitte warte etwa eine Stunde, bevor du einen weiteren erstellst.',
+    visibilityLabel: 'Wer beitreten kann',
+    privateRoom: '🔒 Privat',
+    publicRoom: '🌐 Öffentlich',
+    roomTitleLabel: 'Raumname',
+    roomTitlePlaceholder: 'Gemütliche Abendrunde',
+    gameModeLabel: 'Spielmodus',
+    casual: 'Locker',
+    ranked: 'Gewertet',
+    turnTimerLabel: 'Zugzeit',
+    seconds: '{{seconds}} s',
+    listingError:
+      'Der Raum wurde erstellt, aber seine Einstellungen konnten nicht gespeichert werden',
   },
   profile: {
     title: 'Profil',
@@ -3468,6 +4497,15 @@ const de: Translations = {
     casualStats: 'Casual-Statistiken',
     privateStats: 'Privatspiel-Statistiken',
     rankedStats: 'Ranglisten-Statistiken',
+    seasons: 'Saisons',
+    currentSeason: 'Aktuelle Saison',
+    seasonEnds: '{{name}} · endet am {{date}}',
+    pastSeasons: 'Vergangene Saisons',
+    noPastSeasons: 'Noch keine abgeschlossenen Saisons',
+    seasonGames: '{{count}} Spiele in dieser Saison',
+    seasonReward: '🎁 Belohnung: {{tier}}',
+    seasonNoReward: 'Spiele {{count}} Spiele in einer Saison, um ihre Belohnung zu erhalten',
+    seasonsLoadError: 'Saisons konnten nicht geladen werden',
     peak: 'Höchstwert',
     lowest: 'Tiefstwert',
     win: 'Sieg',
@@ -3512,6 +4550,16 @@ const de: Translations = {
     matches: 'Spiele',
     noRankedPlayers: 'Keine Ranglisten-Spieler',
     playRankedMatches: 'Spiele 10+ Ranglistenspiele, um hier zu erscheinen',
+    global: 'Global',
+    friends: 'Freunde',
+    headToHead: 'gegen dich: {{wins}}S – {{losses}}N in {{games}} Spielen',
+    noFriendRankings: 'Noch keine Freunde in der Rangliste',
+    addFriendsToRank: 'Füge Freunde hinzu und spiele, um dich mit ihnen zu vergleichen',
+    weeklyRecap: 'Diese Woche mit Freunden',
+    recapWithFriends: 'Du hast {{games}} Spiele mit Freunden gespielt und {{wins}} gewonnen',
+    recapMostActive: 'Am aktivsten: {{name}} ({{count}} Spiele)',
+    recapMostWins: 'Die meisten Siege: {{name}} ({{count}})',
+    recapQuiet: 'Diese Woche gab es in deinem Freundeskreis noch keine Spiele',
   },
   auth: {
     signIn: 'Anmelden',
@@ -3559,6 +4607,22 @@ const de: Translations = {
     friendsCanJoin: 'Freunde können deinem Spiel mit diesem Code beitreten',
     signInRequired: 'Sie müssen angemeldet sein, um die Spielsuche zu nutzen',
     queueExpiresIn: 'Warteschlange läuft ab in {{count}}s',
+    searchRange: 'Suche Wertungen {{min}}–{{max}} · {{regions}}',
+    reachRegion: 'deine Region',
+    reachNearby: 'nahe Regionen',
+    reachAny: 'alle Regionen',
+    estimatedWaitSeconds: 'Geschätzte Wartezeit: ~{{count}}s',
+    estimatedWaitMinutes: 'Geschätzte Wartezeit: ~{{count}} Min.',
+    partyQueued: 'In der Warteschlange als Gruppe mit {{count}}',
+    partyInviteSent:
+      'Deine Freunde wurden eingeladen – die Suche beginnt, sobald alle beigetreten sind.',
+    queueWithFriends: 'Mit Freunden anstellen',
+    queueWithFriendsHint:
+      'Wähle bis zu {{count}} Freunde. Sie werden eingeladen und sitzen neben dir.',
+    noFriendsForParty: 'Füge Freunde hinzu, um gemeinsam zu spielen',
+    tableSizeLabel: 'Tischgröße',
+    tableSizeOption: '{{count}} Spieler',
+    waitingForMore: '{{count}} Spieler gefunden, warte auf {{more}} weitere...',
   },
   matchHistory: {
     title: 'Spielverlauf',
@@ -3572,6 +4636,140 @@ const de: Translations = {
     hoursAgo: 'vor {{count}} Std.',
     daysAgo: 'vor {{count}} T.',
     local: 'Lokal',
+    dealVerified: '🔐 Verteilung mit dem veröffentlichten Hash geprüft',
+    dealMismatch: '⚠️ Aufgedeckter Seed passt nicht zum Hash',
+    duplicateCompare: '🪞 Duplicate-Tische vergleichen',
+    duplicateTables:
+      '{{finished}} von {{total}} Tischen fertig · Punkte gegen Par (weniger ist besser)',
+    duplicateError: 'Duplicate-Ergebnisse konnten nicht geladen werden',
+    watchReplay: '🎬 Wiederholung ansehen',
+    exportGame: '📤 Spiel exportieren',
+    importGame: 'Spielprotokoll importieren',
+    accuracy: '🎯 {{percent}} % Genauigkeit',
+  },
+  replay: {
+    title: 'Wiederholung',
+    match: 'Runde {{n}}',
+    move: 'Zug {{current}} / {{total}}',
+    dealt: 'Karten ausgeteilt',
+    trick: 'Stich {{n}}',
+    played: '{{name}} spielt {{combo}}',
+    passed: '{{name}} passt',
+    cardsLeft: '{{count}} Karten',
+    handsHidden: 'Die Hände bleiben verdeckt, bis der Seed der Verteilung aufgedeckt ist',
+    speed: 'Tempo',
+    notAvailable: 'Für dieses Spiel ist keine Wiederholung verfügbar',
+    loadError: 'Die Wiederholung konnte nicht geladen werden',
+    playFromHere: '▶ Ab hier spielen',
+    analysisSummary: '🎯 Deine Genauigkeit: {{percent}} % · {{count}} markiert',
+    nextFlagged: 'Nächster markierter Zug',
+    blunder: '❌ Grober Fehler',
+    mistake: '⚠️ Fehler',
+    oneCardLeft: 'Der nächste Spieler hatte nur noch eine Karte und wurde nicht aufgehalten',
+    missedBeat: 'Gepasst, obwohl ein sicherer Stich möglich war',
+    brokeStraight: 'Straße zu früh aufgelöst',
+    suggestPlay: 'Stärker: {{cards}}',
+    suggestPass: 'Stärker: passen',
+  },
+  gameRecord: {
+    shareTitle: 'Big Two Spielprotokoll',
+    exportError: 'Dieses Spiel konnte nicht exportiert werden',
+    notAvailable: 'Für dieses Spiel sind keine Züge zum Exportieren gespeichert',
+    importTitle: 'Spiel importieren',
+    importHint:
+      'Füge ein aus Big Two exportiertes Spielprotokoll ein, um es anzusehen oder ab einer beliebigen Stellung weiterzuspielen.',
+    importPlaceholder: 'Spielprotokoll',
+    paste: 'Einfügen',
+    import: 'Importieren',
+    invalid: 'Ungültiges Spielprotokoll: {{error}}',
+  },
+  tutorial: {
+    title: '🎓 Spielen lernen',
+    lessonsTab: 'Lektionen',
+    puzzlesTab: 'Rätsel',
+    openLessons: '🎓 Interaktives Tutorial',
+    openPuzzles: '🧩 Rätsel',
+    lessonCount: 'Lektion {{number}} von {{total}}',
+    play: 'Spielen',
+    pass: 'Passen',
+    hint: '💡 Tipp',
+    retry: 'Nochmal',
+    next: 'Weiter',
+    backToList: 'Alle',
+    toBeat: 'Zu schlagen',
+    leading: 'Du spielst aus: jede Kombination ist erlaubt',
+    cardsLeft: '{{name}}: {{count}} Karten',
+    botsMoving: 'Die Gegner spielen…',
+    notThisMove:
+      'Dieser Zug ist erlaubt, aber diese Lektion verlangt etwas anderes. Versuch es nochmal.',
+    goOut: 'Spiele alle Karten in {{count}} Zügen aus',
+    stopOneCard: '{{name}} hat nur noch eine Karte. Werde deine Karten vorher los.',
+    solved: '🎉 Gelöst!',
+    failed: 'Diesmal nicht. Versuch es nochmal!',
+    hintPlay: 'Tipp: spiele {{cards}}',
+    hintPass: 'Tipp: passen',
+    attempts: '{{count}} Versuche',
+    hintsUsed: '{{count}} Tipps',
+    explain: {
+      missingOpeningCard: 'Der erste Zug des Spiels muss die {{card}} enthalten.',
+      notACombo:
+        'Diese Karten sind keine Kombination. Spiele eine Einzelkarte, ein Paar, einen Drilling oder eine Fünf-Karten-Hand.',
+      wrongCardCount: 'Du musst mit gleich vielen Karten antworten: {{count}}.',
+      tooLow: 'Dein {{combo}} schlägt das {{lastCombo}} auf dem Tisch nicht.',
+      oneCardLeft:
+        'Der nächste Spieler hat nur noch eine Karte, also muss eine Einzelkarte deine höchste sein: die {{card}}.',
+      leading: 'Du spielst aus, also kannst du nicht passen.',
+      oneCardLeftPass:
+        'Der nächste Spieler hat nur noch eine Karte: du kannst nicht passen, solange deine {{card}} den Tisch schlägt.',
+    },
+    lessons: {
+      openingCard: {
+        title: 'Die Startkarte',
+        instruction:
+          'Die 3♦ ist die niedrigste Karte. Wer sie hat, beginnt, und der erste Zug muss sie enthalten. Spiele die 3♦.',
+        success: 'Das Spiel läuft. Der nächste Spieler muss deine 3♦ schlagen.',
+      },
+      singles: {
+        title: 'Einzelkarten schlagen',
+        instruction:
+          'Die 7♥ liegt. Schlage sie mit einer höheren Einzelkarte, aber verschwende keine hohe Karte: spiele die 8♦.',
+        success: 'Die Ränge gehen von 3 bis A, und die 2 ist die höchste Karte.',
+      },
+      suitOrder: {
+        title: 'Farbreihenfolge',
+        instruction:
+          'Die 9♣ liegt. Bei gleichem Rang entscheidet die Farbe: ♦ < ♣ < ♥ < ♠. Schlage sie mit einer 9.',
+        success: 'Die 9♥ schlägt die 9♣, die 9♦ dagegen nicht.',
+      },
+      pairs: {
+        title: 'Paare',
+        instruction: 'Ein Paar 6er liegt. Antworte mit einem höheren Paar.',
+        success: 'Paare werden nach Rang verglichen, dann nach ihrer höchsten Farbe.',
+      },
+      fiveCardHands: {
+        title: 'Fünf-Karten-Hände',
+        instruction: 'Eine Straße liegt. Ein Flush schlägt jede Straße: spiele deine fünf Herzen.',
+        success: 'Fünf-Karten-Hände: Straße < Flush < Full House < Vierling < Straight Flush.',
+      },
+      passing: {
+        title: 'Passen',
+        instruction:
+          'Die 2♠ ist die höchste Karte im Spiel. Nichts auf deiner Hand schlägt sie, also passe.',
+        success:
+          'Wenn alle anderen passen, spielt der Letzte, der gespielt hat, den nächsten Stich aus.',
+      },
+      oneCardLeft: {
+        title: 'Eine Karte übrig',
+        instruction:
+          'Dein Gegner hat nur noch eine Karte. Spielst du eine Einzelkarte aus, muss es deine höchste sein. Spiele die K♠.',
+        success: 'Mit deiner höchsten Einzelkarte hat die letzte Karte kaum eine Chance.',
+      },
+    },
+    puzzles: {
+      takeTheLead: 'Übernimm die Führung',
+      oneCardOpponent: 'Stoppe die letzte Karte',
+      fullHouseFirst: 'Erst das Full House',
+    },
   },
   howToPlay: {
     title: 'Spielanleitung',
@@ -3654,7 +4852,7 @@ const de: Translations = {
     eloSystemDesc:
       'Deine ELO-Bewertung misst dein Fähigkeitsniveau. Sie steigt, wenn du gewinnst, und sinkt, wenn du in gewerteten Spielen verlierst. Casual-Spiele beeinflussen deine ELO nicht.',
     eloFormula:
-      'ELO-Änderungen werden mit der Schachbewertungsformel mit K-Faktor=32 berechnet. Gewinnen gegen höher bewertete Gegner gibt mehr Punkte.',
+      'Wertungen nutzen das Glicko-2-System: Jedes Ranglistenspiel zählt als Sieg oder Niederlage gegen jeden anderen Spieler am Tisch. Neue und zurückkehrende Spieler bewegen sich schneller, bis sich ihre Wertung eingependelt hat. Gewinnen gegen höher bewertete Gegner gibt mehr Punkte.',
     rankTiersTitle: 'Rangstufen:',
     // Reconnection & Disconnection
     reconnectionTitle: '🔄 Wiederverbindung & Trennung',
@@ -3667,6 +4865,69 @@ const de: Translations = {
     spectatorMode:
       '🔄 Wieder beitreten & Bot ersetzen: Du kannst jederzeit während des Spiels wieder beitreten und deine Hand vom Bot übernehmen. Tippe auf "Bot ersetzen & beitreten", um sofort weiterzuspielen.',
   },
+  tournaments: {
+    title: '🏆 Turniere',
+    empty: 'Noch keine Turniere — erstelle eins!',
+    loadError: 'Turnier konnte nicht geladen werden',
+    refresh: 'Aktualisieren',
+    create: 'Turnier erstellen',
+    namePlaceholder: 'Turniername',
+    formatLabel: 'Modus',
+    formatSwiss: 'Schweizer System',
+    formatSingleElimination: 'K.-o.-System',
+    entrantsLabel: 'Max. Spieler',
+    registrationLabel: 'Anmeldung offen für',
+    minutes: '{{n}} Min.',
+    hours: '{{n}} Std.',
+    entrants: '{{count}}/{{max}} Spieler',
+    closes: 'Anmeldeschluss {{time}}',
+    register: 'Anmelden',
+    withdraw: 'Abmelden',
+    statusRegistration: 'Anmeldung offen',
+    statusRunning: 'Läuft',
+    statusFinished: 'Beendet',
+    statusCancelled: 'Abgesagt',
+    round: 'Runde {{n}}',
+    roundOf: 'Runde {{n}} von {{total}}',
+    table: 'Tisch {{n}}',
+    tableWaiting: 'Wartet auf Spieler',
+    tablePlaying: 'Wird gespielt',
+    tableFinished: 'Beendet',
+    tableForfeited: 'Kampflos gewertet',
+    noShow: 'nicht erschienen',
+    joinTable: 'Zu deinem Tisch (Tisch {{n}})',
+    checkInCloses: 'Check-in endet um {{time}}',
+    standings: 'Tabelle',
+    points: '{{n}} Pkt. · {{wins}} Siege',
+    eliminated: 'Ausgeschieden in Runde {{n}}',
+  },
+  spectate: {
+    title: '👁 Zuschauen',
+    loadError: 'Dieses Spiel kann nicht angesehen werden',
+    handsHidden: 'Live · Karten sind für Zuschauer verdeckt',
+    openHandsDelay: 'Offene Karten · {{seconds}} s hinter dem Tisch',
+    startsSoon: 'Offene Karten ab {{seconds}} s nach Spielbeginn',
+    match: 'Runde {{n}}',
+    played: '{{name}} spielte {{combo}}',
+    newTrick: 'Neuer Stich',
+    toPlay: '{{name}} ist am Zug',
+    gameOver: 'Spiel vorbei — {{name}} gewinnt',
+    cardsLeft: '{{count}} Karten',
+    score: '{{score}} Pkt.',
+  },
+  roomBrowser: {
+    title: 'Öffentliche Räume',
+    loadError: 'Räume konnten nicht geladen werden',
+    empty: 'Keine offenen Räume für diese Filter. Erstelle einen!',
+    myRegion: 'Meine Region',
+    allRegions: 'Alle Regionen',
+    anyMode: 'Jeder Modus',
+    anyRules: 'Alle Regeln',
+    untitled: 'Raum von {{host}}',
+    players: '👥 {{count}}/{{max}}',
+    bots: '🤖 {{difficulty}}',
+    join: 'Beitreten',
+  },
   friends: {
     title: 'Freunde',
     myFriends: 'Meine Freunde',
@@ -3699,6 +4960,8 @@ const de: Translations = {
     noFriendsToInvite: 'Alle deine Freunde befinden sich bereits in diesem Raum.',
     searchPlaceholder: 'Spieler nach Benutzernamen suchen...',
     clearSearch: 'Suche löschen',
+    watch: 'Zuschauen',
+    watchGame: 'Spiel ansehen',
     noResults: 'Keine Spieler gefunden',
   },
   notifications: {
@@ -3,6 +3,10 @@ import { View, ActivityIndicator, StyleSheet, Linking, AppState } from 'react-na
 import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import type { LinkingOptions } from '@react-navigation/native';
+import type { RuleSet, RuleSetPresetId } from '../game/engine/rule-set';
+import type { ScoringConfig } from '../game/engine/scoring-config';
+import type { GameRecord, GameRecordPosition } from '../game/engine/game-record';
+import type { DealVariant } from '../game/engine/seeded-deal';
 import { GlobalErrorBoundary } from '../components/GlobalErrorBoundary';
 import { useAuth } from '../contexts/AuthContext';
 import { NotificationProvider } from '../contexts/NotificationContext';
@@ -22,9 +26,15 @@ import MatchTypeSelectionScreen from '../screens/MatchTypeSelectionScreen';
 import NotificationSettingsScreen from '../screens/NotificationSettingsScreen';
 import NotificationsScreen from '../screens/NotificationsScreen';
 import ProfileScreen from '../screens/ProfileScreen';
+import ReplayScreen from '../screens/ReplayScreen';
+import RoomBrowserScreen from '../screens/RoomBrowserScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import SignInScreen from '../screens/SignInScreen';
+import SpectateScreen from '../screens/SpectateScreen';
 import StatsScreen from '../screens/StatsScreen';
+import TournamentScreen from '../screens/TournamentScreen';
+import TournamentsScreen from '../screens/TournamentsScreen';
+import TutorialScreen from '../screens/TutorialScreen';
 import { authLogger } from '../utils/logger';
 
 export type RootStackParamList = {
@@ -34,17 +44,50 @@ export type RootStackParamList = {
   Profile: undefined;
   CreateRoom: undefined;
   JoinRoom: undefined;
+  RoomBrowser: undefined;
   MatchTypeSelection: undefined;
-  Matchmaking: { matchType?: 'casual' | 'ranked' };
+  Matchmaking: {
+    matchType?: 'casual' | 'ranked';
+    /** Party leader: friends to queue with */
+    partyMemberIds?: string[];
+    /** Party member: the party to join, from the leader's invite */
+    partyId?: string;
+    /** Players at the table to queue for (2–4; a party member takes the leader's) */
+    tableSize?: number;
+  };
   Lobby: { roomCode: string; joining?: boolean };
-  Game: { roomCode: string; forceNewGame?: boolean; botDifficulty?: 'easy' | 'medium' | 'hard' };
+  Game: {
+    roomCode: string;
+    forceNewGame?: boolean;
+    /** Save slot of a local game to continue; a new local game gets a slot of its own */
+    saveSlot?: string;
+    botDifficulty?: 'easy' | 'medium' | 'hard' | 'expert';
+    /** House rules for a new local game (multiplayer rooms read rooms.settings.rule_set) */
+    ruleSet?: RuleSet | RuleSetPresetId;
+    /** Scoring config for a new local game (multiplayer rooms read rooms.settings.scoring) */
+    scoring?: Partial<ScoringConfig>;
+    /** Game record position a new local game plays on from (puzzles) */
+    startPosition?: GameRecordPosition;
+    /** Players at a new local game's table, 2 to 4 (4 when omitted) */
+    playerCount?: number;
+    /** How a new local game of two or three is dealt */
+    dealVariant?: DealVariant;
+    /** Take-backs allowed in a new local game (none when omitted) */
+    undoLimit?: number;
+  };
   Leaderboard: undefined;
   MatchHistory: undefined;
+  /** A game_history row (by id or room), an imported game record, or the last finished local game when omitted */
+  Replay: { gameHistoryId?: string; roomId?: string; record?: GameRecord } | undefined;
   Stats: { userId?: string };
   Notifications: undefined;
   NotificationSettings: undefined;
   Settings: undefined;
   HowToPlay: undefined;
+  Tutorial: { mode?: 'lessons' | 'puzzles' } | undefined;
+  Tournaments: undefined;
+  Tournament: { tournamentId: string };
+  Spectate: { roomCode: string };
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -82,9 +125,12 @@ const linking: LinkingOptions<RootStackParamList> = {
       },
       Game: 'game/:roomCode',
       JoinRoom: 'join',
+      RoomBrowser: 'rooms',
       Home: 'home',
       Profile: 'profile',
       Leaderboard: 'leaderboard',
+      Tournament: 'tournament/:tournamentId',
+      Spectate: 'spectate/:roomCode',
     },
   },
   async getInitialURL() {
@@ -293,6 +339,7 @@ export default function AppNavigator() {
                   <Stack.Screen name="Profile" component={ProfileScreen} />
                   <Stack.Screen name="CreateRoom" component={CreateRoomScreen} />
                   <Stack.Screen name="JoinRoom" component={JoinRoomScreen} />
+                  <Stack.Screen name="RoomBrowser" component={RoomBrowserScreen} />
                   <Stack.Screen name="MatchTypeSelection" component={MatchTypeSelectionScreen} />
                   <Stack.Screen
                     name="Matchmaking"
@@ -311,6 +358,10 @@ export default function AppNavigator() {
                   />
                   <Stack.Screen name="Leaderboard" component={LeaderboardScreen} />
                   <Stack.Screen name="MatchHistory" component={MatchHistoryScreen} />
+                  <Stack.Screen name="Replay" component={ReplayScreen} />
+                  <Stack.Screen name="Tournaments" component={TournamentsScreen} />
+                  <Stack.Screen name="Tournament" component={TournamentScreen} />
+                  <Stack.Screen name="Spectate" component={SpectateScreen} />
                   <Stack.Screen name="Stats" component={StatsScreen} />
                   <Stack.Screen
                     name="NotificationSettings"
@@ -319,6 +370,7 @@ export default function AppNavigator() {
                   <Stack.Screen name="Settings" component={SettingsScreen} />
                   <Stack.Screen name="Notifications" component={NotificationsScreen} />
                   <Stack.Screen name="HowToPlay" component={HowToPlayScreen} />
+                  <Stack.Screen name="Tutorial" component={TutorialScreen} />
                 </>
               )}
             </Stack.Navigator>
@@ -1,10 +1,27 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  TextInput,
+} from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { COLORS, SPACING, FONT_SIZES } from '../constants';
 import { useAuth } from '../contexts/AuthContext';
+import {
+  DEFAULT_ROOM_LISTING_SETTINGS,
+  MAX_ROOM_TITLE_LENGTH,
+  ROOM_TURN_TIMER_OPTIONS,
+  RULE_SET_PRESETS,
+  normalizeRoomTitle,
+  type RoomBotDifficulty,
+  type RuleSetPresetId,
+} from '../game/engine';
 import { i18n } from '../i18n';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { supabase } from '../services/supabase';
@@ -16,10 +33,66 @@ import { trackEvent } from '../services/analytics';
 
 type CreateRoomNavigationProp = StackNavigationProp<RootStackParamList, 'CreateRoom'>;
 
+const BOT_DIFFICULTIES: readonly RoomBotDifficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+const RULE_PRESET_LABEL_KEYS: Record<RuleSetPresetId, string> = {
+  standard: 'lobby.rulePresetStandard',
+  taiwanese: 'lobby.rulePresetTaiwanese',
+  'no-twos-in-straights': 'lobby.rulePresetNoTwosInStraights',
+};
+
 export default function CreateRoomScreen() {
   const navigation = useNavigation<CreateRoomNavigationProp>();
   const { user, profile } = useAuth();
   const [isCreating, setIsCreating] = useState(false);
+  const [isPublic, setIsPublic] = useState(false);
+  const [title, setTitle] = useState('');
+  const [isRanked, setIsRanked] = useState(false);
+  const [botDifficulty, setBotDifficulty] = useState<RoomBotDifficulty>(
+    DEFAULT_ROOM_LISTING_SETTINGS.botDifficulty
+  );
+  const [turnTimerSeconds, setTurnTimerSeconds] = useState(
+    DEFAULT_ROOM_LISTING_SETTINGS.turnTimerSeconds
+  );
+  const [rulePreset, setRulePreset] = useState<RuleSetPresetId>('standard');
+
+  // Ranked rooms always play the standard rules
+  const isRankedRoom = isPublic && isRanked;
+
+  /**
+   * Store the host's choices on the new room. The room is usable without
+   * them (the lobby falls back to the defaults), so a failure is reported
+   * but does not undo the room.
+   */
+  const saveRoomSettings = async (roomId: string) => {
+    try {
+      const { error: listingError } = await supabase.rpc('set_room_listing', {
+        p_room_id: roomId,
+        p_title: isPublic ? normalizeRoomTitle(title) : null,
+        p_bot_difficulty: botDifficulty,
+        p_turn_timer_seconds: turnTimerSeconds,
+      });
+      if (listingError) throw listingError;
+
+      if (!isRankedRoom && rulePreset !== 'standard') {
+        const ruleSet = RULE_SET_PRESETS[rulePreset];
+        const { error: ruleSetError } = await supabase.rpc('set_room_rule_set', {
+          p_room_id: roomId,
+          p_rule_set: {
+            preset: ruleSet.preset,
+            suitOrder: [...ruleSet.suitOrder],
+            twosInStraights: ruleSet.twosInStraights,
+            flushRanking: ruleSet.flushRanking,
+            fourOfAKindNeedsKicker: ruleSet.fourOfAKindNeedsKicker,
+          },
+        });
+        if (ruleSetError) throw ruleSetError;
+      }
+    } catch (error: unknown) {
+      roomLogger.error('⚠️ [CreateRoom] Failed to save room settings:', extractErrorMessage(error));
+      showError(i18n.t('room.listingError'));
+    }
+  };
 
   const handleCreateRoom = async () => {
     if (!user) {
@@ -183,9 +256,9 @@ export default function CreateRoomScreen() {
       const { data: roomResult, error: createError } = await supabase.rpc('get_or_create_room', {
         p_user_id: user.id,
         p_username: username,
-        p_is_public: false, // PRIVATE room for Create Room
+        p_is_public: isPublic, // Public rooms are listed in the room browser
         p_is_matchmaking: false,
-        p_ranked_mode: false,
+        p_ranked_mode: isRankedRoom,
       });
 
       if (createError) {
@@ -201,7 +274,9 @@ export default function CreateRoomScreen() {
 
       roomLogger.info('✅ Room created and joined successfully:', result.room_code);
 
-      trackEvent('room_join_method', { method: 'create_private' });
+      await saveRoomSettings(result.room_id);
+
+      trackEvent('room_join_method', { method: isPublic ? 'create_public' : 'create_private' });
 
       // Navigate to lobby
       navigation.replace('Lobby', { roomCode: result.room_code });
@@ -229,7 +304,7 @@ export default function CreateRoomScreen() {
         </TouchableOpacity>
       </View>
 
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
         <Text style={styles.title}>{i18n.t('room.createTitle')}</Text>
         <Text style={styles.subtitle}>{i18n.t('room.createSubtitle')}</Text>
 
@@ -240,6 +315,103 @@ export default function CreateRoomScreen() {
           <Text style={styles.infoText}>⚙️ {i18n.t('room.customizeSettings')}</Text>
         </View>
 
+        <View style={styles.settings}>
+          <Text style={styles.settingLabel}>{i18n.t('room.visibilityLabel')}</Text>
+          <View style={styles.chipRow}>
+            {[false, true].map(option => (
+              <TouchableOpacity
+                key={String(option)}
+                style={[styles.chip, isPublic === option && styles.chipActive]}
+                onPress={() => setIsPublic(option)}
+                disabled={isCreating}
+                testID={option ? 'create-room-public' : 'create-room-private'}
+              >
+                <Text style={styles.chipText}>
+                  {i18n.t(option ? 'room.publicRoom' : 'room.privateRoom')}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {isPublic && (
+            <>
+              <Text style={styles.settingLabel}>{i18n.t('room.roomTitleLabel')}</Text>
+              <TextInput
+                style={styles.input}
+                value={title}
+                onChangeText={setTitle}
+                placeholder={i18n.t('room.roomTitlePlaceholder')}
+                placeholderTextColor={COLORS.gray.medium}
+                maxLength={MAX_ROOM_TITLE_LENGTH}
+                editable={!isCreating}
+                testID="create-room-title-input"
+              />
+
+              <Text style={styles.settingLabel}>{i18n.t('room.gameModeLabel')}</Text>
+              <View style={styles.chipRow}>
+                {[false, true].map(option => (
+                  <TouchableOpacity
+                    key={String(option)}
+                    style={[styles.chip, isRanked === option && styles.chipActive]}
+                    onPress={() => setIsRanked(option)}
+                    disabled={isCreating}
+                  >
+                    <Text style={styles.chipText}>
+                      {i18n.t(option ? 'room.ranked' : 'room.casual')}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.settingLabel}>{i18n.t('lobby.botDifficultyLabel')}</Text>
+          <View style={styles.chipRow}>
+            {BOT_DIFFICULTIES.map(level => (
+              <TouchableOpacity
+                key={level}
+                style={[styles.chip, botDifficulty === level && styles.chipActive]}
+                onPress={() => setBotDifficulty(level)}
+                disabled={isCreating}
+              >
+                <Text style={styles.chipText}>{i18n.t(`lobby.${level}`)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.settingLabel}>{i18n.t('room.turnTimerLabel')}</Text>
+          <View style={styles.chipRow}>
+            {ROOM_TURN_TIMER_OPTIONS.map(seconds => (
+              <TouchableOpacity
+                key={seconds}
+                style={[styles.chip, turnTimerSeconds === seconds && styles.chipActive]}
+                onPress={() => setTurnTimerSeconds(seconds)}
+                disabled={isCreating}
+              >
+                <Text style={styles.chipText}>{i18n.t('room.seconds', { seconds })}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {!isRankedRoom && (
+            <>
+              <Text style={styles.settingLabel}>{i18n.t('lobby.houseRulesLabel')}</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(RULE_PRESET_LABEL_KEYS) as RuleSetPresetId[]).map(preset => (
+                  <TouchableOpacity
+                    key={preset}
+                    style={[styles.chip, rulePreset === preset && styles.chipActive]}
+                    onPress={() => setRulePreset(preset)}
+                    disabled={isCreating}
+                  >
+                    <Text style={styles.chipText}>{i18n.t(RULE_PRESET_LABEL_KEYS[preset])}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+
         <TouchableOpacity
           testID="create-room-submit-button"
           style={[styles.createButton, isCreating && styles.buttonDisabled]}
@@ -252,7 +424,7 @@ export default function CreateRoomScreen() {
             <Text style={styles.createButtonText}>{i18n.t('room.createButton')}</Text>
           )}
         </TouchableOpacity>
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -275,7 +447,7 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.md,
   },
   content: {
-    flex: 1,
+    flexGrow: 1,
     alignItems: 'center',
     justifyContent: 'center',
     padding: SPACING.lg,
@@ -305,6 +477,45 @@ const styles = StyleSheet.create({
     color: COLORS.white,
     marginBottom: SPACING.sm,
   },
+  settings: {
+    alignSelf: 'stretch',
+    marginBottom: SPACING.xl,
+  },
+  settingLabel: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.gray.medium,
+    marginTop: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(59, 130, 246, 0.3)',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  input: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+  },
   createButton: {
     backgroundColor: '#3B82F6',
     paddingHorizontal: 48,
@@ -8,12 +8,13 @@
  *   ├── MultiplayerGame.tsx – all multiplayer hooks + renders GameView
  *   └── GameView.tsx        – shared presentation (portrait, landscape, modals)
  */
-import React from 'react';
+import React, { useState } from 'react';
 import { useRoute, RouteProp } from '@react-navigation/native';
 import { GameEndProvider } from '../contexts/GameEndContext';
 import { ScoreboardProvider } from '../contexts/ScoreboardContext';
 import { GameErrorBoundary } from '../components/game/GameErrorBoundary';
 import type { RootStackParamList } from '../navigation/AppNavigator';
+import { createSaveSlotId } from '../game/save-slots';
 import { LocalAIGame } from './LocalAIGame';
 import { MultiplayerGame } from './MultiplayerGame';
 
@@ -23,16 +24,20 @@ type GameScreenRouteProp = RouteProp<RootStackParamList, 'Game'>;
 // writes score/play history to AsyncStorage in local-AI games.  Multiplayer
 // games use the DB (game_state.scores_history / play_history) as the single
 // source of truth to avoid stale-data race conditions on rejoin.
+// A local game opened without a save slot (Continue passes one) is a new
+// game in a slot of its own.
 export default function GameScreen() {
   const route = useRoute<GameScreenRouteProp>();
   const { roomCode } = route.params;
   const isLocalAIGame = roomCode === 'LOCAL_AI_GAME';
+  const [newSaveSlot] = useState(createSaveSlotId);
+  const saveSlot = route.params.saveSlot ?? newSaveSlot;
 
   return (
     <GameEndProvider>
-      <ScoreboardProvider enableLocalPersistence={isLocalAIGame}>
+      <ScoreboardProvider enableLocalPersistence={isLocalAIGame} saveSlot={saveSlot}>
         <GameErrorBoundary>
-          {isLocalAIGame ? <LocalAIGame /> : <MultiplayerGame />}
+          {isLocalAIGame ? <LocalAIGame saveSlot={saveSlot} /> : <MultiplayerGame />}
         </GameErrorBoundary>
       </ScoreboardProvider>
     </GameEndProvider>
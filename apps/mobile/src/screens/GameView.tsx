@@ -107,6 +107,8 @@ function GameViewComponent() {
     effectiveScoreboardCurrentPlayerIndex,
     displayOrderScoreHistory,
     playHistoryByMatch,
+    targetScore,
+    roomTimers,
     handlePlayCards,
     handlePass,
     handlePlaySuccess,
@@ -117,6 +119,8 @@ function GameViewComponent() {
     handleSort,
     handleSmartSort,
     handleHint,
+    handleUndo,
+    undoStatus,
     gameManagerRef,
     isMountedRef,
     // Task #651 / #649 video + voice chat
@@ -377,6 +381,7 @@ function GameViewComponent() {
             originalPlayerNames={memoizedOriginalPlayerNames}
             autoPassTimerState={effectiveAutoPassTimerState}
             totalScores={playerTotalScores}
+            targetScore={targetScore}
             disconnectedPlayers={layoutPlayersWithScores.map(p => p.isDisconnected ?? false)}
             disconnectTimerStartedAts={layoutPlayersWithScores.map(
               p => p.disconnectTimerStartedAt ?? null
@@ -384,6 +389,7 @@ function GameViewComponent() {
             turnTimerStartedAts={layoutPlayersWithScores.map(p => p.turnTimerStartedAt ?? null)}
             onCountdownExpireds={layoutPlayersWithScores.map(p => p.onCountdownExpired)}
             turnClockOffsetMs={turnClockOffsetMs}
+            roomTimers={roomTimers}
             // Table data
             lastPlayedCards={effectiveLastPlayedCards}
             lastPlayedBy={effectiveLastPlayedBy ?? undefined}
@@ -448,6 +454,8 @@ function GameViewComponent() {
             }}
             onHint={handleHint}
             onSettings={() => setShowSettings(true)}
+            onUndo={handleUndo}
+            undoStatus={undoStatus}
             // Control states
             disabled={false}
             canPlay={isPlayerReady && selectedCards.length > 0}
@@ -627,6 +635,7 @@ function GameViewComponent() {
               opponentPlayerIds={isMultiplayerGame ? remotePlayerIds : undefined}
               throwableActiveEffects={throwableActiveEffects}
               clockOffsetMs={turnClockOffsetMs}
+              roomTimers={roomTimers}
               isOnlineGame={isMultiplayerGame}
             />
 
@@ -646,6 +655,7 @@ function GameViewComponent() {
                 turnTimerStartedAt={layoutPlayersWithScores[0]?.turnTimerStartedAt}
                 onCountdownExpired={layoutPlayersWithScores[0]?.onCountdownExpired}
                 clockOffsetMs={turnClockOffsetMs}
+                timers={roomTimers}
                 isLocalPlayer={isMultiplayerGame}
                 isCameraOn={isMultiplayerGame && isChatConnected ? isLocalCameraOn : undefined}
                 isMicOn={isMultiplayerGame && isChatConnected ? isLocalMicOn : undefined}
@@ -703,6 +713,8 @@ function GameViewComponent() {
                 playerHand={effectivePlayerHand}
                 onPlayCards={handlePlayCards}
                 onPass={handlePass}
+                onUndo={handleUndo}
+                undoStatus={undoStatus}
               />
             </View>
 
@@ -763,6 +775,7 @@ function GameViewComponent() {
               scoreHistory={displayOrderScoreHistory}
               playHistory={playHistoryByMatch}
               originalPlayerNames={memoizedOriginalPlayerNames}
+              targetScore={targetScore}
             />
           </>
         )}
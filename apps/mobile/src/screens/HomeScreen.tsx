@@ -15,6 +15,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { COLORS, SPACING, FONT_SIZES, MODAL_SUPPORTED_ORIENTATIONS } from '../constants';
 import { ActiveGameBanner } from '../components/home/ActiveGameBanner';
+import { ContinueGamesList } from '../components/home/ContinueGamesList';
 import BugReportModal from '../components/BugReportModal';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
@@ -23,11 +24,27 @@ import { useMatchmakingFlow } from '../hooks/useMatchmakingFlow';
 import { useUnlockOrientationOnIos } from '../hooks/useUnlockOrientationOnIos';
 import { i18n } from '../i18n';
 import { RootStackParamList } from '../navigation/AppNavigator';
+import { DEFAULT_DEAL_VARIANT, type DealVariant } from '../game/engine/seeded-deal';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Home'>;
 
 type HomeScreenRouteProp = RouteProp<RootStackParamList, 'Home'>;
 
+/** Offline table sizes, human included */
+const TABLE_SIZES = [4, 3, 2] as const;
+
+const DEAL_VARIANT_OPTIONS: { variant: DealVariant; label: string; description: string }[] = [
+  {
+    variant: 'extra-card',
+    label: 'home.dealVariantExtraCard',
+    description: 'home.dealVariantExtraCardDesc',
+  },
+  { variant: 'dummy', label: 'home.dealVariantDummy', description: 'home.dealVariantDummyDesc' },
+];
+
+/** Take-backs allowed per offline game (0 = undo off) */
+const UNDO_LIMIT_OPTIONS = [0, 3, 10] as const;
+
 export default function HomeScreen() {
   const navigation = useNavigation<HomeScreenNavigationProp>();
   const route = useRoute<HomeScreenRouteProp>();
@@ -36,6 +53,10 @@ export default function HomeScreen() {
   const { width: screenWidth, height: screenHeight } = useWindowDimensions();
   const isLandscape = screenWidth > screenHeight;
   const [bugReportVisible, setBugReportVisible] = useState(false);
+  // Offline table: players (human included) and how a short table is dealt
+  const [tableSize, setTableSize] = useState(4);
+  const [dealVariant, setDealVariant] = useState<DealVariant>(DEFAULT_DEAL_VARIANT);
+  const [undoLimit, setUndoLimit] = useState<number>(3);
 
   // On iOS, release any portrait lock held by the game screen so home-screen
   // modals appear in the correct orientation when the device is in landscape.
@@ -46,6 +67,7 @@ export default function HomeScreen() {
     setCurrentRoom,
     currentRoomStatus,
     disconnectTimestamp,
+    disconnectSeconds,
     canRejoinAfterExpiry,
     bannerRefreshKey,
     checkGameExclusivity,
@@ -157,16 +179,23 @@ export default function HomeScreen() {
             {i18n.t('home.welcome')}, {profile?.username || user?.email || 'Player'}!
           </Text>
 
-          {/* Active Game Banner - shows for both offline and online open games */}
+          {/* Active Game Banner - shows the open online game */}
           <ActiveGameBanner
             onlineRoomCode={currentRoom}
             onlineRoomStatus={currentRoomStatus}
             disconnectTimestamp={disconnectTimestamp}
+            botReplacementSeconds={disconnectSeconds}
             onResume={handleBannerResume}
             onLeave={handleBannerLeave}
             onReplaceBotAndRejoin={handleReplaceBotAndRejoin}
             onTimerExpired={handleTimerExpired}
             canRejoinAfterExpiry={canRejoinAfterExpiry}
+          />
+
+          {/* Saved offline games, one per save slot */}
+          <ContinueGamesList
+            onResume={handleBannerResume}
+            onLeave={handleBannerLeave}
             refreshTrigger={bannerRefreshKey}
           />
 
@@ -242,6 +271,27 @@ export default function HomeScreen() {
               <Text style={styles.mainButtonSubtext}>{i18n.t('home.joinRoomDescription')}</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[styles.mainButton, styles.browseRoomsButton]}
+              onPress={async () => {
+                const canProceed = await checkGameExclusivity('online');
+                if (canProceed) navigation.navigate('RoomBrowser');
+              }}
+              testID="browse-rooms-button"
+            >
+              <Text style={styles.mainButtonText}>{i18n.t('home.browseRooms')}</Text>
+              <Text style={styles.mainButtonSubtext}>{i18n.t('home.browseRoomsDescription')}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.mainButton, styles.tournamentsButton]}
+              onPress={() => navigation.navigate('Tournaments')}
+              testID="tournaments-button"
+            >
+              <Text style={styles.mainButtonText}>{i18n.t('home.tournaments')}</Text>
+              <Text style={styles.mainButtonSubtext}>{i18n.t('home.tournamentsDescription')}</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={[styles.mainButton, styles.howToPlayButton]}
               onPress={() => navigation.navigate('HowToPlay')}
@@ -299,6 +349,67 @@ export default function HomeScreen() {
               bounces={false}
               contentContainerStyle={styles.modalScrollContent}
             >
+              {/* Table size, and the deal of a two- or three-player table */}
+              <Text style={styles.tableSizeLabel}>{i18n.t('home.tableSizeLabel')}</Text>
+              <View style={styles.tableOptionRow}>
+                {TABLE_SIZES.map(size => (
+                  <TouchableOpacity
+                    key={size}
+                    style={[styles.tableOption, tableSize === size && styles.tableOptionSelected]}
+                    onPress={() => setTableSize(size)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: tableSize === size }}
+                    testID={`table-size-${size}`}
+                  >
+                    <Text style={styles.tableOptionText}>
+                      {i18n.t('home.tableSizePlayers', { count: size })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {tableSize < 4 && (
+                <View style={styles.tableOptionRow}>
+                  {DEAL_VARIANT_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.variant}
+                      style={[
+                        styles.tableOption,
+                        dealVariant === option.variant && styles.tableOptionSelected,
+                      ]}
+                      onPress={() => setDealVariant(option.variant)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: dealVariant === option.variant }}
+                      testID={`deal-variant-${option.variant}`}
+                    >
+                      <Text style={styles.tableOptionText}>{i18n.t(option.label)}</Text>
+                      <Text style={styles.tableOptionSubtext}>{i18n.t(option.description)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {/* Take-backs: a game that uses one is not recorded in the stats */}
+              <Text style={styles.tableSizeLabel}>{i18n.t('home.undoLimitLabel')}</Text>
+              <Text style={styles.undoLimitNote}>{i18n.t('home.undoLimitDesc')}</Text>
+              <View style={styles.tableOptionRow}>
+                {UNDO_LIMIT_OPTIONS.map(limit => (
+                  <TouchableOpacity
+                    key={limit}
+                    style={[styles.tableOption, undoLimit === limit && styles.tableOptionSelected]}
+                    onPress={() => setUndoLimit(limit)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: undoLimit === limit }}
+                    testID={`undo-limit-${limit}`}
+                  >
+                    <Text style={styles.tableOptionText}>
+                      {limit === 0
+                        ? i18n.t('home.undoLimitOff')
+                        : i18n.t('home.undoLimitCount', { count: limit })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
               <View
                 style={[
                   styles.modalButtonContainer,
@@ -311,7 +422,13 @@ export default function HomeScreen() {
                     styles.difficultyEasyButton,
                     isLandscape && styles.modalButtonLandscape,
                   ]}
-                  onPress={() => handleStartOfflineWithDifficulty('easy')}
+                  onPress={() =>
+                    handleStartOfflineWithDifficulty(
+                      'easy',
+                      { playerCount: tableSize, dealVariant },
+                      undoLimit
+                    )
+                  }
                   testID="difficulty-easy"
                 >
                   <Text
@@ -329,7 +446,13 @@ export default function HomeScreen() {
                     styles.difficultyMediumButton,
                     isLandscape && styles.modalButtonLandscape,
                   ]}
-                  onPress={() => handleStartOfflineWithDifficulty('medium')}
+                  onPress={() =>
+                    handleStartOfflineWithDifficulty(
+                      'medium',
+                      { playerCount: tableSize, dealVariant },
+                      undoLimit
+                    )
+                  }
                   testID="difficulty-medium"
                 >
                   <Text
@@ -347,7 +470,13 @@ export default function HomeScreen() {
                     styles.difficultyHardButton,
                     isLandscape && styles.modalButtonLandscape,
                   ]}
-                  onPress={() => handleStartOfflineWithDifficulty('hard')}
+                  onPress={() =>
+                    handleStartOfflineWithDifficulty(
+                      'hard',
+                      { playerCount: tableSize, dealVariant },
+                      undoLimit
+                    )
+                  }
                   testID="difficulty-hard"
                 >
                   <Text
@@ -358,6 +487,30 @@ export default function HomeScreen() {
                   <Text style={styles.modalButtonText}>{i18n.t('home.hard')}</Text>
                   <Text style={styles.modalButtonSubtext}>{i18n.t('home.hardDesc')}</Text>
                 </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[
+                    styles.modalButton,
+                    styles.difficultyExpertButton,
+                    isLandscape && styles.modalButtonLandscape,
+                  ]}
+                  onPress={() =>
+                    handleStartOfflineWithDifficulty(
+                      'expert',
+                      { playerCount: tableSize, dealVariant },
+                      undoLimit
+                    )
+                  }
+                  testID="difficulty-expert"
+                >
+                  <Text
+                    style={[styles.modalButtonIcon, isLandscape && styles.modalButtonIconLandscape]}
+                  >
+                    👑
+                  </Text>
+                  <Text style={styles.modalButtonText}>{i18n.t('home.expert')}</Text>
+                  <Text style={styles.modalButtonSubtext}>{i18n.t('home.expertDesc')}</Text>
+                </TouchableOpacity>
               </View>
             </ScrollView>
           </View>
@@ -625,6 +778,12 @@ const styles = StyleSheet.create({
   joinButton: {
     backgroundColor: '#8B5CF6', // Purple
   },
+  browseRoomsButton: {
+    backgroundColor: '#14B8A6', // Teal
+  },
+  tournamentsButton: {
+    backgroundColor: '#0EA5E9', // Sky blue
+  },
   howToPlayButton: {
     backgroundColor: '#F59E0B', // Amber/Orange
   },
@@ -712,6 +871,10 @@ const styles = StyleSheet.create({
     backgroundColor: '#EF4444',
     borderColor: '#F87171',
   },
+  difficultyExpertButton: {
+    backgroundColor: '#7C3AED',
+    borderColor: '#A78BFA',
+  },
   modalButtonIcon: {
     fontSize: 32,
     marginBottom: SPACING.xs,
@@ -760,4 +923,44 @@ const styles = StyleSheet.create({
     fontSize: 20,
     marginBottom: 2,
   },
+  tableSizeLabel: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: 'bold',
+    color: COLORS.gray.medium,
+    marginBottom: SPACING.xs,
+  },
+  tableOptionRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  tableOption: {
+    flex: 1,
+    padding: SPACING.sm,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  tableOptionSelected: {
+    borderColor: COLORS.secondary,
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  tableOptionText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  tableOptionSubtext: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.white,
+    opacity: 0.8,
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  undoLimitNote: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.gray.medium,
+    marginBottom: SPACING.xs,
+  },
 });
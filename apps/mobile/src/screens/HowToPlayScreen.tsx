@@ -201,6 +201,22 @@ export default function HowToPlayScreen() {
           <Text style={styles.body}>{i18n.t('howToPlay.spectatorMode')}</Text>
         </View>
 
+        {/* Interactive tutorial and puzzles */}
+        <TouchableOpacity
+          style={styles.practiceButton}
+          onPress={() => navigation.navigate('Tutorial', { mode: 'lessons' })}
+          testID="open-tutorial"
+        >
+          <Text style={styles.practiceButtonText}>{i18n.t('tutorial.openLessons')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.practiceButton}
+          onPress={() => navigation.navigate('Tutorial', { mode: 'puzzles' })}
+          testID="open-puzzles"
+        >
+          <Text style={styles.practiceButtonText}>{i18n.t('tutorial.openPuzzles')}</Text>
+        </TouchableOpacity>
+
         {/* Let's Play Button */}
         <TouchableOpacity
           style={styles.playButton}
@@ -333,6 +349,23 @@ const styles = StyleSheet.create({
     shadowRadius: 3.84,
     elevation: 5,
   },
+  practiceButton: {
+    backgroundColor: 'rgba(139, 92, 246, 0.3)',
+    borderWidth: 1,
+    borderColor: 'rgba(139, 92, 246, 0.6)',
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.xl,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: SPACING.md,
+    marginHorizontal: SPACING.lg,
+  },
+  practiceButtonText: {
+    color: COLORS.white,
+    fontSize: 18,
+    fontWeight: '600',
+    fontFamily: 'Inter',
+  },
   playButtonText: {
     color: COLORS.white,
     fontSize: 20,
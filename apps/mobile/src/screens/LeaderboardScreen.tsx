@@ -19,6 +19,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { i18n } from '../i18n';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { supabase } from '../services/supabase';
+import { summarizeFriendsRecap, type FriendsRecap } from '../utils/friendsRecap';
 import { statsLogger } from '../utils/logger';
 
 type LeaderboardScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Leaderboard'>;
@@ -34,10 +35,15 @@ interface LeaderboardEntry {
   longest_win_streak: number;
   current_win_streak: number;
   rank: number;
+  /** Friends scope only: games, wins and losses against the current user */
+  h2h_games?: number;
+  h2h_wins?: number;
+  h2h_losses?: number;
 }
 
 type TimeFilter = 'all_time' | 'weekly' | 'daily';
 type LeaderboardType = 'casual' | 'ranked';
+type LeaderboardScope = 'global' | 'friends';
 
 export default function LeaderboardScreen() {
   const navigation = useNavigation<LeaderboardScreenNavigationProp>();
@@ -48,6 +54,8 @@ export default function LeaderboardScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('all_time');
   const [leaderboardType, setLeaderboardType] = useState<LeaderboardType>('casual');
+  const [leaderboardScope, setLeaderboardScope] = useState<LeaderboardScope>('global');
+  const [friendsRecap, setFriendsRecap] = useState<FriendsRecap | null>(null);
   const [page, setPage] = useState(0);
   const [hasMore, setHasMore] = useState(true);
   const [userRank, setUserRank] = useState<LeaderboardEntry | null>(null);
@@ -65,6 +73,7 @@ export default function LeaderboardScreen() {
           endIndex,
           timeFilter,
           leaderboardType,
+          leaderboardScope,
         });
 
         // Calculate time filter date
@@ -79,6 +88,38 @@ export default function LeaderboardScreen() {
           timeFilterDate = dayAgo.toISOString();
         }
 
+        // Friends scope: SECURITY DEFINER RPCs return only the user and their
+        // accepted friends, so the whole circle comes back in one page.
+        if (leaderboardScope === 'friends') {
+          const { data, error } = await supabase.rpc('get_friends_leaderboard', {
+            p_mode: leaderboardType,
+            p_since: timeFilterDate ?? undefined,
+          });
+          if (error) {
+            statsLogger.error(
+              '[Leaderboard] Friends query error:',
+              error?.message || error?.code || 'Unknown error'
+            );
+            throw error;
+          }
+          const friendsData = data ?? [];
+          setLeaderboard(friendsData);
+          setPage(0);
+          setHasMore(false);
+          setUserRank(friendsData.find(entry => entry.user_id === user?.id) ?? null);
+
+          const { data: recapData, error: recapError } = await supabase.rpc(
+            'get_friends_weekly_recap'
+          );
+          if (recapError) {
+            statsLogger.info('[Leaderboard] Error fetching friends recap:', recapError);
+          }
+          setFriendsRecap(
+            user && !recapError ? summarizeFriendsRecap(recapData ?? [], user.id) : null
+          );
+          return;
+        }
+
         // For all_time, use SECURITY DEFINER RPC wrappers (materialized views are
         // not directly exposed in the API schema — access is via wrapper functions).
         // For weekly/daily, query player_stats directly with per-mode columns.
@@ -307,13 +348,13 @@ export default function LeaderboardScreen() {
         setRefreshing(false);
       }
     },
-    [page, timeFilter, leaderboardType, user]
+    [page, timeFilter, leaderboardType, leaderboardScope, user]
   );
 
   useEffect(() => {
     fetchLeaderboard(true);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [timeFilter, leaderboardType]); // Trigger on timeFilter or leaderboardType change
+  }, [timeFilter, leaderboardType, leaderboardScope]); // Trigger on any filter change
 
   // ── Realtime subscription: auto-refresh when any player's rank_points change ──
   // Debounced to avoid rapid re-fetches when multiple games finish in quick succession.
@@ -377,6 +418,31 @@ export default function LeaderboardScreen() {
     <View style={styles.headerContainer}>
       <Text style={styles.title}>{i18n.t('leaderboard.title')}</Text>
 
+      {/* Scope Toggle */}
+      <View style={[styles.filterContainer, { marginBottom: SPACING.sm }]}>
+        <TouchableOpacity
+          style={[styles.filterButton, leaderboardScope === 'global' && styles.filterButtonActive]}
+          onPress={() => setLeaderboardScope('global')}
+        >
+          <Text
+            style={[styles.filterText, leaderboardScope === 'global' && styles.filterTextActive]}
+          >
+            🌍 {i18n.t('leaderboard.global')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.filterButton, leaderboardScope === 'friends' && styles.filterButtonActive]}
+          onPress={() => setLeaderboardScope('friends')}
+          testID="leaderboard-scope-friends"
+        >
+          <Text
+            style={[styles.filterText, leaderboardScope === 'friends' && styles.filterTextActive]}
+          >
+            👥 {i18n.t('leaderboard.friends')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Leaderboard Type Toggle */}
       <View style={[styles.filterContainer, { marginBottom: SPACING.sm }]}>
         <TouchableOpacity
@@ -417,6 +483,41 @@ export default function LeaderboardScreen() {
         </View>
       )}
 
+      {/* Weekly Friends Recap */}
+      {leaderboardScope === 'friends' && friendsRecap && (
+        <View style={styles.recapCard}>
+          <Text style={styles.recapTitle}>📅 {i18n.t('leaderboard.weeklyRecap')}</Text>
+          {friendsRecap.gamesWithFriends === 0 && friendsRecap.activeFriends === 0 ? (
+            <Text style={styles.recapLine}>{i18n.t('leaderboard.recapQuiet')}</Text>
+          ) : (
+            <>
+              <Text style={styles.recapLine}>
+                {i18n.t('leaderboard.recapWithFriends', {
+                  games: friendsRecap.gamesWithFriends,
+                  wins: friendsRecap.winsWithFriends,
+                })}
+              </Text>
+              {friendsRecap.mostActive && (
+                <Text style={styles.recapLine}>
+                  {i18n.t('leaderboard.recapMostActive', {
+                    name: friendsRecap.mostActive.username,
+                    count: friendsRecap.mostActive.count,
+                  })}
+                </Text>
+              )}
+              {friendsRecap.mostWins && (
+                <Text style={styles.recapLine}>
+                  {i18n.t('leaderboard.recapMostWins', {
+                    name: friendsRecap.mostWins.username,
+                    count: friendsRecap.mostWins.count,
+                  })}
+                </Text>
+              )}
+            </>
+          )}
+        </View>
+      )}
+
       {/* Filter Tabs */}
       <View style={styles.filterContainer}>
         <TouchableOpacity
@@ -509,6 +610,16 @@ export default function LeaderboardScreen() {
                 🔥 {item.current_win_streak} {i18n.t('leaderboard.winStreak')}
               </Text>
             )}
+            {!isCurrentUser && !!item.h2h_games && (
+              <Text style={styles.headToHeadText}>
+                ⚔️{' '}
+                {i18n.t('leaderboard.headToHead', {
+                  wins: item.h2h_wins ?? 0,
+                  losses: item.h2h_losses ?? 0,
+                  games: item.h2h_games,
+                })}
+              </Text>
+            )}
           </View>
         </View>
 
@@ -535,13 +646,20 @@ export default function LeaderboardScreen() {
     );
   };
 
-  const renderEmpty = () => (
-    <EmptyState
-      icon="🏆"
-      title={i18n.t('leaderboard.noRankings')}
-      subtitle={i18n.t('leaderboard.playToRank')}
-    />
-  );
+  const renderEmpty = () =>
+    leaderboardScope === 'friends' ? (
+      <EmptyState
+        icon="👥"
+        title={i18n.t('leaderboard.noFriendRankings')}
+        subtitle={i18n.t('leaderboard.addFriendsToRank')}
+      />
+    ) : (
+      <EmptyState
+        icon="🏆"
+        title={i18n.t('leaderboard.noRankings')}
+        subtitle={i18n.t('leaderboard.playToRank')}
+      />
+    );
 
   if (loading && leaderboard.length === 0) {
     return (
@@ -645,6 +763,23 @@ const styles = StyleSheet.create({
     color: COLORS.white + 'CC',
     fontSize: FONT_SIZES.sm,
   },
+  recapCard: {
+    backgroundColor: COLORS.secondary,
+    borderRadius: 12,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  recapTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+    marginBottom: SPACING.xs,
+  },
+  recapLine: {
+    color: COLORS.white + 'CC',
+    fontSize: FONT_SIZES.sm,
+    marginTop: 2,
+  },
   filterContainer: {
     flexDirection: 'row',
     marginBottom: SPACING.md,
@@ -744,6 +879,11 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.xs,
     marginTop: 2,
   },
+  headToHeadText: {
+    color: COLORS.white + '99',
+    fontSize: FONT_SIZES.xs,
+    marginTop: 2,
+  },
   statsColumn: {
     width: 60,
     alignItems: 'center',
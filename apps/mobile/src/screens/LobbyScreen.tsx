@@ -11,6 +11,7 @@ import {
   Share,
   Alert,
   BackHandler,
+  TextInput,
   useWindowDimensions,
 } from 'react-native';
 import { useNavigation, useRoute, useFocusEffect, RouteProp } from '@react-navigation/native';
@@ -18,12 +19,46 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { COLORS, SPACING, FONT_SIZES, MODAL_SUPPORTED_ORIENTATIONS } from '../constants';
 import { useAuth } from '../contexts/AuthContext';
+import {
+  STANDARD_RULE_SET,
+  RULE_SET_PRESETS,
+  normalizeRuleSet,
+  DEFAULT_SCORING_CONFIG,
+  TARGET_SCORE_OPTIONS,
+  SCORING_TIER_PRESETS,
+  normalizeScoringConfig,
+  isDefaultScoringConfig,
+  getScoringTierPresetId,
+  DEFAULT_SPECTATOR_SETTINGS,
+  SPECTATOR_REVEAL_DELAY_OPTIONS,
+  normalizeSpectatorSettings,
+  DEFAULT_ROOM_LISTING_SETTINGS,
+  normalizeRoomListingSettings,
+  DEFAULT_ROOM_TIMER_SETTINGS,
+  ROOM_TIMER_PRESETS,
+  normalizeRoomTimerSettings,
+  getRoomTimerPresetId,
+  DEFAULT_ROOM_TABLE,
+  normalizeRoomTable,
+  type DealVariant,
+  type RoomTable,
+  type RoomListingSettings,
+  type RoomTimerPresetId,
+  type RoomTimerSettings,
+  type RuleSet,
+  type RuleSetPresetId,
+  type ScoringConfig,
+  type ScoringTierPresetId,
+  type SpectatorSettings,
+} from '../game/engine';
+import { BOT_PERSONALITIES, isBotPersonality, type BotPersonality } from '../game/bot/personality';
 import { i18n } from '../i18n';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { notifyGameStarted, notifyRoomInvite } from '../services/pushNotificationTriggers';
 import { supabase } from '../services/supabase';
 import { showError, showConfirm, extractErrorMessage } from '../utils';
 import { roomLogger } from '../utils/logger';
+import type { Json } from '../types/database.types';
 import { AddFriendButton } from '../components/friends';
 import { useFriendsContext } from '../contexts/FriendsContext';
 import { useUnlockOrientationOnIos } from '../hooks/useUnlockOrientationOnIos';
@@ -38,6 +73,7 @@ interface Player {
   is_ready: boolean | null; // DB column has no NOT NULL constraint
   is_bot: boolean | null; // DB column has no NOT NULL constraint
   is_host: boolean | null; // DB column has no NOT NULL constraint
+  bot_personality?: string | null; // null for humans and balanced bots
   profiles?: {
     username?: string;
   };
@@ -50,7 +86,160 @@ interface Player {
 interface RoomType {
   isPrivate: boolean; // Private room (not matchmaking, not public)
   isCasual: boolean; // Casual matchmaking (matchmaking + not ranked)
-  isRanked: boolean; // Ranked matchmaking (matchmaking + ranked)
+  isRanked: boolean; // Ranked (matchmaking or public room + ranked)
+}
+
+const RULE_PRESET_LABEL_KEYS: Record<RuleSetPresetId | 'custom', string> = {
+  standard: 'lobby.rulePresetStandard',
+  taiwanese: 'lobby.rulePresetTaiwanese',
+  'no-twos-in-straights': 'lobby.rulePresetNoTwosInStraights',
+  custom: 'lobby.rulePresetCustom',
+};
+
+/** Read the house rules stored in rooms.settings.rule_set */
+function ruleSetFromSettings(settings: Json | null | undefined): RuleSet {
+  const ruleSet =
+    settings && typeof settings === 'object' && !Array.isArray(settings)
+      ? settings.rule_set
+      : undefined;
+  return normalizeRuleSet(ruleSet);
+}
+
+const SCORING_TIER_LABEL_KEYS: Record<ScoringTierPresetId | 'custom', string> = {
+  classic: 'lobby.scoringTiersClassic',
+  flat: 'lobby.scoringTiersFlat',
+  steep: 'lobby.scoringTiersSteep',
+  custom: 'lobby.scoringTiersCustom',
+};
+
+/** Lobby avatar and name of each bot personality */
+const BOT_PERSONALITY_AVATARS: Record<BotPersonality, string> = {
+  balanced: '🤖',
+  aggressive: '🔥',
+  conservative: '🛡️',
+  bluffing: '🃏',
+};
+
+const BOT_PERSONALITY_LABEL_KEYS: Record<BotPersonality, string> = {
+  balanced: 'lobby.personalityBalanced',
+  aggressive: 'lobby.personalityAggressive',
+  conservative: 'lobby.personalityConservative',
+  bluffing: 'lobby.personalityBluffing',
+};
+
+/** Seats start_game_with_bots fills, in order: the free seats, highest first */
+function getBotSeats(seatCount: number, players: Player[]): number[] {
+  return Array.from({ length: seatCount }, (_, i) => seatCount - 1 - i).filter(
+    seat => !players.some(p => p.player_index === seat)
+  );
+}
+
+/** Table sizes and deals the host can pick (set_room_table) */
+const TABLE_SIZE_OPTIONS = [2, 3, 4] as const;
+
+const DEAL_VARIANT_LABEL_KEYS: Record<DealVariant, string> = {
+  'extra-card': 'lobby.dealVariantExtraCard',
+  dummy: 'lobby.dealVariantDummy',
+};
+
+/** Read the bots' personalities stored in rooms.settings.bot_personalities */
+function botPersonalitiesFromSettings(settings: Json | null | undefined): BotPersonality[] {
+  const personalities =
+    settings && typeof settings === 'object' && !Array.isArray(settings)
+      ? settings.bot_personalities
+      : undefined;
+  if (!Array.isArray(personalities)) return [];
+  return personalities.map(personality =>
+    isBotPersonality(personality) ? personality : 'balanced'
+  );
+}
+
+// Values the lobby toggles switch on; the RPC accepts any 0-20 amount.
+const TWOS_PENALTY_POINTS = 2;
+const HONG_KONG_BONUS_POINTS = 10;
+
+/** Duplicate table the room is seated at (rooms.settings.duplicate) */
+interface RoomDuplicateSettings {
+  groupId: string;
+  code: string;
+  tableIndex: number;
+  tableCount: number;
+}
+
+const DUPLICATE_TABLE_COUNTS = [2, 3, 4] as const;
+
+/** Read the duplicate group stored in rooms.settings.duplicate */
+function duplicateFromSettings(settings: Json | null | undefined): RoomDuplicateSettings | null {
+  const duplicate =
+    settings && typeof settings === 'object' && !Array.isArray(settings)
+      ? settings.duplicate
+      : undefined;
+  if (!duplicate || typeof duplicate !== 'object' || Array.isArray(duplicate)) return null;
+  const { groupId, code, tableIndex, tableCount } = duplicate;
+  if (typeof groupId !== 'string' || typeof code !== 'string') return null;
+  return {
+    groupId,
+    code,
+    tableIndex: typeof tableIndex === 'number' ? tableIndex : 0,
+    tableCount: typeof tableCount === 'number' ? tableCount : 0,
+  };
+}
+
+/** Tournament table the room was created for (rooms.settings.tournament) */
+interface RoomTournamentSettings {
+  tournamentId: string;
+  name: string;
+  round: number;
+  table: number;
+  botDifficulty: 'easy' | 'medium' | 'hard' | 'expert' | null;
+}
+
+/** Read the tournament table stored in rooms.settings.tournament by advance-tournament */
+function tournamentFromSettings(settings: Json | null | undefined): RoomTournamentSettings | null {
+  const tournament =
+    settings && typeof settings === 'object' && !Array.isArray(settings)
+      ? settings.tournament
+      : undefined;
+  if (!tournament || typeof tournament !== 'object' || Array.isArray(tournament)) return null;
+  const { tournamentId, name, round, table, botDifficulty } = tournament;
+  if (typeof tournamentId !== 'string') return null;
+  return {
+    tournamentId,
+    name: typeof name === 'string' ? name : '',
+    round: typeof round === 'number' ? round : 1,
+    table: typeof table === 'number' ? table : 1,
+    botDifficulty:
+      botDifficulty === 'easy' ||
+      botDifficulty === 'medium' ||
+      botDifficulty === 'hard' ||
+      botDifficulty === 'expert'
+        ? botDifficulty
+        : null,
+  };
+}
+
+/** Read the scoring config stored in rooms.settings.scoring */
+function scoringFromSettings(settings: Json | null | undefined): ScoringConfig {
+  const scoring =
+    settings && typeof settings === 'object' && !Array.isArray(settings)
+      ? settings.scoring
+      : undefined;
+  return normalizeScoringConfig(scoring);
+}
+
+const ROOM_TIMER_PRESET_LABEL_KEYS: Record<RoomTimerPresetId, string> = {
+  blitz: 'lobby.timersBlitz',
+  standard: 'lobby.timersStandard',
+  relaxed: 'lobby.timersRelaxed',
+};
+
+/** Read who may watch the game, and how, from rooms.settings.spectators */
+function spectatorsFromSettings(settings: Json | null | undefined): SpectatorSettings {
+  const spectators =
+    settings && typeof settings === 'object' && !Array.isArray(settings)
+      ? settings.spectators
+      : undefined;
+  return normalizeSpectatorSettings(spectators);
 }
 
 export default function LobbyScreen() {
@@ -87,13 +276,35 @@ export default function LobbyScreen() {
   const [isTogglingReady, setIsTogglingReady] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
   const [isLeaving, setIsLeavingState] = useState(false);
-  const [botDifficulty, setBotDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const [botDifficulty, setBotDifficulty] = useState<'easy' | 'medium' | 'hard' | 'expert'>(
+    'medium'
+  );
+  const [botPersonalities, setBotPersonalities] = useState<BotPersonality[]>([]);
+  const [isSavingBotPersonalities, setIsSavingBotPersonalities] = useState(false);
+  const [ruleSet, setRuleSet] = useState<RuleSet>(STANDARD_RULE_SET);
+  const [isSavingRuleSet, setIsSavingRuleSet] = useState(false);
+  const [scoring, setScoring] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [isSavingScoring, setIsSavingScoring] = useState(false);
+  const [duplicate, setDuplicate] = useState<RoomDuplicateSettings | null>(null);
+  const [duplicateCode, setDuplicateCode] = useState('');
+  const [tournament, setTournament] = useState<RoomTournamentSettings | null>(null);
+  const [isSavingDuplicate, setIsSavingDuplicate] = useState(false);
+  const [spectators, setSpectators] = useState<SpectatorSettings>(DEFAULT_SPECTATOR_SETTINGS);
+  const [isSavingSpectators, setIsSavingSpectators] = useState(false);
+  const [roomListing, setRoomListing] = useState<RoomListingSettings>(
+    DEFAULT_ROOM_LISTING_SETTINGS
+  );
+  const [roomTimers, setRoomTimers] = useState<RoomTimerSettings>(DEFAULT_ROOM_TIMER_SETTINGS);
+  const [isSavingTimers, setIsSavingTimers] = useState(false);
+  const [roomTable, setRoomTable] = useState<RoomTable>(DEFAULT_ROOM_TABLE);
+  const [isSavingTable, setIsSavingTable] = useState(false);
   const [isGameInProgress, setIsGameInProgress] = useState(false); // Room already 'playing' (rejoin)
   const isLeavingRef = useRef(false); // Prevent double navigation
   const lastConnectionStatusRef = useRef<string | null>(null); // Track for kicked-reason detection
   const isStartingRef = useRef(false); // Prevent duplicate start-game calls
   const isLeaveConfirmOpenRef = useRef(false); // Prevent stacked leave-confirmation dialogs
   const claimHostInFlightRef = useRef(false); // Prevent concurrent lobby_claim_host RPC calls
+  const hasAppliedListingRef = useRef(false); // Bot difficulty from Create Room is applied once
   const hasAttemptedJoinRef = useRef(false); // Prevent repeated join_room_atomic calls in invite-join flow
   const lastJoinRoomCodeRef = useRef<string | null>(null); // Track roomCode to reset guard on room change
   const roomIdRef = useRef<string | null>(null); // Stable ref so subscription callbacks don't use stale closure
@@ -103,6 +314,7 @@ export default function LobbyScreen() {
 
   // Performance optimization: Calculate human player count once using useMemo
   const humanPlayerCount = useMemo(() => players.filter(p => !p.is_bot).length, [players]);
+  const seatCount = roomTable.playerCount;
 
   // All non-host, non-bot players must be ready before the host can start.
   // The host is not required to toggle ready — they are implicitly ready as the initiator.
@@ -111,6 +323,78 @@ export default function LobbyScreen() {
     [players]
   );
 
+  // Individual house-rule toggles for the lobby picker; any change that no
+  // longer matches a preset is stored as a custom rule set.
+  const houseRuleToggles = useMemo<
+    { key: string; label: string; active: boolean; toggled: RuleSet }[]
+  >(
+    () => [
+      {
+        key: 'suitOrder',
+        label: 'lobby.ruleSuitOrderTaiwanese',
+        active: ruleSet.suitOrder[0] === 'C',
+        toggled: {
+          ...ruleSet,
+          suitOrder:
+            ruleSet.suitOrder[0] === 'C'
+              ? STANDARD_RULE_SET.suitOrder
+              : RULE_SET_PRESETS.taiwanese.suitOrder,
+        },
+      },
+      {
+        key: 'twosInStraights',
+        label: 'lobby.ruleTwosInStraights',
+        active: ruleSet.twosInStraights,
+        toggled: { ...ruleSet, twosInStraights: !ruleSet.twosInStraights },
+      },
+      {
+        key: 'flushRanking',
+        label: 'lobby.ruleFlushSuitFirst',
+        active: ruleSet.flushRanking === 'suit-first',
+        toggled: {
+          ...ruleSet,
+          flushRanking: ruleSet.flushRanking === 'suit-first' ? 'highest-card' : 'suit-first',
+        },
+      },
+      {
+        key: 'fourOfAKindNeedsKicker',
+        label: 'lobby.ruleQuadsNeedKicker',
+        active: ruleSet.fourOfAKindNeedsKicker,
+        toggled: { ...ruleSet, fourOfAKindNeedsKicker: !ruleSet.fourOfAKindNeedsKicker },
+      },
+    ],
+    [ruleSet]
+  );
+
+  const scoringTierPreset = useMemo(() => getScoringTierPresetId(scoring.tiers), [scoring.tiers]);
+
+  // Scoring extras the host can switch on/off in the lobby picker
+  const scoringToggles = useMemo<
+    { key: string; label: string; active: boolean; toggled: Partial<ScoringConfig> }[]
+  >(
+    () => [
+      {
+        key: 'twosPenalty',
+        label: i18n.t('lobby.scoringTwosPenalty', { n: TWOS_PENALTY_POINTS }),
+        active: scoring.twosPenalty > 0,
+        toggled: { twosPenalty: scoring.twosPenalty > 0 ? 0 : TWOS_PENALTY_POINTS },
+      },
+      {
+        key: 'doubleIfNeverPlayed',
+        label: i18n.t('lobby.scoringDoubleNeverPlayed'),
+        active: scoring.doubleIfNeverPlayed,
+        toggled: { doubleIfNeverPlayed: !scoring.doubleIfNeverPlayed },
+      },
+      {
+        key: 'hongKongBonus',
+        label: i18n.t('lobby.scoringHongKongBonus', { n: HONG_KONG_BONUS_POINTS }),
+        active: scoring.hongKongBonus > 0,
+        toggled: { hongKongBonus: scoring.hongKongBonus > 0 ? 0 : HONG_KONG_BONUS_POINTS },
+      },
+    ],
+    [scoring]
+  );
+
   // Always keep loadPlayersRef and userIdRef pointing at latest values (avoids stale closures in subscriptions)
   useEffect(() => {
     loadPlayersRef.current = loadPlayers;
@@ -309,7 +593,7 @@ export default function LobbyScreen() {
   const getRoomId = async (options?: { suppressNavigation?: boolean }) => {
     const { data, error } = await supabase
       .from('rooms')
-      .select('id, status, is_matchmaking, is_public, ranked_mode, host_id')
+      .select('id, status, is_matchmaking, is_public, ranked_mode, host_id, settings, max_players')
       .eq('code', roomCode)
       .single();
 
@@ -350,12 +634,31 @@ export default function LobbyScreen() {
 
     // Set matchmaking status (backward compatibility)
     setIsMatchmakingRoom(data.is_matchmaking || false);
+    setRuleSet(ruleSetFromSettings(data.settings));
+    setBotPersonalities(botPersonalitiesFromSettings(data.settings));
+    setScoring(scoringFromSettings(data.settings));
+    setDuplicate(duplicateFromSettings(data.settings));
+    setSpectators(spectatorsFromSettings(data.settings));
+    const listing = normalizeRoomListingSettings(data.settings);
+    setRoomListing(listing);
+    setRoomTimers(normalizeRoomTimerSettings(data.settings));
+    setRoomTable(normalizeRoomTable(data.max_players, data.settings));
+    // Start from the difficulty picked on Create Room; later loads keep the host's choice
+    if (!hasAppliedListingRef.current) {
+      hasAppliedListingRef.current = true;
+      setBotDifficulty(listing.botDifficulty);
+    }
+    const roomTournament = tournamentFromSettings(data.settings);
+    setTournament(roomTournament);
+    // Tournament tables play the tournament's bots
+    if (roomTournament?.botDifficulty) setBotDifficulty(roomTournament.botDifficulty);
 
     // Determine room type
     let newRoomType: RoomType = {
       isPrivate: !data.is_matchmaking && !data.is_public,
       isCasual: !!data.is_matchmaking && !data.ranked_mode,
-      isRanked: !!data.is_matchmaking && !!data.ranked_mode,
+      // Public rooms listed as ranked play like ranked matchmaking rooms
+      isRanked: (!!data.is_matchmaking || !!data.is_public) && !!data.ranked_mode,
     };
 
     // Fallback: handle edge case where no room type is detected.
@@ -406,7 +709,8 @@ export default function LobbyScreen() {
           is_ready,
           is_bot,
           is_host,
-          username
+          username,
+          bot_personality
         `
         )
         .eq('room_id', currentRoomId)
@@ -629,7 +933,7 @@ export default function LobbyScreen() {
         (payload: {
           eventType?: string;
           old?: { status?: string };
-          new?: { status?: string; code?: string };
+          new?: { status?: string; code?: string; settings?: Json; max_players?: number };
         }) => {
           roomLogger.info('[LobbyScreen] Rooms table UPDATE event received:', {
             oldStatus: payload.old?.status,
@@ -638,6 +942,18 @@ export default function LobbyScreen() {
             isLeaving: isLeavingRef.current,
           });
 
+          // Keep every player's view of the house rules, scoring and bots in sync with the host's choice
+          if (payload.new?.settings !== undefined) {
+            setRuleSet(ruleSetFromSettings(payload.new.settings));
+            setBotPersonalities(botPersonalitiesFromSettings(payload.new.settings));
+            setScoring(scoringFromSettings(payload.new.settings));
+            setDuplicate(duplicateFromSettings(payload.new.settings));
+            setSpectators(spectatorsFromSettings(payload.new.settings));
+            setRoomListing(normalizeRoomListingSettings(payload.new.settings));
+            setRoomTimers(normalizeRoomTimerSettings(payload.new.settings));
+            setRoomTable(normalizeRoomTable(payload.new.max_players, payload.new.settings));
+          }
+
           // CRITICAL: Auto-navigate ALL players (including host) when game starts
           // Do NOT check isStartingRef - let subscription handle navigation for everyone
           if (payload.new?.status === 'playing' && !isLeavingRef.current) {
@@ -702,6 +1018,237 @@ export default function LobbyScreen() {
     }
   };
 
+  /**
+   * Host picks a house-rule preset or tweaks a single rule (→ custom).
+   * Optimistic: the picker updates immediately and reverts if the RPC fails.
+   */
+  const handleRuleSetChange = async (next: RuleSet | RuleSetPresetId) => {
+    const currentRoomId = roomIdRef.current || roomId;
+    if (!currentRoomId || isSavingRuleSet) return;
+
+    const previous = ruleSet;
+    const resolved = normalizeRuleSet(next);
+    setRuleSet(resolved);
+    setIsSavingRuleSet(true);
+    try {
+      const { error } = await supabase.rpc('set_room_rule_set', {
+        p_room_id: currentRoomId,
+        p_rule_set: {
+          preset: resolved.preset,
+          suitOrder: [...resolved.suitOrder],
+          twosInStraights: resolved.twosInStraights,
+          flushRanking: resolved.flushRanking,
+          fourOfAKindNeedsKicker: resolved.fourOfAKindNeedsKicker,
+        },
+      });
+      if (error) throw error;
+    } catch (error: unknown) {
+      roomLogger.error('Error updating house rules:', extractErrorMessage(error));
+      setRuleSet(previous);
+      showError(i18n.t('lobby.houseRulesError'));
+    } finally {
+      setIsSavingRuleSet(false);
+    }
+  };
+
+  /**
+   * Host switches the bot in one open seat to the next personality.
+   * Optimistic like handleRuleSetChange: reverts if the RPC fails.
+   */
+  const handleBotPersonalityChange = async (botNumber: number, botCount: number) => {
+    const currentRoomId = roomIdRef.current || roomId;
+    if (!currentRoomId || isSavingBotPersonalities) return;
+
+    const previous = botPersonalities;
+    const next = Array.from(
+      { length: botCount },
+      (_, i): BotPersonality => botPersonalities[i] ?? 'balanced'
+    );
+    next[botNumber] =
+      BOT_PERSONALITIES[
+        (BOT_PERSONALITIES.indexOf(next[botNumber]) + 1) % BOT_PERSONALITIES.length
+      ];
+    setBotPersonalities(next);
+    setIsSavingBotPersonalities(true);
+    try {
+      const { error } = await supabase.rpc('set_room_bot_personalities', {
+        p_room_id: currentRoomId,
+        p_personalities: next,
+      });
+      if (error) throw error;
+    } catch (error: unknown) {
+      roomLogger.error('Error updating bot personalities:', extractErrorMessage(error));
+      setBotPersonalities(previous);
+      showError(i18n.t('lobby.botPersonalitiesError'));
+    } finally {
+      setIsSavingBotPersonalities(false);
+    }
+  };
+
+  /**
+   * Host changes the target score, tiers or one of the scoring extras.
+   * Optimistic like handleRuleSetChange: reverts if the RPC fails.
+   */
+  const handleScoringChange = async (next: Partial<ScoringConfig>) => {
+    const currentRoomId = roomIdRef.current || roomId;
+    if (!currentRoomId || isSavingScoring) return;
+
+    const previous = scoring;
+    const resolved = normalizeScoringConfig({ ...scoring, ...next });
+    setScoring(resolved);
+    setIsSavingScoring(true);
+    try {
+      const { error } = await supabase.rpc('set_room_scoring', {
+        p_room_id: currentRoomId,
+        p_scoring: {
+          targetScore: resolved.targetScore,
+          tiers: resolved.tiers.map(tier => ({
+            maxCards: tier.maxCards,
+            pointsPerCard: tier.pointsPerCard,
+          })),
+          twosPenalty: resolved.twosPenalty,
+          doubleIfNeverPlayed: resolved.doubleIfNeverPlayed,
+          hongKongBonus: resolved.hongKongBonus,
+        },
+      });
+      if (error) throw error;
+    } catch (error: unknown) {
+      roomLogger.error('Error updating scoring:', extractErrorMessage(error));
+      setScoring(previous);
+      showError(i18n.t('lobby.scoringError'));
+    } finally {
+      setIsSavingScoring(false);
+    }
+  };
+
+  /**
+   * Host allows or refuses spectators, or sets the delayed open-hands view.
+   * Optimistic like handleScoringChange: reverts if the RPC fails.
+   */
+  const handleSpectatorsChange = async (next: Partial<SpectatorSettings>) => {
+    const currentRoomId = roomIdRef.current || roomId;
+    if (!currentRoomId || isSavingSpectators) return;
+
+    const previous = spectators;
+    const resolved = normalizeSpectatorSettings({ ...spectators, ...next });
+    setSpectators(resolved);
+    setIsSavingSpectators(true);
+    try {
+      const { error } = await supabase.rpc('set_room_spectator_settings', {
+        p_room_id: currentRoomId,
+        p_allow_spectators: resolved.allowSpectators,
+        p_reveal_delay_seconds: resolved.revealDelaySeconds,
+      });
+      if (error) throw error;
+    } catch (error: unknown) {
+      roomLogger.error('Error updating spectator settings:', extractErrorMessage(error));
+      setSpectators(previous);
+      showError(i18n.t('lobby.spectatorsError'));
+    } finally {
+      setIsSavingSpectators(false);
+    }
+  };
+
+  /**
+   * Host picks the turn, auto-pass and disconnect timers from a preset.
+   * Optimistic like handleSpectatorsChange: reverts if the RPC fails.
+   */
+  const handleTimersChange = async (preset: RoomTimerPresetId) => {
+    const currentRoomId = roomIdRef.current || roomId;
+    if (!currentRoomId || isSavingTimers) return;
+
+    const previous = roomTimers;
+    const next = ROOM_TIMER_PRESETS[preset];
+    setRoomTimers(next);
+    setIsSavingTimers(true);
+    try {
+      const { error } = await supabase.rpc('set_room_timers', {
+        p_room_id: currentRoomId,
+        p_turn_seconds: next.turnSeconds,
+        p_auto_pass_seconds: next.autoPassSeconds,
+        p_disconnect_seconds: next.disconnectSeconds,
+      });
+      if (error) throw error;
+    } catch (error: unknown) {
+      roomLogger.error('Error updating room timers:', extractErrorMessage(error));
+      setRoomTimers(previous);
+      showError(i18n.t('lobby.timersError'));
+    } finally {
+      setIsSavingTimers(false);
+    }
+  };
+
+  /**
+   * Host seats the room at a duplicate table: joins the group with the given
+   * code (the next free table is assigned), or leaves it when code is null.
+   * The realtime settings update refreshes every player's view.
+   */
+  const handleDuplicateGroupChange = async (code: string | null) => {
+    const currentRoomId = roomIdRef.current || roomId;
+    if (!currentRoomId || isSavingDuplicate) return;
+
+    setIsSavingDuplicate(true);
+    try {
+      const { error } = await supabase.rpc('set_room_duplicate_group', {
+        p_room_id: currentRoomId,
+        p_code: code,
+      });
+      if (error) throw error;
+      setDuplicateCode('');
+      // Refresh immediately; the realtime update may arrive later
+      const { data } = await supabase
+        .from('rooms')
+        .select('settings')
+        .eq('id', currentRoomId)
+        .single();
+      if (data) setDuplicate(duplicateFromSettings(data.settings));
+    } catch (error: unknown) {
+      roomLogger.error('Error updating duplicate group:', extractErrorMessage(error));
+      showError(i18n.t('lobby.duplicateError'));
+    } finally {
+      setIsSavingDuplicate(false);
+    }
+  };
+
+  /** Host starts a new duplicate group and seats this room at its first table */
+  const handleCreateDuplicateGroup = async (tableCount: number) => {
+    if (isSavingDuplicate) return;
+    try {
+      const { data, error } = await supabase.rpc('create_duplicate_group', {
+        p_table_count: tableCount,
+      });
+      if (error) throw error;
+      const code = (data as { code?: string } | null)?.code;
+      if (code) await handleDuplicateGroupChange(code);
+    } catch (error: unknown) {
+      roomLogger.error('Error creating duplicate group:', extractErrorMessage(error));
+      showError(i18n.t('lobby.duplicateError'));
+    }
+  };
+
+  /** Host changes the table size or how a short table is dealt (set_room_table) */
+  const handleTableChange = async (change: Partial<RoomTable>) => {
+    const currentRoomId = roomIdRef.current || roomId;
+    if (!currentRoomId || isSavingTable) return;
+
+    const next = { ...roomTable, ...change };
+    setIsSavingTable(true);
+    try {
+      const { error } = await supabase.rpc('set_room_table', {
+        p_room_id: currentRoomId,
+        p_player_count: next.playerCount,
+        p_deal_variant: next.dealVariant,
+      });
+      if (error) throw error;
+      setRoomTable(next);
+    } catch (error: unknown) {
+      roomLogger.error('Error updating room table:', extractErrorMessage(error));
+      showError(i18n.t('lobby.tableError'));
+    } finally {
+      setIsSavingTable(false);
+    }
+  };
+
   const handleShareCode = async () => {
     try {
       // We rely on try-catch to detect platform limitations (e.g., ERR_UNSUPPORTED_ACTIVITY on web).
@@ -870,17 +1417,17 @@ export default function LobbyScreen() {
       // CRITICAL: Determine bot count using humans (desired) AND current occupancy (safety)
       const humanCount = players.filter(p => !p.is_bot).length;
       const totalCount = players.length;
-      const openSeats = Math.max(0, 4 - totalCount);
+      const openSeats = Math.max(0, seatCount - totalCount);
 
-      // The RPC historically expects "bot_count based on humans" (human + bot = 4)
+      // The RPC historically expects "bot_count based on humans" (human + bot = table size)
       // but we must also handle rooms that already contain bots.
-      const desiredBotCount = Math.max(0, 4 - humanCount);
+      const desiredBotCount = Math.max(0, seatCount - humanCount);
 
       roomLogger.info(
-        `🎮 [LobbyScreen] Starting game: ${humanCount} humans, ${totalCount}/4 filled, ${openSeats} open seats, desired bots=${desiredBotCount}`
+        `🎮 [LobbyScreen] Starting game: ${humanCount} humans, ${totalCount}/${seatCount} filled, ${openSeats} open seats, desired bots=${desiredBotCount}`
       );
 
-      if (totalCount > 4) {
+      if (totalCount > seatCount) {
         showError(i18n.t('lobby.tooManyPlayers'));
         setIsStarting(false);
         isStartingRef.current = false;
@@ -943,12 +1490,12 @@ export default function LobbyScreen() {
     }
   };
 
-  // Auto-start when the room is full (4 humans) and every non-host has pressed ready.
+  // Auto-start when every seat has a human and every non-host has pressed ready.
   // Applies to casual, private, and ranked rooms — no bots are needed.
   // Only the host's client fires start_game_with_bots; isStartingRef prevents double-firing.
   useEffect(() => {
     if (
-      humanPlayerCount === 4 &&
+      humanPlayerCount === seatCount &&
       allNonHostHumansReady &&
       isHost &&
       !isStarting &&
@@ -956,12 +1503,12 @@ export default function LobbyScreen() {
       !isGameInProgress
     ) {
       roomLogger.info(
-        '[LobbyScreen] 🚀 Auto-starting: full room of 4 humans, all non-host players ready'
+        `[LobbyScreen] 🚀 Auto-starting: full room of ${seatCount} humans, all non-host players ready`
       );
       handleStartWithBots();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- handleStartWithBots is not memoised; isStartingRef is a stable ref
-  }, [humanPlayerCount, allNonHostHumansReady, isHost, isStarting, isGameInProgress]);
+  }, [humanPlayerCount, seatCount, allNonHostHumansReady, isHost, isStarting, isGameInProgress]);
 
   const handleLeaveRoom = () => {
     if (isLeavingRef.current || isLeaving || isLeaveConfirmOpenRef.current) return;
@@ -1101,8 +1648,9 @@ export default function LobbyScreen() {
     }
 
     const isCurrentUser = item.user_id === user?.id;
+    const personality = isBotPersonality(item.bot_personality) ? item.bot_personality : 'balanced';
     const displayName = item.is_bot
-      ? `Bot ${item.player_index + 1}`
+      ? `${BOT_PERSONALITY_AVATARS[personality]} Bot ${item.player_index + 1} · ${i18n.t(BOT_PERSONALITY_LABEL_KEYS[personality])}`
       : item.profiles?.username || 'Player';
 
     return (
@@ -1141,9 +1689,9 @@ export default function LobbyScreen() {
     );
   };
 
-  // Create array of 4 slots, filling empty ones with null
+  // One slot per seat at the table, filling empty ones with null
   const playerSlots = Array.from(
-    { length: 4 },
+    { length: seatCount },
     (_, i) => players.find(p => p.player_index === i) || null
   );
 
@@ -1277,7 +1825,7 @@ export default function LobbyScreen() {
         showsVerticalScrollIndicator={true}
       >
         <View style={styles.content}>
-          <Text style={styles.title}>{i18n.t('lobby.title')}</Text>
+          <Text style={styles.title}>{roomListing.title ?? i18n.t('lobby.title')}</Text>
 
           {/* Room Type Badge - Color-coded by room type for visual distinction */}
           {/* Uses chained OR for clean fallback: evaluates left-to-right, stops at first truthy value */}
@@ -1314,7 +1862,7 @@ export default function LobbyScreen() {
           </View>
 
           <Text style={styles.playersLabel}>
-            {i18n.t('lobby.players')} ({players.length}/4)
+            {i18n.t('lobby.players')} ({players.length}/{seatCount})
           </Text>
 
           <View style={styles.playerList}>
@@ -1356,19 +1904,95 @@ export default function LobbyScreen() {
             </>
           )}
 
+          {tournament && (
+            <Text style={styles.houseRulesSummary}>
+              {i18n.t('lobby.tournamentTable', {
+                name: tournament.name,
+                round: tournament.round,
+                table: tournament.table,
+              })}
+            </Text>
+          )}
+
+          {/* House rules summary for non-hosts (host sees the picker below) */}
+          {!isHost && !roomType.isRanked && ruleSet.preset !== 'standard' && (
+            <Text style={styles.houseRulesSummary}>
+              {i18n.t('lobby.houseRulesLabel')} {i18n.t(RULE_PRESET_LABEL_KEYS[ruleSet.preset])}
+            </Text>
+          )}
+          {!isHost && roomTable.playerCount !== DEFAULT_ROOM_TABLE.playerCount && (
+            <Text style={styles.houseRulesSummary}>
+              {i18n.t('lobby.tableLabel')} {i18n.t('lobby.tableSize', { n: roomTable.playerCount })}{' '}
+              · {i18n.t(DEAL_VARIANT_LABEL_KEYS[roomTable.dealVariant])}
+            </Text>
+          )}
+          {!isHost && !roomType.isRanked && duplicate && (
+            <Text style={styles.houseRulesSummary}>
+              {i18n.t('lobby.duplicateLabel')}{' '}
+              {i18n.t('lobby.duplicateTable', {
+                table: duplicate.tableIndex + 1,
+                total: duplicate.tableCount,
+                code: duplicate.code,
+              })}
+            </Text>
+          )}
+          {!isHost && !roomType.isRanked && !isDefaultScoringConfig(scoring) && (
+            <Text style={styles.houseRulesSummary}>
+              {i18n.t('lobby.scoringLabel')}{' '}
+              {i18n.t('lobby.scoringTargetScore', { n: scoring.targetScore })} ·{' '}
+              {i18n.t(SCORING_TIER_LABEL_KEYS[scoringTierPreset ?? 'custom'])}
+            </Text>
+          )}
+          {!isHost && (!spectators.allowSpectators || spectators.revealDelaySeconds !== null) && (
+            <Text style={styles.houseRulesSummary}>
+              {i18n.t('lobby.spectatorsLabel')}{' '}
+              {spectators.allowSpectators
+                ? i18n.t('lobby.spectatorsOpenHands', {
+                    seconds: spectators.revealDelaySeconds ?? 0,
+                  })
+                : i18n.t('lobby.spectatorsOff')}
+            </Text>
+          )}
+          {!isHost && roomTimers !== DEFAULT_ROOM_TIMER_SETTINGS && (
+            <Text style={styles.houseRulesSummary}>
+              {i18n.t('lobby.timersLabel')}{' '}
+              {i18n.t('lobby.timersSummary', {
+                turn: roomTimers.turnSeconds,
+                autoPass: roomTimers.autoPassSeconds,
+                disconnect: roomTimers.disconnectSeconds,
+              })}
+            </Text>
+          )}
+          {!isHost &&
+            !roomType.isRanked &&
+            humanPlayerCount < seatCount &&
+            botPersonalities.some(personality => personality !== 'balanced') && (
+              <Text style={styles.houseRulesSummary}>
+                {i18n.t('lobby.botPersonalitiesLabel')}{' '}
+                {botPersonalities
+                  .slice(0, seatCount - humanPlayerCount)
+                  .map(
+                    personality =>
+                      `${BOT_PERSONALITY_AVATARS[personality]} ${i18n.t(BOT_PERSONALITY_LABEL_KEYS[personality])}`
+                  )
+                  .join(' · ')}
+              </Text>
+            )}
+
           {/* Bot Filling Controls - Host only, for Casual/Private (NOT Ranked) */}
           {/* Hidden when game is already in progress (rejoin) since bots are already set */}
           {/* Performance: humanPlayerCount calculated once via useMemo */}
           {isHost && !roomType.isRanked && !isGameInProgress ? (
             <>
-              {/* Show bot count and start button if less than 4 humans */}
-              {humanPlayerCount < 4 && (
+              {/* Show bot count and start button if a seat has no human */}
+              {/* Tournament tables play the tournament's bots and standard rules */}
+              {humanPlayerCount < seatCount && !tournament && (
                 <>
                   {/* Bot Difficulty Selector */}
                   <View style={styles.difficultyContainer}>
                     <Text style={styles.difficultyLabel}>{i18n.t('lobby.botDifficultyLabel')}</Text>
                     <View style={styles.difficultyButtons}>
-                      {(['easy', 'medium', 'hard'] as const).map(level => (
+                      {(['easy', 'medium', 'hard', 'expert'] as const).map(level => (
                         <TouchableOpacity
                           key={level}
                           style={[
@@ -1389,12 +2013,361 @@ export default function LobbyScreen() {
                       ))}
                     </View>
                   </View>
+
+                  {/* Bot Personality Picker - one per open seat; tap to cycle styles */}
+                  <View style={styles.difficultyContainer}>
+                    <Text style={styles.difficultyLabel}>
+                      {i18n.t('lobby.botPersonalitiesLabel')}
+                    </Text>
+                    <View style={styles.houseRulesButtons}>
+                      {getBotSeats(seatCount, players)
+                        .slice(0, seatCount - humanPlayerCount)
+                        .map((seat, botNumber) => {
+                          const personality = botPersonalities[botNumber] ?? 'balanced';
+                          return (
+                            <TouchableOpacity
+                              key={seat}
+                              testID={`bot-personality-${botNumber}`}
+                              style={[
+                                styles.difficultyButton,
+                                personality !== 'balanced' && styles.difficultyButtonActive,
+                              ]}
+                              disabled={isSavingBotPersonalities}
+                              onPress={() =>
+                                handleBotPersonalityChange(botNumber, seatCount - humanPlayerCount)
+                              }
+                            >
+                              <Text style={styles.botPersonalityAvatar}>
+                                {BOT_PERSONALITY_AVATARS[personality]}
+                              </Text>
+                              <Text style={styles.difficultyButtonText}>
+                                {i18n.t(BOT_PERSONALITY_LABEL_KEYS[personality])}
+                              </Text>
+                              <Text style={styles.botSeatText}>
+                                {i18n.t('lobby.botSeat', { n: seat + 1 })}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                    </View>
+                  </View>
+                </>
+              )}
+
+              {!tournament && (
+                <>
+                  {/* Table Selector - two to four seats; how a short table is dealt */}
+                  {roomType.isPrivate && !duplicate && (
+                    <View style={styles.difficultyContainer}>
+                      <Text style={styles.difficultyLabel}>{i18n.t('lobby.tableLabel')}</Text>
+                      <View style={styles.houseRulesButtons}>
+                        {TABLE_SIZE_OPTIONS.map(count => (
+                          <TouchableOpacity
+                            key={count}
+                            testID={`table-size-${count}`}
+                            style={[
+                              styles.difficultyButton,
+                              roomTable.playerCount === count && styles.difficultyButtonActive,
+                              players.length > count && styles.buttonDisabled,
+                            ]}
+                            onPress={() => handleTableChange({ playerCount: count })}
+                            disabled={isSavingTable || players.length > count}
+                          >
+                            <Text
+                              style={[
+                                styles.difficultyButtonText,
+                                roomTable.playerCount === count &&
+                                  styles.difficultyButtonTextActive,
+                              ]}
+                            >
+                              {i18n.t('lobby.tableSize', { n: count })}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                      {roomTable.playerCount < DEFAULT_ROOM_TABLE.playerCount && (
+                        <View style={styles.houseRulesButtons}>
+                          {(Object.keys(DEAL_VARIANT_LABEL_KEYS) as DealVariant[]).map(variant => (
+                            <TouchableOpacity
+                              key={variant}
+                              style={[
+                                styles.difficultyButton,
+                                roomTable.dealVariant === variant && styles.difficultyButtonActive,
+                              ]}
+                              onPress={() => handleTableChange({ dealVariant: variant })}
+                              disabled={isSavingTable}
+                            >
+                              <Text
+                                style={[
+                                  styles.difficultyButtonText,
+                                  roomTable.dealVariant === variant &&
+                                    styles.difficultyButtonTextActive,
+                                ]}
+                              >
+                                {i18n.t(DEAL_VARIANT_LABEL_KEYS[variant])}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                    </View>
+                  )}
+
+                  {/* House Rules Selector - presets, or toggle individual rules (→ custom) */}
+                  <View style={styles.difficultyContainer}>
+                    <Text style={styles.difficultyLabel}>{i18n.t('lobby.houseRulesLabel')}</Text>
+                    <View style={styles.houseRulesButtons}>
+                      {(Object.keys(RULE_SET_PRESETS) as RuleSetPresetId[]).map(preset => (
+                        <TouchableOpacity
+                          key={preset}
+                          style={[
+                            styles.difficultyButton,
+                            ruleSet.preset === preset && styles.difficultyButtonActive,
+                          ]}
+                          onPress={() => handleRuleSetChange(preset)}
+                          disabled={isSavingRuleSet}
+                        >
+                          <Text
+                            style={[
+                              styles.difficultyButtonText,
+                              ruleSet.preset === preset && styles.difficultyButtonTextActive,
+                            ]}
+                          >
+                            {i18n.t(RULE_PRESET_LABEL_KEYS[preset])}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {houseRuleToggles.map(rule => (
+                      <TouchableOpacity
+                        key={rule.key}
+                        style={styles.houseRuleToggle}
+                        onPress={() => handleRuleSetChange(rule.toggled)}
+                        disabled={isSavingRuleSet}
+                      >
+                        <Text style={styles.difficultyButtonText}>
+                          {rule.active ? '☑' : '☐'} {i18n.t(rule.label)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {/* Scoring Selector - target score, per-card tiers and optional extras */}
+                  <View style={styles.difficultyContainer}>
+                    <Text style={styles.difficultyLabel}>{i18n.t('lobby.scoringLabel')}</Text>
+                    <View style={styles.houseRulesButtons}>
+                      {TARGET_SCORE_OPTIONS.map(target => (
+                        <TouchableOpacity
+                          key={target}
+                          style={[
+                            styles.difficultyButton,
+                            scoring.targetScore === target && styles.difficultyButtonActive,
+                          ]}
+                          onPress={() => handleScoringChange({ targetScore: target })}
+                          disabled={isSavingScoring}
+                        >
+                          <Text
+                            style={[
+                              styles.difficultyButtonText,
+                              scoring.targetScore === target && styles.difficultyButtonTextActive,
+                            ]}
+                          >
+                            {i18n.t('lobby.scoringTargetScore', { n: target })}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <View style={styles.houseRulesButtons}>
+                      {(Object.keys(SCORING_TIER_PRESETS) as ScoringTierPresetId[]).map(preset => (
+                        <TouchableOpacity
+                          key={preset}
+                          style={[
+                            styles.difficultyButton,
+                            scoringTierPreset === preset && styles.difficultyButtonActive,
+                          ]}
+                          onPress={() =>
+                            handleScoringChange({ tiers: SCORING_TIER_PRESETS[preset] })
+                          }
+                          disabled={isSavingScoring}
+                        >
+                          <Text
+                            style={[
+                              styles.difficultyButtonText,
+                              scoringTierPreset === preset && styles.difficultyButtonTextActive,
+                            ]}
+                          >
+                            {i18n.t(SCORING_TIER_LABEL_KEYS[preset])}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {scoringToggles.map(toggle => (
+                      <TouchableOpacity
+                        key={toggle.key}
+                        style={styles.houseRuleToggle}
+                        onPress={() => handleScoringChange(toggle.toggled)}
+                        disabled={isSavingScoring}
+                      >
+                        <Text style={styles.difficultyButtonText}>
+                          {toggle.active ? '☑' : '☐'} {toggle.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {/* Duplicate Selector - play a shared seeded deal with rotated seats */}
+                  <View style={styles.difficultyContainer}>
+                    <Text style={styles.difficultyLabel}>{i18n.t('lobby.duplicateLabel')}</Text>
+                    {duplicate ? (
+                      <>
+                        <Text style={styles.difficultyButtonText}>
+                          {i18n.t('lobby.duplicateTable', {
+                            table: duplicate.tableIndex + 1,
+                            total: duplicate.tableCount,
+                            code: duplicate.code,
+                          })}
+                        </Text>
+                        <TouchableOpacity
+                          style={styles.houseRuleToggle}
+                          onPress={() => handleDuplicateGroupChange(null)}
+                          disabled={isSavingDuplicate}
+                        >
+                          <Text style={styles.difficultyButtonText}>
+                            {i18n.t('lobby.duplicateLeave')}
+                          </Text>
+                        </TouchableOpacity>
+                      </>
+                    ) : (
+                      <>
+                        <View style={styles.houseRulesButtons}>
+                          {DUPLICATE_TABLE_COUNTS.map(count => (
+                            <TouchableOpacity
+                              key={count}
+                              style={styles.difficultyButton}
+                              onPress={() => handleCreateDuplicateGroup(count)}
+                              disabled={isSavingDuplicate}
+                            >
+                              <Text style={styles.difficultyButtonText}>
+                                {i18n.t('lobby.duplicateCreate', { n: count })}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                        <View style={styles.houseRulesButtons}>
+                          <TextInput
+                            style={styles.duplicateCodeInput}
+                            value={duplicateCode}
+                            onChangeText={text => setDuplicateCode(text.toUpperCase())}
+                            placeholder={i18n.t('lobby.duplicateCodePlaceholder')}
+                            placeholderTextColor={COLORS.gray.medium}
+                            autoCapitalize="characters"
+                            maxLength={6}
+                          />
+                          <TouchableOpacity
+                            style={[
+                              styles.difficultyButton,
+                              duplicateCode.length !== 6 && styles.buttonDisabled,
+                            ]}
+                            onPress={() => handleDuplicateGroupChange(duplicateCode)}
+                            disabled={isSavingDuplicate || duplicateCode.length !== 6}
+                          >
+                            <Text style={styles.difficultyButtonText}>
+                              {i18n.t('lobby.duplicateJoin')}
+                            </Text>
+                          </TouchableOpacity>
+                        </View>
+                      </>
+                    )}
+                  </View>
+
+                  {/* Spectators Selector - who may watch, and delayed open hands for streams */}
+                  <View style={styles.difficultyContainer}>
+                    <Text style={styles.difficultyLabel}>{i18n.t('lobby.spectatorsLabel')}</Text>
+                    <TouchableOpacity
+                      style={styles.houseRuleToggle}
+                      onPress={() =>
+                        handleSpectatorsChange({
+                          allowSpectators: !spectators.allowSpectators,
+                          revealDelaySeconds: null,
+                        })
+                      }
+                      disabled={isSavingSpectators}
+                    >
+                      <Text style={styles.difficultyButtonText}>
+                        {spectators.allowSpectators ? '☑' : '☐'} {i18n.t('lobby.spectatorsAllow')}
+                      </Text>
+                    </TouchableOpacity>
+                    {spectators.allowSpectators && (
+                      <View style={styles.houseRulesButtons}>
+                        {[null, ...SPECTATOR_REVEAL_DELAY_OPTIONS].map(seconds => (
+                          <TouchableOpacity
+                            key={seconds ?? 'hidden'}
+                            style={[
+                              styles.difficultyButton,
+                              spectators.revealDelaySeconds === seconds &&
+                                styles.difficultyButtonActive,
+                            ]}
+                            onPress={() => handleSpectatorsChange({ revealDelaySeconds: seconds })}
+                            disabled={isSavingSpectators}
+                          >
+                            <Text
+                              style={[
+                                styles.difficultyButtonText,
+                                spectators.revealDelaySeconds === seconds &&
+                                  styles.difficultyButtonTextActive,
+                              ]}
+                            >
+                              {seconds === null
+                                ? i18n.t('lobby.spectatorsHandsHidden')
+                                : i18n.t('lobby.spectatorsOpenHands', { seconds })}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    )}
+                  </View>
+
+                  {/* Timers Selector - turn, auto-pass and disconnect timers the server enforces */}
+                  <View style={styles.difficultyContainer}>
+                    <Text style={styles.difficultyLabel}>{i18n.t('lobby.timersLabel')}</Text>
+                    <View style={styles.houseRulesButtons}>
+                      {(Object.keys(ROOM_TIMER_PRESETS) as RoomTimerPresetId[]).map(preset => (
+                        <TouchableOpacity
+                          key={preset}
+                          style={[
+                            styles.difficultyButton,
+                            getRoomTimerPresetId(roomTimers) === preset &&
+                              styles.difficultyButtonActive,
+                          ]}
+                          onPress={() => handleTimersChange(preset)}
+                          disabled={isSavingTimers}
+                        >
+                          <Text
+                            style={[
+                              styles.difficultyButtonText,
+                              getRoomTimerPresetId(roomTimers) === preset &&
+                                styles.difficultyButtonTextActive,
+                            ]}
+                          >
+                            {i18n.t(ROOM_TIMER_PRESET_LABEL_KEYS[preset])}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <Text style={styles.houseRulesSummary}>
+                      {i18n.t('lobby.timersSummary', {
+                        turn: roomTimers.turnSeconds,
+                        autoPass: roomTimers.autoPassSeconds,
+                        disconnect: roomTimers.disconnectSeconds,
+                      })}
+                    </Text>
+                  </View>
                 </>
               )}
 
-              {/* Start button: shown when bots are needed OR when 4 humans are all ready */}
+              {/* Start button: shown when bots are needed OR when a full table of humans is ready */}
               {/* Always visible for host so there's a manual fallback if auto-start misfires */}
-              {(humanPlayerCount < 4 || allNonHostHumansReady) && (
+              {(humanPlayerCount < seatCount || allNonHostHumansReady) && (
                 <TouchableOpacity
                   style={[
                     styles.startButton,
@@ -1410,13 +2383,13 @@ export default function LobbyScreen() {
                         {i18n.t('lobby.starting')}...
                       </Text>
                     </>
-                  ) : humanPlayerCount >= 4 ? (
+                  ) : humanPlayerCount >= seatCount ? (
                     <Text style={styles.startButtonText}>🎮 Start Game</Text>
                   ) : (
                     <Text style={styles.startButtonText}>
                       {i18n.t('lobby.startWithBotsCount', {
-                        count: 4 - humanPlayerCount,
-                      }) || `🤖 Start with ${4 - humanPlayerCount} AI Bot(s)`}
+                        count: seatCount - humanPlayerCount,
+                      }) || `🤖 Start with ${seatCount - humanPlayerCount} AI Bot(s)`}
                     </Text>
                   )}
                 </TouchableOpacity>
@@ -1428,14 +2401,16 @@ export default function LobbyScreen() {
             </>
           ) : null}
 
-          {/* Ranked mode - require 4 human players (no bots) */}
+          {/* Ranked mode - require a full table of human players (no bots) */}
           {roomType.isRanked && (
             <View style={styles.rankedInfo}>
               <Text style={styles.rankedInfoText}>
-                🏆 {i18n.t('lobby.rankedRequirement') || 'Ranked matches require 4 human players'}
+                🏆{' '}
+                {i18n.t('lobby.rankedRequirement', { count: seatCount }) ||
+                  `Ranked matches require ${seatCount} human players`}
               </Text>
               <Text style={styles.rankedInfoText}>
-                {humanPlayerCount < 4
+                {humanPlayerCount < seatCount
                   ? i18n.t('lobby.waitingForMorePlayers') || 'Waiting for more players...'
                   : isStarting
                     ? i18n.t('lobby.starting') + '...' || 'Starting...'
@@ -1449,7 +2424,7 @@ export default function LobbyScreen() {
           {/* Non-host players: show waiting message in all non-ranked rooms */}
           {!roomType.isRanked && !isHost && !isGameInProgress && (
             <Text style={styles.waitingInfo}>
-              {humanPlayerCount === 4 && allNonHostHumansReady
+              {humanPlayerCount === seatCount && allNonHostHumansReady
                 ? i18n.t('lobby.starting') + '...' || 'Starting...'
                 : i18n.t('lobby.waitingForHost') || 'Waiting for host to start the game...'}
             </Text>
@@ -1728,6 +2703,40 @@ const styles = StyleSheet.create({
     color: COLORS.white,
     fontWeight: '700',
   },
+  houseRulesButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  botPersonalityAvatar: {
+    fontSize: FONT_SIZES.xl,
+  },
+  botSeatText: {
+    fontSize: FONT_SIZES.xs,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  houseRuleToggle: {
+    alignSelf: 'stretch',
+    paddingVertical: SPACING.xs,
+  },
+  duplicateCodeInput: {
+    minWidth: 110,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  houseRulesSummary: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.white,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+  },
   startButton: {
     backgroundColor: '#8B5CF6',
     padding: SPACING.lg,
@@ -40,6 +40,9 @@ import { RootStackParamList } from '../navigation/AppNavigator';
 import { trackGameEvent } from '../services/analytics';
 import type { Card } from '../game/types';
 import type { GameStateManager } from '../game/state';
+import { getLocalTurnOrder } from '../game/bot';
+import { DEFAULT_SCORING_CONFIG } from '../game/engine/scoring-config';
+import { DEFAULT_ROOM_TIMER_SETTINGS } from '../game/engine/room-timers';
 import type { FinalScore } from '../types/gameEnd';
 import type { ScoreHistory, PlayHistoryMatch } from '../types/scoreboard';
 import { GameContextProvider } from '../contexts/GameContext';
@@ -52,7 +55,12 @@ import { GameView } from './GameView';
 type GameScreenRouteProp = RouteProp<RootStackParamList, 'Game'>;
 type GameScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Game'>;
 
-export function LocalAIGame() {
+interface LocalAIGameProps {
+  /** Save slot the game is restored from and saved to */
+  saveSlot: string;
+}
+
+export function LocalAIGame({ saveSlot }: LocalAIGameProps) {
   const route = useRoute<GameScreenRouteProp>();
   const navigation = useNavigation<GameScreenNavigationProp>();
   const { user, profile } = useAuth();
@@ -67,8 +75,18 @@ export function LocalAIGame() {
     setIsPlayHistoryOpen,
     setIsScoreboardExpanded,
   } = scoreboardContext;
-  const { openGameEndModal, setOnPlayAgain, setOnReturnToMenu } = useGameEnd();
-  const { roomCode, forceNewGame = false, botDifficulty = 'medium' } = route.params;
+  const { openGameEndModal, setOnPlayAgain, setOnReturnToMenu, setOnViewReplay } = useGameEnd();
+  const {
+    roomCode,
+    forceNewGame = false,
+    botDifficulty = 'medium',
+    ruleSet,
+    scoring,
+    startPosition,
+    playerCount = 4,
+    dealVariant,
+    undoLimit,
+  } = route.params;
   const [showSettings, setShowSettings] = useState(false);
 
   // In-game alert ref — orientation-aware replacement for Alert.alert
@@ -122,8 +140,15 @@ export function LocalAIGame() {
     roomCode,
     currentPlayerName,
     forceNewGame,
+    saveSlot,
     isLocalGame: true,
     botDifficulty,
+    ruleSet,
+    scoring,
+    startPosition,
+    playerCount,
+    dealVariant,
+    undoLimit,
     addScoreHistory,
     restoreScoreHistory,
     restorePlayHistory,
@@ -308,6 +333,7 @@ export function LocalAIGame() {
     navigation,
     setOnPlayAgain,
     setOnReturnToMenu,
+    setOnViewReplay,
     clearHistory,
     onAlert: showInGameAlert,
   });
@@ -333,20 +359,20 @@ export function LocalAIGame() {
   // before calling the game manager, giving immediate UI feedback.
   const getOfflineValidationState = useCallback(() => {
     if (!gameState) return null;
-    // Walk forward using the engine's anticlockwise turn order [3,2,0,1] to find
-    // the first active next player (has cards). Using simple modular arithmetic
-    // would produce the wrong player index for the 4-player offline engine.
-    const turnOrder = [3, 2, 0, 1] as const;
+    // Walk forward using the engine's anticlockwise turn order ([3,2,0,1] at four
+    // players) to find the first active next player (has cards). Using simple modular
+    // arithmetic would produce the wrong player index for the offline engine.
     const n = gameState.players.length;
+    const turnOrder = getLocalTurnOrder(n);
     let nextPlayerCardCount: number | undefined;
     if (n > 1) {
-      let nextIndex = turnOrder[gameState.currentPlayerIndex as 0 | 1 | 2 | 3];
+      let nextIndex = turnOrder[gameState.currentPlayerIndex];
       for (let checked = 1; checked < n; checked++) {
         if (nextIndex >= 0 && nextIndex < n && gameState.players[nextIndex].hand.length > 0) {
           nextPlayerCardCount = gameState.players[nextIndex].hand.length;
           break;
         }
-        nextIndex = turnOrder[nextIndex as 0 | 1 | 2 | 3];
+        nextIndex = turnOrder[nextIndex];
       }
     }
     return {
@@ -354,6 +380,7 @@ export function LocalAIGame() {
       isFirstPlayOfGame: gameState.isFirstPlayOfGame ?? false,
       playerHand: effectivePlayerHand,
       nextPlayerCardCount,
+      ruleSet: gameState.ruleSet,
     };
   }, [gameState, effectivePlayerHand]);
 
@@ -377,12 +404,32 @@ export function LocalAIGame() {
     getOfflineValidationState,
     onAlert: showInGameAlert,
     showInGameAlert,
-    // Local AI: 1 human + 3 bots
+    // Local AI: 1 human + 3 bots (fewer at a short table)
     humanCount: 1,
-    botCount: 3,
+    botCount: (gameState?.players.length ?? playerCount) - 1,
     botDifficultyLevel: botDifficulty,
   });
 
+  // Take-backs: the manager rewinds to before the player's last move (and the
+  // bots' turns since); the restored hand is sorted again and the selection cleared.
+  // gameState is a dependency so the status is re-read after every state change.
+  const undoStatus = useMemo(
+    () => (gameState ? gameManagerRef.current?.getUndoStatus() : undefined),
+    [gameState, gameManagerRef]
+  );
+  const handleUndo = useCallback(async () => {
+    const manager = gameManagerRef.current;
+    if (!manager) return;
+    const result = await manager.undo();
+    if (!result.success) {
+      showInGameAlert({ message: i18n.t('game.undoUnavailable') });
+      return;
+    }
+    setSelectedCardIds(new Set());
+    const hand = manager.getState()?.players[0]?.hand ?? [];
+    setCustomCardOrder(sortHandLowestToHighest(hand).map(card => card.id));
+  }, [gameManagerRef, showInGameAlert, setSelectedCardIds, setCustomCardOrder]);
+
   // Computed values
   // useMemo ensures selectedCards only gets a new reference when the hand or
   // selection actually changes (perf/task-628, mirrors MultiplayerGame fix).
@@ -453,6 +500,8 @@ export function LocalAIGame() {
     matchNumber,
   ]);
 
+  const targetScore = (gameState?.scoring ?? DEFAULT_SCORING_CONFIG).targetScore;
+
   // Build the context value; useMemo keeps the object reference stable so that
   // GameView (wrapped in React.memo) only re-renders when game-visible state
   // actually changes (H2 + H4 audit fix).
@@ -485,6 +534,8 @@ export function LocalAIGame() {
       effectiveScoreboardCurrentPlayerIndex,
       displayOrderScoreHistory,
       playHistoryByMatch,
+      targetScore,
+      roomTimers: DEFAULT_ROOM_TIMER_SETTINGS,
       // Local AI games have no server clock sync; offset is always 0
       turnClockOffsetMs: 0,
       handlePlayCards,
@@ -497,6 +548,8 @@ export function LocalAIGame() {
       handleSort,
       handleSmartSort,
       handleHint,
+      handleUndo,
+      undoStatus,
       gameManagerRef,
       isMountedRef,
       // Task #651 / #649: video + voice chat is multiplayer-only; no-op stubs here
@@ -556,6 +609,7 @@ export function LocalAIGame() {
       effectiveScoreboardCurrentPlayerIndex,
       displayOrderScoreHistory,
       playHistoryByMatch,
+      targetScore,
       handlePlayCards,
       handlePass,
       handlePlaySuccess,
@@ -566,6 +620,8 @@ export function LocalAIGame() {
       handleSort,
       handleSmartSort,
       handleHint,
+      handleUndo,
+      undoStatus,
       gameManagerRef,
       isMountedRef,
       showInGameAlert,
@@ -10,8 +10,12 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import GameRecordImportModal from '../components/GameRecordImportModal';
 import { COLORS, SPACING, FONT_SIZES } from '../constants';
 import { useAuth } from '../contexts/AuthContext';
+import { verifyDealSeed } from '../game/engine';
+import { useDuplicateResults } from '../hooks/useDuplicateResults';
+import { useGameRecordExport } from '../hooks/useGameRecordExport';
 import { i18n } from '../i18n';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { supabase } from '../services/supabase';
@@ -28,6 +32,12 @@ interface MatchHistoryEntry {
   /** Display timestamp: finished_at for completed games, created_at for incomplete rows.
    * Named display_timestamp (not created_at) to avoid confusion with true row creation time. */
   display_timestamp: string;
+  /** Revealed deal seed matches the hash published before the deal (null = not revealed yet) */
+  deal_verified: boolean | null;
+  /** Duplicate group this game was a table of, if any */
+  duplicate_group_id: string | null;
+  /** Move-analysis accuracy of the user's own decisions (local games) */
+  accuracy: number | null;
 }
 
 interface GameHistoryRow {
@@ -47,6 +57,10 @@ interface GameHistoryRow {
   voided_user_id: string | null;
   finished_at: string | null;
   created_at: string;
+  deal_seed: string | null;
+  deal_seed_hash: string | null;
+  duplicate_group_id: string | null;
+  accuracy: number | null;
 }
 
 /**
@@ -72,6 +86,13 @@ const MATCH_TYPE_EMOJI: Record<MatchHistoryEntry['game_type'], string> = {
  * - Room code, game type (casual/ranked/private/local)
  * - Final position based on finish ranking derived from player scores (1–4, or 0 for incomplete/voided games)
  * - Match date/time
+ * - Whether the revealed deal seed matches its published hash, and for
+ *   duplicate tables a seat-by-seat comparison with the other tables
+ * - The accuracy of the user's decisions in local games (move analysis)
+ * - A link to the game's replay, and an export of the game as a game record
+ *
+ * Game records shared by others are imported from the header and open in the
+ * replay viewer.
  */
 export default function MatchHistoryScreen() {
   const navigation = useNavigation<MatchHistoryNavigationProp>();
@@ -81,6 +102,10 @@ export default function MatchHistoryScreen() {
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(0);
   const [hasMore, setHasMore] = useState(true);
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+  const duplicate = useDuplicateResults();
+  const { exportGame, exportingId } = useGameRecordExport();
+  const [showImport, setShowImport] = useState(false);
 
   const PAGE_SIZE = 20;
 
@@ -116,7 +141,11 @@ export default function MatchHistoryScreen() {
           winner_id,
           voided_user_id,
           finished_at,
-          created_at
+          created_at,
+          deal_seed,
+          deal_seed_hash,
+          duplicate_group_id,
+          accuracy
         `
         )
         // Performance: migration 20260314000001 adds B-tree partial indexes on each
@@ -189,6 +218,13 @@ export default function MatchHistoryScreen() {
           // created_at is a NOT NULL column in game_history so this is always a
           // valid ISO string; no empty-string fallback needed.
           display_timestamp: item.finished_at ?? item.created_at,
+          deal_verified:
+            item.deal_seed && item.deal_seed_hash
+              ? verifyDealSeed(item.deal_seed, item.deal_seed_hash)
+              : null,
+          duplicate_group_id: item.duplicate_group_id,
+          // Recorded for the human of a local game, who always sits in slot 1
+          accuracy: item.player_1_id === user.id ? item.accuracy : null,
         };
       });
 
@@ -315,8 +351,49 @@ export default function MatchHistoryScreen() {
     [currentLang]
   );
 
+  const toggleDuplicate = (groupId: string) => {
+    if (expandedGroupId === groupId) {
+      setExpandedGroupId(null);
+      return;
+    }
+    setExpandedGroupId(groupId);
+    duplicate.load(groupId);
+  };
+
+  const renderDuplicateResults = () => {
+    if (duplicate.loading) {
+      return <ActivityIndicator size="small" color={COLORS.secondary} />;
+    }
+    if (duplicate.error || !duplicate.results) {
+      return <Text style={styles.dealText}>{i18n.t('matchHistory.duplicateError')}</Text>;
+    }
+    const { results } = duplicate;
+    return (
+      <View style={styles.duplicateResults}>
+        <Text style={styles.dealText}>
+          {i18n.t('matchHistory.duplicateTables', {
+            finished: results.tablesFinished,
+            total: results.tableCount,
+          })}
+        </Text>
+        {results.seats.map(seat => (
+          <View key={`${seat.tableIndex}-${seat.seat}`} style={styles.duplicateRow}>
+            <Text style={styles.duplicateName} numberOfLines={1}>
+              {seat.username}
+            </Text>
+            <Text style={styles.duplicateDelta}>
+              {seat.delta > 0 ? '+' : ''}
+              {seat.delta.toFixed(1)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderMatchCard = ({ item }: { item: MatchHistoryEntry }) => {
     const isRanked = item.game_type === 'ranked';
+    const groupId = item.duplicate_group_id;
 
     return (
       <View style={styles.matchCard}>
@@ -344,7 +421,49 @@ export default function MatchHistoryScreen() {
                   })}
             </Text>
           </View>
+          {item.accuracy !== null && (
+            <Text style={styles.accuracyText}>
+              {i18n.t('matchHistory.accuracy', { percent: item.accuracy })}
+            </Text>
+          )}
+        </View>
+
+        {item.deal_verified !== null && (
+          <Text style={styles.dealText}>
+            {item.deal_verified
+              ? i18n.t('matchHistory.dealVerified')
+              : i18n.t('matchHistory.dealMismatch')}
+          </Text>
+        )}
+
+        <View style={styles.linkRow}>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Replay', { gameHistoryId: item.game_id })}
+          >
+            <Text style={styles.replayLink}>{i18n.t('matchHistory.watchReplay')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => void exportGame(item.game_id)}
+            disabled={exportingId !== null}
+          >
+            {exportingId === item.game_id ? (
+              <ActivityIndicator size="small" color={COLORS.secondary} />
+            ) : (
+              <Text style={styles.replayLink}>{i18n.t('matchHistory.exportGame')}</Text>
+            )}
+          </TouchableOpacity>
         </View>
+
+        {groupId && (
+          <>
+            <TouchableOpacity onPress={() => toggleDuplicate(groupId)}>
+              <Text style={styles.duplicateToggle}>
+                {i18n.t('matchHistory.duplicateCompare')} {expandedGroupId === groupId ? '▲' : '▼'}
+              </Text>
+            </TouchableOpacity>
+            {expandedGroupId === groupId && renderDuplicateResults()}
+          </>
+        )}
       </View>
     );
   };
@@ -373,7 +492,14 @@ export default function MatchHistoryScreen() {
           <Text style={styles.backButtonText}>←</Text>
         </TouchableOpacity>
         <Text style={styles.title}>{i18n.t('matchHistory.title')}</Text>
-        <View style={styles.placeholder} />
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => setShowImport(true)}
+          accessibilityLabel={i18n.t('matchHistory.importGame')}
+          testID="match-history-import"
+        >
+          <Text style={styles.importButtonText}>📥</Text>
+        </TouchableOpacity>
       </View>
 
       {loading && page === 0 ? (
@@ -397,6 +523,15 @@ export default function MatchHistoryScreen() {
           showsVerticalScrollIndicator={true}
         />
       )}
+
+      <GameRecordImportModal
+        visible={showImport}
+        onClose={() => setShowImport(false)}
+        onImport={record => {
+          setShowImport(false);
+          navigation.navigate('Replay', { record });
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -428,14 +563,14 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  importButtonText: {
+    fontSize: 20,
+  },
   title: {
     fontSize: FONT_SIZES.xl,
     fontWeight: 'bold',
     color: COLORS.white,
   },
-  placeholder: {
-    width: 40,
-  },
   loadingContainer: {
     flex: 1,
     alignItems: 'center',
@@ -515,6 +650,50 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.lg,
     fontWeight: 'bold',
   },
+  accuracyText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.secondary,
+    fontWeight: '600',
+  },
+  dealText: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.gray.medium,
+    marginTop: SPACING.xs,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+  },
+  replayLink: {
+    color: COLORS.secondary,
+    fontSize: FONT_SIZES.sm,
+    marginTop: SPACING.xs,
+  },
+  duplicateToggle: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.secondary,
+    fontWeight: '600',
+    marginTop: SPACING.sm,
+  },
+  duplicateResults: {
+    marginTop: SPACING.xs,
+  },
+  duplicateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  duplicateName: {
+    flex: 1,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.white,
+  },
+  duplicateDelta: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.white,
+    fontWeight: '600',
+  },
 
   emptyContainer: {
     alignItems: 'center',
@@ -1,28 +1,76 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import { useFriendsContext } from '../contexts/FriendsContext';
+import {
+  MATCHMAKING_TABLE_SIZE,
+  MAX_MATCHMAKING_PARTY_SIZE,
+  MIN_MATCHMAKING_TABLE_SIZE,
+} from '../game/engine';
 import { i18n } from '../i18n';
 import { RootStackParamList } from '../navigation/AppNavigator';
 
 type MatchTypeSelectionNavigationProp = StackNavigationProp<RootStackParamList, 'Home'>;
 
+const TABLE_SIZE_OPTIONS = Array.from(
+  { length: MATCHMAKING_TABLE_SIZE - MIN_MATCHMAKING_TABLE_SIZE + 1 },
+  (_, i) => MATCHMAKING_TABLE_SIZE - i
+);
+
+/** Friends who can queue with the player at a table of this size */
+function getMaxPartyFriends(tableSize: number): number {
+  return Math.min(MAX_MATCHMAKING_PARTY_SIZE, tableSize - 1) - 1;
+}
+
 /**
  * Match Type Selection Screen
  *
  * Allows users to choose between Casual and Ranked matchmaking
  * - Casual: Play for fun, no ELO changes
  * - Ranked: Competitive play with ELO rating changes
+ * - Picks the table size (two, three or four players)
+ * - Optionally picks up to two friends to queue with as a party (a party
+ *   always sits at a table larger than itself)
  */
 export default function MatchTypeSelectionScreen() {
   const navigation = useNavigation<MatchTypeSelectionNavigationProp>();
   const [selectedType, setSelectedType] = useState<'casual' | 'ranked'>('casual');
+  const [tableSize, setTableSize] = useState<number>(MATCHMAKING_TABLE_SIZE);
+  const [partyMemberIds, setPartyMemberIds] = useState<string[]>([]);
+  const maxPartyFriends = getMaxPartyFriends(tableSize);
+  const { friends, isOnline } = useFriendsContext();
+
+  // Online friends first
+  const partyCandidates = [...friends].sort(
+    (a, b) => Number(isOnline(b.friend.id)) - Number(isOnline(a.friend.id))
+  );
+
+  const togglePartyMember = (friendId: string) => {
+    setPartyMemberIds(current =>
+      current.includes(friendId)
+        ? current.filter(id => id !== friendId)
+        : current.length < maxPartyFriends
+          ? [...current, friendId]
+          : current
+    );
+  };
+
+  const handleTableSizeChange = (size: number) => {
+    setTableSize(size);
+    // A smaller table may no longer have room for every friend picked
+    setPartyMemberIds(current => current.slice(0, getMaxPartyFriends(size)));
+  };
 
   const handleContinue = () => {
-    // Navigate to Matchmaking screen with selected match type
-    navigation.navigate('Matchmaking', { matchType: selectedType });
+    // Navigate to Matchmaking screen with selected match type (and party, if any)
+    navigation.navigate('Matchmaking', {
+      matchType: selectedType,
+      partyMemberIds: partyMemberIds.length > 0 ? partyMemberIds : undefined,
+      tableSize,
+    });
   };
 
   return (
@@ -79,6 +127,61 @@ export default function MatchTypeSelectionScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Table size */}
+        <View style={styles.partyContainer}>
+          <Text style={styles.partyTitle}>🪑 {i18n.t('matchmaking.tableSizeLabel')}</Text>
+          <View style={styles.tableSizeRow}>
+            {TABLE_SIZE_OPTIONS.map(size => (
+              <TouchableOpacity
+                key={size}
+                testID={`table-size-${size}`}
+                style={[styles.partyChip, tableSize === size && styles.partyChipSelected]}
+                onPress={() => handleTableSizeChange(size)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: tableSize === size }}
+              >
+                <Text style={styles.partyChipText}>
+                  {i18n.t('matchmaking.tableSizeOption', { count: size })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Queue with friends */}
+        {maxPartyFriends > 0 && (
+          <View style={styles.partyContainer}>
+            <Text style={styles.partyTitle}>👥 {i18n.t('matchmaking.queueWithFriends')}</Text>
+            <Text style={styles.partyHint}>
+              {partyCandidates.length > 0
+                ? i18n.t('matchmaking.queueWithFriendsHint', {
+                    count: maxPartyFriends,
+                  })
+                : i18n.t('matchmaking.noFriendsForParty')}
+            </Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {partyCandidates.map(item => {
+                const selected = partyMemberIds.includes(item.friend.id);
+                return (
+                  <TouchableOpacity
+                    key={item.id}
+                    testID={`party-friend-${item.friend.id}`}
+                    style={[styles.partyChip, selected && styles.partyChipSelected]}
+                    onPress={() => togglePartyMember(item.friend.id)}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Text style={styles.partyChipText}>
+                      {isOnline(item.friend.id) ? '🟢 ' : ''}
+                      {item.friend.username ?? i18n.t('friends.unknownPlayer')}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+        )}
+
         {/* Continue Button */}
         <TouchableOpacity
           testID="continue-match-type-button"
@@ -179,6 +282,40 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  partyContainer: {
+    width: '100%',
+    marginBottom: SPACING.xl,
+  },
+  partyTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    color: COLORS.white,
+    marginBottom: SPACING.xs,
+  },
+  partyHint: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.gray.light,
+    marginBottom: SPACING.sm,
+  },
+  tableSizeRow: {
+    flexDirection: 'row',
+  },
+  partyChip: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 16,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    marginRight: SPACING.sm,
+  },
+  partyChipSelected: {
+    borderColor: COLORS.success,
+    backgroundColor: 'rgba(16, 185, 129, 0.2)',
+  },
+  partyChipText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
   continueButton: {
     backgroundColor: COLORS.success,
     paddingVertical: SPACING.lg,
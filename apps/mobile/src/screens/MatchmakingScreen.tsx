@@ -13,6 +13,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { COLORS, SPACING, FONT_SIZES } from '../constants';
 import { useAuth } from '../contexts/AuthContext';
+import { MATCHMAKING_TABLE_SIZE } from '../game/engine';
 import { useMatchmaking } from '../hooks/useMatchmaking';
 import { i18n } from '../i18n';
 import { RootStackParamList } from '../navigation/AppNavigator';
@@ -33,7 +34,10 @@ const QUEUE_EXPIRY_SECONDS = 5 * 60;
  * - Shows waiting player count
  * - Real-time updates via Supabase
  * - Auto-navigates to lobby when match found
- * - Skill-based matchmaking (±200 ELO)
+ * - Skill-based matchmaking (rating window sized by the Glicko-2 deviation,
+ *   widening with time in the queue) with the current search range
+ * - Estimated wait from recent matches
+ * - Parties: the leader queues with friends, who join from the invite
  * - Supports Casual and Ranked match types
  */
 export default function MatchmakingScreen() {
@@ -47,6 +51,9 @@ export default function MatchmakingScreen() {
 
   // Get match type from route params (default: 'casual')
   const matchType = route.params?.matchType || 'casual';
+  const partyMemberIds = route.params?.partyMemberIds;
+  const partyId = route.params?.partyId;
+  const requestedTableSize = route.params?.tableSize;
 
   const {
     isSearching,
@@ -55,6 +62,10 @@ export default function MatchmakingScreen() {
     roomCode,
     error,
     queueJoinedAt,
+    estimatedWaitSeconds,
+    partySize,
+    tableSize,
+    searchRangeAt,
     startMatchmaking,
     cancelMatchmaking,
     resetMatch,
@@ -73,13 +84,18 @@ export default function MatchmakingScreen() {
     const region = profile.region || 'global'; // Default to global
 
     // Start searching for match with specified match type
-    void startMatchmaking(username, skillRating, region, matchType);
+    const party = partyMemberIds?.length
+      ? { memberIds: partyMemberIds }
+      : partyId
+        ? { partyId }
+        : undefined;
+    void startMatchmaking(username, skillRating, region, matchType, party, requestedTableSize);
 
     // Cleanup on unmount
     return () => {
       void cancelMatchmaking();
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps -- cancelMatchmaking, matchType, navigation, startMatchmaking intentionally excluded; this effect is intentionally scoped to user/profile changes (representing the authenticated context); including the matchmaking functions would restart matchmaking on every hook re-render
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- cancelMatchmaking, matchType, navigation, partyId, partyMemberIds, requestedTableSize, startMatchmaking intentionally excluded; this effect is intentionally scoped to user/profile changes (representing the authenticated context); including the matchmaking functions would restart matchmaking on every hook re-render
   }, [user, profile]);
 
   // Navigate to lobby when match found
@@ -101,7 +117,9 @@ export default function MatchmakingScreen() {
 
   // P7-2 FIX: Queue expiry countdown — the server expires waiting_room entries
   // after 5 minutes. Show a live countdown so users know when to retry.
+  // The same tick widens the displayed search range.
   const [queueSecondsLeft, setQueueSecondsLeft] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   useEffect(() => {
     if (!queueJoinedAt) {
       setQueueSecondsLeft(null);
@@ -109,8 +127,10 @@ export default function MatchmakingScreen() {
     }
     const expiryMs = new Date(queueJoinedAt).getTime() + QUEUE_EXPIRY_SECONDS * 1000;
     const tick = () => {
-      const remaining = Math.max(0, Math.ceil((expiryMs - Date.now()) / 1000));
+      const current = Date.now();
+      const remaining = Math.max(0, Math.ceil((expiryMs - current) / 1000));
       setQueueSecondsLeft(remaining);
+      setNow(current);
     };
     tick();
     const interval = setInterval(tick, 1000);
@@ -134,7 +154,14 @@ export default function MatchmakingScreen() {
   const getSearchingText = () => {
     if (!isSearching) return i18n.t('matchmaking.initializing');
 
-    if (waitingCount === 0) {
+    if (waitingCount >= tableSize) {
+      return i18n.t('matchmaking.matched');
+    } else if (tableSize < MATCHMAKING_TABLE_SIZE && waitingCount > 0) {
+      return i18n.t('matchmaking.waitingForMore', {
+        count: waitingCount,
+        more: tableSize - waitingCount,
+      });
+    } else if (waitingCount === 0) {
       return i18n.t('matchmaking.searching');
     } else if (waitingCount === 1) {
       return i18n.t('matchmaking.waiting1');
@@ -148,7 +175,9 @@ export default function MatchmakingScreen() {
   };
 
   const getWaitingMessage = () => {
-    if (waitingCount === 0) {
+    if (waitingCount >= tableSize) {
+      return i18n.t('matchmaking.startingGame');
+    } else if (waitingCount === 0) {
       return i18n.t('matchmaking.beFirst');
     } else if (waitingCount === 1) {
       return i18n.t('matchmaking.onePlayerWaiting');
@@ -208,21 +237,67 @@ export default function MatchmakingScreen() {
       </Text>
     ) : null;
 
-  const playersForNextMatch = Math.min(waitingCount, 4);
+  const searchRange = matchFound ? null : searchRangeAt(now);
+  const regionReachLabel = {
+    region: i18n.t('matchmaking.reachRegion'),
+    nearby: i18n.t('matchmaking.reachNearby'),
+    any: i18n.t('matchmaking.reachAny'),
+  };
+  // Estimated wait left, counting down from the server's estimate
+  const waitLeftSeconds =
+    estimatedWaitSeconds !== null && queueJoinedAt
+      ? Math.max(
+          0,
+          estimatedWaitSeconds - Math.floor((now - new Date(queueJoinedAt).getTime()) / 1000)
+        )
+      : null;
+
+  const searchRangeBlock = searchRange ? (
+    <View style={[styles.searchRangeContainer, isLandscape && styles.searchRangeLandscape]}>
+      {partySize !== null && (
+        <Text style={styles.searchRangeText}>
+          👥 {i18n.t('matchmaking.partyQueued', { count: partySize })}
+        </Text>
+      )}
+      <Text style={styles.searchRangeText}>
+        {i18n.t('matchmaking.searchRange', {
+          min: searchRange.minRating,
+          max: searchRange.maxRating,
+          regions: regionReachLabel[searchRange.regionReach],
+        })}
+      </Text>
+      {waitLeftSeconds !== null && waitLeftSeconds > 0 && (
+        <Text style={styles.searchRangeText}>
+          {waitLeftSeconds < 60
+            ? i18n.t('matchmaking.estimatedWaitSeconds', { count: waitLeftSeconds })
+            : i18n.t('matchmaking.estimatedWaitMinutes', {
+                count: Math.round(waitLeftSeconds / 60),
+              })}
+        </Text>
+      )}
+      {partyMemberIds?.length ? (
+        <Text style={styles.searchRangeHint}>{i18n.t('matchmaking.partyInviteSent')}</Text>
+      ) : null}
+    </View>
+  ) : null;
+
+  const playersForNextMatch = Math.min(waitingCount, tableSize);
 
   const progressBlock = (
     <>
       <View style={styles.progressBarContainer}>
-        <View style={[styles.progressBar, { width: `${(playersForNextMatch / 4) * 100}%` }]} />
+        <View
+          style={[styles.progressBar, { width: `${(playersForNextMatch / tableSize) * 100}%` }]}
+        />
       </View>
       <Text style={[styles.progressText, isLandscape && styles.progressTextLandscape]}>
-        {playersForNextMatch}/4 {i18n.t('matchmaking.playersNeeded')}
+        {playersForNextMatch}/{tableSize} {i18n.t('matchmaking.playersNeeded')}
       </Text>
     </>
   );
 
   const roomCodeBlock =
-    roomCode && waitingCount < 4 ? (
+    roomCode && waitingCount < tableSize ? (
       <View style={[styles.roomCodeContainer, isLandscape && styles.roomCodeContainerLandscape]}>
         <Text style={styles.roomCodeLabel}>🔗 {i18n.t('matchmaking.shareWithFriends')}</Text>
         <View style={styles.roomCodeBox}>
@@ -292,6 +367,7 @@ export default function MatchmakingScreen() {
               {searchingAnimation}
               {waitingCountBlock}
               {statusMessage}
+              {searchRangeBlock}
               {queueExpiryBlock}
               {progressBlock}
             </View>
@@ -311,6 +387,7 @@ export default function MatchmakingScreen() {
             {searchingAnimation}
             {waitingCountBlock}
             {statusMessage}
+            {searchRangeBlock}
             {queueExpiryBlock}
             {roomCodeBlock}
             {progressBlock}
@@ -408,6 +485,25 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.xs,
     marginBottom: SPACING.xs,
   },
+  searchRangeContainer: {
+    alignItems: 'center',
+    gap: SPACING.xs,
+    marginBottom: SPACING.md,
+  },
+  searchRangeLandscape: {
+    marginBottom: SPACING.xs,
+  },
+  searchRangeText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.gray.light,
+    textAlign: 'center',
+  },
+  searchRangeHint: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.gray.medium,
+    textAlign: 'center',
+    paddingHorizontal: SPACING.lg,
+  },
   roomCodeContainer: {
     width: '100%',
     backgroundColor: 'rgba(59, 130, 246, 0.1)',
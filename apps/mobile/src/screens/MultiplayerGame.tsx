@@ -62,6 +62,8 @@ import { parseMultiplayerHands } from '../utils/parseMultiplayerHands';
 import { showError } from '../utils/alerts';
 import type { Card } from '../game/types';
 import type { GameStateManager } from '../game/state';
+import { DEFAULT_SCORING_CONFIG } from '../game/engine/scoring-config';
+import { DEFAULT_ROOM_TIMER_SETTINGS } from '../game/engine/room-timers';
 // FinalScore import removed — onGameOver callback replaced by useMatchEndHandler (DB-authoritative path)
 import type {
   GameState as MultiplayerGameState,
@@ -123,7 +125,7 @@ export function MultiplayerGame() {
     setIsPlayHistoryOpen,
     setIsScoreboardExpanded,
   } = scoreboardContext;
-  const { openGameEndModal, setOnPlayAgain, setOnReturnToMenu } = useGameEnd();
+  const { openGameEndModal, setOnPlayAgain, setOnReturnToMenu, setOnViewReplay } = useGameEnd();
   const { roomCode, botDifficulty = 'medium' } = route.params;
   const [showSettings, setShowSettings] = useState(false);
 
@@ -333,10 +335,21 @@ export function MultiplayerGame() {
         routes: [{ name: 'Home' }],
       });
     });
+
+    // complete-game copies play_history to game_history, keyed by room
+    setOnViewReplay(() => () => {
+      const roomId = roomInfoRef.current?.id;
+      gameLogger.info('🎬 [MultiplayerGame] Watch Replay → Replay', roomId);
+      navigation.reset({
+        index: 1,
+        routes: [{ name: 'Home' }, { name: 'Replay', params: { roomId } }],
+      });
+    });
   }, [
     navigation,
     setOnPlayAgain,
     setOnReturnToMenu,
+    setOnViewReplay,
     user?.id,
     profile?.username,
     user?.email,
@@ -1035,8 +1048,10 @@ export function MultiplayerGame() {
       isFirstPlayOfGame: multiplayerGameState.game_phase === 'first_play',
       playerHand: effectivePlayerHand,
       nextPlayerCardCount,
+      ruleSet: roomInfo?.ruleSet,
     };
   }, [
+    roomInfo?.ruleSet,
     multiplayerGameState,
     multiplayerLastPlay,
     effectivePlayerHand,
@@ -1095,9 +1110,12 @@ export function MultiplayerGame() {
     multiplayerGameState?.auto_pass_timer ?? null,
     turnStartedAtMs
   );
+  // The room's turn / auto-pass / disconnect timers (server-enforced; the rings mirror them)
+  const roomTimers = roomInfo?.timers ?? DEFAULT_ROOM_TIMER_SETTINGS;
   const { isMyTurn: _isTurnInactivityMyTurn } = useTurnInactivityTimer({
     gameState: multiplayerGameState,
     room: roomInfo,
+    turnTimeoutMs: roomTimers.turnSeconds * 1000,
     roomPlayers: effectiveMultiplayerPlayers,
     // broadcastMessage omitted — turn_auto_played is supplementary; auto-play is confirmed
     // by the server-authoritative game_state update. Wire to useRealtime.broadcastMessage
@@ -1434,6 +1452,8 @@ export function MultiplayerGame() {
     myPlayerIndex: multiplayerSeatIndex,
   });
 
+  const targetScore = (roomInfo?.scoring ?? DEFAULT_SCORING_CONFIG).targetScore;
+
   // Build the context value; useMemo keeps the object reference stable so that
   // GameView (wrapped in React.memo) only re-renders when game-visible state
   // actually changes (H2 + H4 audit fix).
@@ -1467,6 +1487,8 @@ export function MultiplayerGame() {
       effectiveScoreboardCurrentPlayerIndex,
       displayOrderScoreHistory,
       playHistoryByMatch,
+      targetScore,
+      roomTimers,
       turnClockOffsetMs,
       handlePlayCards,
       handlePass,
@@ -1540,6 +1562,8 @@ export function MultiplayerGame() {
       effectiveScoreboardCurrentPlayerIndex,
       displayOrderScoreHistory,
       playHistoryByMatch,
+      targetScore,
+      roomTimers,
       turnClockOffsetMs,
       handlePlayCards,
       handlePass,
@@ -1592,17 +1616,20 @@ export function MultiplayerGame() {
       return;
     }
 
+    const seatCount = roomInfo.table.playerCount;
     const players =
-      effectiveMultiplayerPlayers.length === 4 ? effectiveMultiplayerPlayers : multiplayerPlayers;
+      effectiveMultiplayerPlayers.length === seatCount
+        ? effectiveMultiplayerPlayers
+        : multiplayerPlayers;
 
     if (players.length < 1) {
       Alert.alert('Dev: Skip to End', 'No player data yet. Wait for game to start.');
       return;
     }
 
-    // Pad to exactly 4 players if needed
+    // Pad to one player per seat if needed
     const paddedPlayers = [...players];
-    while (paddedPlayers.length < 4) {
+    while (paddedPlayers.length < seatCount) {
       paddedPlayers.push({
         ...paddedPlayers[0],
         user_id: `00000000-0000-0000-0000-00000000000${paddedPlayers.length}`,
@@ -1612,7 +1639,7 @@ export function MultiplayerGame() {
       });
     }
 
-    // Current user is winner (pos 1); others get positions 2–4
+    // Current user is winner (pos 1); others get positions 2–n
     let otherPos = 2;
     const payload = {
       room_id: roomInfo.id,
@@ -44,6 +44,10 @@ function notifIcon(type: AppNotification['type']): string {
       return '⏱️';
     case 'all_players_ready':
       return '✅';
+    case 'tournament_table_ready':
+      return '🏆';
+    case 'matchmaking_party':
+      return '👥';
     default:
       return '🔔';
   }
@@ -68,11 +72,21 @@ export default function NotificationsScreen() {
   );
 
   const handleNotifPress = (item: AppNotification) => {
-    if ((item.type === 'game_invite' || item.type === 'room_invite') && item.data?.roomCode) {
+    if (
+      (item.type === 'game_invite' ||
+        item.type === 'room_invite' ||
+        item.type === 'tournament_table_ready') &&
+      item.data?.roomCode
+    ) {
       navigation.navigate('Lobby', {
         roomCode: item.data.roomCode as string,
         joining: true,
       });
+    } else if (item.type === 'matchmaking_party' && item.data?.party_id) {
+      navigation.navigate('Matchmaking', {
+        matchType: item.data.match_type === 'ranked' ? 'ranked' : 'casual',
+        partyId: item.data.party_id as string,
+      });
     } else if (item.type === 'friend_request' || item.type === 'friend_accepted') {
       navigation.navigate('Profile');
     } else if ((item.type === 'game_started' || item.type === 'your_turn') && item.data?.roomCode) {
@@ -0,0 +1,511 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CardImage } from '../components/scoreboard/components/CardImage';
+import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import {
+  buildReplayFrames,
+  getTrickStartSteps,
+  getGameRecordPosition,
+  type ReplayMove,
+} from '../game/engine';
+import {
+  analyzeGame,
+  type MoveAnnotation,
+  type MoveAnnotationKind,
+} from '../game/bot/move-analysis';
+import { useGameReplay } from '../hooks/useGameReplay';
+import { i18n } from '../i18n';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type ReplayScreenRouteProp = RouteProp<RootStackParamList, 'Replay'>;
+type ReplayScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Replay'>;
+
+/** Delay between moves at 1× playback */
+const BASE_STEP_MS = 1200;
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4] as const;
+
+const ANNOTATION_KEYS: Record<MoveAnnotationKind, string> = {
+  'one-card-left': 'replay.oneCardLeft',
+  'missed-beat': 'replay.missedBeat',
+  'broke-straight': 'replay.brokeStraight',
+};
+
+/**
+ * Replay Screen
+ *
+ * Steps through a finished game move by move or trick by trick, with
+ * automatic playback at an adjustable speed. Every match of the game can be
+ * picked from the match bar. All hands are shown once the game's deal seed is
+ * known (see buildGameReplay); otherwise only the card counts are. An
+ * imported game record can be played on from the current position as a
+ * local game against bots. In the viewer's own games their decisions are
+ * checked against the hard bot (analyzeGame): flagged moves are annotated
+ * with a stronger line, and the game gets an accuracy score.
+ */
+export default function ReplayScreen() {
+  const navigation = useNavigation<ReplayScreenNavigationProp>();
+  const route = useRoute<ReplayScreenRouteProp>();
+  const record = route.params?.record;
+  const { replay, viewerSeat, loading, error, reload } = useGameReplay({
+    gameHistoryId: route.params?.gameHistoryId,
+    roomId: route.params?.roomId,
+    record,
+  });
+
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(1);
+
+  const playerNames = useMemo(() => replay?.playerNames ?? [], [replay]);
+  const match = replay?.matches[matchIndex] ?? null;
+  const frames = useMemo(
+    () => (match ? buildReplayFrames(match, playerNames.length) : []),
+    [match, playerNames.length]
+  );
+  const trickStarts = useMemo(() => getTrickStartSteps(frames), [frames]);
+  const lastStep = Math.max(frames.length - 1, 0);
+  const frame = frames[Math.min(step, lastStep)];
+  const startPosition =
+    record && frame ? getGameRecordPosition(record, frame.matchNumber, frame.step) : null;
+  const analysis = useMemo(
+    () => (replay && viewerSeat !== null ? analyzeGame(replay, viewerSeat) : null),
+    [replay, viewerSeat]
+  );
+  const matchAnnotations = useMemo(
+    () =>
+      analysis && match
+        ? analysis.annotations.filter(annotation => annotation.matchNumber === match.matchNumber)
+        : [],
+    [analysis, match]
+  );
+  const annotation = frame
+    ? matchAnnotations.find(candidate => candidate.step === frame.step)
+    : undefined;
+
+  // Automatic playback: one move per tick, stopping at the end of the match
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(
+      () => setStep(current => Math.min(current + 1, lastStep)),
+      BASE_STEP_MS / speed
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, lastStep, speed]);
+
+  const selectMatch = (index: number) => {
+    setIsPlaying(false);
+    setMatchIndex(index);
+    setStep(0);
+  };
+
+  const stepBy = (delta: number) => {
+    setIsPlaying(false);
+    setStep(current => Math.min(Math.max(current + delta, 0), lastStep));
+  };
+
+  const previousTrick = () => {
+    setIsPlaying(false);
+    setStep(current => {
+      const earlier = trickStarts.filter(start => start < current);
+      return earlier.length > 0 ? earlier[earlier.length - 1] : 0;
+    });
+  };
+
+  const nextTrick = () => {
+    setIsPlaying(false);
+    setStep(current => trickStarts.find(start => start > current) ?? lastStep);
+  };
+
+  const nextFlagged = () => {
+    setIsPlaying(false);
+    setStep(current => {
+      const later = matchAnnotations.find(candidate => candidate.step > current);
+      return later ? later.step : (matchAnnotations[0]?.step ?? current);
+    });
+  };
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (step >= lastStep) setStep(0);
+    setIsPlaying(true);
+  };
+
+  const playFromHere = () => {
+    if (!record || !startPosition) return;
+    setIsPlaying(false);
+    navigation.navigate('Game', {
+      roomCode: 'LOCAL_AI_GAME',
+      forceNewGame: true,
+      ruleSet: record.rules,
+      scoring: record.scoring,
+      startPosition,
+    });
+  };
+
+  const describeMove = (move: ReplayMove | null): string => {
+    if (!move) return i18n.t('replay.dealt');
+    const name = playerNames[move.seat] ?? '';
+    return move.passed
+      ? i18n.t('replay.passed', { name })
+      : i18n.t('replay.played', { name, combo: move.comboType });
+  };
+
+  const renderAnnotation = ({ kind, severity, suggested }: MoveAnnotation) => (
+    <View style={[styles.annotation, severity === 'blunder' && styles.annotationBlunder]}>
+      <Text style={styles.annotationTitle}>
+        {severity === 'blunder' ? i18n.t('replay.blunder') : i18n.t('replay.mistake')}
+      </Text>
+      <Text style={styles.moveText}>{i18n.t(ANNOTATION_KEYS[kind])}</Text>
+      <Text style={styles.infoText}>
+        {suggested
+          ? i18n.t('replay.suggestPlay', { cards: suggested.join(' ') })
+          : i18n.t('replay.suggestPass')}
+      </Text>
+    </View>
+  );
+
+  const renderCards = (cards: ReplayMove['cards'], width: number) => (
+    <View style={styles.cardRow}>
+      {cards.map(card => (
+        <CardImage
+          key={card.id}
+          rank={card.rank}
+          suit={card.suit}
+          width={width}
+          height={Math.round(width * 1.45)}
+        />
+      ))}
+    </View>
+  );
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={COLORS.secondary} />
+          <Text style={styles.infoText}>{i18n.t('common.loading')}</Text>
+        </View>
+      );
+    }
+    if (error || !replay || !frame) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.infoText}>
+            {error ? i18n.t('replay.loadError') : i18n.t('replay.notAvailable')}
+          </Text>
+          {error && (
+            <TouchableOpacity style={styles.chip} onPress={() => void reload()}>
+              <Text style={styles.chipText}>{i18n.t('common.tryAgain')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    const lastPlay = frame.trick[frame.trick.length - 1];
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {replay.matches.map((m, index) => (
+            <TouchableOpacity
+              key={m.matchNumber}
+              style={[styles.chip, index === matchIndex && styles.chipActive]}
+              onPress={() => selectMatch(index)}
+            >
+              <Text style={styles.chipText}>{i18n.t('replay.match', { n: m.matchNumber })}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {analysis && analysis.decisions > 0 && (
+          <View style={styles.analysisRow}>
+            <Text style={styles.moveText}>
+              {i18n.t('replay.analysisSummary', {
+                percent: analysis.accuracy,
+                count: analysis.annotations.length,
+              })}
+            </Text>
+            {matchAnnotations.length > 0 && (
+              <TouchableOpacity
+                style={styles.chip}
+                onPress={nextFlagged}
+                testID="replay-next-flagged"
+              >
+                <Text style={styles.chipText}>{i18n.t('replay.nextFlagged')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        <View style={styles.trickArea}>
+          <Text style={styles.trickLabel}>
+            {frame.trickNumber > 0
+              ? i18n.t('replay.trick', { n: frame.trickNumber })
+              : i18n.t('replay.dealt')}
+          </Text>
+          {lastPlay && renderCards(lastPlay.cards, 40)}
+          <Text style={styles.moveText}>{describeMove(frame.move)}</Text>
+          <Text style={styles.infoText}>
+            {i18n.t('replay.move', { current: frame.step, total: lastStep })}
+          </Text>
+        </View>
+
+        {annotation && renderAnnotation(annotation)}
+
+        {playerNames.map((name, seat) => (
+          <View key={seat} style={[styles.seat, frame.move?.seat === seat && styles.seatActive]}>
+            <View style={styles.seatHeader}>
+              <Text style={styles.seatName} numberOfLines={1}>
+                {name}
+              </Text>
+              <Text style={styles.infoText}>
+                {i18n.t('replay.cardsLeft', { count: frame.cardsLeft[seat] ?? 0 })}
+              </Text>
+            </View>
+            {frame.hands && renderCards(frame.hands[seat] ?? [], 24)}
+          </View>
+        ))}
+        {!frame.hands && <Text style={styles.infoText}>{i18n.t('replay.handsHidden')}</Text>}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{i18n.t('replay.title')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {renderBody()}
+
+      {frame && !loading && (
+        <View style={styles.controls}>
+          <View style={styles.controlRow}>
+            <TouchableOpacity style={styles.controlButton} onPress={previousTrick}>
+              <Text style={styles.controlText}>⏮</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.controlButton} onPress={() => stepBy(-1)}>
+              <Text style={styles.controlText}>◀</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.controlButton, styles.playButton]}
+              onPress={togglePlayback}
+              testID="replay-play"
+            >
+              <Text style={styles.controlText}>{isPlaying ? '⏸' : '▶'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.controlButton} onPress={() => stepBy(1)}>
+              <Text style={styles.controlText}>▶|</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.controlButton} onPress={nextTrick}>
+              <Text style={styles.controlText}>⏭</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.controlRow}>
+            <Text style={styles.infoText}>{i18n.t('replay.speed')}</Text>
+            {PLAYBACK_SPEEDS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, speed === option && styles.chipActive]}
+                onPress={() => setSpeed(option)}
+              >
+                <Text style={styles.chipText}>{option}×</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {startPosition && (
+            <TouchableOpacity
+              style={[styles.chip, styles.chipActive, styles.playFromHere]}
+              onPress={playFromHere}
+              testID="replay-play-from-here"
+            >
+              <Text style={styles.chipText}>{i18n.t('replay.playFromHere')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: COLORS.white,
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  placeholder: {
+    width: 40,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    marginRight: SPACING.xs,
+  },
+  chipActive: {
+    backgroundColor: COLORS.secondary,
+  },
+  chipText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  trickArea: {
+    alignItems: 'center',
+    paddingVertical: SPACING.md,
+    borderRadius: 12,
+    backgroundColor: COLORS.table.background,
+    gap: SPACING.xs,
+  },
+  trickLabel: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  moveText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  infoText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: FONT_SIZES.xs,
+  },
+  seat: {
+    padding: SPACING.sm,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  seatActive: {
+    borderColor: COLORS.secondary,
+  },
+  seatHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.xs,
+  },
+  seatName: {
+    flex: 1,
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  cardRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 2,
+  },
+  controls: {
+    padding: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+    gap: SPACING.sm,
+  },
+  controlRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.sm,
+  },
+  controlButton: {
+    width: 48,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playButton: {
+    backgroundColor: COLORS.secondary,
+  },
+  controlText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+  },
+  analysisRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  annotation: {
+    padding: SPACING.sm,
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.warning,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    gap: 2,
+  },
+  annotationBlunder: {
+    borderLeftColor: COLORS.error,
+  },
+  annotationTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: 'bold',
+  },
+  playFromHere: {
+    alignSelf: 'center',
+    marginRight: 0,
+  },
+});
@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import type { RuleSetPresetId } from '../game/engine';
+import { useRoomBrowser, type PublicRoom } from '../hooks/useRoomBrowser';
+import { i18n } from '../i18n';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { trackEvent } from '../services/analytics';
+import { notifyPlayerJoined } from '../services/pushNotificationTriggers';
+import { supabase } from '../services/supabase';
+import { showError, extractErrorMessage } from '../utils';
+import { roomLogger } from '../utils/logger';
+
+type RoomBrowserNavigationProp = StackNavigationProp<RootStackParamList, 'RoomBrowser'>;
+
+const RULE_PRESET_LABEL_KEYS: Record<RuleSetPresetId | 'custom', string> = {
+  standard: 'lobby.rulePresetStandard',
+  taiwanese: 'lobby.rulePresetTaiwanese',
+  'no-twos-in-straights': 'lobby.rulePresetNoTwosInStraights',
+  custom: 'lobby.rulePresetCustom',
+};
+
+/**
+ * Room Browser Screen
+ *
+ * Public rooms waiting for players, with live seat counts. Players can narrow
+ * the list to their own region, ranked or casual tables and one set of house
+ * rules, and join a room with one tap.
+ */
+export default function RoomBrowserScreen() {
+  const navigation = useNavigation<RoomBrowserNavigationProp>();
+  const { user, profile } = useAuth();
+  const [myRegionOnly, setMyRegionOnly] = useState(false);
+  const [ranked, setRanked] = useState<boolean | null>(null);
+  const [rulePreset, setRulePreset] = useState<RuleSetPresetId | 'custom' | null>(null);
+  const [joiningRoomId, setJoiningRoomId] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const region = profile?.region ?? 'global';
+  const { rooms, loading, error, refresh } = useRoomBrowser({
+    region: myRegionOnly ? region : null,
+    ranked,
+    rulePreset,
+  });
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  const handleJoin = async (room: PublicRoom) => {
+    if (!user) {
+      showError(i18n.t('room.mustBeSignedIn'));
+      return;
+    }
+    if (joiningRoomId) return;
+
+    setJoiningRoomId(room.roomId);
+    try {
+      const username = profile?.username || `Player_${user.id.substring(0, 8)}`;
+      const { error: joinError } = await supabase.rpc('join_room_atomic', {
+        p_room_code: room.roomCode,
+        p_user_id: user.id,
+        p_username: username,
+      });
+
+      if (joinError) {
+        roomLogger.error(
+          '❌ [RoomBrowser] Join error:',
+          joinError.message || joinError.code || 'Unknown error'
+        );
+        if (joinError.message?.includes('Room is full')) {
+          showError(i18n.t('room.roomFull'));
+          void refresh();
+        } else if (joinError.message?.includes('already in another room')) {
+          showError(i18n.t('room.alreadyInAnotherRoom'));
+        } else {
+          showError(i18n.t('room.joinRoomError'));
+        }
+        return;
+      }
+
+      trackEvent('room_join_method', { method: 'room_browser' });
+      notifyPlayerJoined(room.roomId, room.roomCode, username, user.id).catch(err =>
+        roomLogger.error('Failed to send player joined notification:', extractErrorMessage(err))
+      );
+      navigation.replace('Lobby', { roomCode: room.roomCode });
+    } catch (err: unknown) {
+      roomLogger.error('[RoomBrowser] Error joining room:', extractErrorMessage(err));
+      showError(i18n.t('room.joinRoomError'));
+    } finally {
+      setJoiningRoomId(null);
+    }
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderFilters = () => (
+    <View style={styles.filters}>
+      <View style={styles.chipRow}>
+        {renderChip(i18n.t('roomBrowser.allRegions'), !myRegionOnly, () => setMyRegionOnly(false))}
+        {renderChip(`${i18n.t('roomBrowser.myRegion')} (${region})`, myRegionOnly, () =>
+          setMyRegionOnly(true)
+        )}
+      </View>
+      <View style={styles.chipRow}>
+        {renderChip(i18n.t('roomBrowser.anyMode'), ranked === null, () => setRanked(null))}
+        {renderChip(i18n.t('room.casual'), ranked === false, () => setRanked(false))}
+        {renderChip(i18n.t('room.ranked'), ranked === true, () => setRanked(true))}
+      </View>
+      <View style={styles.chipRow}>
+        {renderChip(i18n.t('roomBrowser.anyRules'), rulePreset === null, () => setRulePreset(null))}
+        {(Object.keys(RULE_PRESET_LABEL_KEYS) as (RuleSetPresetId | 'custom')[]).map(preset =>
+          renderChip(i18n.t(RULE_PRESET_LABEL_KEYS[preset]), rulePreset === preset, () =>
+            setRulePreset(preset)
+          )
+        )}
+      </View>
+    </View>
+  );
+
+  const renderRoom = ({ item }: { item: PublicRoom }) => {
+    const isJoining = joiningRoomId === item.roomId;
+    return (
+      <View style={styles.roomCard}>
+        <View style={styles.roomInfo}>
+          <Text style={styles.roomTitle} numberOfLines={1}>
+            {item.title ??
+              i18n.t('roomBrowser.untitled', { host: item.hostUsername ?? item.roomCode })}
+          </Text>
+          <Text style={styles.roomMeta} numberOfLines={1}>
+            {i18n.t('roomBrowser.players', { count: item.playerCount, max: item.maxPlayers })} ·{' '}
+            {i18n.t(item.isRanked ? 'room.ranked' : 'room.casual')} ·{' '}
+            {i18n.t(RULE_PRESET_LABEL_KEYS[item.rulePreset] ?? RULE_PRESET_LABEL_KEYS.custom)}
+          </Text>
+          <Text style={styles.roomMeta} numberOfLines={1}>
+            {i18n.t('roomBrowser.bots', { difficulty: i18n.t(`lobby.${item.botDifficulty}`) })} · ⏱{' '}
+            {i18n.t('room.seconds', { seconds: item.turnTimerSeconds })} · {item.region}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.joinButton, !!joiningRoomId && styles.buttonDisabled]}
+          onPress={() => void handleJoin(item)}
+          disabled={!!joiningRoomId}
+          testID={`room-browser-join-${item.roomCode}`}
+        >
+          {isJoining ? (
+            <ActivityIndicator color={COLORS.white} />
+          ) : (
+            <Text style={styles.joinButtonText}>{i18n.t('roomBrowser.join')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{i18n.t('roomBrowser.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {renderFilters()}
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={COLORS.secondary} />
+        </View>
+      ) : (
+        <FlatList
+          data={rooms}
+          keyExtractor={room => room.roomId}
+          renderItem={renderRoom}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => void handleRefresh()}
+              tintColor={COLORS.white}
+            />
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {error ? i18n.t('roomBrowser.loadError') : i18n.t('roomBrowser.empty')}
+            </Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: COLORS.white,
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  filters: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipActive: {
+    backgroundColor: COLORS.secondary,
+  },
+  chipText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: FONT_SIZES.sm,
+  },
+  chipTextActive: {
+    color: COLORS.white,
+    fontWeight: '600',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    padding: SPACING.md,
+    paddingTop: 0,
+    gap: SPACING.sm,
+  },
+  roomCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.md,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    gap: SPACING.md,
+  },
+  roomInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  roomTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  roomMeta: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: FONT_SIZES.xs,
+  },
+  joinButton: {
+    minWidth: 72,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: 8,
+    backgroundColor: '#8B5CF6',
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  joinButtonText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: FONT_SIZES.sm,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+});
@@ -0,0 +1,252 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CardImage } from '../components/scoreboard/components/CardImage';
+import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import { useSpectator, type SpectatorSeat } from '../hooks/useSpectator';
+import { i18n } from '../i18n';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import type { Card } from '../types/multiplayer';
+
+type SpectateScreenRouteProp = RouteProp<RootStackParamList, 'Spectate'>;
+type SpectateScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Spectate'>;
+
+/**
+ * Spectate Screen
+ *
+ * Read-only view of a game in progress, opened from a friend's card or a
+ * spectate link. Spectators see what the players see of each other: card
+ * counts, the last play and the scores. In rooms with delayed open hands
+ * every hand is shown, but the whole view trails the table by the room's
+ * delay.
+ */
+export default function SpectateScreen() {
+  const navigation = useNavigation<SpectateScreenNavigationProp>();
+  const route = useRoute<SpectateScreenRouteProp>();
+  const { view, loading, error, refresh } = useSpectator(route.params.roomCode);
+
+  const nameOf = (playerIndex: number | null) =>
+    view?.seats.find(seat => seat.playerIndex === playerIndex)?.username ?? '';
+
+  const renderCards = (cards: Card[], width: number) => (
+    <View style={styles.cardRow}>
+      {cards.map(card => (
+        <CardImage
+          key={card.id}
+          rank={card.rank}
+          suit={card.suit}
+          width={width}
+          height={Math.round(width * 1.45)}
+        />
+      ))}
+    </View>
+  );
+
+  const renderSeat = (seat: SpectatorSeat) => (
+    <View
+      key={seat.playerIndex}
+      style={[styles.seat, view?.currentTurn === seat.playerIndex && styles.seatActive]}
+    >
+      <View style={styles.seatHeader}>
+        <Text style={styles.seatName} numberOfLines={1}>
+          {seat.isBot ? `🤖 ${seat.username}` : seat.username}
+        </Text>
+        <Text style={styles.infoText}>
+          {i18n.t('spectate.cardsLeft', { count: seat.cardCount })} ·{' '}
+          {i18n.t('spectate.score', { score: seat.score })}
+        </Text>
+      </View>
+      {seat.hand && renderCards(seat.hand, 24)}
+    </View>
+  );
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={COLORS.secondary} />
+          <Text style={styles.infoText}>{i18n.t('common.loading')}</Text>
+        </View>
+      );
+    }
+    if (error || !view) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.infoText}>{error ?? i18n.t('spectate.loadError')}</Text>
+          <TouchableOpacity style={styles.chip} onPress={() => navigation.goBack()}>
+            <Text style={styles.chipText}>{i18n.t('common.back')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const isGameOver = view.gamePhase === 'game_over' || view.roomStatus === 'finished';
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.infoText}>
+          {view.revealDelaySeconds !== null
+            ? i18n.t('spectate.openHandsDelay', { seconds: view.revealDelaySeconds })
+            : i18n.t('spectate.handsHidden')}
+        </Text>
+
+        {view.gamePhase === null ? (
+          <View style={styles.trickArea}>
+            <Text style={styles.moveText}>
+              {i18n.t('spectate.startsSoon', { seconds: view.revealDelaySeconds ?? 0 })}
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.trickArea}>
+            <Text style={styles.trickLabel}>
+              {isGameOver
+                ? i18n.t('spectate.gameOver', { name: nameOf(view.winnerIndex) })
+                : i18n.t('spectate.match', { n: view.matchNumber })}
+            </Text>
+            {view.lastPlay && renderCards(view.lastPlay.cards, 40)}
+            <Text style={styles.moveText}>
+              {view.lastPlay
+                ? i18n.t('spectate.played', {
+                    name: nameOf(view.lastPlay.playerIndex),
+                    combo: view.lastPlay.comboType,
+                  })
+                : i18n.t('spectate.newTrick')}
+            </Text>
+            {!isGameOver && view.currentTurn !== null && (
+              <Text style={styles.infoText}>
+                {i18n.t('spectate.toPlay', { name: nameOf(view.currentTurn) })}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {view.seats.map(renderSeat)}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{i18n.t('spectate.title')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => void refresh()}>
+          <Text style={styles.backButtonText}>↻</Text>
+        </TouchableOpacity>
+      </View>
+
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: COLORS.white,
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+    padding: SPACING.md,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  trickArea: {
+    alignItems: 'center',
+    paddingVertical: SPACING.md,
+    borderRadius: 12,
+    backgroundColor: COLORS.table.background,
+    gap: SPACING.xs,
+  },
+  trickLabel: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  moveText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  infoText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: FONT_SIZES.xs,
+  },
+  seat: {
+    padding: SPACING.sm,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  seatActive: {
+    borderColor: COLORS.secondary,
+  },
+  seatHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.xs,
+  },
+  seatName: {
+    flex: 1,
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+  },
+  cardRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 2,
+  },
+});
@@ -17,6 +17,7 @@ import { formatDistanceToNow } from 'date-fns/formatDistanceToNow'; // M25: path
 import { format } from 'date-fns/format'; // M25: path import for tree-shaking
 import { SafeAreaView } from 'react-native-safe-area-context';
 import EmptyState from '../components/EmptyState';
+import SeasonHistory from '../components/stats/SeasonHistory';
 import StreakGraph from '../components/stats/StreakGraph';
 import { AddFriendButton } from '../components/friends';
 import { COLORS, SPACING, FONT_SIZES, MODAL_SUPPORTED_ORIENTATIONS } from '../constants';
@@ -188,7 +189,7 @@ interface GameHistoryEntry {
   voided_user_id: string | null;
 }
 
-type StatsTab = 'overview' | 'casual' | 'private' | 'ranked';
+type StatsTab = 'overview' | 'casual' | 'private' | 'ranked' | 'seasons';
 type HistoryTab = 'recent' | 'won' | 'lost' | 'incomplete';
 
 /**
@@ -806,15 +807,17 @@ export default function StatsScreen() {
             // second case covers games where player_X_was_bot wasn't persisted.
             const isBot = wasBot === true || !!originalUsername;
 
-            // Build difficulty tag: (E) easy, (M) medium (default), (H) hard.
-            // Always emit a tag whenever we know the player is a bot, even when
-            // bot_difficulty is null (NULL → treat as medium).
+            // Build difficulty tag: (E) easy, (M) medium (default), (H) hard,
+            // (X) expert. Always emit a tag whenever we know the player is a bot,
+            // even when bot_difficulty is null (NULL → treat as medium).
             const difficultyTag = isBot
               ? item.bot_difficulty === 'easy'
                 ? ' (E)'
                 : item.bot_difficulty === 'hard'
                   ? ' (H)'
-                  : ' (M)'
+                  : item.bot_difficulty === 'expert'
+                    ? ' (X)'
+                    : ' (M)'
               : '';
 
             return (
@@ -940,9 +943,9 @@ export default function StatsScreen() {
           {stats.global_rank && <Text style={styles.globalRank}>#{stats.global_rank} Global</Text>}
         </View>
 
-        {/* Tab Bar: Overview / Casual / Private / Ranked */}
+        {/* Tab Bar: Overview / Casual / Private / Ranked / Seasons */}
         <View style={styles.tabBar}>
-          {(['overview', 'casual', 'private', 'ranked'] as StatsTab[]).map(tab => (
+          {(['overview', 'casual', 'private', 'ranked', 'seasons'] as StatsTab[]).map(tab => (
             <TouchableOpacity
               key={tab}
               style={[styles.tabButton, activeTab === tab && styles.tabButtonActive]}
@@ -955,6 +958,7 @@ export default function StatsScreen() {
                     casual: `🎮 ${i18n.t('matchmaking.casual')}`,
                     private: `🔒 ${i18n.t('profile.private')}`,
                     ranked: `🏆 ${i18n.t('matchmaking.ranked')}`,
+                    seasons: `📅 ${i18n.t('profile.seasons')}`,
                   } as Record<string, string>
                 )[tab] ?? tab}
               </Text>
@@ -962,380 +966,431 @@ export default function StatsScreen() {
           ))}
         </View>
 
-        {/* Mode-Aware Key Stats */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>
-            {(
-              {
-                overview: i18n.t('profile.overview'),
-                casual: i18n.t('profile.casualStats'),
-                private: i18n.t('profile.privateStats'),
-                ranked: i18n.t('profile.rankedStats'),
-              } as Record<string, string>
-            )[activeTab] ?? activeTab}
-          </Text>
+        {/* Seasons tab: current season and past season tiers instead of mode stats */}
+        {activeTab === 'seasons' && userId ? (
+          <SeasonHistory userId={userId} />
+        ) : (
+          <>
+            {/* Mode-Aware Key Stats */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>
+                {(
+                  {
+                    overview: i18n.t('profile.overview'),
+                    casual: i18n.t('profile.casualStats'),
+                    private: i18n.t('profile.privateStats'),
+                    ranked: i18n.t('profile.rankedStats'),
+                  } as Record<string, string>
+                )[activeTab] ?? activeTab}
+              </Text>
 
-          {/* Core 4 cards — played / win rate / won / lost */}
-          <View style={styles.statsGrid}>
-            {activeTab === 'overview' && (
-              <>
-                {renderStatCard(i18n.t('profile.gamesPlayed'), stats.games_played, '🎮')}
-                {renderStatCard(i18n.t('profile.winRate'), `${stats.win_rate.toFixed(1)}%`, '🏆')}
-                {renderStatCard(i18n.t('profile.gamesWon'), stats.games_won, '✅')}
-                {renderStatCard(i18n.t('profile.gamesLost'), stats.games_lost, '❌')}
-              </>
-            )}
-            {activeTab === 'casual' && (
-              <>
-                {renderStatCard(
-                  i18n.t('profile.gamesPlayed'),
-                  stats.casual_games_played || 0,
-                  '🎮'
-                )}
-                {renderStatCard(
-                  i18n.t('profile.winRate'),
-                  `${(stats.casual_win_rate || 0).toFixed(1)}%`,
-                  '🏆'
-                )}
-                {renderStatCard(i18n.t('profile.gamesWon'), stats.casual_games_won || 0, '✅')}
-                {renderStatCard(i18n.t('profile.gamesLost'), stats.casual_games_lost || 0, '❌')}
-              </>
-            )}
-            {activeTab === 'private' && (
-              <>
-                {renderStatCard(
-                  i18n.t('profile.gamesPlayed'),
-                  stats.private_games_played || 0,
-                  '🎮'
+              {/* Core 4 cards — played / win rate / won / lost */}
+              <View style={styles.statsGrid}>
+                {activeTab === 'overview' && (
+                  <>
+                    {renderStatCard(i18n.t('profile.gamesPlayed'), stats.games_played, '🎮')}
+                    {renderStatCard(
+                      i18n.t('profile.winRate'),
+                      `${stats.win_rate.toFixed(1)}%`,
+                      '🏆'
+                    )}
+                    {renderStatCard(i18n.t('profile.gamesWon'), stats.games_won, '✅')}
+                    {renderStatCard(i18n.t('profile.gamesLost'), stats.games_lost, '❌')}
+                  </>
                 )}
-                {renderStatCard(
-                  i18n.t('profile.winRate'),
-                  `${(stats.private_win_rate || 0).toFixed(1)}%`,
-                  '🏆'
+                {activeTab === 'casual' && (
+                  <>
+                    {renderStatCard(
+                      i18n.t('profile.gamesPlayed'),
+                      stats.casual_games_played || 0,
+                      '🎮'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.winRate'),
+                      `${(stats.casual_win_rate || 0).toFixed(1)}%`,
+                      '🏆'
+                    )}
+                    {renderStatCard(i18n.t('profile.gamesWon'), stats.casual_games_won || 0, '✅')}
+                    {renderStatCard(
+                      i18n.t('profile.gamesLost'),
+                      stats.casual_games_lost || 0,
+                      '❌'
+                    )}
+                  </>
                 )}
-                {renderStatCard(i18n.t('profile.gamesWon'), stats.private_games_won || 0, '✅')}
-                {renderStatCard(i18n.t('profile.gamesLost'), stats.private_games_lost || 0, '❌')}
-              </>
-            )}
-            {activeTab === 'ranked' && (
-              <>
-                {renderStatCard(
-                  i18n.t('profile.gamesPlayed'),
-                  stats.ranked_games_played || 0,
-                  '🎮'
+                {activeTab === 'private' && (
+                  <>
+                    {renderStatCard(
+                      i18n.t('profile.gamesPlayed'),
+                      stats.private_games_played || 0,
+                      '🎮'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.winRate'),
+                      `${(stats.private_win_rate || 0).toFixed(1)}%`,
+                      '🏆'
+                    )}
+                    {renderStatCard(i18n.t('profile.gamesWon'), stats.private_games_won || 0, '✅')}
+                    {renderStatCard(
+                      i18n.t('profile.gamesLost'),
+                      stats.private_games_lost || 0,
+                      '❌'
+                    )}
+                  </>
                 )}
-                {renderStatCard(
-                  i18n.t('profile.winRate'),
-                  `${(stats.ranked_win_rate || 0).toFixed(1)}%`,
-                  '🏆'
+                {activeTab === 'ranked' && (
+                  <>
+                    {renderStatCard(
+                      i18n.t('profile.gamesPlayed'),
+                      stats.ranked_games_played || 0,
+                      '🎮'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.winRate'),
+                      `${(stats.ranked_win_rate || 0).toFixed(1)}%`,
+                      '🏆'
+                    )}
+                    {renderStatCard(i18n.t('profile.gamesWon'), stats.ranked_games_won || 0, '✅')}
+                    {renderStatCard(
+                      i18n.t('profile.gamesLost'),
+                      stats.ranked_games_lost || 0,
+                      '❌'
+                    )}
+                  </>
                 )}
-                {renderStatCard(i18n.t('profile.gamesWon'), stats.ranked_games_won || 0, '✅')}
-                {renderStatCard(i18n.t('profile.gamesLost'), stats.ranked_games_lost || 0, '❌')}
-              </>
-            )}
-          </View>
+              </View>
 
-          {/* Rank Points + secondary metric — overview, casual, ranked, private */}
-          <View style={[styles.statsGrid, { marginTop: SPACING.md }]}>
-            {activeTab === 'overview' && (
-              <>
-                {/* Overview rank = casual ELO (canonical; synced in migration 20260309000004) */}
-                {renderStatCard(
-                  i18n.t('profile.rankPoints'),
-                  stats.casual_rank_points ?? stats.rank_points,
-                  '⭐'
-                )}
-                {renderStatCard(
-                  i18n.t('profile.rank'),
-                  stats.global_rank ? `#${stats.global_rank}` : '#N/A',
-                  '🌐'
-                )}
-              </>
-            )}
-            {activeTab === 'casual' && (
-              <>
-                {renderStatCard(i18n.t('profile.rankPoints'), stats.casual_rank_points || 0, '⭐')}
-                {renderStatCard(
-                  i18n.t('profile.totalPoints'),
-                  (stats.casual_total_points || 0).toLocaleString(),
-                  '💎'
-                )}
-              </>
-            )}
-            {activeTab === 'ranked' && (
-              <>
-                {renderStatCard(i18n.t('profile.rankPoints'), stats.ranked_rank_points || 0, '⭐')}
-                {renderStatCard(
-                  i18n.t('profile.rank'),
-                  stats.global_rank ? `#${stats.global_rank}` : '#N/A',
-                  '🌐'
+              {/* Rank Points + secondary metric — overview, casual, ranked, private */}
+              <View style={[styles.statsGrid, { marginTop: SPACING.md }]}>
+                {activeTab === 'overview' && (
+                  <>
+                    {/* Overview rank = casual ELO (canonical; synced in migration 20260309000004) */}
+                    {renderStatCard(
+                      i18n.t('profile.rankPoints'),
+                      stats.casual_rank_points ?? stats.rank_points,
+                      '⭐'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.rank'),
+                      stats.global_rank ? `#${stats.global_rank}` : '#N/A',
+                      '🌐'
+                    )}
+                  </>
                 )}
-                {renderStatCard(
-                  i18n.t('profile.totalPoints'),
-                  (stats.ranked_total_points || 0).toLocaleString(),
-                  '💎'
+                {activeTab === 'casual' && (
+                  <>
+                    {renderStatCard(
+                      i18n.t('profile.rankPoints'),
+                      stats.casual_rank_points || 0,
+                      '⭐'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.totalPoints'),
+                      (stats.casual_total_points || 0).toLocaleString(),
+                      '💎'
+                    )}
+                  </>
                 )}
-              </>
-            )}
-            {activeTab === 'private' && (
-              <>
-                {renderStatCard(
-                  i18n.t('profile.totalPoints'),
-                  (stats.private_total_points || 0).toLocaleString(),
-                  '💎'
+                {activeTab === 'ranked' && (
+                  <>
+                    {renderStatCard(
+                      i18n.t('profile.rankPoints'),
+                      stats.ranked_rank_points || 0,
+                      '⭐'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.rank'),
+                      stats.global_rank ? `#${stats.global_rank}` : '#N/A',
+                      '🌐'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.totalPoints'),
+                      (stats.ranked_total_points || 0).toLocaleString(),
+                      '💎'
+                    )}
+                  </>
                 )}
-                {renderStatCard(
-                  i18n.t('profile.avgScore'),
-                  (stats.private_avg_score_per_game || 0).toFixed(0),
-                  '📈'
+                {activeTab === 'private' && (
+                  <>
+                    {renderStatCard(
+                      i18n.t('profile.totalPoints'),
+                      (stats.private_total_points || 0).toLocaleString(),
+                      '💎'
+                    )}
+                    {renderStatCard(
+                      i18n.t('profile.avgScore'),
+                      (stats.private_avg_score_per_game || 0).toFixed(0),
+                      '📈'
+                    )}
+                  </>
                 )}
-              </>
-            )}
-          </View>
-
-          {/* Streaks — all tabs */}
-          <Text style={[styles.sectionTitle, { marginTop: SPACING.lg }]}>
-            {i18n.t('profile.streaks')}
-          </Text>
-          <View style={styles.streaksContainer}>
-            <View style={styles.streakItem}>
-              <Text style={styles.streakLabel}>{i18n.t('profile.currentStreak')}</Text>
-              <Text
-                style={[
-                  styles.streakValue,
-                  stats.current_win_streak > 0 && styles.streakValueActive,
-                ]}
-              >
-                {stats.current_win_streak > 0
-                  ? `🔥 ${stats.current_win_streak} ${i18n.t('profile.wins')}`
-                  : stats.current_loss_streak > 0
-                    ? `❄️ ${stats.current_loss_streak} ${i18n.t('profile.losses')}`
-                    : 'None'}
-              </Text>
-            </View>
-            <View style={styles.streakItem}>
-              <Text style={styles.streakLabel}>{i18n.t('profile.bestStreak')}</Text>
-              <Text style={styles.streakValue}>
-                🏅 {stats.longest_win_streak} {i18n.t('profile.wins')}
-              </Text>
-            </View>
-          </View>
+              </View>
 
-          {/* Total Points row — private only (ranked has a dedicated stat card above) */}
-          {activeTab === 'private' && (
-            <View style={styles.infoRow}>
-              <Text style={styles.infoLabel}>{i18n.t('profile.totalScore')}</Text>
-              <Text style={styles.infoValue}>
-                {(stats.private_total_points || 0).toLocaleString()}
+              {/* Streaks — all tabs */}
+              <Text style={[styles.sectionTitle, { marginTop: SPACING.lg }]}>
+                {i18n.t('profile.streaks')}
               </Text>
-            </View>
-          )}
-        </View>
-
-        {/* Game Completion Section — all tabs; uses per-mode DB columns + clamped % */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>{i18n.t('profile.gameCompletion')}</Text>
-          <View style={styles.completionContainer}>
-            <View style={styles.completionMain}>
-              <View style={styles.completionCircle}>
-                <Text style={styles.completionPercentage}>{modeCompletionRate.toFixed(0)}%</Text>
-                <Text style={styles.completionLabel}>{i18n.t('profile.completed')}</Text>
-              </View>
-              <View style={styles.completionDetails}>
-                <View style={styles.completionRow}>
-                  <Text style={styles.completionDetailLabel}>✅ {i18n.t('profile.completed')}</Text>
-                  <Text style={styles.completionDetailValue}>{modeGamesCompleted}</Text>
+              <View style={styles.streaksContainer}>
+                <View style={styles.streakItem}>
+                  <Text style={styles.streakLabel}>{i18n.t('profile.currentStreak')}</Text>
+                  <Text
+                    style={[
+                      styles.streakValue,
+                      stats.current_win_streak > 0 && styles.streakValueActive,
+                    ]}
+                  >
+                    {stats.current_win_streak > 0
+                      ? `🔥 ${stats.current_win_streak} ${i18n.t('profile.wins')}`
+                      : stats.current_loss_streak > 0
+                        ? `❄️ ${stats.current_loss_streak} ${i18n.t('profile.losses')}`
+                        : 'None'}
+                  </Text>
                 </View>
-                <View style={styles.completionRow}>
-                  <Text style={styles.completionDetailLabel}>🚪 {i18n.t('profile.abandoned')}</Text>
-                  <Text style={styles.completionDetailValue}>{modeGamesAbandoned}</Text>
+                <View style={styles.streakItem}>
+                  <Text style={styles.streakLabel}>{i18n.t('profile.bestStreak')}</Text>
+                  <Text style={styles.streakValue}>
+                    🏅 {stats.longest_win_streak} {i18n.t('profile.wins')}
+                  </Text>
                 </View>
-                <View style={styles.completionRow}>
-                  <Text style={styles.completionDetailLabel}>🏳️ {i18n.t('profile.voided')}</Text>
-                  <Text style={styles.completionDetailValue}>{modeGamesVoided}</Text>
+              </View>
+
+              {/* Total Points row — private only (ranked has a dedicated stat card above) */}
+              {activeTab === 'private' && (
+                <View style={styles.infoRow}>
+                  <Text style={styles.infoLabel}>{i18n.t('profile.totalScore')}</Text>
+                  <Text style={styles.infoValue}>
+                    {(stats.private_total_points || 0).toLocaleString()}
+                  </Text>
                 </View>
-                {activeTab === 'overview' && (
-                  <>
+              )}
+            </View>
+
+            {/* Game Completion Section — all tabs; uses per-mode DB columns + clamped % */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{i18n.t('profile.gameCompletion')}</Text>
+              <View style={styles.completionContainer}>
+                <View style={styles.completionMain}>
+                  <View style={styles.completionCircle}>
+                    <Text style={styles.completionPercentage}>
+                      {modeCompletionRate.toFixed(0)}%
+                    </Text>
+                    <Text style={styles.completionLabel}>{i18n.t('profile.completed')}</Text>
+                  </View>
+                  <View style={styles.completionDetails}>
                     <View style={styles.completionRow}>
                       <Text style={styles.completionDetailLabel}>
-                        🔥 {i18n.t('profile.currentStreak')}
-                      </Text>
-                      <Text
-                        style={[
-                          styles.completionDetailValue,
-                          (stats.current_completion_streak || 0) > 0 && styles.streakValueActive,
-                        ]}
-                      >
-                        {stats.current_completion_streak || 0}
+                        ✅ {i18n.t('profile.completed')}
                       </Text>
+                      <Text style={styles.completionDetailValue}>{modeGamesCompleted}</Text>
                     </View>
                     <View style={styles.completionRow}>
                       <Text style={styles.completionDetailLabel}>
-                        🏅 {i18n.t('profile.bestStreak')}
+                        🚪 {i18n.t('profile.abandoned')}
                       </Text>
-                      <Text style={styles.completionDetailValue}>
-                        {stats.longest_completion_streak || 0}
+                      <Text style={styles.completionDetailValue}>{modeGamesAbandoned}</Text>
+                    </View>
+                    <View style={styles.completionRow}>
+                      <Text style={styles.completionDetailLabel}>
+                        🏳️ {i18n.t('profile.voided')}
                       </Text>
+                      <Text style={styles.completionDetailValue}>{modeGamesVoided}</Text>
                     </View>
-                  </>
-                )}
+                    {activeTab === 'overview' && (
+                      <>
+                        <View style={styles.completionRow}>
+                          <Text style={styles.completionDetailLabel}>
+                            🔥 {i18n.t('profile.currentStreak')}
+                          </Text>
+                          <Text
+                            style={[
+                              styles.completionDetailValue,
+                              (stats.current_completion_streak || 0) > 0 &&
+                                styles.streakValueActive,
+                            ]}
+                          >
+                            {stats.current_completion_streak || 0}
+                          </Text>
+                        </View>
+                        <View style={styles.completionRow}>
+                          <Text style={styles.completionDetailLabel}>
+                            🏅 {i18n.t('profile.bestStreak')}
+                          </Text>
+                          <Text style={styles.completionDetailValue}>
+                            {stats.longest_completion_streak || 0}
+                          </Text>
+                        </View>
+                      </>
+                    )}
+                  </View>
+                </View>
               </View>
             </View>
-          </View>
-        </View>
 
-        {/* Standalone Streaks section removed — now rendered inline in core stats section above */}
-
-        {/* Rank Progression Graph — Overview + Ranked only */}
-        {(activeTab === 'overview' || activeTab === 'ranked') && userId && (
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>{i18n.t('profile.rankProgression')}</Text>
-            <StreakGraph
-              gameHistory={gameHistory.filter(g => g.game_completed === true)}
-              userId={userId}
-              rankPointsHistory={
-                activeTab === 'ranked'
-                  ? Array.isArray(stats.rank_points_history)
-                    ? stats.rank_points_history.filter(e => e?.game_type === 'ranked')
-                    : undefined
-                  : stats.rank_points_history || undefined
-              }
-              totalGamesPlayed={
-                activeTab === 'ranked'
-                  ? (stats.ranked_games_played ?? undefined)
-                  : (stats.games_played ?? undefined)
-              }
-            />
-          </View>
-        )}
+            {/* Standalone Streaks section removed — now rendered inline in core stats section above */}
+
+            {/* Rank Progression Graph — Overview + Ranked only */}
+            {(activeTab === 'overview' || activeTab === 'ranked') && userId && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{i18n.t('profile.rankProgression')}</Text>
+                <StreakGraph
+                  gameHistory={gameHistory.filter(g => g.game_completed === true)}
+                  userId={userId}
+                  rankPointsHistory={
+                    activeTab === 'ranked'
+                      ? Array.isArray(stats.rank_points_history)
+                        ? stats.rank_points_history.filter(e => e?.game_type === 'ranked')
+                        : undefined
+                      : stats.rank_points_history || undefined
+                  }
+                  totalGamesPlayed={
+                    activeTab === 'ranked'
+                      ? (stats.ranked_games_played ?? undefined)
+                      : (stats.games_played ?? undefined)
+                  }
+                />
+              </View>
+            )}
 
-        {/* Performance — per-tab using mode-specific DB columns */}
-        {perfStats && (
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>{i18n.t('profile.performance')}</Text>
-            <View style={styles.statsGrid}>
-              {renderStatCard(
-                i18n.t('profile.avgPosition'),
-                perfStats.avgPosition?.toFixed(2) || 'N/A',
-                '📊'
-              )}
-              {renderStatCard(
-                i18n.t('profile.totalPoints'),
-                (perfStats.totalPoints || 0).toLocaleString(),
-                '💎'
-              )}
-              {renderStatCard(i18n.t('profile.highestScore'), perfStats.highestScore || 0, '💀')}
-              {renderStatCard(i18n.t('profile.lowestScore'), perfStats.lowestScore ?? 0, '⭐')}
-              {renderStatCard(
-                i18n.t('profile.avgScore'),
-                perfStats.avgScore?.toFixed(0) || 'N/A',
-                '📈'
-              )}
-              {renderStatCard(
-                i18n.t('profile.avgCardsLeft'),
-                (perfStats.avgCardsLeft || 0).toFixed(1),
-                '🃏'
-              )}
-            </View>
-          </View>
-        )}
+            {/* Performance — per-tab using mode-specific DB columns */}
+            {perfStats && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{i18n.t('profile.performance')}</Text>
+                <View style={styles.statsGrid}>
+                  {renderStatCard(
+                    i18n.t('profile.avgPosition'),
+                    perfStats.avgPosition?.toFixed(2) || 'N/A',
+                    '📊'
+                  )}
+                  {renderStatCard(
+                    i18n.t('profile.totalPoints'),
+                    (perfStats.totalPoints || 0).toLocaleString(),
+                    '💎'
+                  )}
+                  {renderStatCard(
+                    i18n.t('profile.highestScore'),
+                    perfStats.highestScore || 0,
+                    '💀'
+                  )}
+                  {renderStatCard(i18n.t('profile.lowestScore'), perfStats.lowestScore ?? 0, '⭐')}
+                  {renderStatCard(
+                    i18n.t('profile.avgScore'),
+                    perfStats.avgScore?.toFixed(0) || 'N/A',
+                    '📈'
+                  )}
+                  {renderStatCard(
+                    i18n.t('profile.avgCardsLeft'),
+                    (perfStats.avgCardsLeft || 0).toFixed(1),
+                    '🃏'
+                  )}
+                </View>
+              </View>
+            )}
 
-        {/* Combo Stats — per-tab using mode-specific DB columns */}
-        {comboStats && (
-          <View style={styles.section}>
-            <Text style={styles.sectionTitle}>{i18n.t('profile.combosPlayed')}</Text>
-            <View style={styles.comboGrid}>
-              {renderComboCard(i18n.t('profile.singles'), comboStats.singles, '🃏')}
-              {renderComboCard(i18n.t('profile.pairs'), comboStats.pairs, '🃏🃏')}
-              {renderComboCard(i18n.t('profile.triples'), comboStats.triples, '🃏🃏🃏')}
-              {renderComboCard(i18n.t('profile.straights'), comboStats.straights, '➡️')}
-              {renderComboCard(i18n.t('profile.flushes'), comboStats.flushes, '🌊')}
-              {renderComboCard(i18n.t('profile.fullHouses'), comboStats.full_houses, '🏠')}
-              {renderComboCard(i18n.t('profile.fourOfAKind'), comboStats.four_of_a_kinds, '🌟')}
-              {renderComboCard(i18n.t('profile.straightFlush'), comboStats.straight_flushes, '💫')}
-              {renderComboCard(i18n.t('profile.royalFlush'), comboStats.royal_flushes, '👑')}
-            </View>
-          </View>
-        )}
+            {/* Combo Stats — per-tab using mode-specific DB columns */}
+            {comboStats && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{i18n.t('profile.combosPlayed')}</Text>
+                <View style={styles.comboGrid}>
+                  {renderComboCard(i18n.t('profile.singles'), comboStats.singles, '🃏')}
+                  {renderComboCard(i18n.t('profile.pairs'), comboStats.pairs, '🃏🃏')}
+                  {renderComboCard(i18n.t('profile.triples'), comboStats.triples, '🃏🃏🃏')}
+                  {renderComboCard(i18n.t('profile.straights'), comboStats.straights, '➡️')}
+                  {renderComboCard(i18n.t('profile.flushes'), comboStats.flushes, '🌊')}
+                  {renderComboCard(i18n.t('profile.fullHouses'), comboStats.full_houses, '🏠')}
+                  {renderComboCard(i18n.t('profile.fourOfAKind'), comboStats.four_of_a_kinds, '🌟')}
+                  {renderComboCard(
+                    i18n.t('profile.straightFlush'),
+                    comboStats.straight_flushes,
+                    '💫'
+                  )}
+                  {renderComboCard(i18n.t('profile.royalFlush'), comboStats.royal_flushes, '👑')}
+                </View>
+              </View>
+            )}
 
-        {/* Game History — all tabs; filtered by game_type for per-mode tabs */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>{i18n.t('profile.recentGames')}</Text>
-
-          {/* History outcome filter tabs: Recent / Won / Lost / Incomplete */}
-          <View style={styles.historyTabBar}>
-            {[
-              {
-                key: 'recent' as HistoryTab,
-                label: i18n.t('profile.historyTabRecent'),
-                count: filteredGameHistory.length,
-              },
-              {
-                key: 'won' as HistoryTab,
-                label: i18n.t('profile.historyTabWon'),
-                count: filteredGameHistory.filter(
-                  g => g.game_completed === true && g.winner_id === userId
-                ).length,
-              },
-              {
-                key: 'lost' as HistoryTab,
-                label: i18n.t('profile.historyTabLost'),
-                count: filteredGameHistory.filter(
-                  g => g.game_completed === true && g.winner_id !== userId
-                ).length,
-              },
-              {
-                key: 'incomplete' as HistoryTab,
-                label: i18n.t('profile.historyTabIncomplete'),
-                count: filteredGameHistory.filter(g => g.game_completed === false).length,
-              },
-            ].map(({ key, label, count }) => (
-              <TouchableOpacity
-                key={key}
-                style={[
-                  styles.historyTabButton,
-                  historyTab === key && styles.historyTabButtonActive,
-                ]}
-                onPress={() => setHistoryTab(key)}
-              >
-                <Text
-                  style={[styles.historyTabText, historyTab === key && styles.historyTabTextActive]}
-                >
-                  {label}
-                </Text>
-                {count > 0 && (
-                  <Text
+            {/* Game History — all tabs; filtered by game_type for per-mode tabs */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{i18n.t('profile.recentGames')}</Text>
+
+              {/* History outcome filter tabs: Recent / Won / Lost / Incomplete */}
+              <View style={styles.historyTabBar}>
+                {[
+                  {
+                    key: 'recent' as HistoryTab,
+                    label: i18n.t('profile.historyTabRecent'),
+                    count: filteredGameHistory.length,
+                  },
+                  {
+                    key: 'won' as HistoryTab,
+                    label: i18n.t('profile.historyTabWon'),
+                    count: filteredGameHistory.filter(
+                      g => g.game_completed === true && g.winner_id === userId
+                    ).length,
+                  },
+                  {
+                    key: 'lost' as HistoryTab,
+                    label: i18n.t('profile.historyTabLost'),
+                    count: filteredGameHistory.filter(
+                      g => g.game_completed === true && g.winner_id !== userId
+                    ).length,
+                  },
+                  {
+                    key: 'incomplete' as HistoryTab,
+                    label: i18n.t('profile.historyTabIncomplete'),
+                    count: filteredGameHistory.filter(g => g.game_completed === false).length,
+                  },
+                ].map(({ key, label, count }) => (
+                  <TouchableOpacity
+                    key={key}
                     style={[
-                      styles.historyTabCount,
-                      historyTab === key && styles.historyTabCountActive,
+                      styles.historyTabButton,
+                      historyTab === key && styles.historyTabButtonActive,
                     ]}
+                    onPress={() => setHistoryTab(key)}
                   >
-                    {count}
-                  </Text>
-                )}
-              </TouchableOpacity>
-            ))}
-          </View>
+                    <Text
+                      style={[
+                        styles.historyTabText,
+                        historyTab === key && styles.historyTabTextActive,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                    {count > 0 && (
+                      <Text
+                        style={[
+                          styles.historyTabCount,
+                          historyTab === key && styles.historyTabCountActive,
+                        ]}
+                      >
+                        {count}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
 
-          {historyTabFiltered.length > 0 ? (
-            <FlatList
-              data={historyTabFiltered.slice(0, 20)}
-              renderItem={renderHistoryItem}
-              keyExtractor={item => item.id}
-              scrollEnabled={false}
-            />
-          ) : (
-            <Text style={styles.historyEmptyText}>
-              {historyTab === 'won'
-                ? i18n.t('profile.historyEmptyWon')
-                : historyTab === 'lost'
-                  ? i18n.t('profile.historyEmptyLost')
-                  : historyTab === 'incomplete'
-                    ? i18n.t('profile.historyEmptyIncomplete')
-                    : i18n.t('profile.historyEmptyRecent')}
-            </Text>
-          )}
-        </View>
+              {historyTabFiltered.length > 0 ? (
+                <FlatList
+                  data={historyTabFiltered.slice(0, 20)}
+                  renderItem={renderHistoryItem}
+                  keyExtractor={item => item.id}
+                  scrollEnabled={false}
+                />
+              ) : (
+                <Text style={styles.historyEmptyText}>
+                  {historyTab === 'won'
+                    ? i18n.t('profile.historyEmptyWon')
+                    : historyTab === 'lost'
+                      ? i18n.t('profile.historyEmptyLost')
+                      : historyTab === 'incomplete'
+                        ? i18n.t('profile.historyEmptyIncomplete')
+                        : i18n.t('profile.historyEmptyRecent')}
+                </Text>
+              )}
+            </View>
+          </>
+        )}
       </ScrollView>
 
       {/* Mutual Friends List Modal */}
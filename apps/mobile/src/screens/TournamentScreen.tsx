@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { useTournament, type TournamentTableView } from '../hooks/useTournaments';
+import { i18n } from '../i18n';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type TournamentScreenRouteProp = RouteProp<RootStackParamList, 'Tournament'>;
+type TournamentScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Tournament'>;
+
+const TABLE_STATUS_KEYS: Record<TournamentTableView['status'], string> = {
+  waiting: 'tournaments.tableWaiting',
+  playing: 'tournaments.tablePlaying',
+  finished: 'tournaments.tableFinished',
+  forfeited: 'tournaments.tableForfeited',
+};
+
+/**
+ * Tournament Screen
+ *
+ * The bracket of one tournament: every round's tables with their finishing
+ * order, and the standings (Swiss: points, single elimination: how far each
+ * player got). While the player's own table of the current round is waiting,
+ * a button takes them to its lobby.
+ */
+export default function TournamentScreen() {
+  const navigation = useNavigation<TournamentScreenNavigationProp>();
+  const route = useRoute<TournamentScreenRouteProp>();
+  const { user } = useAuth();
+  const { tournament, loading, error, refresh } = useTournament(route.params.tournamentId);
+  const [roundIndex, setRoundIndex] = useState(0);
+
+  // Follow the round in play
+  const currentRound = tournament?.currentRound ?? 0;
+  useEffect(() => {
+    if (currentRound > 0) setRoundIndex(currentRound - 1);
+  }, [currentRound]);
+
+  const renderTable = (table: TournamentTableView) => (
+    <View key={table.id} style={styles.table}>
+      <View style={styles.rowBetween}>
+        <Text style={styles.tableTitle}>
+          {i18n.t('tournaments.table', { n: table.tableNumber })}
+        </Text>
+        <Text style={styles.infoText}>{i18n.t(TABLE_STATUS_KEYS[table.status])}</Text>
+      </View>
+      {table.players.map(player => (
+        <View key={player.userId} style={styles.rowBetween}>
+          <Text
+            style={[styles.playerName, player.userId === user?.id && styles.me]}
+            numberOfLines={1}
+          >
+            {player.username}
+          </Text>
+          <Text style={styles.infoText}>
+            {player.position !== null
+              ? `#${player.position}`
+              : table.status === 'finished' || table.status === 'forfeited'
+                ? i18n.t('tournaments.noShow')
+                : ''}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderBody = () => {
+    if (loading && !tournament) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={COLORS.secondary} />
+          <Text style={styles.infoText}>{i18n.t('common.loading')}</Text>
+        </View>
+      );
+    }
+    if (error || !tournament) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.infoText}>{i18n.t('tournaments.loadError')}</Text>
+          <TouchableOpacity style={styles.chip} onPress={() => void refresh()}>
+            <Text style={styles.chipText}>{i18n.t('common.tryAgain')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const isElimination = tournament.format === 'single-elimination';
+    const tables = tournament.rounds[roundIndex] ?? [];
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.infoText}>
+          {tournament.status === 'registration'
+            ? i18n.t('tournaments.closes', {
+                time: new Date(tournament.registrationClosesAt).toLocaleString(),
+              })
+            : tournament.roundCount
+              ? i18n.t('tournaments.roundOf', {
+                  n: tournament.currentRound,
+                  total: tournament.roundCount,
+                })
+              : ''}
+        </Text>
+
+        {tournament.myTable?.roomCode && (
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() =>
+              navigation.navigate('Lobby', {
+                roomCode: tournament.myTable!.roomCode!,
+                joining: true,
+              })
+            }
+            testID="tournament-join-table"
+          >
+            <Text style={styles.primaryButtonText}>
+              {i18n.t('tournaments.joinTable', { n: tournament.myTable.tableNumber })}
+            </Text>
+            <Text style={styles.infoText}>
+              {i18n.t('tournaments.checkInCloses', {
+                time: new Date(tournament.myTable.checkInClosesAt).toLocaleTimeString(),
+              })}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {tournament.rounds.length > 0 && (
+          <>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {tournament.rounds.map((_, index) => (
+                <TouchableOpacity
+                  key={index}
+                  style={[styles.chip, index === roundIndex && styles.chipActive]}
+                  onPress={() => setRoundIndex(index)}
+                >
+                  <Text style={styles.chipText}>
+                    {i18n.t('tournaments.round', { n: index + 1 })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            {tables.map(renderTable)}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>
+          {tournament.status === 'registration'
+            ? i18n.t('tournaments.entrants', {
+                count: tournament.entrantCount,
+                max: tournament.maxEntrants,
+              })
+            : i18n.t('tournaments.standings')}
+        </Text>
+        {tournament.standings.map(standing => (
+          <View key={standing.userId} style={[styles.rowBetween, styles.standing]}>
+            <Text style={styles.rank}>{standing.rank}</Text>
+            <Text
+              style={[styles.playerName, standing.userId === user?.id && styles.me]}
+              numberOfLines={1}
+            >
+              {standing.username}
+            </Text>
+            {tournament.status !== 'registration' && (
+              <Text style={styles.infoText}>
+                {isElimination && standing.eliminatedRound !== null
+                  ? i18n.t('tournaments.eliminated', { n: standing.eliminatedRound })
+                  : i18n.t('tournaments.points', { n: standing.points, wins: standing.wins })}
+              </Text>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1}>
+          {tournament?.name ?? i18n.t('tournaments.title')}
+        </Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => void refresh()}>
+          <Text style={styles.backButtonText}>↻</Text>
+        </TouchableOpacity>
+      </View>
+
+      {renderBody()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: COLORS.white,
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+    marginHorizontal: SPACING.sm,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: SPACING.md,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    marginRight: SPACING.xs,
+  },
+  chipActive: {
+    backgroundColor: COLORS.secondary,
+  },
+  chipText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  primaryButton: {
+    padding: SPACING.sm,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: COLORS.secondary,
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  table: {
+    padding: SPACING.sm,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    gap: 2,
+  },
+  tableTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: 'bold',
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: SPACING.sm,
+  },
+  sectionTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+    marginTop: SPACING.sm,
+  },
+  standing: {
+    paddingVertical: SPACING.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  rank: {
+    width: 28,
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: 'bold',
+  },
+  playerName: {
+    flex: 1,
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  me: {
+    color: COLORS.secondary,
+    fontWeight: 'bold',
+  },
+  infoText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: FONT_SIZES.xs,
+  },
+});
@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import { TOURNAMENT_FORMATS, type TournamentFormat } from '../game/engine';
+import { useTournaments, type TournamentSummary } from '../hooks/useTournaments';
+import { i18n } from '../i18n';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type TournamentsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Tournaments'>;
+
+const FORMAT_LABEL_KEYS: Record<TournamentFormat, string> = {
+  swiss: 'tournaments.formatSwiss',
+  'single-elimination': 'tournaments.formatSingleElimination',
+};
+
+const STATUS_LABEL_KEYS: Record<TournamentSummary['status'], string> = {
+  registration: 'tournaments.statusRegistration',
+  running: 'tournaments.statusRunning',
+  finished: 'tournaments.statusFinished',
+  cancelled: 'tournaments.statusCancelled',
+};
+
+const ENTRANT_OPTIONS = [8, 16, 32, 64] as const;
+/** How long registration stays open, in minutes */
+const REGISTRATION_OPTIONS = [15, 60, 24 * 60] as const;
+
+function formatRegistrationWindow(minutes: number): string {
+  return minutes < 60
+    ? i18n.t('tournaments.minutes', { n: minutes })
+    : i18n.t('tournaments.hours', { n: minutes / 60 });
+}
+
+/**
+ * Tournaments Screen
+ *
+ * Lists open, running and finished tournaments. Players register while
+ * registration is open; when it closes the advance-tournament function seeds
+ * the field by rating and draws the first round. Anyone can create a
+ * tournament from the form at the top.
+ */
+export default function TournamentsScreen() {
+  const navigation = useNavigation<TournamentsScreenNavigationProp>();
+  const { tournaments, loading, error, refresh, create, register, withdraw } = useTournaments();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('swiss');
+  const [maxEntrants, setMaxEntrants] = useState<number>(16);
+  const [registrationMinutes, setRegistrationMinutes] = useState<number>(60);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const submit = async () => {
+    setBusyId('new');
+    const id = await create({
+      name: name.trim(),
+      format,
+      maxEntrants,
+      registrationClosesAt: new Date(Date.now() + registrationMinutes * 60_000),
+    });
+    setBusyId(null);
+    if (id) {
+      setIsCreating(false);
+      setName('');
+      navigation.navigate('Tournament', { tournamentId: id });
+    }
+  };
+
+  const toggleRegistration = async (tournament: TournamentSummary) => {
+    setBusyId(tournament.id);
+    await (tournament.isRegistered ? withdraw(tournament.id) : register(tournament.id));
+    setBusyId(null);
+  };
+
+  const renderCreateForm = () => (
+    <View style={styles.card}>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder={i18n.t('tournaments.namePlaceholder')}
+        placeholderTextColor="rgba(255, 255, 255, 0.4)"
+        maxLength={60}
+      />
+      <Text style={styles.label}>{i18n.t('tournaments.formatLabel')}</Text>
+      <View style={styles.chipRow}>
+        {TOURNAMENT_FORMATS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, format === option && styles.chipActive]}
+            onPress={() => setFormat(option)}
+          >
+            <Text style={styles.chipText}>{i18n.t(FORMAT_LABEL_KEYS[option])}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.label}>{i18n.t('tournaments.entrantsLabel')}</Text>
+      <View style={styles.chipRow}>
+        {ENTRANT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, maxEntrants === option && styles.chipActive]}
+            onPress={() => setMaxEntrants(option)}
+          >
+            <Text style={styles.chipText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.label}>{i18n.t('tournaments.registrationLabel')}</Text>
+      <View style={styles.chipRow}>
+        {REGISTRATION_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, registrationMinutes === option && styles.chipActive]}
+            onPress={() => setRegistrationMinutes(option)}
+          >
+            <Text style={styles.chipText}>{formatRegistrationWindow(option)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={[styles.primaryButton, (!name.trim() || busyId === 'new') && styles.disabled]}
+        disabled={!name.trim() || busyId === 'new'}
+        onPress={() => void submit()}
+        testID="tournament-create-submit"
+      >
+        <Text style={styles.primaryButtonText}>{i18n.t('tournaments.create')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTournament = (tournament: TournamentSummary) => {
+    const canRegister =
+      tournament.status === 'registration' &&
+      (tournament.isRegistered || tournament.entrantCount < tournament.maxEntrants);
+    return (
+      <TouchableOpacity
+        key={tournament.id}
+        style={styles.card}
+        onPress={() => navigation.navigate('Tournament', { tournamentId: tournament.id })}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {tournament.name}
+          </Text>
+          <Text style={styles.infoText}>{i18n.t(STATUS_LABEL_KEYS[tournament.status])}</Text>
+        </View>
+        <Text style={styles.infoText}>
+          {i18n.t(FORMAT_LABEL_KEYS[tournament.format])} ·{' '}
+          {i18n.t('tournaments.entrants', {
+            count: tournament.entrantCount,
+            max: tournament.maxEntrants,
+          })}
+        </Text>
+        {tournament.status === 'registration' ? (
+          <Text style={styles.infoText}>
+            {i18n.t('tournaments.closes', {
+              time: new Date(tournament.registrationClosesAt).toLocaleString(),
+            })}
+          </Text>
+        ) : (
+          tournament.status === 'running' &&
+          tournament.roundCount && (
+            <Text style={styles.infoText}>
+              {i18n.t('tournaments.roundOf', {
+                n: tournament.currentRound,
+                total: tournament.roundCount,
+              })}
+            </Text>
+          )
+        )}
+        {canRegister && (
+          <TouchableOpacity
+            style={[
+              styles.chip,
+              !tournament.isRegistered && styles.chipActive,
+              styles.registerButton,
+              busyId === tournament.id && styles.disabled,
+            ]}
+            disabled={busyId === tournament.id}
+            onPress={() => void toggleRegistration(tournament)}
+          >
+            <Text style={styles.chipText}>
+              {tournament.isRegistered
+                ? i18n.t('tournaments.withdraw')
+                : i18n.t('tournaments.register')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{i18n.t('tournaments.title')}</Text>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => setIsCreating(value => !value)}
+          accessibilityLabel={i18n.t('tournaments.create')}
+          testID="tournament-create-toggle"
+        >
+          <Text style={styles.backButtonText}>{isCreating ? '×' : '+'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {isCreating && renderCreateForm()}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        {loading && tournaments.length === 0 ? (
+          <ActivityIndicator size="large" color={COLORS.secondary} />
+        ) : tournaments.length === 0 ? (
+          <Text style={styles.infoText}>{i18n.t('tournaments.empty')}</Text>
+        ) : (
+          tournaments.map(renderTournament)
+        )}
+        {!loading && (
+          <TouchableOpacity style={[styles.chip, styles.refresh]} onPress={() => void refresh()}>
+            <Text style={styles.chipText}>{i18n.t('tournaments.refresh')}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: COLORS.white,
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  card: {
+    padding: SPACING.md,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    gap: SPACING.xs,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  cardTitle: {
+    flex: 1,
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  label: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: '600',
+    marginTop: SPACING.xs,
+  },
+  input: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipActive: {
+    backgroundColor: COLORS.secondary,
+  },
+  chipText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  registerButton: {
+    alignSelf: 'flex-start',
+    marginTop: SPACING.xs,
+  },
+  primaryButton: {
+    marginTop: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: COLORS.secondary,
+  },
+  primaryButtonText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  refresh: {
+    alignSelf: 'center',
+  },
+  infoText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: FONT_SIZES.xs,
+  },
+  errorText: {
+    color: COLORS.error,
+    fontSize: FONT_SIZES.sm,
+  },
+});
@@ -0,0 +1,580 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CardHand } from '../components/game';
+import { CardImage } from '../components/scoreboard/components/CardImage';
+import { COLORS, SPACING, FONT_SIZES } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PUZZLES,
+  evaluatePuzzle,
+  getPuzzleHint,
+  readPuzzleProgress,
+  recordPuzzleAttempt,
+  type Puzzle,
+  type PuzzleProgress,
+} from '../game/puzzles';
+import { TUTORIAL_LESSONS, isLessonMove, type LessonMove } from '../game/tutorial';
+import type { Card } from '../game/types';
+import { usePracticeGame, type PracticeMoveResult } from '../hooks/usePracticeGame';
+import { i18n } from '../i18n';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type TutorialScreenRouteProp = RouteProp<RootStackParamList, 'Tutorial'>;
+type TutorialScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Tutorial'>;
+
+type Mode = 'lessons' | 'puzzles';
+
+const SUIT_SYMBOLS: Record<string, string> = { D: '♦', C: '♣', H: '♥', S: '♠' };
+
+const cardLabel = (card: Card) => `${card.rank}${SUIT_SYMBOLS[card.suit]}`;
+
+/** Feedback line under the table: why a move was refused, or how it went */
+interface Feedback {
+  text: string;
+  tone: 'info' | 'error' | 'success';
+}
+
+/** The localized explanation of a refused play or pass */
+function describeMove(result: PracticeMoveResult, isPass: boolean): Feedback | null {
+  switch (result.kind) {
+    case 'played':
+      return null;
+    case 'restricted':
+      return { text: i18n.t('tutorial.notThisMove'), tone: 'info' };
+    case 'failed':
+      return { text: result.error, tone: 'error' };
+  }
+  const { explanation } = result;
+  switch (explanation.reason) {
+    case 'missing-opening-card':
+      return {
+        text: i18n.t('tutorial.explain.missingOpeningCard', {
+          card: `${explanation.openingCardId[0]}${SUIT_SYMBOLS[explanation.openingCardId[1]]}`,
+        }),
+        tone: 'error',
+      };
+    case 'not-a-combo':
+      return { text: i18n.t('tutorial.explain.notACombo'), tone: 'error' };
+    case 'wrong-card-count':
+      return {
+        text: i18n.t('tutorial.explain.wrongCardCount', { count: explanation.required }),
+        tone: 'error',
+      };
+    case 'too-low':
+      return {
+        text: i18n.t('tutorial.explain.tooLow', {
+          combo: explanation.combo,
+          lastCombo: explanation.lastCombo,
+        }),
+        tone: 'error',
+      };
+    case 'leading':
+      return { text: i18n.t('tutorial.explain.leading'), tone: 'error' };
+    case 'one-card-left':
+      return {
+        text: i18n.t(isPass ? 'tutorial.explain.oneCardLeftPass' : 'tutorial.explain.oneCardLeft', {
+          card: cardLabel(explanation.requiredCard),
+        }),
+        tone: 'error',
+      };
+  }
+}
+
+/**
+ * Tutorial Screen
+ *
+ * Interactive lessons and puzzles on top of the rules engine. A lesson is a
+ * scripted position that accepts only the move it teaches; an illegal play is
+ * explained with the rule it breaks (see tutorial.ts). A puzzle is an endgame
+ * against hard bots with a goal, hints from the engine's recommended play and
+ * progress kept on the device (see puzzles.ts). Neither is saved as a game.
+ */
+export default function TutorialScreen() {
+  const navigation = useNavigation<TutorialScreenNavigationProp>();
+  const route = useRoute<TutorialScreenRouteProp>();
+  const { profile } = useAuth();
+  const { state, botsMoving, start, play, pass } = usePracticeGame(profile?.username || 'Player');
+
+  const [mode, setMode] = useState<Mode>(route.params?.mode ?? 'lessons');
+  const [lessonIndex, setLessonIndex] = useState<number | null>(null);
+  const [completedLessons, setCompletedLessons] = useState<Set<string>>(new Set());
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [progress, setProgress] = useState<Record<string, PuzzleProgress>>({});
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [selectedCardIds, setSelectedCardIds] = useState<Set<string>>(new Set());
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const recordedRef = useRef(false);
+
+  const lesson = lessonIndex !== null ? TUTORIAL_LESSONS[lessonIndex] : null;
+  const puzzleStatus = puzzle && state ? evaluatePuzzle(puzzle, state) : 'playing';
+  const lessonDone = lesson ? completedLessons.has(lesson.id) : false;
+  const isHumanTurn =
+    !!state && !state.gameEnded && !state.players[state.currentPlayerIndex].isBot && !botsMoving;
+  const canMove = isHumanTurn && !lessonDone && puzzleStatus === 'playing';
+
+  useEffect(() => {
+    readPuzzleProgress().then(setProgress);
+  }, []);
+
+  // Record a finished puzzle attempt once
+  useEffect(() => {
+    if (!puzzle || puzzleStatus === 'playing' || recordedRef.current) return;
+    recordedRef.current = true;
+    recordPuzzleAttempt(puzzle.id, { solved: puzzleStatus === 'solved', hintsUsed }).then(
+      setProgress
+    );
+  }, [puzzle, puzzleStatus, hintsUsed]);
+
+  const resetBoard = useCallback(() => {
+    setSelectedCardIds(new Set());
+    setFeedback(null);
+    setHintsUsed(0);
+    recordedRef.current = false;
+  }, []);
+
+  const openLesson = useCallback(
+    (index: number) => {
+      resetBoard();
+      setPuzzle(null);
+      setLessonIndex(index);
+      const next = TUTORIAL_LESSONS[index];
+      void start(next.position, 'easy');
+      setFeedback({ text: i18n.t(next.instructionKey), tone: 'info' });
+    },
+    [resetBoard, start]
+  );
+
+  const openPuzzle = useCallback(
+    (next: Puzzle) => {
+      resetBoard();
+      setLessonIndex(null);
+      setPuzzle(next);
+      void start(next.position, next.botDifficulty);
+    },
+    [resetBoard, start]
+  );
+
+  const closeBoard = useCallback(() => {
+    resetBoard();
+    setLessonIndex(null);
+    setPuzzle(null);
+  }, [resetBoard]);
+
+  const handleMove = useCallback(
+    async (move: LessonMove) => {
+      const isAllowed = lesson ? (attempt: LessonMove) => isLessonMove(lesson, attempt) : undefined;
+      const result = move === 'pass' ? await pass(isAllowed) : await play([...move], isAllowed);
+      if (result.kind !== 'played') {
+        setFeedback(describeMove(result, move === 'pass'));
+        return;
+      }
+      setSelectedCardIds(new Set());
+      if (lesson) {
+        setCompletedLessons(previous => new Set(previous).add(lesson.id));
+        setFeedback({ text: i18n.t(lesson.successKey), tone: 'success' });
+      } else {
+        setFeedback(null);
+      }
+    },
+    [lesson, pass, play]
+  );
+
+  const handleHint = useCallback(() => {
+    if (!state) return;
+    const hint = getPuzzleHint(state);
+    setHintsUsed(count => count + 1);
+    if (hint) {
+      setSelectedCardIds(new Set(hint));
+      const cards = state.players[0].hand.filter(card => hint.includes(card.id));
+      setFeedback({
+        text: i18n.t('tutorial.hintPlay', { cards: cards.map(cardLabel).join(' ') }),
+        tone: 'info',
+      });
+    } else {
+      setFeedback({ text: i18n.t('tutorial.hintPass'), tone: 'info' });
+    }
+  }, [state]);
+
+  const goal = useMemo(() => {
+    if (!puzzle || !state) return null;
+    return puzzle.goal.kind === 'go-out'
+      ? i18n.t('tutorial.goOut', { count: puzzle.goal.plays })
+      : i18n.t('tutorial.stopOneCard', { name: state.players[puzzle.goal.seat].name });
+  }, [puzzle, state]);
+
+  const renderList = () => (
+    <ScrollView contentContainerStyle={styles.content}>
+      {mode === 'lessons'
+        ? TUTORIAL_LESSONS.map((item, index) => (
+            <TouchableOpacity
+              key={item.id}
+              style={styles.listItem}
+              onPress={() => openLesson(index)}
+              testID={`lesson-${item.id}`}
+            >
+              <Text style={styles.listTitle}>
+                {index + 1}. {i18n.t(item.titleKey)}
+              </Text>
+              {completedLessons.has(item.id) && <Text style={styles.check}>✓</Text>}
+            </TouchableOpacity>
+          ))
+        : PUZZLES.map(item => {
+            const itemProgress = progress[item.id];
+            return (
+              <TouchableOpacity
+                key={item.id}
+                style={styles.listItem}
+                onPress={() => openPuzzle(item)}
+                testID={`puzzle-${item.id}`}
+              >
+                <View style={styles.listText}>
+                  <Text style={styles.listTitle}>{i18n.t(item.titleKey)}</Text>
+                  {itemProgress && (
+                    <Text style={styles.listDetail}>
+                      {i18n.t('tutorial.attempts', { count: itemProgress.attempts })}
+                      {itemProgress.solved
+                        ? ` · ${i18n.t('tutorial.hintsUsed', { count: itemProgress.hintsUsed })}`
+                        : ''}
+                    </Text>
+                  )}
+                </View>
+                {itemProgress?.solved && <Text style={styles.check}>✓</Text>}
+              </TouchableOpacity>
+            );
+          })}
+    </ScrollView>
+  );
+
+  const renderBoard = () => {
+    if (!state) return null;
+    const human = state.players[0];
+    const finished = lessonDone || puzzleStatus !== 'playing';
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.boardTitle}>
+          {lesson && lessonIndex !== null
+            ? `${i18n.t('tutorial.lessonCount', {
+                number: lessonIndex + 1,
+                total: TUTORIAL_LESSONS.length,
+              })} · ${i18n.t(lesson.titleKey)}`
+            : puzzle && i18n.t(puzzle.titleKey)}
+        </Text>
+        {goal && <Text style={styles.goal}>{goal}</Text>}
+
+        <View style={styles.opponents}>
+          {state.players.slice(1).map(player => (
+            <Text key={player.id} style={styles.opponent}>
+              {i18n.t('tutorial.cardsLeft', { name: player.name, count: player.hand.length })}
+            </Text>
+          ))}
+        </View>
+
+        <View style={styles.table}>
+          {state.lastPlay ? (
+            <>
+              <Text style={styles.tableLabel}>{i18n.t('tutorial.toBeat')}</Text>
+              <View style={styles.tableCards}>
+                {state.lastPlay.cards.map(card => (
+                  <CardImage
+                    key={card.id}
+                    rank={card.rank}
+                    suit={card.suit}
+                    width={44}
+                    height={62}
+                  />
+                ))}
+              </View>
+            </>
+          ) : (
+            <Text style={styles.tableLabel}>{i18n.t('tutorial.leading')}</Text>
+          )}
+        </View>
+
+        {botsMoving && <Text style={styles.botsMoving}>{i18n.t('tutorial.botsMoving')}</Text>}
+        {feedback && (
+          <Text
+            style={[
+              styles.feedback,
+              feedback.tone === 'error' && styles.feedbackError,
+              feedback.tone === 'success' && styles.feedbackSuccess,
+            ]}
+            testID="tutorial-feedback"
+          >
+            {feedback.text}
+          </Text>
+        )}
+        {puzzleStatus !== 'playing' && (
+          <Text
+            style={[
+              styles.feedback,
+              puzzleStatus === 'solved' ? styles.feedbackSuccess : styles.feedbackError,
+            ]}
+          >
+            {i18n.t(puzzleStatus === 'solved' ? 'tutorial.solved' : 'tutorial.failed')}
+          </Text>
+        )}
+
+        <CardHand
+          cards={human.hand}
+          onPlayCards={cards => handleMove(cards.map(card => card.id))}
+          onPass={() => handleMove('pass')}
+          canPlay={canMove}
+          disabled={!canMove}
+          hideButtons
+          selectedCardIds={selectedCardIds}
+          onSelectionChange={setSelectedCardIds}
+        />
+
+        <View style={styles.actions}>
+          {!finished && (
+            <>
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  (!canMove || selectedCardIds.size === 0) && styles.disabled,
+                ]}
+                disabled={!canMove || selectedCardIds.size === 0}
+                onPress={() => handleMove([...selectedCardIds])}
+                testID="tutorial-play"
+              >
+                <Text style={styles.actionText}>{i18n.t('tutorial.play')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, !canMove && styles.disabled]}
+                disabled={!canMove}
+                onPress={() => handleMove('pass')}
+                testID="tutorial-pass"
+              >
+                <Text style={styles.actionText}>{i18n.t('tutorial.pass')}</Text>
+              </TouchableOpacity>
+              {puzzle && (
+                <TouchableOpacity
+                  style={[styles.actionButton, !canMove && styles.disabled]}
+                  disabled={!canMove}
+                  onPress={handleHint}
+                  testID="tutorial-hint"
+                >
+                  <Text style={styles.actionText}>{i18n.t('tutorial.hint')}</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+          {puzzle && puzzleStatus === 'failed' && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => openPuzzle(puzzle)}>
+              <Text style={styles.actionText}>{i18n.t('tutorial.retry')}</Text>
+            </TouchableOpacity>
+          )}
+          {lesson && lessonDone && lessonIndex !== null && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() =>
+                lessonIndex + 1 < TUTORIAL_LESSONS.length
+                  ? openLesson(lessonIndex + 1)
+                  : closeBoard()
+              }
+              testID="tutorial-next"
+            >
+              <Text style={styles.actionText}>{i18n.t('tutorial.next')}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={closeBoard}>
+            <Text style={styles.actionText}>{i18n.t('tutorial.backToList')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const boardOpen = lesson !== null || puzzle !== null;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => (boardOpen ? closeBoard() : navigation.goBack())}
+        >
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{i18n.t('tutorial.title')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {!boardOpen && (
+        <View style={styles.tabs}>
+          {(['lessons', 'puzzles'] as const).map(tab => (
+            <TouchableOpacity
+              key={tab}
+              style={[styles.chip, mode === tab && styles.chipActive]}
+              onPress={() => setMode(tab)}
+            >
+              <Text style={styles.chipText}>
+                {i18n.t(tab === 'lessons' ? 'tutorial.lessonsTab' : 'tutorial.puzzlesTab')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {boardOpen ? renderBoard() : renderList()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(139, 92, 246, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    color: COLORS.white,
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+  placeholder: {
+    width: 40,
+  },
+  tabs: {
+    flexDirection: 'row',
+    paddingHorizontal: SPACING.md,
+    paddingTop: SPACING.md,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    marginRight: SPACING.xs,
+  },
+  chipActive: {
+    backgroundColor: COLORS.secondary,
+  },
+  chipText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  content: {
+    padding: SPACING.md,
+    gap: SPACING.sm,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: SPACING.md,
+    borderRadius: 12,
+    backgroundColor: COLORS.background.dark,
+  },
+  listText: {
+    flex: 1,
+  },
+  listTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  listDetail: {
+    color: COLORS.gray.text,
+    fontSize: FONT_SIZES.xs,
+    marginTop: SPACING.xs,
+  },
+  check: {
+    color: COLORS.success,
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+  },
+  boardTitle: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+  },
+  goal: {
+    color: COLORS.gold,
+    fontSize: FONT_SIZES.md,
+  },
+  opponents: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.md,
+  },
+  opponent: {
+    color: COLORS.gray.text,
+    fontSize: FONT_SIZES.sm,
+  },
+  table: {
+    alignItems: 'center',
+    padding: SPACING.md,
+    borderRadius: 12,
+    backgroundColor: COLORS.table.background,
+    gap: SPACING.xs,
+  },
+  tableLabel: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.sm,
+  },
+  tableCards: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+  },
+  botsMoving: {
+    color: COLORS.gray.text,
+    fontSize: FONT_SIZES.sm,
+    fontStyle: 'italic',
+  },
+  feedback: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+  },
+  feedbackError: {
+    color: COLORS.warning,
+  },
+  feedbackSuccess: {
+    color: COLORS.success,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: SPACING.sm,
+  },
+  actionButton: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    borderRadius: 8,
+    backgroundColor: COLORS.secondary,
+  },
+  actionText: {
+    color: COLORS.white,
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
@@ -70,6 +70,10 @@ jest.mock('../../components/home/ActiveGameBanner', () => ({
   ActiveGameBanner: () => null,
 }));
 
+jest.mock('../../components/home/ContinueGamesList', () => ({
+  ContinueGamesList: () => null,
+}));
+
 jest.mock('../../components/BugReportModal', () => {
   return { __esModule: true, default: () => null };
 });
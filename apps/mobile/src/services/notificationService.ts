@@ -20,6 +20,8 @@ Notifications.setNotificationHandler({
       your_turn: prefs.notifyYourTurn,
       player_turn: prefs.notifyYourTurn,
       game_started: prefs.notifyGameStarted,
+      tournament_table_ready: prefs.notifyGameStarted,
+      matchmaking_party: prefs.notifyGameInvites,
       friend_request: prefs.notifyFriendRequests,
       friend_accepted: prefs.notifyFriendRequests,
     };
@@ -50,6 +50,36 @@ export type Database = {
         };
         Relationships: [];
       };
+      duplicate_groups: {
+        Row: {
+          code: string;
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          seed: string;
+          seed_hash: string;
+          table_count: number;
+        };
+        Insert: {
+          code: string;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          seed: string;
+          seed_hash: string;
+          table_count: number;
+        };
+        Update: {
+          code?: string;
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          seed?: string;
+          seed_hash?: string;
+          table_count?: number;
+        };
+        Relationships: [];
+      };
       friendships: {
         Row: {
           addressee_id: string;
@@ -95,6 +125,48 @@ export type Database = {
           },
         ];
       };
+      game_deal_seeds: {
+        Row: {
+          created_at: string;
+          duplicate_group_id: string | null;
+          room_id: string;
+          seat_rotation: number;
+          seed: string;
+          seed_hash: string;
+        };
+        Insert: {
+          created_at?: string;
+          duplicate_group_id?: string | null;
+          room_id: string;
+          seat_rotation?: number;
+          seed: string;
+          seed_hash: string;
+        };
+        Update: {
+          created_at?: string;
+          duplicate_group_id?: string | null;
+          room_id?: string;
+          seat_rotation?: number;
+          seed?: string;
+          seed_hash?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'game_deal_seeds_duplicate_group_id_fkey';
+            columns: ['duplicate_group_id'];
+            isOneToOne: false;
+            referencedRelation: 'duplicate_groups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'game_deal_seeds_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: true;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       game_events: {
         Row: {
           created_at: string;
@@ -250,14 +322,21 @@ export type Database = {
       };
       game_history: {
         Row: {
+          accuracy: number | null;
           bot_difficulty: string | null;
           created_at: string;
+          deal_seed: string | null;
+          deal_seed_hash: string | null;
+          deal_variant: string;
+          duplicate_group_id: string | null;
           finished_at: string;
           game_completed: boolean | null;
           game_duration_seconds: number | null;
           game_mode: string | null;
           game_type: string;
           id: string;
+          match_scores: Json | null;
+          play_history: Json | null;
           player_1_cards_left: number | null;
           player_1_disconnected: boolean | null;
           player_1_id: string | null;
@@ -286,8 +365,12 @@ export type Database = {
           player_4_score: number | null;
           player_4_username: string | null;
           player_4_was_bot: boolean | null;
+          player_count: number;
           room_code: string;
           room_id: string | null;
+          rule_set: Json | null;
+          scoring: Json | null;
+          seat_rotation: number | null;
           started_at: string;
           stats_applied_at: string | null;
           total_rounds: number | null;
@@ -295,14 +378,21 @@ export type Database = {
           winner_id: string | null;
         };
         Insert: {
+          accuracy?: number | null;
           bot_difficulty?: string | null;
           created_at?: string;
+          deal_seed?: string | null;
+          deal_seed_hash?: string | null;
+          deal_variant?: string;
+          duplicate_group_id?: string | null;
           finished_at: string;
           game_completed?: boolean | null;
           game_duration_seconds?: number | null;
           game_mode?: string | null;
           game_type?: string;
           id?: string;
+          match_scores?: Json | null;
+          play_history?: Json | null;
           player_1_cards_left?: number | null;
           player_1_disconnected?: boolean | null;
           player_1_id?: string | null;
@@ -331,8 +421,12 @@ export type Database = {
           player_4_score?: number | null;
           player_4_username?: string | null;
           player_4_was_bot?: boolean | null;
+          player_count?: number;
           room_code: string;
           room_id?: string | null;
+          rule_set?: Json | null;
+          scoring?: Json | null;
+          seat_rotation?: number | null;
           started_at: string;
           stats_applied_at?: string | null;
           total_rounds?: number | null;
@@ -340,14 +434,21 @@ export type Database = {
           winner_id?: string | null;
         };
         Update: {
+          accuracy?: number | null;
           bot_difficulty?: string | null;
           created_at?: string;
+          deal_seed?: string | null;
+          deal_seed_hash?: string | null;
+          deal_variant?: string;
+          duplicate_group_id?: string | null;
           finished_at?: string;
           game_completed?: boolean | null;
           game_duration_seconds?: number | null;
           game_mode?: string | null;
           game_type?: string;
           id?: string;
+          match_scores?: Json | null;
+          play_history?: Json | null;
           player_1_cards_left?: number | null;
           player_1_disconnected?: boolean | null;
           player_1_id?: string | null;
@@ -376,8 +477,12 @@ export type Database = {
           player_4_score?: number | null;
           player_4_username?: string | null;
           player_4_was_bot?: boolean | null;
+          player_count?: number;
           room_code?: string;
           room_id?: string | null;
+          rule_set?: Json | null;
+          scoring?: Json | null;
+          seat_rotation?: number | null;
           started_at?: string;
           stats_applied_at?: string | null;
           total_rounds?: number | null;
@@ -385,6 +490,13 @@ export type Database = {
           winner_id?: string | null;
         };
         Relationships: [
+          {
+            foreignKeyName: 'game_history_duplicate_group_id_fkey';
+            columns: ['duplicate_group_id'];
+            isOneToOne: false;
+            referencedRelation: 'duplicate_groups';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'game_history_room_id_fkey';
             columns: ['room_id'];
@@ -398,6 +510,9 @@ export type Database = {
         Row: {
           auto_pass_timer: Json | null;
           current_turn: number;
+          deal_seed: string | null;
+          deal_seed_hash: string | null;
+          event_sequence: number | null;
           final_scores: Json | null;
           game_ended_at: string | null;
           game_phase: string;
@@ -411,6 +526,7 @@ export type Database = {
           match_number: number;
           pass_count: number | null;
           passes: number | null;
+          pending_events: Json | null;
           passes_in_row: number | null;
           play_history: Json | null;
           played_cards: Json | null;
@@ -426,6 +542,9 @@ export type Database = {
         Insert: {
           auto_pass_timer?: Json | null;
           current_turn?: number;
+          deal_seed?: string | null;
+          deal_seed_hash?: string | null;
+          event_sequence?: number | null;
           final_scores?: Json | null;
           game_ended_at?: string | null;
           game_phase?: string;
@@ -439,6 +558,7 @@ export type Database = {
           match_number?: number;
           pass_count?: number | null;
           passes?: number | null;
+          pending_events?: Json | null;
           passes_in_row?: number | null;
           play_history?: Json | null;
           played_cards?: Json | null;
@@ -454,6 +574,9 @@ export type Database = {
         Update: {
           auto_pass_timer?: Json | null;
           current_turn?: number;
+          deal_seed?: string | null;
+          deal_seed_hash?: string | null;
+          event_sequence?: number | null;
           final_scores?: Json | null;
           game_ended_at?: string | null;
           game_phase?: string;
@@ -467,6 +590,7 @@ export type Database = {
           match_number?: number;
           pass_count?: number | null;
           passes?: number | null;
+          pending_events?: Json | null;
           passes_in_row?: number | null;
           play_history?: Json | null;
           played_cards?: Json | null;
@@ -489,6 +613,73 @@ export type Database = {
           },
         ];
       };
+      game_state_deltas: {
+        Row: {
+          created_at: string;
+          delta: Json;
+          room_id: string;
+          sequence_number: number;
+        };
+        Insert: {
+          created_at?: string;
+          delta: Json;
+          room_id: string;
+          sequence_number: number;
+        };
+        Update: {
+          created_at?: string;
+          delta?: Json;
+          room_id?: string;
+          sequence_number?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'game_state_deltas_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      game_state_rebuilds: {
+        Row: {
+          created_at: string;
+          id: string;
+          issues: Json;
+          previous_state: Json;
+          rebuilt_state: Json;
+          room_id: string;
+          through_sequence: number;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          issues?: Json;
+          previous_state: Json;
+          rebuilt_state: Json;
+          room_id: string;
+          through_sequence: number;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          issues?: Json;
+          previous_state?: Json;
+          rebuilt_state?: Json;
+          room_id?: string;
+          through_sequence?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'game_state_rebuilds_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       match_history: {
         Row: {
           created_at: string | null;
@@ -1103,6 +1294,9 @@ export type Database = {
           rank: string | null;
           ranked_matches_played: number | null;
           rating: number | null;
+          rating_deviation: number;
+          rating_updated_at: string | null;
+          rating_volatility: number;
           region: string | null;
           total_matches_played: number | null;
           updated_at: string | null;
@@ -1124,6 +1318,9 @@ export type Database = {
           rank?: string | null;
           ranked_matches_played?: number | null;
           rating?: number | null;
+          rating_deviation?: number;
+          rating_updated_at?: string | null;
+          rating_volatility?: number;
           region?: string | null;
           total_matches_played?: number | null;
           updated_at?: string | null;
@@ -1145,6 +1342,9 @@ export type Database = {
           rank?: string | null;
           ranked_matches_played?: number | null;
           rating?: number | null;
+          rating_deviation?: number;
+          rating_updated_at?: string | null;
+          rating_volatility?: number;
           region?: string | null;
           total_matches_played?: number | null;
           updated_at?: string | null;
@@ -1258,6 +1458,7 @@ export type Database = {
       room_players: {
         Row: {
           bot_difficulty: string | null;
+          bot_personality: string | null;
           connection_status: string | null;
           disconnect_timer_started_at: string | null;
           disconnected_at: string | null;
@@ -1280,6 +1481,7 @@ export type Database = {
         };
         Insert: {
           bot_difficulty?: string | null;
+          bot_personality?: string | null;
           connection_status?: string | null;
           disconnect_timer_started_at?: string | null;
           disconnected_at?: string | null;
@@ -1302,6 +1504,7 @@ export type Database = {
         };
         Update: {
           bot_difficulty?: string | null;
+          bot_personality?: string | null;
           connection_status?: string | null;
           disconnect_timer_started_at?: string | null;
           disconnected_at?: string | null;
@@ -1339,6 +1542,39 @@ export type Database = {
           },
         ];
       };
+      room_spectators: {
+        Row: {
+          joined_at: string;
+          room_id: string;
+          user_id: string;
+        };
+        Insert: {
+          joined_at?: string;
+          room_id: string;
+          user_id: string;
+        };
+        Update: {
+          joined_at?: string;
+          room_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'room_spectators_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'room_spectators_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       rooms: {
         Row: {
           banned_user_ids: string[];
@@ -1356,6 +1592,7 @@ export type Database = {
           is_quick_play: boolean;
           max_players: number | null;
           ranked_mode: boolean | null;
+          region: string | null;
           rematch_for_room_id: string | null;
           room_code: string | null;
           settings: Json | null;
@@ -1379,6 +1616,7 @@ export type Database = {
           is_quick_play?: boolean;
           max_players?: number | null;
           ranked_mode?: boolean | null;
+          region?: string | null;
           rematch_for_room_id?: string | null;
           room_code?: string | null;
           settings?: Json | null;
@@ -1402,6 +1640,7 @@ export type Database = {
           is_quick_play?: boolean;
           max_players?: number | null;
           ranked_mode?: boolean | null;
+          region?: string | null;
           rematch_for_room_id?: string | null;
           room_code?: string | null;
           settings?: Json | null;
@@ -1426,6 +1665,309 @@ export type Database = {
           },
         ];
       };
+      season_leaderboard: {
+        Row: {
+          games_played: number;
+          games_won: number;
+          mode: string;
+          rank: number;
+          rank_points: number;
+          reward_tier: string | null;
+          season_games: number;
+          season_id: string;
+          tier: string;
+          user_id: string;
+          username: string | null;
+          win_rate: number;
+        };
+        Insert: {
+          games_played?: number;
+          games_won?: number;
+          mode: string;
+          rank: number;
+          rank_points: number;
+          reward_tier?: string | null;
+          season_games?: number;
+          season_id: string;
+          tier: string;
+          user_id: string;
+          username?: string | null;
+          win_rate?: number;
+        };
+        Update: {
+          games_played?: number;
+          games_won?: number;
+          mode?: string;
+          rank?: number;
+          rank_points?: number;
+          reward_tier?: string | null;
+          season_games?: number;
+          season_id?: string;
+          tier?: string;
+          user_id?: string;
+          username?: string | null;
+          win_rate?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'season_leaderboard_season_id_fkey';
+            columns: ['season_id'];
+            isOneToOne: false;
+            referencedRelation: 'seasons';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      seasons: {
+        Row: {
+          archived_at: string | null;
+          ends_at: string;
+          id: string;
+          name: string;
+          number: number;
+          starts_at: string;
+          status: string;
+        };
+        Insert: {
+          archived_at?: string | null;
+          ends_at: string;
+          id?: string;
+          name: string;
+          number: number;
+          starts_at: string;
+          status?: string;
+        };
+        Update: {
+          archived_at?: string | null;
+          ends_at?: string;
+          id?: string;
+          name?: string;
+          number?: number;
+          starts_at?: string;
+          status?: string;
+        };
+        Relationships: [];
+      };
+      spectator_game_state: {
+        Row: {
+          room_id: string;
+          state: Json;
+          updated_at: string;
+        };
+        Insert: {
+          room_id: string;
+          state: Json;
+          updated_at?: string;
+        };
+        Update: {
+          room_id?: string;
+          state?: Json;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'spectator_game_state_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: true;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      spectator_snapshots: {
+        Row: {
+          captured_at: string;
+          hands: Json;
+          id: number;
+          room_id: string;
+          state: Json;
+        };
+        Insert: {
+          captured_at?: string;
+          hands: Json;
+          id?: number;
+          room_id: string;
+          state: Json;
+        };
+        Update: {
+          captured_at?: string;
+          hands?: Json;
+          id?: number;
+          room_id?: string;
+          state?: Json;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'spectator_snapshots_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      tournament_entries: {
+        Row: {
+          eliminated_round: number | null;
+          elo_rating: number;
+          final_rank: number | null;
+          points: number;
+          registered_at: string;
+          seed: number | null;
+          tournament_id: string;
+          user_id: string;
+          wins: number;
+        };
+        Insert: {
+          eliminated_round?: number | null;
+          elo_rating: number;
+          final_rank?: number | null;
+          points?: number;
+          registered_at?: string;
+          seed?: number | null;
+          tournament_id: string;
+          user_id: string;
+          wins?: number;
+        };
+        Update: {
+          eliminated_round?: number | null;
+          elo_rating?: number;
+          final_rank?: number | null;
+          points?: number;
+          registered_at?: string;
+          seed?: number | null;
+          tournament_id?: string;
+          user_id?: string;
+          wins?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'tournament_entries_tournament_id_fkey';
+            columns: ['tournament_id'];
+            isOneToOne: false;
+            referencedRelation: 'tournaments';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tournament_entries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      tournament_tables: {
+        Row: {
+          check_in_closes_at: string;
+          created_at: string;
+          finished_at: string | null;
+          id: string;
+          player_ids: string[];
+          positions: Json | null;
+          room_code: string | null;
+          room_id: string | null;
+          round: number;
+          status: string;
+          table_number: number;
+          tournament_id: string;
+        };
+        Insert: {
+          check_in_closes_at: string;
+          created_at?: string;
+          finished_at?: string | null;
+          id?: string;
+          player_ids: string[];
+          positions?: Json | null;
+          room_code?: string | null;
+          room_id?: string | null;
+          round: number;
+          status?: string;
+          table_number: number;
+          tournament_id: string;
+        };
+        Update: {
+          check_in_closes_at?: string;
+          created_at?: string;
+          finished_at?: string | null;
+          id?: string;
+          player_ids?: string[];
+          positions?: Json | null;
+          room_code?: string | null;
+          room_id?: string | null;
+          round?: number;
+          status?: string;
+          table_number?: number;
+          tournament_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'tournament_tables_room_id_fkey';
+            columns: ['room_id'];
+            isOneToOne: false;
+            referencedRelation: 'rooms';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tournament_tables_tournament_id_fkey';
+            columns: ['tournament_id'];
+            isOneToOne: false;
+            referencedRelation: 'tournaments';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      tournaments: {
+        Row: {
+          bot_difficulty: string;
+          check_in_minutes: number;
+          created_at: string;
+          created_by: string | null;
+          current_round: number;
+          finished_at: string | null;
+          format: string;
+          id: string;
+          max_entrants: number;
+          name: string;
+          registration_closes_at: string;
+          round_count: number | null;
+          started_at: string | null;
+          status: string;
+        };
+        Insert: {
+          bot_difficulty?: string;
+          check_in_minutes?: number;
+          created_at?: string;
+          created_by?: string | null;
+          current_round?: number;
+          finished_at?: string | null;
+          format: string;
+          id?: string;
+          max_entrants: number;
+          name: string;
+          registration_closes_at: string;
+          round_count?: number | null;
+          started_at?: string | null;
+          status?: string;
+        };
+        Update: {
+          bot_difficulty?: string;
+          check_in_minutes?: number;
+          created_at?: string;
+          created_by?: string | null;
+          current_round?: number;
+          finished_at?: string | null;
+          format?: string;
+          id?: string;
+          max_entrants?: number;
+          name?: string;
+          registration_closes_at?: string;
+          round_count?: number | null;
+          started_at?: string | null;
+          status?: string;
+        };
+        Relationships: [];
+      };
       waiting_room: {
         Row: {
           id: string;
@@ -1553,6 +2095,25 @@ export type Database = {
         Args: { p_event_type: string; p_room_code: string };
         Returns: Json;
       };
+      apply_ranked_rating: {
+        Args: {
+          p_deviation: number;
+          p_rated_at?: string;
+          p_rating: number;
+          p_user_id: string;
+          p_volatility: number;
+        };
+        Returns: number;
+      };
+      apply_rebuilt_game_state: {
+        Args: {
+          p_issues?: Json;
+          p_room_id: string;
+          p_state: Json;
+          p_through_sequence: number;
+        };
+        Returns: string;
+      };
       calculate_rank_from_elo: {
         Args: { p_elo_rating: number };
         Returns: string;
@@ -1577,6 +2138,21 @@ export type Database = {
         };
         Returns: Json;
       };
+      create_duplicate_group: { Args: { p_table_count: number }; Returns: Json };
+      create_tournament: {
+        Args: {
+          p_bot_difficulty?: string;
+          p_format: string;
+          p_max_entrants: number;
+          p_name: string;
+          p_registration_closes_at: string;
+        };
+        Returns: Json;
+      };
+      deal_seeded_deck: {
+        Args: { p_deal_number: number; p_seed: string };
+        Returns: string[];
+      };
       delete_room_players_by_human_user_id: {
         Args: { human_user_id: string };
         Returns: undefined;
@@ -1623,6 +2199,47 @@ export type Database = {
       generate_room_code: { Args: never; Returns: string };
       generate_room_code_v2: { Args: never; Returns: string };
       get_card_value: { Args: { p_card: Json }; Returns: number };
+      get_duplicate_results: { Args: { p_group_id: string }; Returns: Json };
+      get_friends_leaderboard: {
+        Args: { p_mode?: string; p_since?: string };
+        Returns: {
+          avatar_url: string;
+          current_win_streak: number;
+          games_played: number;
+          games_won: number;
+          h2h_games: number;
+          h2h_losses: number;
+          h2h_wins: number;
+          longest_win_streak: number;
+          rank: number;
+          rank_points: number;
+          user_id: string;
+          username: string;
+          win_rate: number;
+        }[];
+      };
+      get_friends_weekly_recap: {
+        Args: never;
+        Returns: {
+          avatar_url: string | null;
+          games_played: number;
+          games_with_you: number;
+          games_won: number;
+          user_id: string;
+          username: string;
+          wins_with_you: number;
+        }[];
+      };
+      get_friends_live_games: {
+        Args: never;
+        Returns: {
+          friend_id: string;
+          room_code: string;
+          room_id: string;
+          started_at: string | null;
+          username: string | null;
+        }[];
+      };
       get_player_game_state: {
         Args: { p_room_id: string };
         Returns: {
@@ -1654,6 +2271,26 @@ export type Database = {
           winner: number | null;
         }[];
       };
+      get_spectator_game_state: { Args: { p_room_id: string }; Returns: Json };
+      get_player_seasons: {
+        Args: { p_user_id: string };
+        Returns: {
+          casual_rank: number | null;
+          casual_rank_points: number | null;
+          casual_reward_tier: string | null;
+          casual_tier: string | null;
+          ends_at: string;
+          ranked_rank: number | null;
+          ranked_rank_points: number | null;
+          ranked_reward_tier: string | null;
+          ranked_tier: string | null;
+          season_games: number;
+          season_id: string;
+          season_name: string;
+          season_number: number;
+          starts_at: string;
+        }[];
+      };
       get_leaderboard_casual: {
         Args: { p_limit?: number; p_offset?: number };
         Returns: {
@@ -1787,6 +2424,27 @@ export type Database = {
         Args: { p_room_code: string; p_user_id: string; p_username: string };
         Returns: Json;
       };
+      list_public_rooms: {
+        Args: {
+          p_ranked?: boolean | null;
+          p_region?: string | null;
+          p_rule_preset?: string | null;
+        };
+        Returns: {
+          bot_difficulty: string;
+          created_at: string | null;
+          current_players: number;
+          host_username: string | null;
+          max_players: number | null;
+          ranked_mode: boolean;
+          region: string;
+          room_code: string;
+          room_id: string;
+          rule_preset: string;
+          title: string | null;
+          turn_timer_seconds: number;
+        }[];
+      };
       lobby_claim_host: { Args: { p_room_id: string }; Returns: Json };
       lobby_evict_ghosts: { Args: { p_room_id: string }; Returns: number };
       lobby_host_leave: {
@@ -1829,6 +2487,7 @@ export type Database = {
         Returns: boolean;
       };
       refresh_leaderboard: { Args: never; Returns: undefined };
+      register_for_tournament: { Args: { p_tournament_id: string }; Returns: Json };
       release_bot_coordinator_lease: {
         Args: { p_coordinator_id: string; p_room_code: string };
         Returns: undefined;
@@ -1841,7 +2500,60 @@ export type Database = {
         };
         Returns: Json;
       };
+      roll_over_season: { Args: never; Returns: Json };
+      room_timer_seconds: {
+        Args: { p_settings: Json; p_timer: string };
+        Returns: number;
+      };
+      season_soft_reset_rating: { Args: { p_rating: number }; Returns: number };
       server_time_ms: { Args: never; Returns: number };
+      set_room_bot_personalities: {
+        Args: { p_personalities: string[]; p_room_id: string };
+        Returns: Json;
+      };
+      set_room_duplicate_group: {
+        Args: { p_code: string | null; p_room_id: string };
+        Returns: Json;
+      };
+      set_room_listing: {
+        Args: {
+          p_bot_difficulty: string;
+          p_room_id: string;
+          p_title: string | null;
+          p_turn_timer_seconds: number;
+        };
+        Returns: Json;
+      };
+      set_room_rule_set: {
+        Args: { p_room_id: string; p_rule_set: Json };
+        Returns: Json;
+      };
+      set_room_scoring: {
+        Args: { p_room_id: string; p_scoring: Json };
+        Returns: Json;
+      };
+      set_room_spectator_settings: {
+        Args: {
+          p_allow_spectators: boolean;
+          p_reveal_delay_seconds?: number | null;
+          p_room_id: string;
+        };
+        Returns: Json;
+      };
+      set_room_table: {
+        Args: { p_deal_variant: string; p_player_count: number; p_room_id: string };
+        Returns: Json;
+      };
+      set_room_timers: {
+        Args: {
+          p_auto_pass_seconds: number;
+          p_disconnect_seconds: number;
+          p_room_id: string;
+          p_turn_seconds: number;
+        };
+        Returns: Json;
+      };
+      spectate_room: { Args: { p_room_code: string }; Returns: Json };
       start_game_with_bots:
         | {
             Args: {
@@ -1855,6 +2567,7 @@ export type Database = {
             Args: { p_bot_difficulty?: string; p_room_id: string };
             Returns: Json;
           };
+      stop_spectating: { Args: { p_room_id: string }; Returns: Json };
       test_cleanup_user_data: {
         Args: { p_user_ids: string[] };
         Returns: undefined;
@@ -1929,6 +2642,7 @@ export type Database = {
         Args: { p_cards: Json; p_player_id: string; p_room_code: string };
         Returns: Json;
       };
+      withdraw_from_tournament: { Args: { p_tournament_id: string }; Returns: Json };
     };
     Enums: {
       game_event_type:
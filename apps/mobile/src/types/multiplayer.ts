@@ -16,6 +16,11 @@ export interface ScoresHistoryEntry {
     matchScore: number;
     cumulativeScore: number;
     cardsRemaining: number;
+    // Scoring breakdown (written since per-room scoring; absent on older rows)
+    pointsPerCard?: number;
+    twosPenalty?: number;
+    multiplier?: number;
+    hongKongBonus?: number;
   }[];
 }
 
@@ -43,7 +48,9 @@ export interface Player {
   is_host: boolean | null; // DB column has no NOT NULL constraint
   is_ready: boolean | null; // DB column has no NOT NULL constraint
   is_bot: boolean | null; // DB column has no NOT NULL constraint
-  bot_difficulty?: 'easy' | 'medium' | 'hard' | string | null; // DB column is nullable string
+  bot_difficulty?: 'easy' | 'medium' | 'hard' | 'expert' | string | null; // DB column is nullable string
+  /** Bot playing style (see game/bot/personality.ts); null for humans and balanced bots */
+  bot_personality?: 'balanced' | 'aggressive' | 'conservative' | 'bluffing' | string | null;
   joined_at: string | null; // DB column is nullable
   /** fix/rejoin: live connection state from room_players realtime subscription */
   connection_status?: 'connected' | 'disconnected' | 'replaced_by_bot' | string | null;
@@ -72,6 +79,8 @@ export interface GameState {
   scores?: number[]; // Cumulative scores per player [p0, p1, p2, p3] (not a DB column name)
   final_scores: Record<string, number> | null; // Final scores when game_phase='game_over'
   scores_history: ScoresHistoryEntry[]; // Per-match score history (persisted by play-cards EF)
+  deal_seed_hash?: string | null; // SHA-256 of the secret deal seed, published before the deal
+  deal_seed?: string | null; // Revealed by complete-game once the game is over
 
   // Auto-pass timer state (for highest play detection)
   auto_pass_timer: AutoPassTimerState | null;
@@ -206,6 +215,11 @@ export interface MatchScoreDetail {
   pointsPerCard: number;
   matchScore: number;
   cumulativeScore: number;
+  twosRemaining?: number;
+  twosPenalty?: number; // "Chop 2" points included in matchScore
+  neverPlayed?: boolean;
+  multiplier?: number; // 2 when the never-played penalty doubled matchScore
+  hongKongBonus?: number; // Points taken off the match winner
 }
 
 export type BroadcastData =
@@ -258,7 +272,7 @@ export interface UseRealtimeReturn {
 
   // Game actions
   setReady: (ready: boolean) => Promise<void>;
-  startGame: (botDifficulty?: 'easy' | 'medium' | 'hard') => Promise<void>;
+  startGame: (botDifficulty?: 'easy' | 'medium' | 'hard' | 'expert') => Promise<void>;
   playCards: (cards: Card[], playerIndex?: number) => Promise<void>; // Optional playerIndex for bot coordinator
   pass: () => Promise<void>;
 
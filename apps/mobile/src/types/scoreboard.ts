@@ -26,6 +26,17 @@ export interface ScoreHistory {
   pointsAdded: number[]; // Points gained/lost this match per player
   scores: number[]; // Cumulative scores after this match
   timestamp?: string; // Optional timestamp for when match ended
+  breakdown?: MatchScoreBreakdown[]; // Optional per-player penalties/bonus (same order as pointsAdded)
+}
+
+/**
+ * Penalties and bonus included in a player's points for one match
+ * (only non-zero with a non-default room scoring config)
+ */
+export interface MatchScoreBreakdown {
+  twosPenalty: number; // "Chop 2" points for 2s left in hand
+  doubled: boolean; // Never played a card and the room doubles that penalty
+  hongKongBonus: number; // Points taken off the match winner
 }
 
 /**
@@ -100,6 +111,7 @@ export interface ScoreboardProps {
    * Use this for mapping play history actions to correct players in game state order.
    * Optional for backward compatibility with tests */
   originalPlayerNames?: string[];
+  targetScore?: number; // Score that ends the game (room scoring config); shown in the header when set
   onToggleExpand?: () => void; // Callback for expand/collapse button
   onTogglePlayHistory?: () => void; // Callback for play history button
 }
@@ -0,0 +1,67 @@
+import { summarizeFriendsRecap, type FriendsRecapRow } from '../friendsRecap';
+
+function row(userId: string, overrides: Partial<FriendsRecapRow> = {}): FriendsRecapRow {
+  return {
+    user_id: userId,
+    username: userId,
+    avatar_url: null,
+    games_played: 0,
+    games_won: 0,
+    games_with_you: 0,
+    wins_with_you: 0,
+    ...overrides,
+  };
+}
+
+describe('summarizeFriendsRecap', () => {
+  it('returns an empty recap when nobody played', () => {
+    expect(summarizeFriendsRecap([row('me'), row('ana')], 'me')).toEqual({
+      gamesWithFriends: 0,
+      winsWithFriends: 0,
+      activeFriends: 0,
+      mostActive: null,
+      mostWins: null,
+    });
+  });
+
+  it("takes the user's games with friends from their own row", () => {
+    const recap = summarizeFriendsRecap(
+      [
+        row('me', { games_played: 9, games_won: 4, games_with_you: 5, wins_with_you: 2 }),
+        row('ana', { games_played: 3, games_won: 1, games_with_you: 3 }),
+        row('ben'),
+      ],
+      'me'
+    );
+    expect(recap.gamesWithFriends).toBe(5);
+    expect(recap.winsWithFriends).toBe(2);
+    expect(recap.activeFriends).toBe(1);
+  });
+
+  it('picks the most active friend and the top winner including the user', () => {
+    const recap = summarizeFriendsRecap(
+      [
+        row('me', { games_played: 12, games_won: 6 }),
+        row('ana', { games_played: 8, games_won: 2 }),
+        row('ben', { games_played: 10, games_won: 5 }),
+      ],
+      'me'
+    );
+    expect(recap.mostActive).toEqual({ username: 'ben', count: 10 });
+    expect(recap.mostWins).toEqual({ username: 'me', count: 6 });
+  });
+
+  it('breaks ties by games played, then username', () => {
+    const recap = summarizeFriendsRecap(
+      [
+        row('me'),
+        row('cat', { games_played: 4, games_won: 2 }),
+        row('ana', { games_played: 4, games_won: 2 }),
+        row('ben', { games_played: 3, games_won: 2 }),
+      ],
+      'me'
+    );
+    expect(recap.mostActive).toEqual({ username: 'ana', count: 4 });
+    expect(recap.mostWins).toEqual({ username: 'ana', count: 2 });
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  applyGameStateDelta,
+  applyGameStateDeltas,
+  type GameStateDelta,
+  type GameStateDeltaRow,
+} from '../gameStateDeltas';
+import type { Card, GameState } from '../../types/multiplayer';
+
+const card = (id: string): Card => ({ id, rank: id.slice(0, -1), suit: id.slice(-1) }) as Card;
+const hidden = (count: number): Card[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `hidden_${i}`, rank: '?', suit: '?' }) as Card);
+
+function snapshot(overrides: Partial<GameState> = {}): GameState {
+  return {
+    id: 'gs-1',
+    room_id: 'room-1',
+    current_turn: 0,
+    turn_started_at: '2026-08-01T12:00:00Z',
+    last_play: null,
+    pass_count: 0,
+    game_phase: 'first_play',
+    winner: null,
+    game_winner_index: null,
+    match_number: 1,
+    hands: { '0': [card('3D'), card('5H')], '1': hidden(2), '2': hidden(1), '3': hidden(1) },
+    play_history: [],
+    final_scores: null,
+    scores_history: [],
+    auto_pass_timer: null,
+    played_cards: [],
+    updated_at: '2026-08-01T12:00:00Z',
+    ...overrides,
+  };
+}
+
+function row(sequence_number: number, delta: GameStateDelta): GameStateDeltaRow {
+  return { room_id: 'room-1', sequence_number, delta, created_at: '2026-08-01T12:00:05Z' };
+}
+
+const play = (player_index: number, ids: string[], next_turn: number): GameStateDelta => ({
+  kind: 'play',
+  player_index,
+  cards: ids.map(card),
+  combo_type: 'Single',
+  next_turn,
+  timestamp: 1000,
+  auto_pass_timer: null,
+  turn_started_at: '2026-08-01T12:00:05Z',
+});
+
+const pass = (player_index: number, next_turn: number, passes: number): GameStateDelta => ({
+  kind: 'pass',
+  player_index,
+  next_turn,
+  passes,
+  trick_cleared: passes === 0,
+  turn_started_at: '2026-08-01T12:00:06Z',
+});
+
+/** last_play after seat 0 led the 3♦ */
+function play0() {
+  return { player_index: 0, cards: [card('3D')], combo_type: 'Single' as const, timestamp: 1000 };
+}
+
+describe('applyGameStateDelta', () => {
+  it('applies a play to the own hand and the shared piles', () => {
+    const state = applyGameStateDelta(snapshot(), play(0, ['3D'], 1), '2026-08-01T12:00:05Z');
+
+    expect(state).toMatchObject({
+      game_phase: 'playing',
+      current_turn: 1,
+      pass_count: 0,
+      turn_started_at: '2026-08-01T12:00:05Z',
+      last_play: { player_index: 0, cards: [card('3D')], combo_type: 'Single' },
+      played_cards: [card('3D')],
+      play_history: [{ match_number: 1, position: 0, cards: [card('3D')], passed: false }],
+    });
+    expect(state?.hands['0']).toEqual([card('5H')]);
+  });
+
+  it("shrinks another player's placeholder hand and keeps an optimistic own hand", () => {
+    const other = applyGameStateDelta(snapshot(), play(1, ['4C'], 2), 'now');
+    expect(other?.hands['1']).toHaveLength(1);
+
+    const optimistic = snapshot({ hands: { ...snapshot().hands, '0': [card('5H')] } });
+    const own = applyGameStateDelta(optimistic, play(0, ['3D'], 1), 'now');
+    expect(own?.hands['0']).toEqual([card('5H')]);
+  });
+
+  it('counts passes and clears the trick', () => {
+    const played = snapshot({ game_phase: 'playing', last_play: play0(), pass_count: 2 });
+    expect(applyGameStateDelta(played, pass(2, 3, 3), 'now')).toMatchObject({
+      current_turn: 3,
+      pass_count: 3,
+      last_play: play0(),
+    });
+    expect(applyGameStateDelta(played, pass(3, 0, 0), 'now')).toMatchObject({
+      current_turn: 0,
+      pass_count: 0,
+      last_play: null,
+      auto_pass_timer: null,
+    });
+  });
+
+  it('patches turn-level columns and asks for a snapshot otherwise', () => {
+    const patched = applyGameStateDelta(
+      snapshot(),
+      { kind: 'patch', fields: { current_turn: 2, passes: 1 }, turn_started_at: null },
+      'now'
+    );
+    expect(patched).toMatchObject({ current_turn: 2, pass_count: 1 });
+    expect(patched?.turn_started_at).toBe('2026-08-01T12:00:00Z');
+    expect(applyGameStateDelta(snapshot(), { kind: 'snapshot' }, 'now')).toBeNull();
+  });
+});
+
+describe('applyGameStateDeltas', () => {
+  it('applies rows in sequence whatever order they arrived in, once each', () => {
+    const rows = [row(12, pass(1, 2, 1)), row(11, play(0, ['3D'], 1)), row(11, play(0, ['3D'], 1))];
+    const sync = applyGameStateDeltas(snapshot(), 10, rows);
+
+    expect(sync).toMatchObject({ sequence: 12, pending: [], resync: false });
+    expect(sync.state.current_turn).toBe(2);
+    expect(sync.state.played_cards).toEqual([card('3D')]);
+  });
+
+  it('drops rows the snapshot already includes', () => {
+    const state = snapshot();
+    const sync = applyGameStateDeltas(state, 11, [
+      row(10, pass(3, 0, 0)),
+      row(11, play(0, ['3D'], 1)),
+    ]);
+    expect(sync).toEqual({ state, sequence: 11, pending: [], resync: false });
+  });
+
+  it('holds rows after a missing sequence number', () => {
+    const sync = applyGameStateDeltas(snapshot(), 10, [
+      row(11, play(0, ['3D'], 1)),
+      row(13, pass(2, 3, 2)),
+    ]);
+
+    expect(sync.sequence).toBe(11);
+    expect(sync.pending.map(r => r.sequence_number)).toEqual([13]);
+    expect(sync.resync).toBe(false);
+  });
+
+  it('stops at a delta that needs a snapshot', () => {
+    const sync = applyGameStateDeltas(snapshot(), 10, [
+      row(11, play(0, ['3D'], 1)),
+      row(12, { kind: 'snapshot' }),
+      row(13, pass(1, 2, 1)),
+    ]);
+
+    expect(sync.sequence).toBe(11);
+    expect(sync.pending.map(r => r.sequence_number)).toEqual([12, 13]);
+    expect(sync.resync).toBe(true);
+  });
+
+  it('takes the deal of a snapshot without event_sequence as included', () => {
+    const dealt = applyGameStateDeltas(snapshot(), null, [
+      row(5, { kind: 'snapshot' }),
+      row(6, play(0, ['3D'], 1)),
+    ]);
+    expect(dealt).toMatchObject({ sequence: 6, pending: [], resync: false });
+
+    const behind = applyGameStateDeltas(snapshot(), null, [row(6, play(0, ['3D'], 1))]);
+    expect(behind).toMatchObject({ sequence: null, resync: true });
+    expect(applyGameStateDeltas(snapshot(), null, [])).toMatchObject({ resync: false });
+  });
+});
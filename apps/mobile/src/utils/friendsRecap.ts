@@ -0,0 +1,60 @@
+import type { Database } from '../types/database.types';
+
+export type FriendsRecapRow =
+  Database['public']['Functions']['get_friends_weekly_recap']['Returns'][number];
+
+export interface FriendsRecapHighlight {
+  username: string;
+  count: number;
+}
+
+export interface FriendsRecap {
+  /** Games the user played with at least one friend this week. */
+  gamesWithFriends: number;
+  /** Of those, how many the user won. */
+  winsWithFriends: number;
+  /** Friends who played at least one game this week. */
+  activeFriends: number;
+  /** Friend with the most games this week (null when nobody played). */
+  mostActive: FriendsRecapHighlight | null;
+  /** Player (friend or the user) with the most wins this week (null without wins). */
+  mostWins: FriendsRecapHighlight | null;
+}
+
+/**
+ * Summarises the rows of the get_friends_weekly_recap RPC into the
+ * highlights shown on the leaderboard's friends scope.
+ *
+ * Ties go to the player with more games, then to the alphabetically first
+ * username, so the card does not flicker between refreshes.
+ *
+ * @param rows Recap rows for the user and each accepted friend.
+ * @param userId The signed-in user's id.
+ */
+export function summarizeFriendsRecap(rows: FriendsRecapRow[], userId: string): FriendsRecap {
+  const own = rows.find(row => row.user_id === userId);
+  const friends = rows.filter(row => row.user_id !== userId);
+
+  const best = (
+    candidates: FriendsRecapRow[],
+    count: (row: FriendsRecapRow) => number
+  ): FriendsRecapHighlight | null => {
+    const [top] = [...candidates]
+      .filter(row => count(row) > 0)
+      .sort(
+        (a, b) =>
+          count(b) - count(a) ||
+          b.games_played - a.games_played ||
+          a.username.localeCompare(b.username)
+      );
+    return top ? { username: top.username, count: count(top) } : null;
+  };
+
+  return {
+    gamesWithFriends: own?.games_with_you ?? 0,
+    winsWithFriends: own?.wins_with_you ?? 0,
+    activeFriends: friends.filter(row => row.games_played > 0).length,
+    mostActive: best(friends, row => row.games_played),
+    mostWins: best(rows, row => row.games_won),
+  };
+}
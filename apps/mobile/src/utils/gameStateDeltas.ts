@@ -0,0 +1,200 @@
+/**
+ * Apply game_state_deltas rows to the client's game state.
+ *
+ * Every game_state transition is published to the room as a compact,
+ * sequence-numbered delta (migration 20260801000018_game_state_deltas.sql):
+ * the cards of a play, the next turn, the pass count and the auto-pass timer,
+ * instead of the whole row with hands, play_history and played_cards. Deltas
+ * can arrive out of order, so they are applied strictly in sequence from the
+ * sequence of the last snapshot (game_state.event_sequence, returned by
+ * get_player_game_state). A delta that cannot be applied locally (a deal, a
+ * match end) or a missing sequence number means the snapshot has to be
+ * fetched again.
+ */
+
+import type { AutoPassTimerState, Card, ComboType, GameState } from '../types/multiplayer';
+
+/** A play, as appended to game_events by play-cards */
+export interface PlayDelta {
+  kind: 'play';
+  player_index: number;
+  cards: Card[];
+  combo_type: ComboType;
+  next_turn: number;
+  timestamp: number;
+  auto_pass_timer: AutoPassTimerState | null;
+  turn_started_at: string | null;
+}
+
+/** A pass; trick_cleared when it left the last player to lead */
+export interface PassDelta {
+  kind: 'pass';
+  player_index: number;
+  next_turn: number;
+  passes: number;
+  trick_cleared: boolean;
+  turn_started_at: string | null;
+}
+
+/** Turn-level columns changed by a write without an event of its own (e.g. the auto-pass timer) */
+export interface PatchDelta {
+  kind: 'patch';
+  fields: Partial<
+    Pick<GameState, 'current_turn' | 'game_phase' | 'last_play' | 'auto_pass_timer'> & {
+      passes: number;
+    }
+  >;
+  turn_started_at: string | null;
+}
+
+/** A transition the client cannot apply (deal, match or game end): fetch the snapshot */
+export interface SnapshotDelta {
+  kind: 'snapshot';
+}
+
+export type GameStateDelta = PlayDelta | PassDelta | PatchDelta | SnapshotDelta;
+
+/** One game_state_deltas row */
+export interface GameStateDeltaRow {
+  room_id: string;
+  sequence_number: number;
+  delta: GameStateDelta;
+  created_at: string;
+}
+
+export interface GameStateDeltaSync {
+  state: GameState;
+  /** Sequence number of the last delta applied (or of the snapshot) */
+  sequence: number | null;
+  /** Rows received ahead of a missing sequence number, oldest first */
+  pending: GameStateDeltaRow[];
+  /** A snapshot has to be fetched: the base sequence is unknown or a delta needs one */
+  resync: boolean;
+}
+
+/** Whether a hand holds the placeholders get_player_game_state puts in other players' hands */
+function isHiddenHand(hand: Card[]): boolean {
+  return hand.length > 0 && hand.every(card => card.id.startsWith('hidden_'));
+}
+
+/**
+ * Apply one delta to the game state.
+ *
+ * @returns The new state, or null when the delta needs a snapshot.
+ */
+export function applyGameStateDelta(
+  state: GameState,
+  delta: GameStateDelta,
+  receivedAt: string
+): GameState | null {
+  switch (delta.kind) {
+    case 'play': {
+      const handKey = String(delta.player_index);
+      const hand = state.hands[handKey] ?? [];
+      const playedIds = new Set(delta.cards.map(card => card.id));
+      return {
+        ...state,
+        game_phase: state.game_phase === 'first_play' ? 'playing' : state.game_phase,
+        current_turn: delta.next_turn,
+        turn_started_at: delta.turn_started_at ?? state.turn_started_at,
+        // Other players' hands are placeholders: only their size changes. The
+        // own hand may already be short of these cards (optimistic update).
+        hands: {
+          ...state.hands,
+          [handKey]: isHiddenHand(hand)
+            ? hand.slice(0, Math.max(0, hand.length - delta.cards.length))
+            : hand.filter(card => !playedIds.has(card.id)),
+        },
+        last_play: {
+          player_index: delta.player_index,
+          cards: delta.cards,
+          combo_type: delta.combo_type,
+          timestamp: delta.timestamp,
+        },
+        pass_count: 0,
+        played_cards: [...state.played_cards, ...delta.cards],
+        play_history: [
+          ...state.play_history,
+          {
+            match_number: state.match_number,
+            position: delta.player_index,
+            cards: delta.cards,
+            combo_type: delta.combo_type,
+            passed: false,
+          },
+        ],
+        auto_pass_timer: delta.auto_pass_timer,
+        updated_at: receivedAt,
+      };
+    }
+
+    case 'pass':
+      return {
+        ...state,
+        current_turn: delta.next_turn,
+        turn_started_at: delta.turn_started_at ?? state.turn_started_at,
+        pass_count: delta.trick_cleared ? 0 : delta.passes,
+        ...(delta.trick_cleared ? { last_play: null, auto_pass_timer: null } : {}),
+        updated_at: receivedAt,
+      };
+
+    case 'patch': {
+      const { passes, ...fields } = delta.fields;
+      return {
+        ...state,
+        ...fields,
+        ...(passes !== undefined ? { pass_count: passes } : {}),
+        turn_started_at: delta.turn_started_at ?? state.turn_started_at,
+        updated_at: receivedAt,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply the received rows that follow the last applied sequence, in order.
+ *
+ * Rows at or before the last applied sequence are dropped. Rows after a
+ * missing sequence number are kept in `pending` until it arrives — or until
+ * the caller gives up waiting and fetches a snapshot.
+ *
+ * @param state The current game state.
+ * @param sequence Sequence of the last delta applied, or of the snapshot (null if unknown).
+ * @param rows Rows received since, in any order.
+ */
+export function applyGameStateDeltas(
+  state: GameState,
+  sequence: number | null,
+  rows: readonly GameStateDeltaRow[]
+): GameStateDeltaSync {
+  const pending = rows
+    .filter(row => sequence === null || row.sequence_number > sequence)
+    .sort((a, b) => a.sequence_number - b.sequence_number)
+    .filter((row, i, sorted) => i === 0 || row.sequence_number !== sorted[i - 1].sequence_number);
+
+  if (sequence === null) {
+    // A snapshot taken before the row's first update (event_sequence is NULL)
+    // already shows the deal that created it; anything else needs a newer one
+    if (pending.length === 0) return { state, sequence, pending, resync: false };
+    if (pending[0].delta.kind !== 'snapshot') return { state, sequence, pending, resync: true };
+    return applyGameStateDeltas(state, pending[0].sequence_number, pending.slice(1));
+  }
+
+  let current = state;
+  let applied = sequence;
+  while (pending.length > 0 && pending[0].sequence_number === applied + 1) {
+    const row = pending[0];
+    const next = applyGameStateDelta(current, row.delta, row.created_at);
+    if (!next) {
+      return { state: current, sequence: applied, pending, resync: true };
+    }
+    current = next;
+    applied = row.sequence_number;
+    pending.shift();
+  }
+
+  return { state: current, sequence: applied, pending, resync: false };
+}
@@ -4,7 +4,9 @@
  * Server-side port of apps/mobile/src/game/bot/index.ts.
  * Provides intelligent card playing with configurable difficulty levels.
  *
- * Keep in sync with the client-side BotAI when modifying bot behavior.
+ * Card rules come from the shared gameEngine module (the same code the client
+ * engine uses); only the decision-making below is a port. Keep it in sync with
+ * the client-side BotAI when modifying bot behavior.
  *
  * @module botAI
  */
@@ -15,12 +17,17 @@ import {
   canBeatPlay,
   findRecommendedPlay,
   findHighestBeatingSingle,
+  isOpeningCard,
+  STANDARD_RULE_SET,
+  type RuleSet,
   type Card,
   type LastPlay,
   type ComboType,
 } from './gameEngine.ts';
+import { searchExpertPlay, type PassObservation } from './expertBot.ts';
+import { applyBotPersonality, type BotPersonality } from './botPersonality.ts';
 
-export type BotDifficulty = 'easy' | 'medium' | 'hard';
+export type BotDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
 
 export interface BotPlayOptions {
   hand: Card[];
@@ -31,6 +38,13 @@ export interface BotPlayOptions {
   currentPlayerIndex: number;
   nextPlayerIndex?: number;
   difficulty?: BotDifficulty;
+  ruleSet?: RuleSet;
+  personality?: BotPersonality; // Playing style on top of the difficulty (defaults to balanced)
+  // Expert only: card counting, hand inference and search
+  playedCards?: Card[]; // Every card played so far this match
+  passes?: PassObservation[]; // Opponents' passes this match
+  turnOrder?: readonly number[]; // Seat-indexed next seat (defaults to clockwise)
+  timeBudgetMs?: number; // Thinking time per move
 }
 
 export interface BotPlayResult {
@@ -45,9 +59,15 @@ export interface BotPlayResult {
  * - Easy: Random valid plays, high pass rate
  * - Medium: Basic strategy with some mistakes
  * - Hard: Optimal play using game theory
+ * - Expert: Monte Carlo search over the possible opponent hands (see expertBot.ts)
+ *
+ * A personality (BotPlayOptions.personality) then adjusts the tier's choice to
+ * a playing style (see botPersonality.ts).
  */
 export class BotAI {
   private readonly _difficulty: BotDifficulty;
+  /** House rules for the current getPlay()/playHighestValid() call. */
+  private _rules: RuleSet = STANDARD_RULE_SET;
 
   constructor(difficulty: BotDifficulty = 'medium') {
     this._difficulty = difficulty;
@@ -66,21 +86,23 @@ export class BotAI {
    *   - Following: highest valid combination that beats lastPlay
    *   - No valid play: returns null (pass)
    *   - First play of game (must include 3♦): highest combo containing 3♦
+   *     (the 3 of the lowest suit under house rules)
    */
   public playHighestValid(
-    options: Pick<BotPlayOptions, 'hand' | 'lastPlay' | 'isFirstPlayOfGame'>,
+    options: Pick<BotPlayOptions, 'hand' | 'lastPlay' | 'isFirstPlayOfGame' | 'ruleSet'>,
   ): BotPlayResult {
     const { hand, lastPlay, isFirstPlayOfGame } = options;
+    this._rules = options.ruleSet ?? STANDARD_RULE_SET;
 
     if (hand.length === 0) {
       return { cards: null, reasoning: '[AUTO] No cards in hand' };
     }
 
-    const sorted = sortHand(hand);
+    const sorted = sortHand(hand, this._rules);
 
     // First play of game must start with 3♦
     if (isFirstPlayOfGame) {
-      const threeD = sorted.find(c => c.rank === '3' && c.suit === 'D');
+      const threeD = sorted.find(c => isOpeningCard(c, this._rules));
       if (!threeD) return { cards: null, reasoning: '[AUTO] No 3♦ found' };
       const comboWith3D = this.findBestComboWith3D(sorted, threeD);
       if (comboWith3D) return { cards: comboWith3D, reasoning: '[AUTO] Highest combo with 3♦' };
@@ -139,12 +161,12 @@ export class BotAI {
     // same-rank pairs differ by suit, multiple triples differ by suit).
     if (validPlays.length > 1 && lastPlay.cards.length < 5) {
       const byId = new Map(sorted.map(c => [c.id, c] as const));
-      const comboType = classifyCards(lastPlay.cards);
+      const comboType = classifyCards(lastPlay.cards, this._rules);
       validPlays.sort((a, b) => {
         const cardsA = a.map(id => byId.get(id)!);
         const cardsB = b.map(id => byId.get(id)!);
-        const aBeatsB = canBeatPlay(cardsA, { position: 0, cards: cardsB, combo_type: comboType });
-        const bBeatsA = canBeatPlay(cardsB, { position: 0, cards: cardsA, combo_type: comboType });
+        const aBeatsB = canBeatPlay(cardsA, { position: 0, cards: cardsB, combo_type: comboType }, this._rules);
+        const bBeatsA = canBeatPlay(cardsB, { position: 0, cards: cardsA, combo_type: comboType }, this._rules);
         if (aBeatsB && !bBeatsA) return 1;  // a is stronger → comes last
         if (!aBeatsB && bBeatsA) return -1; // b is stronger → a comes before
         return 0;
@@ -160,6 +182,7 @@ export class BotAI {
 
   public getPlay(options: BotPlayOptions): BotPlayResult {
     const { hand, lastPlay, isFirstPlayOfGame, matchNumber, playerCardCounts, currentPlayerIndex, nextPlayerIndex } = options;
+    this._rules = options.ruleSet ?? STANDARD_RULE_SET;
 
     if (hand.length === 0) {
       return { cards: null, reasoning: 'No cards in hand' };
@@ -184,7 +207,34 @@ export class BotAI {
       currentMatch = 1;
     }
 
-    if (isFirstPlayOfGame && currentMatch === 1) {
+    const decision = this.decide(options, isFirstPlayOfGame && currentMatch === 1);
+    const personality = options.personality ?? 'balanced';
+    if (personality === 'balanced') return decision;
+    const opponentCounts = playerCardCounts.filter((count, index) => index !== currentPlayerIndex && count > 0);
+    const nextPlayer = nextPlayerIndex !== undefined
+      ? nextPlayerIndex
+      : this.findNextActivePlayer(currentPlayerIndex, playerCardCounts);
+    return applyBotPersonality(personality, decision, {
+      hand,
+      lastPlay,
+      minOpponentCards: opponentCounts.length > 0 ? Math.min(...opponentCounts) : 0,
+      nextPlayerCardCount: nextPlayer !== -1 ? playerCardCounts[nextPlayer] : 0,
+      isFirstPlayOfGame: isFirstPlayOfGame && currentMatch === 1,
+      validPlays: () => (lastPlay ? this.findAllValidPlays(sortHand(hand, this._rules), lastPlay) : []),
+      rules: this._rules,
+    });
+  }
+
+  /**
+   * The difficulty tier's decision, before any personality
+   */
+  private decide(options: BotPlayOptions, isFirstPlayOfGame: boolean): BotPlayResult {
+    const { hand, lastPlay, playerCardCounts, currentPlayerIndex, nextPlayerIndex } = options;
+    if (this._difficulty === 'expert') {
+      return this.handleExpert(options, isFirstPlayOfGame);
+    }
+
+    if (isFirstPlayOfGame) {
       return this.handleFirstPlay(hand);
     }
 
@@ -195,11 +245,39 @@ export class BotAI {
     return this.handleFollowing(hand, lastPlay, playerCardCounts, currentPlayerIndex, nextPlayerIndex);
   }
 
+  // ==================== EXPERT ====================
+
+  /**
+   * Expert: search the position instead of following heuristics
+   */
+  private handleExpert(options: BotPlayOptions, isFirstPlayOfGame: boolean): BotPlayResult {
+    const playerCount = options.playerCardCounts.length;
+    const turnOrder = options.turnOrder?.length === playerCount
+      ? options.turnOrder
+      : Array.from({ length: playerCount }, (_, seat) => (seat + 1) % playerCount);
+    const result = searchExpertPlay({
+      hand: options.hand,
+      lastPlay: options.lastPlay,
+      isFirstPlayOfGame,
+      playerCardCounts: options.playerCardCounts,
+      currentPlayerIndex: options.currentPlayerIndex,
+      turnOrder,
+      playedCards: options.playedCards ?? [],
+      passes: options.passes ?? [],
+      ruleSet: this._rules,
+      timeBudgetMs: options.timeBudgetMs,
+    });
+    return {
+      cards: result.cards,
+      reasoning: `[EXPERT] ${result.samples} sampled deals, expected ${result.expectedValue.toFixed(2)}`,
+    };
+  }
+
   // ==================== FIRST PLAY ====================
 
   private handleFirstPlay(hand: Card[]): BotPlayResult {
-    const sorted = sortHand(hand);
-    const threeD = sorted.find(c => c.rank === '3' && c.suit === 'D');
+    const sorted = sortHand(hand, this._rules);
+    const threeD = sorted.find(c => isOpeningCard(c, this._rules));
     if (!threeD) return { cards: null, reasoning: 'No 3D found' };
 
     if (this._difficulty === 'hard') {
@@ -238,7 +316,7 @@ export class BotAI {
   private handleLeading(
     hand: Card[], playerCardCounts: number[], currentPlayerIndex: number, nextPlayerIndex?: number,
   ): BotPlayResult {
-    const sorted = sortHand(hand);
+    const sorted = sortHand(hand, this._rules);
     const activeOpponentCounts = playerCardCounts.filter((_count, index) => index !== currentPlayerIndex && _count > 0);
     const minOpponentCards = activeOpponentCounts.length > 0 ? Math.min(...activeOpponentCounts) : 0;
 
@@ -295,7 +373,7 @@ export class BotAI {
     hand: Card[], lastPlay: LastPlay, playerCardCounts: number[],
     currentPlayerIndex: number, nextPlayerIndex?: number,
   ): BotPlayResult {
-    const sorted = sortHand(hand);
+    const sorted = sortHand(hand, this._rules);
     const activeOpponentCounts = playerCardCounts.filter((_count, index) => index !== currentPlayerIndex && _count > 0);
     const minOpponentCards = activeOpponentCounts.length > 0 ? Math.min(...activeOpponentCounts) : 0;
 
@@ -309,7 +387,7 @@ export class BotAI {
     const lastPlayerHasWon = lastPlayPlayerCardCount === 0;
 
     if (!lastPlayerHasWon && nextPlayerCardCount === 1 && lastPlay.cards.length === 1) {
-      const highestSingle = findHighestBeatingSingle(sorted, lastPlay);
+      const highestSingle = findHighestBeatingSingle(sorted, lastPlay, this._rules);
       if (highestSingle) {
         return { cards: [highestSingle.id], reasoning: `One Card Left rule: must play highest single (${highestSingle.rank}${highestSingle.suit})` };
       }
@@ -334,14 +412,14 @@ export class BotAI {
         return { cards: highestPlay, reasoning: `[HARD] Opponent has ${minOpponentCards} cards - playing highest to block` };
       }
       if (minOpponentCards > 6) return { cards: validPlays[0], reasoning: '[HARD] Playing lowest valid - saving high cards' };
-      const recommended = findRecommendedPlay(hand, lastPlay, false);
+      const recommended = findRecommendedPlay(hand, lastPlay, false, this._rules);
       if (recommended) return { cards: recommended, reasoning: '[HARD] Playing engine-recommended optimal play' };
       return { cards: validPlays[0], reasoning: '[HARD] Playing lowest valid play' };
     }
 
     // MEDIUM
     if (Math.random() < 0.12) return { cards: null, reasoning: '[MEDIUM] Strategically passing' };
-    const recommended = findRecommendedPlay(hand, lastPlay, false);
+    const recommended = findRecommendedPlay(hand, lastPlay, false, this._rules);
     if (!recommended) return { cards: null, reasoning: '[MEDIUM] Cannot beat last play' };
     return { cards: recommended, reasoning: `[MEDIUM] Playing recommended: ${recommended.length} cards` };
   }
@@ -369,7 +447,7 @@ export class BotAI {
           for (let d = c + 1; d < n - 1; d++) {
             for (let e = d + 1; e < n; e++) {
               const fiveCards = [hand[a], hand[b], hand[c], hand[d], hand[e]];
-              const combo = classifyCards(fiveCards);
+              const combo = classifyCards(fiveCards, this._rules);
               if (this.is5CardCombo(combo)) return fiveCards.map(c => c.id);
             }
           }
@@ -445,19 +523,19 @@ export class BotAI {
 
     if (numCards === 1) {
       for (const card of hand) {
-        if (canBeatPlay([card], lastPlay)) validPlays.push([card.id]);
+        if (canBeatPlay([card], lastPlay, this._rules)) validPlays.push([card.id]);
       }
     } else if (numCards === 2) {
       const pairs = this.findAllPairs(hand);
       for (const pair of pairs) {
         const pairCards = pair.map(id => hand.find(c => c.id === id)!);
-        if (canBeatPlay(pairCards, lastPlay)) validPlays.push(pair);
+        if (canBeatPlay(pairCards, lastPlay, this._rules)) validPlays.push(pair);
       }
     } else if (numCards === 3) {
       const triples = this.findAllTriples(hand);
       for (const triple of triples) {
         const tripleCards = triple.map(id => hand.find(c => c.id === id)!);
-        if (canBeatPlay(tripleCards, lastPlay)) validPlays.push(triple);
+        if (canBeatPlay(tripleCards, lastPlay, this._rules)) validPlays.push(triple);
       }
     } else if (numCards === 5) {
       const n = hand.length;
@@ -468,7 +546,7 @@ export class BotAI {
             for (let d = c + 1; d < n - 1; d++) {
               for (let e = d + 1; e < n; e++) {
                 const fiveCards = [hand[a], hand[b], hand[c], hand[d], hand[e]];
-                if (canBeatPlay(fiveCards, lastPlay)) validPlays.push(fiveCards.map(c => c.id));
+                if (canBeatPlay(fiveCards, lastPlay, this._rules)) validPlays.push(fiveCards.map(c => c.id));
               }
             }
           }
@@ -479,10 +557,10 @@ export class BotAI {
         validPlays.sort((a, b) => {
           const cardsA = a.map(id => byId.get(id)!);
           const cardsB = b.map(id => byId.get(id)!);
-          const classA = classifyCards(cardsA);
-          const classB = classifyCards(cardsB);
-          const aBeatsB = canBeatPlay(cardsA, { position: 0, cards: cardsB, combo_type: classB });
-          const bBeatsA = canBeatPlay(cardsB, { position: 0, cards: cardsA, combo_type: classA });
+          const classA = classifyCards(cardsA, this._rules);
+          const classB = classifyCards(cardsB, this._rules);
+          const aBeatsB = canBeatPlay(cardsA, { position: 0, cards: cardsB, combo_type: classB }, this._rules);
+          const bBeatsA = canBeatPlay(cardsB, { position: 0, cards: cardsA, combo_type: classA }, this._rules);
           if (aBeatsB && !bBeatsA) return 1;
           if (!aBeatsB && bBeatsA) return -1;
           return 0;
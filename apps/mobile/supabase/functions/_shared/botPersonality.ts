@@ -0,0 +1,196 @@
+/**
+ * Bot personalities — playing style on top of the difficulty tier
+ *
+ * The difficulty decides how well a bot plays; the personality decides how it
+ * likes to play. Once the tier has chosen a move, the personality may swap it
+ * for another legal move (or a pass) that suits its style:
+ *
+ * - how early it spends its 2s
+ * - how readily it breaks up a pair or triple to follow a single
+ * - whether it contests every trick, or passes to keep control cards (A, 2)
+ *   and set up big plays later
+ * - whether it leads high singles early to draw out the opponents' 2s
+ *
+ * Forced and decisive moves are never changed: the opening play, the
+ * one-card-left rule, going out, and the endgame (an opponent on two cards or
+ * fewer), where every bot simply plays to win. 'balanced' leaves the tier's
+ * choice alone.
+ *
+ * Shared by the server BotAI (bots seated with room_players.bot_personality)
+ * and the client bots, which re-export it from src/game/bot/personality.ts.
+ *
+ * @module botPersonality
+ */
+
+import { sortHand, type Card, type LastPlay, type RuleSet } from './gameEngine.ts';
+
+export type BotPersonality = 'balanced' | 'aggressive' | 'conservative' | 'bluffing';
+
+export const BOT_PERSONALITIES: readonly BotPersonality[] = [
+  'balanced',
+  'aggressive',
+  'conservative',
+  'bluffing',
+];
+
+export interface BotPersonalityTraits {
+  /** Plays whenever it can beat the trick, overriding the tier's voluntary passes */
+  contestsEveryTrick: boolean;
+  /** Spends a 2 only once it holds this many cards or fewer (13 = any time) */
+  spendTwosAt: number;
+  /** Chance of breaking up a pair or triple to follow a single */
+  pairBreaking: number;
+  /** Early on, chance of passing rather than spend an A or 2 on someone else's trick */
+  holdControlRate: number;
+  /** Early on, chance of passing a trick it could take cheaply, hiding its strength */
+  slowPlayRate: number;
+  /** Early on, chance of leading a high single to draw out the opponents' 2s */
+  bluffLeadRate: number;
+}
+
+export const BOT_PERSONALITY_TRAITS: Record<BotPersonality, BotPersonalityTraits> = {
+  balanced: {
+    contestsEveryTrick: false,
+    spendTwosAt: 13,
+    pairBreaking: 1,
+    holdControlRate: 0,
+    slowPlayRate: 0,
+    bluffLeadRate: 0,
+  },
+  aggressive: {
+    contestsEveryTrick: true,
+    spendTwosAt: 13,
+    pairBreaking: 1,
+    holdControlRate: 0,
+    slowPlayRate: 0,
+    bluffLeadRate: 0,
+  },
+  conservative: {
+    contestsEveryTrick: false,
+    spendTwosAt: 5,
+    pairBreaking: 0.2,
+    holdControlRate: 0.6,
+    slowPlayRate: 0,
+    bluffLeadRate: 0,
+  },
+  bluffing: {
+    contestsEveryTrick: false,
+    spendTwosAt: 8,
+    pairBreaking: 0.5,
+    holdControlRate: 0.3,
+    slowPlayRate: 0.25,
+    bluffLeadRate: 0.3,
+  },
+};
+
+/** An opponent this close to going out: play to win, whatever the style */
+const ENDGAME_CARD_COUNT = 2;
+/** Every opponent holds more than this: still early enough to pass or bluff */
+const EARLY_GAME_CARD_COUNT = 6;
+const CONTROL_RANKS = ['A', '2'];
+
+export function isBotPersonality(value: unknown): value is BotPersonality {
+  return typeof value === 'string' && (BOT_PERSONALITIES as readonly string[]).includes(value);
+}
+
+export interface PersonalityContext {
+  hand: Card[];
+  lastPlay: LastPlay | null;
+  /** Smallest hand among the opponents still in the match */
+  minOpponentCards: number;
+  nextPlayerCardCount: number;
+  isFirstPlayOfGame: boolean;
+  /** The tier's legal answers to lastPlay, weakest first (only called when following) */
+  validPlays: () => string[][];
+  rules: RuleSet;
+  random?: () => number;
+}
+
+export interface PersonalityDecision {
+  cards: string[] | null;
+  reasoning?: string;
+}
+
+/**
+ * Adjust the tier's decision to the personality's style
+ */
+export function applyBotPersonality(
+  personality: BotPersonality,
+  decision: PersonalityDecision,
+  context: PersonalityContext
+): PersonalityDecision {
+  const traits = BOT_PERSONALITY_TRAITS[personality];
+  const { hand, lastPlay, minOpponentCards, rules } = context;
+  const random = context.random ?? Math.random;
+  const tag = `[${personality.toUpperCase()}]`;
+
+  if (
+    personality === 'balanced' ||
+    context.isFirstPlayOfGame ||
+    context.nextPlayerCardCount <= 1 ||
+    minOpponentCards <= ENDGAME_CARD_COUNT ||
+    decision.cards?.length === hand.length
+  ) {
+    return decision;
+  }
+
+  const byId = new Map(hand.map(card => [card.id, card] as const));
+  const rankCount = (rank: string) => hand.filter(card => card.rank === rank).length;
+  const spendsTwos = (ids: string[]) =>
+    hand.length > traits.spendTwosAt && ids.some(id => byId.get(id)?.rank === '2');
+  const breaksSet = (ids: string[]) => ids.length === 1 && rankCount(byId.get(ids[0])!.rank) > 1;
+  const early = minOpponentCards > EARLY_GAME_CARD_COUNT;
+
+  if (!lastPlay) {
+    const sorted = sortHand(hand, rules);
+    const loneCards = sorted.filter(card => card.rank !== '2' && rankCount(card.rank) === 1);
+    if (early && loneCards.length > 1 && random() < traits.bluffLeadRate) {
+      const high = loneCards[loneCards.length - 1];
+      return {
+        cards: [high.id],
+        reasoning: `${tag} Leading a high single (${high.rank}${high.suit}) to draw out 2s`,
+      };
+    }
+    if (decision.cards && spendsTwos(decision.cards)) {
+      const lead = loneCards[0] ?? sorted.find(card => card.rank !== '2');
+      if (lead) {
+        return {
+          cards: [lead.id],
+          reasoning: `${tag} Holding 2s until ${traits.spendTwosAt} cards; leading ${lead.rank}${lead.suit}`,
+        };
+      }
+    }
+    return decision;
+  }
+
+  // Following: keep the tier's choice if it suits the style, otherwise the
+  // weakest answer that does, otherwise pass
+  const willBreakSets = random() < traits.pairBreaking;
+  const suits = (ids: string[]) => !spendsTwos(ids) && (willBreakSets || !breaksSet(ids));
+
+  if (!decision.cards) {
+    if (!traits.contestsEveryTrick) return decision;
+    const answer = context.validPlays().find(suits);
+    return answer ? { cards: answer, reasoning: `${tag} Contesting the trick` } : decision;
+  }
+
+  if (!suits(decision.cards)) {
+    const answer = context.validPlays().find(suits);
+    return answer
+      ? { cards: answer, reasoning: `${tag} Keeping its 2s and sets together` }
+      : { cards: null, reasoning: `${tag} Passing rather than spend 2s or break a set` };
+  }
+
+  if (early && !traits.contestsEveryTrick) {
+    const spendsControl = decision.cards.some(id =>
+      CONTROL_RANKS.includes(byId.get(id)?.rank ?? '')
+    );
+    if (spendsControl && random() < traits.holdControlRate) {
+      return { cards: null, reasoning: `${tag} Holding control cards for a big finish` };
+    }
+    if (random() < traits.slowPlayRate) {
+      return { cards: null, reasoning: `${tag} Slow-playing to hide its strength` };
+    }
+  }
+  return decision;
+}
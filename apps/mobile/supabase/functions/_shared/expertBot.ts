@@ -0,0 +1,437 @@
+/**
+ * Expert bot search — card counting, hand inference and Monte Carlo rollouts
+ *
+ * The expert tier does not follow fixed heuristics. For every decision it:
+ *
+ * 1. lists its legal moves (pruned to the weakest few and the strongest of
+ *    each size), honouring the opening card and the one-card-left rule
+ * 2. works out the unseen cards: the deck minus its own hand and every card
+ *    played this match (card counting)
+ * 3. deals the unseen cards to the opponents at random, many times over,
+ *    respecting their card counts and what their passes revealed: a player
+ *    who passed on a single holds no single that beats it, and likewise for
+ *    pairs (hand inference; retried a few times, then relaxed)
+ * 4. plays every candidate out to the end of the match in each sampled deal
+ *    with a fast greedy policy for all four seats
+ * 5. picks the move with the best average result (going out = 1, otherwise
+ *    minus the share of the hand still held)
+ *
+ * Sampling stops at a per-move time budget, so the search fits on-device and
+ * inside the bot-coordinator edge function. Shared by the 'expert' tier of
+ * the server BotAI and of the client bots, which re-export it from
+ * src/game/bot/expert.ts.
+ *
+ * @module expertBot
+ */
+
+import {
+  sortHand,
+  classifyCards,
+  canBeatPlay,
+  isOpeningCard,
+  getSuitValues,
+  getStraightSequences,
+  validateOneCardLeftRule,
+  canPassWithOneCardLeftRule,
+  createOrderedDeck,
+  RANK_VALUE,
+  COMBO_STRENGTH,
+  type Card,
+  type LastPlay,
+  type RuleSet,
+} from './gameEngine.ts';
+
+/** Default thinking time per move */
+export const DEFAULT_EXPERT_TIME_BUDGET_MS = 200;
+/** Upper bound on sampled deals per move, whatever the budget */
+export const DEFAULT_EXPERT_MAX_SAMPLES = 300;
+
+/** Candidates kept per play size: the weakest few plus the strongest */
+const WEAKEST_PER_SIZE = 4;
+/** Safety cap on moves in one rollout (a match never needs this many) */
+const MAX_ROLLOUT_MOVES = 200;
+/** Attempts at a deal that agrees with every observed pass before relaxing */
+const DEAL_ATTEMPTS = 8;
+
+/** An opponent passed on a play: they (probably) hold nothing that beats it */
+export interface PassObservation {
+  seat: number;
+  play: Card[];
+}
+
+export interface ExpertSearchOptions {
+  hand: Card[];
+  lastPlay: LastPlay | null;
+  /** The opening play of the game, which must include the opening card */
+  isFirstPlayOfGame: boolean;
+  playerCardCounts: number[];
+  currentPlayerIndex: number;
+  /** Seat-indexed next seat */
+  turnOrder: readonly number[];
+  /** Every card played so far this match */
+  playedCards: Card[];
+  passes: PassObservation[];
+  ruleSet: RuleSet;
+  timeBudgetMs?: number;
+  maxSamples?: number;
+  /** Random source for the sampled deals (defaults to Math.random) */
+  random?: () => number;
+}
+
+export interface ExpertSearchResult {
+  /** Card IDs to play, null = pass */
+  cards: string[] | null;
+  /** Deals sampled before the budget ran out */
+  samples: number;
+  /** Average rollout result of the chosen move, from -1 to 1 */
+  expectedValue: number;
+}
+
+/**
+ * Passes seen in a match's moves, each with the play it was a pass on
+ */
+export function passObservationsFromMoves(
+  moves: readonly { seat: number; cards: Card[]; passed: boolean }[]
+): PassObservation[] {
+  const observations: PassObservation[] = [];
+  let lastPlay: Card[] | null = null;
+  for (const move of moves) {
+    if (move.passed) {
+      if (lastPlay) observations.push({ seat: move.seat, play: lastPlay });
+    } else {
+      lastPlay = move.cards;
+    }
+  }
+  return observations;
+}
+
+/** All k-card subsets of cards (order preserved) */
+function choose(cards: readonly Card[], k: number): Card[][] {
+  if (k === 0) return [[]];
+  const out: Card[][] = [];
+  for (let i = 0; i <= cards.length - k; i++) {
+    for (const rest of choose(cards.slice(i + 1), k - 1)) {
+      out.push([cards[i], ...rest]);
+    }
+  }
+  return out;
+}
+
+function groupByRank(sorted: readonly Card[]): Card[][] {
+  const groups: Card[][] = [];
+  for (const card of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && group[0].rank === card.rank) group.push(card);
+    else groups.push([card]);
+  }
+  return groups;
+}
+
+function removeCards(hand: readonly Card[], cards: readonly Card[]): Card[] {
+  const removed = new Set(cards.map(card => card.id));
+  return hand.filter(card => !removed.has(card.id));
+}
+
+function toLastPlay(cards: Card[], position: number, rules: RuleSet): LastPlay {
+  return { position, cards, combo_type: classifyCards(cards, rules) };
+}
+
+/** Next seat in turn order that still holds cards */
+function nextActiveSeat(seat: number, counts: readonly number[], turnOrder: readonly number[]) {
+  let next = turnOrder[seat];
+  for (let i = 0; i < counts.length && counts[next] === 0 && next !== seat; i++) {
+    next = turnOrder[next];
+  }
+  return next;
+}
+
+/**
+ * Legal moves from a hand, pruned to the weakest few and the strongest of
+ * each size; null stands for a pass
+ */
+function listCandidates(
+  hand: Card[],
+  lastPlay: LastPlay | null,
+  isFirstPlayOfGame: boolean,
+  nextPlayerCardCount: number,
+  rules: RuleSet
+): (Card[] | null)[] {
+  const sorted = sortHand(hand, rules);
+  const suitValues = getSuitValues(rules);
+  const strength = (cards: Card[]) => {
+    const top = cards.reduce((a, b) =>
+      RANK_VALUE[b.rank] * 4 + suitValues[b.suit] > RANK_VALUE[a.rank] * 4 + suitValues[a.suit]
+        ? b
+        : a
+    );
+    const combo = classifyCards(cards, rules);
+    return (COMBO_STRENGTH[combo] ?? 0) * 100 + RANK_VALUE[top.rank] * 4 + suitValues[top.suit];
+  };
+
+  const plays: Card[][] = [];
+  for (const group of groupByRank(sorted)) {
+    for (let size = 1; size <= Math.min(group.length, 4); size++) {
+      plays.push(...choose(group, size));
+    }
+  }
+  if (!lastPlay || lastPlay.cards.length === 5) {
+    plays.push(...choose(sorted, 5));
+  }
+
+  const legal = plays.filter(
+    cards =>
+      classifyCards(cards, rules) !== 'unknown' &&
+      (!lastPlay || canBeatPlay(cards, lastPlay, rules)) &&
+      (!isFirstPlayOfGame || cards.some(card => isOpeningCard(card, rules))) &&
+      validateOneCardLeftRule(cards, hand, nextPlayerCardCount, lastPlay, rules).valid
+  );
+
+  const bySize = new Map<number, Card[][]>();
+  for (const cards of legal) {
+    bySize.set(cards.length, [...(bySize.get(cards.length) ?? []), cards]);
+  }
+  const candidates: (Card[] | null)[] = [];
+  for (const group of bySize.values()) {
+    const ranked = group
+      .map(cards => ({ cards, value: strength(cards) }))
+      .sort((a, b) => a.value - b.value)
+      .map(({ cards }) => cards);
+    candidates.push(...ranked.slice(0, WEAKEST_PER_SIZE));
+    if (ranked.length > WEAKEST_PER_SIZE) candidates.push(ranked[ranked.length - 1]);
+  }
+
+  if (lastPlay && canPassWithOneCardLeftRule(hand, nextPlayerCardCount, lastPlay, rules).canPass) {
+    candidates.push(null);
+  }
+  return candidates;
+}
+
+/**
+ * The greedy policy every seat follows in a rollout: lead a straight or the
+ * lowest rank group, follow with the lowest play that beats, and block a
+ * player on one card with the highest single.
+ */
+function policyMove(
+  sorted: Card[],
+  lastPlay: LastPlay | null,
+  nextPlayerCardCount: number,
+  rules: RuleSet
+): Card[] | null {
+  const groups = groupByRank(sorted);
+
+  const straightFrom = (beats: (cards: Card[]) => boolean): Card[] | null => {
+    const byRank = new Map(groups.map(group => [group[0].rank as string, group]));
+    for (const sequence of getStraightSequences(rules)) {
+      if (!sequence.every(rank => byRank.has(rank))) continue;
+      const cards = sequence.map(rank => {
+        const group = byRank.get(rank)!;
+        return group[group.length - 1];
+      });
+      if (beats(cards)) return cards;
+    }
+    return null;
+  };
+
+  if (!lastPlay) {
+    if (nextPlayerCardCount === 1) {
+      const group = groups.find(candidate => candidate.length >= 2);
+      return group ? group.slice(0, 2) : [sorted[sorted.length - 1]];
+    }
+    const straight = sorted.length > 5 ? straightFrom(() => true) : null;
+    if (straight) return straight;
+    const lowest = groups[0];
+    return lowest.length === 4 ? lowest.slice(0, 3) : lowest;
+  }
+
+  const size = lastPlay.cards.length;
+  const beats = (cards: Card[]) => canBeatPlay(cards, lastPlay, rules);
+  if (size === 1) {
+    if (nextPlayerCardCount === 1) {
+      const top = sorted[sorted.length - 1];
+      return beats([top]) ? [top] : null;
+    }
+    const card = sorted.find(candidate => beats([candidate]));
+    return card ? [card] : null;
+  }
+  if (size === 2 || size === 3) {
+    for (const group of groups) {
+      if (group.length >= size && beats(group.slice(-size))) return group.slice(-size);
+    }
+    return null;
+  }
+  if (size === 5) return straightFrom(beats);
+  return null;
+}
+
+/**
+ * Play a sampled deal out to the end of the match
+ *
+ * @returns The rollout result for `seat`: 1 for going out first, otherwise
+ * minus the share of a full hand still held
+ */
+function rollout(
+  hands: Card[][],
+  toMove: number,
+  lastPlay: LastPlay | null,
+  seat: number,
+  turnOrder: readonly number[],
+  rules: RuleSet
+): number {
+  let current = toMove;
+  let trick = lastPlay;
+  for (let moves = 0; moves < MAX_ROLLOUT_MOVES; moves++) {
+    if (hands[current].length === 0) break; // Short-dealt sample (inconsistent counts)
+    if (trick && trick.position === current) trick = null;
+    const next = turnOrder[current];
+    const cards = policyMove(hands[current], trick, hands[next].length, rules);
+    if (cards) {
+      hands[current] = removeCards(hands[current], cards);
+      if (hands[current].length === 0) break;
+      trick = toLastPlay(cards, current, rules);
+    } else if (!trick) {
+      break; // The policy always leads; guards against a malformed position
+    }
+    current = next;
+  }
+  return hands[seat].length === 0 ? 1 : -hands[seat].length / 13;
+}
+
+/**
+ * Deal the unseen cards to the opponents at random, keeping their card
+ * counts and, where possible, what their passes revealed
+ */
+function sampleHands(
+  unseen: readonly Card[],
+  seat: number,
+  counts: readonly number[],
+  passes: readonly PassObservation[],
+  rules: RuleSet,
+  random: () => number
+): Card[][] {
+  const singleLimits = new Map<number, LastPlay>();
+  const pairLimits = new Map<number, LastPlay>();
+  for (const { seat: opponent, play } of passes) {
+    if (opponent === seat || (play.length !== 1 && play.length !== 2)) continue;
+    const limits = play.length === 1 ? singleLimits : pairLimits;
+    const current = limits.get(opponent);
+    const observed = toLastPlay(play, opponent, rules);
+    // The lowest play passed on is the most telling
+    if (!current || canBeatPlay(current.cards, observed, rules)) limits.set(opponent, observed);
+  }
+  const forbids = (opponent: number, card: Card) => {
+    const limit = singleLimits.get(opponent);
+    return limit !== undefined && canBeatPlay([card], limit, rules);
+  };
+  const holdsBeatingPair = (opponent: number, hand: Card[]) => {
+    const limit = pairLimits.get(opponent);
+    if (!limit) return false;
+    return groupByRank(sortHand(hand, rules)).some(
+      group => group.length >= 2 && choose(group, 2).some(pair => canBeatPlay(pair, limit, rules))
+    );
+  };
+
+  let hands: Card[][] = [];
+  for (let attempt = 0; attempt < DEAL_ATTEMPTS; attempt++) {
+    const relaxed = attempt === DEAL_ATTEMPTS - 1;
+    const capacity = counts.map((count, index) => (index === seat ? 0 : count));
+    hands = counts.map(() => []);
+    // Cards some opponent cannot hold go first, while everyone still has room
+    const restricted = (card: Card) => [...singleLimits.keys()].some(o => forbids(o, card));
+    const deck = [...unseen]
+      .map(card => ({ card, key: random() - (restricted(card) ? 1 : 0) }))
+      .sort((a, b) => a.key - b.key)
+      .map(({ card }) => card);
+
+    for (const card of deck) {
+      const open = capacity.map((room, index) => (room > 0 ? index : -1)).filter(i => i >= 0);
+      if (open.length === 0) break;
+      const allowed = relaxed ? open : open.filter(opponent => !forbids(opponent, card));
+      const pool = allowed.length > 0 ? allowed : open;
+      const total = pool.reduce((sum, opponent) => sum + capacity[opponent], 0);
+      let pick = random() * total;
+      let chosen = pool[pool.length - 1];
+      for (const opponent of pool) {
+        pick -= capacity[opponent];
+        if (pick < 0) {
+          chosen = opponent;
+          break;
+        }
+      }
+      hands[chosen].push(card);
+      capacity[chosen]--;
+    }
+    if (relaxed || !hands.some((hand, opponent) => holdsBeatingPair(opponent, hand))) break;
+  }
+  return hands.map(hand => sortHand(hand, rules));
+}
+
+/**
+ * Choose a move by determinized Monte Carlo search
+ */
+export function searchExpertPlay(options: ExpertSearchOptions): ExpertSearchResult {
+  const {
+    hand,
+    isFirstPlayOfGame,
+    playerCardCounts,
+    currentPlayerIndex: seat,
+    turnOrder,
+    playedCards,
+    passes,
+    ruleSet: rules,
+  } = options;
+  const budget = options.timeBudgetMs ?? DEFAULT_EXPERT_TIME_BUDGET_MS;
+  const maxSamples = options.maxSamples ?? DEFAULT_EXPERT_MAX_SAMPLES;
+  const random = options.random ?? Math.random;
+  // Server game_state.last_play names the seat player_index; the search uses position
+  const lastPlay = options.lastPlay && {
+    ...options.lastPlay,
+    position: options.lastPlay.position ?? options.lastPlay.player_index,
+  };
+
+  const counts = playerCardCounts.map((count, index) => (index === seat ? hand.length : count));
+  const next = nextActiveSeat(seat, counts, turnOrder);
+  const toBeat = lastPlay && lastPlay.position !== seat ? lastPlay : null;
+  const candidates = listCandidates(
+    hand,
+    toBeat,
+    isFirstPlayOfGame,
+    next === seat ? 0 : counts[next],
+    rules
+  );
+  const toResult = (cards: Card[] | null, samples = 0, expectedValue = 0) => ({
+    cards: cards ? cards.map(card => card.id) : null,
+    samples,
+    expectedValue,
+  });
+  if (candidates.length <= 1) return toResult(candidates[0] ?? null);
+
+  const known = new Set([...hand, ...playedCards].map(card => card.id));
+  const unseen = createOrderedDeck().filter(card => !known.has(card.id));
+  const sortedHand = sortHand(hand, rules);
+  const totals = candidates.map(() => 0);
+  const start = Date.now();
+  let samples = 0;
+
+  do {
+    const dealt = sampleHands(unseen, seat, counts, passes, rules, random);
+    candidates.forEach((cards, index) => {
+      const hands = dealt.map((dealtHand, s) => (s === seat ? sortedHand : dealtHand));
+      if (!cards) {
+        totals[index] += rollout(hands, turnOrder[seat], toBeat, seat, turnOrder, rules);
+        return;
+      }
+      hands[seat] = removeCards(sortedHand, cards);
+      totals[index] +=
+        hands[seat].length === 0
+          ? 1
+          : rollout(hands, turnOrder[seat], toLastPlay(cards, seat, rules), seat, turnOrder, rules);
+    });
+    samples++;
+  } while (samples < maxSamples && Date.now() - start < budget);
+
+  let best = 0;
+  totals.forEach((total, index) => {
+    if (total > totals[best]) best = index;
+  });
+  return toResult(candidates[best], samples, totals[best] / samples);
+}
@@ -1,11 +1,24 @@
 /**
- * Shared game engine for Edge Functions (Deno)
+ * Big Two rules module (isomorphic)
  *
- * Self-contained port of the core Big Two game logic used by both
- * the BotAI and the bot-coordinator Edge Function.
+ * Single source of truth for the Big Two rules. This file is imported both by
+ * the React Native client (re-exported through src/game/engine/) and by the
+ * Deno Edge Functions (play-cards, player-pass, bot-coordinator, ...), so a
+ * play is judged identically on-device and on the server.
  *
- * Source of truth: apps/mobile/src/game/engine/ (client-side)
- * Keep these in sync when modifying game rules.
+ * It holds the card rules, scoring and deals only. Features built on them
+ * live in sibling modules of their own (tournament.ts, spectator.ts,
+ * roomListing.ts, roomTimers.ts, seasons.ts, glicko2.ts, matchmakingQueue.ts,
+ * gameLog.ts), which import what they need from here as `./gameEngine.ts`.
+ *
+ * Constraints that keep it loadable in both runtimes:
+ * - No imports, so every other shared module can build on it. Shared modules
+ *   import each other with explicit `.ts` specifiers, which Deno requires and
+ *   the app's tsconfig allows (allowImportingTsExtensions).
+ * - No platform APIs (no Deno.*, no React Native modules, no logger).
+ *
+ * The rules are pinned down by the fixtures of
+ * src/game/__tests__/rules-conformance.test.ts.
  *
  * @module gameEngine
  */
@@ -13,11 +26,14 @@
 // ==================== TYPES ====================
 
 export interface Card {
-  id: string;
+  id: string; // e.g. "3D", "AS"
   suit: 'D' | 'C' | 'H' | 'S';
   rank: '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A' | '2';
 }
 
+export type Rank = Card['rank'];
+export type Suit = Card['suit'];
+
 export type ComboType =
   | 'Single'
   | 'Pair'
@@ -37,25 +53,25 @@ export interface LastPlay {
   timestamp?: number;
 }
 
-// ==================== CONSTANTS ====================
-
-export const RANK_VALUE: Record<string, number> = {
-  '3': 0, '4': 1, '5': 2, '6': 3, '7': 4, '8': 5, '9': 6, '10': 7,
-  'J': 8, 'Q': 9, 'K': 10, 'A': 11, '2': 12,
-};
-
-export const SUIT_VALUE: Record<string, number> = {
-  'D': 0, 'C': 1, 'H': 2, 'S': 3,
-};
+export interface ClassificationResult {
+  type: string; // The combo type
+  sortedCards: Card[]; // Cards sorted in proper display order
+}
 
-export const COMBO_STRENGTH: Record<string, number> = {
-  'Single': 1, 'Pair': 2, 'Triple': 3, 'Straight': 4,
-  'Flush': 5, 'Full House': 6, 'Four of a Kind': 7, 'Straight Flush': 8,
-};
+// ==================== CONSTANTS ====================
 
-export const VALID_STRAIGHT_SEQUENCES: readonly string[][] = [
-  ['A', '2', '3', '4', '5'],
-  ['2', '3', '4', '5', '6'],
+/**
+ * Valid straight sequences in Big Two
+ *
+ * Big Two straight rules:
+ * - A can be LOW in A-2-3-4-5 (5-high straight)
+ * - A can be HIGH in 10-J-Q-K-A (A-high straight)
+ * - 2 CAN be LOW in 2-3-4-5-6 (6-high straight)
+ * - A CANNOT wrap up to 2: J-Q-K-A-2 is INVALID
+ */
+export const VALID_STRAIGHT_SEQUENCES = [
+  ['A', '2', '3', '4', '5'], // 5-high (A is low)
+  ['2', '3', '4', '5', '6'], // 6-high (2 is low)
   ['3', '4', '5', '6', '7'],
   ['4', '5', '6', '7', '8'],
   ['5', '6', '7', '8', '9'],
@@ -63,92 +79,596 @@ export const VALID_STRAIGHT_SEQUENCES: readonly string[][] = [
   ['7', '8', '9', '10', 'J'],
   ['8', '9', '10', 'J', 'Q'],
   ['9', '10', 'J', 'Q', 'K'],
-  ['10', 'J', 'Q', 'K', 'A'],
-];
+  ['10', 'J', 'Q', 'K', 'A'], // A-high (highest)
+] as const;
+
+/** Rank order (low to high) */
+export const RANKS = ['3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', '2'] as const;
+
+/**
+ * Suit order (low to high)
+ * D (Diamonds) < C (Clubs) < H (Hearts) < S (Spades)
+ */
+export const SUITS = ['D', 'C', 'H', 'S'] as const;
+
+/** Suit values for comparisons */
+export const SUIT_VALUE: Record<string, number> = {
+  D: 0, // Diamonds (lowest)
+  C: 1, // Clubs
+  H: 2, // Hearts
+  S: 3, // Spades (highest)
+};
+
+/** Rank values for comparisons */
+export const RANK_VALUE: Record<string, number> = {
+  '3': 0,
+  '4': 1,
+  '5': 2,
+  '6': 3,
+  '7': 4,
+  '8': 5,
+  '9': 6,
+  '10': 7,
+  J: 8,
+  Q: 9,
+  K: 10,
+  A: 11,
+  '2': 12, // 2 is highest
+};
+
+/** Combo type strength hierarchy */
+export const COMBO_STRENGTH: Record<string, number> = {
+  Single: 1,
+  Pair: 2,
+  Triple: 3,
+  Straight: 4,
+  Flush: 5,
+  'Full House': 6,
+  'Four of a Kind': 7,
+  'Straight Flush': 8,
+};
+
+/** Game configuration constants */
+export const MAX_PLAYERS = 4;
+export const CARDS_PER_PLAYER = 13;
+export const TOTAL_CARDS = 52;
+/** Smallest table; two- and three-player games are dealt by a DealVariant */
+export const MIN_PLAYERS = 2;
+/** Hand size of the 'extra-card' deal at a table of two or three */
+export const SHORT_TABLE_CARDS_PER_PLAYER = 17;
+/** Largest dealt hand: 17 cards plus the leftover card at a three-player table */
+export const MAX_HAND_SIZE = SHORT_TABLE_CARDS_PER_PLAYER + 1;
+
+// ==================== HOUSE RULES ====================
+
+/** Built-in house-rule presets offered in the lobby */
+export type RuleSetPresetId = 'standard' | 'taiwanese' | 'no-twos-in-straights';
+
+/** How two flushes are compared */
+export type FlushRanking = 'highest-card' | 'suit-first';
+
+/**
+ * House rules that differ between regions.
+ *
+ * Every rules function in this module takes an optional RuleSet as its last
+ * argument and falls back to STANDARD_RULE_SET, so callers that never pass one
+ * keep the classic rules above.
+ */
+export interface RuleSet {
+  preset: RuleSetPresetId | 'custom';
+  /** Suits from lowest to highest. The 3 of the lowest suit opens the game. */
+  suitOrder: readonly Suit[];
+  /** Whether A-2-3-4-5 and 2-3-4-5-6 count as straights */
+  twosInStraights: boolean;
+  /** 'highest-card': highest card decides; 'suit-first': flush suit decides, then highest card */
+  flushRanking: FlushRanking;
+  /** false also allows a bare Four of a Kind (4 cards, beats only another bare quad) */
+  fourOfAKindNeedsKicker: boolean;
+}
+
+/** Classic rules: D < C < H < S, 2s allowed low in straights, 5-card quads */
+export const STANDARD_RULE_SET: RuleSet = Object.freeze({
+  preset: 'standard',
+  suitOrder: Object.freeze(['D', 'C', 'H', 'S'] as Suit[]),
+  twosInStraights: true,
+  flushRanking: 'highest-card',
+  fourOfAKindNeedsKicker: true,
+});
+
+export const RULE_SET_PRESETS: Readonly<Record<RuleSetPresetId, RuleSet>> = Object.freeze({
+  standard: STANDARD_RULE_SET,
+  // Taiwanese order: C < D < H < S, flushes compared by suit first
+  taiwanese: Object.freeze({
+    preset: 'taiwanese',
+    suitOrder: Object.freeze(['C', 'D', 'H', 'S'] as Suit[]),
+    twosInStraights: true,
+    flushRanking: 'suit-first',
+    fourOfAKindNeedsKicker: true,
+  }),
+  'no-twos-in-straights': Object.freeze({
+    preset: 'no-twos-in-straights',
+    suitOrder: STANDARD_RULE_SET.suitOrder,
+    twosInStraights: false,
+    flushRanking: 'highest-card',
+    fourOfAKindNeedsKicker: true,
+  }),
+});
+
+/** Stable identity of the rule values (ignores the preset label) */
+function ruleSetKey(rules: RuleSet): string {
+  return `${rules.suitOrder.join('')}|${rules.twosInStraights ? 1 : 0}|${rules.flushRanking}|${
+    rules.fourOfAKindNeedsKicker ? 1 : 0
+  }`;
+}
+
+const STANDARD_RULE_SET_KEY = ruleSetKey(STANDARD_RULE_SET);
+
+/**
+ * Check whether a rule set plays exactly like the standard rules
+ *
+ * @pure
+ */
+export function isStandardRuleSet(rules: RuleSet): boolean {
+  return rules === STANDARD_RULE_SET || ruleSetKey(rules) === STANDARD_RULE_SET_KEY;
+}
+
+function isSuitOrder(value: unknown): value is Suit[] {
+  return (
+    Array.isArray(value) &&
+    value.length === SUITS.length &&
+    SUITS.every(suit => value.includes(suit))
+  );
+}
+
+/**
+ * Build a complete, valid RuleSet from untrusted input (rooms.settings.rule_set,
+ * persisted local state, navigation params).
+ *
+ * Missing or invalid fields fall back to the named preset (or the standard
+ * rules), so a malformed value can never leave a room without rules. Inputs
+ * that play like the standard rules resolve to STANDARD_RULE_SET itself.
+ *
+ * @param input - Partial rule set, preset id, or anything else
+ * @returns A frozen RuleSet
+ * @pure
+ */
+export function normalizeRuleSet(input: unknown): RuleSet {
+  if (typeof input === 'string') {
+    return RULE_SET_PRESETS[input as RuleSetPresetId] ?? STANDARD_RULE_SET;
+  }
+  if (!input || typeof input !== 'object') return STANDARD_RULE_SET;
+
+  const raw = input as Partial<Record<keyof RuleSet, unknown>>;
+  const base = RULE_SET_PRESETS[raw.preset as RuleSetPresetId] ?? STANDARD_RULE_SET;
+
+  const candidate: RuleSet = {
+    preset: base.preset,
+    suitOrder: isSuitOrder(raw.suitOrder) ? [...raw.suitOrder] : base.suitOrder,
+    twosInStraights:
+      typeof raw.twosInStraights === 'boolean' ? raw.twosInStraights : base.twosInStraights,
+    flushRanking:
+      raw.flushRanking === 'highest-card' || raw.flushRanking === 'suit-first'
+        ? raw.flushRanking
+        : base.flushRanking,
+    fourOfAKindNeedsKicker:
+      typeof raw.fourOfAKindNeedsKicker === 'boolean'
+        ? raw.fourOfAKindNeedsKicker
+        : base.fourOfAKindNeedsKicker,
+  };
+
+  // Resolve back to a preset when the values match one exactly
+  const key = ruleSetKey(candidate);
+  for (const preset of Object.values(RULE_SET_PRESETS)) {
+    if (ruleSetKey(preset) === key) return preset;
+  }
+  return Object.freeze({
+    ...candidate,
+    preset: 'custom',
+    suitOrder: Object.freeze([...candidate.suitOrder]),
+  });
+}
+
+const _suitValueCache = new Map<string, Record<string, number>>();
+
+/**
+ * Suit values (0 = lowest) for a rule set
+ *
+ * @pure
+ */
+export function getSuitValues(rules: RuleSet = STANDARD_RULE_SET): Record<string, number> {
+  if (rules === STANDARD_RULE_SET) return SUIT_VALUE;
+  const key = rules.suitOrder.join('');
+  let values = _suitValueCache.get(key);
+  if (!values) {
+    values = {};
+    rules.suitOrder.forEach((suit, index) => {
+      values![suit] = index;
+    });
+    _suitValueCache.set(key, values);
+  }
+  return values;
+}
+
+const NO_TWO_STRAIGHT_SEQUENCES = VALID_STRAIGHT_SEQUENCES.filter(
+  seq => !(seq as readonly string[]).includes('2')
+);
+
+/**
+ * Straight sequences (lowest first) allowed by a rule set
+ *
+ * @pure
+ */
+export function getStraightSequences(
+  rules: RuleSet = STANDARD_RULE_SET
+): readonly (readonly string[])[] {
+  return rules.twosInStraights ? VALID_STRAIGHT_SEQUENCES : NO_TWO_STRAIGHT_SEQUENCES;
+}
+
+/**
+ * Card that must be part of the opening play of a game (3 of the lowest suit)
+ *
+ * @returns Card id in rank+suit form, e.g. "3D"
+ * @pure
+ */
+export function getOpeningCardId(rules: RuleSet = STANDARD_RULE_SET): string {
+  return `3${rules.suitOrder[0]}`;
+}
+
+/** Whether a card is the opening card for the rule set (by rank/suit, so "3D" and "D3" ids both match) */
+export function isOpeningCard(card: Card, rules: RuleSet = STANDARD_RULE_SET): boolean {
+  return card.rank === '3' && card.suit === rules.suitOrder[0];
+}
 
 // ==================== UTILITY FUNCTIONS ====================
 
-export function findStraightSequenceIndex(ranks: string[]): number {
+/**
+ * Check if two sets of cards are identical (same ranks and suits)
+ *
+ * @param a - First set of cards
+ * @param b - Second set of cards
+ * @returns True if sets are identical
+ */
+export function isSameSet(a: Card[], b: Card[]): boolean {
+  if (a.length !== b.length) return false;
+
+  // Sort both arrays by id for comparison
+  const sortedA = [...a].sort((x, y) => x.id.localeCompare(y.id));
+  const sortedB = [...b].sort((x, y) => x.id.localeCompare(y.id));
+
+  return sortedA.every((card, i) => card.id === sortedB[i].id);
+}
+
+/**
+ * Find the index of a valid straight sequence that matches the given ranks
+ *
+ * @param ranks - Array of 5 rank strings (can be in any order)
+ * @param rules - House rules (decides whether 2s may appear in straights)
+ * @returns Index into getStraightSequences(rules), or -1 if not found
+ */
+export function findStraightSequenceIndex(
+  ranks: string[],
+  rules: RuleSet = STANDARD_RULE_SET
+): number {
   if (ranks.length !== 5) return -1;
+
+  // Create a set for order-independent matching
   const rankSet = new Set(ranks);
+
+  // Ensure all ranks are unique (no duplicates)
   if (rankSet.size !== 5) return -1;
+
   // Explicit guard: reject wrap-around straights (e.g. J-Q-K-A-2 / 2AKQJ).
   // In Big Two, 2 can only be LOW (A-2-3-4-5 and 2-3-4-5-6).
   // Any hand containing 2 AND A AND (J or Q or K) is a wrap-around and is INVALID.
-  if (rankSet.has('2') && rankSet.has('A') && (rankSet.has('J') || rankSet.has('Q') || rankSet.has('K'))) {
+  if (
+    rankSet.has('2') &&
+    rankSet.has('A') &&
+    (rankSet.has('J') || rankSet.has('Q') || rankSet.has('K'))
+  ) {
     return -1;
   }
-  return VALID_STRAIGHT_SEQUENCES.findIndex(seq => seq.every(rank => rankSet.has(rank)));
+
+  // All ranks in the sequence must be present in the input
+  return getStraightSequences(rules).findIndex(seq => seq.every(rank => rankSet.has(rank)));
 }
 
-export function getStraightTopCard(cards: Card[], seqIndex: number): Card | null {
-  if (seqIndex < 0 || seqIndex >= VALID_STRAIGHT_SEQUENCES.length) return null;
-  const topRank = VALID_STRAIGHT_SEQUENCES[seqIndex][4];
+/**
+ * Get the top card of a straight (the card matching the highest rank in the sequence)
+ *
+ * Used for tiebreaking when two straights have the same sequence (compare by suit).
+ *
+ * @param cards - Array of 5 cards forming a straight
+ * @param seqIndex - Index into getStraightSequences(rules)
+ * @param rules - House rules the index was computed with
+ * @returns The card matching the top rank in the sequence, or null
+ */
+export function getStraightTopCard(
+  cards: Card[],
+  seqIndex: number,
+  rules: RuleSet = STANDARD_RULE_SET
+): Card | null {
+  const sequences = getStraightSequences(rules);
+  if (seqIndex < 0 || seqIndex >= sequences.length) return null;
+  const topRank = sequences[seqIndex][4]; // Last rank in sequence = highest
   return cards.find(c => c.rank === topRank) || null;
 }
 
 // ==================== CORE GAME LOGIC ====================
 
-export function sortHand(cards: Card[]): Card[] {
-  return [...cards].sort((a, b) => {
+// ─── Task #280: Memoization caches ───────────────────────────────────────────
+// FIFO eviction: evict the oldest-inserted entry when the Map exceeds MAX_SIZE.
+// Map iteration order is insertion order, so keys().next() gives the oldest.
+
+const CLASSIFY_CACHE_MAX = 256;
+const SORT_CACHE_MAX = 512;
+const BEAT_CACHE_MAX = 512;
+
+/** Stable cache key: sorted card IDs joined by comma */
+function makeCacheKey(cards: Card[]): string {
+  return cards
+    .map(c => c.id)
+    .sort()
+    .join(',');
+}
+
+/** Cache-key prefix for a rule set (empty for the standard rules) */
+function rulesCachePrefix(rules: RuleSet): string {
+  return rules === STANDARD_RULE_SET ? '' : `${ruleSetKey(rules)}#`;
+}
+
+function fifoSet<V>(cache: Map<string, V>, key: string, value: V, max: number): void {
+  if (cache.size >= max && !cache.has(key)) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, value);
+}
+
+const _classifyCache = new Map<string, ComboType>();
+const _sortHandCache = new Map<string, readonly Card[]>();
+const _beatCache = new Map<string, boolean>();
+
+/**
+ * Sort cards by rank and suit value (ascending)
+ * Results are memoized by card-id set (Task #280).
+ *
+ * @param cards - Array of cards to sort
+ * @param rules - House rules (suit order)
+ * @returns New sorted array
+ * @pure
+ */
+export function sortHand(cards: Card[], rules: RuleSet = STANDARD_RULE_SET): Card[] {
+  if (!cards || cards.length === 0) return [];
+  const key = rulesCachePrefix(rules) + makeCacheKey(cards);
+  const cached = _sortHandCache.get(key);
+  if (cached !== undefined) return [...cached];
+  const suitValue = getSuitValues(rules);
+  const sorted = [...cards].sort((a, b) => {
     const rankDiff = RANK_VALUE[a.rank] - RANK_VALUE[b.rank];
     if (rankDiff !== 0) return rankDiff;
-    return SUIT_VALUE[a.suit] - SUIT_VALUE[b.suit];
+    return suitValue[a.suit] - suitValue[b.suit];
   });
+  fifoSet(_sortHandCache, key, Object.freeze([...sorted]), SORT_CACHE_MAX);
+  return sorted;
 }
 
+/**
+ * Sort straight cards in sequence order (not by value)
+ *
+ * @param cards - Array of 5 cards forming a straight
+ * @param rules - House rules
+ * @returns Cards sorted in sequence order (low to high in straight)
+ */
+export function sortStraightCards(cards: Card[], rules: RuleSet = STANDARD_RULE_SET): Card[] {
+  if (cards.length !== 5) return sortHand(cards, rules);
+
+  // Get ranks without sorting by value first
+  const ranks = cards.map(c => c.rank);
+  const seqIndex = findStraightSequenceIndex(ranks, rules);
+
+  if (seqIndex === -1) return sortHand(cards, rules);
+
+  // Sort according to the valid sequence order
+  const sequence = getStraightSequences(rules)[seqIndex];
+  const result: Card[] = [];
+
+  for (const rank of sequence) {
+    const card = cards.find(c => c.rank === rank);
+    if (card) result.push(card);
+  }
+
+  return result;
+}
+
+/**
+ * Check if all cards have the same rank
+ *
+ * @param cards - Array of cards
+ * @returns True if all cards have same rank
+ */
 function sameRank(cards: Card[]): boolean {
   if (cards.length === 0) return false;
   return cards.every(c => c.rank === cards[0].rank);
 }
 
+/**
+ * Count cards by rank
+ *
+ * @param cards - Array of cards
+ * @returns Map of rank to count
+ */
 function countByRank(cards: Card[]): Record<string, number> {
-  return cards.reduce((acc, card) => {
-    acc[card.rank] = (acc[card.rank] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  return cards.reduce(
+    (acc, card) => {
+      acc[card.rank] = (acc[card.rank] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
 }
 
-function isStraight(cards: Card[]): { valid: boolean; sequence: string } {
+/**
+ * Check if 5 cards form a valid straight
+ *
+ * @param cards - Array of 5 cards
+ * @param rules - House rules
+ * @returns Object with valid flag and sequence info
+ */
+export function isStraight(
+  cards: Card[],
+  rules: RuleSet = STANDARD_RULE_SET
+): { valid: boolean; sequence: string } {
   if (cards.length !== 5) return { valid: false, sequence: '' };
+
+  // Get ranks (order doesn't matter for checking)
   const ranks = cards.map(c => c.rank);
-  const seqIndex = findStraightSequenceIndex(ranks);
+  const seqIndex = findStraightSequenceIndex(ranks, rules);
+
   if (seqIndex !== -1) {
-    return { valid: true, sequence: VALID_STRAIGHT_SEQUENCES[seqIndex].join('') };
+    return { valid: true, sequence: getStraightSequences(rules)[seqIndex].join('') };
   }
+
   return { valid: false, sequence: '' };
 }
 
-function classifyFive(cards: Card[]): ComboType {
+/**
+ * Classify 5 cards into a 5-card combo type
+ *
+ * @param cards - Array of 5 cards
+ * @param rules - House rules
+ * @returns Combo type
+ */
+function classifyFive(cards: Card[], rules: RuleSet): ComboType {
   if (cards.length !== 5) return 'unknown';
-  const sorted = sortHand(cards);
+
+  const sorted = sortHand(cards, rules);
   const counts = countByRank(sorted);
   const countValues = Object.values(counts).sort((a, b) => b - a);
+
+  // Check for flush
   const isFlush = sorted.every(c => c.suit === sorted[0].suit);
-  const straightInfo = isStraight(sorted);
-  if (straightInfo.valid && isFlush) return 'Straight Flush';
-  if (countValues[0] === 4) return 'Four of a Kind';
-  if (countValues[0] === 3 && countValues[1] === 2) return 'Full House';
-  if (isFlush) return 'Flush';
-  if (straightInfo.valid) return 'Straight';
+
+  // Check for straight
+  const straightInfo = isStraight(sorted, rules);
+
+  if (straightInfo.valid && isFlush) {
+    return 'Straight Flush';
+  }
+
+  if (countValues[0] === 4) {
+    return 'Four of a Kind';
+  }
+
+  if (countValues[0] === 3 && countValues[1] === 2) {
+    return 'Full House';
+  }
+
+  if (isFlush) {
+    return 'Flush';
+  }
+
+  if (straightInfo.valid) {
+    return 'Straight';
+  }
+
   return 'unknown';
 }
 
-export function classifyCards(cards: Card[]): ComboType {
+/**
+ * Classify cards into combo type
+ * Returns the type as a readable string
+ *
+ * @param cards - Array of cards to classify
+ * @param rules - House rules
+ * @returns Combo type string
+ * @pure
+ * @example
+ * ```typescript
+ * classifyCards([{id:'3D',r:'3',s:'D'}]) // 'Single'
+ * classifyCards([{id:'3D',r:'3',s:'D'},{id:'3C',r:'3',s:'C'}]) // 'Pair'
+ * ```
+ */
+export function classifyCards(cards: Card[], rules: RuleSet = STANDARD_RULE_SET): ComboType {
   if (!cards || cards.length === 0) return 'unknown';
+
+  const key = rulesCachePrefix(rules) + makeCacheKey(cards);
+  const cached = _classifyCache.get(key);
+  if (cached !== undefined) return cached;
+
   const n = cards.length;
-  const sorted = sortHand(cards);
-  if (n === 1) return 'Single';
-  if (n === 2 && sameRank(sorted)) return 'Pair';
-  if (n === 3 && sameRank(sorted)) return 'Triple';
-  if (n === 5) return classifyFive(sorted);
-  return 'unknown';
+  const sorted = sortHand(cards, rules);
+
+  let result: ComboType;
+  if (n === 1) {
+    result = 'Single';
+  } else if (n === 2 && sameRank(sorted)) {
+    result = 'Pair';
+  } else if (n === 3 && sameRank(sorted)) {
+    result = 'Triple';
+  } else if (n === 4 && !rules.fourOfAKindNeedsKicker && sameRank(sorted)) {
+    result = 'Four of a Kind';
+  } else if (n === 5) {
+    result = classifyFive(sorted, rules);
+  } else {
+    result = 'unknown';
+  }
+
+  fifoSet(_classifyCache, key, result, CLASSIFY_CACHE_MAX);
+  return result;
+}
+
+/**
+ * Classify and sort cards for display
+ * Returns { type, sortedCards } where sortedCards are in proper display order
+ *
+ * @param cards - Array of cards to classify and sort
+ * @param rules - House rules
+ * @returns Classification result with sorted cards
+ * @pure
+ * @example
+ * ```typescript
+ * const result = classifyAndSortCards(cards);
+ * console.log(result.type); // 'Straight'
+ * console.log(result.sortedCards); // Cards in sequence order
+ * ```
+ */
+export function classifyAndSortCards(
+  cards: Card[],
+  rules: RuleSet = STANDARD_RULE_SET
+): ClassificationResult {
+  if (!cards || cards.length === 0) return { type: 'unknown', sortedCards: [] };
+
+  const n = cards.length;
+  const sorted = sortHand(cards, rules);
+  const type = classifyCards(cards, rules);
+
+  // For straights and straight flushes, sort in sequence order
+  if (n === 5 && (type === 'Straight' || type === 'Straight Flush')) {
+    return { type, sortedCards: sortStraightCards(cards, rules) };
+  }
+
+  // For other combos, return regular sorted order
+  return { type, sortedCards: sorted };
 }
 
-function getCardValue(card: Card): number {
-  return RANK_VALUE[card.rank] * 10 + SUIT_VALUE[card.suit];
+/**
+ * Get card value for comparison (rank + suit)
+ *
+ * @param card - Card to get value for
+ * @param suitValue - Suit values of the active rule set
+ * @returns Numeric value for comparison
+ * @pure
+ */
+function getCardValue(card: Card, suitValue: Record<string, number> = SUIT_VALUE): number {
+  return RANK_VALUE[card.rank] * 10 + suitValue[card.suit];
 }
 
+/**
+ * Get the rank that appears 3 times in a full house
+ *
+ * @param cards - Array of 5 cards forming a full house
+ * @returns Rank string of the triple
+ * @throws Error if no triple found
+ */
 function getTripleRank(cards: Card[]): string {
   const counts = countByRank(cards);
   for (const rank in counts) {
@@ -157,6 +677,13 @@ function getTripleRank(cards: Card[]): string {
   throw new Error('No triple found in full house');
 }
 
+/**
+ * Get the rank that appears 4 times in four of a kind
+ *
+ * @param cards - Four of a kind (4 cards, or 5 with a kicker)
+ * @returns Rank string of the quad
+ * @throws Error if no quad found
+ */
 function getQuadRank(cards: Card[]): string {
   const counts = countByRank(cards);
   for (const rank in counts) {
@@ -165,124 +692,1190 @@ function getQuadRank(cards: Card[]): string {
   throw new Error('No quad found in four of a kind');
 }
 
-export function canBeatPlay(newCards: Card[], lastPlay: LastPlay | null): boolean {
+/**
+ * Check if a play can beat the last play
+ *
+ * @param newCards - Cards being played
+ * @param lastPlay - Previous play to beat (null if leading)
+ * @param rules - House rules
+ * @returns True if newCards beats lastPlay
+ * @pure
+ * @example
+ * ```typescript
+ * const canBeat = canBeatPlay(myCards, { cards: theirCards, combo: 'Pair' });
+ * ```
+ */
+export function canBeatPlay(
+  newCards: Card[],
+  lastPlay: LastPlay | null,
+  rules: RuleSet = STANDARD_RULE_SET
+): boolean {
   if (!lastPlay) return true;
+
   if (newCards.length !== lastPlay.cards.length) return false;
-  const newCombo = classifyCards(newCards);
-  if (newCombo === 'unknown') return false;
+
+  // Task #280: cache result by card-id keys + last-play combo+card ids
+  const newKey = makeCacheKey(newCards);
+  const lastKey = makeCacheKey(lastPlay.cards);
+  const beatKey = `${rulesCachePrefix(rules)}${newKey}|${lastKey}|${lastPlay.combo_type}`;
+  const cachedBeat = _beatCache.get(beatKey);
+  if (cachedBeat !== undefined) return cachedBeat;
+
+  const suitValue = getSuitValues(rules);
+  const newCombo = classifyCards(newCards, rules);
+  if (newCombo === 'unknown') {
+    fifoSet(_beatCache, beatKey, false, BEAT_CACHE_MAX);
+    return false;
+  }
+
   const newStrength = COMBO_STRENGTH[newCombo] || 0;
   const lastStrength = COMBO_STRENGTH[lastPlay.combo_type] || 0;
 
-  if (newCombo !== lastPlay.combo_type) return newStrength > lastStrength;
+  let result: boolean;
+
+  // Different combo types - compare strength
+  if (newCombo !== lastPlay.combo_type) {
+    result = newStrength > lastStrength;
+    fifoSet(_beatCache, beatKey, result, BEAT_CACHE_MAX);
+    return result;
+  }
 
-  const newSorted = sortHand(newCards);
-  const lastSorted = sortHand(lastPlay.cards);
+  // Same combo type - compare based on combo-specific rules
+  const newSorted = sortHand(newCards, rules);
+  const lastSorted = sortHand(lastPlay.cards, rules);
 
+  // For Full House, compare the triple rank (not highest card)
   if (newCombo === 'Full House') {
-    return RANK_VALUE[getTripleRank(newSorted)] > RANK_VALUE[getTripleRank(lastSorted)];
+    const newTripleRank = getTripleRank(newSorted);
+    const lastTripleRank = getTripleRank(lastSorted);
+    result = RANK_VALUE[newTripleRank] > RANK_VALUE[lastTripleRank];
+    fifoSet(_beatCache, beatKey, result, BEAT_CACHE_MAX);
+    return result;
   }
+
+  // For Four of a Kind, compare the quad rank
   if (newCombo === 'Four of a Kind') {
-    return RANK_VALUE[getQuadRank(newSorted)] > RANK_VALUE[getQuadRank(lastSorted)];
+    const newQuadRank = getQuadRank(newSorted);
+    const lastQuadRank = getQuadRank(lastSorted);
+    result = RANK_VALUE[newQuadRank] > RANK_VALUE[lastQuadRank];
+    fifoSet(_beatCache, beatKey, result, BEAT_CACHE_MAX);
+    return result;
   }
+
+  // For Straight and Straight Flush, compare by sequence position
+  // (A-2-3-4-5 is Lowest, 10-J-Q-K-A is Highest)
+  // Cannot compare by highest card rank because 2 has RANK_VALUE=12
+  // which would incorrectly make A-2-3-4-5 the strongest straight
   if (newCombo === 'Straight' || newCombo === 'Straight Flush') {
-    const newSeqIdx = findStraightSequenceIndex(newSorted.map(c => c.rank));
-    const lastSeqIdx = findStraightSequenceIndex(lastSorted.map(c => c.rank));
+    const newSeqIdx = findStraightSequenceIndex(newSorted.map(c => c.rank), rules);
+    const lastSeqIdx = findStraightSequenceIndex(lastSorted.map(c => c.rank), rules);
     if (newSeqIdx !== -1 && lastSeqIdx !== -1) {
-      if (newSeqIdx !== lastSeqIdx) return newSeqIdx > lastSeqIdx;
-      const newTopCard = getStraightTopCard(newCards, newSeqIdx);
-      const lastTopCard = getStraightTopCard(lastPlay.cards, lastSeqIdx);
-      if (newTopCard && lastTopCard) return SUIT_VALUE[newTopCard.suit] > SUIT_VALUE[lastTopCard.suit];
+      if (newSeqIdx !== lastSeqIdx) {
+        result = newSeqIdx > lastSeqIdx;
+        fifoSet(_beatCache, beatKey, result, BEAT_CACHE_MAX);
+        return result;
+      }
+      // Same sequence — tiebreak by top card suit
+      const newTopCard = getStraightTopCard(newCards, newSeqIdx, rules);
+      const lastTopCard = getStraightTopCard(lastPlay.cards, lastSeqIdx, rules);
+      if (newTopCard && lastTopCard) {
+        result = suitValue[newTopCard.suit] > suitValue[lastTopCard.suit];
+        fifoSet(_beatCache, beatKey, result, BEAT_CACHE_MAX);
+        return result;
+      }
     }
   }
 
+  // House rule: flushes ranked by suit first, highest card only breaks same-suit ties
+  if (newCombo === 'Flush' && rules.flushRanking === 'suit-first') {
+    const newSuit = suitValue[newSorted[0].suit];
+    const lastSuit = suitValue[lastSorted[0].suit];
+    if (newSuit !== lastSuit) {
+      result = newSuit > lastSuit;
+      fifoSet(_beatCache, beatKey, result, BEAT_CACHE_MAX);
+      return result;
+    }
+  }
+
+  // For other combos (Single, Pair, Triple, Flush), compare highest card
   const newHighest = newSorted[newSorted.length - 1];
   const lastHighest = lastSorted[lastSorted.length - 1];
-  return getCardValue(newHighest) > getCardValue(lastHighest);
+
+  result = getCardValue(newHighest, suitValue) > getCardValue(lastHighest, suitValue);
+  fifoSet(_beatCache, beatKey, result, BEAT_CACHE_MAX);
+  return result;
 }
 
+/**
+ * Find recommended play based on AI strategy
+ * Returns array of card IDs to play, or null if should pass
+ *
+ * @param hand - Player's current hand
+ * @param lastPlay - Previous play (null if leading)
+ * @param isFirstPlayOfGame - Whether this is the first play of the game
+ * @param rules - House rules
+ * @returns Array of card IDs to play, or null to pass
+ * @pure
+ * @example
+ * ```typescript
+ * const recommended = findRecommendedPlay(myHand, lastPlay, false);
+ * if (recommended) {
+ *   playCards(recommended);
+ * } else {
+ *   pass();
+ * }
+ * ```
+ */
 export function findRecommendedPlay(
   hand: Card[],
   lastPlay: LastPlay | null,
-  isFirstPlayOfGame: boolean
+  isFirstPlayOfGame: boolean,
+  rules: RuleSet = STANDARD_RULE_SET
 ): string[] | null {
   if (hand.length === 0) return null;
-  const sorted = sortHand(hand);
 
+  const sorted = sortHand(hand, rules);
+
+  // First play of game - must include the opening card (3 of the lowest suit)
   if (isFirstPlayOfGame) {
-    const threeD = sorted.find(c => c.rank === '3' && c.suit === 'D');
-    return threeD ? [threeD.id] : null;
+    const openingCard = sorted.find(c => isOpeningCard(c, rules));
+    if (openingCard) {
+      return [openingCard.id];
+    }
+    return null;
   }
 
-  if (!lastPlay) return [sorted[0].id];
+  // Leading (no last play) - recommend best combo to shed cards efficiently
+  if (!lastPlay) {
+    // Find all available combos from hand
+    const rankCounts = countByRank(sorted);
+    const pairs: Card[][] = [];
+    const triples: Card[][] = [];
+    const fiveCards: Card[][] = [];
+
+    // Find pairs and triples by scanning sorted hand (preserves rank order)
+    // Object.entries on numeric-ish keys reorders them, so we iterate the sorted
+    // hand instead to guarantee lowest-rank-first ordering.
+    const seenRanks = new Set<string>();
+    for (const card of sorted) {
+      if (seenRanks.has(card.rank)) continue;
+      seenRanks.add(card.rank);
+      const count = rankCounts[card.rank] ?? 0;
+      const cards = sorted.filter(c => c.rank === card.rank);
+      if (count >= 3) {
+        triples.push(cards.slice(0, 3));
+      }
+      if (count >= 2) {
+        pairs.push(cards.slice(0, 2));
+      }
+    }
 
+    // Find 5-card combos: flushes (5 cards of same suit — shed most cards possible)
+    const bySuit: Record<string, Card[]> = {};
+    for (const card of sorted) {
+      if (!bySuit[card.suit]) bySuit[card.suit] = [];
+      bySuit[card.suit].push(card);
+    }
+    for (const suitCards of Object.values(bySuit)) {
+      if (suitCards.length >= 5) {
+        fiveCards.push(suitCards.slice(0, 5)); // lowest 5 cards of the suit
+        break;
+      }
+    }
+
+    // Find 5-card combos: straights
+    for (const seq of getStraightSequences(rules)) {
+      const straightCards: Card[] = [];
+      for (const rank of seq) {
+        const card = sorted.find(c => c.rank === rank && !straightCards.some(sc => sc.id === c.id));
+        if (card) straightCards.push(card);
+      }
+      if (straightCards.length === 5) {
+        const straightInfo = isStraight(straightCards, rules);
+        if (straightInfo.valid) {
+          fiveCards.push(straightCards);
+          break; // Take lowest straight
+        }
+      }
+    }
+
+    // Find 5-card combos: full houses (triple + pair, lowest triple first)
+    if (triples.length > 0 && pairs.length > 0) {
+      for (const triple of triples) {
+        const tripleRank = triple[0].rank;
+        const pairForFullHouse = pairs.find(p => p[0].rank !== tripleRank);
+        if (pairForFullHouse) {
+          fiveCards.push([...triple, ...pairForFullHouse]);
+          break; // Take lowest full house
+        }
+      }
+    }
+
+    // Prefer combos that shed cards: 5-card > triple > pair > single
+    if (fiveCards.length > 0) {
+      return fiveCards[0].map(c => c.id);
+    }
+    if (triples.length > 0) {
+      return triples[0].map(c => c.id);
+    }
+    if (pairs.length > 0) {
+      return pairs[0].map(c => c.id);
+    }
+    return [sorted[0].id];
+  }
+
+  // Following - try to find lowest beating play
   const numCards = lastPlay.cards.length;
+
   if (numCards === 1) {
+    // Single card - find lowest card that beats it
     for (const card of sorted) {
-      if (canBeatPlay([card], lastPlay)) return [card.id];
+      if (canBeatPlay([card], lastPlay, rules)) {
+        return [card.id];
+      }
     }
   } else if (numCards === 2) {
+    // Pair - find lowest pair that beats it
     for (let i = 0; i < sorted.length - 1; i++) {
       if (sorted[i].rank === sorted[i + 1].rank) {
         const pair = [sorted[i], sorted[i + 1]];
-        if (canBeatPlay(pair, lastPlay)) return pair.map(c => c.id);
+        if (canBeatPlay(pair, lastPlay, rules)) {
+          return pair.map(c => c.id);
+        }
       }
     }
   } else if (numCards === 3) {
+    // Triple - find lowest triple that beats it
     for (let i = 0; i < sorted.length - 2; i++) {
       if (sorted[i].rank === sorted[i + 1].rank && sorted[i].rank === sorted[i + 2].rank) {
         const triple = [sorted[i], sorted[i + 1], sorted[i + 2]];
-        if (canBeatPlay(triple, lastPlay)) return triple.map(c => c.id);
+        if (canBeatPlay(triple, lastPlay, rules)) {
+          return triple.map(c => c.id);
+        }
+      }
+    }
+  } else if (numCards === 4) {
+    // Bare four of a kind (house rule without a kicker) - find lowest quad that beats it
+    for (let i = 0; i < sorted.length - 3; i++) {
+      const quad = sorted.slice(i, i + 4);
+      if (sameRank(quad) && canBeatPlay(quad, lastPlay, rules)) {
+        return quad.map(c => c.id);
       }
     }
   } else if (numCards === 5) {
+    // 5-card combo - try different combinations
+    // Try to find straights
     for (let i = 0; i <= sorted.length - 5; i++) {
       const fiveCards = sorted.slice(i, i + 5);
-      const straightInfo = isStraight(fiveCards);
-      if (straightInfo.valid && canBeatPlay(fiveCards, lastPlay)) return fiveCards.map(c => c.id);
+      const straightInfo = isStraight(fiveCards, rules);
+      if (straightInfo.valid && canBeatPlay(fiveCards, lastPlay, rules)) {
+        return fiveCards.map(c => c.id);
+      }
     }
-    const bySuit = sorted.reduce((acc, card) => {
-      if (!acc[card.suit]) acc[card.suit] = [];
-      acc[card.suit].push(card);
-      return acc;
-    }, {} as Record<string, Card[]>);
+
+    // Try to find flushes — minimum-kicker algorithm.
+    // Big Two flush comparison uses only the highest card, so we fix the kicker
+    // (the highest card of our flush) at progressively higher positions and pair
+    // it with the 4 lowest other cards of the same suit. This correctly handles
+    // non-consecutive combinations that the sliding-window approach would miss
+    // (e.g., [3,5,7,8,Q] where 3 and Q are not adjacent in the sorted array).
+    const bySuit = sorted.reduce(
+      (acc, card) => {
+        if (!acc[card.suit]) acc[card.suit] = [];
+        acc[card.suit].push(card);
+        return acc;
+      },
+      {} as Record<string, Card[]>
+    );
+
     for (const suitCards of Object.values(bySuit)) {
       if (suitCards.length >= 5) {
-        const flush = suitCards.slice(0, 5);
-        if (canBeatPlay(flush, lastPlay)) return flush.map(c => c.id);
+        // Iterate kicker positions from index 4 upward (lowest possible kicker first
+        // so we return the minimum-strength beating flush for card conservation).
+        for (let ki = 4; ki < suitCards.length; ki++) {
+          // Pair kicker with the 4 lowest suit cards (indices 0-3, all below ki).
+          const flush = [...suitCards.slice(0, 4), suitCards[ki]];
+          if (canBeatPlay(flush, lastPlay, rules)) {
+            return flush.map(c => c.id);
+          }
+        }
       }
     }
+
+    // Try to find full house
     const rankCounts = countByRank(sorted);
     const triples = Object.entries(rankCounts).filter(([_, count]) => count >= 3);
     const pairs = Object.entries(rankCounts).filter(([_, count]) => count >= 2);
+
     if (triples.length > 0 && pairs.length > 0) {
       const tripleRank = triples[0][0];
       const pairRank = pairs.find(([r]) => r !== tripleRank)?.[0];
+
       if (pairRank) {
         const tripleCards = sorted.filter(c => c.rank === tripleRank).slice(0, 3);
         const pairCards = sorted.filter(c => c.rank === pairRank).slice(0, 2);
         const fullHouse = [...tripleCards, ...pairCards];
-        if (canBeatPlay(fullHouse, lastPlay)) return fullHouse.map(c => c.id);
+
+        if (canBeatPlay(fullHouse, lastPlay, rules)) {
+          return fullHouse.map(c => c.id);
+        }
       }
     }
+
+    // Try to find four of a kind
     const quads = Object.entries(rankCounts).filter(([_, count]) => count >= 4);
     if (quads.length > 0) {
       const quadRank = quads[0][0];
       const quadCards = sorted.filter(c => c.rank === quadRank).slice(0, 4);
       const kicker = sorted.find(c => c.rank !== quadRank);
+
       if (kicker) {
         const fourKind = [...quadCards, kicker];
-        if (canBeatPlay(fourKind, lastPlay)) return fourKind.map(c => c.id);
+        if (canBeatPlay(fourKind, lastPlay, rules)) {
+          return fourKind.map(c => c.id);
+        }
       }
     }
   }
 
+  // Can't beat - recommend passing (return null)
   return null;
 }
 
-export function findHighestBeatingSingle(hand: Card[], lastPlay: LastPlay | null): Card | null {
+/**
+ * Find the highest single card that beats the last play
+ *
+ * @param hand - Player's current hand
+ * @param lastPlay - Previous play (null if leading)
+ * @param rules - House rules
+ * @returns The highest single card that beats lastPlay, or null if none exists
+ * @pure
+ */
+export function findHighestBeatingSingle(
+  hand: Card[],
+  lastPlay: LastPlay | null,
+  rules: RuleSet = STANDARD_RULE_SET
+): Card | null {
   if (hand.length === 0) return null;
-  const sorted = sortHand(hand);
-  if (!lastPlay) return sorted[sorted.length - 1];
-  const beatingSingles = sorted.filter(card => canBeatPlay([card], lastPlay));
-  return beatingSingles.length > 0 ? beatingSingles[beatingSingles.length - 1] : null;
+
+  const sorted = sortHand(hand, rules);
+
+  // If no last play (leading), return highest card
+  if (!lastPlay) {
+    return sorted[sorted.length - 1];
+  }
+
+  // Find all singles that beat the last play
+  const beatingSingles = sorted.filter(card => canBeatPlay([card], lastPlay, rules));
+
+  // Return the highest one
+  if (beatingSingles.length > 0) {
+    return beatingSingles[beatingSingles.length - 1];
+  }
+
+  return null;
+}
+
+/**
+ * Check if "One Card Left" rule applies
+ * When next player has 1 card, current player MUST play their highest single (if playing a single)
+ *
+ * @param selectedCards - Cards player is trying to play
+ * @param currentPlayerHand - Current player's full hand
+ * @param nextPlayerCardCount - Number of cards next player has
+ * @param lastPlay - Previous play (null if leading)
+ * @param rules - House rules
+ * @returns Validation result with error message if rule is violated
+ */
+export function validateOneCardLeftRule(
+  selectedCards: Card[],
+  currentPlayerHand: Card[],
+  nextPlayerCardCount: number,
+  lastPlay: LastPlay | null,
+  rules: RuleSet = STANDARD_RULE_SET
+): { valid: boolean; error?: string; requiredCard?: Card } {
+  // Rule only applies when next player has exactly 1 card
+  if (nextPlayerCardCount !== 1) {
+    return { valid: true };
+  }
+
+  // Rule only applies to singles
+  if (selectedCards.length !== 1) {
+    return { valid: true };
+  }
+
+  // Find the highest single that beats the last play
+  const highestSingle = findHighestBeatingSingle(currentPlayerHand, lastPlay, rules);
+
+  // If no valid single exists, rule doesn't apply
+  if (!highestSingle) {
+    return { valid: true };
+  }
+
+  // Check if player is playing the highest single
+  const playedCard = selectedCards[0];
+  if (playedCard.id !== highestSingle.id) {
+    return {
+      valid: false,
+      error: `Must play highest single (${highestSingle.rank}${highestSingle.suit}) when opponent has 1 card left`,
+      requiredCard: highestSingle,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check if player can pass when "One Card Left" rule applies
+ * Player CANNOT pass if they have a valid single and next player has 1 card
+ *
+ * @param currentPlayerHand - Current player's full hand
+ * @param nextPlayerCardCount - Number of cards next player has
+ * @param lastPlay - Previous play (null if leading - can't pass when leading anyway)
+ * @param rules - House rules
+ * @returns { canPass: boolean, error?: string }
+ */
+export function canPassWithOneCardLeftRule(
+  currentPlayerHand: Card[],
+  nextPlayerCardCount: number,
+  lastPlay: LastPlay | null,
+  rules: RuleSet = STANDARD_RULE_SET
+): { canPass: boolean; error?: string } {
+  // Can't pass when leading anyway
+  if (!lastPlay) {
+    return { canPass: false, error: 'Cannot pass when leading' };
+  }
+
+  // Rule only applies when next player has exactly 1 card AND last play was a single.
+  // Use combo_type for semantically correct Single detection (guards against a
+  // malformed lastPlay where cards.length === 1 but combo_type !== 'Single').
+  if (nextPlayerCardCount !== 1 || lastPlay.combo_type !== 'Single') {
+    return { canPass: true };
+  }
+
+  // Guard: empty hand means nothing to play, allow pass
+  if (!Array.isArray(currentPlayerHand) || currentPlayerHand.length === 0) {
+    return { canPass: true };
+  }
+
+  // Check if player has a valid single that beats the last play
+  const highestSingle = findHighestBeatingSingle(currentPlayerHand, lastPlay, rules);
+
+  if (highestSingle) {
+    return {
+      canPass: false,
+      error: `Cannot pass when opponent has 1 card left and you have a valid single (must play ${highestSingle.rank}${highestSingle.suit})`,
+    };
+  }
+
+  // No valid single, can pass normally
+  return { canPass: true };
+}
+
+/** All k-card subsets of cards (order preserved) */
+function combinations(cards: Card[], k: number): Card[][] {
+  if (k === 0) return [[]];
+  const out: Card[][] = [];
+  for (let i = 0; i <= cards.length - k; i++) {
+    for (const rest of combinations(cards.slice(i + 1), k - 1)) {
+      out.push([cards[i], ...rest]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Whether no unplayed cards can beat a play (house-rule aware)
+ *
+ * The client highest-play-detector and play-cards keep their hand-tuned
+ * detection for the standard rules; for any other rule set they delegate here.
+ * Singles, pairs, triples and bare quads are checked exhaustively against the
+ * unplayed cards. Five-card combos conservatively return false, so house-rule
+ * games never start the auto-pass timer on a play that could still be beaten.
+ *
+ * @param cards - The cards being played
+ * @param playedCards - All cards played so far this game (excluding `cards`)
+ * @param rules - House rules
+ * @pure
+ */
+export function isHighestRemainingPlay(
+  cards: Card[],
+  playedCards: Card[],
+  rules: RuleSet = STANDARD_RULE_SET
+): boolean {
+  if (!cards || cards.length === 0 || cards.length > 4) return false;
+
+  const combo = classifyCards(cards, rules);
+  if (combo === 'unknown') return false;
+  const lastPlay: LastPlay = { cards, combo_type: combo };
+
+  const used = new Set([...playedCards, ...cards].map(c => `${c.rank}${c.suit}`));
+  for (const rank of RANKS) {
+    const remaining: Card[] = [];
+    for (const suit of SUITS) {
+      if (!used.has(`${rank}${suit}`)) remaining.push({ id: `${rank}${suit}`, rank, suit });
+    }
+    for (const candidate of combinations(remaining, cards.length)) {
+      if (canBeatPlay(candidate, lastPlay, rules)) return false;
+    }
+  }
+  return true;
+}
+
+// ==================== SCORING ====================
+
+/** Cumulative score at which the game ends (lowest total wins). */
+export const GAME_END_SCORE = 101;
+
+/** Target scores offered in the lobby */
+export const TARGET_SCORE_OPTIONS = [51, 101, 201] as const;
+
+/** Points per remaining card for every hand size up to maxCards */
+export interface ScoringTier {
+  maxCards: number;
+  pointsPerCard: number;
+}
+
+/** Built-in multiplier tiers offered in the lobby */
+export type ScoringTierPresetId = 'classic' | 'flat' | 'steep';
+
+export const SCORING_TIER_PRESETS: Readonly<Record<ScoringTierPresetId, readonly ScoringTier[]>> =
+  Object.freeze({
+    // 1-4 cards: 1 pt, 5-9 cards: 2 pts, 10-13 cards: 3 pts
+    classic: Object.freeze([
+      { maxCards: 4, pointsPerCard: 1 },
+      { maxCards: 9, pointsPerCard: 2 },
+      { maxCards: 13, pointsPerCard: 3 },
+    ]),
+    flat: Object.freeze([{ maxCards: 13, pointsPerCard: 1 }]),
+    // Classic, but a full 13-card hand is worth 4 pts per card
+    steep: Object.freeze([
+      { maxCards: 4, pointsPerCard: 1 },
+      { maxCards: 9, pointsPerCard: 2 },
+      { maxCards: 12, pointsPerCard: 3 },
+      { maxCards: 13, pointsPerCard: 4 },
+    ]),
+  });
+
+/**
+ * Per-room scoring configuration.
+ *
+ * Like RuleSet, every scoring function takes it as an optional last argument
+ * and falls back to DEFAULT_SCORING_CONFIG (the classic 1/2/3 tiers to 101).
+ */
+export interface ScoringConfig {
+  /** Cumulative score that ends the game */
+  targetScore: number;
+  /**
+   * Ascending by maxCards; the last tier must cover a 13-card hand and also
+   * scores the bigger hands of a two- or three-player deal
+   */
+  tiers: readonly ScoringTier[];
+  /** Extra points for each 2 still in hand ("chop 2"), 0 = off */
+  twosPenalty: number;
+  /** Double the match score of a player who never played a card */
+  doubleIfNeverPlayed: boolean;
+  /** "Hong Kong" bonus: points taken off the match winner's total, 0 = off */
+  hongKongBonus: number;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = Object.freeze({
+  targetScore: GAME_END_SCORE,
+  tiers: SCORING_TIER_PRESETS.classic,
+  twosPenalty: 0,
+  doubleIfNeverPlayed: false,
+  hongKongBonus: 0,
+});
+
+/** Largest per-card penalty / bonus accepted from untrusted input */
+const MAX_SCORING_POINTS = 20;
+
+function isScoringTiers(value: unknown): value is ScoringTier[] {
+  if (!Array.isArray(value) || value.length === 0) return false;
+  let previousMax = 0;
+  for (const tier of value) {
+    if (!tier || typeof tier !== 'object') return false;
+    const { maxCards, pointsPerCard } = tier as Partial<ScoringTier>;
+    if (!Number.isInteger(maxCards) || !Number.isInteger(pointsPerCard)) return false;
+    if (maxCards! <= previousMax || pointsPerCard! < 0 || pointsPerCard! > MAX_SCORING_POINTS) {
+      return false;
+    }
+    previousMax = maxCards!;
+  }
+  return previousMax >= CARDS_PER_PLAYER;
+}
+
+function isScoringPoints(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_SCORING_POINTS;
+}
+
+/**
+ * Build a complete, valid ScoringConfig from untrusted input
+ * (rooms.settings.scoring, persisted local state, navigation params).
+ * Missing or invalid fields fall back to the defaults.
+ *
+ * @param input - Partial scoring config, or anything else
+ * @returns A frozen ScoringConfig (DEFAULT_SCORING_CONFIG when nothing differs)
+ * @pure
+ */
+export function normalizeScoringConfig(input: unknown): ScoringConfig {
+  if (!input || typeof input !== 'object') return DEFAULT_SCORING_CONFIG;
+  const raw = input as Partial<Record<keyof ScoringConfig, unknown>>;
+  const base = DEFAULT_SCORING_CONFIG;
+
+  const config: ScoringConfig = {
+    targetScore: (TARGET_SCORE_OPTIONS as readonly unknown[]).includes(raw.targetScore)
+      ? (raw.targetScore as number)
+      : base.targetScore,
+    tiers: isScoringTiers(raw.tiers)
+      ? Object.freeze(raw.tiers.map(({ maxCards, pointsPerCard }) => ({ maxCards, pointsPerCard })))
+      : base.tiers,
+    twosPenalty: isScoringPoints(raw.twosPenalty) ? raw.twosPenalty : base.twosPenalty,
+    doubleIfNeverPlayed:
+      typeof raw.doubleIfNeverPlayed === 'boolean'
+        ? raw.doubleIfNeverPlayed
+        : base.doubleIfNeverPlayed,
+    hongKongBonus: isScoringPoints(raw.hongKongBonus) ? raw.hongKongBonus : base.hongKongBonus,
+  };
+
+  if (isDefaultScoringConfig(config)) return DEFAULT_SCORING_CONFIG;
+  return Object.freeze(config);
+}
+
+/**
+ * Check whether a scoring config scores exactly like the classic rules
+ *
+ * @pure
+ */
+export function isDefaultScoringConfig(config: ScoringConfig): boolean {
+  if (config === DEFAULT_SCORING_CONFIG) return true;
+  return (
+    config.targetScore === GAME_END_SCORE &&
+    config.twosPenalty === 0 &&
+    !config.doubleIfNeverPlayed &&
+    config.hongKongBonus === 0 &&
+    getScoringTierPresetId(config.tiers) === 'classic'
+  );
+}
+
+/**
+ * Name of the preset matching a list of tiers, or null for custom tiers
+ *
+ * @pure
+ */
+export function getScoringTierPresetId(tiers: readonly ScoringTier[]): ScoringTierPresetId | null {
+  for (const [id, preset] of Object.entries(SCORING_TIER_PRESETS)) {
+    if (
+      preset.length === tiers.length &&
+      preset.every(
+        (tier, i) =>
+          tier.maxCards === tiers[i].maxCards && tier.pointsPerCard === tiers[i].pointsPerCard
+      )
+    ) {
+      return id as ScoringTierPresetId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Scoring breakdown for one player's remaining hand at the end of a match
+ */
+export interface CardPointsDetail {
+  cardsRemaining: number;
+  pointsPerCard: number; // From the tier matching cardsRemaining (1, 2 or 3 by default)
+  finalScore: number; // cardsRemaining * pointsPerCard
+}
+
+/**
+ * Calculate the score for a player's remaining cards
+ *
+ * Default scoring rules:
+ * - 1-4 cards: 1 point per card
+ * - 5-9 cards: 2 points per card
+ * - 10-13 cards: 3 points per card
+ * - Winner (0 cards): 0 points
+ *
+ * Hands above the last tier (up to 18 cards after a two- or three-player
+ * 'extra-card' deal) score at the last tier's rate.
+ *
+ * @param cardsRemaining - Number of cards left in hand when the match ended
+ * @param scoring - Room scoring config (defaults to the classic tiers)
+ * @pure
+ */
+export function calculateCardPoints(
+  cardsRemaining: number,
+  scoring: ScoringConfig = DEFAULT_SCORING_CONFIG
+): CardPointsDetail {
+  let pointsPerCard = 0; // Winner or invalid
+  if (cardsRemaining >= 1 && cardsRemaining <= MAX_HAND_SIZE) {
+    const tier =
+      scoring.tiers.find(t => cardsRemaining <= t.maxCards) ??
+      scoring.tiers[scoring.tiers.length - 1];
+    pointsPerCard = tier ? tier.pointsPerCard : 0;
+  }
+
+  return { cardsRemaining, pointsPerCard, finalScore: cardsRemaining * pointsPerCard };
+}
+
+/**
+ * Full match scoring breakdown, including the optional penalties and bonus
+ */
+export interface MatchPointsDetail extends CardPointsDetail {
+  twosRemaining: number;
+  twosPenalty: number; // twosRemaining * scoring.twosPenalty
+  neverPlayed: boolean; // Still holding the full hand that was dealt
+  multiplier: number; // 2 when doubleIfNeverPlayed applies, otherwise 1
+  hongKongBonus: number; // Points taken off the winner (0 for everyone else)
+}
+
+/**
+ * Calculate a player's match score from the cards left in their hand
+ *
+ * finalScore = (cards x tier points + 2s x twosPenalty) x multiplier for
+ * losers, and -hongKongBonus for the match winner (empty hand).
+ *
+ * @param hand - Cards left in hand when the match ended
+ * @param scoring - Room scoring config (defaults to the classic tiers)
+ * @param dealtCount - Cards the player was dealt (17 or 18 in some two- and three-player deals)
+ * @pure
+ */
+export function calculateMatchPoints(
+  hand: readonly { rank: string }[],
+  scoring: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  dealtCount: number = CARDS_PER_PLAYER
+): MatchPointsDetail {
+  const base = calculateCardPoints(hand.length, scoring);
+
+  if (hand.length === 0) {
+    const hongKongBonus = scoring.hongKongBonus;
+    return {
+      ...base,
+      finalScore: hongKongBonus > 0 ? -hongKongBonus : 0,
+      twosRemaining: 0,
+      twosPenalty: 0,
+      neverPlayed: false,
+      multiplier: 1,
+      hongKongBonus,
+    };
+  }
+
+  const twosRemaining = hand.filter(card => card.rank === '2').length;
+  const twosPenalty = twosRemaining * scoring.twosPenalty;
+  const neverPlayed = hand.length >= dealtCount;
+  const multiplier = neverPlayed && scoring.doubleIfNeverPlayed ? 2 : 1;
+
+  return {
+    ...base,
+    finalScore: (base.finalScore + twosPenalty) * multiplier,
+    twosRemaining,
+    twosPenalty,
+    neverPlayed,
+    multiplier,
+    hongKongBonus: 0,
+  };
+}
+
+/**
+ * Check if the game should end (any cumulative score >= the target score)
+ *
+ * @param cumulativeScores - Cumulative score per player
+ * @param scoring - Room scoring config (defaults to GAME_END_SCORE)
+ * @pure
+ */
+export function isGameOverScore(
+  cumulativeScores: number[],
+  scoring: ScoringConfig = DEFAULT_SCORING_CONFIG
+): boolean {
+  return cumulativeScores.some(score => score >= scoring.targetScore);
+}
+
+/**
+ * Find the index of the overall winner (lowest cumulative score).
+ * Ties resolve to the earliest index.
+ *
+ * @param cumulativeScores - Cumulative score per player
+ * @returns Index into cumulativeScores, or -1 for an empty array
+ * @pure
+ */
+export function findLowestScoreIndex(cumulativeScores: number[]): number {
+  let lowestScore = Infinity;
+  let winnerIndex = -1;
+  cumulativeScores.forEach((score, index) => {
+    if (score < lowestScore) {
+      lowestScore = score;
+      winnerIndex = index;
+    }
+  });
+  return winnerIndex;
+}
+
+// ==================== SEEDED DEALS ====================
+//
+// Every deal is derived from a secret seed. Before the first card is dealt
+// only hashDealSeed(seed) is published (game_state.deal_seed_hash); the seed
+// itself is revealed once the game is over, so anyone can re-run
+// dealSeededHands() and check the cards they were given.
+//
+// The shuffle draws each Fisher-Yates index from SHA-256 so the same deal can
+// be reproduced by Postgres (deal_seeded_deck() in migration
+// 20260801000003_seeded_deals.sql) without a shared PRNG implementation.
+
+/** Hex digits in a deal seed (128 bits) */
+export const DEAL_SEED_LENGTH = 32;
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function utf8Bytes(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+/**
+ * SHA-256 of a UTF-8 string as lowercase hex
+ *
+ * Synchronous and dependency-free (crypto.subtle is async and not available
+ * in every React Native runtime). Matches Postgres
+ * `encode(sha256(convert_to(text, 'UTF8')), 'hex')`.
+ *
+ * @pure
+ */
+export function sha256Hex(message: string): string {
+  const bytes = utf8Bytes(message);
+  const bitLength = bytes.length * 8;
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) bytes.push(0);
+  // Messages here are short; the high 32 bits of the 64-bit length stay zero
+  bytes.push(0, 0, 0, 0);
+  bytes.push((bitLength >>> 24) & 0xff, (bitLength >>> 16) & 0xff, (bitLength >>> 8) & 0xff, bitLength & 0xff);
+
+  const h = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+  const w = new Array<number>(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]) | 0;
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + SHA256_K[i] + w[i]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+    h[5] = (h[5] + f) | 0;
+    h[6] = (h[6] + g) | 0;
+    h[7] = (h[7] + hh) | 0;
+  }
+
+  return h.map(word => (word >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Create a new deal seed (DEAL_SEED_LENGTH lowercase hex digits)
+ *
+ * @param random - Source of randomness in [0, 1); callers with a CSPRNG
+ *   should pass one (the server generates seeds with gen_random_uuid()).
+ */
+export function createDealSeed(random: () => number = Math.random): string {
+  let seed = '';
+  for (let i = 0; i < DEAL_SEED_LENGTH; i++) {
+    seed += Math.floor(random() * 16).toString(16);
+  }
+  return seed;
+}
+
+/** Check that a value looks like a deal seed */
+export function isDealSeed(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]+$/.test(value) && value.length === DEAL_SEED_LENGTH;
+}
+
+/**
+ * Commitment published before dealing: SHA-256 of the seed
+ *
+ * @pure
+ */
+export function hashDealSeed(seed: string): string {
+  return sha256Hex(seed);
+}
+
+/**
+ * Check a revealed seed against the commitment published before the deal
+ *
+ * @pure
+ */
+export function verifyDealSeed(seed: string, seedHash: string): boolean {
+  return hashDealSeed(seed) === seedHash.toLowerCase();
+}
+
+/**
+ * The unshuffled deck every seeded deal starts from: rank-major, suits in
+ * the standard D, C, H, S order (3D, 3C, 3H, 3S, 4D, ...). House rules change
+ * how cards compare, never the dealing order.
+ *
+ * @pure
+ */
+export function createOrderedDeck(): Card[] {
+  const deck: Card[] = [];
+  for (const rank of RANKS) {
+    for (const suit of SUITS) {
+      deck.push({ id: `${rank}${suit}`, rank, suit });
+    }
+  }
+  return deck;
+}
+
+/**
+ * Shuffle the ordered deck for one deal of a game
+ *
+ * Fisher-Yates from the top of the deck down; the swap index for position i
+ * is the first 32 bits of sha256(`${seed}:${dealNumber}:${i}`) mod (i + 1).
+ * The modulo bias (< 52 / 2^32) is negligible.
+ *
+ * @param seed - Secret deal seed
+ * @param dealNumber - 1-based match number within the game
+ * @pure
+ */
+export function shuffleDeckWithSeed(seed: string, dealNumber: number): Card[] {
+  const deck = createOrderedDeck();
+  for (let i = deck.length - 1; i > 0; i--) {
+    const draw = parseInt(sha256Hex(`${seed}:${dealNumber}:${i}`).slice(0, 8), 16);
+    const j = draw % (i + 1);
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck;
+}
+
+/**
+ * How the deck is dealt at a table of two or three (four players always get
+ * 13 cards each):
+ *
+ * - 'extra-card': 17 cards each. At three players the one card left over goes
+ *   to the player holding the opening card; at two the last 18 cards sit out.
+ * - 'dummy': 13 cards each, as at four players; the hands of the empty seats
+ *   are dealt face down and sit out.
+ *
+ * The opening card never sits out: if it falls among the unused cards it
+ * changes places with the lowest card dealt, so the player who would have
+ * led anyway holds it.
+ */
+export type DealVariant = 'extra-card' | 'dummy';
+
+export const DEAL_VARIANTS: readonly DealVariant[] = ['extra-card', 'dummy'];
+
+export const DEFAULT_DEAL_VARIANT: DealVariant = 'extra-card';
+
+export function isDealVariant(value: unknown): value is DealVariant {
+  return typeof value === 'string' && (DEAL_VARIANTS as readonly string[]).includes(value);
+}
+
+/** Whether a game can be dealt for this many players (2 to 4) */
+export function isPlayerCount(value: unknown): value is number {
+  return (
+    Number.isInteger(value) && (value as number) >= MIN_PLAYERS && (value as number) <= MAX_PLAYERS
+  );
+}
+
+/**
+ * Cards dealt to each player, before the leftover card of a three-player
+ * 'extra-card' deal
+ *
+ * @pure
+ */
+export function getCardsPerPlayer(
+  playerCount: number,
+  variant: DealVariant = DEFAULT_DEAL_VARIANT
+): number {
+  return playerCount >= MAX_PLAYERS || variant === 'dummy'
+    ? CARDS_PER_PLAYER
+    : SHORT_TABLE_CARDS_PER_PLAYER;
+}
+
+/**
+ * Deal each seat its hand from a seeded shuffle
+ *
+ * Hand k is cards [nk, nk + n) of the shuffled deck, n = getCardsPerPlayer
+ * (13 at four players). Seat s receives hand (s + seatRotation) mod
+ * playerCount, so duplicate tables can play the same hands from rotated
+ * seats. At a smaller table the remaining cards are handled as the variant
+ * says (see DealVariant); a four-player deal is the same under either.
+ *
+ * @param seed - Secret deal seed
+ * @param dealNumber - 1-based match number within the game
+ * @param seatRotation - Duplicate table rotation (0 = hand k goes to seat k)
+ * @param playerCount - Seats at the table (2 to 4)
+ * @param variant - Two- and three-player dealing variant
+ * @param rules - House rules, for the opening card
+ * @returns Unsorted hands indexed by seat
+ * @pure
+ */
+export function dealSeededHands(
+  seed: string,
+  dealNumber: number,
+  seatRotation: number = 0,
+  playerCount: number = MAX_PLAYERS,
+  variant: DealVariant = DEFAULT_DEAL_VARIANT,
+  rules: RuleSet = STANDARD_RULE_SET
+): Card[][] {
+  const deck = shuffleDeckWithSeed(seed, dealNumber);
+  const size = getCardsPerPlayer(playerCount, variant);
+  const hands = Array.from({ length: playerCount }, (_, k) =>
+    deck.slice(k * size, (k + 1) * size)
+  );
+  const unused = deck.slice(playerCount * size);
+  const opening = unused.findIndex(card => isOpeningCard(card, rules));
+  if (opening >= 0) {
+    const lowestId = sortHand(hands.flat(), rules)[0].id;
+    const holder = hands.find(hand => hand.some(card => card.id === lowestId))!;
+    const index = holder.findIndex(card => card.id === lowestId);
+    [holder[index], unused[opening]] = [unused[opening], holder[index]];
+  }
+  if (unused.length === 1) {
+    // Three players, 17 cards each: the 52nd card joins the opening card
+    hands.find(hand => hand.some(card => isOpeningCard(card, rules)))!.push(unused[0]);
+  }
+  return Array.from(
+    { length: playerCount },
+    (_, seat) => hands[(seat + seatRotation) % playerCount]
+  );
+}
+
+/**
+ * Index of the dealt hand a seat holds at a duplicate table
+ *
+ * @pure
+ */
+export function getDealtHandIndex(
+  seat: number,
+  seatRotation: number,
+  playerCount: number = MAX_PLAYERS
+): number {
+  return (seat + seatRotation) % playerCount;
+}
+
+// ==================== DUPLICATE COMPARISON ====================
+//
+// In duplicate Big Two several tables play the same seeded deals with the
+// seats rotated (table t uses seatRotation t). A seat's result is compared
+// with every other table that held the same dealt hand in the same match,
+// so card luck cancels out and only the play is measured.
+
+/** One table's results in a duplicate group */
+export interface DuplicateTableResult {
+  tableIndex: number; // Also the table's seatRotation
+  /** matchScores[m][seat] = points scored by that seat in match m + 1 */
+  matchScores: number[][];
+}
+
+/** A seat's duplicate result, lower is better */
+export interface DuplicateSeatResult {
+  tableIndex: number;
+  seat: number;
+  total: number; // Points actually scored over the compared matches
+  par: number; // Average points scored with the same hands at every table
+  delta: number; // total - par (negative = better than the field)
+  matchesCompared: number;
+}
+
+/**
+ * Compare duplicate tables seat by seat
+ *
+ * Matches are only compared while at least two tables played them (games
+ * can end after different numbers of matches). Results are sorted best
+ * first (lowest delta).
+ *
+ * @pure
+ */
+export function compareDuplicateResults(
+  tables: readonly DuplicateTableResult[],
+  playerCount: number = MAX_PLAYERS
+): DuplicateSeatResult[] {
+  const results: DuplicateSeatResult[] = tables.flatMap(table =>
+    Array.from({ length: playerCount }, (_, seat) => ({
+      tableIndex: table.tableIndex,
+      seat,
+      total: 0,
+      par: 0,
+      delta: 0,
+      matchesCompared: 0,
+    }))
+  );
+
+  const matchCount = Math.max(0, ...tables.map(table => table.matchScores.length));
+  for (let m = 0; m < matchCount; m++) {
+    const played = tables.filter(table => Array.isArray(table.matchScores[m]));
+    if (played.length < 2) continue;
+
+    for (let hand = 0; hand < playerCount; hand++) {
+      // Seat that held this hand at each table: (seat + rotation) % n === hand
+      const entries = played.map(table => {
+        const seat = (hand - (table.tableIndex % playerCount) + playerCount) % playerCount;
+        return { table, seat, score: table.matchScores[m][seat] ?? 0 };
+      });
+      const par = entries.reduce((sum, entry) => sum + entry.score, 0) / entries.length;
+
+      for (const { table, seat, score } of entries) {
+        const result = results.find(r => r.tableIndex === table.tableIndex && r.seat === seat)!;
+        result.total += score;
+        result.par += par;
+        result.matchesCompared++;
+      }
+    }
+  }
+
+  for (const result of results) {
+    result.delta = result.total - result.par;
+  }
+  return results.sort((a, b) => a.delta - b.delta);
 }
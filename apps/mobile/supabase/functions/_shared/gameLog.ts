@@ -0,0 +1,406 @@
+/**
+ * Game event log
+ *
+ * Every transition of a room's game_state is appended to game_events with a
+ * per-room sequence number: the deal (cards_dealt), each play (play_made)
+ * and pass (pass), a match won (round_ended) and the game decided
+ * (game_ended). play-cards, player-pass and start_new_match tag their
+ * game_state update with the events it stands for (game_state.pending_events)
+ * and a trigger appends them in the same transaction, so the log is in the
+ * same order as the updates. Writes that carry no tag (the first deal by
+ * start_game_with_bots, SQL pass RPCs) are appended by the trigger too: the
+ * deal as cards_dealt, anything else as turn_changed with the columns it
+ * changed. Events carry everything their update wrote, so folding them with
+ * applyGameLogEvent rebuilds the game_state columns below; the fold also
+ * checks each play and pass against the hands and turn it rebuilt.
+ *
+ * @module gameLog
+ */
+
+import type { Card, ComboType, LastPlay, Rank, Suit } from './gameEngine.ts';
+
+export type GameEventSource = 'player' | 'bot' | 'auto_play' | 'auto_pass';
+
+/** A card as stored in game_state: an object, or a legacy id string ("D3", "3D") */
+export type GameLogCard = Card | string;
+
+/** One game_events row */
+export interface GameLogEvent {
+  sequence_number: number;
+  event_type: string;
+  player_index: number | null;
+  event_data: Record<string, unknown>;
+}
+
+/** game_state.pending_events entry: an event for the trigger to append */
+export interface PendingGameEvent {
+  event_type: 'cards_dealt' | 'play_made' | 'pass' | 'round_ended' | 'game_ended' | 'turn_changed';
+  player_index: number | null;
+  event_data: Record<string, unknown>;
+}
+
+export interface CardsDealtEventData {
+  match_number: number;
+  /** Seat-indexed hands ({"0": [...], ...}) */
+  hands: Record<string, GameLogCard[]>;
+  current_turn: number;
+  game_phase: string;
+  deal_seed_hash?: string | null;
+}
+
+export interface PlayMadeEventData {
+  cards: Card[];
+  combo_type: ComboType;
+  next_turn: number;
+  timestamp: number;
+  /** The timer the play started (highest play), or null */
+  auto_pass_timer: Record<string, unknown> | null;
+  source: GameEventSource;
+}
+
+export interface PassEventData {
+  next_turn: number;
+  /** Consecutive passes after this one (0 when the trick was cleared) */
+  passes: number;
+  trick_cleared: boolean;
+  source: GameEventSource;
+}
+
+export interface RoundEndedEventData {
+  match_number: number;
+  winner_index: number;
+  ended_at: string;
+  /** The scores_history entry's scores, or null when they could not be scored */
+  scores: unknown[] | null;
+}
+
+export interface GameEndedEventData {
+  winner_index: number | null;
+  final_scores: Record<string, number> | null;
+  ended_at: string | null;
+}
+
+/** The game_state columns the event log rebuilds */
+export interface GameLogState {
+  match_number: number;
+  game_phase: string;
+  current_turn: number;
+  hands: Record<string, GameLogCard[]>;
+  last_play: LastPlay | null;
+  passes: number;
+  played_cards: GameLogCard[];
+  play_history: unknown[];
+  auto_pass_timer: Record<string, unknown> | null;
+  scores_history: unknown[];
+  last_match_winner_index: number | null;
+  match_ended_at: string | null;
+  game_winner_index: number | null;
+  final_scores: Record<string, number> | null;
+  game_ended_at: string | null;
+  deal_seed_hash: string | null;
+}
+
+export const GAME_LOG_STATE_KEYS: readonly (keyof GameLogState)[] = [
+  'match_number',
+  'game_phase',
+  'current_turn',
+  'hands',
+  'last_play',
+  'passes',
+  'played_cards',
+  'play_history',
+  'auto_pass_timer',
+  'scores_history',
+  'last_match_winner_index',
+  'match_ended_at',
+  'game_winner_index',
+  'final_scores',
+  'game_ended_at',
+  'deal_seed_hash',
+];
+
+export interface GameLogStep {
+  state: GameLogState | null;
+  /** What did not add up, e.g. a play out of turn or of a card not in hand */
+  issues: string[];
+}
+
+export type GameLogRebuild =
+  | {
+      valid: true;
+      state: GameLogState;
+      /** Sequence number of the last event folded in */
+      throughSequence: number;
+      /** Events folded in, from the deal that started the game */
+      eventCount: number;
+      issues: string[];
+    }
+  | { valid: false; error: string };
+
+/** Card id of a stored card */
+function gameLogCardId(card: GameLogCard): string {
+  return typeof card === 'string' ? card : card.id || `${card.rank}${card.suit}`;
+}
+
+/**
+ * Stored cards as objects — the same normalisation play-cards applies
+ * (_shared/parseCards.ts) before writing a hand or played_cards back
+ */
+function toGameLogCardObjects(cards: readonly GameLogCard[] | null | undefined): Card[] {
+  if (!Array.isArray(cards)) return [];
+  const parsed: Card[] = [];
+  for (const card of cards) {
+    if (typeof card === 'string') {
+      const match =
+        card.match(/^([2-9TJQKA]|10)([DCHS])$/)?.slice(1) ??
+        card.match(/^([DCHS])([2-9TJQKA]|10)$/)?.slice(1).reverse();
+      if (match) parsed.push({ id: card, rank: match[0] as Rank, suit: match[1] as Suit });
+    } else if (card && card.suit && card.rank) {
+      parsed.push({ id: card.id || `${card.rank}${card.suit}`, suit: card.suit, rank: card.rank });
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Fold one event into the rebuilt game_state
+ *
+ * @param state The state before the event (null before the first deal)
+ * @returns The state after it, and anything the event contradicts
+ * @pure
+ */
+export function applyGameLogEvent(state: GameLogState | null, event: GameLogEvent): GameLogStep {
+  const data = event.event_data ?? {};
+  const at = `event ${event.sequence_number} (${event.event_type})`;
+  const issues: string[] = [];
+
+  if (event.event_type === 'cards_dealt') {
+    const deal = data as unknown as CardsDealtEventData;
+    const matchNumber = deal.match_number ?? 1;
+    if (state && matchNumber !== 1 && matchNumber !== state.match_number + 1) {
+      issues.push(`${at}: dealt match ${matchNumber} after match ${state.match_number}`);
+    }
+    const carried = state && matchNumber !== 1 ? state : null;
+    return {
+      state: {
+        match_number: matchNumber,
+        game_phase: deal.game_phase ?? (matchNumber === 1 ? 'first_play' : 'playing'),
+        current_turn: deal.current_turn,
+        hands: deal.hands ?? {},
+        last_play: null,
+        passes: 0,
+        played_cards: [],
+        play_history: carried?.play_history ?? [],
+        auto_pass_timer: null,
+        scores_history: carried?.scores_history ?? [],
+        last_match_winner_index: null,
+        match_ended_at: null,
+        game_winner_index: carried?.game_winner_index ?? null,
+        final_scores: carried?.final_scores ?? null,
+        game_ended_at: carried?.game_ended_at ?? null,
+        deal_seed_hash: deal.deal_seed_hash ?? null,
+      },
+      issues,
+    };
+  }
+
+  if (!state) {
+    return { state, issues: [`${at}: no deal before it`] };
+  }
+
+  switch (event.event_type) {
+    case 'play_made': {
+      const play = data as unknown as PlayMadeEventData;
+      const seat = event.player_index ?? -1;
+      if (seat !== state.current_turn) {
+        issues.push(`${at}: seat ${seat} played on seat ${state.current_turn}'s turn`);
+      }
+      if (state.game_phase !== 'first_play' && state.game_phase !== 'playing') {
+        issues.push(`${at}: played while the game was ${state.game_phase}`);
+      }
+      const hand = toGameLogCardObjects(state.hands[String(seat)]);
+      const playedIds = new Set(play.cards.map(gameLogCardId));
+      const missing = [...playedIds].filter(id => !hand.some(card => card.id === id));
+      if (missing.length > 0) {
+        issues.push(`${at}: seat ${seat} played ${missing.join(', ')} not in hand`);
+      }
+      return {
+        state: {
+          ...state,
+          // Same as the trigger_transition_game_phase_after_first_play trigger
+          game_phase: state.game_phase === 'first_play' ? 'playing' : state.game_phase,
+          current_turn: play.next_turn,
+          hands: { ...state.hands, [String(seat)]: hand.filter(card => !playedIds.has(card.id)) },
+          last_play: {
+            player_index: seat,
+            cards: play.cards,
+            combo_type: play.combo_type,
+            timestamp: play.timestamp,
+          },
+          passes: 0,
+          played_cards: [...toGameLogCardObjects(state.played_cards), ...play.cards],
+          play_history: [
+            ...state.play_history,
+            {
+              match_number: state.match_number,
+              position: seat,
+              cards: play.cards,
+              combo_type: play.combo_type,
+              passed: false,
+            },
+          ],
+          auto_pass_timer: play.auto_pass_timer ?? null,
+        },
+        issues,
+      };
+    }
+
+    case 'pass': {
+      const pass = data as unknown as PassEventData;
+      const seat = event.player_index ?? -1;
+      if (seat !== state.current_turn) {
+        issues.push(`${at}: seat ${seat} passed on seat ${state.current_turn}'s turn`);
+      }
+      if (!state.last_play) issues.push(`${at}: seat ${seat} passed while leading`);
+      return {
+        state: pass.trick_cleared
+          ? {
+              ...state,
+              current_turn: pass.next_turn,
+              passes: 0,
+              last_play: null,
+              auto_pass_timer: null,
+            }
+          : { ...state, current_turn: pass.next_turn, passes: pass.passes },
+        issues,
+      };
+    }
+
+    case 'round_ended': {
+      const round = data as unknown as RoundEndedEventData;
+      if (toGameLogCardObjects(state.hands[String(round.winner_index)]).length > 0) {
+        issues.push(`${at}: seat ${round.winner_index} won holding cards`);
+      }
+      return {
+        state: {
+          ...state,
+          game_phase: 'finished',
+          last_match_winner_index: round.winner_index,
+          match_ended_at: round.ended_at,
+          scores_history: round.scores
+            ? [...state.scores_history, { match_number: round.match_number, scores: round.scores }]
+            : state.scores_history,
+        },
+        issues,
+      };
+    }
+
+    case 'game_ended': {
+      const end = data as unknown as GameEndedEventData;
+      return {
+        state: {
+          ...state,
+          game_phase: 'game_over',
+          game_winner_index: end.winner_index ?? state.game_winner_index,
+          final_scores: end.final_scores ?? state.final_scores,
+          game_ended_at: end.ended_at ?? state.game_ended_at,
+        },
+        issues,
+      };
+    }
+
+    case 'turn_changed': {
+      // An untagged write: the columns it changed, as written
+      const patched = { ...state } as Record<string, unknown>;
+      for (const key of GAME_LOG_STATE_KEYS) {
+        if (key in data) patched[key] = data[key];
+      }
+      return { state: patched as unknown as GameLogState, issues };
+    }
+
+    default:
+      // Lobby and chat events do not touch game_state
+      return { state, issues };
+  }
+}
+
+/**
+ * Rebuild a room's game_state from its event log
+ *
+ * Folds the events from the last first-match deal (a room restarted with
+ * start_game_with_bots keeps the previous game's events before it). The
+ * sequence numbers from there on must have no gaps.
+ *
+ * @pure
+ */
+export function rebuildGameStateFromEvents(events: readonly GameLogEvent[]): GameLogRebuild {
+  const ordered = [...events].sort((a, b) => a.sequence_number - b.sequence_number);
+  let start = -1;
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    const event = ordered[i];
+    if (event.event_type === 'cards_dealt' && (event.event_data?.match_number ?? 1) === 1) {
+      start = i;
+      break;
+    }
+  }
+  if (start === -1) return { valid: false, error: 'No deal in the event log' };
+
+  let state: GameLogState | null = null;
+  const issues: string[] = [];
+  for (let i = start; i < ordered.length; i++) {
+    const event = ordered[i];
+    if (i > start && event.sequence_number !== ordered[i - 1].sequence_number + 1) {
+      return {
+        valid: false,
+        error: `Events ${ordered[i - 1].sequence_number + 1}–${event.sequence_number - 1} are missing`,
+      };
+    }
+    const step = applyGameLogEvent(state, event);
+    state = step.state;
+    issues.push(...step.issues);
+  }
+
+  return {
+    valid: true,
+    state: state!,
+    throughSequence: ordered[ordered.length - 1].sequence_number,
+    eventCount: ordered.length - start,
+    issues,
+  };
+}
+
+function sameGameLogValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return a === b || (a == null && b == null);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(key =>
+      sameGameLogValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+/**
+ * The game_state columns whose stored value differs from the rebuilt one
+ * (timestamps are compared as instants, so "…Z" and "…+00:00" agree)
+ *
+ * @pure
+ */
+export function diffGameLogState(
+  rebuilt: GameLogState,
+  stored: Partial<Record<keyof GameLogState, unknown>>
+): (keyof GameLogState)[] {
+  return GAME_LOG_STATE_KEYS.filter(key => {
+    const a = rebuilt[key];
+    const b = stored[key] ?? null;
+    if (key.endsWith('_at') && typeof a === 'string' && typeof b === 'string') {
+      return Date.parse(a) !== Date.parse(b);
+    }
+    return !sameGameLogValue(a, b);
+  });
+}
@@ -0,0 +1,214 @@
+/**
+ * Glicko-2 ratings
+ *
+ * Ranked games are rated with Glicko-2. Besides the rating, every player has
+ * a rating deviation (how sure we are of the rating) and a volatility (how
+ * erratic their results are), stored in profiles.rating_deviation /
+ * rating_volatility. New players start with a wide deviation and move
+ * quickly; the deviation shrinks as they play and widens again for every
+ * day (rating period) they do not, so returning players re-settle fast. A
+ * four-player game counts as a win, loss or draw against each other rated
+ * player at the table, by finish position. complete-game rates every ranked
+ * game, find-match sizes its rating window from the deviation and
+ * scripts/recompute-ratings.mjs replays game_history with the same code.
+ * Ratings use the app's 1000-based scale (SEASON_BASE_RATING).
+ *
+ * @module glicko2
+ */
+
+import { SEASON_BASE_RATING } from './seasons.ts';
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+/** One pairwise result: 1 = beat the opponent, 0.5 = tied, 0 = lost */
+export interface Glicko2Result {
+  opponent: Glicko2Rating;
+  score: number;
+}
+
+/** A rated player at a finished ranked table */
+export interface RankedGamePlayer {
+  id: string;
+  rating: Glicko2Rating;
+  finishPosition: number;
+  /** Whole rating periods (days) since the player's previous rated game */
+  idlePeriods: number;
+}
+
+export const GLICKO2_MIN_DEVIATION = 30;
+export const GLICKO2_MAX_DEVIATION = 350;
+/** Constrains how fast volatility changes between periods */
+export const GLICKO2_TAU = 0.5;
+export const GLICKO2_RATING_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_GLICKO2_RATING: Glicko2Rating = Object.freeze({
+  rating: SEASON_BASE_RATING,
+  deviation: GLICKO2_MAX_DEVIATION,
+  volatility: 0.06,
+});
+
+/** Rating window find-match searches for a player: twice the deviation, within bounds */
+export const MIN_MATCHMAKING_RATING_WINDOW = 100;
+export const MAX_MATCHMAKING_RATING_WINDOW = 400;
+
+/** Glicko-2 works on a scale where one unit is 173.7178 rating points */
+const GLICKO2_SCALE = 173.7178;
+const GLICKO2_CONVERGENCE = 0.000001;
+
+function clampDeviation(deviation: number): number {
+  return Math.min(GLICKO2_MAX_DEVIATION, Math.max(GLICKO2_MIN_DEVIATION, deviation));
+}
+
+function glicko2G(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function glicko2Expected(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-glicko2G(opponentPhi) * (mu - opponentMu)));
+}
+
+/**
+ * New volatility after a rating period (step 5 of the Glicko-2 paper,
+ * Illinois algorithm)
+ */
+function glicko2Volatility(phi: number, sigma: number, delta: number, v: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (
+      (ex * (delta * delta - phi * phi - v - ex)) / (2 * Math.pow(phi * phi + v + ex, 2)) -
+      (x - a) / (GLICKO2_TAU * GLICKO2_TAU)
+    );
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * GLICKO2_TAU) < 0) k++;
+    B = a - k * GLICKO2_TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > GLICKO2_CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/**
+ * Widen a player's deviation for rating periods they did not play in
+ *
+ * @pure
+ */
+export function decayGlicko2Rating(player: Glicko2Rating, idlePeriods: number): Glicko2Rating {
+  if (idlePeriods <= 0) return player;
+  const phi = player.deviation / GLICKO2_SCALE;
+  const decayed = Math.sqrt(phi * phi + idlePeriods * player.volatility * player.volatility);
+  return { ...player, deviation: clampDeviation(decayed * GLICKO2_SCALE) };
+}
+
+/**
+ * Rate one period of results for a player. With no results only the
+ * deviation widens.
+ *
+ * @pure
+ */
+export function updateGlicko2Rating(
+  player: Glicko2Rating,
+  results: readonly Glicko2Result[]
+): Glicko2Rating {
+  if (results.length === 0) return decayGlicko2Rating(player, 1);
+
+  const mu = (player.rating - SEASON_BASE_RATING) / GLICKO2_SCALE;
+  const phi = player.deviation / GLICKO2_SCALE;
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const opponentMu = (opponent.rating - SEASON_BASE_RATING) / GLICKO2_SCALE;
+    const opponentPhi = opponent.deviation / GLICKO2_SCALE;
+    const g = glicko2G(opponentPhi);
+    const expected = glicko2Expected(mu, opponentMu, opponentPhi);
+    vInverse += g * g * expected * (1 - expected);
+    improvement += g * (score - expected);
+  }
+  const v = 1 / vInverse;
+  const volatility = glicko2Volatility(phi, player.volatility, v * improvement, v);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: Math.max(0, newMu * GLICKO2_SCALE + SEASON_BASE_RATING),
+    deviation: clampDeviation(newPhi * GLICKO2_SCALE),
+    volatility,
+  };
+}
+
+/**
+ * Rate a finished ranked table: every player is scored against every other
+ * by finish position (equal positions, e.g. two abandoned players, are
+ * skipped). Deviations are first widened for the days each player sat out;
+ * everyone is rated against the others' widened pre-game ratings.
+ *
+ * @returns New rating by player id
+ * @pure
+ */
+export function rateRankedGame(players: readonly RankedGamePlayer[]): Map<string, Glicko2Rating> {
+  const before = players.map(player => decayGlicko2Rating(player.rating, player.idlePeriods));
+  const rated = new Map<string, Glicko2Rating>();
+  players.forEach((player, i) => {
+    const results: Glicko2Result[] = [];
+    players.forEach((other, j) => {
+      if (i === j || other.finishPosition === player.finishPosition) return;
+      results.push({
+        opponent: before[j],
+        score: player.finishPosition < other.finishPosition ? 1 : 0,
+      });
+    });
+    rated.set(player.id, results.length > 0 ? updateGlicko2Rating(before[i], results) : before[i]);
+  });
+  return rated;
+}
+
+/**
+ * Whole rating periods between a player's previous rated game and now;
+ * 0 for a player's first game
+ *
+ * @pure
+ */
+export function glicko2IdlePeriods(lastRatedAt: string | null, now: number): number {
+  if (!lastRatedAt) return 0;
+  const elapsed = now - new Date(lastRatedAt).getTime();
+  return Number.isFinite(elapsed) ? Math.max(0, Math.floor(elapsed / GLICKO2_RATING_PERIOD_MS)) : 0;
+}
+
+/**
+ * How far from a player's rating find-match looks for opponents: settled
+ * players get tight brackets, new or returning players wide ones
+ *
+ * @pure
+ */
+export function matchmakingRatingWindow(deviation: number): number {
+  return Math.round(
+    Math.min(MAX_MATCHMAKING_RATING_WINDOW, Math.max(MIN_MATCHMAKING_RATING_WINDOW, 2 * deviation))
+  );
+}
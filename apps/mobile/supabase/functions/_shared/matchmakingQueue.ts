@@ -0,0 +1,232 @@
+/**
+ * Matchmaking queue
+ *
+ * find-match seats a table of two, three or four players (the size each
+ * player queued for) from waiting_room. The longer a player waits, the
+ * further their rating window (matchmakingRatingWindow) widens, and the
+ * search reaches from their own region to nearby regions and then to every
+ * region. Players who sat at the same table in their previous game are kept
+ * apart until both have waited a while. Friends can queue as a party of two
+ * or three: a party is one group in the queue, seated side by side and
+ * filled up with other groups, so it always sits at a table larger than
+ * itself. Two groups can meet when their rating gap and region distance fit
+ * the reach of whichever has waited longer, so a long-waiting player takes
+ * newcomers the newcomer would not have searched for yet. The matchmaking
+ * screen shows the same search range.
+ *
+ * @module matchmakingQueue
+ */
+
+export type MatchmakingRegionReach = 'region' | 'nearby' | 'any';
+
+/** A solo player or a complete party waiting in the queue */
+export interface MatchmakingGroup {
+  /** waiting_room.party_id, or the user id of a solo player */
+  id: string;
+  memberIds: readonly string[];
+  /** Average rating of the members */
+  rating: number;
+  /** Rating window before widening (the widest of the members') */
+  ratingWindow: number;
+  region: string;
+  /** When the group was complete in the queue (ms since epoch) */
+  joinedAt: number;
+  /** Players the members sat with in their previous game */
+  recentOpponentIds: readonly string[];
+}
+
+export interface MatchmakingSearchRange {
+  minRating: number;
+  maxRating: number;
+  regionReach: MatchmakingRegionReach;
+}
+
+/** Largest (and default) table; players can also queue for two or three */
+export const MATCHMAKING_TABLE_SIZE = 4;
+export const MIN_MATCHMAKING_TABLE_SIZE = 2;
+export const MAX_MATCHMAKING_PARTY_SIZE = 3;
+/** The rating window widens by this much every MATCHMAKING_WINDOW_STEP_MS of waiting */
+export const MATCHMAKING_WINDOW_STEP = 50;
+export const MATCHMAKING_WINDOW_STEP_MS = 15_000;
+export const MAX_WIDENED_RATING_WINDOW = 1000;
+export const MATCHMAKING_NEARBY_REGIONS_AFTER_MS = 20_000;
+export const MATCHMAKING_ANY_REGION_AFTER_MS = 60_000;
+/** Opponents from the previous game can be seated again once both have waited this long */
+export const MATCHMAKING_REMATCH_AFTER_MS = 45_000;
+
+/** Regions with low latency to each other (regionDetector's regions) */
+export const MATCHMAKING_NEARBY_REGIONS: Readonly<Record<string, readonly string[]>> =
+  Object.freeze({
+    'us-east': ['us-west', 'sa-east', 'eu-west'],
+    'us-west': ['us-east', 'ap-south'],
+    'eu-west': ['eu-central', 'us-east'],
+    'eu-central': ['eu-west'],
+    'ap-south': ['us-west'],
+    'sa-east': ['us-east'],
+  });
+
+const REGION_REACH_ORDER: readonly MatchmakingRegionReach[] = ['region', 'nearby', 'any'];
+
+/** Whether players can queue for a table of this size (2 to 4) */
+export function isMatchmakingTableSize(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= MIN_MATCHMAKING_TABLE_SIZE &&
+    (value as number) <= MATCHMAKING_TABLE_SIZE
+  );
+}
+
+/**
+ * Rating window after waiting: the base window plus one step per
+ * MATCHMAKING_WINDOW_STEP_MS, up to MAX_WIDENED_RATING_WINDOW
+ *
+ * @pure
+ */
+export function widenedRatingWindow(ratingWindow: number, waitedMs: number): number {
+  const steps = Math.max(0, Math.floor(waitedMs / MATCHMAKING_WINDOW_STEP_MS));
+  return Math.min(
+    MAX_WIDENED_RATING_WINDOW,
+    Math.max(ratingWindow, ratingWindow + steps * MATCHMAKING_WINDOW_STEP)
+  );
+}
+
+/** @pure */
+export function matchmakingRegionReach(waitedMs: number): MatchmakingRegionReach {
+  if (waitedMs >= MATCHMAKING_ANY_REGION_AFTER_MS) return 'any';
+  if (waitedMs >= MATCHMAKING_NEARBY_REGIONS_AFTER_MS) return 'nearby';
+  return 'region';
+}
+
+/**
+ * How far apart two regions are: 'region' for the same one, 'nearby' for
+ * neighbours (or when either is unknown, 'global'), 'any' otherwise
+ *
+ * @pure
+ */
+export function matchmakingRegionDistance(a: string, b: string): MatchmakingRegionReach {
+  if (a === b) return 'region';
+  if (
+    a === 'global' ||
+    b === 'global' ||
+    MATCHMAKING_NEARBY_REGIONS[a]?.includes(b) ||
+    MATCHMAKING_NEARBY_REGIONS[b]?.includes(a)
+  ) {
+    return 'nearby';
+  }
+  return 'any';
+}
+
+/**
+ * The ratings and regions a player is currently searching
+ *
+ * @pure
+ */
+export function matchmakingSearchRange(
+  rating: number,
+  ratingWindow: number,
+  waitedMs: number
+): MatchmakingSearchRange {
+  const window = widenedRatingWindow(ratingWindow, waitedMs);
+  return {
+    minRating: Math.max(0, Math.round(rating - window)),
+    maxRating: Math.round(rating + window),
+    regionReach: matchmakingRegionReach(waitedMs),
+  };
+}
+
+/**
+ * Whether two queued groups may share a table now
+ *
+ * @pure
+ */
+export function canMatchmakingGroupsMeet(
+  a: MatchmakingGroup,
+  b: MatchmakingGroup,
+  now: number
+): boolean {
+  const waitedA = now - a.joinedAt;
+  const waitedB = now - b.joinedAt;
+  const longestWait = Math.max(waitedA, waitedB);
+
+  const window = Math.max(
+    widenedRatingWindow(a.ratingWindow, waitedA),
+    widenedRatingWindow(b.ratingWindow, waitedB)
+  );
+  if (Math.abs(a.rating - b.rating) > window) return false;
+
+  const distance = REGION_REACH_ORDER.indexOf(matchmakingRegionDistance(a.region, b.region));
+  if (distance > REGION_REACH_ORDER.indexOf(matchmakingRegionReach(longestWait))) return false;
+
+  const rematch =
+    b.memberIds.some(id => a.recentOpponentIds.includes(id)) ||
+    a.memberIds.some(id => b.recentOpponentIds.includes(id));
+  return !rematch || Math.min(waitedA, waitedB) >= MATCHMAKING_REMATCH_AFTER_MS;
+}
+
+/**
+ * Pick groups to fill a table with the searching group. Candidates in the
+ * searcher's region come first, then the longest waiting, and every pair of
+ * groups at the table must be able to meet. The searcher always meets at
+ * least one other group: a party that fills the table alone is not seated.
+ *
+ * @param tableSize - Seats to fill (candidates queued for the same size)
+ * @returns The groups in seating order (searcher first), or null when no
+ *   combination fills the table yet
+ * @pure
+ */
+export function assembleMatchmakingTable(
+  searcher: MatchmakingGroup,
+  candidates: readonly MatchmakingGroup[],
+  now: number,
+  tableSize: number = MATCHMAKING_TABLE_SIZE
+): MatchmakingGroup[] | null {
+  if (searcher.memberIds.length >= tableSize) return null;
+
+  const ordered = candidates
+    .filter(
+      group =>
+        group.id !== searcher.id &&
+        group.memberIds.length <= tableSize - searcher.memberIds.length &&
+        canMatchmakingGroupsMeet(searcher, group, now)
+    )
+    .sort(
+      (a, b) =>
+        REGION_REACH_ORDER.indexOf(matchmakingRegionDistance(searcher.region, a.region)) -
+          REGION_REACH_ORDER.indexOf(matchmakingRegionDistance(searcher.region, b.region)) ||
+        a.joinedAt - b.joinedAt
+    );
+
+  const table: MatchmakingGroup[] = [searcher];
+  const fill = (from: number, seated: number): boolean => {
+    if (seated === tableSize) return true;
+    for (let i = from; i < ordered.length; i++) {
+      const group = ordered[i];
+      if (seated + group.memberIds.length > tableSize) continue;
+      if (!table.every(other => canMatchmakingGroupsMeet(other, group, now))) continue;
+      table.push(group);
+      if (fill(i + 1, seated + group.memberIds.length)) return true;
+      table.pop();
+    }
+    return false;
+  };
+  return fill(0, searcher.memberIds.length) ? table : null;
+}
+
+/**
+ * Expected time left in the queue, from the waits of recent matches that
+ * took longer than the player has already waited (their median)
+ *
+ * @returns Milliseconds, or null without recent matches to go by
+ * @pure
+ */
+export function estimateMatchmakingWaitMs(
+  recentWaitsMs: readonly number[],
+  waitedMs: number
+): number | null {
+  const longer = recentWaitsMs.filter(wait => wait > waitedMs).sort((a, b) => a - b);
+  if (longer.length === 0) return null;
+  const middle = Math.floor(longer.length / 2);
+  const median =
+    longer.length % 2 === 1 ? longer[middle] : (longer[middle - 1] + longer[middle]) / 2;
+  return Math.round(median - waitedMs);
+}
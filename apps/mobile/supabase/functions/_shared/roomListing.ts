@@ -0,0 +1,83 @@
+/**
+ * Room listings
+ *
+ * Hosts can list a room in the public room browser. Besides the house rules
+ * (rooms.settings.rule_set), a listed room carries a title, the difficulty
+ * of the bots that fill empty seats and a turn timer, stored in
+ * rooms.settings as title / bot_difficulty / turn_timer_seconds. The database
+ * enforces the same bounds in set_room_listing.
+ *
+ * @module roomListing
+ */
+
+export type RoomBotDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+export interface RoomListingSettings {
+  /** Shown in the room browser; null lists the room under its code */
+  title: string | null;
+  botDifficulty: RoomBotDifficulty;
+  turnTimerSeconds: number;
+}
+
+export const MAX_ROOM_TITLE_LENGTH = 40;
+export const MIN_ROOM_TURN_TIMER_SECONDS = 15;
+export const MAX_ROOM_TURN_TIMER_SECONDS = 120;
+
+/** Turn timers offered when creating a room */
+export const ROOM_TURN_TIMER_OPTIONS: readonly number[] = [15, 30, 60, 120];
+
+export const DEFAULT_ROOM_LISTING_SETTINGS: RoomListingSettings = Object.freeze({
+  title: null,
+  botDifficulty: 'medium',
+  turnTimerSeconds: 60,
+});
+
+export function isRoomBotDifficulty(value: unknown): value is RoomBotDifficulty {
+  return value === 'easy' || value === 'medium' || value === 'hard' || value === 'expert';
+}
+
+export function isRoomTurnTimerSeconds(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= MIN_ROOM_TURN_TIMER_SECONDS &&
+    (value as number) <= MAX_ROOM_TURN_TIMER_SECONDS
+  );
+}
+
+/**
+ * Trim a room title and collapse its whitespace. Titles longer than
+ * MAX_ROOM_TITLE_LENGTH are cut; blank titles become null.
+ *
+ * @pure
+ */
+export function normalizeRoomTitle(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+  const title = input.replace(/\s+/g, ' ').trim().slice(0, MAX_ROOM_TITLE_LENGTH).trim();
+  return title.length > 0 ? title : null;
+}
+
+/**
+ * Read the listing settings from untrusted input (the rooms.settings object).
+ * Missing or invalid fields fall back to the defaults.
+ *
+ * @pure
+ */
+export function normalizeRoomListingSettings(settings: unknown): RoomListingSettings {
+  if (!settings || typeof settings !== 'object') return DEFAULT_ROOM_LISTING_SETTINGS;
+  const raw = settings as Record<string, unknown>;
+  const title = normalizeRoomTitle(raw.title);
+  const botDifficulty = isRoomBotDifficulty(raw.bot_difficulty)
+    ? raw.bot_difficulty
+    : DEFAULT_ROOM_LISTING_SETTINGS.botDifficulty;
+  const turnTimerSeconds = isRoomTurnTimerSeconds(raw.turn_timer_seconds)
+    ? raw.turn_timer_seconds
+    : DEFAULT_ROOM_LISTING_SETTINGS.turnTimerSeconds;
+  if (
+    title === null &&
+    botDifficulty === DEFAULT_ROOM_LISTING_SETTINGS.botDifficulty &&
+    turnTimerSeconds === DEFAULT_ROOM_LISTING_SETTINGS.turnTimerSeconds
+  ) {
+    return DEFAULT_ROOM_LISTING_SETTINGS;
+  }
+  return Object.freeze({ title, botDifficulty, turnTimerSeconds });
+}
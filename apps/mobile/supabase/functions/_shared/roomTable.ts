@@ -0,0 +1,140 @@
+/**
+ * Room table
+ *
+ * How many seats an online room has and how a table of two or three is
+ * dealt. Hosts pick both in the lobby (rooms.max_players and
+ * rooms.settings.deal_variant, written by set_room_table); matchmaking
+ * creates rooms of the table size the players queued for. The database deals
+ * the first match (start_game_with_bots), start_new_match deals the rest with
+ * dealSeededHands, and play-cards, player-pass, bot-coordinator and
+ * complete-game follow the seats that were dealt.
+ *
+ * Online turns go round the seats in index order (0 → 1 → … → n - 1 → 0).
+ *
+ * @module roomTable
+ */
+
+import {
+  DEFAULT_DEAL_VARIANT,
+  MAX_PLAYERS,
+  getCardsPerPlayer,
+  isDealVariant,
+  isPlayerCount,
+  type DealVariant,
+} from './gameEngine.ts';
+
+export interface RoomTable {
+  playerCount: number;
+  dealVariant: DealVariant;
+}
+
+export const DEFAULT_ROOM_TABLE: RoomTable = Object.freeze({
+  playerCount: MAX_PLAYERS,
+  dealVariant: DEFAULT_DEAL_VARIANT,
+});
+
+/**
+ * A room's table from rooms.max_players and rooms.settings.deal_variant;
+ * anything out of range falls back to four seats and the default deal
+ *
+ * @pure
+ */
+export function normalizeRoomTable(maxPlayers: unknown, settings: unknown): RoomTable {
+  const variant =
+    settings && typeof settings === 'object'
+      ? (settings as Record<string, unknown>).deal_variant
+      : undefined;
+  return {
+    playerCount: isPlayerCount(maxPlayers) ? maxPlayers : DEFAULT_ROOM_TABLE.playerCount,
+    dealVariant: isDealVariant(variant) ? variant : DEFAULT_ROOM_TABLE.dealVariant,
+  };
+}
+
+/**
+ * Seats in play, from the hands that were dealt (game_state.hands has one
+ * entry per seat, keyed "0" to "n - 1")
+ *
+ * @pure
+ */
+export function getSeatCount(hands: Record<string, unknown> | null | undefined): number {
+  const seats = hands ? Object.keys(hands).length : 0;
+  return isPlayerCount(seats) ? seats : MAX_PLAYERS;
+}
+
+/**
+ * Seat that plays after this one
+ *
+ * @pure
+ */
+export function getNextSeat(seat: number, playerCount: number): number {
+  return (seat + 1) % playerCount;
+}
+
+/**
+ * Next seat for every seat, indexed by seat (the turnOrder BotAI takes)
+ *
+ * @pure
+ */
+export function getTurnOrder(playerCount: number): number[] {
+  return Array.from({ length: playerCount }, (_, seat) => getNextSeat(seat, playerCount));
+}
+
+/**
+ * The other seats at the table, in turn order after this one
+ *
+ * @pure
+ */
+export function getOtherSeats(seat: number, playerCount: number): number[] {
+  return Array.from({ length: playerCount - 1 }, (_, i) => (seat + i + 1) % playerCount);
+}
+
+/**
+ * Cards each opponent holds, indexed by seat; the player's own seat is null
+ *
+ * @pure
+ */
+export function getOpponentHandSizes(
+  hands: Record<string, unknown> | null | undefined,
+  seat: number,
+  playerCount: number
+): (number | null)[] {
+  return Array.from({ length: playerCount }, (_, i) => {
+    if (i === seat) return null;
+    const hand = hands?.[i];
+    return Array.isArray(hand) ? hand.length : 0;
+  });
+}
+
+/** A play_history entry, as play-cards appends them */
+export interface SeatPlayRecord {
+  match_number?: number;
+  position?: number;
+  cards?: unknown[];
+  passed?: boolean;
+}
+
+/**
+ * Cards each seat was dealt this match, indexed by seat: the table's hand
+ * size, or one more for the holder of the opening card, who also gets the
+ * leftover card at a table of three (scoring's "never played" check)
+ *
+ * @pure
+ */
+export function getDealtHandSizes(
+  hands: Record<string, unknown> | null | undefined,
+  playHistory: readonly SeatPlayRecord[],
+  matchNumber: number,
+  table: RoomTable
+): number[] {
+  const handSize = getCardsPerPlayer(table.playerCount, table.dealVariant);
+  return Array.from({ length: table.playerCount }, (_, seat) => {
+    const hand = hands?.[seat];
+    const played = playHistory
+      .filter(
+        entry =>
+          (entry.match_number ?? 1) === matchNumber && entry.position === seat && !entry.passed
+      )
+      .reduce((count, entry) => count + (Array.isArray(entry.cards) ? entry.cards.length : 0), 0);
+    return Math.max(handSize, (Array.isArray(hand) ? hand.length : 0) + played);
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * Room timers
+ *
+ * How long a player has to act before the server plays for them, how long
+ * the auto-pass window stays open after an unbeatable play and how long a
+ * disconnected player has to come back before a bot takes the seat. Hosts
+ * set them per room (rooms.settings.turn_timer_seconds /
+ * auto_pass_timer_seconds / disconnect_timer_seconds) through
+ * set_room_timers, which enforces the same bounds. auto-play-turn,
+ * play-cards, update-heartbeat and process_disconnected_players all read the
+ * room's values, so the countdown rings only mirror what the server does.
+ *
+ * @module roomTimers
+ */
+
+import { isRoomTurnTimerSeconds } from './roomListing.ts';
+
+export interface RoomTimerSettings {
+  turnSeconds: number;
+  autoPassSeconds: number;
+  disconnectSeconds: number;
+}
+
+export type RoomTimerPresetId = 'blitz' | 'standard' | 'relaxed';
+
+export const MIN_ROOM_AUTO_PASS_SECONDS = 5;
+export const MAX_ROOM_AUTO_PASS_SECONDS = 30;
+export const MIN_ROOM_DISCONNECT_SECONDS = 30;
+export const MAX_ROOM_DISCONNECT_SECONDS = 180;
+
+export const DEFAULT_ROOM_TIMER_SETTINGS: RoomTimerSettings = Object.freeze({
+  turnSeconds: 60,
+  autoPassSeconds: 10,
+  disconnectSeconds: 60,
+});
+
+export const ROOM_TIMER_PRESETS: Readonly<Record<RoomTimerPresetId, RoomTimerSettings>> =
+  Object.freeze({
+    blitz: Object.freeze({ turnSeconds: 15, autoPassSeconds: 5, disconnectSeconds: 30 }),
+    standard: DEFAULT_ROOM_TIMER_SETTINGS,
+    relaxed: Object.freeze({ turnSeconds: 120, autoPassSeconds: 15, disconnectSeconds: 120 }),
+  });
+
+function isSecondsBetween(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+export function isRoomAutoPassSeconds(value: unknown): value is number {
+  return isSecondsBetween(value, MIN_ROOM_AUTO_PASS_SECONDS, MAX_ROOM_AUTO_PASS_SECONDS);
+}
+
+export function isRoomDisconnectSeconds(value: unknown): value is number {
+  return isSecondsBetween(value, MIN_ROOM_DISCONNECT_SECONDS, MAX_ROOM_DISCONNECT_SECONDS);
+}
+
+/**
+ * Read the room's timers from untrusted input (the rooms.settings object).
+ * Missing or invalid fields fall back to the defaults.
+ *
+ * @pure
+ */
+export function normalizeRoomTimerSettings(settings: unknown): RoomTimerSettings {
+  if (!settings || typeof settings !== 'object') return DEFAULT_ROOM_TIMER_SETTINGS;
+  const raw = settings as Record<string, unknown>;
+  const turnSeconds = isRoomTurnTimerSeconds(raw.turn_timer_seconds)
+    ? raw.turn_timer_seconds
+    : DEFAULT_ROOM_TIMER_SETTINGS.turnSeconds;
+  const autoPassSeconds = isRoomAutoPassSeconds(raw.auto_pass_timer_seconds)
+    ? raw.auto_pass_timer_seconds
+    : DEFAULT_ROOM_TIMER_SETTINGS.autoPassSeconds;
+  const disconnectSeconds = isRoomDisconnectSeconds(raw.disconnect_timer_seconds)
+    ? raw.disconnect_timer_seconds
+    : DEFAULT_ROOM_TIMER_SETTINGS.disconnectSeconds;
+  return getRoomTimerPresetId({ turnSeconds, autoPassSeconds, disconnectSeconds }) === 'standard'
+    ? DEFAULT_ROOM_TIMER_SETTINGS
+    : Object.freeze({ turnSeconds, autoPassSeconds, disconnectSeconds });
+}
+
+/**
+ * Name of the preset matching a room's timers, or null for custom timers
+ *
+ * @pure
+ */
+export function getRoomTimerPresetId(timers: RoomTimerSettings): RoomTimerPresetId | null {
+  for (const [id, preset] of Object.entries(ROOM_TIMER_PRESETS)) {
+    if (
+      preset.turnSeconds === timers.turnSeconds &&
+      preset.autoPassSeconds === timers.autoPassSeconds &&
+      preset.disconnectSeconds === timers.disconnectSeconds
+    ) {
+      return id as RoomTimerPresetId;
+    }
+  }
+  return null;
+}
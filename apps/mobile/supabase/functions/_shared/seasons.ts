@@ -0,0 +1,73 @@
+/**
+ * Seasons
+ *
+ * Ranked ELO (profiles.elo_rating) and the ranked and casual rank points
+ * (player_stats.ranked_rank_points / casual_rank_points) run in seasons. When
+ * a season ends, roll_over_season snapshots both leaderboards into
+ * season_leaderboard and soft-resets every rating: it keeps half its distance
+ * from the starting rating, so strong players start the next season ahead
+ * without carrying their whole lead. A player's tier at the end of a season
+ * is their reward for it, once they have played enough games that season.
+ * The database mirrors these numbers in season_soft_reset_rating and
+ * calculate_rank_from_elo.
+ *
+ * @module seasons
+ */
+
+export type RankTier =
+  | 'Bronze'
+  | 'Silver'
+  | 'Gold'
+  | 'Platinum'
+  | 'Diamond'
+  | 'Master'
+  | 'Grandmaster';
+
+/** Rating every player starts at, and that soft resets pull towards */
+export const SEASON_BASE_RATING = 1000;
+
+/** Games a player needs in a season to earn its reward */
+export const MIN_SEASON_GAMES_FOR_REWARD = 5;
+
+/** Lowest rating of each tier, highest tier first */
+export const RANK_TIER_THRESHOLDS: readonly { tier: RankTier; minRating: number }[] = [
+  { tier: 'Grandmaster', minRating: 2000 },
+  { tier: 'Master', minRating: 1800 },
+  { tier: 'Diamond', minRating: 1600 },
+  { tier: 'Platinum', minRating: 1400 },
+  { tier: 'Gold', minRating: 1200 },
+  { tier: 'Silver', minRating: 1000 },
+  { tier: 'Bronze', minRating: 0 },
+];
+
+/**
+ * Tier of a rating (ELO or rank points)
+ *
+ * @pure
+ */
+export function rankTierForRating(rating: number): RankTier {
+  for (const threshold of RANK_TIER_THRESHOLDS) {
+    if (rating >= threshold.minRating) return threshold.tier;
+  }
+  return 'Bronze';
+}
+
+/**
+ * Rating a player starts the next season with: half the distance from
+ * SEASON_BASE_RATING, truncated towards it, never below 0
+ *
+ * @pure
+ */
+export function softResetSeasonRating(rating: number): number {
+  return Math.max(0, SEASON_BASE_RATING + Math.trunc((rating - SEASON_BASE_RATING) / 2));
+}
+
+/**
+ * Reward tier for a finished season, or null if the player did not play
+ * MIN_SEASON_GAMES_FOR_REWARD games in it
+ *
+ * @pure
+ */
+export function seasonRewardTier(finalRating: number, seasonGames: number): RankTier | null {
+  return seasonGames >= MIN_SEASON_GAMES_FOR_REWARD ? rankTierForRating(finalRating) : null;
+}
@@ -0,0 +1,55 @@
+/**
+ * Spectators
+ *
+ * Anyone with a room's link, and friends of its players, can watch a game in
+ * progress. Spectators see what the players see of each other: card counts,
+ * the last play and the scores. A host can turn on delayed open hands for
+ * streamed games; the spectator view then trails the table by
+ * revealDelaySeconds with every hand face up. The delay is fixed before the
+ * game starts and enforced by the database (get_spectator_game_state), so a
+ * spectator never sees a hand as it is now.
+ *
+ * @module spectator
+ */
+
+export interface SpectatorSettings {
+  allowSpectators: boolean;
+  /** How far the open-hands view trails the game; null keeps hands hidden */
+  revealDelaySeconds: number | null;
+}
+
+export const MIN_SPECTATOR_REVEAL_DELAY_SECONDS = 30;
+export const MAX_SPECTATOR_REVEAL_DELAY_SECONDS = 600;
+
+/** Delays offered in the lobby */
+export const SPECTATOR_REVEAL_DELAY_OPTIONS: readonly number[] = [30, 60, 120, 300];
+
+export const DEFAULT_SPECTATOR_SETTINGS: SpectatorSettings = Object.freeze({
+  allowSpectators: true,
+  revealDelaySeconds: null,
+});
+
+export function isSpectatorRevealDelay(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= MIN_SPECTATOR_REVEAL_DELAY_SECONDS &&
+    (value as number) <= MAX_SPECTATOR_REVEAL_DELAY_SECONDS
+  );
+}
+
+/**
+ * Build valid SpectatorSettings from untrusted input (rooms.settings.spectators).
+ * Missing or invalid fields fall back to the defaults.
+ *
+ * @pure
+ */
+export function normalizeSpectatorSettings(input: unknown): SpectatorSettings {
+  if (!input || typeof input !== 'object') return DEFAULT_SPECTATOR_SETTINGS;
+  const raw = input as Partial<Record<keyof SpectatorSettings, unknown>>;
+  const allowSpectators = typeof raw.allowSpectators === 'boolean' ? raw.allowSpectators : true;
+  const revealDelaySeconds = isSpectatorRevealDelay(raw.revealDelaySeconds)
+    ? raw.revealDelaySeconds
+    : null;
+  if (allowSpectators && revealDelaySeconds === null) return DEFAULT_SPECTATOR_SETTINGS;
+  return Object.freeze({ allowSpectators, revealDelaySeconds });
+}
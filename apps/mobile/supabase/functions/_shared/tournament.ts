@@ -0,0 +1,270 @@
+/**
+ * Tournaments
+ *
+ * A tournament is played in rounds of tables of up to four entrants (empty
+ * seats are filled with bots). Entrants are seeded by rating when
+ * registration closes. Round 1, and every single-elimination round, is drawn
+ * by snake seeding so the strongest players are spread over the tables; later
+ * Swiss rounds seat players with similar standings together. The
+ * advance-tournament Edge Function draws the rounds and the client shows the
+ * same standings.
+ *
+ * @module tournament
+ */
+
+import { MAX_PLAYERS } from './gameEngine.ts';
+
+export type TournamentFormat = 'swiss' | 'single-elimination';
+
+export const TOURNAMENT_FORMATS: readonly TournamentFormat[] = ['swiss', 'single-elimination'];
+
+export const TOURNAMENT_TABLE_SIZE = MAX_PLAYERS;
+export const MIN_TOURNAMENT_ENTRANTS = 2;
+export const MAX_TOURNAMENT_ENTRANTS = 64;
+
+/** Tournament points for finishing 1st, 2nd, 3rd and 4th at a table */
+export const TOURNAMENT_PLACE_POINTS: readonly number[] = [3, 2, 1, 0];
+
+export function isTournamentFormat(value: unknown): value is TournamentFormat {
+  return TOURNAMENT_FORMATS.includes(value as TournamentFormat);
+}
+
+/** A registered player, before seeding */
+export interface TournamentRegistration {
+  userId: string;
+  rating: number;
+  registeredAt: string; // ISO timestamp, breaks rating ties (earlier first)
+}
+
+export interface TournamentEntrant {
+  userId: string;
+  seed: number; // 1 = highest rated
+}
+
+/** One finished (or forfeited) table */
+export interface TournamentTableResult {
+  round: number;
+  players: string[];
+  /** Finish position at the table by user id; players without one did not show */
+  positions: Record<string, number>;
+}
+
+export interface TournamentStanding {
+  userId: string;
+  seed: number;
+  rank: number;
+  points: number;
+  wins: number;
+  tablesPlayed: number;
+  /** Round a single-elimination entrant was knocked out in */
+  eliminatedRound: number | null;
+}
+
+/**
+ * Seed entrants by rating, highest first
+ *
+ * @pure
+ */
+export function seedTournamentEntrants(
+  registrations: readonly TournamentRegistration[]
+): TournamentEntrant[] {
+  return [...registrations]
+    .sort(
+      (a, b) =>
+        b.rating - a.rating ||
+        a.registeredAt.localeCompare(b.registeredAt) ||
+        a.userId.localeCompare(b.userId)
+    )
+    .map((registration, index) => ({ userId: registration.userId, seed: index + 1 }));
+}
+
+/**
+ * Split players into the fewest tables that seat them all, as evenly as
+ * possible
+ *
+ * @param players - Best first (by seed, or by standings)
+ * @param snake - Deal players out 1-2-3-3-2-1 across the tables instead of
+ *   seating consecutive players together
+ * @pure
+ */
+export function drawTournamentTables(players: readonly string[], snake: boolean): string[][] {
+  const tableCount = Math.ceil(players.length / TOURNAMENT_TABLE_SIZE);
+  const tables: string[][] = Array.from({ length: tableCount }, () => []);
+  if (snake) {
+    players.forEach((player, index) => {
+      const column = index % tableCount;
+      const forward = Math.floor(index / tableCount) % 2 === 0;
+      tables[forward ? column : tableCount - 1 - column].push(player);
+    });
+    return tables;
+  }
+
+  let next = 0;
+  tables.forEach((table, index) => {
+    const size =
+      Math.floor(players.length / tableCount) + (index < players.length % tableCount ? 1 : 0);
+    table.push(...players.slice(next, next + size));
+    next += size;
+  });
+  return tables;
+}
+
+/** Players that go through from a single-elimination table of this size */
+function getAdvancingCount(tableSize: number): number {
+  return Math.ceil(tableSize / 2);
+}
+
+/**
+ * Number of rounds a tournament plays
+ *
+ * Single elimination halves the field each round (the top half of every
+ * table goes through) until one table plays the final. Swiss plays
+ * ceil(log2(entrants)) rounds.
+ *
+ * @pure
+ */
+export function getTournamentRoundCount(format: TournamentFormat, entrantCount: number): number {
+  if (format === 'swiss') return Math.max(1, Math.ceil(Math.log2(Math.max(1, entrantCount))));
+
+  let remaining = entrantCount;
+  let rounds = 1;
+  while (remaining > TOURNAMENT_TABLE_SIZE) {
+    remaining = drawTournamentTables(Array.from({ length: remaining }, String), true).reduce(
+      (sum, table) => sum + getAdvancingCount(table.length),
+      0
+    );
+    rounds++;
+  }
+  return rounds;
+}
+
+/**
+ * A table's players in finishing order; no-shows come last, by seed
+ *
+ * @pure
+ */
+export function orderTournamentTable(
+  table: TournamentTableResult,
+  entrants: readonly TournamentEntrant[]
+): string[] {
+  const seedOf = (userId: string) =>
+    entrants.find(entrant => entrant.userId === userId)?.seed ?? Infinity;
+  const positionOf = (userId: string) => table.positions[userId] ?? Infinity;
+  return [...table.players].sort((a, b) => positionOf(a) - positionOf(b) || seedOf(a) - seedOf(b));
+}
+
+/**
+ * Players that go through from a single-elimination table: the top half of
+ * those who played
+ *
+ * @pure
+ */
+export function getAdvancingPlayers(
+  table: TournamentTableResult,
+  entrants: readonly TournamentEntrant[]
+): string[] {
+  return orderTournamentTable(table, entrants)
+    .slice(0, getAdvancingCount(table.players.length))
+    .filter(userId => table.positions[userId] !== undefined);
+}
+
+/**
+ * Standings after the given table results
+ *
+ * Swiss entrants are ranked by points, then wins, then seed. Single
+ * elimination ranks by the last round reached, then the place in that
+ * round's table, then points and seed; entrants who did not go through from a
+ * round before `roundCount` are marked eliminated in it.
+ *
+ * @pure
+ */
+export function computeTournamentStandings(
+  format: TournamentFormat,
+  entrants: readonly TournamentEntrant[],
+  results: readonly TournamentTableResult[],
+  roundCount: number
+): TournamentStanding[] {
+  const standings = new Map<string, TournamentStanding>(
+    entrants.map(entrant => [
+      entrant.userId,
+      {
+        userId: entrant.userId,
+        seed: entrant.seed,
+        rank: 0,
+        points: 0,
+        wins: 0,
+        tablesPlayed: 0,
+        eliminatedRound: null,
+      },
+    ])
+  );
+  const lastRound = new Map<string, number>();
+  const lastPlace = new Map<string, number>();
+
+  for (const table of [...results].sort((a, b) => a.round - b.round)) {
+    const order = orderTournamentTable(table, entrants);
+    const advancing =
+      format === 'single-elimination' && table.round < roundCount
+        ? getAdvancingPlayers(table, entrants)
+        : order;
+    order.forEach((userId, index) => {
+      const standing = standings.get(userId);
+      if (!standing) return;
+      const position = table.positions[userId];
+      if (position !== undefined) {
+        standing.points += TOURNAMENT_PLACE_POINTS[position - 1] ?? 0;
+        if (position === 1) standing.wins++;
+        standing.tablesPlayed++;
+      }
+      lastRound.set(userId, table.round);
+      lastPlace.set(userId, index);
+      if (format === 'single-elimination' && !advancing.includes(userId)) {
+        standing.eliminatedRound = table.round;
+      }
+    });
+  }
+
+  const ranked = [...standings.values()].sort((a, b) => {
+    if (format === 'single-elimination') {
+      const byRound = (lastRound.get(b.userId) ?? 0) - (lastRound.get(a.userId) ?? 0);
+      const byPlace = (lastPlace.get(a.userId) ?? Infinity) - (lastPlace.get(b.userId) ?? Infinity);
+      if (byRound || byPlace) return byRound || byPlace;
+    }
+    return b.points - a.points || b.wins - a.wins || a.seed - b.seed;
+  });
+  ranked.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+  return ranked;
+}
+
+/**
+ * Players of the round after `round`, best first, ready for
+ * drawTournamentTables
+ *
+ * Swiss keeps everyone, in standings order; single elimination takes the
+ * players who went through, in seed order.
+ *
+ * @pure
+ */
+export function getNextRoundPlayers(
+  format: TournamentFormat,
+  entrants: readonly TournamentEntrant[],
+  results: readonly TournamentTableResult[],
+  round: number
+): string[] {
+  if (format === 'swiss') {
+    return computeTournamentStandings(format, entrants, results, round + 1).map(
+      standing => standing.userId
+    );
+  }
+  const advancing = new Set(
+    results
+      .filter(table => table.round === round)
+      .flatMap(table => getAdvancingPlayers(table, entrants))
+  );
+  return entrants
+    .filter(entrant => advancing.has(entrant.userId))
+    .sort((a, b) => a.seed - b.seed)
+    .map(entrant => entrant.userId);
+}
@@ -0,0 +1,359 @@
+// deno-lint-ignore-file no-explicit-any
+/**
+ * Tournament rounds (shared)
+ *
+ * The database side of the tournament schedule, run by the
+ * advance-tournament Edge Function: closing registration, drawing a round
+ * into one private fill_with_bots room per table, forfeiting stale tables and
+ * moving on once a round is complete. Seeding, draws and standings come from
+ * tournament.ts.
+ *
+ * A round is created before it is claimed. Every table of the round gets its
+ * room and its tournament_tables row first; only then does the conditional
+ * update on tournaments (status / current_round) record the round as drawn.
+ * If a room cannot be created partway through, the claim is not made, and the
+ * next run draws the same round again (the draw is deterministic) and creates
+ * only the tables still missing. Overlapping runs (cron and complete-game)
+ * meet on UNIQUE (tournament_id, round, table_number) and on the claim, so a
+ * round is never drawn twice.
+ */
+
+import {
+  MIN_TOURNAMENT_ENTRANTS,
+  computeTournamentStandings,
+  drawTournamentTables,
+  getNextRoundPlayers,
+  getTournamentRoundCount,
+  seedTournamentEntrants,
+  type TournamentEntrant,
+  type TournamentFormat,
+  type TournamentTableResult,
+} from './tournament.ts';
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+export interface TournamentRow {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: 'registration' | 'running' | 'finished' | 'cancelled';
+  round_count: number | null;
+  current_round: number;
+  registration_closes_at: string;
+  check_in_minutes: number;
+  bot_difficulty: string;
+}
+
+interface TableRow {
+  id: string;
+  round: number;
+  table_number: number;
+  player_ids: string[];
+  room_id: string | null;
+  status: 'waiting' | 'playing' | 'finished' | 'forfeited';
+  positions: Record<string, number> | null;
+  check_in_closes_at: string;
+}
+
+async function loadEntrants(supabase: any, tournamentId: string): Promise<TournamentEntrant[]> {
+  const { data, error } = await supabase
+    .from('tournament_entries')
+    .select('user_id, seed')
+    .eq('tournament_id', tournamentId)
+    .not('seed', 'is', null);
+  if (error) throw new Error(`Failed to load entrants: ${error.message}`);
+  return (data ?? []).map((row: any) => ({ userId: row.user_id, seed: row.seed }));
+}
+
+/** Close a tournament table's room so nobody is left waiting in it */
+async function closeRoom(supabase: any, roomId: string): Promise<void> {
+  await supabase.from('rooms').update({ status: 'finished' }).eq('id', roomId);
+  await supabase.from('room_players').delete().eq('room_id', roomId);
+}
+
+/**
+ * Create a room for every table of the round that has none yet, and notify
+ * its players. Throws if any table could not be created, so the caller does
+ * not claim a round with missing tables.
+ */
+async function createRound(
+  supabase: any,
+  tournament: TournamentRow,
+  round: number,
+  tables: string[][]
+): Promise<void> {
+  const { data: existing, error: existingError } = await supabase
+    .from('tournament_tables')
+    .select('table_number')
+    .eq('tournament_id', tournament.id)
+    .eq('round', round);
+  if (existingError) throw new Error(`Failed to load tables: ${existingError.message}`);
+  const created = new Set((existing ?? []).map((row: any) => row.table_number as number));
+
+  const checkInClosesAt = new Date(Date.now() + tournament.check_in_minutes * 60_000).toISOString();
+  let createdNow = 0;
+
+  for (const [index, players] of tables.entries()) {
+    const tableNumber = index + 1;
+    if (created.has(tableNumber)) continue;
+
+    const { data: code, error: codeError } = await supabase.rpc('generate_room_code_v2');
+    if (codeError || !code) {
+      throw new Error(`Failed to generate room code: ${codeError?.message ?? 'no code'}`);
+    }
+
+    // host_id stays NULL: the first player to join becomes host (join_room_atomic)
+    const { data: room, error: roomError } = await supabase
+      .from('rooms')
+      .insert({
+        code,
+        host_id: null,
+        status: 'waiting',
+        max_players: 4,
+        fill_with_bots: true,
+        is_matchmaking: false,
+        is_public: false,
+        ranked_mode: false,
+        bot_difficulty: tournament.bot_difficulty,
+        settings: {
+          tournament: {
+            tournamentId: tournament.id,
+            name: tournament.name,
+            round,
+            table: tableNumber,
+            botDifficulty: tournament.bot_difficulty,
+          },
+        },
+      })
+      .select('id')
+      .single();
+    if (roomError || !room) {
+      throw new Error(`Failed to create room: ${roomError?.message ?? 'no room'}`);
+    }
+
+    const { error: tableError } = await supabase.from('tournament_tables').insert({
+      tournament_id: tournament.id,
+      round,
+      table_number: tableNumber,
+      player_ids: players,
+      room_id: room.id,
+      room_code: code,
+      check_in_closes_at: checkInClosesAt,
+    });
+    if (tableError) {
+      await supabase.from('rooms').delete().eq('id', room.id);
+      if (tableError.code !== UNIQUE_VIOLATION) {
+        throw new Error(`Failed to create table ${round}.${tableNumber}: ${tableError.message}`);
+      }
+      // Another run created this table first
+      console.warn(`⚠️ [advance-tournament] Table ${round}.${tableNumber} already created`);
+      continue;
+    }
+    createdNow++;
+
+    try {
+      await supabase.functions.invoke('send-push-notification', {
+        body: {
+          user_ids: players,
+          title: '🏆 Your table is ready',
+          body: `${tournament.name}: round ${round}, table ${tableNumber}. Join room ${code}!`,
+          data: {
+            type: 'tournament_table_ready',
+            roomCode: code,
+            room_id: room.id,
+            tournament_id: tournament.id,
+          },
+          sound: 'default',
+          badge: 1,
+        },
+      });
+    } catch (notifError) {
+      console.warn(
+        '⚠️ [advance-tournament] Failed to notify table players (non-critical):',
+        notifError
+      );
+    }
+  }
+  console.log(
+    `🏆 [advance-tournament] ${tournament.id}: round ${round} tables ready (${createdNow} of ${tables.length} created now)`
+  );
+}
+
+/** Close registration, seed the entrants and draw round 1 */
+export async function startTournament(supabase: any, tournament: TournamentRow): Promise<string> {
+  if (new Date(tournament.registration_closes_at).getTime() > Date.now()) {
+    return 'registration open';
+  }
+
+  const { data: entries, error } = await supabase
+    .from('tournament_entries')
+    .select('user_id, elo_rating, registered_at')
+    .eq('tournament_id', tournament.id);
+  if (error) throw new Error(`Failed to load entries: ${error.message}`);
+
+  const seeded = seedTournamentEntrants(
+    (entries ?? []).map((entry: any) => ({
+      userId: entry.user_id,
+      rating: entry.elo_rating,
+      registeredAt: entry.registered_at,
+    }))
+  );
+
+  if (seeded.length < MIN_TOURNAMENT_ENTRANTS) {
+    const { data: cancelled } = await supabase
+      .from('tournaments')
+      .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+      .eq('id', tournament.id)
+      .eq('status', 'registration')
+      .select('id');
+    return cancelled?.length ? 'cancelled (not enough entrants)' : 'already started';
+  }
+
+  // Seeds are the same on every run (registration is closed), so writing
+  // them again after a failed attempt is harmless
+  for (const entrant of seeded) {
+    await supabase
+      .from('tournament_entries')
+      .update({ seed: entrant.seed })
+      .eq('tournament_id', tournament.id)
+      .eq('user_id', entrant.userId);
+  }
+
+  const roundCount = getTournamentRoundCount(tournament.format, seeded.length);
+  await createRound(
+    supabase,
+    { ...tournament, status: 'running', round_count: roundCount, current_round: 1 },
+    1,
+    drawTournamentTables(
+      seeded.map(entrant => entrant.userId),
+      true
+    )
+  );
+
+  // Every table exists: claim the start; a concurrent run that got here first wins
+  const { data: claimed } = await supabase
+    .from('tournaments')
+    .update({
+      status: 'running',
+      started_at: new Date().toISOString(),
+      round_count: roundCount,
+      current_round: 1,
+    })
+    .eq('id', tournament.id)
+    .eq('status', 'registration')
+    .select('id');
+  if (!claimed?.length) return 'already started';
+  return `started with ${seeded.length} entrants`;
+}
+
+/** Forfeit stale tables, then move on once the round is complete */
+export async function advanceRunningTournament(
+  supabase: any,
+  tournament: TournamentRow
+): Promise<string> {
+  const entrants = await loadEntrants(supabase, tournament.id);
+  const seedOf = (userId: string) =>
+    entrants.find(entrant => entrant.userId === userId)?.seed ?? Infinity;
+
+  const { data: tableRows, error } = await supabase
+    .from('tournament_tables')
+    .select('id, round, table_number, player_ids, room_id, status, positions, check_in_closes_at')
+    .eq('tournament_id', tournament.id);
+  if (error) throw new Error(`Failed to load tables: ${error.message}`);
+  const tables: TableRow[] = tableRows ?? [];
+  const now = Date.now();
+
+  for (const table of tables.filter(t => t.round === tournament.current_round)) {
+    const checkInOver = new Date(table.check_in_closes_at).getTime() <= now;
+    const roomGone = table.status === 'playing' && !table.room_id;
+    if (!(table.status === 'waiting' && checkInOver) && !roomGone) continue;
+
+    let present: string[] = [];
+    if (table.room_id && table.status === 'waiting') {
+      const { data: roomPlayers } = await supabase
+        .from('room_players')
+        .select('user_id')
+        .eq('room_id', table.room_id)
+        .eq('is_bot', false);
+      present = (roomPlayers ?? [])
+        .map((row: any) => row.user_id as string)
+        .filter((userId: string) => table.player_ids.includes(userId))
+        .sort((a: string, b: string) => seedOf(a) - seedOf(b));
+    }
+    const positions = Object.fromEntries(present.map((userId, index) => [userId, index + 1]));
+
+    const { data: forfeited } = await supabase
+      .from('tournament_tables')
+      .update({ status: 'forfeited', positions, finished_at: new Date().toISOString() })
+      .eq('id', table.id)
+      .eq('status', table.status)
+      .select('id');
+    if (!forfeited?.length) continue;
+    if (table.room_id) await closeRoom(supabase, table.room_id);
+    table.status = 'forfeited';
+    table.positions = positions;
+    console.log(
+      `⏰ [advance-tournament] Table ${table.round}.${table.table_number} forfeited (${present.length} present)`
+    );
+  }
+
+  const round = tables.filter(t => t.round === tournament.current_round);
+  if (round.length === 0 || round.some(t => t.status === 'waiting' || t.status === 'playing')) {
+    return `round ${tournament.current_round} in progress`;
+  }
+
+  const results: TournamentTableResult[] = tables
+    .filter(
+      t =>
+        t.round <= tournament.current_round && (t.status === 'finished' || t.status === 'forfeited')
+    )
+    .map(t => ({ round: t.round, players: t.player_ids, positions: t.positions ?? {} }));
+  const roundCount = tournament.round_count ?? tournament.current_round;
+  const standings = computeTournamentStandings(tournament.format, entrants, results, roundCount);
+  const nextPlayers =
+    tournament.current_round < roundCount
+      ? getNextRoundPlayers(tournament.format, entrants, results, tournament.current_round)
+      : [];
+  const finished = nextPlayers.length < MIN_TOURNAMENT_ENTRANTS;
+  const nextRound = tournament.current_round + 1;
+
+  if (!finished) {
+    await createRound(
+      supabase,
+      { ...tournament, current_round: nextRound },
+      nextRound,
+      // Single elimination re-seeds every round; later Swiss rounds seat players by standings
+      drawTournamentTables(nextPlayers, tournament.format === 'single-elimination')
+    );
+  }
+
+  // Every table of the next round exists: claim it; a concurrent run that got here first wins
+  const { data: claimed } = await supabase
+    .from('tournaments')
+    .update(
+      finished
+        ? { status: 'finished', finished_at: new Date().toISOString() }
+        : { current_round: nextRound }
+    )
+    .eq('id', tournament.id)
+    .eq('status', 'running')
+    .eq('current_round', tournament.current_round)
+    .select('id');
+  if (!claimed?.length) return 'already advanced';
+
+  for (const standing of standings) {
+    await supabase
+      .from('tournament_entries')
+      .update({
+        points: standing.points,
+        wins: standing.wins,
+        eliminated_round: standing.eliminatedRound,
+        final_rank: finished ? standing.rank : null,
+      })
+      .eq('tournament_id', tournament.id)
+      .eq('user_id', standing.userId);
+  }
+
+  return finished ? 'finished' : `round ${nextRound} drawn`;
+}
@@ -0,0 +1,148 @@
+// deno-lint-ignore-file no-explicit-any
+/**
+ * advance-tournament Edge Function
+ *
+ * Runs the tournament schedule (tables in 20260801000009_tournaments.sql):
+ *   - Closes registration when the window ends: seeds the entrants by
+ *     elo_rating and draws round 1. Fewer than two entrants cancels it.
+ *   - Creates a private fill_with_bots room for every table of a round and
+ *     tells its players through send-push-notification ('tournament_table_ready').
+ *   - Forfeits tables still waiting when check-in closes (players in the room
+ *     are placed ahead of the no-shows), and tables whose room was deleted.
+ *   - Once every table of the round has a result, updates the standings and
+ *     draws the next round, or finishes the tournament with final ranks.
+ *
+ * Seeding, draws and standings come from the shared tournament module
+ * (_shared/tournament.ts), so the bracket screen shows the standings this
+ * function advances on. The rounds themselves are run by
+ * _shared/tournamentRounds.ts: a round's tables are all created before the
+ * round is claimed, so a failure partway through is completed by the next
+ * run, and overlapping runs (cron and complete-game) cannot draw a round twice.
+ *
+ * Invocation: POST every minute from pg_cron, and from complete-game as soon
+ * as a tournament table finishes (body: { tournament_id }).
+ *
+ * AUTH:
+ *   - `Authorization: Bearer <CRON_SECRET>` (pg_cron), or
+ *   - `Authorization: Bearer <SUPABASE_SERVICE_ROLE_KEY>` (other Edge Functions).
+ */
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { checkMinimumVersion } from '../_shared/versionCheck.ts';
+import { buildCorsHeaders } from '../_shared/cors.ts';
+import {
+  advanceRunningTournament,
+  startTournament,
+  type TournamentRow,
+} from '../_shared/tournamentRounds.ts';
+
+const corsHeaders = buildCorsHeaders();
+
+// ==================== HELPERS ====================
+
+/**
+ * Constant-time string comparison to prevent timing-based secret leakage.
+ * Always iterates over full length regardless of where a mismatch occurs.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = new TextEncoder().encode(a);
+  const bBytes = new TextEncoder().encode(b);
+  if (aBytes.length !== bBytes.length) {
+    let diff = 0;
+    for (let i = 0; i < aBytes.length; i++) {
+      diff |= aBytes[i] ^ 0;
+    }
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ bBytes[i];
+  }
+  return diff === 0;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ==================== MAIN HANDLER ====================
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Invoked by pg_cron and other Edge Functions, which send no x-app-version header
+  const versionError = checkMinimumVersion(req, corsHeaders, true);
+  if (versionError) return versionError;
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed. Use POST.' }, 405);
+  }
+
+  try {
+    const cronSecret = Deno.env.get('CRON_SECRET') ?? '';
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) {
+      console.error('❌ [advance-tournament] Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+      return json({ success: false, error: 'Server configuration error.' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization') ?? '';
+    const provided = authHeader.startsWith('Bearer ')
+      ? authHeader.slice('Bearer '.length).trim()
+      : '';
+    const authorized =
+      provided !== '' &&
+      ((cronSecret !== '' && timingSafeEqual(provided, cronSecret)) ||
+        timingSafeEqual(provided, serviceRoleKey));
+    if (!authorized) {
+      console.warn('⚠️ [advance-tournament] Unauthorized request');
+      return json({ success: false, error: 'Unauthorized.' }, 401);
+    }
+
+    let tournamentId: string | null = null;
+    try {
+      const body = await req.json();
+      if (typeof body?.tournament_id === 'string') tournamentId = body.tournament_id;
+    } catch {
+      // Empty body: advance every active tournament
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    let query = supabase
+      .from('tournaments')
+      .select(
+        'id, name, format, status, round_count, current_round, registration_closes_at, check_in_minutes, bot_difficulty'
+      )
+      .in('status', ['registration', 'running']);
+    if (tournamentId) query = query.eq('id', tournamentId);
+    const { data: tournaments, error } = await query;
+    if (error) {
+      console.error('❌ [advance-tournament] Failed to load tournaments:', error);
+      return json({ success: false, error: error.message }, 500);
+    }
+
+    const results: Record<string, string> = {};
+    for (const tournament of (tournaments ?? []) as TournamentRow[]) {
+      try {
+        results[tournament.id] =
+          tournament.status === 'registration'
+            ? await startTournament(supabase, tournament)
+            : await advanceRunningTournament(supabase, tournament);
+      } catch (tournamentError: any) {
+        // One broken tournament must not hold up the others
+        console.error(`💥 [advance-tournament] ${tournament.id}:`, tournamentError);
+        results[tournament.id] = `error: ${tournamentError.message ?? 'unknown'}`;
+      }
+    }
+
+    return json({ success: true, results });
+  } catch (error: any) {
+    console.error('💥 [advance-tournament] Error:', error);
+    return json({ success: false, error: error.message || 'Unknown error' }, 500);
+  }
+});
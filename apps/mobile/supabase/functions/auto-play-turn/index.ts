@@ -2,11 +2,12 @@
 /**
  * Auto-Play Turn Edge Function
  *
- * Called when a player's turn countdown expires (60s without action).
+ * Called when a player's turn countdown expires (the room's turn timer,
+ * rooms.settings.turn_timer_seconds — 60s by default — without action).
  * Auto-plays the highest valid cards OR passes if no valid play.
  *
  * Flow:
- * 1. Verify turn_started_at + 60s has elapsed
+ * 1. Verify turn_started_at + the room's turn timer has elapsed
  * 2. Use BotAI (hard difficulty = aggressive, highest cards) to find best play
  * 3. Call play-cards or player-pass internally
  * 4. Return auto-played cards to show in "I'm Still Here?" modal
@@ -18,12 +19,12 @@ import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { BotAI } from '../_shared/botAI.ts';
 import { parseCards } from '../_shared/parseCards.ts';
 import { checkRateLimit, rateLimitResponse } from '../_shared/rateLimiter.ts';
-import type { Card } from '../_shared/gameEngine.ts';
+import { normalizeRuleSet, type Card } from '../_shared/gameEngine.ts';
+import { normalizeRoomTimerSettings } from '../_shared/roomTimers.ts';
 import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 // M12: CORS origin controlled by ALLOWED_ORIGIN env var
 import { buildCorsHeaders } from '../_shared/cors.ts';
 
-const TURN_TIMEOUT_MS = 60_000; // 60 seconds
 const AUTO_PLAY_RATE_LIMIT_MAX = 5;
 const AUTO_PLAY_RATE_LIMIT_WINDOW = 60; // seconds
 
@@ -143,7 +144,7 @@ Deno.serve(async (req) => {
     // a single HTTP request, reducing latency under load from O(3) to O(1).
     const { data: room, error: roomError } = await supabaseClient
       .from('rooms')
-      .select('id, code, game_state(*), room_players(*)')
+      .select('id, code, settings, game_state(*), room_players(*)')
       .eq('code', room_code)
       .single();
 
@@ -215,7 +216,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    // ── Check if 60s timeout has elapsed ──
+    // ── Check if the room's turn timeout has elapsed ──
     const turnStartedAt = gameState.turn_started_at;
     if (!turnStartedAt) {
       return new Response(
@@ -228,13 +229,14 @@ Deno.serve(async (req) => {
     const now = Date.now();
     const elapsed = now - startTime;
 
-    if (elapsed < TURN_TIMEOUT_MS) {
+    const turnTimeoutSeconds = normalizeRoomTimerSettings(room.settings).turnSeconds;
+    if (elapsed < turnTimeoutSeconds * 1000) {
       return new Response(
         JSON.stringify({ 
           success: false, 
           action: 'timeout_not_reached',
           seconds_elapsed: Math.floor(elapsed / 1000),
-          error: `Timeout not reached (${Math.floor(elapsed / 1000)}s / 60s)` 
+          error: `Timeout not reached (${Math.floor(elapsed / 1000)}s / ${turnTimeoutSeconds}s)` 
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
       );
@@ -330,7 +332,7 @@ Deno.serve(async (req) => {
     // ─────────────────────────────────────────────────────────────────────────
 
     // ── Use BotAI to find best play (hard difficulty = highest cards) ──
-    const hand = parseCards(gameState.hands[currentPlayer.player_index.toString()] || []);
+    const hand = parseCards(gameState.hands[currentPlayer.player_index.toString()] || []) as Card[];
     const lastPlay = gameState.last_play;
     const isFirstPlayOfGame = gameState.game_phase === 'first_play';
     const playerCardCounts = players.map(p => {
@@ -347,6 +349,7 @@ Deno.serve(async (req) => {
       hand,
       lastPlay,
       isFirstPlayOfGame,
+      ruleSet: normalizeRuleSet(room.settings?.rule_set),
     });
 
     // ── Execute the play ──
@@ -385,7 +388,7 @@ Deno.serve(async (req) => {
       }
 
       // Always replace the inactive player with a bot (65s spec):
-      // 60s inactivity → auto-play fires → immediate bot replacement.
+      // Turn timer inactivity → auto-play fires → immediate bot replacement.
       // Connected-but-AFK players reclaim their seat via the RejoinModal.
       const replacedPass = await replacePlayerWithBot(supabaseClient, currentPlayer, room.id);
 
@@ -446,7 +449,7 @@ Deno.serve(async (req) => {
       }
 
       // Always replace the inactive player with a bot (65s spec):
-      // 60s inactivity → auto-play fires → immediate bot replacement.
+      // Turn timer inactivity → auto-play fires → immediate bot replacement.
       // Connected-but-AFK players reclaim their seat via the RejoinModal.
       const replacedPlay = await replacePlayerWithBot(supabaseClient, currentPlayer, room.id);
 
@@ -19,8 +19,10 @@
 
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { BotAI, type BotDifficulty } from '../_shared/botAI.ts';
+import { isBotPersonality } from '../_shared/botPersonality.ts';
 import { parseCards } from '../_shared/parseCards.ts';
-import type { Card } from '../_shared/gameEngine.ts';
+import { normalizeRuleSet, type Card } from '../_shared/gameEngine.ts';
+import { getNextSeat, getSeatCount, getTurnOrder } from '../_shared/roomTable.ts';
 import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 // M12: CORS origin controlled by ALLOWED_ORIGIN env var
 import { buildCorsHeaders } from '../_shared/cors.ts';
@@ -87,6 +89,7 @@ interface RoomPlayer {
   player_index: number;
   is_bot: boolean;
   bot_difficulty: BotDifficulty | null;
+  bot_personality: string | null;
   room_id: string;
   [key: string]: any;
 }
@@ -330,7 +333,7 @@ Deno.serve(async (req) => {
     // 1. Get room
     const { data: room, error: roomError } = await supabaseClient
       .from('rooms')
-      .select('id, code, status')
+      .select('id, code, status, settings')
       .eq('code', room_code)
       .single();
 
@@ -538,7 +541,7 @@ Deno.serve(async (req) => {
           break;
         }
 
-        console.log(`🤖 [bot-coordinator] Bot turn: ${currentPlayer.username} (index ${currentPlayer.player_index}, difficulty ${currentPlayer.bot_difficulty || 'medium'})`);
+        console.log(`🤖 [bot-coordinator] Bot turn: ${currentPlayer.username} (index ${currentPlayer.player_index}, difficulty ${currentPlayer.bot_difficulty || 'medium'}, personality ${currentPlayer.bot_personality || 'balanced'})`);
 
         // Get bot's hand
         const botHandRaw = gs.hands?.[currentPlayer.player_index] || [];
@@ -550,15 +553,16 @@ Deno.serve(async (req) => {
           break;
         }
 
-        // Build player card counts for BotAI
+        // Build player card counts for BotAI, one per seat dealt (2 to 4)
+        const seatCount = getSeatCount(gs.hands);
         const playerCardCounts: number[] = [];
-        for (let i = 0; i < 4; i++) {
+        for (let i = 0; i < seatCount; i++) {
           const handRaw = gs.hands?.[i] || [];
           playerCardCounts.push(Array.isArray(handRaw) ? handRaw.length : 0);
         }
 
-        // Calculate next player index (counterclockwise: 0→1→2→3→0)
-        const nextPlayerIndex = (currentPlayer.player_index + 1) % 4;
+        // Calculate next player index (counterclockwise: 0→1→…→n-1→0)
+        const nextPlayerIndex = getNextSeat(currentPlayer.player_index, seatCount);
 
         // Parse last play
         const lastPlay = gs.last_play || null;
@@ -606,9 +610,18 @@ Deno.serve(async (req) => {
         }
         // ────────────────────────────────────────────────────────────────────────
 
-        // Create BotAI and make decision
+        // Create BotAI and make decision (house rules live in rooms.settings.rule_set)
+        const ruleSet = normalizeRuleSet(room.settings?.rule_set);
         const difficulty: BotDifficulty = (currentPlayer.bot_difficulty as BotDifficulty) || 'medium';
         const botAI = new BotAI(difficulty);
+        // Expert bots count cards and read the passes on the current trick (only
+        // the pass count is stored: the seats after the last play passed on it)
+        const passes = lastPlay
+          ? Array.from({ length: gs.passes || 0 }, (_, i) => ({
+              seat: (lastPlay.player_index + i + 1) % seatCount,
+              play: parseCards(lastPlay.cards) as Card[],
+            }))
+          : [];
         const decision = forcePass
           ? { cards: null, reasoning: 'Auto-pass timer expired — forced pass' }
           : botAI.getPlay({
@@ -619,6 +632,13 @@ Deno.serve(async (req) => {
               playerCardCounts,
               currentPlayerIndex: currentPlayer.player_index,
               nextPlayerIndex,
+              ruleSet,
+              playedCards: parseCards(playedCards) as Card[],
+              passes,
+              turnOrder: getTurnOrder(seatCount),
+              personality: isBotPersonality(currentPlayer.bot_personality)
+                ? currentPlayer.bot_personality
+                : undefined,
             });
 
         console.log(`[bot-coordinator] 🎯 Bot decision: ${decision.cards ? `play ${decision.cards.length} cards` : 'pass'} — ${decision.reasoning}`);
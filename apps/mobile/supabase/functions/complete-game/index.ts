@@ -3,6 +3,24 @@ import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 // M12: CORS origin controlled by ALLOWED_ORIGIN env var
 import { buildCorsHeaders } from '../_shared/cors.ts';
+import {
+  DEFAULT_DEAL_VARIANT,
+  MAX_HAND_SIZE,
+  normalizeScoringConfig,
+  normalizeRuleSet,
+  isDealSeed,
+  isDealVariant,
+  isPlayerCount,
+  verifyDealSeed,
+} from '../_shared/gameEngine.ts';
+import { normalizeRoomTable } from '../_shared/roomTable.ts';
+import {
+  DEFAULT_GLICKO2_RATING,
+  glicko2IdlePeriods,
+  rateRankedGame,
+  type Glicko2Rating,
+  type RankedGamePlayer,
+} from '../_shared/glicko2.ts';
 
 // H7 Fix: LiveKit env vars for room cleanup after game completion
 const LIVEKIT_API_KEY    = Deno.env.get('LIVEKIT_API_KEY')    ?? '';
@@ -13,7 +31,7 @@ interface GameCompletionRequest {
   room_id: string | null; // Must be valid UUID or null for local games
   room_code: string;
   game_type: 'casual' | 'ranked' | 'private'; // Game mode
-  /** Difficulty of bot players in this game, if any (e.g. 'easy'|'medium'|'hard'). null for human-only games. */
+  /** Difficulty of bot players in this game, if any (e.g. 'easy'|'medium'|'hard'|'expert'). null for human-only games. */
   bot_difficulty?: string | null;
   players: {
     user_id: string;
@@ -41,6 +59,22 @@ interface GameCompletionRequest {
   started_at: string;
   finished_at: string;
   game_completed: boolean; // Whether game reached natural conclusion (no forfeit)
+  /** Scoring config the game was played with. Only trusted for local games (room_id null);
+   *  room games always use rooms.settings.scoring. */
+  scoring?: unknown;
+  /** House rules of a local game. Room games use rooms.settings.rule_set. */
+  rule_set?: unknown;
+  /** Seat-indexed points per match of a local game. Room games use game_state.scores_history. */
+  match_scores?: unknown;
+  /** How a local game of two or three was dealt. Room games use rooms.settings.deal_variant. */
+  deal_variant?: unknown;
+  /** Seed a local game was dealt from and its hash. Room games use game_deal_seeds. */
+  deal_seed?: string | null;
+  deal_seed_hash?: string | null;
+  /** Moves of a local game for its replay. Room games use game_state.play_history. */
+  play_history?: unknown;
+  /** Move-analysis accuracy (0–100) of the human player of a local game */
+  accuracy?: unknown;
   // NOTE: voided_player_id is intentionally NOT accepted from the client.
   // The server deterministically computes who was the last human to leave by
   // sorting on COALESCE(room_players.disconnect_timer_started_at, disconnected_at) DESC
@@ -130,6 +164,58 @@ async function deleteLiveKitRoom(roomName: string): Promise<void> {
   }
 }
 
+// ─── Helper: play history kept for replays ──────────────────────────────────
+/** Upper bound on stored moves (a long, pass-heavy game stays far below this). */
+const MAX_REPLAY_ENTRIES = 5000;
+
+/**
+ * Keep only well-formed { match_number, position, cards, combo_type, passed }
+ * entries of a play history (positions are seats 0 to playerCount - 1).
+ * Returns null when nothing usable is left.
+ */
+function sanitizePlayHistory(raw: unknown, playerCount: number): Record<string, unknown>[] | null {
+  if (!Array.isArray(raw)) return null;
+  const entries = raw
+    .slice(0, MAX_REPLAY_ENTRIES)
+    .filter((entry: any) =>
+      entry &&
+      Number.isInteger(entry.match_number) &&
+      Number.isInteger(entry.position) &&
+      entry.position >= 0 && entry.position < playerCount &&
+      Array.isArray(entry.cards) &&
+      entry.cards.length <= MAX_HAND_SIZE
+    )
+    .map((entry: any) => ({
+      match_number: entry.match_number,
+      position: entry.position,
+      cards: entry.cards
+        .filter((card: any) => card && typeof card.id === 'string')
+        .map((card: any) => ({ id: card.id, rank: card.rank, suit: card.suit })),
+      combo_type: String(entry.combo_type ?? ''),
+      passed: entry.passed === true,
+    }));
+  return entries.length > 0 ? entries : null;
+}
+
+/**
+ * Keep seat-indexed points per match only if every row has one number per seat.
+ * Returns null otherwise (the game record then has no per-match scores).
+ */
+function sanitizeMatchScores(raw: unknown, playerCount: number): number[][] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_REPLAY_ENTRIES) return null;
+  const valid = raw.every((row: unknown) =>
+    Array.isArray(row) &&
+    row.length === playerCount &&
+    row.every((points: unknown) => typeof points === 'number' && Number.isFinite(points))
+  );
+  return valid ? (raw as number[][]) : null;
+}
+
+/** An integer percentage, or null */
+function sanitizeAccuracy(raw: unknown): number | null {
+  return typeof raw === 'number' && Number.isInteger(raw) && raw >= 0 && raw <= 100 ? raw : null;
+}
+
 // ─── Helper: broadcast game_ended to all room clients ────────────────────────
 // Called from both the normal path (Step 5) and the dedup/23505 short-circuit
 // paths so clients are never left waiting for a game_ended event even when the
@@ -148,12 +234,13 @@ async function deleteLiveKitRoom(roomName: string): Promise<void> {
 // HTTP response.
 async function broadcastGameEnded(
   client: ReturnType<typeof createClient>,
-  gameData: { room_id?: string | null; room_code?: string; winner_id: string; players: Array<{ user_id: string; username: string; score: number; finish_position: number }> }
+  gameData: { room_id?: string | null; room_code?: string; winner_id: string; scoring?: unknown; players: Array<{ user_id: string; username: string; score: number; finish_position: number }> }
 ): Promise<void> {
   if (!gameData.room_id) return;
   try {
+    const { targetScore } = normalizeScoringConfig(gameData.scoring);
     const winnerPlayer = gameData.players.find(p => p.user_id === gameData.winner_id);
-    // Sort by finish_position (already validated as 1–4, unique, winner=1) so the
+    // Sort by finish_position (already validated as 1–n, unique, winner=1) so the
     // finalScores array is in finish order for display purposes.
     // Use p.finish_position as the single source of truth for both finish_position
     // and rank — avoids the mismatch that arose when finish_position was derived
@@ -170,7 +257,7 @@ async function broadcastGameEnded(
       .map((p, i) => ({
         // player_index is the original seat/array index so it aligns with
         // game_winner_index (which also uses the original players array).
-        // Fallback to i (finish-order position, always 0-3) instead of -1
+        // Fallback to i (finish-order position, always a valid seat) instead of -1
         // to avoid emitting an out-of-range index that breaks client seat
         // assumptions when the userIdToIndex lookup unexpectedly misses.
         player_index: userIdToIndex.get(p.user_id) ?? i,
@@ -179,12 +266,12 @@ async function broadcastGameEnded(
         points_added: 0,
         finish_position: p.finish_position, // single source of truth: validated by Step 1
         rank: p.finish_position,             // same field; kept for backwards-compat payload shape
-        is_busted: p.score >= 101,
+        is_busted: p.score >= targetScore,
       }));
     const broadcastPayload = {
       game_winner_name: winnerPlayer?.username || 'Unknown',
       // Fallback to finalScores[0]?.player_index (winner is first after sort
-      // by finish_position ascending) instead of -1 to keep index in range 0-3.
+      // by finish_position ascending) instead of -1 to keep index in range.
       game_winner_index: userIdToIndex.get(gameData.winner_id) ?? finalScores[0]?.player_index ?? 0,
       final_scores: finalScores,
       room_code: gameData.room_code,
@@ -322,10 +409,11 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Validate game data integrity
-    if (gameData.players.length !== 4) {
+    // Validate game data integrity: two to four players, one per seat
+    const playerCount = gameData.players.length;
+    if (!isPlayerCount(playerCount)) {
       return new Response(
-        JSON.stringify({ error: 'Invalid game: must have 4 players' }),
+        JSON.stringify({ error: 'Invalid game: must have 2 to 4 players' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -339,9 +427,10 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Verify finish positions are valid (1-4, no duplicates)
+    // Verify finish positions are valid (1 to playerCount, no duplicates)
     const positions = gameData.players.map(p => p.finish_position).sort();
-    if (positions.join(',') !== '1,2,3,4') {
+    const expectedPositions = Array.from({ length: playerCount }, (_, i) => i + 1);
+    if (positions.join(',') !== expectedPositions.join(',')) {
       return new Response(
         JSON.stringify({ error: 'Invalid finish positions' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -372,6 +461,42 @@ Deno.serve(async (req) => {
       }
     }
 
+    // ============================================================================
+    // STEP 2a: RESOLVE SCORING CONFIG AND HOUSE RULES
+    // ============================================================================
+    // Room games use the host's rooms.settings (server-authoritative, like
+    // bot_difficulty in Step 3); local games report the config they were played with.
+    // Tournament rooms also carry their table (see STEP 3c).
+    // The deal variant only matters at a table of two or three.
+    let tournamentId: string | null = null;
+    let dealVariant = isDealVariant(gameData.deal_variant) ? gameData.deal_variant : DEFAULT_DEAL_VARIANT;
+    if (gameData.room_id) {
+      const { data: roomRow, error: roomSettingsError } = await supabaseAdmin
+        .from('rooms')
+        .select('settings, max_players')
+        .eq('id', gameData.room_id)
+        .maybeSingle();
+      if (roomSettingsError) {
+        console.warn('[Complete Game] Failed to read room scoring config — using defaults:', roomSettingsError.message);
+      }
+      gameData.scoring = roomRow?.settings?.scoring ?? null;
+      gameData.rule_set = roomRow?.settings?.rule_set ?? null;
+      tournamentId = roomRow?.settings?.tournament?.tournamentId ?? null;
+      if (roomRow) {
+        const table = normalizeRoomTable(roomRow.max_players, roomRow.settings);
+        if (table.playerCount !== playerCount) {
+          return new Response(
+            JSON.stringify({ error: `Invalid game: the room seats ${table.playerCount} players` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        dealVariant = table.dealVariant;
+      }
+    }
+    const scoring = normalizeScoringConfig(gameData.scoring);
+    gameData.scoring = scoring;
+    const ruleSet = normalizeRuleSet(gameData.rule_set);
+
     // ============================================================================
     // STEP 2b: DEDUPLICATION GUARD — only ONE client should record per game
     // ============================================================================
@@ -515,6 +640,81 @@ Deno.serve(async (req) => {
       }
     }
 
+    // ============================================================================
+    // STEP 2c: RESOLVE DEAL SEED (reveal once the game is over) AND PLAY HISTORY
+    // ============================================================================
+    // Room games: the secret seed lives in game_deal_seeds; its hash was published
+    // in game_state.deal_seed_hash before the first deal. Reveal it now, except at
+    // duplicate tables, whose shared seed stays hidden until every table finished.
+    // Local games: record the client's seed only if it matches its hash.
+    // The play history and per-match points (room: game_state, local: payload)
+    // are kept for replays and game records, and a local game's move-analysis
+    // accuracy for the match history.
+    let dealSeed: string | null = null;
+    let dealSeedHash: string | null = null;
+    let seatRotation: number | null = null;
+    let duplicateGroupId: string | null = null;
+    let matchScores: number[][] | null = null;
+    let playHistory: Record<string, unknown>[] | null = null;
+    let accuracy: number | null = null;
+
+    if (gameData.room_id) {
+      const [seedResult, stateResult] = await Promise.all([
+        supabaseAdmin
+          .from('game_deal_seeds')
+          .select('seed, seed_hash, seat_rotation, duplicate_group_id')
+          .eq('room_id', gameData.room_id)
+          .maybeSingle(),
+        supabaseAdmin
+          .from('game_state')
+          .select('scores_history, play_history')
+          .eq('room_id', gameData.room_id)
+          .maybeSingle(),
+      ]);
+      if (seedResult.error) {
+        console.warn('[Complete Game] Failed to read deal seed (not revealed):', seedResult.error.message);
+      }
+      const seedRow = seedResult.data;
+      if (seedRow) {
+        dealSeedHash = seedRow.seed_hash;
+        seatRotation = seedRow.seat_rotation;
+        duplicateGroupId = seedRow.duplicate_group_id;
+        if (!duplicateGroupId) {
+          dealSeed = seedRow.seed;
+          const { error: revealError } = await supabaseAdmin
+            .from('game_state')
+            .update({ deal_seed: dealSeed })
+            .eq('room_id', gameData.room_id);
+          if (revealError) {
+            console.warn('[Complete Game] Failed to reveal deal seed in game_state:', revealError.message);
+          }
+        }
+      }
+
+      // Seat-indexed points per match (duplicate comparison)
+      const history = stateResult.data?.scores_history;
+      if (Array.isArray(history)) {
+        matchScores = history.map((entry: { scores?: { player_index: number; matchScore: number }[] }) => {
+          const row: number[] = new Array(playerCount).fill(0);
+          for (const score of entry.scores ?? []) row[score.player_index] = score.matchScore;
+          return row;
+        });
+      }
+      playHistory = sanitizePlayHistory(stateResult.data?.play_history, playerCount);
+    } else {
+      if (
+        isDealSeed(gameData.deal_seed) &&
+        typeof gameData.deal_seed_hash === 'string' &&
+        verifyDealSeed(gameData.deal_seed, gameData.deal_seed_hash)
+      ) {
+        dealSeed = gameData.deal_seed;
+        dealSeedHash = gameData.deal_seed_hash;
+      }
+      playHistory = sanitizePlayHistory(gameData.play_history, playerCount);
+      matchScores = sanitizeMatchScores(gameData.match_scores, playerCount);
+      accuracy = sanitizeAccuracy(gameData.accuracy);
+    }
+
     // ============================================================================
     // STEP 3: RECORD GAME HISTORY (for audit trail)
     // ============================================================================
@@ -601,7 +801,8 @@ Deno.serve(async (req) => {
         const difficulties = replacedRows
           .map((r: { bot_difficulty: string | null }) => r.bot_difficulty)
           .filter(Boolean) as string[];
-        if (difficulties.includes('hard'))        serverBotDifficulty = 'hard';
+        if (difficulties.includes('expert'))      serverBotDifficulty = 'expert';
+        else if (difficulties.includes('hard'))   serverBotDifficulty = 'hard';
         else if (difficulties.includes('medium')) serverBotDifficulty = 'medium';
         else if (difficulties.length > 0)         serverBotDifficulty = 'easy';
       }
@@ -624,38 +825,41 @@ Deno.serve(async (req) => {
         room_id: gameData.room_id,
         room_code: gameData.room_code,
         game_type: gameData.game_type,
+        // Seats 3 and 4 are empty (NULL) at a table of two or three
+        player_count: playerCount,
+        deal_variant: dealVariant,
         player_1_id: realPlayers[0],
         player_2_id: realPlayers[1],
-        player_3_id: realPlayers[2],
-        player_4_id: realPlayers[3],
+        player_3_id: realPlayers[2] ?? null,
+        player_4_id: realPlayers[3] ?? null,
         player_1_username: gameData.players[0].username,
         player_2_username: gameData.players[1].username,
-        player_3_username: gameData.players[2].username,
-        player_4_username: gameData.players[3].username,
+        player_3_username: gameData.players[2]?.username ?? null,
+        player_4_username: gameData.players[3]?.username ?? null,
         player_1_score: gameData.players[0].score,
         player_2_score: gameData.players[1].score,
-        player_3_score: gameData.players[2].score,
-        player_4_score: gameData.players[3].score,
+        player_3_score: gameData.players[2]?.score ?? null,
+        player_4_score: gameData.players[3]?.score ?? null,
         // Bot tracking: original username before bot replacement
         player_1_original_username: gameData.players[0].original_username,
         player_2_original_username: gameData.players[1].original_username,
-        player_3_original_username: gameData.players[2].original_username,
-        player_4_original_username: gameData.players[3].original_username,
+        player_3_original_username: gameData.players[2]?.original_username ?? null,
+        player_4_original_username: gameData.players[3]?.original_username ?? null,
         // Bot flags
         player_1_was_bot: gameData.players[0].was_bot,
         player_2_was_bot: gameData.players[1].was_bot,
-        player_3_was_bot: gameData.players[2].was_bot,
-        player_4_was_bot: gameData.players[3].was_bot,
+        player_3_was_bot: gameData.players[2]?.was_bot ?? null,
+        player_4_was_bot: gameData.players[3]?.was_bot ?? null,
         // Disconnect flags
         player_1_disconnected: gameData.players[0].disconnected,
         player_2_disconnected: gameData.players[1].disconnected,
-        player_3_disconnected: gameData.players[2].disconnected,
-        player_4_disconnected: gameData.players[3].disconnected,
+        player_3_disconnected: gameData.players[2]?.disconnected ?? null,
+        player_4_disconnected: gameData.players[3]?.disconnected ?? null,
         // Cards left in hand at end
         player_1_cards_left: gameData.players[0].cards_left,
         player_2_cards_left: gameData.players[1].cards_left,
-        player_3_cards_left: gameData.players[2].cards_left,
-        player_4_cards_left: gameData.players[3].cards_left,
+        player_3_cards_left: gameData.players[2]?.cards_left ?? null,
+        player_4_cards_left: gameData.players[3]?.cards_left ?? null,
         // Bot difficulty: use server-authoritative value derived from room_players
         // when a room_id is present so the audit trail matches the ELO multiplier
         // logic and cannot be spoofed by a client-supplied value.
@@ -668,6 +872,19 @@ Deno.serve(async (req) => {
         finished_at: gameData.finished_at,
         // Voided player: null for completed games, set when last human left an unfinished game
         voided_user_id: serverVoidedPlayerId,
+        // Scoring config the scores above were computed with, and the house rules
+        scoring,
+        rule_set: ruleSet,
+        // Seeded deal: commitment, revealed seed and duplicate table
+        deal_seed: dealSeed,
+        deal_seed_hash: dealSeedHash,
+        seat_rotation: seatRotation,
+        duplicate_group_id: duplicateGroupId,
+        match_scores: matchScores,
+        // Moves for the replay viewer
+        play_history: playHistory,
+        // Blunder-check score of the human player (local games)
+        accuracy,
       });
 
     if (historyError) {
@@ -721,6 +938,33 @@ Deno.serve(async (req) => {
 
     console.log('[Complete Game] Game history recorded successfully');
 
+    // Last table of a duplicate group to finish: reveal the shared seed everywhere
+    if (duplicateGroupId) {
+      const [{ data: group }, { count: finishedTables }] = await Promise.all([
+        supabaseAdmin
+          .from('duplicate_groups')
+          .select('seed, table_count')
+          .eq('id', duplicateGroupId)
+          .maybeSingle(),
+        supabaseAdmin
+          .from('game_history')
+          .select('id', { count: 'exact', head: true })
+          .eq('duplicate_group_id', duplicateGroupId)
+          .eq('game_completed', true),
+      ]);
+      if (group && (finishedTables ?? 0) >= group.table_count) {
+        const { error: groupRevealError } = await supabaseAdmin
+          .from('game_history')
+          .update({ deal_seed: group.seed })
+          .eq('duplicate_group_id', duplicateGroupId);
+        if (groupRevealError) {
+          console.warn('[Complete Game] Failed to reveal duplicate group seed:', groupRevealError.message);
+        } else {
+          console.log(`[Complete Game] Duplicate group ${duplicateGroupId} finished — seed revealed`);
+        }
+      }
+    }
+
     // ============================================================================
     // STEP 3: UPDATE PLAYER STATS (for each REAL player only, skip bots)
     // ============================================================================
@@ -742,6 +986,7 @@ Deno.serve(async (req) => {
     let botMultiplier: number;
     if (gameData.room_id !== null) {
       botMultiplier =
+        serverBotDifficulty === 'expert' ? 1.0 :
         serverBotDifficulty === 'hard'   ? 0.9 :
         serverBotDifficulty === 'medium' ? 0.7 :
         serverBotDifficulty === 'easy'   ? 0.5 : 1.0; // null → all-human lobby
@@ -749,86 +994,84 @@ Deno.serve(async (req) => {
       botMultiplier =
         gameData.bot_difficulty === 'easy'   ? 0.5 :
         gameData.bot_difficulty === 'medium' ? 0.7 :
-        gameData.bot_difficulty === 'hard'   ? 0.9 : 1.0;
+        gameData.bot_difficulty === 'hard'   ? 0.9 : 1.0; // expert → full weight
     }
 
-    // ── Chess K=32 pairwise ELO (ranked games only) ────────────────────────────
+    // ── Glicko-2 ratings (ranked games only) ─────────────────────────────────
     // Must be computed before the stats update loop so all players' current
-    // rated_rank_points are fetched simultaneously.
-    // Private games are excluded — they do not affect ranked_rank_points.
+    // ratings are fetched simultaneously. apply_ranked_rating stores each new
+    // rating on profiles and returns the change, which is passed on as
+    // p_ranked_elo_change so ranked_rank_points moves by the same amount.
+    // Private games are excluded — they do not affect ranked ratings.
     const rankedEloDeltaMap = new Map<string, number>();
 
     if (gameData.game_type === 'ranked') {
-      // Collect all real player user IDs (including bot-replaced humans at pos 4)
+      // Collect all real player user IDs (including bot-replaced humans, rated last).
+      // The voided player (last human to leave an unfinished game) is not rated,
+      // matching update_player_stats_after_game which ignores their change.
       const allRealUserIds = [
         ...realPlayerData.map(p => p.user_id),
         ...botReplacedHumanIds,
-      ];
+      ].filter(id => gameData.game_completed || id !== serverVoidedPlayerId);
 
       if (allRealUserIds.length > 0) {
         const { data: ratingRows, error: ratingError } = await supabaseAdmin
-          .from('player_stats')
-          .select('user_id, ranked_rank_points')
-          .in('user_id', allRealUserIds);
+          .from('profiles')
+          .select('id, elo_rating, rating_deviation, rating_volatility, rating_updated_at')
+          .in('id', allRealUserIds);
 
         if (ratingError) {
-          console.error('[Complete Game] Failed to fetch ranked_rank_points for ELO calc:', ratingError.message);
+          console.error('[Complete Game] Failed to fetch ratings for Glicko-2 calc:', ratingError.message);
           // Fall back to 0 delta for all players
           allRealUserIds.forEach(id => rankedEloDeltaMap.set(id, 0));
         } else {
-          // Build rating lookup (default 1000 for new players)
-          const ratingLookup = new Map<string, number>();
+          const now = Date.now();
+          const ratingLookup = new Map<string, { rating: Glicko2Rating; idlePeriods: number }>();
           (ratingRows ?? []).forEach(r => {
-            ratingLookup.set(r.user_id as string, (r.ranked_rank_points as number) ?? 1000);
+            ratingLookup.set(r.id as string, {
+              rating: {
+                rating: (r.elo_rating as number | null) ?? DEFAULT_GLICKO2_RATING.rating,
+                deviation: (r.rating_deviation as number | null) ?? DEFAULT_GLICKO2_RATING.deviation,
+                volatility: (r.rating_volatility as number | null) ?? DEFAULT_GLICKO2_RATING.volatility,
+              },
+              idlePeriods: glicko2IdlePeriods(r.rating_updated_at as string | null, now),
+            });
           });
-          allRealUserIds.forEach(id => {
-            if (!ratingLookup.has(id)) ratingLookup.set(id, 1000);
-            rankedEloDeltaMap.set(id, 0);
+          const ratedPlayer = (user_id: string, finishPosition: number): RankedGamePlayer => ({
+            id: user_id,
+            rating: ratingLookup.get(user_id)?.rating ?? DEFAULT_GLICKO2_RATING,
+            finishPosition,
+            idlePeriods: ratingLookup.get(user_id)?.idlePeriods ?? 0,
           });
 
-          // Build finish-position list for all real players
-          const finishList: Array<{ user_id: string; finish_position: number; rating: number }> = [
-            ...realPlayerData.map(p => ({
-              user_id: p.user_id,
-              // Disconnected (abandoned) players must not gain ELO by reporting a
-              // favourable finish position after leaving the game. Override to 4
-              // (last place) so they are treated as losers in every pairwise match-up,
-              // mirroring the bot-replaced path below which already hardcodes 4.
-              // The equal-position guard in the pairwise loop ensures two abandoned
-              // players at position 4 do not exchange ELO with each other.
-              finish_position: p.disconnected ? 4 : p.finish_position,
-              rating: ratingLookup.get(p.user_id) ?? 1000,
-            })),
-            ...botReplacedHumanIds.map(id => ({
-              user_id: id,
-              finish_position: 4, // abandoned players placed last
-              rating: ratingLookup.get(id) ?? 1000,
-            })),
-          ];
-
-          // Pairwise chess ELO: every unique pair (i, j) where pos_i < pos_j
-          const K = 32;
-          for (let a = 0; a < finishList.length; a++) {
-            for (let b = a + 1; b < finishList.length; b++) {
-              // Skip equal finish_position pairs — e.g., two bot-replaced humans
-              // both set to position 4. Treating tied abandons as a winner/loser
-              // pair is arbitrary and unfair; no ELO should be exchanged.
-              if (finishList[a].finish_position === finishList[b].finish_position) continue;
-
-              // Determine winner / loser of this pair by finish position
-              const [winner, loser] =
-                finishList[a].finish_position < finishList[b].finish_position
-                  ? [finishList[a], finishList[b]]
-                  : [finishList[b], finishList[a]];
-
-              const expected = 1 / (1 + Math.pow(10, (loser.rating - winner.rating) / 400));
-              const winnerDelta = Math.round(K * (1 - expected));
-              const loserDelta  = -winnerDelta; // enforce zero-sum per pair: avoids rating inflation/deflation from independent rounding
-
-              rankedEloDeltaMap.set(winner.user_id, (rankedEloDeltaMap.get(winner.user_id) ?? 0) + winnerDelta);
-              rankedEloDeltaMap.set(loser.user_id,  (rankedEloDeltaMap.get(loser.user_id)  ?? 0) + loserDelta);
-            }
-          }
+          // Disconnected (abandoned) players must not gain rating by reporting a
+          // favourable finish position after leaving the game. Override to last
+          // place (playerCount) so they lose to everyone, mirroring the
+          // bot-replaced path. rateRankedGame skips equal
+          // positions, so two abandoned players are not rated against each other.
+          const rated = rateRankedGame(
+            allRealUserIds.map(id => {
+              const player = realPlayerData.find(p => p.user_id === id);
+              return ratedPlayer(id, player && !player.disconnected ? player.finish_position : playerCount);
+            })
+          );
+
+          await Promise.all(
+            [...rated].map(async ([user_id, rating]) => {
+              const { data: change, error: applyError } = await supabaseAdmin.rpc('apply_ranked_rating', {
+                p_user_id: user_id,
+                p_rating: Math.round(rating.rating),
+                p_deviation: rating.deviation,
+                p_volatility: rating.volatility,
+              });
+              if (applyError) {
+                console.error(`[Complete Game] Failed to apply rating for ${user_id}:`, applyError.message);
+                rankedEloDeltaMap.set(user_id, 0);
+              } else {
+                rankedEloDeltaMap.set(user_id, (change as number | null) ?? 0);
+              }
+            })
+          );
         }
       }
     }
@@ -905,7 +1148,7 @@ Deno.serve(async (req) => {
       const { error: abandonedError } = await supabaseAdmin.rpc('update_player_stats_after_game', {
         p_user_id: humanUserId,
         p_won: false,
-        p_finish_position: 4,
+        p_finish_position: playerCount,
         p_score: 200,
         p_combos_played: {},
         p_game_type: gameData.game_type,
@@ -1017,6 +1260,39 @@ Deno.serve(async (req) => {
       }
     }
 
+    // ============================================================================
+    // STEP 3c: RECORD TOURNAMENT TABLE RESULT
+    // ============================================================================
+    // Positions are stored per real player (bots do not play on in the
+    // tournament); advance-tournament then draws the next round as soon as the
+    // round's last table is in, instead of waiting for its next cron tick.
+
+    if (gameData.room_id && tournamentId) {
+      try {
+        const positions = Object.fromEntries(
+          realPlayerData.map(p => [p.user_id, p.finish_position])
+        );
+        const { data: tableRow, error: tableErr } = await supabaseAdmin
+          .from('tournament_tables')
+          .update({ status: 'finished', positions, finished_at: new Date().toISOString() })
+          .eq('room_id', gameData.room_id)
+          .in('status', ['waiting', 'playing'])
+          .select('id')
+          .maybeSingle();
+
+        if (tableErr) {
+          console.warn('[Complete Game] Failed to record tournament result:', tableErr.message);
+        } else if (tableRow) {
+          console.log('[Complete Game] Tournament table result recorded');
+          await supabaseAdmin.functions.invoke('advance-tournament', {
+            body: { tournament_id: tournamentId },
+          });
+        }
+      } catch (tournamentErr) {
+        console.warn('[Complete Game] Tournament advance error (non-critical):', tournamentErr);
+      }
+    }
+
     // ============================================================================
     // STEP 4: SEND PUSH NOTIFICATIONS
     // ============================================================================
@@ -5,6 +5,18 @@ import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 import { buildCorsHeaders } from '../_shared/cors.ts';
 // P5-2 Fix: DB-backed rate limiter — enforced globally across all isolates.
 import { checkRateLimit, rateLimitResponse, serviceUnavailableResponse } from '../_shared/rateLimiter.ts';
+import { DEFAULT_GLICKO2_RATING, matchmakingRatingWindow } from '../_shared/glicko2.ts';
+import {
+  MATCHMAKING_TABLE_SIZE,
+  MAX_MATCHMAKING_PARTY_SIZE,
+  MAX_WIDENED_RATING_WINDOW,
+  MIN_MATCHMAKING_TABLE_SIZE,
+  assembleMatchmakingTable,
+  canMatchmakingGroupsMeet,
+  estimateMatchmakingWaitMs,
+  isMatchmakingTableSize,
+  type MatchmakingGroup,
+} from '../_shared/matchmakingQueue.ts';
 
 
 
@@ -19,6 +31,12 @@ interface FindMatchRequest {
   // ELO is fetched server-side from profiles.elo_rating to prevent manipulation.
   region?: string;
   match_type?: string;
+  /** Seats at the table to queue for (2 to 4, default 4); party members take the leader's */
+  table_size?: number;
+  /** Party leader: the 1–2 accepted friends to queue with */
+  party_member_ids?: string[];
+  /** Party member: the party to join, from the leader's invite push */
+  party_id?: string;
 }
 
 interface FindMatchResponse {
@@ -26,8 +44,358 @@ interface FindMatchResponse {
   room_id?: string;
   room_code?: string;
   waiting_count: number;
+  /** Seats at the table being filled */
+  table_size?: number;
   /** ISO timestamp from the DB row — used by the client for an authoritative queue-expiry countdown. */
   joined_at?: string;
+  /** The caller's rating and window before widening, for the search range shown while waiting. */
+  skill_rating?: number;
+  rating_window?: number;
+  /** Expected seconds left in the queue; null without recent matches to go by. */
+  estimated_wait_seconds?: number | null;
+  party_id?: string;
+  party_size?: number;
+}
+
+/** The waiting_room columns matchmaking reads. */
+interface QueueRow {
+  user_id: string;
+  username: string;
+  skill_rating: number | null;
+  region: string | null;
+  joined_at: string;
+  rating_window: number;
+  last_opponent_ids: string[] | null;
+  party_id: string | null;
+  party_member_ids: string[] | null;
+}
+
+type StartMatchResult =
+  | { status: 'matched'; roomId: string; roomCode: string }
+  | { status: 'lost_lock' }
+  | { status: 'error'; error: string };
+
+const QUEUE_COLUMNS =
+  'user_id, username, skill_rating, region, joined_at, rating_window, last_opponent_ids, party_id, party_member_ids';
+/** Waiting rows older than this have expired (see step 3) */
+const QUEUE_TTL_MS = 5 * 60 * 1000;
+/** Table sizes the sweep fills, largest first */
+const SWEEP_TABLE_SIZES = [4, 3, 2] as const;
+/** Matches created per match type by one sweep */
+const MAX_SWEEP_MATCHES = 10;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ==================== QUEUE ====================
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  const len = Math.max(aBytes.length, bBytes.length);
+  for (let i = 0; i < len; i++) {
+    diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Waiting players of one match type and table size, any rating within reach
+ * of `rating` (every rating when null), oldest first.
+ */
+async function loadQueue(
+  supabaseClient: any,
+  match_type: string,
+  table_size: number,
+  rating: number | null
+): Promise<QueueRow[]> {
+  let query = supabaseClient
+    .from('waiting_room')
+    .select(QUEUE_COLUMNS)
+    .eq('status', 'waiting')
+    .eq('match_type', match_type)
+    .eq('table_size', table_size)
+    .gte('joined_at', new Date(Date.now() - QUEUE_TTL_MS).toISOString());
+  if (rating !== null) {
+    query = query
+      .gte('skill_rating', rating - MAX_WIDENED_RATING_WINDOW)
+      .lte('skill_rating', rating + MAX_WIDENED_RATING_WINDOW);
+  }
+  const { data, error } = await query.order('joined_at', { ascending: true }).limit(200);
+  if (error) throw new Error(`Failed to search waiting room: ${error.message}`);
+  return (data ?? []) as QueueRow[];
+}
+
+/**
+ * Solo players and complete parties (every member waiting) in the queue.
+ * A party joins the queue when its last member does.
+ */
+function queueGroups(rows: QueueRow[]): MatchmakingGroup[] {
+  const byParty = new Map<string, QueueRow[]>();
+  const groups: MatchmakingGroup[] = [];
+  for (const row of rows) {
+    if (!row.party_id) {
+      groups.push({
+        id: row.user_id,
+        memberIds: [row.user_id],
+        rating: row.skill_rating ?? 1000,
+        ratingWindow: row.rating_window,
+        region: row.region ?? 'global',
+        joinedAt: new Date(row.joined_at).getTime(),
+        recentOpponentIds: row.last_opponent_ids ?? [],
+      });
+    } else {
+      byParty.set(row.party_id, [...(byParty.get(row.party_id) ?? []), row]);
+    }
+  }
+  for (const [partyId, members] of byParty) {
+    const expected = members[0].party_member_ids ?? [];
+    if (members.length !== expected.length) continue;
+    // Seat the members in the leader's order
+    members.sort((a, b) => expected.indexOf(a.user_id) - expected.indexOf(b.user_id));
+    groups.push({
+      id: partyId,
+      memberIds: members.map(member => member.user_id),
+      rating: Math.round(
+        members.reduce((sum, member) => sum + (member.skill_rating ?? 1000), 0) / members.length
+      ),
+      ratingWindow: Math.max(...members.map(member => member.rating_window)),
+      region: members[0].region ?? 'global',
+      joinedAt: Math.max(...members.map(member => new Date(member.joined_at).getTime())),
+      recentOpponentIds: members.flatMap(member => member.last_opponent_ids ?? []),
+    });
+  }
+  return groups.sort((a, b) => a.joinedAt - b.joinedAt);
+}
+
+/** How long recent matches of this type and size waited, from rows matched in the last 30 minutes. */
+async function recentQueueWaitsMs(
+  supabaseClient: any,
+  match_type: string,
+  table_size: number
+): Promise<number[]> {
+  const { data, error } = await supabaseClient
+    .from('waiting_room')
+    .select('joined_at, matched_at')
+    .eq('status', 'matched')
+    .eq('match_type', match_type)
+    .eq('table_size', table_size)
+    .gte('matched_at', new Date(Date.now() - 30 * 60 * 1000).toISOString())
+    .limit(100);
+  if (error) {
+    console.error('⚠️ [find-match] Failed to read recent waits:', error.message);
+    return [];
+  }
+  return (data ?? [])
+    .map((row: any) => new Date(row.matched_at).getTime() - new Date(row.joined_at).getTime())
+    .filter((wait: number) => Number.isFinite(wait) && wait >= 0);
+}
+
+/**
+ * Seat an assembled table: lock the players' rows, create the room, add the
+ * players (parties side by side, in table order) and start the game.
+ */
+async function startMatch(
+  supabaseClient: any,
+  table: MatchmakingGroup[],
+  rows: QueueRow[],
+  isRanked: boolean
+): Promise<StartMatchResult> {
+  const candidateIds = table.flatMap(group => group.memberIds);
+
+  // 6a. Optimistic concurrency lock — atomically claim every seat by flipping
+  // status 'waiting' → 'processing'. Only one concurrent find-match invocation
+  // can succeed because the others will see 'processing' rows and get fewer hits.
+  // Any invocation that doesn't update every row backs off and returns "waiting".
+  // This eliminates the previous race condition where two concurrent callers could
+  // match the same players and create two rooms for the same group.
+  // Use .select() (not head:true) so we get the actual row IDs back.
+  // This lets us revert EXACTLY the rows this invocation flipped, without
+  // touching rows already locked by a concurrent caller.
+  const { data: lockedRows, error: lockError } = await supabaseClient
+    .from('waiting_room')
+    .update({ status: 'processing', processing_started_at: new Date().toISOString() })
+    .in('user_id', candidateIds)
+    .eq('status', 'waiting') // Only lock rows still in 'waiting' state
+    .select('user_id');
+
+  if (lockError) {
+    console.error('❌ [find-match] Optimistic lock update failed:', lockError);
+    return { status: 'error', error: 'Failed to join matchmaking' };
+  }
+
+  const lockedCount = lockedRows?.length ?? 0;
+  // The IDs we actually flipped in THIS invocation (not rows owned by concurrent callers)
+  const lockedIds = (lockedRows ?? []).map((r: any) => r.user_id);
+
+  if (lockedCount < candidateIds.length) {
+    // Another concurrent caller already claimed some of these players; back off.
+    console.log(`⏳ [find-match] Lost optimistic lock (locked ${lockedCount}/${candidateIds.length}), backing off`);
+    // Reset only the rows THIS invocation locked — only revert rows still in
+    // 'processing' to avoid clobbering a row that may have legitimately advanced
+    // (e.g. matched by another invocation after this backup read).
+    if (lockedIds.length > 0) {
+      await supabaseClient
+        .from('waiting_room')
+        .update({ status: 'waiting', processing_started_at: null })
+        .in('user_id', lockedIds)
+        .eq('status', 'processing'); // Only revert rows we actually own
+    }
+    return { status: 'lost_lock' };
+  }
+
+  // Generate room code using RPC
+  const { data: roomCodeData, error: codeError } = await supabaseClient.rpc('generate_room_code_v2');
+
+  if (codeError || !roomCodeData) {
+    console.error('❌ [find-match] Failed to generate room code:', codeError);
+    // Release optimistic lock so these players can be re-matched.
+    // Guard on status='processing' to avoid clobbering rows advanced by a
+    // concurrent invocation after this lock was acquired.
+    await supabaseClient.from('waiting_room').update({ status: 'waiting', processing_started_at: null }).in('user_id', lockedIds).eq('status', 'processing');
+    return { status: 'error', error: 'Failed to generate room code' };
+  }
+
+  const roomCode = roomCodeData;
+  const hostId = candidateIds[0];
+
+  // Create room
+  const { data: room, error: roomError } = await supabaseClient
+    .from('rooms')
+    .insert({
+      code: roomCode,
+      host_id: hostId,
+      status: 'waiting',
+      max_players: candidateIds.length,
+      fill_with_bots: false,
+      is_matchmaking: true,
+      is_public: true,
+      ranked_mode: isRanked,
+    })
+    .select('id')
+    .single();
+
+  if (roomError || !room) {
+    console.error('❌ [find-match] Failed to create room:', roomError);
+    // Release optimistic lock so these players can be re-matched
+    await supabaseClient.from('waiting_room').update({ status: 'waiting', processing_started_at: null }).in('user_id', lockedIds).eq('status', 'processing');
+    return { status: 'error', error: 'Failed to create room' };
+  }
+
+  const roomId = room.id;
+
+  // Add players to room (multiple ops without a transaction; failures are rolled back manually below).
+  // Seats follow the table order, so party members sit next to each other.
+  const usernames = new Map(rows.map(row => [row.user_id, row.username]));
+  const playersToAdd = candidateIds.map((userId, index) => ({
+    room_id: roomId,
+    user_id: userId,
+    username: usernames.get(userId),
+    player_index: index,
+    is_host: index === 0,
+    is_ready: true,
+    is_bot: false,
+  }));
+
+  const { error: playersError } = await supabaseClient
+    .from('room_players')
+    .insert(playersToAdd);
+
+  if (playersError) {
+    console.error('❌ [find-match] Failed to add players:', playersError);
+    // Rollback: delete the room and release optimistic lock
+    await supabaseClient.from('rooms').delete().eq('id', roomId);
+    await supabaseClient.from('waiting_room').update({ status: 'waiting', processing_started_at: null }).in('user_id', lockedIds).eq('status', 'processing');
+    return { status: 'error', error: 'Failed to add players to room' };
+  }
+
+  // Update waiting room status for matched players
+  // H10 Fix: Use lockedIds (the rows THIS invocation actually locked) instead
+  // of matchedUserIds (derived from the original query snapshot which may include
+  // players that were grabbed by a concurrent invocation).
+  const { error: matchedUpdateError } = await supabaseClient
+    .from('waiting_room')
+    .update({
+      status: 'matched',
+      matched_room_id: roomId,
+      matched_at: new Date().toISOString(),
+    })
+    .in('user_id', lockedIds);
+
+  if (matchedUpdateError) {
+    console.error('❌ [find-match] Failed to mark players as matched:', matchedUpdateError);
+    // Rollback: rows are still in 'processing'; delete room/players and release lock
+    await supabaseClient.from('rooms').delete().eq('id', roomId);
+    await supabaseClient.from('room_players').delete().eq('room_id', roomId);
+    await supabaseClient
+      .from('waiting_room')
+      .update({ status: 'waiting', processing_started_at: null })
+      .in('user_id', lockedIds)
+      .eq('status', 'processing');
+    return { status: 'error', error: 'Failed to update match status' };
+  }
+
+  // Start game with bots (0 bots: every seat of the table is taken)
+  const { data: startResult, error: startError } = await supabaseClient.rpc('start_game_with_bots', {
+    p_room_id: roomId,
+    p_bot_count: 0,
+    p_bot_difficulty: 'medium',
+  });
+
+  if (startError || !startResult?.success) {
+    console.error('❌ [find-match] Failed to auto-start game:', startError || startResult);
+
+    // Rollback: Delete room, room_players, and release optimistic lock.
+    // matched-status update succeeded above, so lockedIds rows are in 'matched' state.
+    // P5-3 FIX: Add .eq('status', 'matched') guard so a concurrent invocation that
+    // may have already re-matched (and re-transitioned) one of these users is not
+    // accidentally reset back to 'waiting'.  Without the guard, a concurrent
+    // find-match that picks up one of these users between the matched update and this
+    // rollback would have its legitimately-matched row wiped.
+    await supabaseClient.from('rooms').delete().eq('id', roomId);
+    await supabaseClient.from('room_players').delete().eq('room_id', roomId);
+    await supabaseClient
+      .from('waiting_room')
+      .update({ status: 'waiting', matched_room_id: null, matched_at: null, processing_started_at: null })
+      .in('user_id', lockedIds)
+      .eq('status', 'matched') // Only revert rows still in matched state (P5-3)
+      .eq('matched_room_id', roomId); // Tie rollback to this invocation's room — prevents resetting a row matched to a different concurrent room
+
+    return { status: 'error', error: 'Failed to start game' };
+  }
+
+  console.log('✅ [find-match] Match created successfully:', { room_id: roomId, room_code: roomCode });
+  return { status: 'matched', roomId, roomCode };
+}
+
+/**
+ * Cron sweep: match players whose rating windows and region reach have
+ * widened since anyone last joined their queue. The longest-waiting group
+ * searches first.
+ */
+async function sweepQueue(supabaseClient: any): Promise<Record<string, number>> {
+  const matches: Record<string, number> = {};
+  for (const match_type of ['casual', 'ranked']) {
+    matches[match_type] = 0;
+    for (const table_size of SWEEP_TABLE_SIZES) {
+      const rows = await loadQueue(supabaseClient, match_type, table_size, null);
+      const seated = new Set<string>();
+      let groups = queueGroups(rows);
+      for (const searcher of groups) {
+        if (matches[match_type] >= MAX_SWEEP_MATCHES) break;
+        if (seated.has(searcher.id)) continue;
+        const table = assembleMatchmakingTable(searcher, groups, Date.now(), table_size);
+        if (!table) continue;
+        const result = await startMatch(supabaseClient, table, rows, match_type === 'ranked');
+        if (result.status === 'matched') {
+          matches[match_type]++;
+          table.forEach(group => seated.add(group.id));
+          groups = groups.filter(group => !seated.has(group.id));
+        }
+      }
+    }
+  }
+  return matches;
 }
 
 // ==================== MAIN HANDLER ====================
@@ -38,6 +406,31 @@ Deno.serve(async (req) => {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  // Cron sweep (pg_cron, `Authorization: Bearer <CRON_SECRET>`): matches players
+  // whose windows have widened; there is no user and no app version header.
+  const cronSecret = Deno.env.get('CRON_SECRET') ?? '';
+  const bearer = (req.headers.get('Authorization') ?? '').replace(/^Bearer /, '').trim();
+  if (cronSecret !== '' && bearer !== '' && timingSafeEqual(bearer, cronSecret)) {
+    try {
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+      const matches = await sweepQueue(supabaseClient);
+      console.log('🧹 [find-match] Sweep finished:', matches);
+      return new Response(
+        JSON.stringify({ success: true, matches }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    } catch (error: any) {
+      console.error('💥 [find-match] Sweep error:', error);
+      return new Response(
+        JSON.stringify({ success: false, error: error.message || 'Unknown error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
     // C3: Enforce minimum app version
     const versionError = checkMinimumVersion(req, corsHeaders);
     if (versionError) return versionError;
@@ -77,17 +470,34 @@ Deno.serve(async (req) => {
       return rateLimitResponse(rl.retryAfterMs, corsHeaders);
     }
 
-    const { username, region = 'global', match_type = 'casual' }: FindMatchRequest = await req.json();
+    const {
+      username,
+      region = 'global',
+      match_type: requestedMatchType = 'casual',
+      table_size: requestedTableSize = MATCHMAKING_TABLE_SIZE,
+      party_member_ids,
+      party_id,
+    }: FindMatchRequest = await req.json();
 
     // #26 — Validate match_type enum (P5-13)
     const VALID_MATCH_TYPES = ['casual', 'ranked'] as const;
-    if (!VALID_MATCH_TYPES.includes(match_type as typeof VALID_MATCH_TYPES[number])) {
+    if (!VALID_MATCH_TYPES.includes(requestedMatchType as typeof VALID_MATCH_TYPES[number])) {
       return new Response(
         JSON.stringify({ success: false, error: 'match_type must be casual or ranked' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    if (!isMatchmakingTableSize(requestedTableSize)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `table_size must be ${MIN_MATCHMAKING_TABLE_SIZE} to ${MATCHMAKING_TABLE_SIZE}`,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     if (!username) {
       return new Response(
         JSON.stringify({ success: false, error: 'Username is required' }),
@@ -95,11 +505,96 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Parties: the leader queues with 1–2 accepted friends and invites them;
+    // each friend joins with the party_id from the invite and takes the
+    // leader's match type and table size. The party is matched once every
+    // member is waiting, always with at least one other player.
+    let party: { id: string; memberIds: string[] } | null = null;
+    let match_type = requestedMatchType;
+    let table_size = requestedTableSize;
+    if (party_member_ids !== undefined) {
+      const friendIds = Array.isArray(party_member_ids) ? [...new Set(party_member_ids)] : [];
+      const maxFriends = Math.min(MAX_MATCHMAKING_PARTY_SIZE, table_size - 1) - 1;
+      if (
+        friendIds.length < 1 ||
+        friendIds.length > maxFriends ||
+        friendIds.some((id) => typeof id !== 'string' || !UUID_RE.test(id) || id === user.id)
+      ) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error:
+              maxFriends < 1
+                ? 'Parties need a table of three or four players'
+                : `party_member_ids must list 1 to ${maxFriends} friends for a table of ${table_size}`,
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const idList = friendIds.join(',');
+      const { data: friendships, error: friendshipsError } = await supabaseClient
+        .from('friendships')
+        .select('requester_id, addressee_id')
+        .eq('status', 'accepted')
+        .or(
+          `and(requester_id.eq.${user.id},addressee_id.in.(${idList})),and(addressee_id.eq.${user.id},requester_id.in.(${idList}))`
+        );
+      if (friendshipsError) {
+        console.error('❌ [find-match] Failed to check party friendships:', friendshipsError.message);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to check party members' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const friends = new Set(
+        (friendships ?? []).map((f: any) => (f.requester_id === user.id ? f.addressee_id : f.requester_id))
+      );
+      if (!friendIds.every((id) => friends.has(id))) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'You can only queue with your friends' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      party = { id: crypto.randomUUID(), memberIds: [user.id, ...friendIds] };
+    } else if (party_id !== undefined) {
+      if (typeof party_id !== 'string' || !UUID_RE.test(party_id)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid party_id' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const { data: partyRows, error: partyError } = await supabaseClient
+        .from('waiting_room')
+        .select('user_id, match_type, table_size, party_member_ids')
+        .eq('party_id', party_id)
+        .eq('status', 'waiting');
+      if (partyError) {
+        console.error('❌ [find-match] Failed to load party:', partyError.message);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to load party' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      // The leader is listed first in party_member_ids
+      const leaderRow = (partyRows ?? []).find((row: any) => row.party_member_ids?.[0] === row.user_id);
+      if (!leaderRow || !leaderRow.party_member_ids.includes(user.id)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Party not found or no longer queued' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      party = { id: party_id, memberIds: leaderRow.party_member_ids };
+      match_type = leaderRow.match_type;
+      table_size = leaderRow.table_size;
+    }
+
     // #24 — Use server-side ELO from profiles (P5-9): ignore client-provided skill_rating
-    // to prevent cheating by manipulating ELO bracket.
+    // to prevent cheating by manipulating ELO bracket. The Glicko-2 rating deviation
+    // sets the bracket width: tight for settled players, wide for new or returning ones.
     const { data: profileData, error: profileError } = await supabaseClient
       .from('profiles')
-      .select('elo_rating')
+      .select('elo_rating, rating_deviation')
       .eq('id', user.id)
       .maybeSingle();
 
@@ -114,13 +609,19 @@ Deno.serve(async (req) => {
       );
     }
     const skill_rating: number = profileData?.elo_rating ?? 1000;
+    const rating_window = matchmakingRatingWindow(
+      profileData?.rating_deviation ?? DEFAULT_GLICKO2_RATING.deviation
+    );
 
     console.log('🎮 [find-match] Request received:', {
       user_id: user.id.substring(0, 8),
       username,
       skill_rating,
+      rating_window,
       region,
       match_type,
+      table_size,
+      party_id: party?.id,
     });
 
     const userId = user.id;
@@ -259,15 +760,17 @@ Deno.serve(async (req) => {
         console.log('ℹ️ [find-match] User already matched, returning existing match');
         const { data: roomData } = await supabaseClient
           .from('rooms')
-          .select('code')
+          .select('code, max_players')
           .eq('id', existingEntry.matched_room_id)
           .maybeSingle();
+        const matchedTableSize = roomData?.max_players ?? MATCHMAKING_TABLE_SIZE;
         return new Response(
           JSON.stringify({
             matched: true,
             room_id: existingEntry.matched_room_id,
             room_code: roomData?.code ?? undefined,
-            waiting_count: 4,
+            waiting_count: matchedTableSize,
+            table_size: matchedTableSize,
           } as FindMatchResponse),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
@@ -280,13 +783,30 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Who the player sat with in their previous game: kept apart for a while
+    const { data: lastGame, error: lastGameError } = await supabaseClient
+      .from('game_history')
+      .select('player_1_id, player_2_id, player_3_id, player_4_id')
+      .or(`player_1_id.eq.${userId},player_2_id.eq.${userId},player_3_id.eq.${userId},player_4_id.eq.${userId}`)
+      .order('finished_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (lastGameError) {
+      console.error('⚠️ [find-match] Failed to read previous game opponents:', lastGameError.message);
+    }
+    const last_opponent_ids: string[] = lastGame
+      ? [lastGame.player_1_id, lastGame.player_2_id, lastGame.player_3_id, lastGame.player_4_id].filter(
+          (id: string | null): id is string => !!id && id !== userId
+        )
+      : [];
+
     // 4. Insert or update user in waiting room.
     // Two-step upsert that protects rows already in 'processing' state:
     //   Step A — INSERT the new row; if a row already exists, do nothing (ignoreDuplicates)
     //            so that a concurrent find-match that already flipped this user's row to
     //            'processing' is not overwritten back to 'waiting'.
     //   Step B — UPDATE the row only when it is still in 'waiting' state so stale
-    //            skill_rating / region / match_type data is refreshed, but
+    //            skill_rating / region / match_type / party data is refreshed, but
     //            'processing' rows (mid-assembly by another invocation) are left intact.
     const entryData = {
       user_id: userId,
@@ -295,7 +815,12 @@ Deno.serve(async (req) => {
       region,
       status: 'waiting' as const,
       match_type,
+      table_size,
       joined_at: new Date().toISOString(),
+      rating_window,
+      last_opponent_ids,
+      party_id: party?.id ?? null,
+      party_member_ids: party?.memberIds ?? null,
     };
 
     // Step A: Insert if absent; skip silently if the row already exists.
@@ -314,7 +839,18 @@ Deno.serve(async (req) => {
     // Step B: Refresh the existing row's data only if it's still 'waiting' (not 'processing').
     const { error: insertError } = await supabaseClient
       .from('waiting_room')
-      .update({ username, skill_rating, region, match_type, joined_at: entryData.joined_at })
+      .update({
+        username,
+        skill_rating,
+        region,
+        match_type,
+        table_size,
+        joined_at: entryData.joined_at,
+        rating_window,
+        last_opponent_ids,
+        party_id: entryData.party_id,
+        party_member_ids: entryData.party_member_ids,
+      })
       .eq('user_id', userId)
       .eq('status', 'waiting');
 
@@ -326,36 +862,49 @@ Deno.serve(async (req) => {
       );
     }
 
-    // 5. Find waiting players (skill rating within 200, same region and match type, joined within last 5 minutes)
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString();
-    const { data: waitingPlayers, error: searchError } = await supabaseClient
-      .from('waiting_room')
-      .select('*')
-      .eq('status', 'waiting')
-      .eq('region', region)
-      .eq('match_type', match_type)
-      .gte('skill_rating', skill_rating - 200)
-      .lte('skill_rating', skill_rating + 200)
-      .gte('joined_at', fiveMinutesAgo)
-      .order('joined_at', { ascending: true })
-      .limit(4);
-
-    if (searchError) {
-      console.error('❌ [find-match] Failed to search waiting room:', searchError);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Failed to search for match' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Invite the leader's friends: each joins the party from the push
+    if (party && party.memberIds[0] === userId) {
+      try {
+        await supabaseClient.functions.invoke('send-push-notification', {
+          body: {
+            user_ids: party.memberIds.slice(1),
+            title: '🎮 Party invite',
+            body: `${username} wants to queue for a ${match_type} match with you!`,
+            data: {
+              type: 'matchmaking_party',
+              party_id: party.id,
+              match_type,
+            },
+            sound: 'default',
+            badge: 1,
+          },
+        });
+      } catch (notifError) {
+        console.warn('⚠️ [find-match] Failed to invite party members (non-critical):', notifError);
+      }
     }
 
-    const waitingCount = waitingPlayers?.length || 0;
-
-    console.log(`🔍 [find-match] Found ${waitingCount} waiting players`);
+    // 5. Assemble a table of the size this player queued for around their
+    // group (their party once every member is waiting). Rating windows widen
+    // and further regions open up with waiting time; see assembleMatchmakingTable.
+    const rows = await loadQueue(supabaseClient, match_type, table_size, skill_rating);
+    const groups = queueGroups(rows);
+    const searcher = groups.find((group) => group.memberIds.includes(userId));
+    const now = Date.now();
+    const table = searcher ? assembleMatchmakingTable(searcher, groups, now, table_size) : null;
+    const reachable = searcher
+      ? groups.filter((group) => group.id === searcher.id || canMatchmakingGroupsMeet(searcher, group, now))
+      : [];
+    const waitingCount = table
+      ? table_size
+      : Math.min(table_size - 1, reachable.reduce((sum, group) => sum + group.memberIds.length, 0));
+
+    console.log(`🔍 [find-match] ${waitingCount} players within reach (${groups.length} groups queued)`);
 
     // C5 Fix: Write waiting_count to all waiting players' rows so Realtime
     // UPDATE events carry the current queue size to connected clients.
-    if (waitingPlayers && waitingPlayers.length > 0) {
-      const waitingUserIds = waitingPlayers.map((p: any) => p.user_id);
+    if (reachable.length > 0) {
+      const waitingUserIds = reachable.flatMap((group) => group.memberIds);
       const { error: waitingCountUpdateError } = await supabaseClient
         .from('waiting_room')
         .update({ waiting_count: waitingCount })
@@ -367,225 +916,65 @@ Deno.serve(async (req) => {
           error: waitingCountUpdateError,
           region,
           match_type,
+          table_size,
           waitingCount,
           waitingUserIds,
         });
       }
     }
 
-    // 6. If we have 4+ players, create a match
-    if (waitingCount >= 4) {
-      console.log('✅ [find-match] Creating match with 4 players');
-
-      // 6a. Optimistic concurrency lock — atomically claim all 4 seats by flipping
-      // status 'waiting' → 'processing'. Only one concurrent find-match invocation
-      // can succeed because the others will see 'processing' rows and get < 4 hits.
-      // Any invocation that doesn't update all 4 rows backs off and returns "waiting".
-      // This eliminates the previous race condition where two concurrent callers could
-      // match the same players and create two rooms for the same group.
-      const candidateIds = (waitingPlayers as any[]).slice(0, 4).map((p: any) => p.user_id);
-      // Use .select() (not head:true) so we get the actual row IDs back.
-      // This lets us revert EXACTLY the rows this invocation flipped, without
-      // touching rows already locked by a concurrent caller.
-      const { data: lockedRows, error: lockError } = await supabaseClient
-        .from('waiting_room')
-        .update({ status: 'processing', processing_started_at: new Date().toISOString() })
-        .in('user_id', candidateIds)
-        .eq('status', 'waiting') // Only lock rows still in 'waiting' state
-        .select('user_id');
-
-      if (lockError) {
-        console.error('❌ [find-match] Optimistic lock update failed:', lockError);
-        return new Response(
-          JSON.stringify({ success: false, error: 'Failed to join matchmaking' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const lockedCount = lockedRows?.length ?? 0;
-      // The IDs we actually flipped in THIS invocation (not rows owned by concurrent callers)
-      const lockedIds = (lockedRows ?? []).map((r: any) => r.user_id);
-
-      if (lockedCount < 4) {
-        // Another concurrent caller already claimed some of these players; back off.
-        console.log(`⏳ [find-match] Lost optimistic lock (locked ${lockedCount}/4), backing off`);
-        // Reset only the rows THIS invocation locked — only revert rows still in
-        // 'processing' to avoid clobbering a row that may have legitimately advanced
-        // (e.g. matched by another invocation after this backup read).
-        if (lockedIds.length > 0) {
-          await supabaseClient
-            .from('waiting_room')
-            .update({ status: 'waiting', processing_started_at: null })
-            .in('user_id', lockedIds)
-            .eq('status', 'processing'); // Only revert rows we actually own
-        }
-        return new Response(
-          JSON.stringify({ matched: false, waiting_count: waitingCount, joined_at: entryData.joined_at }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      // Generate room code using RPC
-      const { data: roomCodeData, error: codeError } = await supabaseClient.rpc('generate_room_code_v2');
-      
-      if (codeError || !roomCodeData) {
-        console.error('❌ [find-match] Failed to generate room code:', codeError);
-        // Release optimistic lock so these players can be re-matched.
-        // Guard on status='processing' to avoid clobbering rows advanced by a
-        // concurrent invocation after this lock was acquired.
-        await supabaseClient.from('waiting_room').update({ status: 'waiting', processing_started_at: null }).in('user_id', lockedIds).eq('status', 'processing');
-        return new Response(
-          JSON.stringify({ success: false, error: 'Failed to generate room code' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const roomCode = roomCodeData;
-      const hostId = waitingPlayers[0].user_id;
-
-      // Create room
-      const { data: room, error: roomError } = await supabaseClient
-        .from('rooms')
-        .insert({
-          code: roomCode,
-          host_id: hostId,
-          status: 'waiting',
-          max_players: 4,
-          fill_with_bots: false,
-          is_matchmaking: true,
-          is_public: true,
-          ranked_mode: isRanked,
-        })
-        .select('id')
-        .single();
-
-      if (roomError || !room) {
-        console.error('❌ [find-match] Failed to create room:', roomError);
-        // Release optimistic lock so these players can be re-matched
-        await supabaseClient.from('waiting_room').update({ status: 'waiting', processing_started_at: null }).in('user_id', lockedIds).eq('status', 'processing');
-        return new Response(
-          JSON.stringify({ success: false, error: 'Failed to create room' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const roomId = room.id;
-
-      // Add players to room (multiple ops without a transaction; failures are rolled back manually below)
-      const playersToAdd = waitingPlayers.slice(0, 4).map((player, index) => ({
-        room_id: roomId,
-        user_id: player.user_id,
-        username: player.username,
-        player_index: index,
-        is_host: index === 0,
-        is_ready: true,
-        is_bot: false,
-      }));
-
-      const { error: playersError } = await supabaseClient
-        .from('room_players')
-        .insert(playersToAdd);
-
-      if (playersError) {
-        console.error('❌ [find-match] Failed to add players:', playersError);
-        // Rollback: delete the room and release optimistic lock
-        await supabaseClient.from('rooms').delete().eq('id', roomId);
-        await supabaseClient.from('waiting_room').update({ status: 'waiting', processing_started_at: null }).in('user_id', lockedIds).eq('status', 'processing');
-        return new Response(
-          JSON.stringify({ success: false, error: 'Failed to add players to room' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    // 6. If a table could be assembled, create the match
+    if (table) {
+      console.log(`✅ [find-match] Creating match with ${table_size} players`);
+      const result = await startMatch(supabaseClient, table, rows, isRanked);
 
-      // Update waiting room status for matched players
-      // H10 Fix: Use lockedIds (the rows THIS invocation actually locked) instead
-      // of matchedUserIds (derived from the original query snapshot which may include
-      // players that were grabbed by a concurrent invocation).
-      const { error: matchedUpdateError } = await supabaseClient
-        .from('waiting_room')
-        .update({
-          status: 'matched',
-          matched_room_id: roomId,
-          matched_at: new Date().toISOString(),
-        })
-        .in('user_id', lockedIds);
-
-      if (matchedUpdateError) {
-        console.error('❌ [find-match] Failed to mark players as matched:', matchedUpdateError);
-        // Rollback: rows are still in 'processing'; delete room/players and release lock
-        await supabaseClient.from('rooms').delete().eq('id', roomId);
-        await supabaseClient.from('room_players').delete().eq('room_id', roomId);
-        await supabaseClient
-          .from('waiting_room')
-          .update({ status: 'waiting', processing_started_at: null })
-          .in('user_id', lockedIds)
-          .eq('status', 'processing');
+      if (result.status === 'error') {
         return new Response(
-          JSON.stringify({ success: false, error: 'Failed to update match status' }),
+          JSON.stringify({ success: false, error: result.error }),
           { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      // Start game with bots (0 bots since we have 4 players)
-      const { data: startResult, error: startError } = await supabaseClient.rpc('start_game_with_bots', {
-        p_room_id: roomId,
-        p_bot_count: 0,
-        p_bot_difficulty: 'medium',
-      });
+      if (result.status === 'matched') {
+        const response: FindMatchResponse = {
+          matched: true,
+          room_id: result.roomId,
+          room_code: result.roomCode,
+          waiting_count: table_size,
+          table_size,
+        };
 
-      if (startError || !startResult?.success) {
-        console.error('❌ [find-match] Failed to auto-start game:', startError || startResult);
-        
-        // Rollback: Delete room, room_players, and release optimistic lock.
-        // matched-status update succeeded above, so lockedIds rows are in 'matched' state.
-        // P5-3 FIX: Add .eq('status', 'matched') guard so a concurrent invocation that
-        // may have already re-matched (and re-transitioned) one of these users is not
-        // accidentally reset back to 'waiting'.  Without the guard, a concurrent
-        // find-match that picks up one of these users between the matched update and this
-        // rollback would have its legitimately-matched row wiped.
-        await supabaseClient.from('rooms').delete().eq('id', roomId);
-        await supabaseClient.from('room_players').delete().eq('room_id', roomId);
-        await supabaseClient
-          .from('waiting_room')
-          .update({ status: 'waiting', matched_room_id: null, matched_at: null, processing_started_at: null })
-          .in('user_id', lockedIds)
-          .eq('status', 'matched') // Only revert rows still in matched state (P5-3)
-          .eq('matched_room_id', roomId); // Tie rollback to this invocation's room — prevents resetting a row matched to a different concurrent room
-        
         return new Response(
-          JSON.stringify({ success: false, error: 'Failed to start game' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify(response),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+      // Lost the optimistic lock to a concurrent invocation: keep waiting
+    }
 
-      console.log('✅ [find-match] Match created successfully:', { room_id: roomId, room_code: roomCode });
-
-      const response: FindMatchResponse = {
-        matched: true,
-        room_id: roomId,
-        room_code: roomCode,
-        waiting_count: 4,
-      };
-
-      return new Response(
-        JSON.stringify(response),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    } else {
-      // Not enough players yet
-      console.log(`⏳ [find-match] Waiting for more players (${waitingCount}/4)`);
+    // Not enough players within reach yet
+    console.log(`⏳ [find-match] Waiting for more players (${waitingCount}/${table_size})`);
 
-      const response: FindMatchResponse = {
-        matched: false,
-        waiting_count: waitingCount,
-        joined_at: entryData.joined_at,
-      };
+    const estimatedWaitMs = estimateMatchmakingWaitMs(
+      await recentQueueWaitsMs(supabaseClient, match_type, table_size),
+      0
+    );
+    const response: FindMatchResponse = {
+      matched: false,
+      waiting_count: waitingCount,
+      table_size,
+      joined_at: entryData.joined_at,
+      skill_rating,
+      rating_window,
+      estimated_wait_seconds: estimatedWaitMs === null ? null : Math.round(estimatedWaitMs / 1000),
+      party_id: party?.id,
+      party_size: party?.memberIds.length,
+    };
 
-      return new Response(
-        JSON.stringify(response),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    return new Response(
+      JSON.stringify(response),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   } catch (error: any) {
     console.error('💥 [find-match] Error:', error);
     return new Response(
@@ -21,7 +21,9 @@ const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12
  * call) — in that case the heartbeat simply stops and process_disconnected_players()
  * on the server detects it after 30 s.
  *
- * Offline rooms are skipped entirely — the DB function guards this.
+ * Offline rooms are skipped entirely — the DB function guards this. The DB function
+ * also starts the room's own disconnect timer (rooms.settings.disconnect_timer_seconds),
+ * carrying over the turn timer when the player leaves during their turn.
  */
 Deno.serve(async (req) => {
   const corsHeaders = buildCorsHeaders();
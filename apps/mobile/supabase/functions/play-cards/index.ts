@@ -7,6 +7,41 @@ import { concurrentModificationResponse } from '../_shared/responses.ts';
 import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 // M12: CORS origin controlled by ALLOWED_ORIGIN env var
 import { buildCorsHeaders } from '../_shared/cors.ts';
+// Shared Big Two rules — the same module backs the client engine (src/game/engine)
+import {
+  type Card,
+  type ComboType,
+  type LastPlay,
+  RANK_VALUE,
+  SUIT_VALUE,
+  COMBO_STRENGTH,
+  VALID_STRAIGHT_SEQUENCES,
+  sortHand,
+  classifyCards,
+  canBeatPlay,
+  findStraightSequenceIndex,
+  validateOneCardLeftRule,
+  calculateMatchPoints,
+  isGameOverScore,
+  findLowestScoreIndex,
+  normalizeRuleSet,
+  isStandardRuleSet,
+  isOpeningCard,
+  getOpeningCardId,
+  isHighestRemainingPlay,
+  normalizeScoringConfig,
+  type RuleSet,
+} from '../_shared/gameEngine.ts';
+import { normalizeRoomTimerSettings } from '../_shared/roomTimers.ts';
+import {
+  getDealtHandSizes,
+  getNextSeat,
+  getOpponentHandSizes,
+  getOtherSeats,
+  getSeatCount,
+  normalizeRoomTable,
+} from '../_shared/roomTable.ts';
+import type { GameEventSource, PendingGameEvent } from '../_shared/gameLog.ts';
 
 // Rate-limit config for play-cards: max 10 plays per 10-second window per user.
 // Normal gameplay is ~1 play every several seconds; 10/10s is generous for legitimate use.
@@ -17,57 +52,6 @@ const PLAY_CARDS_RATE_LIMIT_WINDOW = 10; // seconds
 const VALID_SUITS = new Set(['D', 'C', 'H', 'S']);
 const VALID_RANKS = new Set(['3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', '2']);
 
-// ==================== TYPES ====================
-
-interface Card {
-  id: string;
-  suit: 'D' | 'C' | 'H' | 'S';
-  rank: '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A' | '2';
-}
-
-type ComboType = 'Single' | 'Pair' | 'Triple' | 'Straight' | 'Flush' | 'Full House' | 'Four of a Kind' | 'Straight Flush';
-
-interface LastPlay {
-  cards: Card[];
-  combo_type: ComboType;
-  player_index: number;
-}
-
-// ==================== CONSTANTS ====================
-
-const RANK_VALUE: Record<string, number> = {
-  '3': 1, '4': 2, '5': 3, '6': 4, '7': 5, '8': 6, '9': 7, '10': 8,
-  'J': 9, 'Q': 10, 'K': 11, 'A': 12, '2': 13,
-};
-
-const SUIT_VALUE: Record<string, number> = {
-  'D': 1, 'C': 2, 'H': 3, 'S': 4,
-};
-
-const COMBO_STRENGTH: Record<ComboType, number> = {
-  'Single': 1,
-  'Pair': 2,
-  'Triple': 3,
-  'Straight': 4,
-  'Flush': 5,
-  'Full House': 6,
-  'Four of a Kind': 7,
-  'Straight Flush': 8,
-};
-
-const VALID_STRAIGHT_SEQUENCES: string[][] = [
-  ['A', '2', '3', '4', '5'],   // 5-high (A is low)
-  ['2', '3', '4', '5', '6'],   // 6-high (2 is low)
-  ['3', '4', '5', '6', '7'],
-  ['4', '5', '6', '7', '8'],
-  ['5', '6', '7', '8', '9'],
-  ['6', '7', '8', '9', '10'],
-  ['7', '8', '9', '10', 'J'],
-  ['8', '9', '10', 'J', 'Q'],
-  ['9', '10', 'J', 'Q', 'K'],
-  ['10', 'J', 'Q', 'K', 'A'],  // A-high (highest)
-];
-
 // ==================== CARD PARSING (Backwards Compatibility) ====================
 
 /**
@@ -193,15 +177,7 @@ function parseCard(cardData: any): Card | null {
 // parseCards() was moved to the shared utility module (imported at top).
 // parseCard() remains defined locally above for single-card parsing within this function.
 
-// ==================== GAME LOGIC ====================
-
-function sortHand(cards: Card[]): Card[] {
-  return [...cards].sort((a, b) => {
-    const rankDiff = RANK_VALUE[a.rank] - RANK_VALUE[b.rank];
-    if (rankDiff !== 0) return rankDiff;
-    return SUIT_VALUE[a.suit] - SUIT_VALUE[b.suit];
-  });
-}
+// ==================== HIGHEST PLAY DETECTION ====================
 
 function sameRank(cards: Card[]): boolean {
   if (cards.length === 0) return false;
@@ -215,75 +191,10 @@ function countByRank(cards: Card[]): Record<string, number> {
   }, {} as Record<string, number>);
 }
 
-function findStraightSequenceIndex(ranks: string[]): number {
-  const rankSet = new Set(ranks);
-  for (let i = 0; i < VALID_STRAIGHT_SEQUENCES.length; i++) {
-    const seq = VALID_STRAIGHT_SEQUENCES[i];
-    if (seq.every(r => rankSet.has(r))) {
-      return i;
-    }
-  }
-  return -1;
-}
-
-function isStraight(cards: Card[]): { valid: boolean; sequence: string } {
-  if (cards.length !== 5) return { valid: false, sequence: '' };
-  
-  const ranks = cards.map(c => c.rank);
-  const seqIndex = findStraightSequenceIndex(ranks);
-  
-  if (seqIndex !== -1) {
-    return { valid: true, sequence: VALID_STRAIGHT_SEQUENCES[seqIndex].join('') };
-  }
-  
-  return { valid: false, sequence: '' };
-}
-
-function classifyFive(cards: Card[]): ComboType | 'unknown' {
-  if (cards.length !== 5) return 'unknown';
-  
-  const sorted = sortHand(cards);
-  const counts = countByRank(sorted);
-  const countValues = Object.values(counts).sort((a, b) => b - a);
-  
-  const isFlush = sorted.every(c => c.suit === sorted[0].suit);
-  const straightInfo = isStraight(sorted);
-  
-  if (straightInfo.valid && isFlush) return 'Straight Flush';
-  if (countValues[0] === 4) return 'Four of a Kind';
-  if (countValues[0] === 3 && countValues[1] === 2) return 'Full House';
-  if (isFlush) return 'Flush';
-  if (straightInfo.valid) return 'Straight';
-  
-  return 'unknown';
-}
-
-function classifyCards(cards: Card[]): ComboType | 'unknown' {
-  if (!cards || cards.length === 0) return 'unknown';
-  
-  const n = cards.length;
-  const sorted = sortHand(cards);
-  
-  if (n === 1) return 'Single';
-  if (n === 2 && sameRank(sorted)) return 'Pair';
-  if (n === 3 && sameRank(sorted)) return 'Triple';
-  if (n === 5) return classifyFive(sorted);
-  
-  return 'unknown';
-}
-
 function getCardValue(card: Card): number {
   return RANK_VALUE[card.rank] * 10 + SUIT_VALUE[card.suit];
 }
 
-function getTripleRank(cards: Card[]): string {
-  const counts = countByRank(cards);
-  for (const rank in counts) {
-    if (counts[rank] === 3) return rank;
-  }
-  throw new Error('No triple found in full house');
-}
-
 function getQuadRank(cards: Card[]): string {
   const counts = countByRank(cards);
   for (const rank in counts) {
@@ -292,65 +203,6 @@ function getQuadRank(cards: Card[]): string {
   throw new Error('No quad found in four of a kind');
 }
 
-function canBeatPlay(newCards: Card[], lastPlay: LastPlay | null): boolean {
-  if (!lastPlay) return true;
-  if (newCards.length !== lastPlay.cards.length) return false;
-  
-  const newCombo = classifyCards(newCards);
-  if (newCombo === 'unknown') return false;
-  
-  const newStrength = COMBO_STRENGTH[newCombo] || 0;
-  const lastStrength = COMBO_STRENGTH[lastPlay.combo_type] || 0;
-  
-  if (newCombo !== lastPlay.combo_type) {
-    return newStrength > lastStrength;
-  }
-  
-  const newSorted = sortHand(newCards);
-  const lastSorted = sortHand(lastPlay.cards);
-  
-  if (newCombo === 'Full House') {
-    const newTripleRank = getTripleRank(newSorted);
-    const lastTripleRank = getTripleRank(lastSorted);
-    return RANK_VALUE[newTripleRank] > RANK_VALUE[lastTripleRank];
-  }
-  
-  if (newCombo === 'Four of a Kind') {
-    const newQuadRank = getQuadRank(newSorted);
-    const lastQuadRank = getQuadRank(lastSorted);
-    return RANK_VALUE[newQuadRank] > RANK_VALUE[lastQuadRank];
-  }
-  
-  // For Straight and Straight Flush, compare by sequence position
-  // (A-2-3-4-5 is lowest, 10-J-Q-K-A is highest)
-  // Cannot compare by highest card rank because 2 has RANK_VALUE=12
-  // which would incorrectly make A-2-3-4-5 the strongest straight
-  if (newCombo === 'Straight' || newCombo === 'Straight Flush') {
-    const newSeqIdx = findStraightSequenceIndex(newSorted.map((c: Card) => c.rank));
-    const lastSeqIdx = findStraightSequenceIndex(lastSorted.map((c: Card) => c.rank));
-    if (newSeqIdx !== -1 && lastSeqIdx !== -1) {
-      if (newSeqIdx !== lastSeqIdx) {
-        return newSeqIdx > lastSeqIdx;
-      }
-      // Same sequence — tiebreak by top card suit
-      const topRank = VALID_STRAIGHT_SEQUENCES[newSeqIdx][4];
-      const newTopCard = newCards.find((c: Card) => c.rank === topRank);
-      const lastTopCard = lastPlay.cards.find((c: Card) => c.rank === topRank);
-      if (newTopCard && lastTopCard) {
-        return SUIT_VALUE[newTopCard.suit] > SUIT_VALUE[lastTopCard.suit];
-      }
-    }
-  }
-  
-  // For other combos (Single, Pair, Triple, Flush), compare highest card
-  const newHighest = newSorted[newSorted.length - 1];
-  const lastHighest = lastSorted[lastSorted.length - 1];
-  
-  return getCardValue(newHighest) > getCardValue(lastHighest);
-}
-
-// ==================== HIGHEST PLAY DETECTION ====================
-
 function generateFullDeck(): Card[] {
   const deck: Card[] = [];
   const suits: ('D' | 'C' | 'H' | 'S')[] = ['D', 'C', 'H', 'S'];
@@ -542,10 +394,10 @@ function isHighestRemainingTriple(triple: Card[], playedCards: Card[]): boolean
   return suitDiff >= 0;
 }
 
-function isHighestRemainingFiveCardCombo(cards: Card[], comboType: ComboType | 'unknown', playedCards: Card[]): boolean {
+function isHighestRemainingFiveCardCombo(cards: Card[], comboType: ComboType, playedCards: Card[]): boolean {
   if (cards.length !== 5 || comboType === 'unknown') return false;
   
-  const comboStrength = COMBO_STRENGTH[comboType as ComboType];
+  const comboStrength = COMBO_STRENGTH[comboType];
   const remaining = getRemainingCards(playedCards);
   const notInCurrent = remaining.filter(c => !cards.some(p => p.id === c.id));
   
@@ -643,7 +495,7 @@ function isHighestRemainingStraightFlush(cards: Card[], notInCurrent: Card[]): b
   if (mySeqIdx === -1) return false;
   const myTopRank = VALID_STRAIGHT_SEQUENCES[mySeqIdx][4];
   const myTopCard = cards.find(c => c.rank === myTopRank);
-  const mySuitValue = myTopCard ? SUIT_VALUE[myTopCard.suit] : 0;
+  const mySuitValue = myTopCard ? SUIT_VALUE[myTopCard.suit] : -1;
 
   // Group remaining cards (excluding current play) by suit
   const bySuit: { [suit: string]: Set<string> } = {};
@@ -758,8 +610,10 @@ function generateCombosOfType(_cards: Card[], _comboType: ComboType): Card[][] {
   return [];
 }
 
-function isHighestPossiblePlay(cards: Card[], playedCards: Card[]): boolean {
+function isHighestPossiblePlay(cards: Card[], playedCards: Card[], rules: RuleSet): boolean {
   if (!cards || cards.length === 0) return false;
+  // House rules: the detection above assumes the standard suit order and combos
+  if (!isStandardRuleSet(rules)) return isHighestRemainingPlay(cards, playedCards, rules);
 
   const sorted = sortHand(cards);
   const type = classifyCards(cards);
@@ -992,7 +846,7 @@ Deno.serve(async (req) => {
     // 1. Get room ID
     const { data: room, error: roomError } = await supabaseClient
       .from('rooms')
-      .select('id, ranked_mode, is_public')
+      .select('id, ranked_mode, is_public, settings')
       .eq('code', room_code)
       .single();
 
@@ -1003,6 +857,9 @@ Deno.serve(async (req) => {
       );
     }
 
+    // House rules chosen in the lobby (standard rules when unset)
+    const rules = normalizeRuleSet(room.settings?.rule_set);
+
     // 2. Get game state WITH ROW LOCK
     const { data: gameState, error: gameStateError } = await supabaseClient
       .from('game_state')
@@ -1167,19 +1024,20 @@ Deno.serve(async (req) => {
       );
     }
 
-    // 5. ✅ Validate 3♦ requirement (ONLY first play of FIRST MATCH)
+    // 5. ✅ Validate opening card requirement — 3♦ under the standard rules (ONLY first play of FIRST MATCH)
     const match_number = gameState.match_number || 1;
     // 🔧 FIX: Parse played_cards to handle legacy string format (e.g., "D3" → {id:"D3", rank:"3", suit:"D"})
     // This is critical for isHighestPossiblePlay() detection to work correctly
     const played_cards_raw = gameState.played_cards || [];
-    const played_cards = parseCards(played_cards_raw);
+    const played_cards = parseCards(played_cards_raw) as Card[];
     const is_first_play = played_cards.length === 0;
 
     if (is_first_play && match_number === 1) {
-      // ✅ FIX: SQL generates 'D3' (suit-first), not '3D' (rank-first)
-      const has_three_diamond = cards.some((c: Card) => c.id === 'D3' || c.id === '3D');
-      if (!has_three_diamond) {
-        console.log('❌ [play-cards] Missing 3D on first play:', {
+      // ✅ FIX: SQL generates 'D3' (suit-first), not '3D' (rank-first) — compare rank/suit
+      const has_opening_card = cards.some((c: Card) => isOpeningCard(c, rules));
+      if (!has_opening_card) {
+        const openingCardId = getOpeningCardId(rules);
+        console.log(`❌ [play-cards] Missing ${openingCardId} on first play:`, {
           cards: cards.map(c => c.id),
           match_number,
           is_first_play,
@@ -1187,7 +1045,9 @@ Deno.serve(async (req) => {
         return new Response(
           JSON.stringify({
             success: false,
-            error: 'First play of first match must include 3♦ (three of diamonds)',
+            error: openingCardId === '3D'
+              ? 'First play of first match must include 3♦ (three of diamonds)'
+              : `First play of first match must include ${openingCardId}`,
           }),
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
@@ -1195,7 +1055,7 @@ Deno.serve(async (req) => {
     }
 
     // 6. ✅ Classify combo and validate
-    const comboType = classifyCards(cards);
+    const comboType = classifyCards(cards, rules);
     if (comboType === 'unknown') {
       console.log('❌ [play-cards] Invalid card combination:', {
         cards: cards.map(c => c.id),
@@ -1209,7 +1069,7 @@ Deno.serve(async (req) => {
 
     // 7. ✅ Check if play beats last play
     const lastPlay = gameState.last_play as LastPlay | null;
-    if (!canBeatPlay(cards, lastPlay)) {
+    if (!canBeatPlay(cards, lastPlay, rules)) {
       const lastCombo = lastPlay?.combo_type || 'None';
       console.log('❌ [play-cards] Cannot beat last play:', {
         cards: cards.map(c => c.id),
@@ -1230,8 +1090,10 @@ Deno.serve(async (req) => {
 
     // 9. ✅ Verify player has all the cards (with backwards compatibility for string cards)
     const currentHands = gameState.hands || {};
+    // Seats at the table (2 to 4), from the hands that were dealt
+    const seatCount = getSeatCount(currentHands);
     const playerHandRaw = currentHands[player.player_index] || [];
-    const playerHand = parseCards(playerHandRaw); // Parse cards (handles strings and objects)
+    const playerHand = parseCards(playerHandRaw) as Card[]; // Parse cards (handles strings and objects)
     
     for (const card of cards) {
       const hasCard = playerHand.some((c: Card) => c.id === card.id);
@@ -1251,8 +1113,9 @@ Deno.serve(async (req) => {
       }
     }
 
-    // 10. ✅ ONE CARD LEFT RULE: Validate using Postgres function
-    const nextPlayerIndex = (player.player_index + 1) % 4;
+    // 10. ✅ ONE CARD LEFT RULE: Validate with the shared rules module
+    // (same implementation the client uses, so no DB round-trip and no drift)
+    const nextPlayerIndex = getNextSeat(player.player_index, seatCount);
     const nextPlayerHandRaw = currentHands[nextPlayerIndex] || [];
     const nextPlayerHand = parseCards(nextPlayerHandRaw);
     
@@ -1264,60 +1127,26 @@ Deno.serve(async (req) => {
         playingCards: cards.length,
       });
 
-      try {
-        // Create a timeout promise (5 seconds max)
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('One Card Left validation timeout (5s)')), 5000);
-        });
-
-        // Call SQL function with proper JSONB formatting
-        const validationPromise = supabaseClient
-          .rpc('validate_one_card_left_rule', {
-            p_selected_cards: cards,           // Array of Card objects
-            p_current_player_hand: playerHand, // Array of Card objects
-            p_next_player_card_count: nextPlayerHand.length, // INTEGER
-            p_last_play: lastPlay || null      // LastPlay object or null
-          });
+      const oneCardLeftValidation = validateOneCardLeftRule(
+        cards,
+        playerHand,
+        nextPlayerHand.length,
+        lastPlay || null,
+        rules
+      );
 
-        // Race between validation and timeout
-        const { data: oneCardLeftValidation, error: validationError } = await Promise.race([
-          validationPromise,
-          timeoutPromise
-        ]) as any;
-
-        if (validationError) {
-          console.error('❌ One Card Left SQL error:', {
-            message: validationError.message,
-            details: validationError.details,
-            hint: validationError.hint,
-            code: validationError.code,
-          });
-          // P1-H1: Reject play on SQL error — safer to block than allow a rule violation
-          return new Response(
-            JSON.stringify({ success: false, error: 'One Card Left validation failed — please retry' }),
-            { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        } else if (oneCardLeftValidation && !oneCardLeftValidation.valid) {
-          console.log('❌ One Card Left Rule violation:', oneCardLeftValidation);
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error: oneCardLeftValidation.error,
-              required_card: oneCardLeftValidation.required_card,
-            }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        } else {
-          console.log('✅ One Card Left validation passed');
-        }
-      } catch (err) {
-        console.error('❌ One Card Left exception:', err);
-        // P1-H1: Reject play on timeout/exception — prevent rule bypass on slow DB
+      if (!oneCardLeftValidation.valid) {
+        console.log('❌ One Card Left Rule violation:', oneCardLeftValidation);
         return new Response(
-          JSON.stringify({ success: false, error: 'One Card Left validation unavailable — please retry' }),
-          { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({
+            success: false,
+            error: oneCardLeftValidation.error,
+            required_card: oneCardLeftValidation.requiredCard,
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+      console.log('✅ One Card Left validation passed');
     }
 
     // 11. ✅ Remove cards from player's hand
@@ -1351,33 +1180,39 @@ Deno.serve(async (req) => {
         console.error('Failed to get room players for scoring:', playersError);
       } else {
         // Calculate scores for each player
+        const scoring = normalizeScoringConfig(room.settings?.scoring);
+        // Hand sizes as dealt (17 or 18 at short extra-card tables), so the
+        // "never played" doubling matches the client's scoring
+        const dealtHandSizes = getDealtHandSizes(
+          updatedHands,
+          Array.isArray(gameState.play_history) ? gameState.play_history : [],
+          gameState.match_number || 1,
+          normalizeRoomTable(seatCount, room.settings)
+        );
         matchScores = roomPlayersData.map((rp) => {
           const hand = updatedHands[rp.player_index];
-          const cardsRemaining = hand ? hand.length : 0;
           const currentScore = rp.score || 0;
           
-          // Scoring logic
-          let pointsPerCard: number;
-          if (cardsRemaining >= 1 && cardsRemaining <= 4) {
-            pointsPerCard = 1;
-          } else if (cardsRemaining >= 5 && cardsRemaining <= 9) {
-            pointsPerCard = 2;
-          } else if (cardsRemaining >= 10 && cardsRemaining <= 13) {
-            pointsPerCard = 3;
-          } else {
-            pointsPerCard = 0; // Winner
-          }
-          
-          const matchScore = cardsRemaining * pointsPerCard;
-          const cumulativeScore = currentScore + matchScore;
+          // Scoring logic (shared with the client engine, per-room config)
+          const detail = calculateMatchPoints(
+            parseCards(Array.isArray(hand) ? hand : []),
+            scoring,
+            dealtHandSizes[rp.player_index]
+          );
+          const cumulativeScore = currentScore + detail.finalScore;
           
           return {
             player_index: rp.player_index,
             user_id: rp.user_id,
-            cardsRemaining,
-            pointsPerCard,
-            matchScore,
+            cardsRemaining: detail.cardsRemaining,
+            pointsPerCard: detail.pointsPerCard,
+            matchScore: detail.finalScore,
             cumulativeScore,
+            twosRemaining: detail.twosRemaining,
+            twosPenalty: detail.twosPenalty,
+            neverPlayed: detail.neverPlayed,
+            multiplier: detail.multiplier,
+            hongKongBonus: detail.hongKongBonus,
           };
         });
 
@@ -1392,20 +1227,13 @@ Deno.serve(async (req) => {
             .eq('player_index', score.player_index);
         }
 
-        // Check if game should end (someone >= 101 points)
-        gameOver = matchScores.some(s => s.cumulativeScore >= 101);
+        // Check if game should end (someone >= the room's target score)
+        const cumulativeScores = matchScores.map(s => s.cumulativeScore);
+        gameOver = isGameOverScore(cumulativeScores, scoring);
         
         if (gameOver) {
           // Find final winner (lowest score)
-          let lowestScore = Infinity;
-          let winnerIndex = matchScores[0].player_index;
-          
-          for (const score of matchScores) {
-            if (score.cumulativeScore < lowestScore) {
-              lowestScore = score.cumulativeScore;
-              winnerIndex = score.player_index;
-            }
-          }
+          const winnerIndex = matchScores[findLowestScoreIndex(cumulativeScores)].player_index;
           
           finalWinnerIndex = winnerIndex;
           console.log('🎉 GAME OVER! Final winner:', finalWinnerIndex, 'Scores:', matchScores);
@@ -1413,14 +1241,13 @@ Deno.serve(async (req) => {
       }
     }
 
-    // 13. Calculate next turn (COUNTERCLOCKWISE: 0→1→2→3→0)
+    // 13. Calculate next turn (COUNTERCLOCKWISE: 0→1→…→n-1→0)
     /*
-     * Turn order mapping by player_index: 0→1, 1→2, 2→3, 3→0
-     * Example sequence starting from player 0: 0→1→2→3→0 (counterclockwise around the table)
-     * NOTE: This MUST match local game AI turn-order logic and player-pass function
+     * Turn order mapping by player_index: 0→1, 1→2, …, n-1→0 (n = seats dealt)
+     * Example sequence at four seats: 0→1→2→3→0 (counterclockwise around the table)
+     * NOTE: This MUST match player-pass and bot-coordinator (getNextSeat)
      */
-    const turnOrder = [1, 2, 3, 0]; // Next player index for current indices [0, 1, 2, 3]
-    const nextTurn = turnOrder[player.player_index];
+    const nextTurn = getNextSeat(player.player_index, seatCount);
 
     // 12. Update played_cards (all cards played so far)
     const updatedPlayedCards = [...played_cards, ...cards];
@@ -1432,7 +1259,7 @@ Deno.serve(async (req) => {
     // - cards = the current play being evaluated
     // By excluding 'cards' from played_cards, we correctly identify all cards that COULD beat this play.
     // If no unplayed cards can beat it, we know this is the highest possible play and trigger auto-pass.
-    const isHighestPlay = isHighestPossiblePlay(cards, played_cards);
+    const isHighestPlay = isHighestPossiblePlay(cards, played_cards, rules);
     let autoPassTimerState = null;
 
     console.log('⏰ Auto-pass timer check:', {
@@ -1453,8 +1280,7 @@ Deno.serve(async (req) => {
     // the combo size — they physically cannot play a response, so auto-pass should
     // trigger even if the play isn't strictly the "highest possible".
     const comboSize = cards.length;
-    const allOpponentsCantRespond = comboSize > 1 && [0, 1, 2, 3]
-      .filter(i => i !== player.player_index)
+    const allOpponentsCantRespond = comboSize > 1 && getOtherSeats(player.player_index, seatCount)
       .every(i => {
         const hand = updatedHands[i];
         return !hand || (Array.isArray(hand) ? hand.length : 0) < comboSize;
@@ -1463,8 +1289,7 @@ Deno.serve(async (req) => {
     if (allOpponentsCantRespond && !isHighestPlay) {
       console.log('⏰ All opponents have fewer cards than combo size:', {
         comboSize,
-        opponentHandSizes: [0, 1, 2, 3]
-          .filter(i => i !== player.player_index)
+        opponentHandSizes: getOtherSeats(player.player_index, seatCount)
           .map(i => ({ player: i, cards: Array.isArray(updatedHands[i]) ? updatedHands[i].length : 0 })),
       });
     }
@@ -1473,7 +1298,8 @@ Deno.serve(async (req) => {
 
     if (shouldCreateTimer) {
       const serverTimeMs = Date.now();
-      const durationMs = 10000; // 10 seconds
+      // The room's auto-pass window (rooms.settings.auto_pass_timer_seconds, 10s by default)
+      const durationMs = normalizeRoomTimerSettings(room.settings).autoPassSeconds * 1000;
       const endTimestamp = serverTimeMs + durationMs;
       const existingSequenceId = (gameState.auto_pass_timer as any)?.sequence_id || 0;
       const sequenceId = existingSequenceId + 1;
@@ -1525,13 +1351,35 @@ Deno.serve(async (req) => {
       },
     ];
 
+    // 14a. Events this update stands for — appended to game_events by the
+    // game_state trigger in the same transaction (see _shared/gameLog.ts)
+    const playTimestamp = Date.now();
+    const eventSource: GameEventSource =
+      isServiceRole && req.headers.get('x-auto-play') === 'true'
+        ? 'auto_play'
+        : player.is_bot ? 'bot' : 'player';
+    const pendingEvents: PendingGameEvent[] = [
+      {
+        event_type: 'play_made',
+        player_index: player.player_index,
+        event_data: {
+          cards,
+          combo_type: comboType,
+          next_turn: nextTurn,
+          timestamp: playTimestamp,
+          auto_pass_timer: autoPassTimerState,
+          source: eventSource,
+        },
+      },
+    ];
+
     const updateData: any = {
       hands: updatedHands,
       last_play: {
         player_index: player.player_index,
         cards,
         combo_type: comboType,
-        timestamp: Date.now(),
+        timestamp: playTimestamp,
       },
       current_turn: nextTurn,
       passes: 0,
@@ -1550,9 +1398,10 @@ Deno.serve(async (req) => {
     // Set game_phase='finished' to stop all further plays until start_new_match resets it
     // Also store match winner and timestamps for proper tracking
     if (matchEnded) {
+      const matchEndedAt = new Date().toISOString();
       updateData.game_phase = 'finished'; // ← FREEZE THE GAME
       updateData.last_match_winner_index = player.player_index; // Store match winner
-      updateData.match_ended_at = new Date().toISOString(); // Record match end time
+      updateData.match_ended_at = matchEndedAt; // Record match end time
       console.log(`✅ Match ended! Player ${player.player_index} won. Game frozen (phase=finished)`);
 
       // Persist match scores to scores_history so clients can reconstruct the
@@ -1569,13 +1418,29 @@ Deno.serve(async (req) => {
               matchScore: s.matchScore,
               cumulativeScore: s.cumulativeScore,
               cardsRemaining: s.cardsRemaining,
+              pointsPerCard: s.pointsPerCard,
+              twosPenalty: s.twosPenalty,
+              multiplier: s.multiplier,
+              hongKongBonus: s.hongKongBonus,
             })),
           },
         ];
         console.log(`📊 Persisted match ${gameState.match_number || 1} scores to scores_history`);
       }
+      pendingEvents.push({
+        event_type: 'round_ended',
+        player_index: player.player_index,
+        event_data: {
+          match_number: gameState.match_number || 1,
+          winner_index: player.player_index,
+          ended_at: matchEndedAt,
+          scores: updateData.scores_history
+            ? updateData.scores_history[updateData.scores_history.length - 1].scores
+            : null,
+        },
+      });
       
-      // If game is over (someone >= 101), also record game end
+      // If game is over (someone >= target score), also record game end
       if (gameOver && finalWinnerIndex !== null) {
         updateData.game_phase = 'game_over'; // Game completely finished
         updateData.game_winner_index = finalWinnerIndex; // Store game winner (lowest score)
@@ -1590,9 +1455,19 @@ Deno.serve(async (req) => {
           }
           updateData.final_scores = finalScoresMap;
         }
+        pendingEvents.push({
+          event_type: 'game_ended',
+          player_index: finalWinnerIndex,
+          event_data: {
+            winner_index: finalWinnerIndex,
+            final_scores: updateData.final_scores ?? null,
+            ended_at: updateData.game_ended_at,
+          },
+        });
         console.log(`🎉 GAME OVER recorded! Winner: Player ${finalWinnerIndex}`);
       }
     }
+    updateData.pending_events = pendingEvents;
 
     // NOTE: game_phase transition from "first_play" to "playing" is handled automatically
     // by database trigger 'trigger_transition_game_phase' (see migration 20260106222754)
@@ -1645,16 +1520,10 @@ Deno.serve(async (req) => {
           _cachedPlayerHash(playerHash, stableId);
         }
 
-        // opponent_hand_sizes: 4-element array indexed by player seat.
-        // Own seat is null (not an opponent); the three opponent slots hold
+        // opponent_hand_sizes: one entry per seat at the table (2 to 4).
+        // Own seat is null (not an opponent); the opponent slots hold
         // the number of cards each opponent has after this play.
-        const opponentHandSizes: (number | null)[] = [null, null, null, null];
-        for (const idx of [0, 1, 2, 3]) {
-          if (idx !== player.player_index) {
-            const h = updatedHands[idx];
-            opponentHandSizes[idx] = Array.isArray(h) ? h.length : 0;
-          }
-        }
+        const opponentHandSizes = getOpponentHandSizes(updatedHands, player.player_index, seatCount);
         const totalCardsRemaining = Object.values(updatedHands as Record<string, unknown[]>)
           .reduce((sum, h) => sum + (Array.isArray(h) ? h.length : 0), 0);
 
@@ -1670,9 +1539,8 @@ Deno.serve(async (req) => {
           ? gameState.total_training_actions : 0) + 1;
 
         // is_first_play_of_round: no last_play (trick was just won or game start).
-        // 4-player game: all 3 opponents passing means passes === 3.
-        const PLAYER_COUNT = 4;
-        const isFirstPlayOfRound = !gameState.last_play || (gameState.passes ?? 0) >= PLAYER_COUNT - 1;
+        // All opponents passing means passes === seats - 1.
+        const isFirstPlayOfRound = !gameState.last_play || (gameState.passes ?? 0) >= seatCount - 1;
 
         const trainingRow = {
           room_id: room.id,
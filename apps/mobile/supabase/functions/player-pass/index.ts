@@ -7,6 +7,10 @@ import { concurrentModificationResponse } from '../_shared/responses.ts';
 import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 // M12: CORS origin controlled by ALLOWED_ORIGIN env var
 import { buildCorsHeaders } from '../_shared/cors.ts';
+// Shared Big Two rules — the same module backs the client engine (src/game/engine)
+import { type Card, canPassWithOneCardLeftRule, normalizeRuleSet } from '../_shared/gameEngine.ts';
+import type { GameEventSource, PendingGameEvent } from '../_shared/gameLog.ts';
+import { getNextSeat, getOpponentHandSizes, getSeatCount } from '../_shared/roomTable.ts';
 
 // Rate-limit config for player-pass: same budget as play-cards.
 // A player physically cannot pass more than once per turn, so 10/10s is very generous.
@@ -68,16 +72,14 @@ async function fireTrainingPassInsert(
       const playerHandRaw = currentHands[player.player_index] || [];
       const playerHand = Array.isArray(playerHandRaw) ? (playerHandRaw as unknown[]) : [];
 
-      // opponent_hand_sizes: 4-element array indexed by player seat.
-      // Own seat is null (not an opponent); the three opponent slots hold
+      // opponent_hand_sizes: one entry per seat at the table (2 to 4).
+      // Own seat is null (not an opponent); the opponent slots hold
       // the number of cards each opponent currently holds.
-      const opponentHandSizes: (number | null)[] = [null, null, null, null];
-      for (const idx of [0, 1, 2, 3]) {
-        if (idx !== player.player_index) {
-          const h = currentHands[idx];
-          opponentHandSizes[idx] = Array.isArray(h) ? (h as unknown[]).length : 0;
-        }
-      }
+      const opponentHandSizes = getOpponentHandSizes(
+        currentHands,
+        player.player_index,
+        getSeatCount(currentHands)
+      );
       const totalCardsRemaining = Object.values(currentHands as Record<string, unknown[]>)
         .reduce((sum, h) => sum + (Array.isArray(h) ? h.length : 0), 0);
 
@@ -427,7 +429,7 @@ Deno.serve(async (req) => {
     // 1. Get room
     const { data: room, error: roomError } = await supabaseClient
       .from('rooms')
-      .select('id, code, status, ranked_mode, is_public')
+      .select('id, code, status, ranked_mode, is_public, settings')
       .eq('code', room_code)
       .single();
 
@@ -590,10 +592,8 @@ Deno.serve(async (req) => {
     // Get current hands for all players
     const currentHands = gameState.hands || {};
     
-    // Calculate total players from hands object
-    // Validate totalPlayers > 1 before proceeding
-    // This prevents incorrect turn calculations when hands object is empty or malformed
-    const totalPlayers = Object.keys(currentHands).length;
+    // Seats at the table (2 to 4), from the hands that were dealt
+    const totalPlayers = getSeatCount(currentHands);
 
     // Skip One Card Left Rule when the auto_pass_timer is active.
     // An active (and typically already-expired) timer means ALL non-exempt players are
@@ -603,15 +603,14 @@ Deno.serve(async (req) => {
 
     // Only proceed with One Card Left check if we have valid player count AND it is NOT an auto-pass scenario
     if (totalPlayers > 1 && !isAutoPassScenario) {
-    // Calculate next player index (counterclockwise: 0→1→2→3→0)
-    // Use modulo arithmetic to support variable player counts
-    const nextPlayerIndex = (player.player_index + 1) % totalPlayers;
+    // Calculate next player index (counterclockwise: 0→1→…→n-1→0)
+    const nextPlayerIndex = getNextSeat(player.player_index, totalPlayers);
     const nextPlayerHandRaw = currentHands[nextPlayerIndex] || [];
     
     // Using shared parseCards utility from _shared/parseCards.ts
     const nextPlayerHand = parseCards(nextPlayerHandRaw);
     const playerHandRaw = currentHands[player.player_index] || [];
-    const playerHand = parseCards(playerHandRaw);
+    const playerHand = parseCards(playerHandRaw) as Card[];
     const lastPlay = gameState.last_play;
     
     // Only check if: next player has 1 card AND last play was a single
@@ -622,87 +621,31 @@ Deno.serve(async (req) => {
         lastPlayCards: lastPlay.cards.length,
       });
 
-      // Improved timeout cleanup - clear timeout BEFORE rejection
-      // This prevents the issue where rejection happens before flag is set
-      let timeoutId: ReturnType<typeof setTimeout> | null = null;
-      let timeoutCleared = false; // Track if timeout was externally cleared
-      
-      // Helper to safely clear timeout
-      const clearTimeoutSafe = () => {
-        if (timeoutId !== null) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-          timeoutCleared = true;
-        }
-      };
-      
-      try {
-        // Create a timeout promise (5 seconds max) with improved cleanup
-        // Check if timeout was externally cleared before rejecting
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          timeoutId = setTimeout(() => {
-            // Only reject if timeout wasn't cleared externally (race was still pending)
-            if (!timeoutCleared) {
-              timeoutId = null; // Mark as fired
-              reject(new Error('One Card Left validation timeout (5s)'));
-            }
-          }, 5000);
-        });
+      // Same check the client runs before offering the Pass button
+      const oneCardLeftValidation = canPassWithOneCardLeftRule(
+        playerHand,
+        nextPlayerHand.length,
+        lastPlay || null,
+        normalizeRuleSet(room.settings?.rule_set)
+      );
 
-        // Call SQL function - it will check if player has a higher single
-        const validationPromise = supabaseClient
-          .rpc('validate_one_card_left_rule', {
-            p_selected_cards: [],              // Empty array = passing (no cards selected)
-            p_current_player_hand: playerHand, // Player's current hand
-            p_next_player_card_count: nextPlayerHand.length, // Should be 1
-            p_last_play: lastPlay || null      // Last play object
-          });
-
-        // Race between validation and timeout
-        // Always clear timeout in finally block to prevent memory leaks
-        let raceResult: any;
-        try {
-          raceResult = await Promise.race([validationPromise, timeoutPromise]);
-        } finally {
-          // Always clear timeout using safe helper (idempotent)
-          clearTimeoutSafe();
-        }
-        const { data: oneCardLeftValidation, error: validationError } = raceResult;
-
-        if (validationError) {
-          console.error('❌ [player-pass] One Card Left SQL error:', {
-            message: validationError.message,
-            details: validationError.details,
-            hint: validationError.hint,
-            code: validationError.code,
-          });
-          // Don't block gameplay if SQL function fails - just log and continue
-        } else if (oneCardLeftValidation && !oneCardLeftValidation.valid) {
-          console.log('❌ [player-pass] One Card Left Rule blocks pass:', oneCardLeftValidation);
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error: oneCardLeftValidation.error,
-              required_card: oneCardLeftValidation.required_card,
-            }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        } else {
-          console.log('✅ [player-pass] One Card Left validation passed - no higher single available');
-        }
-      } catch (err) {
-        console.error('❌ [player-pass] One Card Left exception:', err);
-        // Don't block gameplay if validation throws - log and continue
+      if (!oneCardLeftValidation.canPass) {
+        console.log('❌ [player-pass] One Card Left Rule blocks pass:', oneCardLeftValidation);
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: oneCardLeftValidation.error,
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
+      console.log('✅ [player-pass] One Card Left validation passed - no higher single available');
     }
     } // End of if (totalPlayers > 1 && !isAutoPassScenario)
 
-    // 6. Calculate next turn (counterclockwise: 0→1→2→3→0)
-    // Turn order mapping: [0→1, 1→2, 2→3, 3→0]
-    // Actual sequence: 0→1→2→3→0 (counterclockwise around the table)
-    // NOTE: MUST match local game AI and play-cards function: [1, 2, 3, 0]
-    const turnOrder = [1, 2, 3, 0]; // Next player index for current indices [0, 1, 2, 3]
-    const nextTurn = turnOrder[player.player_index];
+    // 6. Calculate next turn (counterclockwise: 0→1→…→n-1→0, n = seats dealt)
+    // NOTE: MUST match play-cards and bot-coordinator (getNextSeat)
+    const nextTurn = getNextSeat(player.player_index, totalPlayers);
     
     // Monotonic action counter for training data play_sequence (never resets between tricks).
     // Column is NOT NULL DEFAULT 0 (migration 20260718000003), so null shouldn't occur.
@@ -717,6 +660,22 @@ Deno.serve(async (req) => {
       typeof rawPasses === 'number' && Number.isFinite(rawPasses) ? rawPasses : 0;
     const newPasses = currentPasses + 1;
 
+    // The pass event each update below is tagged with — appended to game_events
+    // by the game_state trigger in the same transaction
+    const eventSource: GameEventSource =
+      isServiceRole && req.headers.get('x-auto-play') === 'true'
+        ? 'auto_play'
+        : player.is_bot ? 'bot' : 'player';
+    const passEvent = (
+      next_turn: number,
+      passes: number,
+      source: GameEventSource = eventSource
+    ): PendingGameEvent[] => [{
+      event_type: 'pass',
+      player_index: player.player_index,
+      event_data: { next_turn, passes, trick_cleared: passes === 0, source },
+    }];
+
     console.log('✅ [player-pass] Processing pass:', {
       player_index: player.player_index,
       next_turn: nextTurn,
@@ -732,21 +691,17 @@ Deno.serve(async (req) => {
     if (newPasses >= passThreshold) {
       console.log(`🎯 [player-pass] ${newPasses} consecutive passes (threshold ${passThreshold}) - clearing trick`);
 
-      // ⚡ CRITICAL FIX: Determine correct next turn after 3 passes
+      // ⚡ CRITICAL FIX: Determine correct next turn once every other player has passed
       // If auto-pass timer is active, return to exempt player (who played highest card)
-      // Otherwise, use normal turn advancement
-      const { data: correctNextTurn, error: nextTurnError } = await supabaseClient
-        .rpc('get_next_turn_after_three_passes', {
-          p_game_state_id: gameState.id,
-          p_last_passing_player_index: player.player_index,
-        });
-
-      if (nextTurnError) {
-        console.error('❌ [player-pass] Failed to calculate next turn:', nextTurnError);
-        // Fallback to normal turn order if SQL function fails
-      }
-
-      const finalNextTurn = (typeof correctNextTurn === 'number') ? correctNextTurn : nextTurn;
+      // Otherwise, use normal turn advancement — after n - 1 passes that is the
+      // player who made the last play. Computed here rather than by the SQL
+      // get_next_turn_after_three_passes, which only knows four seats.
+      const activeTimer = gameState.auto_pass_timer;
+      const exemptSeat = activeTimer?.active === true ? activeTimer.player_index : undefined;
+      const finalNextTurn =
+        typeof exemptSeat === 'number' && exemptSeat >= 0 && exemptSeat < totalPlayers
+          ? exemptSeat
+          : nextTurn;
       
       console.log('🔄 [player-pass] Turn calculation:', {
         normal_next_turn: nextTurn,
@@ -767,6 +722,7 @@ Deno.serve(async (req) => {
           last_play: null,
           auto_pass_timer: null, // Clear timer after trick completes
           total_training_actions: totalTrainingActions + 1,
+          pending_events: passEvent(finalNextTurn, 0),
           updated_at: new Date().toISOString(),
         })
         .eq('id', gameState.id)
@@ -835,7 +791,7 @@ Deno.serve(async (req) => {
       return Date.now() >= endTs;
     })();
 
-    if (isTimerExpired && newPasses < 3) {
+    if (isTimerExpired && newPasses < passThreshold) {
       // ⚡ CASCADE: Timer expired — complete all remaining passes atomically.
       // We know every non-exempt player MUST pass, so skip straight to the
       // "trick cleared" state in a single DB write.
@@ -843,23 +799,16 @@ Deno.serve(async (req) => {
 
       console.log('⚡ [player-pass] SERVER-SIDE CASCADE: Timer expired, completing all remaining passes', {
         current_passes_after_this: newPasses,
-        remaining_passes: 3 - newPasses,
+        remaining_passes: passThreshold - newPasses,
         exempt_player: exemptPlayerIndex,
       });
 
-      // The exempt player (who played the highest card) gets the next turn
-      let cascadeNextTurn: number;
-      if (typeof exemptPlayerIndex === 'number') {
-        cascadeNextTurn = exemptPlayerIndex;
-      } else {
-        // Fallback: use SQL function
-        const { data: correctNextTurn } = await supabaseClient
-          .rpc('get_next_turn_after_three_passes', {
-            p_game_state_id: gameState.id,
-            p_last_passing_player_index: player.player_index,
-          });
-        cascadeNextTurn = (typeof correctNextTurn === 'number') ? correctNextTurn : nextTurn;
-      }
+      // The exempt player (who played the highest card) gets the next turn;
+      // without one the turn moves on round the seats dealt
+      const cascadeNextTurn =
+        typeof exemptPlayerIndex === 'number' && exemptPlayerIndex >= 0 && exemptPlayerIndex < totalPlayers
+          ? exemptPlayerIndex
+          : nextTurn;
 
       // Atomic update with optimistic concurrency: skip to trick-cleared state
       const { data: cascadeRows, error: cascadeError } = await supabaseClient
@@ -870,6 +819,7 @@ Deno.serve(async (req) => {
           last_play: null,
           auto_pass_timer: null, // Clear timer — trick complete
           total_training_actions: totalTrainingActions + 1,
+          pending_events: passEvent(cascadeNextTurn, 0, 'auto_pass'),
           updated_at: new Date().toISOString(),
         })
         .eq('id', gameState.id)
@@ -919,6 +869,7 @@ Deno.serve(async (req) => {
         passes: newPasses,
         // DO NOT touch auto_pass_timer - preserve existing value!
         total_training_actions: totalTrainingActions + 1,
+        pending_events: passEvent(nextTurn, newPasses),
         updated_at: new Date().toISOString(),
       })
       .eq('id', gameState.id)
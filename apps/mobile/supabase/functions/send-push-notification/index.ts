@@ -37,7 +37,7 @@ interface NotificationRequest {
     // via the `(string & {})` extension (keeps the union open without widening to plain string).
     // When type is absent, isThrottled / reserveThrottleSlot use a 'default' bucket
     // so typeless notifications are still rate-limited.
-    type?: 'game_invite' | 'room_invite' | 'your_turn' | 'player_turn' | 'game_started' | 'friend_request' | 'friend_accepted' | 'game_ended' | (string & {});
+    type?: 'game_invite' | 'room_invite' | 'your_turn' | 'player_turn' | 'game_started' | 'friend_request' | 'friend_accepted' | 'game_ended' | 'tournament_table_ready' | 'matchmaking_party' | (string & {});
     roomCode?: string;
     [key: string]: any;
   };
@@ -159,7 +159,8 @@ async function getAccessToken(): Promise<string> {
 
 /** Known event types used as distinct rate-limit buckets. Keep in sync with accepted `data.type` values. Anything else is mapped to 'default' to bound action key growth. */
 const KNOWN_EVENT_TYPES = new Set([
-  'game_invite', 'friend_request', 'friend_accepted', 'game_started', 'game_ended', 'your_turn', 'player_turn', 'default',
+  'game_invite', 'friend_request', 'friend_accepted', 'game_started', 'game_ended', 'your_turn', 'player_turn',
+  'tournament_table_ready', 'matchmaking_party', 'default',
 ]);
 
 /** M22: Map alternate event type names to their canonical form for both
@@ -576,7 +577,7 @@ Deno.serve(async (req) => {
     }
 
     // Validate required fields for game-related notifications
-    if (data?.type && ['game_invite', 'room_invite', 'your_turn', 'player_turn', 'game_started'].includes(data.type)) {
+    if (data?.type && ['game_invite', 'room_invite', 'your_turn', 'player_turn', 'game_started', 'tournament_table_ready'].includes(data.type)) {
       if (!data.roomCode) {
         return new Response(
           JSON.stringify({ error: 'roomCode is required for game notification types' }),
@@ -661,6 +662,10 @@ Deno.serve(async (req) => {
       game_invite: 'notify_game_invites',
       your_turn: 'notify_your_turn',
       game_started: 'notify_game_started',
+      // A tournament table is ready once the round has started
+      tournament_table_ready: 'notify_game_started',
+      // A friend inviting you to queue together
+      matchmaking_party: 'notify_game_invites',
       friend_request: 'notify_friend_requests',
     };
     const prefColumn = PREFERENCE_COLUMN_MAP[normalizedEventType];
@@ -739,6 +744,8 @@ Deno.serve(async (req) => {
           case 'game_invite':
           case 'game_started':
           case 'room_invite':
+          case 'tournament_table_ready':
+          case 'matchmaking_party':
             message.channelId = 'game-updates'
             break
           case 'your_turn':
@@ -3,6 +3,16 @@ import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 // M12: CORS origin controlled by ALLOWED_ORIGIN env var
 import { buildCorsHeaders } from '../_shared/cors.ts';
+import {
+  isGameOverScore,
+  normalizeScoringConfig,
+  createDealSeed,
+  hashDealSeed,
+  dealSeededHands,
+  normalizeRuleSet,
+} from '../_shared/gameEngine.ts';
+import type { PendingGameEvent } from '../_shared/gameLog.ts';
+import { normalizeRoomTable } from '../_shared/roomTable.ts';
 
 const corsHeaders = buildCorsHeaders();
 
@@ -14,35 +24,12 @@ interface Card {
   rank: '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A' | '2';
 }
 
-// Database stores hands as JSONB object with string keys "0"-"3"
-type HandsObject = {
-  "0": Card[];
-  "1": Card[];
-  "2": Card[];
-  "3": Card[];
-};
-
-function createDeck(): Card[] {
-  const suits: Array<'D' | 'C' | 'H' | 'S'> = ['D', 'C', 'H', 'S'];
-  const ranks: Array<'3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A' | '2'> = [
-    '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', '2',
-  ];
-  const deck: Card[] = [];
-  for (const suit of suits) {
-    for (const rank of ranks) {
-      deck.push({ id: `${rank}${suit}`, suit, rank });
-    }
-  }
-  return deck;
-}
+// Database stores hands as JSONB object with string keys "0" to "n - 1" (2 to 4 seats)
+type HandsObject = Record<string, Card[]>;
 
-function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+/** Uniform [0, 1) from the platform CSPRNG, for seeds of games started before seeded deals */
+function secureRandom(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0] / 2 ** 32;
 }
 
 Deno.serve(async (req) => {
@@ -254,22 +241,37 @@ Deno.serve(async (req) => {
       );
     }
 
-    // 1c. SAFETY GUARD: Check if any player has already busted (>= 101 points).
+    // 1c. SAFETY GUARD: Check if any player has already busted (>= the room's target score).
     // play-cards SHOULD have set game_phase='game_over' in this case, but a race
     // condition (or bug) can leave phase='finished' even though the game is over.
     // Guard here so we never deal a new match when the game should be finished.
     {
-      const { data: currentScores } = await supabaseClient
-        .from('room_players')
-        .select('player_index, score')
-        .eq('room_id', roomId);
+      const [{ data: currentScores }, { data: roomSettings }] = await Promise.all([
+        supabaseClient
+          .from('room_players')
+          .select('player_index, score')
+          .eq('room_id', roomId),
+        supabaseClient
+          .from('rooms')
+          .select('settings')
+          .eq('id', roomId)
+          .maybeSingle(),
+      ]);
+      const scoring = normalizeScoringConfig(roomSettings?.settings?.scoring);
 
-      if (currentScores?.some(p => (p.score || 0) >= 101)) {
-        console.log('[start_new_match] 🏆 Safety guard: player has ≥ 101 points — forcing game_over');
+      if (currentScores && isGameOverScore(currentScores.map(p => p.score || 0), scoring)) {
+        console.log(`[start_new_match] 🏆 Safety guard: player has ≥ ${scoring.targetScore} points — forcing game_over`);
         // Ensure game_phase reflects game_over (it may still be 'finished' due to the race)
         const { error: gamePhaseUpdateError } = await supabaseClient
           .from('game_state')
-          .update({ game_phase: 'game_over' })
+          .update({
+            game_phase: 'game_over',
+            pending_events: [{
+              event_type: 'game_ended',
+              player_index: null,
+              event_data: { winner_index: null, final_scores: null, ended_at: null, reason: 'score_limit' },
+            }] satisfies PendingGameEvent[],
+          })
           .eq('room_id', roomId)
           .neq('game_phase', 'playing'); // Do not clobber a legitimately running game
 
@@ -287,7 +289,7 @@ Deno.serve(async (req) => {
             game_over: true,
             already_advanced: true,
             match_number: gameState.match_number,
-            message: 'Game is over: a player has reached 101+ points',
+            message: `Game is over: a player has reached ${scoring.targetScore}+ points`,
           }),
           { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
@@ -302,13 +304,12 @@ Deno.serve(async (req) => {
       // Fallback: Try to find player with 0 cards (backwards compatibility)
       console.log('⚠️ No last_match_winner_index set, falling back to 0-card search...');
       const hands = gameState.hands as HandsObject;
-      for (let i = 0; i < 4; i++) {
-        const hand = hands[String(i) as keyof HandsObject];
+      for (const [seat, hand] of Object.entries(hands ?? {})) {
         if (!hand || !Array.isArray(hand)) {
           continue; // Skip if hand is malformed
         }
         if (hand.length === 0) {
-          winner_index = i;
+          winner_index = Number(seat);
           break;
         }
       }
@@ -335,29 +336,62 @@ Deno.serve(async (req) => {
     }
 
 
-    // 3. Create and shuffle new deck
-    const deck = createDeck();
-    const shuffledDeck = shuffleDeck(deck);
+    // 3. Load the game's secret deal seed (written by start_game_with_bots).
+    // Games started before seeded deals get a seed now; its hash is published below.
+    const { data: seedRow, error: seedError } = await supabaseClient
+      .from('game_deal_seeds')
+      .select('seed, seat_rotation')
+      .eq('room_id', roomId)
+      .maybeSingle();
 
-    // 4. Deal cards (13 cards per player)
-    const newHands = [
-      shuffledDeck.slice(0, 13),
-      shuffledDeck.slice(13, 26),
-      shuffledDeck.slice(26, 39),
-      shuffledDeck.slice(39, 52),
-    ];
+    if (seedError) {
+      return new Response(
+        JSON.stringify({ error: 'Failed to load deal seed', details: seedError }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let dealSeed: string = seedRow?.seed;
+    const seatRotation: number = seedRow?.seat_rotation ?? 0;
+    if (!dealSeed) {
+      dealSeed = createDealSeed(secureRandom);
+      const { error: insertSeedError } = await supabaseClient
+        .from('game_deal_seeds')
+        .insert({ room_id: roomId, seed: dealSeed, seed_hash: hashDealSeed(dealSeed) });
+      if (insertSeedError) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to store deal seed', details: insertSeedError }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // 4. Deal this match from the seed for the room's table (seats and deal variant,
+    // see roomTable.ts), seats rotated at duplicate tables
+    const { data: roomRow } = await supabaseClient
+      .from('rooms')
+      .select('max_players, settings')
+      .eq('id', roomId)
+      .maybeSingle();
+    const table = normalizeRoomTable(roomRow?.max_players, roomRow?.settings);
+    const newMatchNumber = (gameState.match_number || 1) + 1;
+    const newHands = dealSeededHands(
+      dealSeed,
+      newMatchNumber,
+      seatRotation,
+      table.playerCount,
+      table.dealVariant,
+      normalizeRuleSet(roomRow?.settings?.rule_set)
+    );
 
     // 4.5. Convert array to JSONB object (database expects {"0": [...], "1": [...], ...})
     // Integration test coverage needed:
     // - Hands conversion to object format works correctly
     // - Winner detection with JSONB object structure  
     // - played_cards reset between matches
-    const handsObject: HandsObject = {
-      "0": newHands[0],
-      "1": newHands[1],
-      "2": newHands[2],
-      "3": newHands[3],
-    };
+    const handsObject: HandsObject = Object.fromEntries(
+      newHands.map((hand, seat) => [String(seat), hand])
+    );
 
     // 5. Get cumulative scores from room_players (preserve across matches)
     const { data: roomPlayersData, error: playersError } = await supabaseClient
@@ -373,19 +407,30 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Build cumulative scores array [player0_score, player1_score, player2_score, player3_score]
-    const cumulativeScores = [0, 0, 0, 0];
+    // Build cumulative scores array, one score per seat
+    const cumulativeScores: number[] = new Array(table.playerCount).fill(0);
     for (const rp of roomPlayersData) {
       cumulativeScores[rp.player_index] = rp.score || 0;
     }
 
-    // 6. Increment match number
-    const newMatchNumber = (gameState.match_number || 1) + 1;
-
-    // 7. Get existing play_history to preserve across matches
+    // 6. Get existing play_history to preserve across matches
     const existingPlayHistory = (gameState as any).play_history || [];
 
-    // 8. Update game state for new match (preserve cumulative scores AND play_history)
+    // The deal, appended to game_events by the game_state trigger with this update
+    const dealSeedHash = hashDealSeed(dealSeed);
+    const dealEvent: PendingGameEvent = {
+      event_type: 'cards_dealt',
+      player_index: null,
+      event_data: {
+        match_number: newMatchNumber,
+        hands: handsObject,
+        current_turn: winner_index,
+        game_phase: 'playing',
+        deal_seed_hash: dealSeedHash,
+      },
+    };
+
+    // 7. Update game state for new match (preserve cumulative scores AND play_history)
     // Reset match-specific fields but keep game-level tracking.
     // The WHERE clause includes game_phase='finished' AND match_number=<current> so the
     // UPDATE is atomic with the idempotency guard: two concurrent callers that both pass
@@ -405,6 +450,8 @@ Deno.serve(async (req) => {
         play_history: existingPlayHistory, // CRITICAL: Preserve all match histories (don't clear!)
         played_cards: [], // ✅ FIX: Clear played cards for new match
         auto_pass_timer: null,
+        deal_seed_hash: dealSeedHash,
+        pending_events: [dealEvent],
         updated_at: new Date().toISOString(),
       })
       .eq('id', gameState.id)
@@ -434,7 +481,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    // 9. Trigger bot-coordinator if the starting player (winner) is a bot (Task #551)
+    // 8. Trigger bot-coordinator if the starting player (winner) is a bot (Task #551)
     try {
       const { data: startingPlayer } = await supabaseClient
         .from('room_players')
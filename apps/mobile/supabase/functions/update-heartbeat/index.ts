@@ -3,17 +3,17 @@ import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { checkMinimumVersion } from '../_shared/versionCheck.ts';
 // M12: CORS origin controlled by ALLOWED_ORIGIN env var
 import { buildCorsHeaders } from '../_shared/cors.ts';
+import { normalizeRoomTimerSettings } from '../_shared/roomTimers.ts';
 
 const corsHeaders = buildCorsHeaders();
 
 
 
 
-// Timing constants — keep these in sync with the SQL BOT_REPLACE_AFTER /
-// HEARTBEAT_SLACK values in process_disconnected_players() so drift is obvious.
-/** Force-sweep threshold: must match BOT_REPLACE_AFTER (60 s) to prevent
- *  premature bot replacement when client clock drifts ahead. */
-const FORCE_SWEEP_THRESHOLD_MS = 60_000;
+// Timing constants — keep these in sync with process_disconnected_players() so
+// drift is obvious. The force-sweep threshold is the room's disconnect timer
+// (rooms.settings.disconnect_timer_seconds), the same value Phase B waits for,
+// which prevents premature bot replacement when the client clock drifts ahead.
 /** Matches Phase A's HEARTBEAT_SLACK (30 s). A player silent for this long is
  *  considered disconnected and eligible for the stale-connected force_sweep path. */
 const HEARTBEAT_SLACK_MS = 30_000;
@@ -367,7 +367,8 @@ Deno.serve(async (req) => {
     // 30-second window (~1/6 frequency) — so a malicious client cannot force a sweep by
     // sending a heartbeat_count that is a multiple of 6.  force_sweep is additionally
     // validated server-side: it is only honoured when the room has a player with a
-    // genuinely expired disconnect timer (disconnect_timer_started_at older than 60 s).
+    // genuinely expired disconnect timer (disconnect_timer_started_at older than the
+    // room's disconnect timer).
     // Without that check any authenticated client could trigger process_disconnected_players
     // + bot-coordinator fanout on every heartbeat (DoS vector).
     const sweepSlot = Math.floor(Date.now() / 5_000);
@@ -383,18 +384,25 @@ Deno.serve(async (req) => {
     // server-side validation (expired disconnect timer) to prevent DoS.
     if ((force_sweep === true || sweepOnly) && !shouldSweep) {
       // Primary check: Phase-B-ready player — already marked disconnected with an expired timer.
-      // FORCE_SWEEP_THRESHOLD_MS equals BOT_REPLACE_AFTER (60 s), so the server-side
-      // validation threshold is an exact match: a player must have had
-      // disconnect_timer_started_at set at least 60 s ago to pass. This means the
+      // forceSweepThresholdMs is the room's disconnect timer, which Phase B also waits for,
+      // so the server-side validation threshold is an exact match: a player must have had
+      // disconnect_timer_started_at set at least that long ago to pass. This means the
       // forced-sweep client request is only accepted once the player is already
       // eligible for Phase B replacement; no early replacement is possible.
       // Defense-in-depth: this Edge-runtime Date.now() check is a pre-filter only.
       // The authoritative Phase B replacement is performed by
       // process_disconnected_players(), which uses the DB clock (NOW()).
       // Minor Edge↔DB clock skew is acceptable because the DB function
-      // independently verifies the same 60 s threshold before replacing anyone.
-      // Use lte (not lt) so the boundary case (disconnect_timer_started_at = now-60s
-      // exactly) also passes validation rather than being deferred to the 5s retry.
+      // independently verifies the same threshold before replacing anyone.
+      // Use lte (not lt) so the boundary case (disconnect_timer_started_at exactly one
+      // timer ago) also passes validation rather than being deferred to the 5s retry.
+      const { data: timerRoom } = await supabaseClient
+        .from('rooms')
+        .select('settings')
+        .eq('id', room_id)
+        .maybeSingle();
+      const forceSweepThresholdMs =
+        normalizeRoomTimerSettings(timerRoom?.settings).disconnectSeconds * 1000;
       const { data: expiredTimer, error: expiredTimerError } = await supabaseClient
         .from('room_players')
         .select('id')
@@ -402,7 +410,7 @@ Deno.serve(async (req) => {
         .eq('is_bot', false)
         .neq('connection_status', 'connected')
         .not('disconnect_timer_started_at', 'is', null)
-        .lte('disconnect_timer_started_at', new Date(Date.now() - FORCE_SWEEP_THRESHOLD_MS).toISOString())
+        .lte('disconnect_timer_started_at', new Date(Date.now() - forceSweepThresholdMs).toISOString())
         .limit(1)
         .maybeSingle();
 
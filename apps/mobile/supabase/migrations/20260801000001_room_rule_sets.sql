@@ -0,0 +1,425 @@
+-- =============================================================================
+-- Migration: room_rule_sets
+-- Date: 2026-08-01
+--
+-- House rules per room. Suit order, 2s in straights, flush ranking and
+-- four-of-a-kind-without-kicker used to be hard-coded in the rules engine.
+-- The host now picks a preset (standard / taiwanese / no-twos-in-straights)
+-- or custom rules in the lobby; the choice is stored in
+-- rooms.settings.rule_set and applied by play-cards, player-pass and the bots
+-- (see normalizeRuleSet in supabase/functions/_shared/gameEngine.ts).
+--
+--   1. rooms.settings — ensure the JSONB column exists (it was added from the
+--      dashboard and already stores bot_difficulty).
+--   2. set_room_rule_set — host-only, waiting rooms only, never ranked.
+--   3. start_game_with_bots — the starting player holds the 3 of the lowest
+--      suit in the room's suit order (3♦ under the standard rules).
+-- =============================================================================
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'::JSONB;
+
+-- =============================================================================
+-- set_room_rule_set — host picks the house rules before the game starts
+-- =============================================================================
+-- p_rule_set is the full rule set as produced by normalizeRuleSet():
+--   { preset, suitOrder: ['D','C','H','S'], twosInStraights, flushRanking,
+--     fourOfAKindNeedsKicker }
+-- Storing the resolved values (not just the preset id) lets SQL read the suit
+-- order directly when dealing.
+CREATE OR REPLACE FUNCTION set_room_rule_set(
+  p_room_id  UUID,
+  p_rule_set JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+  v_suits     TEXT[];
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_rule_set: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status, ranked_mode INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_rule_set: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_rule_set: only the host can change house rules';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_rule_set: house rules can only be changed before the game starts';
+  END IF;
+
+  IF v_room.ranked_mode = true THEN
+    RAISE EXCEPTION 'set_room_rule_set: ranked rooms always use the standard rules';
+  END IF;
+
+  -- Shape validation (mirrors normalizeRuleSet)
+  IF p_rule_set IS NULL OR jsonb_typeof(p_rule_set) != 'object' THEN
+    RAISE EXCEPTION 'set_room_rule_set: rule set must be an object';
+  END IF;
+
+  IF p_rule_set->>'preset' IS NULL
+     OR p_rule_set->>'preset' NOT IN ('standard', 'taiwanese', 'no-twos-in-straights', 'custom') THEN
+    RAISE EXCEPTION 'set_room_rule_set: unknown preset %', p_rule_set->>'preset';
+  END IF;
+
+  IF jsonb_typeof(p_rule_set->'suitOrder') IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'set_room_rule_set: suitOrder must be an array';
+  END IF;
+  SELECT array_agg(s ORDER BY s) INTO v_suits
+    FROM jsonb_array_elements_text(p_rule_set->'suitOrder') AS s;
+  IF v_suits IS DISTINCT FROM ARRAY['C', 'D', 'H', 'S'] THEN
+    RAISE EXCEPTION 'set_room_rule_set: suitOrder must list D, C, H and S once each';
+  END IF;
+
+  IF jsonb_typeof(p_rule_set->'twosInStraights') IS DISTINCT FROM 'boolean'
+     OR jsonb_typeof(p_rule_set->'fourOfAKindNeedsKicker') IS DISTINCT FROM 'boolean' THEN
+    RAISE EXCEPTION 'set_room_rule_set: twosInStraights and fourOfAKindNeedsKicker must be booleans';
+  END IF;
+
+  IF p_rule_set->>'flushRanking' IS NULL
+     OR p_rule_set->>'flushRanking' NOT IN ('highest-card', 'suit-first') THEN
+    RAISE EXCEPTION 'set_room_rule_set: unknown flushRanking %', p_rule_set->>'flushRanking';
+  END IF;
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object(
+           'rule_set',
+           jsonb_build_object(
+             'preset',                 p_rule_set->'preset',
+             'suitOrder',              p_rule_set->'suitOrder',
+             'twosInStraights',        p_rule_set->'twosInStraights',
+             'flushRanking',           p_rule_set->'flushRanking',
+             'fourOfAKindNeedsKicker', p_rule_set->'fourOfAKindNeedsKicker'
+           )
+         ),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true, 'rule_set', p_rule_set);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_rule_set(UUID, JSONB) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_rule_set(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION set_room_rule_set(UUID, JSONB) IS
+  'Host-only: store the house rules (RuleSet) in rooms.settings.rule_set. '
+  'Waiting, non-ranked rooms only.';
+
+-- =============================================================================
+-- start_game_with_bots — opening card follows the room's suit order
+-- =============================================================================
+-- Identical to 20260309000003 except for the starting-player lookup.
+CREATE OR REPLACE FUNCTION start_game_with_bots(
+  p_room_id UUID,
+  p_bot_count INTEGER,
+  p_bot_difficulty TEXT DEFAULT 'medium'
+)
+RETURNS JSON AS $$
+DECLARE
+  v_room RECORD;
+  v_human_count INTEGER;
+  v_total_players INTEGER;
+  v_coordinator_id UUID;
+  v_deck TEXT[];
+  v_shuffled_deck TEXT[];
+  v_player_hands JSONB;
+  v_i INTEGER;
+  v_starting_player INTEGER;
+  v_bot_indices INTEGER[];
+  v_bot_name TEXT;
+  v_caller_id UUID;
+  v_is_participant BOOLEAN;
+  v_unready_count INTEGER;  -- Task #623: count of non-host humans who are not ready
+  v_opening_card TEXT;      -- 3 of the lowest suit in the room's house rules ('D3' by default)
+BEGIN
+  -- 🔒 SECURITY CHECK: Verify caller is in the room
+  v_caller_id := auth.uid();
+
+  IF v_caller_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be authenticated'
+    );
+  END IF;
+
+  -- Check if caller is a participant in the room
+  SELECT EXISTS(
+    SELECT 1 FROM room_players
+    WHERE room_id = p_room_id
+    AND user_id = v_caller_id
+  ) INTO v_is_participant;
+
+  IF NOT v_is_participant THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be a room participant to start game'
+    );
+  END IF;
+
+  -- 1. Get room and validate
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room not found',
+      'room_id', p_room_id
+    );
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room is not in waiting status',
+      'current_status', v_room.status
+    );
+  END IF;
+
+  -- 2. Check ranked mode restriction (CRITICAL: Prevent bot injection in ranked games)
+  IF v_room.ranked_mode = true AND p_bot_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot add bots to ranked games'
+    );
+  END IF;
+
+  -- 3. Count human players and calculate bot indices
+  SELECT COUNT(*) INTO v_human_count
+  FROM room_players
+  WHERE room_id = p_room_id AND is_bot = false;
+
+  v_total_players := v_human_count + p_bot_count;
+
+  IF v_total_players != 4 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Total players must be 4',
+      'human_count', v_human_count,
+      'bot_count', p_bot_count
+    );
+  END IF;
+
+  -- 4. Find coordinator using the authoritative rooms.host_id.
+  --    Prefer this over ORDER BY joined_at: host transfer selects by lowest player_index,
+  --    so the host may not be the earliest-joined player.
+  v_coordinator_id := v_room.host_id;
+
+  IF v_coordinator_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room host is not set'
+    );
+  END IF;
+
+  -- Verify the host is a non-bot participant in this room
+  PERFORM 1
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND user_id = v_coordinator_id
+    AND is_bot = false;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Host is not a valid human player in this room'
+    );
+  END IF;
+
+  -- 5. CRITICAL SECURITY: Verify caller is the coordinator
+  IF v_caller_id IS DISTINCT FROM v_coordinator_id THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Only the room coordinator can start the game'
+    );
+  END IF;
+
+  -- 5.5. TASK #623 READY CHECK:
+  --      All non-host (non-coordinator), non-bot players must have is_ready = true.
+  --      The host/coordinator is the initiator and is implicitly ready.
+  --      Bots are always ready and are excluded from this check.
+  SELECT COUNT(*) INTO v_unready_count
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND is_bot = false
+    AND user_id <> v_coordinator_id  -- exclude coordinator instead of relying on is_host
+    AND is_ready IS DISTINCT FROM true;  -- treat NULL as not-ready (defensive: column may be nullable)
+
+  IF v_unready_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot start: ' || v_unready_count || ' player(s) are not ready',
+      'unready_count', v_unready_count
+    );
+  END IF;
+
+  -- 6. Assign bot player_index based on anticlockwise turn order (0→3→2→1→0)
+  IF p_bot_count = 1 THEN
+    v_bot_indices := ARRAY[3];
+  ELSIF p_bot_count = 2 THEN
+    v_bot_indices := ARRAY[3, 2];
+  ELSIF p_bot_count = 3 THEN
+    v_bot_indices := ARRAY[3, 2, 1];
+  ELSE
+    v_bot_indices := ARRAY[]::INTEGER[];
+  END IF;
+
+  -- 7. Create bot players with correct indices and names
+  FOR v_i IN 1..p_bot_count LOOP
+    v_bot_name := 'Bot ' || (v_i + 1)::TEXT;
+
+    INSERT INTO room_players (
+      room_id,
+      user_id,
+      username,
+      is_bot,
+      bot_difficulty,
+      player_index,
+      is_ready
+    )
+    VALUES (
+      p_room_id,
+      NULL, -- Bot players have no auth.users record; NULL bypasses the FK constraint
+            -- (room_players.user_id is nullable). All bot identification uses is_bot=true
+            -- and player_index rather than user_id.
+      v_bot_name,
+      true,
+      p_bot_difficulty,
+      v_bot_indices[v_i],
+      true
+    );
+  END LOOP;
+
+  -- 8. Shuffle deck and deal cards
+  v_deck := ARRAY[
+    'D3','C3','H3','S3','D4','C4','H4','S4','D5','C5','H5','S5',
+    'D6','C6','H6','S6','D7','C7','H7','S7','D8','C8','H8','S8',
+    'D9','C9','H9','S9','D10','C10','H10','S10','DJ','CJ','HJ','SJ',
+    'DQ','CQ','HQ','SQ','DK','CK','HK','SK','DA','CA','HA','SA','D2','C2','H2','S2'
+  ];
+
+  -- Fisher-Yates shuffle
+  FOR v_i IN REVERSE array_length(v_deck, 1)..2 LOOP
+    DECLARE
+      v_j INTEGER := floor(random() * v_i + 1)::INTEGER;
+      v_temp TEXT := v_deck[v_i];
+    BEGIN
+      v_deck[v_i] := v_deck[v_j];
+      v_deck[v_j] := v_temp;
+    END;
+  END LOOP;
+  v_shuffled_deck := v_deck;
+
+  -- Deal 13 cards to each of the 4 players
+  v_player_hands := '{}'::JSONB;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    v_player_hands := v_player_hands || jsonb_build_object(
+      v_i::TEXT,
+      to_jsonb(v_shuffled_deck[(v_i * 13 + 1):(v_i * 13 + 13)])
+    );
+  END LOOP;
+
+  -- Find starting player (who has the opening card: 3♦ unless house rules reorder suits)
+  v_opening_card := COALESCE(v_room.settings->'rule_set'->'suitOrder'->>0, 'D') || '3';
+  v_starting_player := NULL;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    IF v_player_hands->v_i::TEXT @> jsonb_build_array(v_opening_card) THEN
+      v_starting_player := v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_starting_player IS NULL THEN
+    v_starting_player := 0;
+  END IF;
+
+  -- 9. UPSERT game_state
+  INSERT INTO game_state (
+    room_id,
+    current_turn,
+    hands,
+    last_play,
+    passes,
+    round_number,
+    game_phase,
+    played_cards,
+    match_number,
+    play_history,
+    auto_pass_timer,
+    turn_started_at
+  )
+  VALUES (
+    p_room_id,
+    v_starting_player,
+    v_player_hands,
+    NULL,
+    0,
+    1,
+    'first_play',
+    '[]'::JSONB,
+    1,
+    '[]'::JSONB,
+    NULL,
+    NOW()
+  )
+  ON CONFLICT (room_id) DO UPDATE SET
+    current_turn    = EXCLUDED.current_turn,
+    hands           = EXCLUDED.hands,
+    last_play       = EXCLUDED.last_play,
+    passes          = EXCLUDED.passes,
+    round_number    = EXCLUDED.round_number,
+    game_phase      = EXCLUDED.game_phase,
+    played_cards    = EXCLUDED.played_cards,
+    match_number    = EXCLUDED.match_number,
+    play_history    = EXCLUDED.play_history,
+    auto_pass_timer = EXCLUDED.auto_pass_timer,
+    turn_started_at = NOW(),
+    updated_at      = NOW();
+
+  -- 10. Update room status to 'playing'
+  UPDATE rooms
+  SET status = 'playing', updated_at = NOW()
+  WHERE id = p_room_id;
+
+  -- 11. Success
+  RETURN json_build_object(
+    'success', true,
+    'room_id', p_room_id,
+    'starting_player', v_starting_player,
+    'total_players', v_total_players,
+    'bot_indices', v_bot_indices
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  -- Do not expose internal schema/constraint details to the client.
+  -- Log server-side only; return a generic failure response.
+  RAISE WARNING '[start_game_with_bots] Unexpected error for room %: %', p_room_id, SQLERRM;
+  RETURN json_build_object('success', false, 'error', 'An unexpected error occurred. Please try again.');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) IS
+  'Start game with bots. Enforces: (1) authenticated caller, (2) caller is coordinator, '
+  '(3) all non-host human players are ready (Task #623). '
+  'Bot indices follow anticlockwise turn order: 0→3→2→1→0. '
+  'The starting player holds the 3 of the lowest suit in rooms.settings.rule_set.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000001: rooms.settings ensured; set_room_rule_set created; start_game_with_bots opening card follows the room suit order.';
+END $$;
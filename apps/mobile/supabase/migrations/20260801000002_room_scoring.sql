@@ -0,0 +1,139 @@
+-- =============================================================================
+-- Migration: room_scoring
+-- Date: 2026-08-01
+--
+-- Scoring per room. The 1/2/3 points-per-card tiers and the 101-point end
+-- threshold used to be hard-coded. The host now picks a target score
+-- (51 / 101 / 201), multiplier tiers, a "chop 2" penalty for 2s left in hand,
+-- doubling for a player who never played a card and an optional Hong Kong
+-- bonus for the match winner. The choice is stored in rooms.settings.scoring
+-- and applied by play-cards, start_new_match and complete-game
+-- (see normalizeScoringConfig in supabase/functions/_shared/gameEngine.ts).
+--
+--   1. set_room_scoring — host-only, waiting rooms only, never ranked.
+--   2. game_history.scoring — the config a recorded game was scored with.
+-- =============================================================================
+
+-- =============================================================================
+-- set_room_scoring — host picks the scoring before the game starts
+-- =============================================================================
+-- p_scoring is the full config as produced by normalizeScoringConfig():
+--   { targetScore: 101, tiers: [{ maxCards: 4, pointsPerCard: 1 }, ...],
+--     twosPenalty: 0, doubleIfNeverPlayed: false, hongKongBonus: 0 }
+CREATE OR REPLACE FUNCTION set_room_scoring(
+  p_room_id UUID,
+  p_scoring JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+  v_tier      JSONB;
+  v_prev_max  INTEGER := 0;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_scoring: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status, ranked_mode INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_scoring: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_scoring: only the host can change scoring';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_scoring: scoring can only be changed before the game starts';
+  END IF;
+
+  IF v_room.ranked_mode = true THEN
+    RAISE EXCEPTION 'set_room_scoring: ranked rooms always use the standard scoring';
+  END IF;
+
+  -- Shape validation (mirrors normalizeScoringConfig)
+  IF p_scoring IS NULL OR jsonb_typeof(p_scoring) != 'object' THEN
+    RAISE EXCEPTION 'set_room_scoring: scoring must be an object';
+  END IF;
+
+  IF p_scoring->>'targetScore' IS NULL OR p_scoring->>'targetScore' NOT IN ('51', '101', '201') THEN
+    RAISE EXCEPTION 'set_room_scoring: targetScore must be 51, 101 or 201';
+  END IF;
+
+  IF jsonb_typeof(p_scoring->'tiers') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(p_scoring->'tiers') = 0 THEN
+    RAISE EXCEPTION 'set_room_scoring: tiers must be a non-empty array';
+  END IF;
+  FOR v_tier IN SELECT * FROM jsonb_array_elements(p_scoring->'tiers') LOOP
+    IF jsonb_typeof(v_tier->'maxCards') IS DISTINCT FROM 'number'
+       OR jsonb_typeof(v_tier->'pointsPerCard') IS DISTINCT FROM 'number'
+       OR (v_tier->>'maxCards')::NUMERIC <= v_prev_max
+       OR (v_tier->>'maxCards')::NUMERIC != TRUNC((v_tier->>'maxCards')::NUMERIC)
+       OR (v_tier->>'pointsPerCard')::NUMERIC NOT BETWEEN 0 AND 20
+       OR (v_tier->>'pointsPerCard')::NUMERIC != TRUNC((v_tier->>'pointsPerCard')::NUMERIC) THEN
+      RAISE EXCEPTION 'set_room_scoring: tiers must be ascending whole numbers (0-20 points per card)';
+    END IF;
+    v_prev_max := (v_tier->>'maxCards')::INTEGER;
+  END LOOP;
+  IF v_prev_max < 13 THEN
+    RAISE EXCEPTION 'set_room_scoring: the last tier must cover a full 13-card hand';
+  END IF;
+
+  IF jsonb_typeof(p_scoring->'twosPenalty') IS DISTINCT FROM 'number'
+     OR (p_scoring->>'twosPenalty')::NUMERIC NOT BETWEEN 0 AND 20
+     OR jsonb_typeof(p_scoring->'hongKongBonus') IS DISTINCT FROM 'number'
+     OR (p_scoring->>'hongKongBonus')::NUMERIC NOT BETWEEN 0 AND 20 THEN
+    RAISE EXCEPTION 'set_room_scoring: twosPenalty and hongKongBonus must be between 0 and 20';
+  END IF;
+
+  IF jsonb_typeof(p_scoring->'doubleIfNeverPlayed') IS DISTINCT FROM 'boolean' THEN
+    RAISE EXCEPTION 'set_room_scoring: doubleIfNeverPlayed must be a boolean';
+  END IF;
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object(
+           'scoring',
+           jsonb_build_object(
+             'targetScore',         p_scoring->'targetScore',
+             'tiers',               p_scoring->'tiers',
+             'twosPenalty',         p_scoring->'twosPenalty',
+             'doubleIfNeverPlayed', p_scoring->'doubleIfNeverPlayed',
+             'hongKongBonus',       p_scoring->'hongKongBonus'
+           )
+         ),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true, 'scoring', p_scoring);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_scoring(UUID, JSONB) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_scoring(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION set_room_scoring(UUID, JSONB) IS
+  'Host-only: store the scoring config (ScoringConfig) in rooms.settings.scoring. '
+  'Waiting, non-ranked rooms only.';
+
+-- =============================================================================
+-- game_history.scoring — scoring config a recorded game used
+-- =============================================================================
+-- Written by complete-game. NULL for games recorded before this migration,
+-- which all used the classic 1/2/3 tiers to 101.
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS scoring JSONB;
+
+COMMENT ON COLUMN game_history.scoring IS
+  'ScoringConfig the scores were computed with (NULL = classic scoring, pre-2026-08).';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000002: set_room_scoring created; game_history.scoring added.';
+END $$;
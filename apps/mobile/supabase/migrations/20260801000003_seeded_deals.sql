@@ -0,0 +1,674 @@
+-- =============================================================================
+-- Migration: seeded_deals
+-- Date: 2026-08-01
+--
+-- Verifiable dealing and duplicate Big Two. Deals used to come from random(),
+-- so nobody could check them afterwards. Every game now has a secret seed:
+-- its SHA-256 is published in game_state.deal_seed_hash before the first card
+-- is dealt, each match is dealt from sha256(seed:match:step) draws, and the
+-- seed is revealed once the game is over (game_state.deal_seed and
+-- game_history.deal_seed). dealSeededHands() in
+-- supabase/functions/_shared/gameEngine.ts reproduces every deal.
+--
+-- Duplicate mode: up to four tables join a duplicate group and play the
+-- group's seed with their seats rotated (table t: seat s holds hand s + t).
+-- get_duplicate_results compares the tables seat by seat, which cancels out
+-- card luck in club competitions. A group's seed is only revealed once every
+-- table has finished.
+--
+--   1. deal_seeded_deck — the seeded shuffle (mirrors shuffleDeckWithSeed).
+--   2. duplicate_groups / game_deal_seeds — secret seeds (no client access).
+--   3. game_state / game_history columns for the commitment and the reveal.
+--   4. create_duplicate_group / set_room_duplicate_group / get_duplicate_results.
+--   5. start_game_with_bots — deals match 1 from the seed.
+-- =============================================================================
+
+-- =============================================================================
+-- deal_seeded_deck — shuffled deck for one deal of a seeded game
+-- =============================================================================
+-- Fisher-Yates over the rank-major deck (3♦ 3♣ 3♥ 3♠ 4♦ ...). The swap index
+-- for 0-based position i is the first 32 bits of sha256('<seed>:<deal>:<i>')
+-- mod (i + 1), exactly like shuffleDeckWithSeed() in the shared engine.
+CREATE OR REPLACE FUNCTION deal_seeded_deck(
+  p_seed TEXT,
+  p_deal_number INTEGER
+) RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_deck TEXT[] := ARRAY[
+    'D3','C3','H3','S3','D4','C4','H4','S4','D5','C5','H5','S5',
+    'D6','C6','H6','S6','D7','C7','H7','S7','D8','C8','H8','S8',
+    'D9','C9','H9','S9','D10','C10','H10','S10','DJ','CJ','HJ','SJ',
+    'DQ','CQ','HQ','SQ','DK','CK','HK','SK','DA','CA','HA','SA','D2','C2','H2','S2'
+  ];
+  v_i    INTEGER;
+  v_j    INTEGER;
+  v_draw BIGINT;
+  v_temp TEXT;
+BEGIN
+  -- v_i is 1-based; the hashed step is the 0-based position (v_i - 1)
+  FOR v_i IN REVERSE array_length(v_deck, 1)..2 LOOP
+    v_draw := ('x' || lpad(substr(encode(sha256(convert_to(
+      p_seed || ':' || p_deal_number::TEXT || ':' || (v_i - 1)::TEXT, 'UTF8'
+    )), 'hex'), 1, 8), 16, '0'))::BIT(64)::BIGINT;
+    v_j := (v_draw % v_i)::INTEGER + 1;
+    v_temp := v_deck[v_i];
+    v_deck[v_i] := v_deck[v_j];
+    v_deck[v_j] := v_temp;
+  END LOOP;
+  RETURN v_deck;
+END;
+$$;
+
+COMMENT ON FUNCTION deal_seeded_deck(TEXT, INTEGER) IS
+  'Seeded Fisher-Yates shuffle; hand k is elements [13k + 1, 13k + 13]. Mirrors shuffleDeckWithSeed().';
+
+-- =============================================================================
+-- duplicate_groups — tables that play the same seeded deals
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS duplicate_groups (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code        TEXT NOT NULL UNIQUE,
+  seed        TEXT NOT NULL,
+  seed_hash   TEXT NOT NULL,
+  table_count INTEGER NOT NULL CHECK (table_count BETWEEN 2 AND 4),
+  created_by  UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- No policies: the seed must stay secret until every table has finished.
+-- Clients go through create_duplicate_group / get_duplicate_results.
+ALTER TABLE duplicate_groups ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE duplicate_groups IS
+  'Duplicate Big Two: tables sharing one deal seed with rotated seats. Seed readable via RPC only.';
+
+-- =============================================================================
+-- game_deal_seeds — secret seed of every online game
+-- =============================================================================
+-- Kept out of game_state because every player in the room can read that row.
+CREATE TABLE IF NOT EXISTS game_deal_seeds (
+  room_id            UUID PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE,
+  seed               TEXT NOT NULL,
+  seed_hash          TEXT NOT NULL,
+  seat_rotation      SMALLINT NOT NULL DEFAULT 0 CHECK (seat_rotation BETWEEN 0 AND 3),
+  duplicate_group_id UUID REFERENCES duplicate_groups(id) ON DELETE SET NULL,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE game_deal_seeds ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE game_deal_seeds IS
+  'Secret deal seed per room (service role / SECURITY DEFINER only). Revealed by complete-game.';
+
+-- =============================================================================
+-- Commitment and reveal columns
+-- =============================================================================
+ALTER TABLE game_state ADD COLUMN IF NOT EXISTS deal_seed_hash TEXT;
+ALTER TABLE game_state ADD COLUMN IF NOT EXISTS deal_seed TEXT;
+
+COMMENT ON COLUMN game_state.deal_seed_hash IS
+  'SHA-256 of the secret deal seed, published before the first deal.';
+COMMENT ON COLUMN game_state.deal_seed IS
+  'Deal seed, NULL until the game is over (and until every table of a duplicate group has finished).';
+
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS deal_seed TEXT;
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS deal_seed_hash TEXT;
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS seat_rotation SMALLINT;
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS duplicate_group_id UUID
+  REFERENCES duplicate_groups(id) ON DELETE SET NULL;
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS match_scores JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_game_history_duplicate_group
+  ON game_history(duplicate_group_id) WHERE duplicate_group_id IS NOT NULL;
+
+COMMENT ON COLUMN game_history.deal_seed IS
+  'Revealed deal seed (NULL for games before 2026-08 and for unfinished duplicate groups).';
+COMMENT ON COLUMN game_history.match_scores IS
+  'Points per match, seat-indexed: [[seat0, seat1, seat2, seat3], ...]. Used for duplicate comparison.';
+
+-- =============================================================================
+-- create_duplicate_group — start a new group of tables
+-- =============================================================================
+CREATE OR REPLACE FUNCTION create_duplicate_group(
+  p_table_count INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_seed      TEXT := replace(gen_random_uuid()::TEXT, '-', '');
+  v_code      TEXT;
+  v_group_id  UUID;
+  v_attempt   INTEGER := 0;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'create_duplicate_group: not authenticated';
+  END IF;
+
+  IF p_table_count IS NULL OR p_table_count NOT BETWEEN 2 AND 4 THEN
+    RAISE EXCEPTION 'create_duplicate_group: table_count must be between 2 and 4';
+  END IF;
+
+  LOOP
+    v_attempt := v_attempt + 1;
+    v_code := upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 6));
+    BEGIN
+      INSERT INTO duplicate_groups (code, seed, seed_hash, table_count, created_by)
+      VALUES (v_code, v_seed, encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'), p_table_count, v_caller_id)
+      RETURNING id INTO v_group_id;
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      IF v_attempt >= 5 THEN
+        RAISE EXCEPTION 'create_duplicate_group: could not allocate a group code';
+      END IF;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'group_id', v_group_id,
+    'code', v_code,
+    'seed_hash', encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'),
+    'table_count', p_table_count
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_duplicate_group(INTEGER) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION create_duplicate_group(INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION create_duplicate_group(INTEGER) IS
+  'Create a duplicate group (2-4 tables) with a fresh secret seed. Returns its join code and seed hash.';
+
+-- =============================================================================
+-- set_room_duplicate_group — host seats the room at the next free table
+-- =============================================================================
+-- p_code NULL takes the room out of its group. Stored as
+-- rooms.settings.duplicate = { groupId, code, tableIndex }; tableIndex is the
+-- seat rotation start_game_with_bots deals with.
+CREATE OR REPLACE FUNCTION set_room_duplicate_group(
+  p_room_id UUID,
+  p_code TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id   UUID := auth.uid();
+  v_room        RECORD;
+  v_group       RECORD;
+  v_table_index INTEGER;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status, ranked_mode INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: only the host can change the duplicate group';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: the group can only be changed before the game starts';
+  END IF;
+
+  IF v_room.ranked_mode = true THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: ranked rooms cannot join a duplicate group';
+  END IF;
+
+  IF p_code IS NULL OR btrim(p_code) = '' THEN
+    UPDATE rooms
+       SET settings = COALESCE(settings, '{}'::JSONB) - 'duplicate',
+           updated_at = NOW()
+     WHERE id = p_room_id;
+    RETURN jsonb_build_object('success', true, 'duplicate', NULL);
+  END IF;
+
+  -- Lock the group so two hosts cannot take the same table
+  SELECT id, code, table_count INTO v_group
+    FROM duplicate_groups
+   WHERE code = upper(btrim(p_code))
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: no duplicate group with code %', upper(btrim(p_code));
+  END IF;
+
+  SELECT MIN(t.idx) INTO v_table_index
+    FROM generate_series(0, v_group.table_count - 1) AS t(idx)
+   WHERE NOT EXISTS (
+           SELECT 1 FROM rooms r
+            WHERE r.id <> p_room_id
+              AND r.settings->'duplicate'->>'groupId' = v_group.id::TEXT
+              AND (r.settings->'duplicate'->>'tableIndex')::INTEGER = t.idx
+         );
+
+  IF v_table_index IS NULL THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: all % tables of group % are taken', v_group.table_count, v_group.code;
+  END IF;
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object(
+           'duplicate',
+           jsonb_build_object(
+             'groupId',    v_group.id,
+             'code',       v_group.code,
+             'tableIndex', v_table_index,
+             'tableCount', v_group.table_count
+           )
+         ),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'group_id', v_group.id,
+    'code', v_group.code,
+    'table_index', v_table_index
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_duplicate_group(UUID, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_duplicate_group(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION set_room_duplicate_group(UUID, TEXT) IS
+  'Host-only: seat a waiting, non-ranked room at the next free table of a duplicate group (NULL code leaves).';
+
+-- =============================================================================
+-- get_duplicate_results — per-table match scores for the seat comparison
+-- =============================================================================
+-- Returns what compareDuplicateResults() needs. The seed is included once all
+-- tables have a game_history row, so players can verify every deal.
+CREATE OR REPLACE FUNCTION get_duplicate_results(
+  p_group_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group    RECORD;
+  v_tables   JSONB;
+  v_finished INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'get_duplicate_results: not authenticated';
+  END IF;
+
+  SELECT * INTO v_group FROM duplicate_groups WHERE id = p_group_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'get_duplicate_results: duplicate group % not found', p_group_id;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'table_index',   gh.seat_rotation,
+           'room_code',     gh.room_code,
+           'usernames',     jsonb_build_array(gh.player_1_username, gh.player_2_username,
+                                              gh.player_3_username, gh.player_4_username),
+           'match_scores',  COALESCE(gh.match_scores, '[]'::JSONB),
+           'finished_at',   gh.finished_at
+         ) ORDER BY gh.seat_rotation), '[]'::JSONB),
+         COUNT(DISTINCT gh.seat_rotation)
+    INTO v_tables, v_finished
+    FROM game_history gh
+   WHERE gh.duplicate_group_id = v_group.id
+     AND gh.game_completed = true;
+
+  RETURN jsonb_build_object(
+    'group_id',        v_group.id,
+    'code',            v_group.code,
+    'table_count',     v_group.table_count,
+    'tables_finished', v_finished,
+    'seed_hash',       v_group.seed_hash,
+    'seed',            CASE WHEN v_finished >= v_group.table_count THEN v_group.seed END,
+    'tables',          v_tables
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_duplicate_results(UUID) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION get_duplicate_results(UUID) TO authenticated;
+
+COMMENT ON FUNCTION get_duplicate_results(UUID) IS
+  'Finished tables of a duplicate group with seat-indexed match scores; reveals the seed once all tables finished.';
+
+-- =============================================================================
+-- start_game_with_bots — match 1 is dealt from the seed
+-- =============================================================================
+-- Identical to 20260801000001 except for step 8 (seeded deal) and the
+-- deal_seed_hash written to game_state.
+CREATE OR REPLACE FUNCTION start_game_with_bots(
+  p_room_id UUID,
+  p_bot_count INTEGER,
+  p_bot_difficulty TEXT DEFAULT 'medium'
+)
+RETURNS JSON AS $$
+DECLARE
+  v_room RECORD;
+  v_human_count INTEGER;
+  v_total_players INTEGER;
+  v_coordinator_id UUID;
+  v_deck TEXT[];
+  v_shuffled_deck TEXT[];
+  v_player_hands JSONB;
+  v_i INTEGER;
+  v_starting_player INTEGER;
+  v_bot_indices INTEGER[];
+  v_bot_name TEXT;
+  v_caller_id UUID;
+  v_is_participant BOOLEAN;
+  v_unready_count INTEGER;  -- Task #623: count of non-host humans who are not ready
+  v_opening_card TEXT;      -- 3 of the lowest suit in the room's house rules ('D3' by default)
+  v_seed TEXT;              -- Secret deal seed (revealed by complete-game)
+  v_seat_rotation INTEGER := 0;  -- Duplicate table rotation
+  v_group_id UUID;          -- Duplicate group the room plays in, if any
+BEGIN
+  -- 🔒 SECURITY CHECK: Verify caller is in the room
+  v_caller_id := auth.uid();
+
+  IF v_caller_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be authenticated'
+    );
+  END IF;
+
+  -- Check if caller is a participant in the room
+  SELECT EXISTS(
+    SELECT 1 FROM room_players
+    WHERE room_id = p_room_id
+    AND user_id = v_caller_id
+  ) INTO v_is_participant;
+
+  IF NOT v_is_participant THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be a room participant to start game'
+    );
+  END IF;
+
+  -- 1. Get room and validate
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room not found',
+      'room_id', p_room_id
+    );
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room is not in waiting status',
+      'current_status', v_room.status
+    );
+  END IF;
+
+  -- 2. Check ranked mode restriction (CRITICAL: Prevent bot injection in ranked games)
+  IF v_room.ranked_mode = true AND p_bot_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot add bots to ranked games'
+    );
+  END IF;
+
+  -- 3. Count human players and calculate bot indices
+  SELECT COUNT(*) INTO v_human_count
+  FROM room_players
+  WHERE room_id = p_room_id AND is_bot = false;
+
+  v_total_players := v_human_count + p_bot_count;
+
+  IF v_total_players != 4 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Total players must be 4',
+      'human_count', v_human_count,
+      'bot_count', p_bot_count
+    );
+  END IF;
+
+  -- 4. Find coordinator using the authoritative rooms.host_id.
+  --    Prefer this over ORDER BY joined_at: host transfer selects by lowest player_index,
+  --    so the host may not be the earliest-joined player.
+  v_coordinator_id := v_room.host_id;
+
+  IF v_coordinator_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room host is not set'
+    );
+  END IF;
+
+  -- Verify the host is a non-bot participant in this room
+  PERFORM 1
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND user_id = v_coordinator_id
+    AND is_bot = false;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Host is not a valid human player in this room'
+    );
+  END IF;
+
+  -- 5. CRITICAL SECURITY: Verify caller is the coordinator
+  IF v_caller_id IS DISTINCT FROM v_coordinator_id THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Only the room coordinator can start the game'
+    );
+  END IF;
+
+  -- 5.5. TASK #623 READY CHECK:
+  --      All non-host (non-coordinator), non-bot players must have is_ready = true.
+  --      The host/coordinator is the initiator and is implicitly ready.
+  --      Bots are always ready and are excluded from this check.
+  SELECT COUNT(*) INTO v_unready_count
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND is_bot = false
+    AND user_id <> v_coordinator_id  -- exclude coordinator instead of relying on is_host
+    AND is_ready IS DISTINCT FROM true;  -- treat NULL as not-ready (defensive: column may be nullable)
+
+  IF v_unready_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot start: ' || v_unready_count || ' player(s) are not ready',
+      'unready_count', v_unready_count
+    );
+  END IF;
+
+  -- 6. Assign bot player_index based on anticlockwise turn order (0→3→2→1→0)
+  IF p_bot_count = 1 THEN
+    v_bot_indices := ARRAY[3];
+  ELSIF p_bot_count = 2 THEN
+    v_bot_indices := ARRAY[3, 2];
+  ELSIF p_bot_count = 3 THEN
+    v_bot_indices := ARRAY[3, 2, 1];
+  ELSE
+    v_bot_indices := ARRAY[]::INTEGER[];
+  END IF;
+
+  -- 7. Create bot players with correct indices and names
+  FOR v_i IN 1..p_bot_count LOOP
+    v_bot_name := 'Bot ' || (v_i + 1)::TEXT;
+
+    INSERT INTO room_players (
+      room_id,
+      user_id,
+      username,
+      is_bot,
+      bot_difficulty,
+      player_index,
+      is_ready
+    )
+    VALUES (
+      p_room_id,
+      NULL, -- Bot players have no auth.users record; NULL bypasses the FK constraint
+            -- (room_players.user_id is nullable). All bot identification uses is_bot=true
+            -- and player_index rather than user_id.
+      v_bot_name,
+      true,
+      p_bot_difficulty,
+      v_bot_indices[v_i],
+      true
+    );
+  END LOOP;
+
+  -- 8. Seeded deal: duplicate tables share their group's seed and rotate seats;
+  --    every other room gets a fresh seed. Seat i holds dealt hand (i + rotation) % 4.
+  IF v_room.settings ? 'duplicate' THEN
+    SELECT id, seed INTO v_group_id, v_seed
+      FROM duplicate_groups
+     WHERE id = (v_room.settings->'duplicate'->>'groupId')::UUID;
+  END IF;
+
+  IF v_group_id IS NOT NULL THEN
+    v_seat_rotation := COALESCE((v_room.settings->'duplicate'->>'tableIndex')::INTEGER, 0);
+  ELSE
+    v_seed := replace(gen_random_uuid()::TEXT, '-', '');
+  END IF;
+
+  v_shuffled_deck := deal_seeded_deck(v_seed, 1);
+
+  -- Deal 13 cards to each of the 4 players
+  v_player_hands := '{}'::JSONB;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    v_player_hands := v_player_hands || jsonb_build_object(
+      v_i::TEXT,
+      to_jsonb(v_shuffled_deck[
+        (((v_i + v_seat_rotation) % 4) * 13 + 1):(((v_i + v_seat_rotation) % 4) * 13 + 13)
+      ])
+    );
+  END LOOP;
+
+  INSERT INTO game_deal_seeds (room_id, seed, seed_hash, seat_rotation, duplicate_group_id)
+  VALUES (p_room_id, v_seed, encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'), v_seat_rotation, v_group_id)
+  ON CONFLICT (room_id) DO UPDATE SET
+    seed               = EXCLUDED.seed,
+    seed_hash          = EXCLUDED.seed_hash,
+    seat_rotation      = EXCLUDED.seat_rotation,
+    duplicate_group_id = EXCLUDED.duplicate_group_id,
+    created_at         = NOW();
+
+  -- Find starting player (who has the opening card: 3♦ unless house rules reorder suits)
+  v_opening_card := COALESCE(v_room.settings->'rule_set'->'suitOrder'->>0, 'D') || '3';
+  v_starting_player := NULL;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    IF v_player_hands->v_i::TEXT @> jsonb_build_array(v_opening_card) THEN
+      v_starting_player := v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_starting_player IS NULL THEN
+    v_starting_player := 0;
+  END IF;
+
+  -- 9. UPSERT game_state
+  INSERT INTO game_state (
+    room_id,
+    current_turn,
+    hands,
+    last_play,
+    passes,
+    round_number,
+    game_phase,
+    played_cards,
+    match_number,
+    play_history,
+    auto_pass_timer,
+    turn_started_at,
+    deal_seed_hash,
+    deal_seed
+  )
+  VALUES (
+    p_room_id,
+    v_starting_player,
+    v_player_hands,
+    NULL,
+    0,
+    1,
+    'first_play',
+    '[]'::JSONB,
+    1,
+    '[]'::JSONB,
+    NULL,
+    NOW(),
+    encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'),
+    NULL
+  )
+  ON CONFLICT (room_id) DO UPDATE SET
+    current_turn    = EXCLUDED.current_turn,
+    hands           = EXCLUDED.hands,
+    last_play       = EXCLUDED.last_play,
+    passes          = EXCLUDED.passes,
+    round_number    = EXCLUDED.round_number,
+    game_phase      = EXCLUDED.game_phase,
+    played_cards    = EXCLUDED.played_cards,
+    match_number    = EXCLUDED.match_number,
+    play_history    = EXCLUDED.play_history,
+    auto_pass_timer = EXCLUDED.auto_pass_timer,
+    turn_started_at = NOW(),
+    deal_seed_hash  = EXCLUDED.deal_seed_hash,
+    deal_seed       = NULL,
+    updated_at      = NOW();
+
+  -- 10. Update room status to 'playing'
+  UPDATE rooms
+  SET status = 'playing', updated_at = NOW()
+  WHERE id = p_room_id;
+
+  -- 11. Success
+  RETURN json_build_object(
+    'success', true,
+    'room_id', p_room_id,
+    'starting_player', v_starting_player,
+    'total_players', v_total_players,
+    'bot_indices', v_bot_indices
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  -- Do not expose internal schema/constraint details to the client.
+  -- Log server-side only; return a generic failure response.
+  RAISE WARNING '[start_game_with_bots] Unexpected error for room %: %', p_room_id, SQLERRM;
+  RETURN json_build_object('success', false, 'error', 'An unexpected error occurred. Please try again.');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) IS
+  'Start game with bots. Enforces: (1) authenticated caller, (2) caller is coordinator, '
+  '(3) all non-host human players are ready (Task #623). '
+  'Bot indices follow anticlockwise turn order: 0→3→2→1→0. '
+  'The starting player holds the 3 of the lowest suit in rooms.settings.rule_set. '
+  'Cards are dealt from a secret seed (game_deal_seeds); only its SHA-256 is published.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000003: seeded deals (deal_seeded_deck, game_deal_seeds) and duplicate groups created; start_game_with_bots deals from a seed.';
+END $$;
@@ -0,0 +1,23 @@
+-- =============================================================================
+-- Migration: game_replays
+-- Date: 2026-08-01
+--
+-- Replays of finished games. game_state.play_history holds every play of an
+-- online game but the row does not outlive the room, so complete-game now
+-- copies it to game_history.play_history. Local games send theirs (plays and
+-- passes) with the completion payload. Together with game_history.deal_seed
+-- (20260801000003) the replay viewer deals the hands again and steps through
+-- the game move by move (see src/game/engine/replay.ts).
+-- =============================================================================
+
+-- Entries: { match_number, position, cards, combo_type, passed }
+-- NULL for games recorded before this migration (no replay available).
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS play_history JSONB;
+
+COMMENT ON COLUMN game_history.play_history IS
+  'Seat-indexed moves of the game (game_state.play_history format) for the replay viewer.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000004: game_history.play_history added.';
+END $$;
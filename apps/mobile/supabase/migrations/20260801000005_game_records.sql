@@ -0,0 +1,29 @@
+-- =============================================================================
+-- Migration: game_records
+-- Date: 2026-08-01
+--
+-- Portable game records. A finished game can be exported from the match
+-- history as a versioned JSON record (players, seed and hands, every move,
+-- per-match points and the rules it was played with; see
+-- src/game/engine/game-record.ts). game_history already keeps the moves
+-- (20260801000004), the seed (20260801000003) and the scoring config; this
+-- adds the house rules, which so far only lived in rooms.settings and do not
+-- exist for local games at all.
+--
+-- complete-game also fills game_history.match_scores for local games now
+-- (room games already had it), so exported records carry the points of every
+-- match either way.
+-- =============================================================================
+
+-- normalizeRuleSet() shape: { preset, suitOrder, twosInStraights, flushRanking,
+-- fourOfAKindNeedsKicker }. NULL for games recorded before this migration,
+-- which exports as the standard rules.
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS rule_set JSONB;
+
+COMMENT ON COLUMN game_history.rule_set IS
+  'House rules (RuleSet) the game was played with, for exported game records.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000005: game_history.rule_set added.';
+END $$;
@@ -0,0 +1,24 @@
+-- =============================================================================
+-- Migration: move_analysis
+-- Date: 2026-08-01
+--
+-- Post-game move analysis ("blunder check"). After a local game the client
+-- replays the human player's decisions against the hard bot (see
+-- src/game/bot/move-analysis.ts) and sends the resulting accuracy score with
+-- the game to complete-game. The annotations themselves are not stored: they
+-- are rebuilt from play_history and the revealed deal seed whenever the game
+-- is opened in the replay viewer.
+-- =============================================================================
+
+-- 0–100; NULL for online games, games recorded before this migration and
+-- games whose deal could not be rebuilt.
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS accuracy SMALLINT
+  CHECK (accuracy IS NULL OR accuracy BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN game_history.accuracy IS
+  'Move-analysis accuracy (0-100) of the human player of a local game.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000006: game_history.accuracy added.';
+END $$;
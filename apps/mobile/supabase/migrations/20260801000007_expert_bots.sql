@@ -0,0 +1,40 @@
+-- =============================================================================
+-- Migration: expert_bots
+-- Date: 2026-08-01
+--
+-- Adds the 'expert' bot difficulty. Expert bots count cards, infer what their
+-- opponents can still hold from their passes and search the position with
+-- Monte Carlo rollouts (see supabase/functions/_shared/expertBot.ts). The only
+-- schema change is widening the bot_difficulty CHECK constraints.
+--
+-- Scoring: a game against expert bots is not discounted (bot multiplier 1.0,
+-- the same as an all-human game), which is what the ELSE branch of the
+-- multiplier CASE in the auto-play stats functions already gives.
+-- =============================================================================
+
+ALTER TABLE room_players DROP CONSTRAINT IF EXISTS room_players_bot_difficulty_check;
+ALTER TABLE room_players ADD CONSTRAINT room_players_bot_difficulty_check
+  CHECK (bot_difficulty IN ('easy', 'medium', 'hard', 'expert'));
+
+ALTER TABLE game_history DROP CONSTRAINT IF EXISTS game_history_bot_difficulty_check;
+ALTER TABLE game_history ADD CONSTRAINT game_history_bot_difficulty_check
+  CHECK (bot_difficulty IN ('easy', 'medium', 'hard', 'expert'));
+
+COMMENT ON COLUMN game_history.bot_difficulty IS
+  'Difficulty of bot players present in this game (easy/medium/hard/expert). NULL for human-only games. '
+  'All bots in a given game share the same difficulty, so a single column covers all bot slots.';
+
+-- Legacy table: absent on fresh installs (see baseline)
+DO $$
+BEGIN
+  IF to_regclass('public.players') IS NOT NULL THEN
+    ALTER TABLE players DROP CONSTRAINT IF EXISTS players_bot_difficulty_check;
+    ALTER TABLE players ADD CONSTRAINT players_bot_difficulty_check
+      CHECK (bot_difficulty IN ('easy', 'medium', 'hard', 'expert'));
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000007: expert bot difficulty allowed.';
+END $$;
@@ -0,0 +1,424 @@
+-- =============================================================================
+-- Migration: bot_personalities
+-- Date: 2026-08-01
+--
+-- Bot personalities. On top of its difficulty, a bot now has a playing style
+-- (balanced / aggressive / conservative / bluffing) that shapes when it spends
+-- its 2s, whether it breaks pairs for singles and whether it passes to hold
+-- control (see supabase/functions/_shared/botPersonality.ts). The host picks
+-- one per open seat in the lobby, so a table can mix styles.
+--
+--   1. room_players.bot_personality — NULL for humans and bots seated without one.
+--   2. set_room_bot_personalities — host-only, waiting rooms only, never
+--      ranked; stored in rooms.settings.bot_personalities so every player in
+--      the lobby sees the line-up.
+--   3. start_game_with_bots — seats the bots with those personalities.
+-- =============================================================================
+
+ALTER TABLE room_players ADD COLUMN IF NOT EXISTS bot_personality TEXT;
+ALTER TABLE room_players DROP CONSTRAINT IF EXISTS room_players_bot_personality_check;
+ALTER TABLE room_players ADD CONSTRAINT room_players_bot_personality_check
+  CHECK (bot_personality IN ('balanced', 'aggressive', 'conservative', 'bluffing'));
+
+COMMENT ON COLUMN room_players.bot_personality IS
+  'Playing style of a bot (balanced/aggressive/conservative/bluffing); NULL for humans and for bots seated without one (they play balanced).';
+
+-- =============================================================================
+-- set_room_bot_personalities — host picks the bots' styles before the game
+-- =============================================================================
+-- p_personalities lists one personality per bot, in the order
+-- start_game_with_bots seats them (seat 3, then 2, then 1). An empty array
+-- clears the line-up (all bots balanced).
+CREATE OR REPLACE FUNCTION set_room_bot_personalities(
+  p_room_id       UUID,
+  p_personalities TEXT[]
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_bot_personalities: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status, ranked_mode INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_bot_personalities: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_bot_personalities: only the host can pick bot personalities';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_bot_personalities: bots can only be changed before the game starts';
+  END IF;
+
+  IF v_room.ranked_mode = true THEN
+    RAISE EXCEPTION 'set_room_bot_personalities: ranked rooms have no bots';
+  END IF;
+
+  IF p_personalities IS NULL OR COALESCE(array_length(p_personalities, 1), 0) > 3 THEN
+    RAISE EXCEPTION 'set_room_bot_personalities: expected at most 3 personalities';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_personalities) AS p
+     WHERE p IS NULL OR p NOT IN ('balanced', 'aggressive', 'conservative', 'bluffing')
+  ) THEN
+    RAISE EXCEPTION 'set_room_bot_personalities: unknown personality in %', p_personalities;
+  END IF;
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB)
+                    || jsonb_build_object('bot_personalities', to_jsonb(p_personalities)),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true, 'bot_personalities', to_jsonb(p_personalities));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_bot_personalities(UUID, TEXT[]) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_bot_personalities(UUID, TEXT[]) TO authenticated;
+
+COMMENT ON FUNCTION set_room_bot_personalities(UUID, TEXT[]) IS
+  'Host-only: store the bots'' personalities (in seating order) in rooms.settings.bot_personalities. '
+  'Waiting, non-ranked rooms only.';
+
+-- =============================================================================
+-- start_game_with_bots — bots are seated with the host's personalities
+-- =============================================================================
+-- Identical to 20260801000003 except for step 7 (bot_personality).
+CREATE OR REPLACE FUNCTION start_game_with_bots(
+  p_room_id UUID,
+  p_bot_count INTEGER,
+  p_bot_difficulty TEXT DEFAULT 'medium'
+)
+RETURNS JSON AS $$
+DECLARE
+  v_room RECORD;
+  v_human_count INTEGER;
+  v_total_players INTEGER;
+  v_coordinator_id UUID;
+  v_deck TEXT[];
+  v_shuffled_deck TEXT[];
+  v_player_hands JSONB;
+  v_i INTEGER;
+  v_starting_player INTEGER;
+  v_bot_indices INTEGER[];
+  v_bot_name TEXT;
+  v_bot_personality TEXT;   -- Host's pick for this seat (rooms.settings.bot_personalities)
+  v_caller_id UUID;
+  v_is_participant BOOLEAN;
+  v_unready_count INTEGER;  -- Task #623: count of non-host humans who are not ready
+  v_opening_card TEXT;      -- 3 of the lowest suit in the room's house rules ('D3' by default)
+  v_seed TEXT;              -- Secret deal seed (revealed by complete-game)
+  v_seat_rotation INTEGER := 0;  -- Duplicate table rotation
+  v_group_id UUID;          -- Duplicate group the room plays in, if any
+BEGIN
+  -- 🔒 SECURITY CHECK: Verify caller is in the room
+  v_caller_id := auth.uid();
+
+  IF v_caller_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be authenticated'
+    );
+  END IF;
+
+  -- Check if caller is a participant in the room
+  SELECT EXISTS(
+    SELECT 1 FROM room_players
+    WHERE room_id = p_room_id
+    AND user_id = v_caller_id
+  ) INTO v_is_participant;
+
+  IF NOT v_is_participant THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be a room participant to start game'
+    );
+  END IF;
+
+  -- 1. Get room and validate
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room not found',
+      'room_id', p_room_id
+    );
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room is not in waiting status',
+      'current_status', v_room.status
+    );
+  END IF;
+
+  -- 2. Check ranked mode restriction (CRITICAL: Prevent bot injection in ranked games)
+  IF v_room.ranked_mode = true AND p_bot_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot add bots to ranked games'
+    );
+  END IF;
+
+  -- 3. Count human players and calculate bot indices
+  SELECT COUNT(*) INTO v_human_count
+  FROM room_players
+  WHERE room_id = p_room_id AND is_bot = false;
+
+  v_total_players := v_human_count + p_bot_count;
+
+  IF v_total_players != 4 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Total players must be 4',
+      'human_count', v_human_count,
+      'bot_count', p_bot_count
+    );
+  END IF;
+
+  -- 4. Find coordinator using the authoritative rooms.host_id.
+  --    Prefer this over ORDER BY joined_at: host transfer selects by lowest player_index,
+  --    so the host may not be the earliest-joined player.
+  v_coordinator_id := v_room.host_id;
+
+  IF v_coordinator_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room host is not set'
+    );
+  END IF;
+
+  -- Verify the host is a non-bot participant in this room
+  PERFORM 1
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND user_id = v_coordinator_id
+    AND is_bot = false;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Host is not a valid human player in this room'
+    );
+  END IF;
+
+  -- 5. CRITICAL SECURITY: Verify caller is the coordinator
+  IF v_caller_id IS DISTINCT FROM v_coordinator_id THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Only the room coordinator can start the game'
+    );
+  END IF;
+
+  -- 5.5. TASK #623 READY CHECK:
+  --      All non-host (non-coordinator), non-bot players must have is_ready = true.
+  --      The host/coordinator is the initiator and is implicitly ready.
+  --      Bots are always ready and are excluded from this check.
+  SELECT COUNT(*) INTO v_unready_count
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND is_bot = false
+    AND user_id <> v_coordinator_id  -- exclude coordinator instead of relying on is_host
+    AND is_ready IS DISTINCT FROM true;  -- treat NULL as not-ready (defensive: column may be nullable)
+
+  IF v_unready_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot start: ' || v_unready_count || ' player(s) are not ready',
+      'unready_count', v_unready_count
+    );
+  END IF;
+
+  -- 6. Assign bot player_index based on anticlockwise turn order (0→3→2→1→0)
+  IF p_bot_count = 1 THEN
+    v_bot_indices := ARRAY[3];
+  ELSIF p_bot_count = 2 THEN
+    v_bot_indices := ARRAY[3, 2];
+  ELSIF p_bot_count = 3 THEN
+    v_bot_indices := ARRAY[3, 2, 1];
+  ELSE
+    v_bot_indices := ARRAY[]::INTEGER[];
+  END IF;
+
+  -- 7. Create bot players with correct indices, names and personalities
+  --    (bot i takes the i-th personality the host picked; NULL = balanced)
+  FOR v_i IN 1..p_bot_count LOOP
+    v_bot_name := 'Bot ' || (v_i + 1)::TEXT;
+    v_bot_personality := v_room.settings->'bot_personalities'->>(v_i - 1);
+
+    INSERT INTO room_players (
+      room_id,
+      user_id,
+      username,
+      is_bot,
+      bot_difficulty,
+      bot_personality,
+      player_index,
+      is_ready
+    )
+    VALUES (
+      p_room_id,
+      NULL, -- Bot players have no auth.users record; NULL bypasses the FK constraint
+            -- (room_players.user_id is nullable). All bot identification uses is_bot=true
+            -- and player_index rather than user_id.
+      v_bot_name,
+      true,
+      p_bot_difficulty,
+      v_bot_personality,
+      v_bot_indices[v_i],
+      true
+    );
+  END LOOP;
+
+  -- 8. Seeded deal: duplicate tables share their group's seed and rotate seats;
+  --    every other room gets a fresh seed. Seat i holds dealt hand (i + rotation) % 4.
+  IF v_room.settings ? 'duplicate' THEN
+    SELECT id, seed INTO v_group_id, v_seed
+      FROM duplicate_groups
+     WHERE id = (v_room.settings->'duplicate'->>'groupId')::UUID;
+  END IF;
+
+  IF v_group_id IS NOT NULL THEN
+    v_seat_rotation := COALESCE((v_room.settings->'duplicate'->>'tableIndex')::INTEGER, 0);
+  ELSE
+    v_seed := replace(gen_random_uuid()::TEXT, '-', '');
+  END IF;
+
+  v_shuffled_deck := deal_seeded_deck(v_seed, 1);
+
+  -- Deal 13 cards to each of the 4 players
+  v_player_hands := '{}'::JSONB;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    v_player_hands := v_player_hands || jsonb_build_object(
+      v_i::TEXT,
+      to_jsonb(v_shuffled_deck[
+        (((v_i + v_seat_rotation) % 4) * 13 + 1):(((v_i + v_seat_rotation) % 4) * 13 + 13)
+      ])
+    );
+  END LOOP;
+
+  INSERT INTO game_deal_seeds (room_id, seed, seed_hash, seat_rotation, duplicate_group_id)
+  VALUES (p_room_id, v_seed, encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'), v_seat_rotation, v_group_id)
+  ON CONFLICT (room_id) DO UPDATE SET
+    seed               = EXCLUDED.seed,
+    seed_hash          = EXCLUDED.seed_hash,
+    seat_rotation      = EXCLUDED.seat_rotation,
+    duplicate_group_id = EXCLUDED.duplicate_group_id,
+    created_at         = NOW();
+
+  -- Find starting player (who has the opening card: 3♦ unless house rules reorder suits)
+  v_opening_card := COALESCE(v_room.settings->'rule_set'->'suitOrder'->>0, 'D') || '3';
+  v_starting_player := NULL;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    IF v_player_hands->v_i::TEXT @> jsonb_build_array(v_opening_card) THEN
+      v_starting_player := v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_starting_player IS NULL THEN
+    v_starting_player := 0;
+  END IF;
+
+  -- 9. UPSERT game_state
+  INSERT INTO game_state (
+    room_id,
+    current_turn,
+    hands,
+    last_play,
+    passes,
+    round_number,
+    game_phase,
+    played_cards,
+    match_number,
+    play_history,
+    auto_pass_timer,
+    turn_started_at,
+    deal_seed_hash,
+    deal_seed
+  )
+  VALUES (
+    p_room_id,
+    v_starting_player,
+    v_player_hands,
+    NULL,
+    0,
+    1,
+    'first_play',
+    '[]'::JSONB,
+    1,
+    '[]'::JSONB,
+    NULL,
+    NOW(),
+    encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'),
+    NULL
+  )
+  ON CONFLICT (room_id) DO UPDATE SET
+    current_turn    = EXCLUDED.current_turn,
+    hands           = EXCLUDED.hands,
+    last_play       = EXCLUDED.last_play,
+    passes          = EXCLUDED.passes,
+    round_number    = EXCLUDED.round_number,
+    game_phase      = EXCLUDED.game_phase,
+    played_cards    = EXCLUDED.played_cards,
+    match_number    = EXCLUDED.match_number,
+    play_history    = EXCLUDED.play_history,
+    auto_pass_timer = EXCLUDED.auto_pass_timer,
+    turn_started_at = NOW(),
+    deal_seed_hash  = EXCLUDED.deal_seed_hash,
+    deal_seed       = NULL,
+    updated_at      = NOW();
+
+  -- 10. Update room status to 'playing'
+  UPDATE rooms
+  SET status = 'playing', updated_at = NOW()
+  WHERE id = p_room_id;
+
+  -- 11. Success
+  RETURN json_build_object(
+    'success', true,
+    'room_id', p_room_id,
+    'starting_player', v_starting_player,
+    'total_players', v_total_players,
+    'bot_indices', v_bot_indices
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  -- Do not expose internal schema/constraint details to the client.
+  -- Log server-side only; return a generic failure response.
+  RAISE WARNING '[start_game_with_bots] Unexpected error for room %: %', p_room_id, SQLERRM;
+  RETURN json_build_object('success', false, 'error', 'An unexpected error occurred. Please try again.');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) IS
+  'Start game with bots. Enforces: (1) authenticated caller, (2) caller is coordinator, '
+  '(3) all non-host human players are ready (Task #623). '
+  'Bot indices follow anticlockwise turn order: 0→3→2→1→0. '
+  'The starting player holds the 3 of the lowest suit in rooms.settings.rule_set. '
+  'Cards are dealt from a secret seed (game_deal_seeds); only its SHA-256 is published. '
+  'Bots take the personalities in rooms.settings.bot_personalities, in seating order.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000008: bot personalities (room_players.bot_personality, set_room_bot_personalities) added.';
+END $$;
@@ -0,0 +1,380 @@
+-- =============================================================================
+-- Migration: tournaments
+-- Date: 2026-08-01
+--
+-- Tournaments: players register during a window, are seeded by elo_rating
+-- when it closes, and play Swiss or single-elimination rounds of four-seat
+-- tables. Every table gets its own private room with fill_with_bots, so
+-- empty seats (an odd field, or no-shows) are played by bots. The
+-- advance-tournament Edge Function does the scheduling: it closes
+-- registration, draws each round (drawTournamentTables in
+-- supabase/functions/_shared/tournament.ts), creates the rooms, notifies the
+-- players, forfeits tables that never start, and draws the next round once
+-- every table has a result. complete-game records each table's result.
+--
+-- A table's room is seated by whoever joins first (host_id starts NULL); the
+-- host starts the game with bots for anyone who has not shown up. A table
+-- still waiting when check-in closes is forfeited: the players in the room
+-- are placed ahead of the no-shows.
+--
+--   1. tournaments / tournament_entries / tournament_tables (read-only to clients).
+--   2. create_tournament / register_for_tournament / withdraw_from_tournament.
+--   3. Triggers: only a table's players may join its room; a started room
+--      marks its table as playing.
+--   4. pg_cron schedule for advance-tournament (every minute).
+-- =============================================================================
+
+-- =============================================================================
+-- tournaments
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS tournaments (
+  id                     UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name                   TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  format                 TEXT NOT NULL CHECK (format IN ('swiss', 'single-elimination')),
+  status                 TEXT NOT NULL DEFAULT 'registration'
+                           CHECK (status IN ('registration', 'running', 'finished', 'cancelled')),
+  max_entrants           INTEGER NOT NULL CHECK (max_entrants BETWEEN 2 AND 64),
+  round_count            INTEGER,
+  current_round          INTEGER NOT NULL DEFAULT 0,
+  registration_closes_at TIMESTAMPTZ NOT NULL,
+  check_in_minutes       INTEGER NOT NULL DEFAULT 10 CHECK (check_in_minutes BETWEEN 2 AND 60),
+  bot_difficulty         TEXT NOT NULL DEFAULT 'medium'
+                           CHECK (bot_difficulty IN ('easy', 'medium', 'hard', 'expert')),
+  created_by             UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at             TIMESTAMPTZ,
+  finished_at            TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournaments_active
+  ON tournaments(status, registration_closes_at) WHERE status IN ('registration', 'running');
+
+ALTER TABLE tournaments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view tournaments" ON tournaments;
+CREATE POLICY "Authenticated users can view tournaments" ON tournaments
+  FOR SELECT TO authenticated USING (true);
+
+COMMENT ON TABLE tournaments IS
+  'Swiss / single-elimination tournaments. Written by RPCs and the advance-tournament Edge Function only.';
+
+-- =============================================================================
+-- tournament_entries — registered players, their seed and standing
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS tournament_entries (
+  tournament_id    UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  user_id          UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  elo_rating       INTEGER NOT NULL,
+  seed             INTEGER,
+  points           INTEGER NOT NULL DEFAULT 0,
+  wins             INTEGER NOT NULL DEFAULT 0,
+  eliminated_round INTEGER,
+  final_rank       INTEGER,
+  registered_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tournament_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_entries_user ON tournament_entries(user_id);
+
+ALTER TABLE tournament_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view tournament entries" ON tournament_entries;
+CREATE POLICY "Authenticated users can view tournament entries" ON tournament_entries
+  FOR SELECT TO authenticated USING (true);
+
+COMMENT ON COLUMN tournament_entries.elo_rating IS
+  'Rating when the player registered; entrants are seeded by it when registration closes.';
+
+-- =============================================================================
+-- tournament_tables — one room per table per round
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS tournament_tables (
+  id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id      UUID NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  round              INTEGER NOT NULL CHECK (round >= 1),
+  table_number       INTEGER NOT NULL CHECK (table_number >= 1),
+  player_ids         UUID[] NOT NULL,
+  room_id            UUID REFERENCES rooms(id) ON DELETE SET NULL,
+  room_code          TEXT,
+  status             TEXT NOT NULL DEFAULT 'waiting'
+                       CHECK (status IN ('waiting', 'playing', 'finished', 'forfeited')),
+  positions          JSONB,
+  check_in_closes_at TIMESTAMPTZ NOT NULL,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at        TIMESTAMPTZ,
+  UNIQUE (tournament_id, round, table_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_tables_room
+  ON tournament_tables(room_id) WHERE room_id IS NOT NULL;
+
+ALTER TABLE tournament_tables ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view tournament tables" ON tournament_tables;
+CREATE POLICY "Authenticated users can view tournament tables" ON tournament_tables
+  FOR SELECT TO authenticated USING (true);
+
+COMMENT ON COLUMN tournament_tables.positions IS
+  'Finish position per user id ({"<uuid>": 1, ...}). Players missing from it did not show.';
+
+-- =============================================================================
+-- create_tournament — open a tournament for registration
+-- =============================================================================
+CREATE OR REPLACE FUNCTION create_tournament(
+  p_name TEXT,
+  p_format TEXT,
+  p_max_entrants INTEGER,
+  p_registration_closes_at TIMESTAMPTZ,
+  p_bot_difficulty TEXT DEFAULT 'medium'
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id     UUID := auth.uid();
+  v_tournament_id UUID;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'create_tournament: not authenticated';
+  END IF;
+
+  IF p_name IS NULL OR char_length(btrim(p_name)) NOT BETWEEN 1 AND 60 THEN
+    RAISE EXCEPTION 'create_tournament: name must be 1 to 60 characters';
+  END IF;
+
+  IF p_format IS NULL OR p_format NOT IN ('swiss', 'single-elimination') THEN
+    RAISE EXCEPTION 'create_tournament: unknown format %', p_format;
+  END IF;
+
+  IF p_max_entrants IS NULL OR p_max_entrants NOT BETWEEN 2 AND 64 THEN
+    RAISE EXCEPTION 'create_tournament: max_entrants must be between 2 and 64';
+  END IF;
+
+  IF p_registration_closes_at IS NULL
+     OR p_registration_closes_at < NOW() + INTERVAL '5 minutes'
+     OR p_registration_closes_at > NOW() + INTERVAL '30 days' THEN
+    RAISE EXCEPTION 'create_tournament: registration must close between 5 minutes and 30 days from now';
+  END IF;
+
+  IF p_bot_difficulty NOT IN ('easy', 'medium', 'hard', 'expert') THEN
+    RAISE EXCEPTION 'create_tournament: unknown bot difficulty %', p_bot_difficulty;
+  END IF;
+
+  INSERT INTO tournaments (name, format, max_entrants, registration_closes_at, bot_difficulty, created_by)
+  VALUES (btrim(p_name), p_format, p_max_entrants, p_registration_closes_at, p_bot_difficulty, v_caller_id)
+  RETURNING id INTO v_tournament_id;
+
+  RETURN jsonb_build_object('success', true, 'tournament_id', v_tournament_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_tournament(TEXT, TEXT, INTEGER, TIMESTAMPTZ, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION create_tournament(TEXT, TEXT, INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION create_tournament(TEXT, TEXT, INTEGER, TIMESTAMPTZ, TEXT) IS
+  'Create a Swiss or single-elimination tournament open for registration until p_registration_closes_at.';
+
+-- =============================================================================
+-- register_for_tournament / withdraw_from_tournament
+-- =============================================================================
+CREATE OR REPLACE FUNCTION register_for_tournament(
+  p_tournament_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id  UUID := auth.uid();
+  v_tournament tournaments%ROWTYPE;
+  v_entrants   INTEGER;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'register_for_tournament: not authenticated';
+  END IF;
+
+  -- Lock the tournament so concurrent registrations cannot overfill it
+  SELECT * INTO v_tournament FROM tournaments WHERE id = p_tournament_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'register_for_tournament: tournament % not found', p_tournament_id;
+  END IF;
+
+  IF v_tournament.status <> 'registration' OR v_tournament.registration_closes_at <= NOW() THEN
+    RAISE EXCEPTION 'register_for_tournament: registration is closed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM tournament_entries
+    WHERE tournament_id = p_tournament_id AND user_id = v_caller_id
+  ) THEN
+    RETURN jsonb_build_object('success', true, 'already_registered', true);
+  END IF;
+
+  SELECT COUNT(*) INTO v_entrants FROM tournament_entries WHERE tournament_id = p_tournament_id;
+  IF v_entrants >= v_tournament.max_entrants THEN
+    RAISE EXCEPTION 'register_for_tournament: the tournament is full';
+  END IF;
+
+  INSERT INTO tournament_entries (tournament_id, user_id, elo_rating)
+  SELECT p_tournament_id, v_caller_id, COALESCE(p.elo_rating, 1000)
+  FROM profiles p
+  WHERE p.id = v_caller_id;
+
+  RETURN jsonb_build_object('success', true, 'entrants', v_entrants + 1);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION register_for_tournament(UUID) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION register_for_tournament(UUID) TO authenticated;
+
+COMMENT ON FUNCTION register_for_tournament(UUID) IS
+  'Register the caller (with their current elo_rating) while registration is open and the field is not full.';
+
+CREATE OR REPLACE FUNCTION withdraw_from_tournament(
+  p_tournament_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'withdraw_from_tournament: not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tournaments WHERE id = p_tournament_id AND status = 'registration'
+  ) THEN
+    RAISE EXCEPTION 'withdraw_from_tournament: the tournament has already started';
+  END IF;
+
+  DELETE FROM tournament_entries
+  WHERE tournament_id = p_tournament_id AND user_id = v_caller_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION withdraw_from_tournament(UUID) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION withdraw_from_tournament(UUID) TO authenticated;
+
+COMMENT ON FUNCTION withdraw_from_tournament(UUID) IS
+  'Remove the caller from a tournament that has not started yet.';
+
+-- =============================================================================
+-- Tournament rooms — seat only the table's players; track when play starts
+-- =============================================================================
+-- advance-tournament stores rooms.settings.tournament =
+-- { tournamentId, name, round, table, botDifficulty }.
+CREATE OR REPLACE FUNCTION enforce_tournament_room_players()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NULL OR COALESCE(NEW.is_bot, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM tournament_tables t
+    WHERE t.room_id = NEW.room_id
+      AND NOT (NEW.user_id = ANY (t.player_ids))
+  ) THEN
+    RAISE EXCEPTION 'enforce_tournament_room_players: this table is reserved for its tournament players';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_tournament_room_players ON room_players;
+CREATE TRIGGER trg_enforce_tournament_room_players
+  BEFORE INSERT ON room_players
+  FOR EACH ROW EXECUTE FUNCTION enforce_tournament_room_players();
+
+CREATE OR REPLACE FUNCTION mark_tournament_table_playing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE tournament_tables
+  SET status = 'playing'
+  WHERE room_id = NEW.id AND status = 'waiting';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_mark_tournament_table_playing ON rooms;
+CREATE TRIGGER trg_mark_tournament_table_playing
+  AFTER UPDATE OF status ON rooms
+  FOR EACH ROW
+  WHEN (NEW.status = 'playing' AND OLD.status IS DISTINCT FROM 'playing')
+  EXECUTE FUNCTION mark_tournament_table_playing();
+
+-- =============================================================================
+-- pg_cron schedule — invoke advance-tournament every minute
+-- =============================================================================
+-- Closes registration windows and forfeits tables whose check-in has passed.
+-- complete-game also invokes advance-tournament as soon as a table finishes,
+-- so rounds do not wait for the next tick. Uses the same database settings as
+-- the analytics-bigquery-push job (20260727000002_analytics_export_claim.sql).
+DO $$
+DECLARE
+  functions_base_url text := nullif(current_setting('app.supabase_functions_base_url', true), '');
+  cron_secret        text := nullif(current_setting('app.cron_secret', true), '');
+BEGIN
+  IF to_regclass('cron.job') IS NULL THEN
+    RAISE WARNING 'pg_cron is not available; skipping advance-tournament cron registration.';
+    RETURN;
+  END IF;
+
+  IF to_regproc('net.http_post') IS NULL THEN
+    RAISE WARNING 'pg_net (net.http_post) is not available; skipping advance-tournament cron registration.';
+    RETURN;
+  END IF;
+
+  IF functions_base_url IS NULL OR cron_secret IS NULL THEN
+    RAISE WARNING
+      'app.supabase_functions_base_url / app.cron_secret are not set; skipping advance-tournament cron registration.';
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'advance-tournament') THEN
+    PERFORM cron.unschedule('advance-tournament');
+  END IF;
+
+  PERFORM cron.schedule(
+    'advance-tournament',
+    '* * * * *',
+    format(
+      $cron$
+      SELECT net.http_post(
+        url     := %L,
+        headers := jsonb_build_object(
+          'Content-Type',  'application/json',
+          'Authorization', %L
+        ),
+        body    := '{}'::jsonb
+      );
+      $cron$,
+      functions_base_url || '/functions/v1/advance-tournament',
+      'Bearer ' || cron_secret
+    )
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'advance-tournament cron registration failed: %', SQLERRM;
+END
+$$;
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000009: tournaments, tournament_entries, tournament_tables and their RPCs created; advance-tournament scheduled.';
+END $$;
@@ -0,0 +1,494 @@
+-- =============================================================================
+-- Migration: spectator_mode
+-- Date: 2026-08-01
+--
+-- Spectators. Only seated players can read game_state (and get_player_game_state
+-- hides the other hands from them), so nobody else could follow a game. Friends
+-- of the players, and anyone with the room link, can now watch a game in
+-- progress through a read-only view that never carries a live hand:
+--
+--   1. room_spectators — who is watching which room. A spectator cannot take
+--      a seat in that room, and a seated player cannot spectate it.
+--   2. spectator_game_state — the public part of game_state (card counts, last
+--      play, scores), kept in step by a trigger. It is in the realtime
+--      publication, so spectators subscribe to it instead of game_state.
+--   3. spectator_snapshots — for rooms with delayed open hands
+--      (rooms.settings.spectators.revealDelaySeconds, 30-600 s), a history of
+--      the state including hands. No client can read it directly;
+--      get_spectator_game_state only hands out snapshots at least that old.
+--   4. set_room_spectator_settings — host-only, before the game starts; open
+--      hands are not available in ranked rooms.
+--   5. spectate_room / stop_spectating / get_spectator_game_state /
+--      get_friends_live_games RPCs.
+-- =============================================================================
+
+-- =============================================================================
+-- room_spectators
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS room_spectators (
+  room_id    UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id    UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  joined_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_spectators_user ON room_spectators(user_id);
+
+ALTER TABLE room_spectators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Spectators can view their own rows" ON room_spectators;
+CREATE POLICY "Spectators can view their own rows" ON room_spectators
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+COMMENT ON TABLE room_spectators IS
+  'Users watching a room. Written by spectate_room / stop_spectating only.';
+
+-- =============================================================================
+-- spectator_game_state — public projection of game_state (realtime channel)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS spectator_game_state (
+  room_id    UUID PRIMARY KEY REFERENCES rooms(id) ON DELETE CASCADE,
+  state      JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE spectator_game_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Spectators can view the rooms they watch" ON spectator_game_state;
+CREATE POLICY "Spectators can view the rooms they watch" ON spectator_game_state
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM room_spectators s
+    WHERE s.room_id = spectator_game_state.room_id AND s.user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE spectator_game_state IS
+  'Public part of game_state for spectators: {current_turn, game_phase, match_number, last_play, '
+  'pass_count, card_counts, scores_history, game_winner_index, turn_started_at}. Never contains hands.';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'spectator_game_state'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE spectator_game_state;
+  END IF;
+END $$;
+
+-- =============================================================================
+-- spectator_snapshots — delayed open hands (never read by clients directly)
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS spectator_snapshots (
+  id          BIGSERIAL PRIMARY KEY,
+  room_id     UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  state       JSONB NOT NULL,
+  hands       JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_spectator_snapshots_room
+  ON spectator_snapshots(room_id, captured_at DESC);
+
+-- RLS with no policies: only SECURITY DEFINER functions can read or write it.
+ALTER TABLE spectator_snapshots ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE spectator_snapshots IS
+  'State and hands of rooms with delayed open hands, served by get_spectator_game_state '
+  'once older than rooms.settings.spectators.revealDelaySeconds.';
+
+-- =============================================================================
+-- publish_spectator_game_state — keep the spectator tables in step
+-- =============================================================================
+CREATE OR REPLACE FUNCTION publish_spectator_game_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_state JSONB;
+  v_delay INTEGER;
+BEGIN
+  IF NEW.room_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_state := jsonb_build_object(
+    'current_turn',      NEW.current_turn,
+    'game_phase',        NEW.game_phase,
+    'match_number',      NEW.match_number,
+    'last_play',         NEW.last_play,
+    'pass_count',        COALESCE(NEW.pass_count, 0),
+    'card_counts',       (SELECT COALESCE(jsonb_object_agg(key, jsonb_array_length(value)), '{}'::JSONB)
+                            FROM jsonb_each(COALESCE(NEW.hands, '{}'::JSONB))),
+    'scores_history',    COALESCE(NEW.scores_history, '[]'::JSONB),
+    'game_winner_index', NEW.game_winner_index,
+    'turn_started_at',   NEW.turn_started_at
+  );
+
+  INSERT INTO spectator_game_state (room_id, state, updated_at)
+  VALUES (NEW.room_id, v_state, NOW())
+  ON CONFLICT (room_id) DO UPDATE SET state = EXCLUDED.state, updated_at = EXCLUDED.updated_at;
+
+  SELECT (settings->'spectators'->>'revealDelaySeconds')::INTEGER INTO v_delay
+    FROM rooms
+   WHERE id = NEW.room_id;
+
+  IF v_delay IS NOT NULL THEN
+    INSERT INTO spectator_snapshots (room_id, state, hands)
+    VALUES (NEW.room_id, v_state, COALESCE(NEW.hands, '{}'::JSONB));
+
+    -- Keep the newest snapshot old enough to serve and everything after it
+    DELETE FROM spectator_snapshots
+     WHERE room_id = NEW.room_id
+       AND captured_at < (
+         SELECT MAX(captured_at) FROM spectator_snapshots
+          WHERE room_id = NEW.room_id
+            AND captured_at <= NOW() - make_interval(secs => v_delay)
+       );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_publish_spectator_game_state ON game_state;
+CREATE TRIGGER trg_publish_spectator_game_state
+  AFTER INSERT OR UPDATE ON game_state
+  FOR EACH ROW EXECUTE FUNCTION publish_spectator_game_state();
+
+-- =============================================================================
+-- Spectators cannot take a seat in the room they are watching
+-- =============================================================================
+CREATE OR REPLACE FUNCTION enforce_spectator_not_seated()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NULL OR COALESCE(NEW.is_bot, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_spectators s
+    WHERE s.room_id = NEW.room_id AND s.user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'enforce_spectator_not_seated: spectators cannot join the room they are watching';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_spectator_not_seated ON room_players;
+CREATE TRIGGER trg_enforce_spectator_not_seated
+  BEFORE INSERT ON room_players
+  FOR EACH ROW EXECUTE FUNCTION enforce_spectator_not_seated();
+
+-- =============================================================================
+-- set_room_spectator_settings — host decides who may watch, and how
+-- =============================================================================
+-- Stored in rooms.settings.spectators = { allowSpectators, revealDelaySeconds }.
+-- Fixed once the game starts, so the delay cannot be shortened mid-game.
+CREATE OR REPLACE FUNCTION set_room_spectator_settings(
+  p_room_id               UUID,
+  p_allow_spectators      BOOLEAN,
+  p_reveal_delay_seconds  INTEGER DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+  v_settings  JSONB;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_spectator_settings: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status, ranked_mode INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_spectator_settings: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_spectator_settings: only the host can change spectator settings';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_spectator_settings: spectator settings can only be changed before the game starts';
+  END IF;
+
+  IF p_reveal_delay_seconds IS NOT NULL THEN
+    IF p_reveal_delay_seconds NOT BETWEEN 30 AND 600 THEN
+      RAISE EXCEPTION 'set_room_spectator_settings: reveal delay must be between 30 and 600 seconds';
+    END IF;
+    IF v_room.ranked_mode = true THEN
+      RAISE EXCEPTION 'set_room_spectator_settings: ranked rooms cannot show open hands';
+    END IF;
+    IF NOT COALESCE(p_allow_spectators, true) THEN
+      RAISE EXCEPTION 'set_room_spectator_settings: open hands need spectators to be allowed';
+    END IF;
+  END IF;
+
+  v_settings := jsonb_build_object(
+    'allowSpectators',    COALESCE(p_allow_spectators, true),
+    'revealDelaySeconds', p_reveal_delay_seconds
+  );
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object('spectators', v_settings),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object('success', true, 'spectators', v_settings);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_spectator_settings(UUID, BOOLEAN, INTEGER) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_spectator_settings(UUID, BOOLEAN, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION set_room_spectator_settings(UUID, BOOLEAN, INTEGER) IS
+  'Host-only: allow or refuse spectators and set the delayed open-hands view (30-600 s, '
+  'non-ranked rooms only) in rooms.settings.spectators. Waiting rooms only.';
+
+-- =============================================================================
+-- spectate_room — start watching a game in progress
+-- =============================================================================
+CREATE OR REPLACE FUNCTION spectate_room(p_room_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'spectate_room: not authenticated';
+  END IF;
+
+  SELECT id, code, status, settings INTO v_room
+    FROM rooms
+   WHERE code = UPPER(TRIM(p_room_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'spectate_room: room % not found', p_room_code;
+  END IF;
+
+  IF v_room.status != 'playing' THEN
+    RAISE EXCEPTION 'spectate_room: the game in this room is not in progress';
+  END IF;
+
+  IF v_room.settings->'spectators'->>'allowSpectators' = 'false' THEN
+    RAISE EXCEPTION 'spectate_room: the host does not allow spectators';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_players
+    WHERE room_id = v_room.id
+      AND (user_id = v_caller_id OR human_user_id = v_caller_id)
+  ) THEN
+    RAISE EXCEPTION 'spectate_room: players cannot spectate their own game';
+  END IF;
+
+  INSERT INTO room_spectators (room_id, user_id)
+  VALUES (v_room.id, v_caller_id)
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'room_id', v_room.id,
+    'room_code', v_room.code,
+    'reveal_delay_seconds', (v_room.settings->'spectators'->>'revealDelaySeconds')::INTEGER
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION spectate_room(TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION spectate_room(TEXT) TO authenticated;
+
+COMMENT ON FUNCTION spectate_room(TEXT) IS
+  'Watch the game in progress in a room (by code) unless the host refused spectators. '
+  'Players of the room cannot spectate it.';
+
+-- =============================================================================
+-- stop_spectating
+-- =============================================================================
+CREATE OR REPLACE FUNCTION stop_spectating(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'stop_spectating: not authenticated';
+  END IF;
+
+  DELETE FROM room_spectators WHERE room_id = p_room_id AND user_id = v_caller_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION stop_spectating(UUID) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION stop_spectating(UUID) TO authenticated;
+
+COMMENT ON FUNCTION stop_spectating(UUID) IS
+  'Stop watching a room.';
+
+-- =============================================================================
+-- get_spectator_game_state — the spectator view of a room
+-- =============================================================================
+-- Without open hands: the live public state. With open hands: the newest
+-- snapshot at least revealDelaySeconds old, hands included ('state' is NULL
+-- until the game has been running that long).
+CREATE OR REPLACE FUNCTION get_spectator_game_state(p_room_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+  v_delay     INTEGER;
+  v_players   JSONB;
+  v_state     JSONB;
+  v_hands     JSONB;
+  v_as_of     TIMESTAMPTZ;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'get_spectator_game_state: not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM room_spectators WHERE room_id = p_room_id AND user_id = v_caller_id
+  ) THEN
+    RAISE EXCEPTION 'get_spectator_game_state: not spectating this room';
+  END IF;
+
+  -- Defence in depth: a seated player never gets the spectator view
+  IF EXISTS (
+    SELECT 1 FROM room_players
+    WHERE room_id = p_room_id
+      AND (user_id = v_caller_id OR human_user_id = v_caller_id)
+  ) THEN
+    RAISE EXCEPTION 'get_spectator_game_state: players cannot spectate their own game';
+  END IF;
+
+  SELECT id, code, status, settings INTO v_room FROM rooms WHERE id = p_room_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'get_spectator_game_state: room % not found', p_room_id;
+  END IF;
+
+  v_delay := (v_room.settings->'spectators'->>'revealDelaySeconds')::INTEGER;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'player_index', player_index,
+           'username', username,
+           'is_bot', COALESCE(is_bot, false)
+         ) ORDER BY player_index), '[]'::JSONB)
+    INTO v_players
+    FROM room_players
+   WHERE room_id = p_room_id;
+
+  IF v_delay IS NULL THEN
+    SELECT state, updated_at INTO v_state, v_as_of
+      FROM spectator_game_state
+     WHERE room_id = p_room_id;
+  ELSE
+    SELECT state, hands, captured_at INTO v_state, v_hands, v_as_of
+      FROM spectator_snapshots
+     WHERE room_id = p_room_id
+       AND captured_at <= NOW() - make_interval(secs => v_delay)
+     ORDER BY captured_at DESC
+     LIMIT 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'room_id', v_room.id,
+    'room_code', v_room.code,
+    'room_status', v_room.status,
+    'reveal_delay_seconds', v_delay,
+    'players', v_players,
+    'state', v_state,
+    'hands', v_hands,
+    'as_of', v_as_of
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_spectator_game_state(UUID) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION get_spectator_game_state(UUID) TO authenticated;
+
+COMMENT ON FUNCTION get_spectator_game_state(UUID) IS
+  'Spectator view of a room: players and the public game state, or with delayed open hands '
+  'the newest snapshot (hands included) older than rooms.settings.spectators.revealDelaySeconds.';
+
+-- =============================================================================
+-- get_friends_live_games — friends' games the caller can watch
+-- =============================================================================
+CREATE OR REPLACE FUNCTION get_friends_live_games()
+RETURNS TABLE (
+  friend_id  UUID,
+  username   TEXT,
+  room_id    UUID,
+  room_code  TEXT,
+  started_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'get_friends_live_games: not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT rp.user_id, rp.username, r.id, r.code, r.started_at
+    FROM friendships f
+    JOIN room_players rp
+      ON rp.user_id = CASE WHEN f.requester_id = v_caller_id THEN f.addressee_id ELSE f.requester_id END
+     AND COALESCE(rp.is_bot, false) = false
+    JOIN rooms r ON r.id = rp.room_id
+   WHERE f.status = 'accepted'
+     AND v_caller_id IN (f.requester_id, f.addressee_id)
+     AND r.status = 'playing'
+     AND r.settings->'spectators'->>'allowSpectators' IS DISTINCT FROM 'false'
+     AND NOT EXISTS (
+       SELECT 1 FROM room_players me
+       WHERE me.room_id = r.id
+         AND (me.user_id = v_caller_id OR me.human_user_id = v_caller_id)
+     );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_friends_live_games() FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION get_friends_live_games() TO authenticated;
+
+COMMENT ON FUNCTION get_friends_live_games() IS
+  'Games in progress with one of the caller''s friends seated, that allow spectators.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000010: spectator mode (room_spectators, spectator_game_state, spectator_snapshots and their RPCs) added.';
+END $$;
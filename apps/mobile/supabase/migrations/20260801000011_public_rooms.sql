@@ -0,0 +1,228 @@
+-- =============================================================================
+-- Migration: public_rooms
+-- Date: 2026-08-01
+--
+-- Public room browser. Create Room always made private rooms and Join Room
+-- only took a code, so a player without friends online could only play
+-- through matchmaking. Hosts can now list a room publicly with a title, the
+-- bots' difficulty and a turn timer (rooms.settings.title / bot_difficulty /
+-- turn_timer_seconds, see normalizeRoomListingSettings in
+-- supabase/functions/_shared/roomListing.ts), and anyone can browse and join
+-- open rooms:
+--
+--   1. rooms.region — copied from the host's profile when the room is listed,
+--      so the browser can filter by region.
+--   2. rooms.current_players — kept in step with room_players by a trigger.
+--      room_players is only readable by the room's own players, but rooms is
+--      readable by everyone and in the realtime publication, so the browser
+--      gets live seat counts from rooms alone.
+--   3. set_room_listing — host-only, waiting rooms only.
+--   4. list_public_rooms — open public rooms, filtered by region, ranked /
+--      casual and rule preset. Joining goes through join_room_atomic as before.
+-- =============================================================================
+
+-- =============================================================================
+-- 1. rooms.region
+-- =============================================================================
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS region VARCHAR(10) DEFAULT 'global';
+
+-- =============================================================================
+-- 2. rooms.current_players
+-- =============================================================================
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS current_players INTEGER DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION sync_room_current_players()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.room_id ELSE NEW.room_id END;
+BEGIN
+  UPDATE rooms
+     SET current_players = (SELECT COUNT(*) FROM room_players WHERE room_id = v_room_id)
+   WHERE id = v_room_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.room_id IS DISTINCT FROM NEW.room_id THEN
+    UPDATE rooms
+       SET current_players = (SELECT COUNT(*) FROM room_players WHERE room_id = OLD.room_id)
+     WHERE id = OLD.room_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_room_current_players ON room_players;
+CREATE TRIGGER sync_room_current_players
+  AFTER INSERT OR DELETE OR UPDATE OF room_id ON room_players
+  FOR EACH ROW EXECUTE FUNCTION sync_room_current_players();
+
+-- Backfill
+UPDATE rooms r
+   SET current_players = (SELECT COUNT(*) FROM room_players rp WHERE rp.room_id = r.id);
+
+CREATE INDEX IF NOT EXISTS idx_rooms_public_waiting
+  ON rooms(created_at DESC)
+  WHERE is_public = true AND status = 'waiting';
+
+-- =============================================================================
+-- 3. set_room_listing — host sets the room's title, bots and turn timer
+-- =============================================================================
+-- p_title is trimmed; blank titles clear it. The house rules are set
+-- separately through set_room_rule_set.
+CREATE OR REPLACE FUNCTION set_room_listing(
+  p_room_id            UUID,
+  p_title              TEXT,
+  p_bot_difficulty     TEXT,
+  p_turn_timer_seconds INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+  v_title     TEXT := NULLIF(btrim(regexp_replace(COALESCE(p_title, ''), '\s+', ' ', 'g')), '');
+  v_region    TEXT;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_listing: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_listing: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_listing: only the host can change the room listing';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_listing: the room listing can only be changed before the game starts';
+  END IF;
+
+  -- Bounds (mirror normalizeRoomListingSettings)
+  IF char_length(v_title) > 40 THEN
+    RAISE EXCEPTION 'set_room_listing: title must be at most 40 characters';
+  END IF;
+
+  IF p_bot_difficulty IS NULL OR p_bot_difficulty NOT IN ('easy', 'medium', 'hard', 'expert') THEN
+    RAISE EXCEPTION 'set_room_listing: unknown bot difficulty %', p_bot_difficulty;
+  END IF;
+
+  IF p_turn_timer_seconds IS NULL OR p_turn_timer_seconds NOT BETWEEN 15 AND 120 THEN
+    RAISE EXCEPTION 'set_room_listing: turn timer must be between 15 and 120 seconds';
+  END IF;
+
+  SELECT COALESCE(region, 'global') INTO v_region FROM profiles WHERE id = v_caller_id;
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object(
+           'title',              v_title,
+           'bot_difficulty',     p_bot_difficulty,
+           'turn_timer_seconds', p_turn_timer_seconds
+         ),
+         region = COALESCE(v_region, 'global'),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'title', v_title,
+    'bot_difficulty', p_bot_difficulty,
+    'turn_timer_seconds', p_turn_timer_seconds
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_listing(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_listing(UUID, TEXT, TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION set_room_listing(UUID, TEXT, TEXT, INTEGER) IS
+  'Host-only: store the room title, bot difficulty and turn timer in rooms.settings and '
+  'copy the host''s region to rooms.region. Waiting rooms only.';
+
+-- =============================================================================
+-- 4. list_public_rooms — open rooms for the room browser
+-- =============================================================================
+-- NULL filters match everything. p_rule_preset matches
+-- rooms.settings.rule_set.preset; rooms without house rules are 'standard'.
+-- Tournament tables and matchmaking rooms are never listed.
+CREATE OR REPLACE FUNCTION list_public_rooms(
+  p_region      TEXT    DEFAULT NULL,
+  p_ranked      BOOLEAN DEFAULT NULL,
+  p_rule_preset TEXT    DEFAULT NULL
+)
+RETURNS TABLE (
+  room_id            UUID,
+  room_code          TEXT,
+  title              TEXT,
+  host_username      TEXT,
+  region             TEXT,
+  ranked_mode        BOOLEAN,
+  rule_preset        TEXT,
+  bot_difficulty     TEXT,
+  turn_timer_seconds INTEGER,
+  current_players    INTEGER,
+  max_players        INTEGER,
+  created_at         TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'list_public_rooms: not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id,
+         r.code::TEXT,
+         r.settings->>'title',
+         p.username::TEXT,
+         COALESCE(r.region, 'global')::TEXT,
+         COALESCE(r.ranked_mode, false),
+         COALESCE(r.settings->'rule_set'->>'preset', 'standard'),
+         COALESCE(r.settings->>'bot_difficulty', 'medium'),
+         COALESCE((r.settings->>'turn_timer_seconds')::INTEGER, 60),
+         COALESCE(r.current_players, 0),
+         r.max_players,
+         r.created_at
+    FROM rooms r
+    LEFT JOIN profiles p ON p.id = r.host_id
+   WHERE r.is_public = true
+     AND COALESCE(r.is_matchmaking, false) = false
+     AND r.status = 'waiting'
+     AND NOT (COALESCE(r.settings, '{}'::JSONB) ? 'tournament')
+     AND COALESCE(r.current_players, 0) > 0
+     AND COALESCE(r.current_players, 0) < r.max_players
+     AND (p_region IS NULL OR COALESCE(r.region, 'global') = p_region)
+     AND (p_ranked IS NULL OR COALESCE(r.ranked_mode, false) = p_ranked)
+     AND (p_rule_preset IS NULL
+          OR COALESCE(r.settings->'rule_set'->>'preset', 'standard') = p_rule_preset)
+   ORDER BY r.current_players DESC, r.created_at DESC
+   LIMIT 50;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION list_public_rooms(TEXT, BOOLEAN, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION list_public_rooms(TEXT, BOOLEAN, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION list_public_rooms(TEXT, BOOLEAN, TEXT) IS
+  'Public, non-matchmaking rooms waiting for players with a free seat, optionally filtered '
+  'by region, ranked mode and rule preset. Newest fullest rooms first, at most 50.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000011: public room browser (rooms.region, rooms.current_players, set_room_listing, list_public_rooms) added.';
+END $$;
@@ -0,0 +1,815 @@
+-- =============================================================================
+-- Migration: room_timers
+-- Date: 2026-08-01
+--
+-- Per-room timers. The 60 s turn timer (auto-play-turn), the 60 s disconnect
+-- grace period before a bot takes the seat (process_disconnected_players) and
+-- the 10 s auto-pass window (play-cards) were constants in the edge functions,
+-- these functions and the client. Hosts can now set them per room, for blitz
+-- (15 s) or relaxed (120 s) tables. They live in rooms.settings as
+-- turn_timer_seconds (already set by set_room_listing), auto_pass_timer_seconds
+-- and disconnect_timer_seconds; see normalizeRoomTimerSettings in
+-- supabase/functions/_shared/roomTimers.ts. The server stays authoritative:
+--
+--   1. room_timer_seconds — reads one timer from rooms.settings with the same
+--      bounds and defaults as the shared engine.
+--   2. set_room_timers — host-only, waiting rooms only.
+--   3. mark_player_disconnected — carries the turn timer over into the
+--      disconnect timer for the room's turn timer, not a fixed 60 s.
+--   4. process_disconnected_players — Phase A uses the room's turn timer for
+--      the same carry-over; Phase B replaces players after the room's
+--      disconnect timer. Forfeits are recorded as last place at the room's
+--      table (rooms.max_players), not always fourth.
+--   5. get_rejoin_status — seconds_left counts down the room's disconnect
+--      timer, which is also returned so the home-screen banner can draw it.
+--
+-- auto-play-turn, play-cards and update-heartbeat read the same settings.
+-- =============================================================================
+
+-- =============================================================================
+-- 1. room_timer_seconds
+-- =============================================================================
+-- Bounds (mirror normalizeRoomTimerSettings): turn 15-120 s (default 60),
+-- auto-pass 5-30 s (default 10), disconnect 30-180 s (default 60). Missing or
+-- out-of-range values fall back to the default.
+CREATE OR REPLACE FUNCTION room_timer_seconds(
+  p_settings JSONB,
+  p_timer    TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_value   JSONB := p_settings -> p_timer;
+  v_seconds NUMERIC;
+  v_min     INTEGER;
+  v_max     INTEGER;
+  v_default INTEGER;
+BEGIN
+  CASE p_timer
+    WHEN 'turn_timer_seconds'       THEN v_min := 15; v_max := 120; v_default := 60;
+    WHEN 'auto_pass_timer_seconds'  THEN v_min := 5;  v_max := 30;  v_default := 10;
+    WHEN 'disconnect_timer_seconds' THEN v_min := 30; v_max := 180; v_default := 60;
+    ELSE RAISE EXCEPTION 'room_timer_seconds: unknown timer %', p_timer;
+  END CASE;
+
+  IF v_value IS NULL OR jsonb_typeof(v_value) != 'number' THEN
+    RETURN v_default;
+  END IF;
+
+  v_seconds := (v_value #>> '{}')::NUMERIC;
+  IF v_seconds != trunc(v_seconds) OR v_seconds NOT BETWEEN v_min AND v_max THEN
+    RETURN v_default;
+  END IF;
+
+  RETURN v_seconds::INTEGER;
+END;
+$$;
+
+COMMENT ON FUNCTION room_timer_seconds(JSONB, TEXT) IS
+  'One of the room''s timers (turn_timer_seconds, auto_pass_timer_seconds, '
+  'disconnect_timer_seconds) read from rooms.settings, or its default when unset or out of range.';
+
+-- =============================================================================
+-- 2. set_room_timers — host sets the turn, auto-pass and disconnect timers
+-- =============================================================================
+CREATE OR REPLACE FUNCTION set_room_timers(
+  p_room_id            UUID,
+  p_turn_seconds       INTEGER,
+  p_auto_pass_seconds  INTEGER,
+  p_disconnect_seconds INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_timers: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_timers: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_timers: only the host can change the timers';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_timers: timers can only be changed before the game starts';
+  END IF;
+
+  -- Bounds (mirror normalizeRoomTimerSettings)
+  IF p_turn_seconds IS NULL OR p_turn_seconds NOT BETWEEN 15 AND 120 THEN
+    RAISE EXCEPTION 'set_room_timers: turn timer must be between 15 and 120 seconds';
+  END IF;
+
+  IF p_auto_pass_seconds IS NULL OR p_auto_pass_seconds NOT BETWEEN 5 AND 30 THEN
+    RAISE EXCEPTION 'set_room_timers: auto-pass timer must be between 5 and 30 seconds';
+  END IF;
+
+  IF p_disconnect_seconds IS NULL OR p_disconnect_seconds NOT BETWEEN 30 AND 180 THEN
+    RAISE EXCEPTION 'set_room_timers: disconnect timer must be between 30 and 180 seconds';
+  END IF;
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object(
+           'turn_timer_seconds',       p_turn_seconds,
+           'auto_pass_timer_seconds',  p_auto_pass_seconds,
+           'disconnect_timer_seconds', p_disconnect_seconds
+         ),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'turn_timer_seconds', p_turn_seconds,
+    'auto_pass_timer_seconds', p_auto_pass_seconds,
+    'disconnect_timer_seconds', p_disconnect_seconds
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_timers(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_timers(UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION set_room_timers(UUID, INTEGER, INTEGER, INTEGER) IS
+  'Host-only: store the room''s turn, auto-pass and disconnect timers in rooms.settings. '
+  'Waiting rooms only.';
+
+-- =============================================================================
+-- 3. mark_player_disconnected — carry over the room's turn timer
+-- =============================================================================
+-- Identical to 20260309000002 except that the turn carry-over window is the
+-- room's turn timer instead of 60 s.
+CREATE OR REPLACE FUNCTION public.mark_player_disconnected(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  v_settings        JSONB;
+  v_is_offline      BOOLEAN;
+  v_player_idx      INTEGER;
+  v_current_turn    INTEGER;
+  v_turn_started_at TIMESTAMPTZ;
+  v_timer_anchor    TIMESTAMPTZ;
+BEGIN
+  -- Guard: skip offline rooms entirely
+  SELECT settings, COALESCE((settings->>'is_offline')::BOOLEAN, FALSE)
+  INTO   v_settings, v_is_offline
+  FROM   public.rooms
+  WHERE  id = p_room_id;
+
+  IF v_is_offline THEN
+    RETURN;
+  END IF;
+
+  -- Only proceed if the player is currently connected
+  SELECT player_index
+  INTO   v_player_idx
+  FROM   public.room_players
+  WHERE  room_id          = p_room_id
+    AND  user_id          = p_user_id
+    AND  connection_status = 'connected'
+  LIMIT  1;
+
+  IF NOT FOUND THEN
+    RETURN; -- Not connected — nothing to do
+  END IF;
+
+  -- Fetch current game state to determine whether it's this player's turn
+  SELECT current_turn, turn_started_at
+  INTO   v_current_turn, v_turn_started_at
+  FROM   public.game_state
+  WHERE  room_id = p_room_id
+  LIMIT  1;
+
+  -- Determine the disconnect timer anchor:
+  --   • If it's this player's turn AND the turn is still within the room's
+  --     turn timer, use turn_started_at so the disconnect timer (and
+  --     home-screen banner) picks up where the yellow turn ring left off.
+  --   • Otherwise use NOW() for a fresh disconnect countdown.
+  IF v_current_turn IS NOT NULL
+     AND v_current_turn = v_player_idx
+     AND v_turn_started_at IS NOT NULL
+     AND v_turn_started_at > NOW() - make_interval(secs => room_timer_seconds(v_settings, 'turn_timer_seconds'))
+  THEN
+    v_timer_anchor := v_turn_started_at;
+  ELSE
+    v_timer_anchor := NOW();
+  END IF;
+
+  UPDATE public.room_players
+  SET
+    connection_status           = 'disconnected',
+    disconnected_at             = NOW(),
+    -- COALESCE: never overwrite an already-running persistent timer
+    disconnect_timer_started_at = COALESCE(disconnect_timer_started_at, v_timer_anchor)
+  WHERE room_id          = p_room_id
+    AND user_id          = p_user_id
+    AND connection_status = 'connected';
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.mark_player_disconnected(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.mark_player_disconnected(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.mark_player_disconnected(UUID, UUID) FROM authenticated;
+GRANT  EXECUTE ON FUNCTION public.mark_player_disconnected(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.mark_player_disconnected IS
+  'Marks a player as disconnected. Sets disconnect_timer_started_at to turn_started_at '
+  'when it is the player''s active turn (so the room''s disconnect timer picks up where the '
+  'turn timer left off), otherwise uses NOW() for a fresh countdown.';
+
+-- =============================================================================
+-- 4. process_disconnected_players — the room's turn and disconnect timers
+-- =============================================================================
+-- Identical to 20260311000003 except for the Phase A carry-over window (the
+-- room's turn timer) and the Phase B threshold (the room's disconnect timer),
+-- which replace the fixed 60 s and BOT_REPLACE_AFTER.
+CREATE OR REPLACE FUNCTION public.process_disconnected_players()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  HEARTBEAT_SLACK   CONSTANT INTERVAL := INTERVAL '30 seconds';
+  STUCK_ROOM_AFTER  CONSTANT INTERVAL := INTERVAL '5 minutes';
+
+  rec               RECORD;
+  v_room            RECORD;
+  v_abandoned       RECORD;
+  v_slot            RECORD;
+  v_human_count     INTEGER;
+  v_bot_difficulty  VARCHAR(10);
+  v_game_type       TEXT;
+  v_marked          INTEGER := 0;
+  v_replaced        INTEGER := 0;
+  v_closed          INTEGER := 0;
+  v_affected_codes  TEXT[]  := '{}';
+  v_room_code       TEXT;
+  v_bot_multiplier  DECIMAL := 1.0;
+  v_voided_user_id  UUID;
+
+  -- Phase A anchor computation
+  v_gs_current_turn    INTEGER;
+  v_gs_turn_started_at TIMESTAMPTZ;
+  v_phase_a_anchor     TIMESTAMPTZ;
+
+  -- game_history player slots (indexed 1-4 by player_index+1)
+  v_p_ids            UUID[]    := ARRAY[NULL::UUID, NULL::UUID, NULL::UUID, NULL::UUID];
+  v_p_usernames      TEXT[]    := ARRAY[NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT];
+  v_p_orig_usernames TEXT[]    := ARRAY[NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT];
+  v_p_was_bot        BOOLEAN[] := ARRAY[FALSE, FALSE, FALSE, FALSE];
+  v_p_disconn        BOOLEAN[] := ARRAY[FALSE, FALSE, FALSE, FALSE];
+  v_slot_idx         INTEGER;
+  v_history_exists   BOOLEAN;
+BEGIN
+
+  -- ── Phase A: Mark stale heartbeats as disconnected ───────────────────────
+  FOR rec IN
+    SELECT rp.id, rp.room_id, rp.last_seen_at, rp.player_index, r.settings
+    FROM   public.room_players rp
+    JOIN   public.rooms r ON r.id = rp.room_id
+    WHERE  rp.is_bot             = FALSE
+      AND  rp.connection_status  = 'connected'
+      AND  rp.last_seen_at       < NOW() - HEARTBEAT_SLACK
+      AND  r.status              = 'playing'
+      AND  COALESCE((r.settings->>'is_offline')::BOOLEAN, FALSE) = FALSE
+  LOOP
+    SELECT current_turn, turn_started_at
+    INTO   v_gs_current_turn, v_gs_turn_started_at
+    FROM   public.game_state
+    WHERE  room_id = rec.room_id
+    LIMIT  1;
+
+    IF v_gs_current_turn = rec.player_index
+       AND v_gs_turn_started_at IS NOT NULL
+       AND v_gs_turn_started_at > rec.last_seen_at
+                                  - make_interval(secs => room_timer_seconds(rec.settings, 'turn_timer_seconds'))
+    THEN
+      v_phase_a_anchor := LEAST(v_gs_turn_started_at, rec.last_seen_at);
+    ELSE
+      v_phase_a_anchor := rec.last_seen_at;
+    END IF;
+
+    UPDATE public.room_players
+    SET
+      connection_status           = 'disconnected',
+      disconnected_at             = NOW(),
+      disconnect_timer_started_at = COALESCE(disconnect_timer_started_at, v_phase_a_anchor)
+    WHERE id               = rec.id
+      AND connection_status = 'connected'
+      AND last_seen_at      < NOW() - HEARTBEAT_SLACK;
+
+    IF FOUND THEN v_marked := v_marked + 1; END IF;
+  END LOOP;
+
+  -- ── Phase B: Replace long-disconnected players with bots (or close room) ─
+  FOR rec IN
+    SELECT rp.*
+    FROM   public.room_players rp
+    JOIN   public.rooms r ON r.id = rp.room_id
+    WHERE  rp.is_bot             = FALSE
+      AND  rp.connection_status  = 'disconnected'
+      AND  COALESCE(rp.disconnect_timer_started_at, rp.disconnected_at) IS NOT NULL
+      AND  COALESCE(rp.disconnect_timer_started_at, rp.disconnected_at)
+             <= NOW() - make_interval(secs => room_timer_seconds(r.settings, 'disconnect_timer_seconds'))
+      AND  r.status              = 'playing'
+      AND  COALESCE((r.settings->>'is_offline')::BOOLEAN, FALSE) = FALSE
+  LOOP
+    SELECT * INTO v_room FROM public.rooms WHERE id = rec.room_id;
+
+    SELECT COUNT(*) INTO v_human_count
+    FROM   public.room_players
+    WHERE  room_id          = rec.room_id
+      AND  is_bot           = FALSE
+      AND  connection_status NOT IN ('disconnected', 'replaced_by_bot')
+      AND  id               != rec.id;
+
+    -- ── Sole human left → close the room and record stats ────────────────────
+    IF v_human_count = 0 THEN
+      UPDATE public.rooms
+      SET status = 'finished', finished_at = NOW(), updated_at = NOW()
+      WHERE id = rec.room_id AND status = 'playing';
+
+      IF FOUND THEN
+        v_closed := v_closed + 1;
+
+        v_game_type := CASE
+          WHEN v_room.ranked_mode = TRUE THEN 'ranked'
+          WHEN v_room.is_public   = TRUE THEN 'casual'
+          ELSE 'private'
+        END;
+
+        -- Tie-safe voided-player detection: pick the single latest-to-disconnect
+        -- human; if multiple players share the same max anchor (truly simultaneous
+        -- disconnects) we cannot determine ordering, so leave voided_user_id NULL.
+        -- The frontend treats NULL as a neutral "Incomplete" state for all players.
+        WITH disconnected_players AS (
+          SELECT
+            COALESCE(rp.disconnect_timer_started_at, rp.disconnected_at) AS anchor,
+            COALESCE(rp.human_user_id, rp.user_id)                       AS uid
+          FROM public.room_players rp
+          WHERE rp.room_id           = rec.room_id
+            AND rp.is_bot            = FALSE
+            AND rp.connection_status = 'disconnected'
+        ),
+        max_anchor AS (
+          SELECT MAX(anchor) AS anchor
+          FROM disconnected_players
+        ),
+        candidates AS (
+          SELECT dp.uid
+          FROM disconnected_players dp
+          JOIN max_anchor ma ON dp.anchor = ma.anchor
+          WHERE ma.anchor IS NOT NULL
+        )
+        SELECT CASE
+                 WHEN COUNT(*) = 1 THEN MAX(uid)
+                 ELSE NULL::UUID
+               END
+        INTO v_voided_user_id
+        FROM candidates;
+
+        SELECT EXISTS (
+          SELECT 1 FROM public.game_history WHERE room_id = rec.room_id
+        ) INTO v_history_exists;
+
+        IF NOT v_history_exists THEN
+          v_p_ids            := ARRAY[NULL::UUID, NULL::UUID, NULL::UUID, NULL::UUID];
+          v_p_usernames      := ARRAY[NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT];
+          v_p_orig_usernames := ARRAY[NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT];
+          v_p_was_bot        := ARRAY[FALSE, FALSE, FALSE, FALSE];
+          v_p_disconn        := ARRAY[FALSE, FALSE, FALSE, FALSE];
+
+          FOR v_slot IN
+            SELECT player_index,
+                   COALESCE(human_user_id, user_id) AS effective_user_id,
+                   username,
+                   CASE WHEN human_user_id IS NOT NULL THEN replaced_username ELSE NULL END AS orig_username,
+                   is_bot,
+                   human_user_id,
+                   connection_status
+            FROM   public.room_players
+            WHERE  room_id = rec.room_id AND player_index BETWEEN 0 AND 3
+          LOOP
+            v_slot_idx := v_slot.player_index + 1;
+            -- KEY FIX: only store real human UUIDs in player_X_id.
+            -- Pure-bot rows (is_bot=TRUE, human_user_id IS NULL) have user_ids
+            -- that do NOT exist in auth.users — inserting them violates the FK
+            -- constraint and silently rolls back the entire INSERT.
+            -- This mirrors the complete-game edge function's `realPlayers` filter.
+            v_p_ids[v_slot_idx]            := CASE
+              WHEN v_slot.is_bot AND v_slot.human_user_id IS NULL THEN NULL
+              ELSE v_slot.effective_user_id
+            END;
+            v_p_usernames[v_slot_idx]      := v_slot.username;
+            v_p_orig_usernames[v_slot_idx] := v_slot.orig_username;
+            v_p_was_bot[v_slot_idx]        := v_slot.is_bot;
+            v_p_disconn[v_slot_idx]        := (v_slot.connection_status IN ('disconnected', 'replaced_by_bot'));
+          END LOOP;
+
+          BEGIN
+            INSERT INTO public.game_history (
+              room_id, room_code, game_type, game_completed, winner_id, started_at, finished_at,
+              player_1_id, player_2_id, player_3_id, player_4_id,
+              player_1_username, player_2_username, player_3_username, player_4_username,
+              player_1_original_username, player_2_original_username,
+              player_3_original_username, player_4_original_username,
+              player_1_was_bot, player_2_was_bot, player_3_was_bot, player_4_was_bot,
+              player_1_disconnected, player_2_disconnected, player_3_disconnected, player_4_disconnected,
+              voided_user_id
+            ) VALUES (
+              v_room.id, v_room.code, v_game_type, FALSE, NULL,
+              COALESCE(v_room.started_at, v_room.created_at), NOW(),
+              v_p_ids[1], v_p_ids[2], v_p_ids[3], v_p_ids[4],
+              v_p_usernames[1], v_p_usernames[2], v_p_usernames[3], v_p_usernames[4],
+              v_p_orig_usernames[1], v_p_orig_usernames[2], v_p_orig_usernames[3], v_p_orig_usernames[4],
+              v_p_was_bot[1], v_p_was_bot[2], v_p_was_bot[3], v_p_was_bot[4],
+              v_p_disconn[1], v_p_disconn[2], v_p_disconn[3], v_p_disconn[4],
+              v_voided_user_id
+            );
+          EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING '[process_disconnected_players] Phase B game_history insert failed for room %: %', v_room.code, SQLERRM;
+          END;
+        END IF;
+
+        -- Only write voided/abandoned stats when v_voided_user_id is determinable.
+        -- When NULL (simultaneous disconnects with no ordering), treat the game as
+        -- neutral and skip stat writes entirely to avoid NULL user_id errors.
+        IF v_voided_user_id IS NOT NULL THEN
+          BEGIN
+            PERFORM update_player_stats_after_game(
+              p_user_id := v_voided_user_id, p_won := false,
+              p_finish_position := COALESCE(v_room.max_players, 4), p_score := 0,
+              p_combos_played := '{}'::jsonb, p_game_type := v_game_type,
+              p_completed := false, p_cards_left := 0, p_voided := true
+            );
+          EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING '[process_disconnected_players] voided stat failed for user %: %', v_voided_user_id, SQLERRM;
+          END;
+          -- Derive bot difficulty multiplier and penalise abandoned players.
+          -- Both are inside the IS NOT NULL guard: when the tie case leaves
+          -- v_voided_user_id NULL we skip ALL stat writes and stay neutral.
+          SELECT COALESCE(
+            CASE
+              WHEN bool_or(bot_difficulty = 'hard')   THEN 0.9
+              WHEN bool_or(bot_difficulty = 'medium') THEN 0.7
+              WHEN bool_or(bot_difficulty = 'easy')   THEN 0.5
+              ELSE 1.0
+            END, 1.0
+          )
+          INTO v_bot_multiplier
+          FROM public.room_players WHERE room_id = rec.room_id AND is_bot = TRUE;
+
+          FOR v_abandoned IN
+            SELECT user_id FROM public.room_players
+            WHERE room_id = rec.room_id AND is_bot = FALSE
+              AND connection_status = 'disconnected' AND user_id != v_voided_user_id
+          LOOP
+            BEGIN
+              PERFORM update_player_stats_after_game(
+                p_user_id := v_abandoned.user_id, p_won := false,
+                p_finish_position := COALESCE(v_room.max_players, 4), p_score := 200,
+                p_combos_played := '{}'::jsonb, p_game_type := v_game_type,
+                p_completed := false, p_cards_left := 0,
+                p_voided := false, p_bot_multiplier := v_bot_multiplier
+              );
+            EXCEPTION WHEN OTHERS THEN
+              RAISE WARNING '[process_disconnected_players] abandoned stat failed for user %: %', v_abandoned.user_id, SQLERRM;
+            END;
+          END LOOP;
+
+          FOR v_abandoned IN
+            SELECT human_user_id FROM public.room_players
+            WHERE room_id = rec.room_id AND is_bot = TRUE AND human_user_id IS NOT NULL
+          LOOP
+            BEGIN
+              PERFORM update_player_stats_after_game(
+                p_user_id := v_abandoned.human_user_id, p_won := false,
+                p_finish_position := COALESCE(v_room.max_players, 4), p_score := 200,
+                p_combos_played := '{}'::jsonb, p_game_type := v_game_type,
+                p_completed := false, p_cards_left := 0,
+                p_voided := false, p_bot_multiplier := v_bot_multiplier
+              );
+            EXCEPTION WHEN OTHERS THEN
+              RAISE WARNING '[process_disconnected_players] abandoned stat failed for bot-replaced user %: %', v_abandoned.human_user_id, SQLERRM;
+            END;
+          END LOOP;
+        END IF; -- v_voided_user_id IS NOT NULL
+      END IF;
+      CONTINUE;
+    END IF;
+
+    -- ── Still other connected humans → replace this player with a bot ──────
+    IF v_room.ranked_mode = TRUE THEN
+      v_bot_difficulty := 'hard';
+    ELSE
+      v_bot_difficulty := COALESCE(
+        v_room.settings->>'bot_difficulty',
+        rec.bot_difficulty,
+        'medium'
+      );
+    END IF;
+
+    UPDATE public.room_players
+    SET
+      human_user_id               = rec.user_id,
+      replaced_username           = rec.username,
+      user_id                     = NULL,
+      is_bot                      = TRUE,
+      bot_difficulty              = v_bot_difficulty,
+      username                    = 'Bot ' || REGEXP_REPLACE(COALESCE(rec.username, 'Player'), '^Bot ', '', 'i'),
+      connection_status           = 'replaced_by_bot',
+      disconnected_at             = NULL,
+      disconnect_timer_started_at = NULL,
+      last_seen_at                = NOW()
+    WHERE id               = rec.id
+      AND connection_status = 'disconnected';
+
+    IF FOUND THEN
+      v_replaced := v_replaced + 1;
+      SELECT code INTO v_room_code FROM public.rooms WHERE id = rec.room_id;
+      IF v_room_code IS NOT NULL AND NOT (v_room_code = ANY(v_affected_codes)) THEN
+        v_affected_codes := array_append(v_affected_codes, v_room_code);
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- ── Phase C: Close rooms stuck in 'playing' with no human rows ───────────
+  -- Fires when ALL humans were bot-replaced and the game has been stuck > 5 min.
+  -- Builds player slots exclusively from replaced_by_bot rows (human_user_id IS NOT NULL)
+  -- so only real human UUIDs (which exist in auth.users) are stored in player_X_id.
+  FOR rec IN
+    SELECT r.id, r.code, r.is_public, r.ranked_mode, r.started_at, r.created_at, r.max_players
+    FROM   public.rooms r
+    WHERE  r.status     = 'playing'
+      AND  r.updated_at < NOW() - STUCK_ROOM_AFTER
+      AND  COALESCE((r.settings->>'is_offline')::BOOLEAN, FALSE) = FALSE
+      AND  NOT EXISTS (
+             SELECT 1 FROM public.room_players rp
+             WHERE rp.room_id = r.id AND rp.is_bot = FALSE
+           )
+  LOOP
+    UPDATE public.rooms
+    SET status = 'finished', finished_at = NOW(), updated_at = NOW()
+    WHERE id = rec.id AND status = 'playing';
+
+    IF FOUND THEN
+      v_closed := v_closed + 1;
+
+      v_p_ids            := ARRAY[NULL::UUID, NULL::UUID, NULL::UUID, NULL::UUID];
+      v_p_usernames      := ARRAY[NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT];
+      v_p_orig_usernames := ARRAY[NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT];
+      v_p_was_bot        := ARRAY[FALSE, FALSE, FALSE, FALSE];
+      v_p_disconn        := ARRAY[FALSE, FALSE, FALSE, FALSE];
+
+      -- Only read replaced_by_bot rows — human_user_id IS valid auth.users UUID.
+      -- Pure-bot rows (human_user_id IS NULL) are skipped to avoid FK violation.
+      FOR v_slot IN
+        SELECT player_index,
+               human_user_id    AS effective_user_id,
+               username,
+               replaced_username AS orig_username,
+               is_bot,
+               connection_status
+        FROM   public.room_players
+        WHERE  room_id       = rec.id
+          AND  is_bot        = TRUE
+          AND  human_user_id IS NOT NULL
+          AND  player_index BETWEEN 0 AND 3
+      LOOP
+        v_slot_idx := v_slot.player_index + 1;
+        v_p_ids[v_slot_idx]            := v_slot.effective_user_id;
+        v_p_usernames[v_slot_idx]      := v_slot.username;
+        v_p_orig_usernames[v_slot_idx] := v_slot.orig_username;
+        v_p_was_bot[v_slot_idx]        := v_slot.is_bot;
+        v_p_disconn[v_slot_idx]        := (v_slot.connection_status IN ('disconnected', 'replaced_by_bot'));
+      END LOOP;
+
+      v_voided_user_id := NULL;
+      -- Only determine voided player when a real disconnect-timestamp anchor exists.
+      -- Bot-replacement NULLs both disconnect_timer_started_at and disconnected_at on
+      -- replaced_by_bot rows, making COALESCE(...) meaningless.  If no row has a non-NULL
+      -- anchor we cannot determine ordering → leave voided_user_id NULL (neutral/unknown).
+      SELECT human_user_id
+      INTO   v_voided_user_id
+      FROM   public.room_players
+      WHERE  room_id       = rec.id
+        AND  is_bot        = TRUE
+        AND  human_user_id IS NOT NULL
+        AND  COALESCE(disconnect_timer_started_at, disconnected_at) IS NOT NULL
+      ORDER BY COALESCE(disconnect_timer_started_at, disconnected_at) DESC,
+               human_user_id::text
+      LIMIT 1;
+
+      SELECT EXISTS (
+        SELECT 1 FROM public.game_history WHERE room_id = rec.id
+      ) INTO v_history_exists;
+
+      IF NOT v_history_exists THEN
+        BEGIN
+          INSERT INTO public.game_history (
+            room_id, room_code, game_type, game_completed, winner_id, started_at, finished_at,
+            player_1_id,       player_2_id,       player_3_id,       player_4_id,
+            player_1_username, player_2_username, player_3_username, player_4_username,
+            player_1_original_username, player_2_original_username,
+            player_3_original_username, player_4_original_username,
+            player_1_was_bot,  player_2_was_bot,  player_3_was_bot,  player_4_was_bot,
+            player_1_disconnected, player_2_disconnected,
+            player_3_disconnected, player_4_disconnected,
+            voided_user_id
+          ) VALUES (
+            rec.id, rec.code,
+            CASE WHEN rec.ranked_mode = TRUE THEN 'ranked' WHEN rec.is_public = TRUE THEN 'casual' ELSE 'private' END,
+            FALSE, NULL,
+            COALESCE(rec.started_at, rec.created_at), NOW(),
+            v_p_ids[1], v_p_ids[2], v_p_ids[3], v_p_ids[4],
+            v_p_usernames[1], v_p_usernames[2], v_p_usernames[3], v_p_usernames[4],
+            v_p_orig_usernames[1], v_p_orig_usernames[2], v_p_orig_usernames[3], v_p_orig_usernames[4],
+            v_p_was_bot[1], v_p_was_bot[2], v_p_was_bot[3], v_p_was_bot[4],
+            v_p_disconn[1], v_p_disconn[2], v_p_disconn[3], v_p_disconn[4],
+            v_voided_user_id
+          );
+        EXCEPTION WHEN OTHERS THEN
+          RAISE WARNING '[process_disconnected_players] Phase C game_history insert failed for room %: %', rec.code, SQLERRM;
+        END;
+      END IF;
+
+      RAISE WARNING '[process_disconnected_players] Phase C: closed stuck room % (no human rows after 5 min)', rec.code;
+
+      SELECT COALESCE(
+        CASE
+          WHEN bool_or(bot_difficulty = 'hard')   THEN 0.9
+          WHEN bool_or(bot_difficulty = 'medium') THEN 0.7
+          WHEN bool_or(bot_difficulty = 'easy')   THEN 0.5
+          ELSE 1.0
+        END, 1.0
+      )
+      INTO v_bot_multiplier
+      FROM public.room_players WHERE room_id = rec.id AND is_bot = TRUE;
+
+      FOR v_abandoned IN
+        SELECT rp.human_user_id
+        FROM   public.room_players rp
+        WHERE  rp.room_id       = rec.id
+          AND  rp.is_bot        = TRUE
+          AND  rp.human_user_id IS NOT NULL
+      LOOP
+        BEGIN
+          PERFORM update_player_stats_after_game(
+            p_user_id         := v_abandoned.human_user_id,
+            p_won             := false,
+            p_finish_position := COALESCE(rec.max_players, 4),
+            p_score           := 200,
+            p_combos_played   := '{}'::jsonb,
+            p_game_type       := CASE WHEN rec.ranked_mode = TRUE THEN 'ranked' WHEN rec.is_public = TRUE THEN 'casual' ELSE 'private' END,
+            p_completed       := false,
+            p_cards_left      := 0,
+            p_voided          := false,
+            p_bot_multiplier  := v_bot_multiplier
+          );
+        EXCEPTION WHEN OTHERS THEN
+          RAISE WARNING '[process_disconnected_players] Phase C abandoned stat failed for room % user %: %',
+            rec.code, v_abandoned.human_user_id, SQLERRM;
+        END;
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'marked_disconnected',         v_marked,
+    'replaced_with_bot',           v_replaced,
+    'rooms_closed',                v_closed,
+    'rooms_with_bot_replacements', to_jsonb(v_affected_codes),
+    'affected_room_codes',         to_jsonb(v_affected_codes)
+  );
+END;
+$function$;
+
+-- Restrict to service_role only (called by update-heartbeat edge function)
+REVOKE ALL ON FUNCTION public.process_disconnected_players() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.process_disconnected_players() FROM anon;
+REVOKE ALL ON FUNCTION public.process_disconnected_players() FROM authenticated;
+GRANT  EXECUTE ON FUNCTION public.process_disconnected_players() TO service_role;
+
+-- =============================================================================
+-- 5. get_rejoin_status — count down the room's disconnect timer
+-- =============================================================================
+-- Identical to 20260310000002 except that seconds_left counts down the room's
+-- disconnect timer, which is returned as disconnect_timer_seconds.
+CREATE OR REPLACE FUNCTION public.get_rejoin_status(
+  p_room_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rec                RECORD;
+  v_room_status        TEXT;
+  v_seconds_left       INTEGER;
+  v_disconnect_seconds INTEGER;
+BEGIN
+  SELECT status, room_timer_seconds(settings, 'disconnect_timer_seconds')
+  INTO   v_room_status, v_disconnect_seconds
+  FROM   public.rooms WHERE id = p_room_id;
+
+  IF NOT FOUND OR v_room_status = 'finished' THEN
+    RETURN jsonb_build_object('status', 'room_closed');
+  END IF;
+
+  -- Search by user_id (not yet replaced) OR human_user_id (already replaced by bot)
+  SELECT * INTO v_rec
+  FROM   public.room_players
+  WHERE  room_id = p_room_id
+    AND  (user_id = p_user_id OR human_user_id = p_user_id)
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_in_room');
+  END IF;
+
+  IF v_rec.connection_status = 'replaced_by_bot' THEN
+    RETURN jsonb_build_object(
+      'status',       'replaced_by_bot',
+      'player_index', v_rec.player_index,
+      'bot_username', v_rec.username
+    );
+  END IF;
+
+  IF v_rec.connection_status = 'disconnected' THEN
+    -- Use persistent timer if available, else fall back to disconnected_at
+    v_seconds_left := GREATEST(
+      0,
+      v_disconnect_seconds - EXTRACT(EPOCH FROM (
+        NOW() - COALESCE(v_rec.disconnect_timer_started_at, v_rec.disconnected_at)
+      ))::INTEGER
+    );
+    RETURN jsonb_build_object(
+      'status',                      'disconnected',
+      'seconds_left',                v_seconds_left,
+      'disconnect_timer_active',     TRUE,
+      'disconnect_timer_started_at', COALESCE(v_rec.disconnect_timer_started_at, v_rec.disconnected_at),
+      'disconnect_timer_seconds',    v_disconnect_seconds,
+      'player_index',                v_rec.player_index
+    );
+  END IF;
+
+  -- 'connected' but persistent disconnect timer still running
+  -- (player reopened the app and heartbeat resumed, but rejoin not yet confirmed).
+  -- Return the active timer info so the client can show the correct countdown.
+  IF v_rec.disconnect_timer_started_at IS NOT NULL THEN
+    v_seconds_left := GREATEST(
+      0,
+      v_disconnect_seconds - EXTRACT(EPOCH FROM (NOW() - v_rec.disconnect_timer_started_at))::INTEGER
+    );
+    RETURN jsonb_build_object(
+      'status',                      'connected',
+      'player_index',                v_rec.player_index,
+      'disconnect_timer_active',     TRUE,
+      'seconds_left',                v_seconds_left,
+      'disconnect_timer_started_at', v_rec.disconnect_timer_started_at,
+      'disconnect_timer_seconds',    v_disconnect_seconds
+    );
+  END IF;
+
+  -- Fully connected, no timer running
+  RETURN jsonb_build_object(
+    'status',       'connected',
+    'player_index', v_rec.player_index
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_rejoin_status(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_rejoin_status(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.get_rejoin_status(UUID, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION public.get_rejoin_status(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.get_rejoin_status(UUID, UUID) IS
+  'Returns rejoin status for a player. Checks user_id (not yet replaced) and '
+  'human_user_id (replaced by bot). Returns seconds_left, disconnect_timer_active, '
+  'disconnect_timer_started_at and disconnect_timer_seconds (the room''s disconnect timer) '
+  'fields consumed by the home-screen banner.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000012: per-room timers (room_timer_seconds, set_room_timers) added; mark_player_disconnected, process_disconnected_players and get_rejoin_status follow the room''s timers.';
+END $$;
@@ -0,0 +1,292 @@
+-- =============================================================================
+-- Migration: seasons
+-- Date: 2026-08-01
+--
+-- Ranked seasons. player_stats and profiles only held lifetime ratings, so
+-- every reset so far was a one-off migration (20260715000000_reset_all_player_stats,
+-- 20260719000005_recalculate_rank_from_reset_date) that threw the old
+-- standings away. Ratings now run in seasons: when a season ends, both
+-- leaderboards are archived per season and every rating is soft-reset
+-- halfway back to 1000 (softResetSeasonRating in
+-- supabase/functions/_shared/seasons.ts). A player's tier at the end of a
+-- season (calculate_rank_from_elo of their final rank points) is their reward
+-- for it, once they have played 5 games that season.
+--
+--   1. seasons — one row per season; exactly one is active. Season 1 starts
+--      at the last manual reset (2026-03-23).
+--   2. season_leaderboard — per-season snapshots of leaderboard_ranked and
+--      leaderboard_casual.
+--   3. season_soft_reset_rating — mirrors softResetSeasonRating.
+--   4. roll_over_season — archives the active season once it has ended and
+--      opens the next one, the same length.
+--   5. get_player_seasons — a player's archived standings, newest first.
+--   6. pg_cron schedule for roll_over_season (hourly).
+-- =============================================================================
+
+-- =============================================================================
+-- 1. seasons
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS seasons (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number      INTEGER NOT NULL UNIQUE CHECK (number > 0),
+  name        TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  status      TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  starts_at   TIMESTAMPTZ NOT NULL,
+  ends_at     TIMESTAMPTZ NOT NULL,
+  archived_at TIMESTAMPTZ,
+  CHECK (ends_at > starts_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_seasons_one_active
+  ON seasons((true)) WHERE status = 'active';
+
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view seasons" ON seasons;
+CREATE POLICY "Anyone can view seasons" ON seasons
+  FOR SELECT TO anon, authenticated USING (true);
+
+COMMENT ON TABLE seasons IS
+  'Rating seasons. Exactly one is active; roll_over_season archives it once ends_at has passed.';
+
+INSERT INTO seasons (number, name, status, starts_at, ends_at)
+SELECT 1, 'Season 1', 'active', '2026-03-23 08:53:51+00', '2026-10-01 00:00:00+00'
+ WHERE NOT EXISTS (SELECT 1 FROM seasons);
+
+-- =============================================================================
+-- 2. season_leaderboard
+-- =============================================================================
+-- rank / rank_points / games_* / win_rate are copied from the leaderboard view
+-- (lifetime games, as shown on the live leaderboard); season_games counts the
+-- games the player finished during the season.
+CREATE TABLE IF NOT EXISTS season_leaderboard (
+  season_id    UUID NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  mode         TEXT NOT NULL CHECK (mode IN ('ranked', 'casual')),
+  user_id      UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  username     TEXT,
+  rank         INTEGER NOT NULL,
+  rank_points  INTEGER NOT NULL,
+  games_played INTEGER NOT NULL DEFAULT 0,
+  games_won    INTEGER NOT NULL DEFAULT 0,
+  win_rate     NUMERIC(5,2) NOT NULL DEFAULT 0,
+  season_games INTEGER NOT NULL DEFAULT 0,
+  tier         VARCHAR(20) NOT NULL,
+  reward_tier  VARCHAR(20),
+  PRIMARY KEY (season_id, mode, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_leaderboard_user
+  ON season_leaderboard(user_id, season_id);
+CREATE INDEX IF NOT EXISTS idx_season_leaderboard_rank
+  ON season_leaderboard(season_id, mode, rank);
+
+-- Read through get_player_seasons, like the live leaderboards
+ALTER TABLE season_leaderboard ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE season_leaderboard IS
+  'Final ranked and casual standings of each archived season. Written by roll_over_season only.';
+COMMENT ON COLUMN season_leaderboard.reward_tier IS
+  'Tier earned for the season; NULL when the player finished fewer than 5 games in it.';
+
+-- =============================================================================
+-- 3. season_soft_reset_rating
+-- =============================================================================
+CREATE OR REPLACE FUNCTION season_soft_reset_rating(p_rating INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- Integer division truncates towards zero, like Math.trunc
+  SELECT GREATEST(0, 1000 + (COALESCE(p_rating, 1000) - 1000) / 2);
+$$;
+
+COMMENT ON FUNCTION season_soft_reset_rating(INTEGER) IS
+  'Rating carried into the next season: half the distance from 1000. Mirrors softResetSeasonRating.';
+
+-- =============================================================================
+-- 4. roll_over_season
+-- =============================================================================
+CREATE OR REPLACE FUNCTION roll_over_season()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_season    RECORD;
+  v_next_id   UUID;
+  v_archived  INTEGER;
+BEGIN
+  SELECT * INTO v_season
+    FROM seasons
+   WHERE status = 'active'
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'roll_over_season: no active season';
+  END IF;
+
+  IF v_season.ends_at > NOW() THEN
+    RETURN jsonb_build_object('rolled_over', false, 'season', v_season.number);
+  END IF;
+
+  PERFORM refresh_leaderboard();
+
+  -- Snapshot both leaderboards
+  WITH season_games AS (
+    SELECT slot.player_id,
+           CASE WHEN g.game_mode = 'ranked' THEN 'ranked' ELSE 'casual' END AS mode,
+           COUNT(*)::INTEGER AS games
+      FROM game_history g
+     CROSS JOIN LATERAL (
+       VALUES (g.player_1_id), (g.player_2_id), (g.player_3_id), (g.player_4_id)
+     ) AS slot(player_id)
+     WHERE slot.player_id IS NOT NULL
+       AND g.finished_at >= v_season.starts_at
+       AND g.finished_at <  v_season.ends_at
+       AND g.voided_user_id IS DISTINCT FROM slot.player_id
+     GROUP BY 1, 2
+  ), standings AS (
+    SELECT 'ranked' AS mode, user_id, username, rank, rank_points, games_played, games_won, win_rate
+      FROM leaderboard_ranked
+    UNION ALL
+    SELECT 'casual', user_id, username, rank, rank_points, games_played, games_won, win_rate
+      FROM leaderboard_casual
+  )
+  INSERT INTO season_leaderboard (
+    season_id, mode, user_id, username, rank, rank_points,
+    games_played, games_won, win_rate, season_games, tier, reward_tier
+  )
+  SELECT v_season.id, s.mode, s.user_id, s.username, s.rank, s.rank_points,
+         s.games_played, s.games_won, s.win_rate,
+         COALESCE(sg.games, 0),
+         calculate_rank_from_elo(s.rank_points),
+         CASE WHEN COALESCE(sg.games, 0) >= 5 THEN calculate_rank_from_elo(s.rank_points) END
+    FROM standings s
+    LEFT JOIN season_games sg ON sg.player_id = s.user_id AND sg.mode = s.mode
+  ON CONFLICT (season_id, mode, user_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  -- Soft reset. rank_points mirrors casual_rank_points (see 20260719000005).
+  UPDATE player_stats
+     SET ranked_rank_points = season_soft_reset_rating(ranked_rank_points),
+         casual_rank_points = season_soft_reset_rating(casual_rank_points),
+         rank_points        = season_soft_reset_rating(casual_rank_points),
+         updated_at         = NOW();
+
+  UPDATE profiles
+     SET elo_rating     = season_soft_reset_rating(elo_rating),
+         rank           = calculate_rank_from_elo(season_soft_reset_rating(elo_rating)),
+         elo_updated_at = NOW()
+   WHERE elo_rating IS NOT NULL;
+
+  UPDATE seasons
+     SET status = 'archived',
+         archived_at = NOW()
+   WHERE id = v_season.id;
+
+  INSERT INTO seasons (number, name, status, starts_at, ends_at)
+  VALUES (
+    v_season.number + 1,
+    'Season ' || (v_season.number + 1),
+    'active',
+    v_season.ends_at,
+    v_season.ends_at + (v_season.ends_at - v_season.starts_at)
+  )
+  RETURNING id INTO v_next_id;
+
+  PERFORM refresh_leaderboard();
+
+  RETURN jsonb_build_object(
+    'rolled_over', true,
+    'season', v_season.number,
+    'archived_rows', v_archived,
+    'next_season_id', v_next_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION roll_over_season() FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION roll_over_season() TO service_role;
+
+COMMENT ON FUNCTION roll_over_season() IS
+  'Once the active season has ended: snapshot leaderboard_ranked / leaderboard_casual into '
+  'season_leaderboard, soft-reset every rating and open the next season. No-op before ends_at.';
+
+-- =============================================================================
+-- 5. get_player_seasons
+-- =============================================================================
+-- One row per archived season the player was on either leaderboard for,
+-- newest first. The ranked_* / casual_* columns are NULL for a mode the
+-- player did not play that season.
+CREATE OR REPLACE FUNCTION get_player_seasons(p_user_id UUID)
+RETURNS TABLE (
+  season_id          UUID,
+  season_number      INTEGER,
+  season_name        TEXT,
+  starts_at          TIMESTAMPTZ,
+  ends_at            TIMESTAMPTZ,
+  ranked_rank        INTEGER,
+  ranked_rank_points INTEGER,
+  ranked_tier        TEXT,
+  ranked_reward_tier TEXT,
+  casual_rank        INTEGER,
+  casual_rank_points INTEGER,
+  casual_tier        TEXT,
+  casual_reward_tier TEXT,
+  season_games       INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  SELECT s.id, s.number, s.name, s.starts_at, s.ends_at,
+         r.rank, r.rank_points, r.tier::TEXT, r.reward_tier::TEXT,
+         c.rank, c.rank_points, c.tier::TEXT, c.reward_tier::TEXT,
+         COALESCE(r.season_games, 0) + COALESCE(c.season_games, 0)
+    FROM seasons s
+    LEFT JOIN season_leaderboard r
+      ON r.season_id = s.id AND r.mode = 'ranked' AND r.user_id = p_user_id
+    LEFT JOIN season_leaderboard c
+      ON c.season_id = s.id AND c.mode = 'casual' AND c.user_id = p_user_id
+   WHERE s.status = 'archived'
+     AND (r.user_id IS NOT NULL OR c.user_id IS NOT NULL)
+   ORDER BY s.number DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_player_seasons(UUID) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION get_player_seasons(UUID) TO authenticated;
+
+COMMENT ON FUNCTION get_player_seasons(UUID) IS
+  'A player''s final ranked and casual standings, tiers and rewards for each archived season.';
+
+-- =============================================================================
+-- 6. pg_cron schedule
+-- =============================================================================
+DO $$
+BEGIN
+  PERFORM cron.unschedule('roll-over-season-hourly');
+EXCEPTION WHEN OTHERS THEN
+  NULL; -- not scheduled yet, or pg_cron not installed
+END;
+$$;
+
+DO $$
+BEGIN
+  PERFORM cron.schedule(
+    'roll-over-season-hourly',
+    '0 * * * *',
+    'SELECT public.roll_over_season();'
+  );
+  RAISE NOTICE 'pg_cron: roll-over-season-hourly scheduled';
+EXCEPTION WHEN OTHERS THEN
+  RAISE NOTICE 'pg_cron scheduling skipped (extension not available): %', SQLERRM;
+END;
+$$;
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000013: seasons (seasons, season_leaderboard, roll_over_season, get_player_seasons) added.';
+END $$;
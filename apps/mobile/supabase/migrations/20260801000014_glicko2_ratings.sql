@@ -0,0 +1,109 @@
+-- =============================================================================
+-- Migration: glicko2_ratings
+-- Date: 2026-08-01
+--
+-- Glicko-2 ranked ratings. complete-game rated ranked games as pairwise chess
+-- ELO with K=32, so new accounts took dozens of games to reach their level
+-- and players coming back after months kept ratings nobody had checked.
+-- Ranked games are now rated with Glicko-2 (rateRankedGame in
+-- supabase/functions/_shared/glicko2.ts), which tracks how sure it is of
+-- each rating:
+--
+--   1. profiles.rating_deviation / rating_volatility / rating_updated_at.
+--      The deviation starts at 350, shrinks as a player plays ranked games
+--      and widens again for every day they do not. find-match sizes its
+--      rating window from it.
+--   2. apply_ranked_rating — service-role write of a player's new rating to
+--      profiles.elo_rating / rank (what find-match, tournaments and the
+--      profile badge read), used by complete-game and
+--      scripts/recompute-ratings.mjs. It returns the rating change, which
+--      complete-game passes on to update_player_stats_after_game as
+--      p_ranked_elo_change, so player_stats.ranked_rank_points (the ranked
+--      leaderboard) moves by the same amount.
+--
+-- Existing ratings are migrated by replaying ranked game_history:
+--   npm run ratings:recompute   (see scripts/README.md)
+-- =============================================================================
+
+-- =============================================================================
+-- 1. profiles rating columns
+-- =============================================================================
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS rating_deviation  DOUBLE PRECISION NOT NULL DEFAULT 350;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS rating_volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS rating_updated_at TIMESTAMPTZ;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS check_rating_deviation;
+ALTER TABLE profiles ADD CONSTRAINT check_rating_deviation
+  CHECK (rating_deviation BETWEEN 30 AND 350);
+
+COMMENT ON COLUMN profiles.rating_deviation IS
+  'Glicko-2 rating deviation (30–350): how uncertain elo_rating is. Widens by a day''s volatility per idle day.';
+COMMENT ON COLUMN profiles.rating_volatility IS
+  'Glicko-2 volatility: how erratic the player''s ranked results are.';
+COMMENT ON COLUMN profiles.rating_updated_at IS
+  'When the player''s last ranked game was rated; NULL before their first.';
+
+-- =============================================================================
+-- 2. apply_ranked_rating
+-- =============================================================================
+-- p_rating is the new Glicko-2 rating, rounded. complete-game moves
+-- ranked_rank_points by the returned change rather than overwriting it, so a
+-- game rated while the two disagree (before the replay has run) cannot jump
+-- the leaderboard.
+CREATE OR REPLACE FUNCTION apply_ranked_rating(
+  p_user_id    UUID,
+  p_rating     INTEGER,
+  p_deviation  DOUBLE PRECISION,
+  p_volatility DOUBLE PRECISION,
+  p_rated_at   TIMESTAMPTZ DEFAULT NOW()
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rating INTEGER := GREATEST(0, p_rating);
+  v_old    INTEGER;
+BEGIN
+  IF p_deviation IS NULL OR p_deviation NOT BETWEEN 30 AND 350 THEN
+    RAISE EXCEPTION 'apply_ranked_rating: deviation must be between 30 and 350';
+  END IF;
+
+  IF p_volatility IS NULL OR p_volatility <= 0 THEN
+    RAISE EXCEPTION 'apply_ranked_rating: volatility must be positive';
+  END IF;
+
+  SELECT COALESCE(elo_rating, 1000) INTO v_old
+    FROM profiles
+   WHERE id = p_user_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'apply_ranked_rating: profile % not found', p_user_id;
+  END IF;
+
+  UPDATE profiles
+     SET elo_rating        = v_rating,
+         rank              = calculate_rank_from_elo(v_rating),
+         best_elo_rating   = GREATEST(COALESCE(best_elo_rating, 0), v_rating),
+         rating_deviation  = p_deviation,
+         rating_volatility = p_volatility,
+         rating_updated_at = p_rated_at,
+         elo_updated_at    = NOW()
+   WHERE id = p_user_id;
+
+  RETURN v_rating - v_old;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_ranked_rating(UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION apply_ranked_rating(UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) TO service_role;
+
+COMMENT ON FUNCTION apply_ranked_rating(UUID, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) IS
+  'Service role only: store a player''s new Glicko-2 rating, deviation and volatility on profiles '
+  '(elo_rating, rank, best_elo_rating) and return the rating change.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000014: Glicko-2 ratings (profiles.rating_deviation / rating_volatility / rating_updated_at, apply_ranked_rating) added.';
+END $$;
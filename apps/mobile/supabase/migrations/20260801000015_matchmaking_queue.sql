@@ -0,0 +1,116 @@
+-- =============================================================================
+-- Migration: matchmaking_queue
+-- Date: 2026-08-01
+--
+-- Smarter matchmaking. find-match used to seat the first four players of the
+-- same region within a fixed rating window, and only when someone new joined
+-- the queue. It now widens each player's rating window the longer they wait,
+-- reaches from their own region to nearby regions and then to all of them,
+-- keeps players from their previous table apart for a while, and seats
+-- parties of two or three friends together (assembleMatchmakingTable in
+-- supabase/functions/_shared/matchmakingQueue.ts):
+--
+--   1. waiting_room.rating_window — the player's window before widening
+--      (matchmakingRatingWindow of their Glicko-2 deviation), so other
+--      searchers can widen it by the player's own wait.
+--   2. waiting_room.last_opponent_ids — who the player sat with in their
+--      previous game.
+--   3. waiting_room.party_id / party_member_ids — the party leader queues
+--      with up to two accepted friends; each friend joins the party from the
+--      invite push. A party is matched once every member is waiting.
+--   4. pg_cron schedule for a find-match sweep (every minute), so players
+--      whose windows have widened are matched without waiting for a newcomer.
+-- =============================================================================
+
+-- =============================================================================
+-- 1–3. waiting_room columns
+-- =============================================================================
+ALTER TABLE waiting_room ADD COLUMN IF NOT EXISTS rating_window     INTEGER NOT NULL DEFAULT 200;
+ALTER TABLE waiting_room ADD COLUMN IF NOT EXISTS last_opponent_ids UUID[]  NOT NULL DEFAULT '{}';
+ALTER TABLE waiting_room ADD COLUMN IF NOT EXISTS party_id          UUID;
+ALTER TABLE waiting_room ADD COLUMN IF NOT EXISTS party_member_ids  UUID[];
+
+ALTER TABLE waiting_room DROP CONSTRAINT IF EXISTS check_rating_window;
+ALTER TABLE waiting_room ADD CONSTRAINT check_rating_window
+  CHECK (rating_window BETWEEN 0 AND 1000);
+
+ALTER TABLE waiting_room DROP CONSTRAINT IF EXISTS check_party_members;
+ALTER TABLE waiting_room ADD CONSTRAINT check_party_members
+  CHECK (
+    (party_id IS NULL AND party_member_ids IS NULL)
+    OR (party_id IS NOT NULL AND cardinality(party_member_ids) BETWEEN 2 AND 3
+        AND user_id = ANY (party_member_ids))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_waiting_room_party
+  ON waiting_room(party_id) WHERE party_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_waiting_room_queue
+  ON waiting_room(match_type, joined_at) WHERE status = 'waiting';
+
+COMMENT ON COLUMN waiting_room.rating_window IS
+  'Rating window before widening, from the player''s Glicko-2 deviation. Written by find-match.';
+COMMENT ON COLUMN waiting_room.last_opponent_ids IS
+  'Players from the player''s previous game, kept apart from them until both have waited a while.';
+COMMENT ON COLUMN waiting_room.party_id IS
+  'Shared by the members of a matchmaking party; NULL for solo players.';
+COMMENT ON COLUMN waiting_room.party_member_ids IS
+  'Every member of the party, leader first. Matched once each member has a waiting row.';
+
+-- =============================================================================
+-- 4. pg_cron schedule — find-match sweep every minute
+-- =============================================================================
+-- Same database settings as the advance-tournament job
+-- (20260801000009_tournaments.sql).
+DO $$
+DECLARE
+  functions_base_url text := nullif(current_setting('app.supabase_functions_base_url', true), '');
+  cron_secret        text := nullif(current_setting('app.cron_secret', true), '');
+BEGIN
+  IF to_regclass('cron.job') IS NULL THEN
+    RAISE WARNING 'pg_cron is not available; skipping find-match sweep cron registration.';
+    RETURN;
+  END IF;
+
+  IF to_regproc('net.http_post') IS NULL THEN
+    RAISE WARNING 'pg_net (net.http_post) is not available; skipping find-match sweep cron registration.';
+    RETURN;
+  END IF;
+
+  IF functions_base_url IS NULL OR cron_secret IS NULL THEN
+    RAISE WARNING
+      'app.supabase_functions_base_url / app.cron_secret are not set; skipping find-match sweep cron registration.';
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'find-match-sweep') THEN
+    PERFORM cron.unschedule('find-match-sweep');
+  END IF;
+
+  PERFORM cron.schedule(
+    'find-match-sweep',
+    '* * * * *',
+    format(
+      $cron$
+      SELECT net.http_post(
+        url     := %L,
+        headers := jsonb_build_object(
+          'Content-Type',  'application/json',
+          'Authorization', %L
+        ),
+        body    := '{"sweep": true}'::jsonb
+      );
+      $cron$,
+      functions_base_url || '/functions/v1/find-match',
+      'Bearer ' || cron_secret
+    )
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'find-match sweep cron registration failed: %', SQLERRM;
+END
+$$;
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000015: waiting_room rating_window / last_opponent_ids / party columns added; find-match sweep scheduled.';
+END $$;
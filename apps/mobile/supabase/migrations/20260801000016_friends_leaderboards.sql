@@ -0,0 +1,174 @@
+-- =============================================================================
+-- Migration: friends_leaderboards
+-- Date: 2026-08-01
+--
+-- Friends scope for the leaderboard. LeaderboardScreen only ranked everyone,
+-- and player_stats / game_history rows of other players are not readable
+-- through RLS beyond what the global leaderboard wrappers expose. These
+-- SECURITY DEFINER RPCs return only the caller and their accepted friends:
+--
+--   1. get_friends_leaderboard — the caller and their friends ranked by the
+--      casual or ranked points of player_stats (same order and tie-breakers as
+--      the global leaderboard), with each friend's head-to-head record against
+--      the caller from the game_history rows both took part in.
+--   2. get_friends_weekly_recap — games played and won over the last 7 days by
+--      the caller and each friend, and how many of those were played together.
+-- =============================================================================
+
+-- =============================================================================
+-- 1. get_friends_leaderboard
+-- =============================================================================
+-- p_since matches the global weekly/daily filters: only players whose last
+-- game is after it, and only head-to-head games finished after it.
+CREATE OR REPLACE FUNCTION public.get_friends_leaderboard(
+  p_mode  text        DEFAULT 'casual',
+  p_since timestamptz DEFAULT NULL
+)
+RETURNS TABLE(
+  user_id              uuid,
+  username             text,
+  avatar_url           text,
+  rank_points          integer,
+  games_played         integer,
+  games_won            integer,
+  win_rate             numeric,
+  longest_win_streak   integer,
+  current_win_streak   integer,
+  rank                 bigint,
+  h2h_games            integer,
+  h2h_wins             integer,
+  h2h_losses           integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  WITH circle AS (
+    SELECT auth.uid() AS member_id
+    UNION
+    SELECT CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END
+    FROM   public.friendships f
+    WHERE  f.status = 'accepted'
+      AND  (f.requester_id = auth.uid() OR f.addressee_id = auth.uid())
+  ),
+  stats AS (
+    SELECT ps.user_id,
+           p.username,
+           p.avatar_url,
+           COALESCE(CASE WHEN p_mode = 'ranked' THEN ps.ranked_rank_points ELSE ps.casual_rank_points END,
+                    ps.rank_points, 0)::integer AS rank_points,
+           COALESCE(CASE WHEN p_mode = 'ranked' THEN ps.ranked_games_played ELSE ps.casual_games_played END,
+                    0)::integer AS games_played,
+           COALESCE(CASE WHEN p_mode = 'ranked' THEN ps.ranked_games_won ELSE ps.casual_games_won END,
+                    0)::integer AS games_won,
+           COALESCE(CASE WHEN p_mode = 'ranked' THEN ps.ranked_win_rate ELSE ps.casual_win_rate END,
+                    0)::numeric AS win_rate,
+           COALESCE(ps.longest_win_streak, 0)::integer AS longest_win_streak,
+           COALESCE(ps.current_win_streak, 0)::integer AS current_win_streak
+    FROM   public.player_stats ps
+    JOIN   circle c ON c.member_id = ps.user_id
+    JOIN   public.profiles p ON p.id = ps.user_id
+    WHERE  p_since IS NULL OR ps.last_game_at >= p_since
+  ),
+  together AS (
+    SELECT c.member_id,
+           COUNT(*)::integer                                        AS games,
+           COUNT(*) FILTER (WHERE gh.winner_id = auth.uid())::integer AS wins,
+           COUNT(*) FILTER (WHERE gh.winner_id = c.member_id)::integer AS losses
+    FROM   circle c
+    JOIN   public.game_history gh
+      ON   c.member_id IN (gh.player_1_id, gh.player_2_id, gh.player_3_id, gh.player_4_id)
+     AND   auth.uid()  IN (gh.player_1_id, gh.player_2_id, gh.player_3_id, gh.player_4_id)
+    WHERE  c.member_id <> auth.uid()
+      AND  gh.game_type = p_mode
+      AND  (p_since IS NULL OR gh.finished_at >= p_since)
+    GROUP  BY c.member_id
+  )
+  SELECT s.user_id, s.username, s.avatar_url, s.rank_points,
+         s.games_played, s.games_won, s.win_rate,
+         s.longest_win_streak, s.current_win_streak,
+         ROW_NUMBER() OVER (ORDER BY s.rank_points DESC, s.games_won DESC, s.user_id ASC) AS rank,
+         COALESCE(t.games, 0), COALESCE(t.wins, 0), COALESCE(t.losses, 0)
+  FROM   stats s
+  LEFT   JOIN together t ON t.member_id = s.user_id
+  WHERE  s.games_played > 0
+  ORDER  BY rank;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_friends_leaderboard(text, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_friends_leaderboard(text, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION public.get_friends_leaderboard(text, timestamptz) IS
+  'The caller and their accepted friends ranked by casual or ranked points, with each friend''s '
+  'head-to-head games, wins and losses against the caller.';
+
+-- =============================================================================
+-- 2. get_friends_weekly_recap
+-- =============================================================================
+-- For the caller's own row, games_with_you / wins_with_you count the games
+-- they played with at least one friend.
+CREATE OR REPLACE FUNCTION public.get_friends_weekly_recap()
+RETURNS TABLE(
+  user_id        uuid,
+  username       text,
+  avatar_url     text,
+  games_played   integer,
+  games_won      integer,
+  games_with_you integer,
+  wins_with_you  integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  WITH circle AS (
+    SELECT auth.uid() AS member_id
+    UNION
+    SELECT CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END
+    FROM   public.friendships f
+    WHERE  f.status = 'accepted'
+      AND  (f.requester_id = auth.uid() OR f.addressee_id = auth.uid())
+  ),
+  week AS (
+    SELECT gh.winner_id,
+           ARRAY[gh.player_1_id, gh.player_2_id, gh.player_3_id, gh.player_4_id] AS player_ids
+    FROM   public.game_history gh
+    WHERE  gh.finished_at >= NOW() - INTERVAL '7 days'
+  ),
+  played AS (
+    SELECT c.member_id,
+           w.winner_id = c.member_id AS won,
+           CASE
+             WHEN c.member_id = auth.uid()
+               THEN EXISTS (SELECT 1 FROM circle o
+                            WHERE o.member_id <> auth.uid() AND o.member_id = ANY (w.player_ids))
+             ELSE auth.uid() = ANY (w.player_ids)
+           END AS with_you
+    FROM   circle c
+    JOIN   week w ON c.member_id = ANY (w.player_ids)
+  )
+  SELECT p.id, p.username, p.avatar_url,
+         COUNT(pl.member_id)::integer,
+         COUNT(*) FILTER (WHERE pl.won)::integer,
+         COUNT(*) FILTER (WHERE pl.with_you)::integer,
+         COUNT(*) FILTER (WHERE pl.with_you AND pl.won)::integer
+  FROM   circle c
+  JOIN   public.profiles p ON p.id = c.member_id
+  LEFT   JOIN played pl ON pl.member_id = c.member_id
+  GROUP  BY p.id, p.username, p.avatar_url
+  ORDER  BY COUNT(pl.member_id) DESC, p.username ASC;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_friends_weekly_recap() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_friends_weekly_recap() TO authenticated;
+
+COMMENT ON FUNCTION public.get_friends_weekly_recap() IS
+  'Games played and won over the last 7 days by the caller and each accepted friend, '
+  'and how many of them were played with the caller.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000016: get_friends_leaderboard / get_friends_weekly_recap added.';
+END $$;
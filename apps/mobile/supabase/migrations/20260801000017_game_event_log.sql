@@ -0,0 +1,288 @@
+-- =============================================================================
+-- Migration: game_event_log
+-- Date: 2026-08-01
+--
+-- Event-sourced game log. The edge functions mutate game_state in place, so
+-- a corrupted or stuck room could only be repaired by hand and nobody could
+-- tell how it got there. Every game_state transition is now appended to
+-- game_events with a per-room sequence number, and game_state can be rebuilt
+-- from those events (rebuildGameStateFromEvents in
+-- supabase/functions/_shared/gameLog.ts):
+--
+--   1. game_state.pending_events — play-cards, player-pass and
+--      start_new_match tag their update with the events it stands for
+--      (cards_dealt, play_made, pass, round_ended, game_ended).
+--   2. game_events sequence — unique (room_id, sequence_number); the log is
+--      service-role only, since deals carry every hand.
+--   3. append_game_events / game_state triggers — append the tagged events in
+--      the same transaction as the update, so the log has the updates'
+--      order. Untagged writes are logged too: the first deal written by
+--      start_game_with_bots as cards_dealt, anything else (execute_pass_move
+--      and the other SQL pass paths, manual fixes) as turn_changed with the
+--      columns it changed.
+--   4. game_state_rebuilds / apply_rebuilt_game_state — service-role write of
+--      a rebuilt game_state, with the state it replaced and the issues the
+--      rebuild found kept for audit. Run through
+--        npm run rooms:rebuild -- <room code>   (see scripts/README.md)
+-- =============================================================================
+
+-- =============================================================================
+-- 1. game_state.pending_events
+-- =============================================================================
+ALTER TABLE game_state ADD COLUMN IF NOT EXISTS pending_events JSONB;
+
+COMMENT ON COLUMN game_state.pending_events IS
+  'Events an update stands for ([{event_type, player_index, event_data}]). Moved to game_events by '
+  'the trigger_write_game_event_log trigger; always NULL once written.';
+
+-- =============================================================================
+-- 2. game_events sequence and access
+-- =============================================================================
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_events_room_sequence
+  ON game_events(room_id, sequence_number);
+
+-- Deals and plays carry hands: only the service role (which bypasses RLS)
+-- reads the log.
+DROP POLICY IF EXISTS "Anyone can view game events in active rooms" ON public.game_events;
+
+-- =============================================================================
+-- 3. append_game_events and the game_state triggers
+-- =============================================================================
+-- Called with the room's game_state row locked (by the UPDATE being logged),
+-- so sequence numbers are handed out in update order without gaps.
+CREATE OR REPLACE FUNCTION append_game_events(
+  p_room_id UUID,
+  p_events  JSONB
+) RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sequence BIGINT;
+  v_event    JSONB;
+BEGIN
+  IF p_events IS NULL OR jsonb_typeof(p_events) <> 'array' THEN
+    RAISE EXCEPTION 'append_game_events: events must be a JSON array';
+  END IF;
+
+  SELECT COALESCE(MAX(sequence_number), 0) INTO v_sequence
+    FROM game_events
+   WHERE room_id = p_room_id;
+
+  FOR v_event IN SELECT value FROM jsonb_array_elements(p_events) LOOP
+    v_sequence := v_sequence + 1;
+    INSERT INTO game_events (room_id, sequence_number, event_type, player_index, event_data)
+    VALUES (
+      p_room_id,
+      v_sequence,
+      (v_event->>'event_type')::game_event_type,
+      (v_event->>'player_index')::INTEGER,
+      COALESCE(v_event->'event_data', '{}'::JSONB)
+    );
+  END LOOP;
+
+  RETURN v_sequence;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION append_game_events(UUID, JSONB) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION append_game_events(UUID, JSONB) TO service_role;
+
+-- The columns rebuildGameStateFromEvents rebuilds (GAME_LOG_STATE_KEYS)
+CREATE OR REPLACE FUNCTION game_log_state(p_row JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_object_agg(key, p_row->key), '{}'::JSONB)
+    FROM unnest(ARRAY[
+      'match_number', 'game_phase', 'current_turn', 'hands', 'last_play', 'passes',
+      'played_cards', 'play_history', 'auto_pass_timer', 'scores_history',
+      'last_match_winner_index', 'match_ended_at', 'game_winner_index', 'final_scores',
+      'game_ended_at', 'deal_seed_hash'
+    ]) AS key;
+$$;
+
+CREATE OR REPLACE FUNCTION log_game_state_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_changes JSONB;
+BEGIN
+  IF NEW.pending_events IS NOT NULL THEN
+    PERFORM append_game_events(NEW.room_id, NEW.pending_events);
+    NEW.pending_events := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- start_game_with_bots re-dealing an existing row (INSERT … ON CONFLICT)
+  IF NEW.match_number = 1 AND NEW.game_phase = 'first_play'
+     AND NEW.hands IS DISTINCT FROM OLD.hands THEN
+    PERFORM append_game_events(NEW.room_id, jsonb_build_array(jsonb_build_object(
+      'event_type', 'cards_dealt',
+      'player_index', NULL,
+      'event_data', jsonb_build_object(
+        'match_number', NEW.match_number,
+        'hands', NEW.hands,
+        'current_turn', NEW.current_turn,
+        'game_phase', NEW.game_phase,
+        'deal_seed_hash', NEW.deal_seed_hash
+      )
+    )));
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(n.key, n.value), '{}'::JSONB) INTO v_changes
+    FROM jsonb_each(game_log_state(to_jsonb(NEW))) n
+    JOIN jsonb_each(game_log_state(to_jsonb(OLD))) o USING (key)
+   WHERE n.value IS DISTINCT FROM o.value;
+
+  IF v_changes <> '{}'::JSONB THEN
+    PERFORM append_game_events(NEW.room_id, jsonb_build_array(jsonb_build_object(
+      'event_type', 'turn_changed',
+      'player_index', NULL,
+      'event_data', v_changes
+    )));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_game_state_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM append_game_events(NEW.room_id, jsonb_build_array(jsonb_build_object(
+    'event_type', 'cards_dealt',
+    'player_index', NULL,
+    'event_data', jsonb_build_object(
+      'match_number', NEW.match_number,
+      'hands', NEW.hands,
+      'current_turn', NEW.current_turn,
+      'game_phase', NEW.game_phase,
+      'deal_seed_hash', NEW.deal_seed_hash
+    )
+  )));
+  RETURN NULL;
+END;
+$$;
+
+-- BEFORE UPDATE so pending_events is cleared in the same write. Triggers fire
+-- in name order, so the name keeps this one after sync_pass_counts_trigger
+-- and the trigger_transition_* / trigger_update_* triggers and the changes
+-- they make are logged too. The insert trigger runs AFTER INSERT: for
+-- INSERT … ON CONFLICT DO UPDATE a BEFORE INSERT trigger would also fire for
+-- the row that turns into an update.
+DROP TRIGGER IF EXISTS trigger_write_game_event_log ON game_state;
+CREATE TRIGGER trigger_write_game_event_log
+  BEFORE UPDATE ON game_state
+  FOR EACH ROW
+  EXECUTE FUNCTION log_game_state_update();
+
+DROP TRIGGER IF EXISTS trigger_write_game_event_log_insert ON game_state;
+CREATE TRIGGER trigger_write_game_event_log_insert
+  AFTER INSERT ON game_state
+  FOR EACH ROW
+  EXECUTE FUNCTION log_game_state_insert();
+
+-- =============================================================================
+-- 4. game_state_rebuilds / apply_rebuilt_game_state
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS game_state_rebuilds (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id          UUID        NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  through_sequence BIGINT      NOT NULL,
+  previous_state   JSONB       NOT NULL,
+  rebuilt_state    JSONB       NOT NULL,
+  issues           JSONB       NOT NULL DEFAULT '[]'::JSONB,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_game_state_rebuilds_room
+  ON game_state_rebuilds(room_id, created_at DESC);
+
+ALTER TABLE game_state_rebuilds ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE game_state_rebuilds IS
+  'game_state repairs from the event log: the columns replaced, the rebuilt ones and what the rebuild found.';
+
+-- p_through_sequence is the last event the rebuild folded in. The write is
+-- refused when events were appended since, so a live room is never rolled
+-- back to an older state.
+CREATE OR REPLACE FUNCTION apply_rebuilt_game_state(
+  p_room_id          UUID,
+  p_state            JSONB,
+  p_through_sequence BIGINT,
+  p_issues           JSONB DEFAULT '[]'::JSONB
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current game_state%ROWTYPE;
+  v_latest  BIGINT;
+  v_id      UUID;
+BEGIN
+  SELECT * INTO v_current FROM game_state WHERE room_id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'apply_rebuilt_game_state: no game_state for room %', p_room_id;
+  END IF;
+
+  SELECT MAX(sequence_number) INTO v_latest FROM game_events WHERE room_id = p_room_id;
+  IF v_latest IS DISTINCT FROM p_through_sequence THEN
+    RAISE EXCEPTION 'apply_rebuilt_game_state: room % has events up to %, rebuilt through %',
+      p_room_id, v_latest, p_through_sequence;
+  END IF;
+
+  INSERT INTO game_state_rebuilds (room_id, through_sequence, previous_state, rebuilt_state, issues)
+  VALUES (p_room_id, p_through_sequence, game_log_state(to_jsonb(v_current)),
+          game_log_state(p_state), COALESCE(p_issues, '[]'::JSONB))
+  RETURNING id INTO v_id;
+
+  UPDATE game_state
+     SET match_number            = (p_state->>'match_number')::INTEGER,
+         game_phase              = p_state->>'game_phase',
+         current_turn            = (p_state->>'current_turn')::INTEGER,
+         hands                   = p_state->'hands',
+         last_play               = NULLIF(p_state->'last_play', 'null'::JSONB),
+         passes                  = (p_state->>'passes')::INTEGER,
+         played_cards            = p_state->'played_cards',
+         play_history            = p_state->'play_history',
+         auto_pass_timer         = NULLIF(p_state->'auto_pass_timer', 'null'::JSONB),
+         scores_history          = p_state->'scores_history',
+         last_match_winner_index = (p_state->>'last_match_winner_index')::INTEGER,
+         match_ended_at          = (p_state->>'match_ended_at')::TIMESTAMPTZ,
+         game_winner_index       = (p_state->>'game_winner_index')::INTEGER,
+         final_scores            = NULLIF(p_state->'final_scores', 'null'::JSONB),
+         game_ended_at           = (p_state->>'game_ended_at')::TIMESTAMPTZ,
+         deal_seed_hash          = p_state->>'deal_seed_hash',
+         -- Logged as a turn_changed event with no columns: the rebuilt state
+         -- is what the events before it already give
+         pending_events          = jsonb_build_array(jsonb_build_object(
+                                     'event_type', 'turn_changed',
+                                     'player_index', NULL,
+                                     'event_data', jsonb_build_object('rebuild_id', v_id)
+                                   )),
+         updated_at              = NOW()
+   WHERE room_id = p_room_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_rebuilt_game_state(UUID, JSONB, BIGINT, JSONB) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION apply_rebuilt_game_state(UUID, JSONB, BIGINT, JSONB) TO service_role;
+
+COMMENT ON FUNCTION apply_rebuilt_game_state(UUID, JSONB, BIGINT, JSONB) IS
+  'Service role only: replace a room''s game_state with the state rebuilt from its game_events '
+  '(through p_through_sequence) and record the repair in game_state_rebuilds.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000017: game_state.pending_events, game_events triggers, game_state_rebuilds and apply_rebuilt_game_state added.';
+END $$;
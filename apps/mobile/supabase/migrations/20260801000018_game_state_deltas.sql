@@ -0,0 +1,231 @@
+-- =============================================================================
+-- Migration: game_state_deltas
+-- Date: 2026-08-01
+--
+-- Delta realtime sync. Clients followed game_state through postgres_changes
+-- and re-fetched the whole row (get_player_game_state) on every change, so
+-- each turn sent hands, play_history and played_cards again — large late in
+-- a game, and on slow networks the refetches completed out of order. Each
+-- game_state transition is now published as a compact delta numbered with
+-- its game_events sequence (migration 20260801000017):
+--
+--   1. game_state.event_sequence — the sequence of the last event logged for
+--      the row, so a snapshot from get_player_game_state says which delta
+--      comes next.
+--   2. game_state_deltas — one row per event: the played cards, next turn,
+--      pass count, auto-pass timer and turn start; deals, match ends and
+--      writes that change more than the turn are published as "snapshot"
+--      deltas. It is in the realtime publication and readable by the room's
+--      seated players only, and never carries a hand.
+--   3. publish_game_state_deltas — trigger that publishes the events each
+--      game_state write appended, keeping the last 200 per room.
+--
+-- The client applies deltas in sequence (src/utils/gameStateDeltas.ts) and
+-- fetches the snapshot again when a sequence number goes missing.
+-- =============================================================================
+
+-- =============================================================================
+-- 1. game_state.event_sequence
+-- =============================================================================
+ALTER TABLE game_state ADD COLUMN IF NOT EXISTS event_sequence BIGINT;
+
+COMMENT ON COLUMN game_state.event_sequence IS
+  'game_events.sequence_number of the last event logged for this row (NULL until the first update '
+  'after the deal). Clients apply game_state_deltas after it.';
+
+-- Same as in 20260801000017, recording the sequence of the events appended
+CREATE OR REPLACE FUNCTION log_game_state_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_changes JSONB;
+BEGIN
+  IF NEW.pending_events IS NOT NULL THEN
+    NEW.event_sequence := append_game_events(NEW.room_id, NEW.pending_events);
+    NEW.pending_events := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- start_game_with_bots re-dealing an existing row (INSERT … ON CONFLICT)
+  IF NEW.match_number = 1 AND NEW.game_phase = 'first_play'
+     AND NEW.hands IS DISTINCT FROM OLD.hands THEN
+    NEW.event_sequence := append_game_events(NEW.room_id, jsonb_build_array(jsonb_build_object(
+      'event_type', 'cards_dealt',
+      'player_index', NULL,
+      'event_data', jsonb_build_object(
+        'match_number', NEW.match_number,
+        'hands', NEW.hands,
+        'current_turn', NEW.current_turn,
+        'game_phase', NEW.game_phase,
+        'deal_seed_hash', NEW.deal_seed_hash
+      )
+    )));
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(n.key, n.value), '{}'::JSONB) INTO v_changes
+    FROM jsonb_each(game_log_state(to_jsonb(NEW))) n
+    JOIN jsonb_each(game_log_state(to_jsonb(OLD))) o USING (key)
+   WHERE n.value IS DISTINCT FROM o.value;
+
+  IF v_changes <> '{}'::JSONB THEN
+    NEW.event_sequence := append_game_events(NEW.room_id, jsonb_build_array(jsonb_build_object(
+      'event_type', 'turn_changed',
+      'player_index', NULL,
+      'event_data', v_changes
+    )));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- 2. game_state_deltas
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS game_state_deltas (
+  room_id         UUID        NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  sequence_number BIGINT      NOT NULL,
+  delta           JSONB       NOT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, sequence_number)
+);
+
+ALTER TABLE game_state_deltas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Players can view deltas in their room" ON game_state_deltas;
+CREATE POLICY "Players can view deltas in their room" ON game_state_deltas
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM room_players rp
+    WHERE rp.room_id = game_state_deltas.room_id AND rp.user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE game_state_deltas IS
+  'Compact game_state changes for the room''s players, numbered like game_events: '
+  '{kind: play|pass|patch|snapshot, ...}. Never contains hands. Written by publish_game_state_deltas only.';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'game_state_deltas'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE game_state_deltas;
+  END IF;
+END $$;
+
+-- =============================================================================
+-- 3. publish_game_state_deltas
+-- =============================================================================
+-- The delta for one event. p_turn_started_at is the row's turn start after
+-- the write (trigger_update_turn_started_at resets it on a turn change).
+CREATE OR REPLACE FUNCTION game_state_delta(
+  p_event_type      game_event_type,
+  p_player_index    INTEGER,
+  p_event_data      JSONB,
+  p_turn_started_at TIMESTAMPTZ
+) RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  CASE p_event_type
+    WHEN 'play_made' THEN
+      RETURN jsonb_build_object(
+        'kind', 'play',
+        'player_index', p_player_index,
+        'cards', p_event_data->'cards',
+        'combo_type', p_event_data->'combo_type',
+        'next_turn', p_event_data->'next_turn',
+        'timestamp', p_event_data->'timestamp',
+        'auto_pass_timer', p_event_data->'auto_pass_timer',
+        'turn_started_at', p_turn_started_at
+      );
+    WHEN 'pass' THEN
+      RETURN jsonb_build_object(
+        'kind', 'pass',
+        'player_index', p_player_index,
+        'next_turn', p_event_data->'next_turn',
+        'passes', p_event_data->'passes',
+        'trick_cleared', p_event_data->'trick_cleared',
+        'turn_started_at', p_turn_started_at
+      );
+    WHEN 'turn_changed' THEN
+      -- Only turn-level columns can be patched; anything else needs the snapshot
+      IF p_event_data <> '{}'::JSONB AND NOT EXISTS (
+        SELECT 1 FROM jsonb_object_keys(p_event_data) AS k(key)
+         WHERE key NOT IN ('current_turn', 'passes', 'auto_pass_timer', 'game_phase', 'last_play')
+      ) THEN
+        RETURN jsonb_build_object(
+          'kind', 'patch',
+          'fields', p_event_data,
+          'turn_started_at', p_turn_started_at
+        );
+      END IF;
+      RETURN jsonb_build_object('kind', 'snapshot');
+    ELSE
+      RETURN jsonb_build_object('kind', 'snapshot');
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_game_state_deltas()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_published BIGINT;
+  v_latest    BIGINT;
+BEGIN
+  IF NEW.room_id IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.event_sequence IS NOT DISTINCT FROM OLD.event_sequence) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A room's first deltas start at its latest deal, not at a previous game's events
+  SELECT COALESCE(
+           (SELECT MAX(sequence_number) FROM game_state_deltas WHERE room_id = NEW.room_id),
+           (SELECT MAX(sequence_number) - 1 FROM game_events
+             WHERE room_id = NEW.room_id AND event_type = 'cards_dealt'),
+           0)
+    INTO v_published;
+
+  INSERT INTO game_state_deltas (room_id, sequence_number, delta)
+  SELECT e.room_id,
+         e.sequence_number,
+         game_state_delta(e.event_type, e.player_index, e.event_data, NEW.turn_started_at)
+    FROM game_events e
+   WHERE e.room_id = NEW.room_id
+     AND e.sequence_number > v_published
+   ORDER BY e.sequence_number;
+
+  SELECT MAX(sequence_number) INTO v_latest FROM game_state_deltas WHERE room_id = NEW.room_id;
+  DELETE FROM game_state_deltas
+   WHERE room_id = NEW.room_id
+     AND sequence_number <= v_latest - 200;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Named to run after trigger_write_game_event_log_insert, which appends the
+-- first deal of an inserted row
+DROP TRIGGER IF EXISTS trigger_write_game_state_deltas ON game_state;
+CREATE TRIGGER trigger_write_game_state_deltas
+  AFTER INSERT OR UPDATE ON game_state
+  FOR EACH ROW
+  EXECUTE FUNCTION publish_game_state_deltas();
+
+COMMENT ON FUNCTION get_player_game_state(UUID) IS
+  'C1 Fix: Returns game_state with only the requesting player''s hand visible. '
+  'Other players'' hands are replaced with placeholder arrays preserving card counts. '
+  'Live changes are published to game_state_deltas after event_sequence.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000018: game_state.event_sequence, game_state_deltas and publish_game_state_deltas added.';
+END $$;
@@ -0,0 +1,117 @@
+-- =============================================================================
+-- Migration: spectator_delay_no_live_state
+-- Date: 2026-08-01
+--
+-- Rooms with delayed open hands leaked the live game to their spectators.
+-- publish_spectator_game_state wrote every change to spectator_game_state as
+-- it happened, and the table's SELECT policy and realtime publication served
+-- it to anyone watching the room — so a spectator of a delayed room could
+-- read the current turn, last play and card counts straight away and put
+-- them next to the delayed open hands.
+--
+--   1. publish_spectator_game_state — delayed rooms get snapshots only; their
+--      spectator_game_state row is removed instead of kept up to date.
+--   2. spectator_game_state SELECT policy — rooms with a reveal delay are
+--      excluded, which also keeps their changes off the realtime channel
+--      (postgres_changes is filtered by the same policy).
+--   3. Existing spectator_game_state rows of delayed rooms are deleted.
+--
+-- Spectators of a delayed room poll get_spectator_game_state, which only
+-- hands out snapshots at least revealDelaySeconds old.
+-- =============================================================================
+
+-- =============================================================================
+-- 1. publish_spectator_game_state
+-- =============================================================================
+CREATE OR REPLACE FUNCTION publish_spectator_game_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_state JSONB;
+  v_delay INTEGER;
+BEGIN
+  IF NEW.room_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_state := jsonb_build_object(
+    'current_turn',      NEW.current_turn,
+    'game_phase',        NEW.game_phase,
+    'match_number',      NEW.match_number,
+    'last_play',         NEW.last_play,
+    'pass_count',        COALESCE(NEW.pass_count, 0),
+    'card_counts',       (SELECT COALESCE(jsonb_object_agg(key, jsonb_array_length(value)), '{}'::JSONB)
+                            FROM jsonb_each(COALESCE(NEW.hands, '{}'::JSONB))),
+    'scores_history',    COALESCE(NEW.scores_history, '[]'::JSONB),
+    'game_winner_index', NEW.game_winner_index,
+    'turn_started_at',   NEW.turn_started_at
+  );
+
+  SELECT (settings->'spectators'->>'revealDelaySeconds')::INTEGER INTO v_delay
+    FROM rooms
+   WHERE id = NEW.room_id;
+
+  IF v_delay IS NULL THEN
+    INSERT INTO spectator_game_state (room_id, state, updated_at)
+    VALUES (NEW.room_id, v_state, NOW())
+    ON CONFLICT (room_id) DO UPDATE SET state = EXCLUDED.state, updated_at = EXCLUDED.updated_at;
+    RETURN NEW;
+  END IF;
+
+  -- Delayed open hands: nothing live is published for this room
+  DELETE FROM spectator_game_state WHERE room_id = NEW.room_id;
+
+  INSERT INTO spectator_snapshots (room_id, state, hands)
+  VALUES (NEW.room_id, v_state, COALESCE(NEW.hands, '{}'::JSONB));
+
+  -- Keep the newest snapshot old enough to serve and everything after it
+  DELETE FROM spectator_snapshots
+   WHERE room_id = NEW.room_id
+     AND captured_at < (
+       SELECT MAX(captured_at) FROM spectator_snapshots
+        WHERE room_id = NEW.room_id
+          AND captured_at <= NOW() - make_interval(secs => v_delay)
+     );
+
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- 2. spectator_game_state SELECT policy (and so its realtime changes)
+-- =============================================================================
+DROP POLICY IF EXISTS "Spectators can view the rooms they watch" ON spectator_game_state;
+CREATE POLICY "Spectators can view the rooms they watch" ON spectator_game_state
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_spectators s
+      WHERE s.room_id = spectator_game_state.room_id AND s.user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM rooms r
+      WHERE r.id = spectator_game_state.room_id
+        AND r.settings->'spectators'->>'revealDelaySeconds' IS NOT NULL
+    )
+  );
+
+COMMENT ON TABLE spectator_game_state IS
+  'Public part of game_state for spectators of rooms without delayed open hands: {current_turn, '
+  'game_phase, match_number, last_play, pass_count, card_counts, scores_history, game_winner_index, '
+  'turn_started_at}. Never contains hands; delayed rooms have no row (see spectator_snapshots).';
+
+-- =============================================================================
+-- 3. Remove the live state already published for delayed rooms
+-- =============================================================================
+DELETE FROM spectator_game_state s
+ USING rooms r
+ WHERE r.id = s.room_id
+   AND r.settings->'spectators'->>'revealDelaySeconds' IS NOT NULL;
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000019: delayed spectator rooms no longer publish live state.';
+END $$;
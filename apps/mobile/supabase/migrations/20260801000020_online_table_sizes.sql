@@ -0,0 +1,950 @@
+-- =============================================================================
+-- Migration: online_table_sizes
+-- Date: 2026-08-01
+--
+-- Online rooms seat two, three or four players. Until now every online room
+-- was a table of four: matchmaking waited for four players, joins stopped at
+-- four, bots filled up to four and the first deal gave four hands of 13.
+-- A table of two or three is dealt like the offline game (dealSeededHands in
+-- supabase/functions/_shared/gameEngine.ts): 17 cards each with the extra
+-- card to the player holding the opening 3 ('extra-card'), or 13 each with
+-- the rest left out as a dummy hand ('dummy').
+--
+--   1. rooms.max_players is the table size (2–4); rooms.settings.deal_variant
+--      says how a short table is dealt.
+--   2. waiting_room.table_size — the table size a player queued for; find-match
+--      only seats players who queued for the same size.
+--   3. game_history.player_count / deal_variant — so replays and exports know
+--      how many seats were dealt.
+--   4. set_room_table — host-only, waiting private rooms only.
+--   5. set_room_duplicate_group — duplicate groups stay tables of four.
+--   6. join_room_atomic — a room is full at its own max_players.
+--   7. get_or_create_rematch_room — the rematch keeps the table of the game.
+--   8. start_game_with_bots — bots fill the free seats of the table, and the
+--      first deal follows the table size and deal variant.
+--
+-- Online turns go round the seats in index order (0 → 1 → … → n - 1 → 0),
+-- so a short table is seated 0..n - 1 with no gaps.
+-- =============================================================================
+
+-- =============================================================================
+-- 1. rooms.max_players
+-- =============================================================================
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_max_players_check;
+ALTER TABLE rooms ADD CONSTRAINT rooms_max_players_check
+  CHECK (max_players BETWEEN 2 AND 4);
+
+COMMENT ON COLUMN rooms.max_players IS
+  'Seats at the table (2–4). Tables of two or three are dealt as rooms.settings.deal_variant says '
+  '(''extra-card'' by default, or ''dummy''). Written by set_room_table and find-match.';
+
+-- =============================================================================
+-- 2. waiting_room.table_size
+-- =============================================================================
+ALTER TABLE waiting_room ADD COLUMN IF NOT EXISTS table_size SMALLINT NOT NULL DEFAULT 4;
+
+ALTER TABLE waiting_room DROP CONSTRAINT IF EXISTS check_table_size;
+ALTER TABLE waiting_room ADD CONSTRAINT check_table_size
+  CHECK (table_size BETWEEN 2 AND 4);
+
+DROP INDEX IF EXISTS idx_waiting_room_queue;
+CREATE INDEX IF NOT EXISTS idx_waiting_room_queue
+  ON waiting_room(match_type, table_size, joined_at) WHERE status = 'waiting';
+
+COMMENT ON COLUMN waiting_room.table_size IS
+  'Table size the player queued for (2–4); a party queues for a table larger than itself. Written by find-match.';
+
+-- =============================================================================
+-- 3. game_history.player_count / deal_variant
+-- =============================================================================
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS player_count SMALLINT NOT NULL DEFAULT 4;
+ALTER TABLE game_history ADD COLUMN IF NOT EXISTS deal_variant TEXT     NOT NULL DEFAULT 'extra-card';
+
+ALTER TABLE game_history DROP CONSTRAINT IF EXISTS game_history_player_count_check;
+ALTER TABLE game_history ADD CONSTRAINT game_history_player_count_check
+  CHECK (player_count BETWEEN 2 AND 4);
+
+ALTER TABLE game_history DROP CONSTRAINT IF EXISTS game_history_deal_variant_check;
+ALTER TABLE game_history ADD CONSTRAINT game_history_deal_variant_check
+  CHECK (deal_variant IN ('extra-card', 'dummy'));
+
+COMMENT ON COLUMN game_history.player_count IS
+  'Seats dealt (2–4); player_3_* / player_4_* are NULL at a smaller table.';
+COMMENT ON COLUMN game_history.deal_variant IS
+  'How a table of two or three was dealt: ''extra-card'' (17 each, the extra card to the opening 3) or ''dummy'' (13 each).';
+
+-- =============================================================================
+-- 4. set_room_table — host picks the table size and deal before the game
+-- =============================================================================
+-- Players already seated keep their order and are moved down to seats
+-- 0..k - 1, so the table has no gaps once it is smaller.
+CREATE OR REPLACE FUNCTION set_room_table(
+  p_room_id      UUID,
+  p_player_count INTEGER,
+  p_deal_variant TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id UUID := auth.uid();
+  v_room      RECORD;
+  v_seated    INTEGER;
+  v_player    RECORD;
+  v_seat      INTEGER := 0;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_table: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status, is_matchmaking, settings INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_table: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_table: only the host can change the table';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_table: the table can only be changed before the game starts';
+  END IF;
+
+  IF v_room.is_matchmaking = true THEN
+    RAISE EXCEPTION 'set_room_table: matchmaking rooms keep the table they were matched for';
+  END IF;
+
+  IF v_room.settings ? 'tournament' OR v_room.settings ? 'duplicate' THEN
+    RAISE EXCEPTION 'set_room_table: tournament and duplicate tables seat four players';
+  END IF;
+
+  IF p_player_count IS NULL OR p_player_count NOT BETWEEN 2 AND 4 THEN
+    RAISE EXCEPTION 'set_room_table: expected 2 to 4 players, got %', p_player_count;
+  END IF;
+
+  IF p_deal_variant IS NULL OR p_deal_variant NOT IN ('extra-card', 'dummy') THEN
+    RAISE EXCEPTION 'set_room_table: unknown deal variant %', p_deal_variant;
+  END IF;
+
+  SELECT COUNT(*) INTO v_seated FROM room_players WHERE room_id = p_room_id;
+
+  IF v_seated > p_player_count THEN
+    RAISE EXCEPTION 'set_room_table: % players are already seated', v_seated;
+  END IF;
+
+  -- Each player moves to a seat no higher than their own, and every seat
+  -- below it is already taken by an earlier player, so none collide
+  FOR v_player IN
+    SELECT id, player_index FROM room_players
+     WHERE room_id = p_room_id
+     ORDER BY player_index
+  LOOP
+    IF v_player.player_index <> v_seat THEN
+      UPDATE room_players SET player_index = v_seat WHERE id = v_player.id;
+    END IF;
+    v_seat := v_seat + 1;
+  END LOOP;
+
+  UPDATE rooms
+     SET max_players = p_player_count,
+         settings = COALESCE(settings, '{}'::JSONB)
+                    || jsonb_build_object('deal_variant', p_deal_variant),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'max_players', p_player_count,
+    'deal_variant', p_deal_variant
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_table(UUID, INTEGER, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_table(UUID, INTEGER, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION set_room_table(UUID, INTEGER, TEXT) IS
+  'Host-only: set rooms.max_players (2–4) and rooms.settings.deal_variant. Waiting private rooms only '
+  '(not matchmaking, tournament or duplicate tables); seated players are moved down to seats 0..k - 1.';
+
+-- =============================================================================
+-- 5. set_room_duplicate_group — duplicate groups stay tables of four
+-- =============================================================================
+CREATE OR REPLACE FUNCTION set_room_duplicate_group(
+  p_room_id UUID,
+  p_code TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_caller_id   UUID := auth.uid();
+  v_room        RECORD;
+  v_group       RECORD;
+  v_table_index INTEGER;
+BEGIN
+  IF v_caller_id IS NULL THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: not authenticated';
+  END IF;
+
+  SELECT id, host_id, status, ranked_mode, max_players INTO v_room
+    FROM rooms
+   WHERE id = p_room_id
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: room % not found', p_room_id;
+  END IF;
+
+  IF v_room.host_id IS DISTINCT FROM v_caller_id THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: only the host can change the duplicate group';
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: the group can only be changed before the game starts';
+  END IF;
+
+  IF v_room.ranked_mode = true THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: ranked rooms cannot join a duplicate group';
+  END IF;
+
+  IF p_code IS NULL OR btrim(p_code) = '' THEN
+    UPDATE rooms
+       SET settings = COALESCE(settings, '{}'::JSONB) - 'duplicate',
+           updated_at = NOW()
+     WHERE id = p_room_id;
+    RETURN jsonb_build_object('success', true, 'duplicate', NULL);
+  END IF;
+
+  -- Seat rotation assumes four hands of 13
+  IF v_room.max_players <> 4 THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: duplicate groups are tables of four players';
+  END IF;
+
+  -- Lock the group so two hosts cannot take the same table
+  SELECT id, code, table_count INTO v_group
+    FROM duplicate_groups
+   WHERE code = upper(btrim(p_code))
+   FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: no duplicate group with code %', upper(btrim(p_code));
+  END IF;
+
+  SELECT MIN(t.idx) INTO v_table_index
+    FROM generate_series(0, v_group.table_count - 1) AS t(idx)
+   WHERE NOT EXISTS (
+           SELECT 1 FROM rooms r
+            WHERE r.id <> p_room_id
+              AND r.settings->'duplicate'->>'groupId' = v_group.id::TEXT
+              AND (r.settings->'duplicate'->>'tableIndex')::INTEGER = t.idx
+         );
+
+  IF v_table_index IS NULL THEN
+    RAISE EXCEPTION 'set_room_duplicate_group: all % tables of group % are taken', v_group.table_count, v_group.code;
+  END IF;
+
+  UPDATE rooms
+     SET settings = COALESCE(settings, '{}'::JSONB) || jsonb_build_object(
+           'duplicate',
+           jsonb_build_object(
+             'groupId',    v_group.id,
+             'code',       v_group.code,
+             'tableIndex', v_table_index,
+             'tableCount', v_group.table_count
+           )
+         ),
+         updated_at = NOW()
+   WHERE id = p_room_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'group_id', v_group.id,
+    'code', v_group.code,
+    'table_index', v_table_index
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_room_duplicate_group(UUID, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION set_room_duplicate_group(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION set_room_duplicate_group(UUID, TEXT) IS
+  'Host-only: seat a waiting, non-ranked four-player room at the next free table of a duplicate group (NULL code leaves).';
+
+-- =============================================================================
+-- 6. join_room_atomic — full at the room's own max_players
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.join_room_atomic(p_room_code text, p_user_id uuid, p_username text)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'pg_catalog'
+AS $function$
+DECLARE
+  v_room_id       UUID;
+  v_player_count  INTEGER;
+  v_max_players   INTEGER;
+  v_player_index  INTEGER;
+  v_is_host       BOOLEAN;
+  v_host_id       UUID;
+  v_room_status   TEXT;
+  v_result        JSONB;
+  v_existing_username TEXT;
+  v_other_room    UUID;
+  v_ghost_threshold CONSTANT INTERVAL := INTERVAL '60 seconds';
+BEGIN
+  -- Bypass RLS for this transaction (postgres is not superuser on Supabase)
+  SET LOCAL row_security = off;
+
+  -- Security: caller must be who they say they are.
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'join_room_atomic: JWT uid does not match p_user_id';
+  END IF;
+
+  -- Username null/blank guard.
+  IF p_username IS NULL OR length(trim(p_username)) = 0 THEN
+    RAISE EXCEPTION 'Username cannot be blank';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('join_room_atomic'), hashtext(UPPER(p_room_code)));
+
+  -- Username consistency guard.
+  SELECT username INTO v_existing_username
+    FROM room_players WHERE user_id = p_user_id LIMIT 1;
+
+  IF v_existing_username IS NOT NULL AND LOWER(v_existing_username) != LOWER(p_username) THEN
+    IF NOT (v_existing_username LIKE 'Player_%') THEN
+      RAISE EXCEPTION 'You already have username "%". You cannot change your username.', v_existing_username;
+    END IF;
+  END IF;
+
+  -- Global username uniqueness.
+  IF EXISTS (
+    SELECT 1 FROM room_players
+    WHERE LOWER(username) = LOWER(p_username)
+      AND user_id != p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Username "%" is already taken by another user', p_username;
+  END IF;
+
+  SELECT id, status, host_id, COALESCE(max_players, 4)
+    INTO v_room_id, v_room_status, v_host_id, v_max_players
+    FROM rooms
+   WHERE code = UPPER(p_room_code);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found: %', p_room_code;
+  END IF;
+
+  IF v_room_status NOT IN ('waiting', 'playing') THEN
+    RAISE EXCEPTION 'Room is not accepting players (status: %)', v_room_status;
+  END IF;
+
+  -- Ghost eviction (lobby only)
+  IF v_room_status = 'waiting' THEN
+    DELETE FROM room_players
+     WHERE room_id      = v_room_id
+       AND is_bot       = FALSE
+       AND user_id     IS NOT NULL
+       AND user_id     != p_user_id
+       AND (last_seen_at IS NULL OR last_seen_at < NOW() - v_ghost_threshold);
+
+    SELECT host_id INTO v_host_id FROM rooms WHERE id = v_room_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Room was cleaned up after ghost eviction — all players were stale';
+    END IF;
+  END IF;
+
+  -- Idempotent: return existing record if already in the room.
+  IF EXISTS (SELECT 1 FROM room_players WHERE room_id = v_room_id AND user_id = p_user_id) THEN
+    SELECT jsonb_build_object(
+      'room_id', v_room_id, 'room_code', p_room_code,
+      'player_index', player_index, 'is_host', is_host, 'already_joined', true
+    ) INTO v_result
+    FROM room_players WHERE room_id = v_room_id AND user_id = p_user_id;
+    RETURN v_result;
+  END IF;
+
+  -- Blocked re-entry check (private rooms only)
+  IF EXISTS (
+    SELECT 1
+      FROM rooms
+     WHERE id            = v_room_id
+       AND COALESCE(is_matchmaking, FALSE) = FALSE
+       AND (is_public IS NULL OR is_public = FALSE)
+       AND p_user_id     = ANY(COALESCE(banned_user_ids, '{}'))
+  ) THEN
+    RAISE EXCEPTION 'You have been kicked from this private room and cannot rejoin';
+  END IF;
+
+  SELECT COUNT(*) INTO v_player_count FROM room_players WHERE room_id = v_room_id;
+
+  IF v_player_count >= v_max_players THEN
+    RAISE EXCEPTION 'Room is full (%/% players)', v_max_players, v_max_players;
+  END IF;
+
+  -- Stale-disconnect cleanup
+  DELETE FROM room_players
+   WHERE user_id = p_user_id
+     AND room_id != v_room_id
+     AND connection_status = 'disconnected'
+     AND room_id IN (
+           SELECT id FROM rooms
+            WHERE status IN ('playing', 'finished', 'game_over')
+         );
+
+  SELECT room_id INTO v_other_room FROM room_players WHERE user_id = p_user_id LIMIT 1;
+  IF v_other_room IS NOT NULL AND v_other_room != v_room_id THEN
+    RAISE EXCEPTION 'User already in another room';
+  END IF;
+
+  SELECT i INTO v_player_index
+    FROM generate_series(0, v_max_players - 1) AS i
+   WHERE NOT EXISTS (
+     SELECT 1 FROM room_players rp WHERE rp.room_id = v_room_id AND rp.player_index = i
+   )
+   ORDER BY i LIMIT 1;
+
+  IF v_player_index IS NULL THEN
+    RAISE EXCEPTION 'Room is full (no available positions)';
+  END IF;
+
+  -- Joiner becomes host when no host exists (all ghosts evicted -> host_id NULL).
+  v_is_host := (v_host_id IS NULL OR v_host_id = p_user_id);
+
+  INSERT INTO room_players(room_id, user_id, username, player_index, is_host, is_ready, is_bot, last_seen_at)
+  VALUES (v_room_id, p_user_id, p_username, v_player_index, v_is_host, false, false, NOW());
+
+  IF v_is_host THEN
+    UPDATE rooms SET host_id = p_user_id WHERE id = v_room_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'room_id', v_room_id, 'room_code', p_room_code,
+    'player_index', v_player_index, 'is_host', v_is_host, 'already_joined', false
+  );
+END;
+$function$;
+
+COMMENT ON FUNCTION join_room_atomic IS
+  'Joins a player to a room with ghost eviction, slot assignment, and host promotion. '
+  'The room is full at rooms.max_players; seats are taken from 0 upwards. '
+  'SET LOCAL row_security = off bypasses RLS (postgres is not superuser on Supabase).';
+
+REVOKE EXECUTE ON FUNCTION public.join_room_atomic(TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION public.join_room_atomic(TEXT, UUID, TEXT) TO authenticated;
+
+-- =============================================================================
+-- 7. get_or_create_rematch_room — the rematch keeps the table of the game
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.get_or_create_rematch_room(
+  p_source_room_id uuid,
+  p_user_id uuid,
+  p_username text,
+  p_is_public boolean,
+  p_is_matchmaking boolean,
+  p_ranked_mode boolean
+)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'pg_catalog'
+AS $function$
+DECLARE
+  v_existing_code   TEXT;
+  v_existing_id     UUID;
+  v_new_code        TEXT;
+  v_new_id          UUID;
+  v_join_result     JSONB;
+  v_collision_tries INTEGER := 0;
+  v_max_retries     INTEGER := 5;
+  v_max_players     INTEGER;
+  v_settings        JSONB;
+BEGIN
+  -- Bypass RLS for this transaction (postgres is not superuser on Supabase)
+  SET LOCAL row_security = off;
+
+  -- ── Guard: p_user_id must match the authenticated caller ──────────────
+  IF auth.uid() IS NOT NULL AND p_user_id != auth.uid() THEN
+    RAISE EXCEPTION 'get_or_create_rematch_room: p_user_id does not match authenticated user';
+  END IF;
+
+  -- ── Guard + atomic source-room cleanup ────────────────────────────────
+  IF EXISTS (
+    SELECT 1 FROM room_players
+     WHERE room_id = p_source_room_id AND user_id = p_user_id
+  ) THEN
+    DELETE FROM room_players
+     WHERE room_id = p_source_room_id AND user_id = p_user_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM game_history
+     WHERE room_id = p_source_room_id
+       AND p_user_id IN (player_1_id, player_2_id, player_3_id, player_4_id)
+  ) THEN
+    RAISE EXCEPTION 'get_or_create_rematch_room: user % is not a participant of room %',
+      p_user_id, p_source_room_id;
+  END IF;
+
+  -- ── The rematch is dealt at the same table as the game ────────────────
+  SELECT max_players,
+         CASE WHEN settings ? 'deal_variant'
+              THEN jsonb_build_object('deal_variant', settings->'deal_variant')
+              ELSE '{}'::JSONB END
+    INTO v_max_players, v_settings
+    FROM rooms
+   WHERE id = p_source_room_id;
+
+  -- ── A. Fast-path: a rematch room already exists ──────────────────────────
+  SELECT id, code
+    INTO v_existing_id, v_existing_code
+    FROM rooms
+   WHERE rematch_for_room_id = p_source_room_id
+   LIMIT 1;
+
+  IF FOUND THEN
+    v_join_result := join_room_atomic(v_existing_code, p_user_id, p_username);
+    RETURN jsonb_build_object(
+      'success',    true,
+      'room_id',    v_existing_id,
+      'room_code',  v_existing_code,
+      'is_host',    COALESCE((v_join_result->>'is_host')::BOOLEAN, false)
+    );
+  END IF;
+
+  -- ── B. No rematch room yet — race to create one ──────────────────────────
+  LOOP
+    v_collision_tries := v_collision_tries + 1;
+
+    BEGIN
+      v_new_code := generate_room_code_v2();
+
+      INSERT INTO rooms (
+        code, host_id, status, max_players, settings,
+        is_public, is_matchmaking, ranked_mode,
+        rematch_for_room_id, created_at
+      ) VALUES (
+        v_new_code, p_user_id, 'waiting', COALESCE(v_max_players, 4), COALESCE(v_settings, '{}'::JSONB),
+        p_is_public, p_is_matchmaking, p_ranked_mode,
+        p_source_room_id, NOW()
+      )
+      RETURNING id INTO v_new_id;
+
+      PERFORM join_room_atomic(v_new_code, p_user_id, p_username);
+
+      RETURN jsonb_build_object(
+        'success',   true,
+        'room_id',   v_new_id,
+        'room_code', v_new_code,
+        'is_host',   true
+      );
+
+    EXCEPTION
+      WHEN unique_violation THEN
+        SELECT id, code
+          INTO v_existing_id, v_existing_code
+          FROM rooms
+         WHERE rematch_for_room_id = p_source_room_id
+         LIMIT 1;
+
+        IF FOUND THEN
+          v_join_result := join_room_atomic(v_existing_code, p_user_id, p_username);
+          RETURN jsonb_build_object(
+            'success',   true,
+            'room_id',   v_existing_id,
+            'room_code', v_existing_code,
+            'is_host',   COALESCE((v_join_result->>'is_host')::BOOLEAN, false)
+          );
+        END IF;
+
+        IF v_collision_tries >= v_max_retries THEN
+          RAISE EXCEPTION 'get_or_create_rematch_room: failed after % collision attempts',
+            v_max_retries;
+        END IF;
+    END;
+  END LOOP;
+END;
+$function$;
+
+COMMENT ON FUNCTION get_or_create_rematch_room IS
+  'Atomically creates or joins a rematch room for Play Again, with the source room''s max_players and deal_variant. '
+  'SET LOCAL row_security = off bypasses RLS (postgres is not superuser on Supabase). '
+  'host_id is set to p_user_id to satisfy the RLS INSERT policy as a fallback.';
+
+REVOKE EXECUTE ON FUNCTION public.get_or_create_rematch_room(UUID, UUID, TEXT, BOOLEAN, BOOLEAN, BOOLEAN) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION public.get_or_create_rematch_room(UUID, UUID, TEXT, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
+
+-- =============================================================================
+-- 8. start_game_with_bots — bots fill the table; the deal follows its size
+-- =============================================================================
+CREATE OR REPLACE FUNCTION start_game_with_bots(
+  p_room_id UUID,
+  p_bot_count INTEGER,
+  p_bot_difficulty TEXT DEFAULT 'medium'
+)
+RETURNS JSON AS $$
+DECLARE
+  v_room RECORD;
+  v_human_count INTEGER;
+  v_total_players INTEGER;
+  v_coordinator_id UUID;
+  v_deck TEXT[];
+  v_shuffled_deck TEXT[];
+  v_player_hands JSONB;
+  v_i INTEGER;
+  v_starting_player INTEGER;
+  v_bot_indices INTEGER[];
+  v_bot_name TEXT;
+  v_bot_personality TEXT;   -- Host's pick for this seat (rooms.settings.bot_personalities)
+  v_caller_id UUID;
+  v_is_participant BOOLEAN;
+  v_unready_count INTEGER;  -- Task #623: count of non-host humans who are not ready
+  v_opening_card TEXT;      -- 3 of the lowest suit in the room's house rules ('D3' by default)
+  v_seed TEXT;              -- Secret deal seed (revealed by complete-game)
+  v_seat_rotation INTEGER := 0;  -- Duplicate table rotation
+  v_group_id UUID;          -- Duplicate group the room plays in, if any
+  v_max_players INTEGER;    -- Seats at the table (rooms.max_players)
+  v_deal_variant TEXT;      -- How a table of two or three is dealt
+  v_hand_size INTEGER;      -- 13, or 17 at a short 'extra-card' table
+  v_dealt INTEGER;          -- Cards dealt into hands before the extra card
+  v_suit_order TEXT[];      -- House-rule suit order, lowest first
+  v_ranks CONSTANT TEXT[] := ARRAY['3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', '2'];
+  v_lowest TEXT;            -- Lowest dealt card, traded for an undealt opening card
+  v_from INTEGER;
+  v_to INTEGER;
+  v_hand TEXT[];
+BEGIN
+  -- 🔒 SECURITY CHECK: Verify caller is in the room
+  v_caller_id := auth.uid();
+
+  IF v_caller_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be authenticated'
+    );
+  END IF;
+
+  -- Check if caller is a participant in the room
+  SELECT EXISTS(
+    SELECT 1 FROM room_players
+    WHERE room_id = p_room_id
+    AND user_id = v_caller_id
+  ) INTO v_is_participant;
+
+  IF NOT v_is_participant THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Must be a room participant to start game'
+    );
+  END IF;
+
+  -- 1. Get room and validate
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room not found',
+      'room_id', p_room_id
+    );
+  END IF;
+
+  IF v_room.status != 'waiting' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room is not in waiting status',
+      'current_status', v_room.status
+    );
+  END IF;
+
+  -- 2. Check ranked mode restriction (CRITICAL: Prevent bot injection in ranked games)
+  IF v_room.ranked_mode = true AND p_bot_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot add bots to ranked games'
+    );
+  END IF;
+
+  -- 3. Count human players against the table size
+  v_max_players := COALESCE(v_room.max_players, 4);
+  v_deal_variant := COALESCE(v_room.settings->>'deal_variant', 'extra-card');
+
+  SELECT COUNT(*) INTO v_human_count
+  FROM room_players
+  WHERE room_id = p_room_id AND is_bot = false;
+
+  v_total_players := v_human_count + p_bot_count;
+
+  IF v_total_players != v_max_players THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Total players must be ' || v_max_players,
+      'human_count', v_human_count,
+      'bot_count', p_bot_count
+    );
+  END IF;
+
+  -- 4. Find coordinator using the authoritative rooms.host_id.
+  --    Prefer this over ORDER BY joined_at: host transfer selects by lowest player_index,
+  --    so the host may not be the earliest-joined player.
+  v_coordinator_id := v_room.host_id;
+
+  IF v_coordinator_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Room host is not set'
+    );
+  END IF;
+
+  -- Verify the host is a non-bot participant in this room
+  PERFORM 1
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND user_id = v_coordinator_id
+    AND is_bot = false;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Host is not a valid human player in this room'
+    );
+  END IF;
+
+  -- 5. CRITICAL SECURITY: Verify caller is the coordinator
+  IF v_caller_id IS DISTINCT FROM v_coordinator_id THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Unauthorized: Only the room coordinator can start the game'
+    );
+  END IF;
+
+  -- 5.5. TASK #623 READY CHECK:
+  --      All non-host (non-coordinator), non-bot players must have is_ready = true.
+  --      The host/coordinator is the initiator and is implicitly ready.
+  --      Bots are always ready and are excluded from this check.
+  SELECT COUNT(*) INTO v_unready_count
+  FROM room_players
+  WHERE room_id = p_room_id
+    AND is_bot = false
+    AND user_id <> v_coordinator_id  -- exclude coordinator instead of relying on is_host
+    AND is_ready IS DISTINCT FROM true;  -- treat NULL as not-ready (defensive: column may be nullable)
+
+  IF v_unready_count > 0 THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Cannot start: ' || v_unready_count || ' player(s) are not ready',
+      'unready_count', v_unready_count
+    );
+  END IF;
+
+  -- 6. Bots take the free seats of the table, highest first
+  --    (at a full table of four with the humans in front: 3, then 2, then 1)
+  SELECT COALESCE(array_agg(i ORDER BY i DESC), ARRAY[]::INTEGER[]) INTO v_bot_indices
+    FROM generate_series(0, v_max_players - 1) AS i
+   WHERE NOT EXISTS (
+     SELECT 1 FROM room_players rp WHERE rp.room_id = p_room_id AND rp.player_index = i
+   );
+
+  IF COALESCE(array_length(v_bot_indices, 1), 0) < p_bot_count THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Not enough free seats for ' || p_bot_count || ' bot(s)'
+    );
+  END IF;
+
+  -- 7. Create bot players with correct indices, names and personalities
+  --    (bot i takes the i-th personality the host picked; NULL = balanced)
+  FOR v_i IN 1..p_bot_count LOOP
+    v_bot_name := 'Bot ' || (v_i + 1)::TEXT;
+    v_bot_personality := v_room.settings->'bot_personalities'->>(v_i - 1);
+
+    INSERT INTO room_players (
+      room_id,
+      user_id,
+      username,
+      is_bot,
+      bot_difficulty,
+      bot_personality,
+      player_index,
+      is_ready
+    )
+    VALUES (
+      p_room_id,
+      NULL, -- Bot players have no auth.users record; NULL bypasses the FK constraint
+            -- (room_players.user_id is nullable). All bot identification uses is_bot=true
+            -- and player_index rather than user_id.
+      v_bot_name,
+      true,
+      p_bot_difficulty,
+      v_bot_personality,
+      v_bot_indices[v_i],
+      true
+    );
+  END LOOP;
+
+  -- 8. Seeded deal: duplicate tables share their group's seed and rotate seats;
+  --    every other room gets a fresh seed. Seat i holds dealt hand (i + rotation) % n,
+  --    dealt as dealSeededHands deals it.
+  IF v_room.settings ? 'duplicate' THEN
+    SELECT id, seed INTO v_group_id, v_seed
+      FROM duplicate_groups
+     WHERE id = (v_room.settings->'duplicate'->>'groupId')::UUID;
+  END IF;
+
+  IF v_group_id IS NOT NULL THEN
+    v_seat_rotation := COALESCE((v_room.settings->'duplicate'->>'tableIndex')::INTEGER, 0);
+  ELSE
+    v_seed := replace(gen_random_uuid()::TEXT, '-', '');
+  END IF;
+
+  v_shuffled_deck := deal_seeded_deck(v_seed, 1);
+
+  SELECT COALESCE(array_agg(s ORDER BY o), ARRAY['D', 'C', 'H', 'S']) INTO v_suit_order
+    FROM jsonb_array_elements_text(v_room.settings->'rule_set'->'suitOrder') WITH ORDINALITY AS t(s, o);
+  v_opening_card := v_suit_order[1] || '3';
+
+  -- 13 each at four seats or with a dummy hand, otherwise 17 each
+  v_hand_size := CASE WHEN v_total_players = 4 OR v_deal_variant = 'dummy' THEN 13 ELSE 17 END;
+  v_dealt := v_total_players * v_hand_size;
+
+  -- An undealt opening card is traded for the lowest dealt card, so someone opens
+  IF v_dealt < 52 AND v_opening_card = ANY (v_shuffled_deck[(v_dealt + 1):52]) THEN
+    SELECT c INTO v_lowest
+      FROM unnest(v_shuffled_deck[1:v_dealt]) AS c
+     ORDER BY array_position(v_ranks, substr(c, 2)), array_position(v_suit_order, left(c, 1))
+     LIMIT 1;
+    v_from := array_position(v_shuffled_deck, v_lowest);
+    v_to := array_position(v_shuffled_deck, v_opening_card);
+    v_shuffled_deck[v_from] := v_opening_card;
+    v_shuffled_deck[v_to] := v_lowest;
+  END IF;
+
+  v_player_hands := '{}'::JSONB;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    v_hand := v_shuffled_deck[
+      (((v_i + v_seat_rotation) % v_total_players) * v_hand_size + 1):(((v_i + v_seat_rotation) % v_total_players + 1) * v_hand_size)
+    ];
+    -- Three seats of 17 leave one card: it goes to the opening card's holder
+    IF v_dealt = 51 AND v_opening_card = ANY (v_hand) THEN
+      v_hand := v_hand || v_shuffled_deck[52];
+    END IF;
+    v_player_hands := v_player_hands || jsonb_build_object(v_i::TEXT, to_jsonb(v_hand));
+  END LOOP;
+
+  INSERT INTO game_deal_seeds (room_id, seed, seed_hash, seat_rotation, duplicate_group_id)
+  VALUES (p_room_id, v_seed, encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'), v_seat_rotation, v_group_id)
+  ON CONFLICT (room_id) DO UPDATE SET
+    seed               = EXCLUDED.seed,
+    seed_hash          = EXCLUDED.seed_hash,
+    seat_rotation      = EXCLUDED.seat_rotation,
+    duplicate_group_id = EXCLUDED.duplicate_group_id,
+    created_at         = NOW();
+
+  -- Find starting player (who has the opening card: 3♦ unless house rules reorder suits)
+  v_starting_player := NULL;
+  FOR v_i IN 0..(v_total_players - 1) LOOP
+    IF v_player_hands->v_i::TEXT @> jsonb_build_array(v_opening_card) THEN
+      v_starting_player := v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_starting_player IS NULL THEN
+    v_starting_player := 0;
+  END IF;
+
+  -- 9. UPSERT game_state
+  INSERT INTO game_state (
+    room_id,
+    current_turn,
+    hands,
+    last_play,
+    passes,
+    round_number,
+    game_phase,
+    played_cards,
+    match_number,
+    play_history,
+    auto_pass_timer,
+    turn_started_at,
+    deal_seed_hash,
+    deal_seed
+  )
+  VALUES (
+    p_room_id,
+    v_starting_player,
+    v_player_hands,
+    NULL,
+    0,
+    1,
+    'first_play',
+    '[]'::JSONB,
+    1,
+    '[]'::JSONB,
+    NULL,
+    NOW(),
+    encode(sha256(convert_to(v_seed, 'UTF8')), 'hex'),
+    NULL
+  )
+  ON CONFLICT (room_id) DO UPDATE SET
+    current_turn    = EXCLUDED.current_turn,
+    hands           = EXCLUDED.hands,
+    last_play       = EXCLUDED.last_play,
+    passes          = EXCLUDED.passes,
+    round_number    = EXCLUDED.round_number,
+    game_phase      = EXCLUDED.game_phase,
+    played_cards    = EXCLUDED.played_cards,
+    match_number    = EXCLUDED.match_number,
+    play_history    = EXCLUDED.play_history,
+    auto_pass_timer = EXCLUDED.auto_pass_timer,
+    turn_started_at = NOW(),
+    deal_seed_hash  = EXCLUDED.deal_seed_hash,
+    deal_seed       = NULL,
+    updated_at      = NOW();
+
+  -- 10. Update room status to 'playing'
+  UPDATE rooms
+  SET status = 'playing', updated_at = NOW()
+  WHERE id = p_room_id;
+
+  -- 11. Success
+  RETURN json_build_object(
+    'success', true,
+    'room_id', p_room_id,
+    'starting_player', v_starting_player,
+    'total_players', v_total_players,
+    'bot_indices', v_bot_indices[1:p_bot_count]
+  );
+
+EXCEPTION WHEN OTHERS THEN
+  -- Do not expose internal schema/constraint details to the client.
+  -- Log server-side only; return a generic failure response.
+  RAISE WARNING '[start_game_with_bots] Unexpected error for room %: %', p_room_id, SQLERRM;
+  RETURN json_build_object('success', false, 'error', 'An unexpected error occurred. Please try again.');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) FROM PUBLIC;
+GRANT  EXECUTE ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION start_game_with_bots(UUID, INTEGER, TEXT) IS
+  'Start game with bots. Enforces: (1) authenticated caller, (2) caller is coordinator, '
+  '(3) all non-host human players are ready (Task #623), (4) humans + bots = rooms.max_players. '
+  'Bots take the free seats, highest first; online turns go 0→1→…→n-1→0. '
+  'The starting player holds the 3 of the lowest suit in rooms.settings.rule_set. '
+  'Cards are dealt from a secret seed (game_deal_seeds); only its SHA-256 is published. '
+  'Tables of two or three are dealt as rooms.settings.deal_variant says (as dealSeededHands). '
+  'Bots take the personalities in rooms.settings.bot_personalities, in seating order.';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration 20260801000020: online rooms seat two, three or four players.';
+END $$;